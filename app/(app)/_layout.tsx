@@ -3,7 +3,13 @@ import { Navigation } from "@/components/navigation";
 import { useAuth } from "@/contexts/auth-context";
 import { NavigationProvider, useNavigation } from "@/contexts/navigation-context";
 import { ViewModeProvider } from "@/contexts/view-mode-context";
+import { UI_DEV } from "@/lib/config";
+import { flushOutbox, getPendingMutations } from "@/lib/outbox";
+import { refreshVaultQueries } from "@/lib/query-utils";
+import { startRealtimeSync } from "@/lib/realtime-sync";
+import { useEventReminders } from "@/lib/use-event-reminders";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { getVaultUnlockedSnapshot, subscribeVault } from "@/lib/vault";
 import { useQueryClient } from "@tanstack/react-query";
 import { Redirect, Stack, usePathname } from "expo-router";
 import { useEffect, useRef, useState } from "react";
@@ -145,6 +151,21 @@ export default function AppLayout() {
     }
   }, [user?.id, queryClient]);
 
+  // Locking drops decrypted vault notes from the cache; unlocking loads them
+  useEffect(
+    () => subscribeVault(() => refreshVaultQueries(queryClient, !getVaultUnlockedSnapshot())),
+    [queryClient]
+  );
+
+  // Changes made on other devices arrive over Realtime instead of being polled for
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId || UI_DEV) return;
+    return startRealtimeSync(userId, queryClient);
+  }, [user?.id, queryClient]);
+
+  useEventReminders(user?.id);
+
   useEffect(() => {
     // When app comes to foreground (e.g. user switches browser tab back), do not
     // sync or invalidate notes — that was causing a Supabase notes request every time.
@@ -156,6 +177,19 @@ export default function AppLayout() {
         nextAppState === "active"
       ) {
         (global as any).__appWakeTime = Date.now();
+        // Replay writes queued while offline, then show the server's view of them
+        const userId = user?.id;
+        if (userId) {
+          getPendingMutations(userId)
+            .then(async (pending) => {
+              if (pending.length === 0) return;
+              await flushOutbox(userId);
+              USER_SCOPED_QUERY_KEYS.forEach((key) => {
+                queryClient.invalidateQueries({ queryKey: [key] });
+              });
+            })
+            .catch(() => {});
+        }
         Promise.all([
           queryClient.refetchQueries({
             queryKey: ["files"],
@@ -177,7 +211,7 @@ export default function AppLayout() {
     return () => {
       subscription.remove();
     };
-  }, [queryClient]);
+  }, [queryClient, user?.id]);
 
   if (isLoading) {
     return (
@@ -1,33 +1,50 @@
 "use client";
 
+import { CalendarAgenda } from "@/components/calendar-agenda";
+import { CalendarTimeGrid } from "@/components/calendar-time-grid";
 import { EventCard } from "@/components/event-card";
 import { EventModal } from "@/components/event-modal";
+import { TaskRow } from "@/components/task-row";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Text } from "@/components/ui/text";
 import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
+import { useViewMode, type CalendarView } from "@/contexts/view-mode-context";
 import {
+  compareEventInstances,
   expandEventsIntoInstances,
   formatDateDisplay,
   formatDateToLocalString,
+  isSpanningEvent,
+  layoutWeekBars,
+  occursOnDate,
   parseLocalDate,
   type ExpandedEvent,
 } from "@/lib/calendar-utils";
+import { eventTimeZone } from "@/lib/event-times";
 import {
   createEvent,
   deleteEvent,
+  deleteEventOccurrence,
   listEvents,
   updateEvent,
+  updateEventOccurrence,
+  type RecurrenceScope,
 } from "@/lib/events";
 import { NAV_BAR_HEIGHT } from "@/lib/layout";
-import { debounce, invalidateEventsQueries } from "@/lib/query-utils";
-import type { Event } from "@/lib/supabase";
+import { debounce, invalidateEventsQueries, QueryKeys } from "@/lib/query-utils";
+import { addDaysToDate } from "@/lib/recurrence";
+import type { Event, EventInput, EventUpdates } from "@/lib/supabase";
+import { compareTasks, listTasks } from "@/lib/tasks";
 import { THEME } from "@/lib/theme";
+import { utcToZonedTime } from "@/lib/timezones";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { useToggleTask } from "@/lib/use-toggle-task";
+import { cn } from "@/lib/utils";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
-import { Stack } from "expo-router";
+import { Stack, useRouter } from "expo-router";
 import { ChevronDown, ChevronUp, Plus, Search, X } from "lucide-react-native";
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
@@ -37,21 +54,44 @@ import {
   Pressable,
   RefreshControl,
   ScrollView,
+  useWindowDimensions,
   View
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+const VIEW_OPTIONS: { view: CalendarView; label: string }[] = [
+  { view: "month", label: "Month" },
+  { view: "week", label: "Week" },
+  { view: "day", label: "Day" },
+  { view: "agenda", label: "Agenda" },
+];
+
+/** The agenda starts with this many months from today and grows by as many when scrolled to its end. */
+const AGENDA_PAGE_MONTHS = 3;
+const MAX_AGENDA_MONTHS = 36;
+
 export default function CalendarScreen() {
   const { user } = useAuth();
+  const router = useRouter();
   const queryClient = useQueryClient();
   const { alert } = useAlert();
   const { colors } = useThemeColors();
   const insets = useSafeAreaInsets();
+  const { height: windowHeight } = useWindowDimensions();
+  const { getViewMode, setViewMode } = useViewMode();
+  const calendarView = getViewMode("calendar");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  /** Day the week and day views show. */
+  const [focusDate, setFocusDate] = useState(() => formatDateToLocalString(new Date()));
+  const [agendaMonths, setAgendaMonths] = useState(AGENDA_PAGE_MONTHS);
+  /** Hour slot tapped in the week or day view, used to prefill a new event. */
+  const [slotPrefill, setSlotPrefill] = useState<{ date: string; time: string } | null>(null);
   const [eventModalOpen, setEventModalOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  /** Occurrence of a recurring event opened for editing. */
+  const [editingInstanceDate, setEditingInstanceDate] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<{
     id: string;
@@ -61,6 +101,15 @@ export default function CalendarScreen() {
   // Track previous month to detect month changes
   const previousMonthRef = useRef<string | null>(null);
 
+  /** Move the week/day views to `date`, keeping the month (and what's fetched for it) in step. */
+  const changeFocusDate = (date: string) => {
+    setFocusDate(date);
+    const day = parseLocalDate(date);
+    if (day.getFullYear() !== currentMonth.getFullYear() || day.getMonth() !== currentMonth.getMonth()) {
+      setCurrentMonth(new Date(day.getFullYear(), day.getMonth(), 1));
+    }
+  };
+
   const {
     data: events = [],
     isLoading,
@@ -112,13 +161,7 @@ export default function CalendarScreen() {
   }, [currentMonth, user?.id, debouncedRefetch]);
 
   const createMutation = useMutation({
-    mutationFn: (input: {
-      user_id: string;
-      title: string;
-      description: string;
-      event_date: string;
-      repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-    }) => createEvent(input),
+    mutationFn: (input: EventInput) => createEvent(input),
     onSuccess: (createdEvent) => {
       // Optimistically add the newly created event so filters (including selectedDate) see it immediately
       queryClient.setQueryData<Event[]>(["events", user?.id], (old) =>
@@ -127,8 +170,13 @@ export default function CalendarScreen() {
 
       // Ensure the active date filter matches the created event's date
       if (createdEvent?.event_date) {
-        const createdDate = createdEvent.event_date.split("T")[0];
+        // event_date is in the event's own zone; a timed event may fall on another local day
+        const createdDate =
+          createdEvent.start_at && !createdEvent.all_day
+            ? formatDateToLocalString(new Date(createdEvent.start_at))
+            : createdEvent.event_date.split("T")[0];
         setSelectedDate(createdDate);
+        if (calendarView === "week" || calendarView === "day") changeFocusDate(createdDate);
       }
 
       invalidateEventsQueries(queryClient, user?.id);
@@ -142,14 +190,31 @@ export default function CalendarScreen() {
     },
   });
 
+  /** The stored series for an occurrence edit; occurrences only exist in the expanded list. */
+  const findSeries = (id: string): Event => {
+    const series = events.find((e) => e.id === id);
+    if (!series) throw new Error("Event not found");
+    return series;
+  };
+
   const updateMutation = useMutation({
-    mutationFn: ({
+    mutationFn: async ({
       id,
       updates,
+      scope,
+      instanceDate,
     }: {
       id: string;
-      updates: Partial<Pick<Event, "title" | "description" | "event_date" | "repeat_interval">>;
-    }) => updateEvent(id, updates),
+      updates: EventUpdates;
+      scope?: RecurrenceScope;
+      instanceDate?: string;
+    }) => {
+      if (scope && instanceDate) {
+        await updateEventOccurrence(findSeries(id), instanceDate, scope, updates);
+      } else {
+        await updateEvent(id, updates);
+      }
+    },
     onSuccess: () => {
       invalidateEventsQueries(queryClient, user?.id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -163,17 +228,21 @@ export default function CalendarScreen() {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: string) => {
+    mutationFn: async ({ id, scope, instanceDate }: { id: string; scope?: RecurrenceScope; instanceDate?: string }) => {
       console.log("deleteMutation.mutationFn called with id:", id);
       try {
-        await deleteEvent(id);
+        if (scope && instanceDate) {
+          await deleteEventOccurrence(findSeries(id), instanceDate, scope);
+        } else {
+          await deleteEvent(id);
+        }
         console.log("deleteMutation.mutationFn completed successfully");
       } catch (error) {
         console.error("deleteMutation.mutationFn error:", error);
         throw error;
       }
     },
-    onMutate: async (id: string) => {
+    onMutate: async ({ id, scope }) => {
       console.log("deleteMutation.onMutate called with id:", id);
       const eventsQueryKey = ["events", user?.id];
       // Cancel any outgoing refetches to avoid overwriting optimistic update
@@ -183,8 +252,8 @@ export default function CalendarScreen() {
       const previousEvents = queryClient.getQueryData<Event[]>(eventsQueryKey);
       console.log("Previous events count:", previousEvents?.length || 0);
 
-      // Optimistically update to the new value
-      if (previousEvents) {
+      // Optimistically update to the new value (only when the whole event goes away)
+      if (previousEvents && (!scope || scope === "all")) {
         queryClient.setQueryData<Event[]>(eventsQueryKey, (old) => {
           const filtered = old ? old.filter((event) => event.id !== id) : [];
           console.log("Optimistic update - new events count:", filtered.length);
@@ -194,7 +263,7 @@ export default function CalendarScreen() {
 
       return { previousEvents };
     },
-    onError: (error: any, id: string, context: any) => {
+    onError: (error: any, _variables, context: any) => {
       console.error("deleteMutation.onError called:", error);
       // Rollback to previous value on error
       if (context?.previousEvents) {
@@ -203,7 +272,7 @@ export default function CalendarScreen() {
       }
       alert("Error", error.message || "Failed to delete event");
     },
-    onSuccess: async (data, id: string) => {
+    onSuccess: async (data, { id }) => {
       console.log("deleteMutation.onSuccess called for id:", id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setDeleteDialogOpen(false);
@@ -230,7 +299,7 @@ export default function CalendarScreen() {
           style: "destructive",
           onPress: () => {
             console.log("Deleting event:", id);
-            deleteMutation.mutate(id);
+            deleteMutation.mutate({ id });
           },
         },
       ]);
@@ -240,7 +309,7 @@ export default function CalendarScreen() {
   const handleDeleteConfirm = () => {
     if (eventToDelete) {
       console.log("Deleting event:", eventToDelete.id);
-      deleteMutation.mutate(eventToDelete.id);
+      deleteMutation.mutate({ id: eventToDelete.id });
     }
   };
 
@@ -249,31 +318,79 @@ export default function CalendarScreen() {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
     setEditingEvent(null);
+    setEditingInstanceDate(null);
+    setSlotPrefill(null);
     setEventModalOpen(true);
   };
 
-  const handleOpenEditModal = (event: Event) => {
+  const handleOpenSlot = (date: string, time: string) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    setEditingEvent(null);
+    setEditingInstanceDate(null);
+    setSlotPrefill({ date, time });
+    setEventModalOpen(true);
+  };
+
+  const handleOpenEditModal = (event: Event, instanceDate: string | null = null) => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
     setEditingEvent(event);
+    setEditingInstanceDate(instanceDate);
     setEventModalOpen(true);
   };
 
+  /** Open an occurrence from any view: its series (or single event), at that occurrence. */
+  const handleOpenInstance = (instance: ExpandedEvent) => {
+    const originalEvent = events.find((e) => e.id === instance.id);
+    if (originalEvent) {
+      handleOpenEditModal(originalEvent, instance.isRecurring ? instance.instanceDate : null);
+    }
+  };
+
+  /**
+   * Save a drag in the week or day view. A dragged occurrence of a repeating event moves on its
+   * own, like editing "This event"; a single event is moved in the cache right away.
+   */
+  const handleReschedule = (instance: ExpandedEvent, start: Date, end: Date) => {
+    const original = events.find((e) => e.id === instance.id);
+    if (!original) return;
+    const timeZone = eventTimeZone(original);
+    const updates: EventUpdates = {
+      event_date: utcToZonedTime(start, timeZone),
+      timezone: timeZone,
+      start_at: start.toISOString(),
+      end_at: end.toISOString(),
+    };
+    if (instance.isRecurring) {
+      updateMutation.mutate({ id: instance.id, updates, scope: "this", instanceDate: instance.instanceDate });
+    } else {
+      queryClient.setQueryData<Event[]>(["events", user?.id], (old) =>
+        old?.map((e) => (e.id === instance.id ? { ...e, ...updates } : e))
+      );
+      updateMutation.mutate({ id: instance.id, updates });
+    }
+  };
+
   // Expand events into recurring instances (memoized to prevent unnecessary recalculations)
-  // Include events from 1 year ago to 1 year ahead to show past, present, and future events in calendar
+  // Include events from 1 year before to 1 year after the displayed month (and today)
   const expandedEvents = useMemo(() => {
     if (events.length === 0) return [];
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    const startDate = new Date(today);
-    startDate.setFullYear(startDate.getFullYear() - 1); // Include events from 1 year ago
-    const endDate = new Date(today);
-    endDate.setFullYear(endDate.getFullYear() + 1); // Show events up to 1 year ahead
+    const displayedMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+    const startDate = new Date(Math.min(today.getTime(), displayedMonth.getTime()));
+    startDate.setFullYear(startDate.getFullYear() - 1);
+    const endDate = new Date(Math.max(today.getTime(), displayedMonth.getTime()));
+    endDate.setFullYear(endDate.getFullYear() + 1);
+    // The agenda can be scrolled further out than that
+    const agendaEnd = new Date(today.getFullYear(), today.getMonth() + agendaMonths, 0);
 
-    return expandEventsIntoInstances(events, startDate, endDate);
-  }, [events]); // Only recalculate when events array changes
+    return expandEventsIntoInstances(events, startDate, new Date(Math.max(endDate.getTime(), agendaEnd.getTime())));
+  }, [events, currentMonth, agendaMonths]);
 
   // Get the start and end of the current month being displayed (memoized)
   const { monthStart, monthEnd, today } = useMemo(() => {
@@ -289,6 +406,8 @@ export default function CalendarScreen() {
   // Filter events based on search, selected date, and current month (memoized)
   const filteredEvents = useMemo(() => {
     const now = new Date(); // Current date and time
+    const monthStartKey = formatDateToLocalString(monthStart);
+    const monthEndKey = formatDateToLocalString(monthEnd);
 
     return expandedEvents
       .filter((event) => {
@@ -297,51 +416,95 @@ export default function CalendarScreen() {
           event.description.toLowerCase().includes(searchQuery.toLowerCase());
 
         if (selectedDate) {
-          const eventDate = event.instanceDate || event.event_date.split("T")[0];
-          // For selected date, show ALL events for that date (both past and future)
-          if (eventDate === selectedDate) {
-            return matchesSearch;
-          }
-          return false;
+          // For selected date, show ALL events on that date (both past and future)
+          return matchesSearch && occursOnDate(event, selectedDate);
         }
 
-        // Parse the full event datetime (date + time)
-        const eventDateTime = new Date(event.event_date);
-
-        // Check if event is in the current month
-        const eventDate = parseLocalDate(event.instanceDate || event.event_date.split("T")[0]);
-        const eventDateObj = new Date(eventDate);
-        eventDateObj.setHours(0, 0, 0, 0);
-        const isInCurrentMonth = eventDateObj >= monthStart && eventDateObj <= monthEnd;
-
-        // Only show events that are in the current month and datetime is in the future
-        const isUpcoming = eventDateTime > now;
+        // Only show events that overlap the current month and haven't ended yet
+        const isInCurrentMonth = event.startDay <= monthEndKey && event.endDay >= monthStartKey;
+        const isUpcoming = event.end > now;
 
         return matchesSearch && isInCurrentMonth && isUpcoming;
       })
-      .sort((a, b) => {
-        // Sort by date first
-        const dateA = a.instanceDate || a.event_date.split("T")[0];
-        const dateB = b.instanceDate || b.event_date.split("T")[0];
-        if (dateA !== dateB) {
-          return dateA.localeCompare(dateB);
-        }
-        // If same date, sort by time
-        const timeA = a.event_date.includes("T") && a.event_date.split("T")[1]
-          ? a.event_date.split("T")[1].substring(0, 5)
-          : "10:00";
-        const timeB = b.event_date.includes("T") && b.event_date.split("T")[1]
-          ? b.event_date.split("T")[1].substring(0, 5)
-          : "10:00";
-        return timeA.localeCompare(timeB);
-      });
+      // By first day, then all-day events before timed ones
+      .sort((a, b) => a.startDay.localeCompare(b.startDay) || compareEventInstances(a, b));
   }, [expandedEvents, searchQuery, selectedDate, monthStart, monthEnd, today]);
 
+  // Tasks with a due date (lib/tasks.ts) are shown alongside events
+  const { data: tasks = [], refetch: refetchTasks } = useQuery({
+    queryKey: QueryKeys.noteTasks(user?.id),
+    queryFn: () => listTasks(user?.id),
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+    placeholderData: (previousData) => previousData,
+    retry: false,
+  });
+  const handleToggleTask = useToggleTask(user?.id);
+  const todayKey = formatDateToLocalString(today);
+
+  const taskDates = useMemo(
+    () => new Set(tasks.filter((task) => task.due && !task.checked).map((task) => task.due!)),
+    [tasks]
+  );
+
+  // Selected date: its tasks, done or not. Otherwise open tasks due this month from today on.
+  const visibleTasks = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    const monthStartKey = formatDateToLocalString(monthStart);
+    const monthEndKey = formatDateToLocalString(monthEnd);
+    return tasks
+      .filter((task) => {
+        if (!task.due || !task.text.toLowerCase().includes(query)) return false;
+        if (selectedDate) return task.due === selectedDate;
+        return !task.checked && task.due >= monthStartKey && task.due <= monthEndKey && task.due >= todayKey;
+      })
+      .sort((a, b) => a.due!.localeCompare(b.due!) || compareTasks(a, b));
+  }, [tasks, searchQuery, selectedDate, monthStart, monthEnd, todayKey]);
+
+  // Week and day views: the days shown, and every occurrence that matches the search
+  const visibleDays = useMemo(() => {
+    if (calendarView === "day") return [focusDate];
+    const weekStart = addDaysToDate(focusDate, -parseLocalDate(focusDate).getDay());
+    return Array.from({ length: 7 }, (_, i) => addDaysToDate(weekStart, i));
+  }, [calendarView, focusDate]);
+
+  const searchedEvents = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    if (!query) return expandedEvents;
+    return expandedEvents.filter(
+      (event) => event.title.toLowerCase().includes(query) || event.description.toLowerCase().includes(query)
+    );
+  }, [expandedEvents, searchQuery]);
+
+  const agendaTo = formatDateToLocalString(new Date(today.getFullYear(), today.getMonth() + agendaMonths, 0));
+
+  const periodTitle = (() => {
+    const first = parseLocalDate(visibleDays[0]);
+    if (calendarView === "day") {
+      return first.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+    }
+    const last = parseLocalDate(visibleDays[visibleDays.length - 1]);
+    const short = (date: Date) => date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+    return `${short(first)} – ${short(last)}, ${last.getFullYear()}`;
+  })();
+
+  const movePeriod = (direction: 1 | -1) => {
+    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    changeFocusDate(addDaysToDate(focusDate, direction * (calendarView === "day" ? 1 : 7)));
+  };
+
+  const handleSelectView = (view: CalendarView) => {
+    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Week and day views open on the day picked in the month view, if any
+    if (view === "week" || view === "day") changeFocusDate(selectedDate ?? focusDate);
+    setViewMode("calendar", view);
+  };
+
   const onRefresh = async () => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
-    await refetch();
+    await Promise.all([refetch(), refetchTasks()]);
     if (Platform.OS !== "web") {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
@@ -431,6 +594,27 @@ export default function CalendarScreen() {
               </Pressable>
             ) : null}
           </View>
+
+          {/* Month / week / day / agenda */}
+          <View className="mx-4 mb-1 flex-row rounded-xl border border-border bg-muted p-1">
+            {VIEW_OPTIONS.map(({ view, label }) => (
+              <Pressable
+                key={view}
+                onPress={() => handleSelectView(view)}
+                className={cn("flex-1 items-center rounded-lg py-1.5", calendarView === view && "bg-background")}
+              >
+                <Text
+                  style={{
+                    color: calendarView === view ? colors.foreground : colors.mutedForeground,
+                    fontSize: 13,
+                    fontWeight: calendarView === view ? "600" : "500",
+                  }}
+                >
+                  {label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
         </View>
 
         <ScrollView
@@ -439,6 +623,15 @@ export default function CalendarScreen() {
             padding: 16,
             paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
           }}
+          scrollEventThrottle={200}
+          onScroll={(e) => {
+            if (calendarView !== "agenda" || agendaMonths >= MAX_AGENDA_MONTHS) return;
+            const { contentOffset, contentSize, layoutMeasurement } = e.nativeEvent;
+            // Load more months when nearly at the end of the agenda
+            if (contentOffset.y + layoutMeasurement.height >= contentSize.height - 400) {
+              setAgendaMonths((months) => Math.min(months + AGENDA_PAGE_MONTHS, MAX_AGENDA_MONTHS));
+            }
+          }}
           refreshControl={
             <RefreshControl
               progressBackgroundColor={colors.background}
@@ -449,90 +642,178 @@ export default function CalendarScreen() {
             />
           }
         >
-          {/* Calendar always visible — mb-7 matches space above (my-3 + p-4 = 28px) */}
-          <View className="w-full max-w-2xl mx-auto mb-7">
-            <CustomCalendar
-              events={expandedEvents}
-              selectedDate={selectedDate}
-              onDateSelect={setSelectedDate}
-              currentMonth={currentMonth}
-              onMonthChange={setCurrentMonth}
-            />
-          </View>
+          {calendarView === "week" || calendarView === "day" ? (
+            <View className="w-full max-w-3xl mx-auto">
+              <View className="mb-3 flex-row items-center justify-between">
+                <View style={{ flexDirection: "row", alignItems: "center", gap: 4 }}>
+                  <Pressable onPress={() => movePeriod(-1)}>
+                    <Text style={{ color: colors.foreground, fontSize: 18, fontWeight: "600", padding: 8 }}>‹</Text>
+                  </Pressable>
+                  <Text style={{ color: colors.foreground, fontSize: 16, fontWeight: "600" }}>{periodTitle}</Text>
+                  <Pressable onPress={() => movePeriod(1)}>
+                    <Text style={{ color: colors.foreground, fontSize: 18, fontWeight: "600", padding: 8 }}>›</Text>
+                  </Pressable>
+                </View>
+                <Pressable
+                  onPress={() => changeFocusDate(todayKey)}
+                  style={{
+                    paddingHorizontal: 12,
+                    paddingVertical: 6,
+                    backgroundColor: colors.accent,
+                    borderRadius: 6,
+                  }}
+                >
+                  <Text style={{ color: colors.foreground, fontSize: 12, fontWeight: "500" }}>Today</Text>
+                </Pressable>
+              </View>
+              <CalendarTimeGrid
+                days={visibleDays}
+                events={searchedEvents}
+                height={Math.max(windowHeight * 0.6, 360)}
+                onPressEvent={handleOpenInstance}
+                onPressSlot={handleOpenSlot}
+                onPressDay={
+                  calendarView === "week"
+                    ? (date) => {
+                        changeFocusDate(date);
+                        setViewMode("calendar", "day");
+                      }
+                    : undefined
+                }
+                onReschedule={handleReschedule}
+              />
+            </View>
+          ) : calendarView === "agenda" ? (
+            <View className="w-full max-w-2xl mx-auto">
+              {isLoading ? (
+                <View className="flex-1 justify-center items-center pt-12">
+                  <ActivityIndicator size="small" color={colors.foreground} />
+                </View>
+              ) : (
+                <CalendarAgenda
+                  events={searchedEvents}
+                  from={todayKey}
+                  to={agendaTo}
+                  todayKey={todayKey}
+                  onPressEvent={handleOpenInstance}
+                />
+              )}
+            </View>
+          ) : (
+            <>
+            {/* Calendar always visible — mb-7 matches space above (my-3 + p-4 = 28px) */}
+            <View className="w-full max-w-2xl mx-auto mb-7">
+              <CustomCalendar
+                events={expandedEvents}
+                taskDates={taskDates}
+                selectedDate={selectedDate}
+                onDateSelect={setSelectedDate}
+                currentMonth={currentMonth}
+                onMonthChange={setCurrentMonth}
+              />
+            </View>
 
-          {/* Selected Date Indicator */}
-          {selectedDate && (
-            <View className="w-full max-w-2xl mx-auto mb-4">
-              <Pressable
-                onPress={() => setSelectedDate(null)}
-                className="flex-row items-center justify-between p-3 rounded-lg border border-border bg-muted"
-              >
+            {/* Selected Date Indicator */}
+            {selectedDate && (
+              <View className="w-full max-w-2xl mx-auto mb-4">
+                <Pressable
+                  onPress={() => setSelectedDate(null)}
+                  className="flex-row items-center justify-between p-3 rounded-lg border border-border bg-muted"
+                >
+                  <Text
+                    style={{
+                      color: colors.foreground,
+                      fontSize: 14,
+                      fontWeight: "500",
+                    }}
+                  >
+                    Showing events for: {formatDateDisplay(selectedDate)}
+                  </Text>
+                  <X color={colors.mutedForeground} size={18} />
+                </Pressable>
+              </View>
+            )}
+
+            {/* Tasks due on the selected date / this month */}
+            {visibleTasks.length > 0 && (
+              <View className="w-full max-w-2xl mx-auto mb-6">
                 <Text
                   style={{
-                    color: colors.foreground,
+                    color: colors.mutedForeground,
                     fontSize: 14,
-                    fontWeight: "500",
+                    fontWeight: "600",
+                    textTransform: "uppercase",
+                    marginBottom: 8,
                   }}
                 >
-                  Showing events for: {formatDateDisplay(selectedDate)}
+                  Tasks
                 </Text>
-                <X color={colors.mutedForeground} size={18} />
-              </Pressable>
-            </View>
-          )}
+                <View className="rounded-lg border border-border bg-muted">
+                  {visibleTasks.map((task, index) => (
+                    <View
+                      key={`${task.noteId}:${task.lineIndex}`}
+                      className={cn(index > 0 && "border-t border-border")}
+                    >
+                      <TaskRow
+                        task={task}
+                        onToggle={handleToggleTask}
+                        onOpenNote={(t) => router.push(`/(app)/note/${t.noteId}`)}
+                        overdue={!task.checked && task.due! < todayKey}
+                      />
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
 
-          {/* Events List */}
-          {!selectedDate && (
-            <View className="w-full max-w-2xl mx-auto mb-2">
-              <Text
-                style={{
-                  color: colors.mutedForeground,
-                  fontSize: 14,
-                  fontWeight: "600",
-                  textTransform: "uppercase",
-                }}
-              >
-                Upcoming
-              </Text>
-            </View>
-          )}
-          {isLoading ? (
-            <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-12">
-              <ActivityIndicator size="small" color={colors.foreground} />
-              <Text className="text-sm text-muted-foreground mt-2">
-                Loading events...
-              </Text>
-            </View>
-          ) : filteredEvents.length === 0 ? (
-            <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-24">
-              <Text className="text-xl font-semibold text-muted-foreground mb-2">
-                {searchQuery || selectedDate
-                  ? "No events found"
-                  : "No upcoming events"}
-              </Text>
-              <Text className="text-sm text-muted-foreground text-center">
-                {searchQuery || selectedDate
-                  ? "Try a different search or date"
-                  : "Tap the + button to create your first event"}
-              </Text>
-            </View>
-          ) : (
-            <View className="w-full max-w-2xl mx-auto">
-              {filteredEvents.map((event, index) => (
-                <EventCard
-                  key={`${event.id}-${event.instanceDate || event.event_date.split("T")[0]}-${index}`}
-                  event={event}
-                  onSelectDate={setSelectedDate}
-                  onEdit={() => {
-                    // Find the original event (not the instance) for editing
-                    const originalEvent = events.find(e => e.id === event.id);
-                    if (originalEvent) {
-                      handleOpenEditModal(originalEvent);
-                    }
+            {/* Events List */}
+            {!selectedDate && (
+              <View className="w-full max-w-2xl mx-auto mb-2">
+                <Text
+                  style={{
+                    color: colors.mutedForeground,
+                    fontSize: 14,
+                    fontWeight: "600",
+                    textTransform: "uppercase",
                   }}
-                />
-              ))}
-            </View>
+                >
+                  Upcoming
+                </Text>
+              </View>
+            )}
+            {isLoading ? (
+              <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-12">
+                <ActivityIndicator size="small" color={colors.foreground} />
+                <Text className="text-sm text-muted-foreground mt-2">
+                  Loading events...
+                </Text>
+              </View>
+            ) : filteredEvents.length === 0 ? (
+              <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-24">
+                <Text className="text-xl font-semibold text-muted-foreground mb-2">
+                  {searchQuery || selectedDate
+                    ? "No events found"
+                    : "No upcoming events"}
+                </Text>
+                <Text className="text-sm text-muted-foreground text-center">
+                  {searchQuery || selectedDate
+                    ? "Try a different search or date"
+                    : "Tap the + button to create your first event"}
+                </Text>
+              </View>
+            ) : (
+              <View className="w-full max-w-2xl mx-auto">
+                {filteredEvents.map((event, index) => (
+                  <EventCard
+                    key={`${event.id}-${event.instanceDate || event.event_date.split("T")[0]}-${index}`}
+                    event={event}
+                    onSelectDate={setSelectedDate}
+                    onEdit={() => handleOpenInstance(event)}
+                  />
+                ))}
+              </View>
+            )}
+            </>
           )}
         </ScrollView>
       </View>
@@ -545,7 +826,12 @@ export default function CalendarScreen() {
           setEditingEvent(null);
         }}
         event={editingEvent}
-        prefillDate={selectedDate}
+        instanceDate={editingInstanceDate}
+        prefillDate={
+          slotPrefill?.date ??
+          (calendarView === "week" || calendarView === "day" ? focusDate : calendarView === "month" ? selectedDate : null)
+        }
+        prefillTime={slotPrefill?.time}
         onCreate={createMutation.mutate}
         onUpdate={updateMutation.mutate}
         onDelete={deleteMutation.mutate}
@@ -708,9 +994,18 @@ export default function CalendarScreen() {
   );
 }
 
+/** Day marker for open tasks due that day (events use the primary color). */
+const TASK_DOT_COLOR = "#f59e0b";
+
+/** All-day and multi-day events are drawn as bars across the month grid, at most this many per week. */
+const MAX_BAR_LANES = 2;
+const BAR_HEIGHT = 16;
+
 // Custom Calendar Component
 interface CustomCalendarProps {
   events: ExpandedEvent[];
+  /** YYYY-MM-DD dates with open tasks due; marked with a second dot. */
+  taskDates: Set<string>;
   selectedDate: string | null;
   onDateSelect: (date: string | null) => void;
   currentMonth: Date;
@@ -719,6 +1014,7 @@ interface CustomCalendarProps {
 
 function CustomCalendar({
   events,
+  taskDates,
   selectedDate,
   onDateSelect,
   currentMonth,
@@ -756,20 +1052,29 @@ function CustomCalendar({
   };
 
   const days = getDaysInMonth(currentMonth);
+  const weeks: (Date | null)[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    const week = days.slice(i, i + 7);
+    while (week.length < 7) week.push(null);
+    weeks.push(week);
+  }
   const monthName = currentMonth.toLocaleDateString("en-US", {
     month: "long",
     year: "numeric",
   });
 
-  const hasEventOnDate = (date: Date | null): boolean => {
+  const spanningEvents = useMemo(() => events.filter(isSpanningEvent), [events]);
+
+  /** `dotsOnly` leaves out events drawn as bars (expanded grid). */
+  const hasEventOnDate = (date: Date | null, dotsOnly = false): boolean => {
     if (!date) return false;
     const dateStr = formatDateToLocalString(date);
-    return events.some((event) => {
-      const eventDate = event.instanceDate || event.event_date.split("T")[0];
-      return eventDate === dateStr;
-    });
+    return events.some((event) => occursOnDate(event, dateStr) && !(dotsOnly && isSpanningEvent(event)));
   };
 
+  const hasTaskOnDate = (date: Date | null): boolean =>
+    !!date && taskDates.has(formatDateToLocalString(date));
+
   const isWeekend = (date: Date | null): boolean => {
     if (!date) return false;
     const dayOfWeek = date.getDay();
@@ -780,8 +1085,7 @@ function CustomCalendar({
     if (!date) return false;
     const dateStr = formatDateToLocalString(date);
     return events.some((event) => {
-      const eventDate = event.instanceDate || event.event_date.split("T")[0];
-      if (eventDate === dateStr) {
+      if (occursOnDate(event, dateStr)) {
         const titleLower = event.title.toLowerCase();
         const descriptionLower = (event.description || "").toLowerCase();
         return (
@@ -1102,6 +1406,7 @@ function CustomCalendar({
         >
           {datesInMonth.map((date, index) => {
             const hasEvent = hasEventOnDate(date);
+            const hasTask = hasTaskOnDate(date);
             const selected = isSelected(date);
             const todayDate = isToday(date);
             const dayName = date.toLocaleDateString("en-US", { weekday: "short" });
@@ -1163,18 +1468,24 @@ function CustomCalendar({
                 >
                   {date.getDate()}
                 </Text>
-                {hasEvent && (
-                  <View
-                    style={{
-                      marginTop: 4,
-                      width: 4,
-                      height: 4,
-                      borderRadius: 2,
-                      backgroundColor: selected
-                        ? colors.primaryForeground
-                        : colors.primary,
-                    }}
-                  />
+                {(hasEvent || hasTask) && (
+                  <View style={{ flexDirection: "row", gap: 3, marginTop: 4 }}>
+                    {hasEvent && (
+                      <View
+                        style={{
+                          width: 4,
+                          height: 4,
+                          borderRadius: 2,
+                          backgroundColor: selected
+                            ? colors.primaryForeground
+                            : colors.primary,
+                        }}
+                      />
+                    )}
+                    {hasTask && (
+                      <View style={{ width: 4, height: 4, borderRadius: 2, backgroundColor: TASK_DOT_COLOR }} />
+                    )}
+                  </View>
                 )}
               </Pressable>
             );
@@ -1283,86 +1594,163 @@ function CustomCalendar({
         })}
       </View>
 
-      {/* Calendar Grid */}
-      <View
-        style={{
-          flexDirection: "row",
-          flexWrap: "wrap",
-        }}
-      >
-        {days.map((date, index) => {
-          const hasEvent = hasEventOnDate(date);
-          const selected = isSelected(date);
-          const todayDate = isToday(date);
-          const showRed = shouldShowRedText(date);
+      {/* Calendar Grid: one row per week, with all-day and multi-day events as bars under the days */}
+      {weeks.map((week, weekIndex) => {
+        const { bars, hidden } = layoutWeekBars(week, spanningEvents, MAX_BAR_LANES);
+        const lanes = bars.reduce((count, bar) => Math.max(count, bar.lane + 1), 0);
+        const hasHidden = hidden.some((count) => count > 0);
 
-          return (
-            <Pressable
-              key={index}
-              onPress={() => handleDatePress(date)}
-              style={{
-                width: "14.28%",
-                aspectRatio: 1,
-                alignItems: "center",
-                justifyContent: "center",
-                padding: 4,
-              }}
-            >
-              {date ? (
-                <View
-                  style={{
-                    width: "100%",
-                    height: "100%",
-                    alignItems: "center",
-                    justifyContent: "center",
-                    borderRadius: 8,
-                    backgroundColor: selected
-                      ? colors.primary
-                      : todayDate
-                        ? colors.accent
-                        : "transparent",
-                    // Reserve border space when today so dimensions don't change on select
-                    borderWidth: todayDate ? 2 : 0,
-                    borderColor: colors.primary,
-                  }}
-                >
-                  <Text
+        return (
+          <View key={weekIndex}>
+            <View style={{ flexDirection: "row" }}>
+              {week.map((date, index) => {
+                const hasEvent = hasEventOnDate(date, true);
+                const hasTask = hasTaskOnDate(date);
+                const selected = isSelected(date);
+                const todayDate = isToday(date);
+                const showRed = shouldShowRedText(date);
+
+                return (
+                  <Pressable
+                    key={index}
+                    onPress={() => handleDatePress(date)}
                     style={{
-                      color: selected
-                        ? colors.primaryForeground
-                        : showRed
-                          ? "#ef4444"
-                          : todayDate
+                      width: "14.28%",
+                      aspectRatio: 1,
+                      alignItems: "center",
+                      justifyContent: "center",
+                      padding: 4,
+                    }}
+                  >
+                    {date ? (
+                      <View
+                        style={{
+                          width: "100%",
+                          height: "100%",
+                          alignItems: "center",
+                          justifyContent: "center",
+                          borderRadius: 8,
+                          backgroundColor: selected
                             ? colors.primary
-                            : colors.foreground,
-                      fontSize: 14,
-                      fontWeight: selected || todayDate ? "600" : "400",
+                            : todayDate
+                              ? colors.accent
+                              : "transparent",
+                          // Reserve border space when today so dimensions don't change on select
+                          borderWidth: todayDate ? 2 : 0,
+                          borderColor: colors.primary,
+                        }}
+                      >
+                        <Text
+                          style={{
+                            color: selected
+                              ? colors.primaryForeground
+                              : showRed
+                                ? "#ef4444"
+                                : todayDate
+                                  ? colors.primary
+                                  : colors.foreground,
+                            fontSize: 14,
+                            fontWeight: selected || todayDate ? "600" : "400",
+                          }}
+                        >
+                          {date.getDate()}
+                        </Text>
+                        {(hasEvent || hasTask) && (
+                          <View style={{ position: "absolute", bottom: 2, flexDirection: "row", gap: 3 }}>
+                            {hasEvent && (
+                              <View
+                                style={{
+                                  width: 4,
+                                  height: 4,
+                                  borderRadius: 2,
+                                  backgroundColor: selected
+                                    ? colors.primaryForeground
+                                    : colors.primary,
+                                }}
+                              />
+                            )}
+                            {hasTask && (
+                              <View style={{ width: 4, height: 4, borderRadius: 2, backgroundColor: TASK_DOT_COLOR }} />
+                            )}
+                          </View>
+                        )}
+                      </View>
+                    ) : (
+                      <View />
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {(lanes > 0 || hasHidden) && (
+              <View
+                style={{
+                  height: (lanes + (hasHidden ? 1 : 0)) * (BAR_HEIGHT + 2),
+                  marginBottom: 4,
+                }}
+              >
+                {bars.map((bar) => (
+                  <Pressable
+                    key={`${bar.event.id}-${bar.event.instanceDate}`}
+                    onPress={() => handleDatePress(week[bar.startCol])}
+                    style={{
+                      position: "absolute",
+                      top: bar.lane * (BAR_HEIGHT + 2),
+                      left: `${(bar.startCol / 7) * 100}%`,
+                      width: `${((bar.endCol - bar.startCol + 1) / 7) * 100}%`,
+                      height: BAR_HEIGHT,
+                      paddingLeft: bar.continuesBefore ? 0 : 2,
+                      paddingRight: bar.continuesAfter ? 0 : 2,
                     }}
                   >
-                    {date.getDate()}
-                  </Text>
-                  {hasEvent && (
                     <View
+                      style={{
+                        flex: 1,
+                        justifyContent: "center",
+                        paddingHorizontal: 4,
+                        backgroundColor: colors.primary,
+                        borderTopLeftRadius: bar.continuesBefore ? 0 : 4,
+                        borderBottomLeftRadius: bar.continuesBefore ? 0 : 4,
+                        borderTopRightRadius: bar.continuesAfter ? 0 : 4,
+                        borderBottomRightRadius: bar.continuesAfter ? 0 : 4,
+                      }}
+                    >
+                      <Text
+                        numberOfLines={1}
+                        style={{ color: colors.primaryForeground, fontSize: 10, fontWeight: "500" }}
+                      >
+                        {bar.event.title}
+                      </Text>
+                    </View>
+                  </Pressable>
+                ))}
+                {hidden.map((count, col) =>
+                  count > 0 ? (
+                    <Pressable
+                      key={`more-${col}`}
+                      onPress={() => handleDatePress(week[col])}
                       style={{
                         position: "absolute",
-                        bottom: 2,
-                        width: 4,
-                        height: 4,
-                        borderRadius: 2,
-                        backgroundColor: selected
-                          ? colors.primaryForeground
-                          : colors.primary,
+                        top: lanes * (BAR_HEIGHT + 2),
+                        left: `${(col / 7) * 100}%`,
+                        width: `${100 / 7}%`,
+                        height: BAR_HEIGHT,
+                        alignItems: "center",
+                        justifyContent: "center",
                       }}
-                    />
-                  )}
-                </View>
-              ) : (
-                <View />
-              )}
-            </Pressable>
-          );
-        })}
-      </View>
+                    >
+                      <Text style={{ color: colors.mutedForeground, fontSize: 10, fontWeight: "500" }}>
+                        +{count}
+                      </Text>
+                    </Pressable>
+                  ) : null
+                )}
+              </View>
+            )}
+          </View>
+        );
+      })}
 
       {/* Collapse Button - Bottom Middle */}
       <View
@@ -4,6 +4,7 @@ import { FileCard, FileListCard } from "@/components/file-card";
 import { FileUploadModal } from "@/components/file-upload-modal";
 import { LongPressOptionsModal } from "@/components/long-press-options-modal";
 import { MoveToFolderModal } from "@/components/move-to-folder-modal";
+import { ShareModal } from "@/components/share-modal";
 import { Input } from "@/components/ui/input";
 import { Text } from "@/components/ui/text";
 import { useAlert } from "@/contexts/alert-context";
@@ -12,6 +13,7 @@ import { useViewMode } from "@/contexts/view-mode-context";
 import { archiveFile, listFiles, updateFile, uploadFile } from "@/lib/files";
 import { listFolders } from "@/lib/folders";
 import { NAV_BAR_HEIGHT } from "@/lib/layout";
+import { isTempId } from "@/lib/outbox";
 import { invalidateFilesQueries, invalidateFoldersQueries } from "@/lib/query-utils";
 import type { File as FileRecord } from "@/lib/supabase";
 import { THEME } from "@/lib/theme";
@@ -104,6 +106,7 @@ export default function FilesScreen() {
   const [fileToAction, setFileToAction] = useState<FileRecord | null>(null);
   const [moveModalOpen, setMoveModalOpen] = useState(false);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [fileToShare, setFileToShare] = useState<FileRecord | null>(null);
   const { handleFilePress, PreviewModal } = useFilePreview();
 
   const archiveMutation = useMutation({
@@ -170,6 +173,12 @@ export default function FilesScreen() {
     setMoveModalOpen(true);
   };
 
+  const openShareModal = () => {
+    setOptionsModalOpen(false);
+    setFileToShare(selectedFile);
+    setSelectedFile(null);
+  };
+
   const handleMoveConfirm = () => {
     if (!selectedFile) return;
     moveFileMutation.mutate({
@@ -464,8 +473,23 @@ export default function FilesScreen() {
         title={selectedFile?.name ?? "File"}
         onMove={openMoveModal}
         onArchive={openArchiveConfirm}
+        onShare={selectedFile && !isTempId(selectedFile.id) ? openShareModal : undefined}
       />
 
+      {fileToShare && (
+        <ShareModal
+          visible
+          onClose={() => setFileToShare(null)}
+          kind="file"
+          itemId={fileToShare.id}
+          shareToken={fileToShare.share_token}
+          onShareTokenChange={(token) => {
+            setFileToShare((prev) => (prev ? { ...prev, share_token: token } : prev));
+            invalidateFilesQueries(queryClient, user?.id);
+          }}
+        />
+      )}
+
       <MoveToFolderModal
         visible={moveModalOpen}
         onClose={closeMoveModal}
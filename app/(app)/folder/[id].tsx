@@ -2,38 +2,62 @@
 
 import { FileCard, FileListCard, formatFileSize } from "@/components/file-card";
 import { FileUploadModal } from "@/components/file-upload-modal";
+import { FolderCard } from "@/components/folder-card";
 import { LongPressOptionsModal } from "@/components/long-press-options-modal";
 import { MoveToFolderModal } from "@/components/move-to-folder-modal";
 import { NoteCard } from "@/components/note-card";
+import { ShareModal } from "@/components/share-modal";
+import { VaultUnlockModal } from "@/components/vault-unlock-modal";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent } from "@/components/ui/tabs";
 import { Text } from "@/components/ui/text";
 import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
 import { archiveFile, listFilesByFolder, updateFile, uploadFile } from "@/lib/files";
-import { getFolderById, listFolders } from "@/lib/folders";
+import { getChildFolders, getFolderPath } from "@/lib/folder-tree";
+import { createFolder, getFolderById, listFolders } from "@/lib/folders";
 import { archiveNote, getUnsyncedNoteIds, listNotesByFolder, updateNote } from "@/lib/notes";
+import { isTempId } from "@/lib/outbox";
 import { invalidateFilesQueries, invalidateFoldersQueries, invalidateNotesListQueries } from "@/lib/query-utils";
-import type { File as FileRecord, Note } from "@/lib/supabase";
+import type { File as FileRecord, Folder as FolderRecord, Note } from "@/lib/supabase";
 import { THEME } from "@/lib/theme";
 import { useFilePreview } from "@/lib/use-file-preview";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { useVault } from "@/lib/use-vault";
+import { isFolderInVault } from "@/lib/vault";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import { ArrowLeft, FileText, Files, Folder, LayoutGrid, Plus, Rows2, Search, X } from "lucide-react-native";
+import {
+  ArrowLeft,
+  ChevronRight,
+  FileText,
+  Files,
+  Folder,
+  FolderPlus,
+  LayoutGrid,
+  Lock,
+  LockOpen,
+  Plus,
+  Rows2,
+  Search,
+  Share2,
+  X,
+} from "lucide-react-native";
 import { NAV_BAR_HEIGHT } from "@/lib/layout";
 import { useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Dimensions,
+  Modal,
   Platform,
   Pressable,
   RefreshControl,
   ScrollView,
   View,
 } from "react-native";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 const gap = 12;
@@ -118,6 +142,19 @@ export default function FolderDetailScreen() {
     staleTime: 2 * 60 * 1000,
   });
 
+  // Ancestors come from the active folders list; the screen still works (flat) before it loads
+  const folderPath = id ? getFolderPath(folders, id) : [];
+  const parentFolder = folderPath.length > 1 ? folderPath[folderPath.length - 2] : null;
+  const { unlocked: vaultUnlocked, lock: lockVault } = useVault(user?.id);
+  const inVault = !!folder?.is_vault || (!!id && isFolderInVault(folders, id));
+  // Encrypted notes are left out of the list while locked, so show the locked state instead
+  const vaultLocked = inVault && !vaultUnlocked;
+  const subfolders = id
+    ? getChildFolders(folders, id)
+        .filter((f) => !searchQuery.trim() || f.name.toLowerCase().includes(searchQuery.toLowerCase()))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
   // No refetch on mount/focus — useQuery fetches when cache is empty; create/update uses setQueryData; move refetches only affected folders.
 
   const [optionsModalOpen, setOptionsModalOpen] = useState(false);
@@ -133,6 +170,14 @@ export default function FolderDetailScreen() {
   const [areViewModesLoaded, setAreViewModesLoaded] = useState(false);
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
   const [, setDropdownTriggerWidth] = useState(0);
+  const [createSubfolderOpen, setCreateSubfolderOpen] = useState(false);
+  const [subfolderNameInput, setSubfolderNameInput] = useState("");
+  const [vaultModalOpen, setVaultModalOpen] = useState(false);
+  const [shareTarget, setShareTarget] = useState<{
+    kind: "folder" | "file";
+    id: string;
+    shareToken: string | null;
+  } | null>(null);
 
   const archiveNoteMutation = useMutation({
     mutationFn: (noteId: string) => archiveNote(noteId),
@@ -167,6 +212,16 @@ export default function FolderDetailScreen() {
     },
   });
 
+  const createSubfolderMutation = useMutation({
+    mutationFn: (name: string) => createFolder({ user_id: user!.id, name, parent_id: id ?? null }),
+    onSuccess: () => {
+      invalidateFoldersQueries(queryClient, user?.id);
+      if (Platform.OS !== "web") Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setSubfolderNameInput("");
+      setCreateSubfolderOpen(false);
+    },
+  });
+
   const moveNoteMutation = useMutation({
     mutationFn: ({ noteId, folderId }: { noteId: string; folderId: string | null }) =>
       updateNote(noteId, { folder_id: folderId }),
@@ -181,6 +236,9 @@ export default function FolderDetailScreen() {
       setSelectedFolderId(null);
       setDropdownTriggerWidth(0);
     },
+    onError: (error) => {
+      alert("Couldn't move note", error instanceof Error ? error.message : "Please try again");
+    },
   });
 
   const moveFileMutation = useMutation({
@@ -262,18 +320,34 @@ export default function FolderDetailScreen() {
   const handlePlusPress = () => {
     if (!user?.id || !id) return;
     if (activeTab === "notes") {
+      if (vaultLocked) {
+        setVaultModalOpen(true);
+        return;
+      }
       router.push(`/(app)/note/new?folderId=${id}`);
     } else {
       setUploadModalOpen(true);
     }
   };
 
+  const openFolder = (target: FolderRecord, replace = false) => {
+    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const href = `/(app)/folder/${target.id}?name=${encodeURIComponent(target.name)}` as never;
+    if (replace) router.replace(href);
+    else router.push(href);
+  };
+
+  const handleCreateSubfolder = () => {
+    const name = subfolderNameInput.trim();
+    if (!name || !user?.id || !id) return;
+    createSubfolderMutation.mutate(name);
+  };
+
   const handleUploadToFolder = async (params: {
     file: { uri: string | globalThis.File; name: string; type: string; size: number };
   }) => {
     if (!user?.id || !id) return;
-    const createdFile = await uploadFile({ user_id: user.id, file: params.file });
-    await updateFile(createdFile.id, { folder_id: id });
+    await uploadFile({ user_id: user.id, file: params.file, folder_id: id });
     invalidateFilesQueries(queryClient, user.id);
     invalidateFoldersQueries(queryClient, user.id);
     alert("Success", "File uploaded to this folder");
@@ -320,6 +394,30 @@ export default function FolderDetailScreen() {
     setMoveModalOpen(true);
   };
 
+  const openFolderShare = () => {
+    if (!folder) return;
+    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setShareTarget({ kind: "folder", id: folder.id, shareToken: folder.share_token ?? null });
+  };
+
+  const openFileShare = () => {
+    if (selectedItem?.type !== "file") return;
+    setShareTarget({ kind: "file", id: selectedItem.item.id, shareToken: selectedItem.item.share_token ?? null });
+    setOptionsModalOpen(false);
+    setSelectedItem(null);
+  };
+
+  const handleShareTokenChange = (token: string | null) => {
+    setShareTarget((prev) => (prev ? { ...prev, shareToken: token } : prev));
+    if (shareTarget?.kind === "folder") {
+      queryClient.invalidateQueries({ queryKey: ["folder", id] });
+      invalidateFoldersQueries(queryClient, user?.id);
+    } else {
+      queryClient.invalidateQueries({ queryKey: ["folderFiles", id] });
+      invalidateFilesQueries(queryClient, user?.id);
+    }
+  };
+
   const handleMoveConfirm = () => {
     if (!selectedItem) return;
     if (selectedItem.type === "note") {
@@ -335,6 +433,18 @@ export default function FolderDetailScreen() {
     setSelectedFolderId(null);
   };
 
+  const subfolderList =
+    subfolders.length > 0 ? (
+      <View style={{ width: cardWidth, alignSelf: "center", marginBottom: 20 }}>
+        <Text className="mb-2 text-sm font-medium text-muted-foreground">Folders</Text>
+        {subfolders.map((subfolder, index) => (
+          <View key={subfolder.id} style={{ marginBottom: index < subfolders.length - 1 ? gap : 0 }}>
+            <FolderCard folder={subfolder} cardWidth={cardWidth} onPress={() => openFolder(subfolder)} />
+          </View>
+        ))}
+      </View>
+    ) : null;
+
   const onRefresh = async () => {
     if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     await Promise.all([refetchNotes(), refetchFiles()]);
@@ -364,6 +474,10 @@ export default function FolderDetailScreen() {
           <View style={{ flexDirection: "row", alignItems: "center", flex: 1 }}>
             <Pressable
               onPress={() => {
+                if (parentFolder) {
+                  openFolder(parentFolder, true);
+                  return;
+                }
                 if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                 router.replace("/folders");
               }}
@@ -391,6 +505,42 @@ export default function FolderDetailScreen() {
               paddingRight: 8,
             }}
           >
+            {inVault && (
+              <Pressable
+                onPress={() => {
+                  if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  if (vaultUnlocked) lockVault();
+                  else setVaultModalOpen(true);
+                }}
+                style={{ paddingVertical: 8 }}
+                accessibilityLabel={vaultUnlocked ? "Lock vault" : "Unlock vault"}
+              >
+                {vaultUnlocked ? (
+                  <LockOpen color={colors.foreground} size={22} />
+                ) : (
+                  <Lock color={colors.foreground} size={22} />
+                )}
+              </Pressable>
+            )}
+            {folder && !isTempId(folder.id) && !inVault && (
+              <Pressable
+                onPress={openFolderShare}
+                style={{ paddingVertical: 8 }}
+                accessibilityLabel="Share folder"
+              >
+                <Share2 color={colors.foreground} size={22} />
+              </Pressable>
+            )}
+            <Pressable
+              onPress={() => {
+                setSubfolderNameInput("");
+                setCreateSubfolderOpen(true);
+              }}
+              style={{ paddingVertical: 8 }}
+              accessibilityLabel="New subfolder"
+            >
+              <FolderPlus color={colors.foreground} size={22} />
+            </Pressable>
             <Pressable
               onPress={toggleViewMode}
               style={{ paddingVertical: 8 }}
@@ -409,6 +559,36 @@ export default function FolderDetailScreen() {
             </Pressable>
           </View>
         </View>
+        {folderPath.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ alignItems: "center", paddingHorizontal: 16, paddingBottom: 10 }}
+          >
+            <Pressable onPress={() => router.replace("/folders")} hitSlop={6}>
+              <Text className="text-sm text-muted-foreground">Folders</Text>
+            </Pressable>
+            {folderPath.map((crumb, index) => {
+              const isCurrent = index === folderPath.length - 1;
+              return (
+                <View key={crumb.id} style={{ flexDirection: "row", alignItems: "center" }}>
+                  <ChevronRight color={colors.mutedForeground} size={14} style={{ marginHorizontal: 4 }} />
+                  {isCurrent ? (
+                    <Text className="text-sm font-medium text-foreground" numberOfLines={1}>
+                      {crumb.name}
+                    </Text>
+                  ) : (
+                    <Pressable onPress={() => openFolder(crumb, true)} hitSlop={6}>
+                      <Text className="text-sm text-muted-foreground" numberOfLines={1}>
+                        {crumb.name}
+                      </Text>
+                    </Pressable>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+        )}
       </View>
 
       <FileUploadModal
@@ -461,7 +641,32 @@ export default function FolderDetailScreen() {
           </View>
 
           <TabsContent value="notes" className="flex-1 -mt-2" style={{ flex: 1 }}>
-            {notesLoading ? (
+            {vaultLocked ? (
+              <ScrollView
+                className="flex-1"
+                style={{ flex: 1 }}
+                contentContainerStyle={{
+                  padding: 16,
+                  paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
+                  flexGrow: 0,
+                }}
+              >
+                {subfolderList}
+                <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-24">
+                  <Lock color={colors.mutedForeground} size={48} style={{ marginBottom: 16 }} />
+                  <Text className="text-xl font-semibold text-muted-foreground mb-2">This vault is locked</Text>
+                  <Text className="text-sm text-muted-foreground text-center mb-4">
+                    Unlock it with your vault passphrase to see its notes
+                  </Text>
+                  <Pressable
+                    onPress={() => setVaultModalOpen(true)}
+                    className="rounded-md border border-border bg-muted px-4 py-2.5"
+                  >
+                    <Text className="font-semibold text-foreground">Unlock</Text>
+                  </Pressable>
+                </View>
+              </ScrollView>
+            ) : notesLoading ? (
               <View className="flex-1 justify-center items-center" style={{ flex: 1 }}>
                 <ActivityIndicator size="large" color={colors.foreground} />
               </View>
@@ -484,6 +689,7 @@ export default function FolderDetailScreen() {
                   />
                 }
               >
+                {subfolderList}
                 {filteredNotes.length === 0 ? (
                   <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-24">
                     <Folder color={colors.mutedForeground} size={48} style={{ marginBottom: 16 }} />
@@ -601,6 +807,7 @@ export default function FolderDetailScreen() {
                   />
                 }
               >
+                {subfolderList}
                 {filteredFiles.length === 0 ? (
                   <View className="w-full max-w-2xl mx-auto flex-1 justify-center items-center pt-24">
                     <Folder color={colors.mutedForeground} size={48} style={{ marginBottom: 16 }} />
@@ -689,6 +896,91 @@ export default function FolderDetailScreen() {
         </Tabs>
       </View>
 
+      {/* Create Subfolder Modal */}
+      {Platform.OS === "web" ? (
+        createSubfolderOpen && (
+          <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <Pressable className="absolute inset-0" onPress={() => setCreateSubfolderOpen(false)} />
+            <Pressable className="w-full max-w-md rounded-lg border border-border bg-muted p-6 shadow-lg" onPress={(e) => e.stopPropagation()}>
+              <Text className="mb-5 text-xl font-semibold text-foreground">
+                New folder in "{folderName}"
+              </Text>
+              <View className="mb-6">
+                <Text className="mb-2 text-sm font-medium text-foreground">
+                  Name
+                </Text>
+                <Input
+                  value={subfolderNameInput}
+                  onChangeText={setSubfolderNameInput}
+                  placeholder="Folder name"
+                  className="border-border bg-background text-foreground"
+                />
+              </View>
+              <View className="flex-row justify-end gap-3">
+                <Pressable className="rounded-md px-4 py-2.5" onPress={() => setCreateSubfolderOpen(false)}>
+                  <Text className="text-foreground">Cancel</Text>
+                </Pressable>
+                <Pressable
+                  className="rounded-md py-2.5 pl-4"
+                  onPress={handleCreateSubfolder}
+                  disabled={createSubfolderMutation.isPending}
+                >
+                  <Text className="font-semibold text-blue-500">
+                    {createSubfolderMutation.isPending ? "Creating…" : "Create"}
+                  </Text>
+                </Pressable>
+              </View>
+            </Pressable>
+          </View>
+        )
+      ) : (
+        <Modal
+          visible={createSubfolderOpen}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setCreateSubfolderOpen(false)}
+        >
+          <KeyboardAvoidingView className="flex-1" behavior="padding">
+            <View className="flex-1 items-center justify-center bg-black/50 p-4">
+              <Pressable className="absolute inset-0" onPress={() => setCreateSubfolderOpen(false)} />
+              <Pressable
+                className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg"
+                onPress={(e) => e.stopPropagation()}
+              >
+                <Text className="mb-5 text-xl font-semibold text-foreground">
+                  New folder in "{folderName}"
+                </Text>
+                <View className="mb-6">
+                  <Text className="mb-2 text-sm font-medium text-foreground">
+                    Name
+                  </Text>
+                  <Input
+                    value={subfolderNameInput}
+                    onChangeText={setSubfolderNameInput}
+                    placeholder="Folder name"
+                    className="border-border bg-background text-foreground"
+                  />
+                </View>
+                <View className="w-full flex-row justify-between items-center">
+                  <Pressable className="rounded-md py-2.5 pr-4" onPress={() => setCreateSubfolderOpen(false)}>
+                    <Text className="text-foreground">Cancel</Text>
+                  </Pressable>
+                  <Pressable
+                    className="rounded-md py-2.5 pl-4"
+                    onPress={handleCreateSubfolder}
+                    disabled={createSubfolderMutation.isPending}
+                  >
+                    <Text className="font-semibold text-blue-500">
+                      {createSubfolderMutation.isPending ? "Creating…" : "Create"}
+                    </Text>
+                  </Pressable>
+                </View>
+              </Pressable>
+            </View>
+          </KeyboardAvoidingView>
+        </Modal>
+      )}
+
       <LongPressOptionsModal
         visible={optionsModalOpen}
         onClose={closeOptionsModal}
@@ -699,8 +991,24 @@ export default function FolderDetailScreen() {
         }
         onMove={openMoveModal}
         onArchive={handleArchiveFromOptions}
+        onShare={
+          selectedItem?.type === "file" && !isTempId(selectedItem.item.id) ? openFileShare : undefined
+        }
       />
 
+      {shareTarget && (
+        <ShareModal
+          visible
+          onClose={() => setShareTarget(null)}
+          kind={shareTarget.kind}
+          itemId={shareTarget.id}
+          shareToken={shareTarget.shareToken}
+          onShareTokenChange={handleShareTokenChange}
+        />
+      )}
+
+      <VaultUnlockModal visible={vaultModalOpen} onClose={() => setVaultModalOpen(false)} />
+
       <MoveToFolderModal
         visible={moveModalOpen}
         onClose={closeMoveModal}
@@ -1,8 +1,11 @@
 "use client";
 
 import { FolderCard } from "@/components/folder-card";
+import { MoveToFolderModal } from "@/components/move-to-folder-modal";
 import { Input } from "@/components/ui/input";
 import { Text } from "@/components/ui/text";
+import { VaultUnlockModal } from "@/components/vault-unlock-modal";
+import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
 import { useViewMode } from "@/contexts/view-mode-context";
 import {
@@ -11,15 +14,18 @@ import {
   listFolders,
   updateFolder,
 } from "@/lib/folders";
+import { getChildFolders } from "@/lib/folder-tree";
 import { CARD_LIST_MAX_WIDTH, NAV_BAR_HEIGHT } from "@/lib/layout";
-import { invalidateFoldersQueries } from "@/lib/query-utils";
+import { invalidateFoldersQueries, invalidateNotesQueries } from "@/lib/query-utils";
 import type { Folder } from "@/lib/supabase";
 import { THEME } from "@/lib/theme";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { useVault } from "@/lib/use-vault";
+import { isFolderInVault } from "@/lib/vault";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import { Stack, useRouter } from "expo-router";
-import { LayoutGrid, Plus, Rows2, Search, X } from "lucide-react-native";
+import { LayoutGrid, Lock, LockOpen, Plus, Rows2, Search, X } from "lucide-react-native";
 import { useEffect, useState } from "react";
 import {
   ActivityIndicator,
@@ -44,12 +50,18 @@ export default function FoldersScreen() {
   const { colors } = useThemeColors();
   const insets = useSafeAreaInsets();
   const { getViewMode, toggleViewMode } = useViewMode();
+  const { alert } = useAlert();
+  const vault = useVault(user?.id);
   const [searchQuery, setSearchQuery] = useState("");
   const [createFolderModalOpen, setCreateFolderModalOpen] = useState(false);
   const [folderNameInput, setFolderNameInput] = useState("");
   const [editingFolder, setEditingFolder] = useState<Folder | null>(null);
   const [editFolderNameInput, setEditFolderNameInput] = useState("");
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
+  const [movingFolder, setMovingFolder] = useState<Folder | null>(null);
+  const [moveTargetFolderId, setMoveTargetFolderId] = useState<string | null>(null);
+  /** Folder to turn into a vault (or back) once the vault is unlocked. */
+  const [pendingVaultFolder, setPendingVaultFolder] = useState<Folder | null>(null);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [screenWidth, setScreenWidth] = useState(() => {
     if (Platform.OS === "web") {
@@ -130,6 +142,32 @@ export default function FoldersScreen() {
     },
   });
 
+  const moveFolderMutation = useMutation({
+    mutationFn: ({ id, parentId }: { id: string; parentId: string | null }) =>
+      updateFolder(id, { parent_id: parentId }, { userId: user?.id }),
+    onSuccess: () => {
+      invalidateFoldersQueries(queryClient, user?.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setMovingFolder(null);
+    },
+    onError: (error: Error) => {
+      alert("Couldn't move folder", error.message);
+    },
+  });
+
+  const vaultFolderMutation = useMutation({
+    mutationFn: ({ id, isVault }: { id: string; isVault: boolean }) =>
+      updateFolder(id, { is_vault: isVault }, { userId: user?.id }),
+    onSuccess: () => {
+      invalidateFoldersQueries(queryClient, user?.id);
+      invalidateNotesQueries(queryClient, user?.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: (error: Error) => {
+      alert("Couldn't change vault", error.message);
+    },
+  });
+
   const archiveFolderMutation = useMutation({
     mutationFn: (id: string) => archiveFolder(id, { userId: user?.id }),
     onSuccess: () => {
@@ -140,7 +178,8 @@ export default function FoldersScreen() {
     },
   });
 
-  const filteredFolders = folders
+  // Subfolders live inside their parent; a search looks through every level
+  const filteredFolders = (searchQuery ? folders : getChildFolders(folders, null))
     .filter((folder) =>
       folder.name.toLowerCase().includes(searchQuery.toLowerCase())
     )
@@ -168,6 +207,55 @@ export default function FoldersScreen() {
     updateFolderMutation.mutate({ id: editingFolder.id, name });
   };
 
+  const openMoveFolderModal = () => {
+    if (!editingFolder) return;
+    setMovingFolder(editingFolder);
+    setMoveTargetFolderId(editingFolder.parent_id ?? null);
+    closeEditFolderModal();
+  };
+
+  const handleMoveFolderConfirm = () => {
+    if (!movingFolder) return;
+    if ((movingFolder.parent_id ?? null) === moveTargetFolderId) {
+      setMovingFolder(null);
+      return;
+    }
+    moveFolderMutation.mutate({ id: movingFolder.id, parentId: moveTargetFolderId });
+  };
+
+  /** Make the folder a vault or a regular folder again; unlock first, since its notes are re-encrypted. */
+  const toggleVault = (folder: Folder) => {
+    closeEditFolderModal();
+    if (!vault.unlocked) {
+      setPendingVaultFolder(folder);
+      return;
+    }
+    vaultFolderMutation.mutate({ id: folder.id, isVault: !folder.is_vault });
+  };
+
+  const renderVaultToggle = () => {
+    // A folder inside a vault is encrypted with it; only the vault folder itself can be switched
+    if (!editingFolder || isFolderInVault(folders, editingFolder.parent_id)) return null;
+    const VaultIcon = editingFolder.is_vault ? LockOpen : Lock;
+    return (
+      <Pressable
+        className="mb-6 flex-row items-center gap-3 rounded-md border border-border bg-background px-4 py-3 active:bg-accent"
+        onPress={() => toggleVault(editingFolder)}
+        disabled={vaultFolderMutation.isPending}
+      >
+        <VaultIcon color={colors.foreground} size={18} />
+        <View className="flex-1">
+          <Text className="text-foreground">{editingFolder.is_vault ? "Remove vault" : "Make vault"}</Text>
+          <Text className="text-xs text-muted-foreground">
+            {editingFolder.is_vault
+              ? "Decrypt the notes in this folder and its subfolders"
+              : "Encrypt the notes in this folder and its subfolders. Vault notes can't be shared."}
+          </Text>
+        </View>
+      </Pressable>
+    );
+  };
+
   const openArchiveConfirm = () => {
     if (editingFolder) {
       setArchiveDialogOpen(true);
@@ -401,10 +489,16 @@ export default function FoldersScreen() {
                   className="border-border bg-background text-foreground"
                 />
               </View>
+              {renderVaultToggle()}
               <View className="flex-row items-center justify-between gap-3">
-                <Pressable onPress={openArchiveConfirm} className="rounded-md px-4 py-2.5">
-                  <Text className="font-semibold text-red-500">Archive</Text>
-                </Pressable>
+                <View className="flex-row">
+                  <Pressable onPress={openArchiveConfirm} className="rounded-md px-4 py-2.5">
+                    <Text className="font-semibold text-red-500">Archive</Text>
+                  </Pressable>
+                  <Pressable onPress={openMoveFolderModal} className="rounded-md px-4 py-2.5">
+                    <Text className="text-foreground">Move</Text>
+                  </Pressable>
+                </View>
                 <View className="flex-row gap-3">
                   <Pressable className="rounded-md px-4 py-2.5" onPress={closeEditFolderModal}>
                     <Text className="text-foreground">Cancel</Text>
@@ -460,10 +554,16 @@ export default function FoldersScreen() {
                           className="border-border bg-background text-foreground"
                         />
                       </View>
+                      {renderVaultToggle()}
                       <View className="flex-row items-center justify-between gap-3">
-                        <Pressable onPress={openArchiveConfirm} className="rounded-md px-4 py-2.5">
-                          <Text className="font-semibold text-red-500">Archive</Text>
-                        </Pressable>
+                        <View className="flex-row">
+                          <Pressable onPress={openArchiveConfirm} className="rounded-md px-4 py-2.5">
+                            <Text className="font-semibold text-red-500">Archive</Text>
+                          </Pressable>
+                          <Pressable onPress={openMoveFolderModal} className="rounded-md px-4 py-2.5">
+                            <Text className="text-foreground">Move</Text>
+                          </Pressable>
+                        </View>
                         <View className="flex-row gap-3">
                           <Pressable className="rounded-md px-4 py-2.5" onPress={closeEditFolderModal}>
                             <Text className="text-foreground">Cancel</Text>
@@ -482,6 +582,29 @@ export default function FoldersScreen() {
         )
       ) : null}
 
+      <VaultUnlockModal
+        visible={!!pendingVaultFolder}
+        onClose={() => setPendingVaultFolder(null)}
+        onUnlocked={() => {
+          if (pendingVaultFolder) {
+            vaultFolderMutation.mutate({ id: pendingVaultFolder.id, isVault: !pendingVaultFolder.is_vault });
+          }
+        }}
+      />
+
+      <MoveToFolderModal
+        visible={!!movingFolder}
+        onClose={() => setMovingFolder(null)}
+        itemName={movingFolder?.name ?? ""}
+        selectedFolderId={moveTargetFolderId}
+        onSelectFolder={setMoveTargetFolderId}
+        folders={folders}
+        onMoveConfirm={handleMoveFolderConfirm}
+        isPending={moveFolderMutation.isPending}
+        excludeFolderId={movingFolder?.id}
+        noFolderLabel="Top level"
+      />
+
       {/* Archive confirmation dialog */}
       {Platform.OS === "web" ? (
         archiveDialogOpen && (
@@ -495,7 +618,7 @@ export default function FoldersScreen() {
                 Archive Folder
               </Text>
               <Text className="mb-6 text-sm text-muted-foreground">
-                Are you sure you want to archive "{editingFolder?.name}"? You can restore it from the archive later.
+                Are you sure you want to archive "{editingFolder?.name}" and its subfolders? You can restore it from the archive later.
               </Text>
               <View className="flex-row justify-end gap-3">
                 <Pressable
@@ -533,7 +656,7 @@ export default function FoldersScreen() {
                 Archive Folder
               </Text>
               <Text className="mb-6 text-sm text-muted-foreground">
-                Are you sure you want to archive "{editingFolder?.name}"? You can restore it from the archive later.
+                Are you sure you want to archive "{editingFolder?.name}" and its subfolders? You can restore it from the archive later.
               </Text>
               <View className="flex-row justify-end gap-3">
                 <Pressable
@@ -7,6 +7,8 @@ import { FileUploadModal } from "@/components/file-upload-modal";
 import { LongPressOptionsModal } from "@/components/long-press-options-modal";
 import { MoveToFolderModal } from "@/components/move-to-folder-modal";
 import { NoteCard } from "@/components/note-card";
+import { TagChip } from "@/components/tag-filter-bar";
+import { TemplatePickerModal } from "@/components/template-picker-modal";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -23,15 +25,23 @@ import { createEvent, listEvents } from "@/lib/events";
 import { archiveFile, listFiles, updateFile, uploadFile } from "@/lib/files";
 import { listFolders } from "@/lib/folders";
 import { NAV_BAR_HEIGHT } from "@/lib/layout";
-import { archiveNote, getUnsyncedNoteIds, listNotes, updateNote } from "@/lib/notes";
-import { invalidateEventsQueries, invalidateFilesQueries, invalidateFoldersQueries, invalidateNotesListQueries } from "@/lib/query-utils";
-import type { File as FileRecord, Note } from "@/lib/supabase";
+import {
+  createDailyNote,
+  findDailyNote,
+  getDailyNoteTemplateId,
+  listTemplates,
+  setDailyNoteTemplateId,
+} from "@/lib/note-templates";
+import { archiveNote, getUnsyncedNoteIds, listNotes, listTagCounts, updateNote } from "@/lib/notes";
+import { invalidateEventsQueries, invalidateFilesQueries, invalidateFoldersQueries, invalidateNotesListQueries, QueryKeys } from "@/lib/query-utils";
+import type { EventInput, File as FileRecord, Note } from "@/lib/supabase";
+import { getChildTags } from "@/lib/tags";
 import { useFilePreview } from "@/lib/use-file-preview";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import { Stack, useRouter } from "expo-router";
-import { Calendar, FileText, Files, LayoutGrid, Pin, Plus, Rows2 } from "lucide-react-native";
+import { Calendar, CalendarCheck, FileText, Files, Hash, LayoutGrid, Pin, Plus, Rows2 } from "lucide-react-native";
 import { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
@@ -50,6 +60,7 @@ const containerPadding = 16;
 const sectionGap = 24;
 const cardGap = 12;
 const maxWidth = 672;
+const maxHomeTags = 12;
 
 const transicon = require("@/assets/images/transicon.png");
 
@@ -78,6 +89,9 @@ export default function HomeScreen() {
     return Dimensions.get("window").width;
   });
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
+  const [dailyTemplates, setDailyTemplates] = useState<Note[] | null>(null);
+  const [dailyTemplateId, setDailyTemplateId] = useState<string | null>(null);
+  const [isOpeningDailyNote, setIsOpeningDailyNote] = useState(false);
 
   const viewMode = getViewMode("home");
 
@@ -138,10 +152,19 @@ export default function HomeScreen() {
     retry: false,
   });
 
+  const { data: tagCounts = [], refetch: refetchTags } = useQuery({
+    queryKey: QueryKeys.noteTags(user?.id),
+    queryFn: () => listTagCounts(user?.id),
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+    placeholderData: (p) => p,
+    retry: false,
+  });
+  const topTags = useMemo(() => getChildTags(tagCounts, null).slice(0, maxHomeTags), [tagCounts]);
+
   const { data: unsyncedNoteIds = [] } = useQuery({
     queryKey: ["notes-unsynced-ids", user?.id],
     queryFn: () => getUnsyncedNoteIds(user?.id),
-    refetchInterval: 15000,
     enabled: !!user?.id,
   });
 
@@ -176,7 +199,7 @@ export default function HomeScreen() {
 
   const onRefresh = async () => {
     if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    await Promise.all([refetchNotes(), refetchFiles(), refetchEvents()]);
+    await Promise.all([refetchNotes(), refetchFiles(), refetchEvents(), refetchTags()]);
     if (Platform.OS !== "web") Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
   };
 
@@ -195,13 +218,7 @@ export default function HomeScreen() {
   };
 
   const createEventMutation = useMutation({
-    mutationFn: (input: {
-      user_id: string;
-      title: string;
-      description: string;
-      event_date: string;
-      repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-    }) => createEvent(input),
+    mutationFn: (input: EventInput) => createEvent(input),
     onSuccess: () => {
       if (user?.id) invalidateEventsQueries(queryClient, user.id);
       if (Platform.OS !== "web") Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -212,6 +229,46 @@ export default function HomeScreen() {
     },
   });
 
+  const createDailyNoteMutation = useMutation({
+    mutationFn: (template: Note | null) => createDailyNote(user!.id, template),
+    onSuccess: ({ note, cursor }, template) => {
+      if (user?.id) {
+        setDailyNoteTemplateId(user.id, template?.id ?? null);
+        invalidateNotesListQueries(queryClient, user.id);
+      }
+      setDailyTemplates(null);
+      router.push(`/(app)/note/${note.id}?edit=1${cursor != null ? `&cursor=${cursor}` : ""}`);
+    },
+    onError: (error: Error) => {
+      alert("Error", error.message || "Failed to create today's note");
+    },
+  });
+
+  /** Open today's note, creating it first (from a template the user picks, when they have any). */
+  const handleTodaysNote = async () => {
+    if (!user?.id || isOpeningDailyNote) return;
+    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsOpeningDailyNote(true);
+    try {
+      const existing = await findDailyNote(user.id);
+      if (existing) {
+        router.push(`/(app)/note/${existing.id}`);
+        return;
+      }
+      const templates = await listTemplates(user.id);
+      if (templates.length === 0) {
+        createDailyNoteMutation.mutate(null);
+        return;
+      }
+      setDailyTemplateId(await getDailyNoteTemplateId(user.id));
+      setDailyTemplates(templates);
+    } catch (error: any) {
+      alert("Error", error.message || "Failed to open today's note");
+    } finally {
+      setIsOpeningDailyNote(false);
+    }
+  };
+
   const archiveNoteMutation = useMutation({
     mutationFn: (id: string) => archiveNote(id),
     onSuccess: () => {
@@ -392,6 +449,14 @@ export default function HomeScreen() {
               paddingRight: 8,
             }}
           >
+            <Pressable
+              onPress={handleTodaysNote}
+              disabled={isOpeningDailyNote || createDailyNoteMutation.isPending}
+              style={{ paddingVertical: 8, paddingRight: 16 }}
+              accessibilityLabel="Today's note"
+            >
+              <CalendarCheck color={colors.foreground} size={22} />
+            </Pressable>
             <Pressable
               onPress={() => {
                 if (Platform.OS !== "web") {
@@ -583,6 +648,28 @@ export default function HomeScreen() {
             </View>
           </View>
 
+          {/* Tags section — only when notes have #tags */}
+          {topTags.length > 0 && (
+            <View style={{ marginBottom: sectionGap }}>
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 6, marginBottom: 12 }}>
+                <Hash size={16} color={colors.foreground} />
+                <Text style={{ fontSize: 18, fontWeight: "600", color: colors.foreground }}>
+                  Tags
+                </Text>
+              </View>
+              <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                {topTags.map(({ tag, count }) => (
+                  <TagChip
+                    key={tag}
+                    label={`#${tag}`}
+                    count={count}
+                    onPress={() => router.push({ pathname: "/(app)/notes", params: { tag } })}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Files section — always visible */}
           <View style={{ marginBottom: sectionGap }}>
             <View
@@ -795,6 +882,16 @@ export default function HomeScreen() {
         onArchive={openArchiveConfirm}
       />
 
+      <TemplatePickerModal
+        visible={dailyTemplates !== null}
+        onClose={() => setDailyTemplates(null)}
+        title="Today's note"
+        templates={dailyTemplates ?? []}
+        selectedTemplateId={dailyTemplateId}
+        onSelect={(template) => createDailyNoteMutation.mutate(template)}
+        isPending={createDailyNoteMutation.isPending}
+      />
+
       <MoveToFolderModal
         visible={moveModalOpen}
         onClose={closeMoveModal}
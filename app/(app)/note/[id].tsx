@@ -6,7 +6,15 @@ import { ImageInsertModal } from "@/components/image-insert-modal";
 import { MarkdownEditor, MarkdownEditorRef } from "@/components/markdown-editor";
 import { MarkdownPreview } from "@/components/markdown-preview";
 import { MarkdownToolbar } from "@/components/markdown-toolbar";
-import { ShareNoteModal } from "@/components/share-note-modal";
+import { NoteBacklinks } from "@/components/note-backlinks";
+import { NoteConflictModal } from "@/components/note-conflict-modal";
+import { NoteHistoryModal } from "@/components/note-history-modal";
+import { NoteExportModal } from "@/components/note-export-modal";
+import { NotePropertiesModal } from "@/components/note-properties-modal";
+import { ShareModal } from "@/components/share-modal";
+import { TemplatePickerModal } from "@/components/template-picker-modal";
+import { VaultUnlockModal } from "@/components/vault-unlock-modal";
+import { WikiLinkSuggestions } from "@/components/wiki-link-suggestions";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,16 +27,50 @@ import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
 import { generateAIContent } from "@/lib/ai-providers";
 import { listFolders } from "@/lib/folders";
+import { setNoteProperties, type NoteProperties } from "@/lib/frontmatter";
 import { MARKDOWN_TOOLBAR_HEIGHT } from "@/lib/markdown-content-layout";
-import { createNote, getNoteById, syncNotesFromSupabase, updateNote } from "@/lib/notes";
-import { invalidateFoldersQueries, invalidateNotesListQueries } from "@/lib/query-utils";
+import { SINGLE_NOTE_EXPORT_FORMATS } from "@/lib/note-export";
+import { listTemplates, renderTemplate } from "@/lib/note-templates";
+import { COLLABORATOR_ROLES, listNoteCollaborators, listNotesSharedWithMe } from "@/lib/note-collaborators";
+import {
+  clearNoteDraft,
+  getNoteDraft,
+  isDraftNewer,
+  NEW_NOTE_DRAFT_ID,
+  saveNoteDraft,
+} from "@/lib/note-drafts";
+import {
+  createNote,
+  findNoteByTitle,
+  getNoteById,
+  getNoteConflict,
+  listBacklinks,
+  listNoteVersions,
+  listNotes,
+  resolveNoteConflict,
+  restoreNoteVersion,
+  rewriteInboundWikiLinks,
+  syncNotesFromSupabase,
+  updateNote,
+} from "@/lib/notes";
+import {
+  invalidateFoldersQueries,
+  invalidateNotesListQueries,
+  invalidateNotesQueries,
+  QueryKeys,
+} from "@/lib/query-utils";
+import { onRemoteNoteChange } from "@/lib/realtime-sync";
+import type { Note } from "@/lib/supabase";
+import { useNoteCollab } from "@/lib/use-note-collab";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import { cn } from "@/lib/utils";
+import { isEncryptedNote, isFolderInVault, LOCKED_NOTE_TITLE } from "@/lib/vault";
+import { findOpenWikiLink, normalizeWikiTarget } from "@/lib/wiki-links";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
-import { ChevronDown, ChevronUp, Replace, ReplaceAll, Search, X } from "lucide-react-native";
-import { useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, CloudDownload, GitMerge, Lock, Replace, ReplaceAll, Search, Users, X } from "lucide-react-native";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   AppState,
@@ -46,8 +88,20 @@ import { KeyboardController, useReanimatedKeyboardAnimation } from "react-native
 import Animated, { useAnimatedStyle } from "react-native-reanimated";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+/** Unsaved edits to an existing note are saved this long after typing stops. */
+const AUTOSAVE_DELAY_MS = 2000;
+/** Drafts are written this long after the last change (and at once when the app is backgrounded). */
+const DRAFT_WRITE_DELAY_MS = 300;
+/** Wait for the editor to take new text before moving its cursor. */
+const CURSOR_PLACE_DELAY_MS = 350;
+
 export default function NoteEditorScreen() {
-  const { id, edit: editParam, folderId } = useLocalSearchParams<{ id: string; edit?: string; folderId?: string }>();
+  const {
+    id,
+    edit: editParam,
+    folderId,
+    cursor: cursorParam,
+  } = useLocalSearchParams<{ id: string; edit?: string; folderId?: string; cursor?: string }>();
   const { user } = useAuth();
   const router = useRouter();
   const queryClient = useQueryClient();
@@ -75,6 +129,14 @@ export default function NoteEditorScreen() {
   const [imageModalOpen, setImageModalOpen] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [moveModalOpen, setMoveModalOpen] = useState(false);
+  const [conflictModalOpen, setConflictModalOpen] = useState(false);
+  const [vaultModalOpen, setVaultModalOpen] = useState(false);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [propertiesModalOpen, setPropertiesModalOpen] = useState(false);
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+  /** Set when another device changed or deleted this note while it was open. */
+  const [remoteChange, setRemoteChange] = useState<"updated" | "deleted" | null>(null);
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [dropdownTriggerWidth, setDropdownTriggerWidth] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -82,12 +144,24 @@ export default function NoteEditorScreen() {
   const [editorAreaHeightPx, setEditorAreaHeightPx] = useState(0);
   /** Last selection from editor (updated on every selection change). Preserved when AI button steals focus. */
   const lastSelectionRef = useRef({ start: 0, end: 0 });
+  /** Collapsed cursor offset in the editor (null while text is selected); drives [[ title suggestions. */
+  const [editorCursor, setEditorCursor] = useState<number | null>(null);
   /** Range to replace with AI output when modal was opened with a selection (so we don't rely on getSelection() after focus is lost). */
   const [aiReplaceRange, setAiReplaceRange] = useState<{ start: number; end: number } | null>(null);
   const editorRef = useRef<MarkdownEditorRef>(null);
   const searchInputRef = useRef<any>(null);
   /** Guards against double submission (e.g. double-tap save) before isPending updates. */
   const saveInProgressRef = useRef(false);
+  /** Title before a rename that autosave already stored; links are offered a rewrite once the title edit ends. */
+  const renameFromRef = useRef<string | null>(null);
+  /** Note id whose draft was checked for recovery; drafts are written only after that check. */
+  const draftCheckedIdRef = useRef<string | null>(null);
+  /** Latest unsaved title and content, written to the drafts store when the app is backgrounded. */
+  const pendingDraftRef = useRef<{ title: string; content: string } | null>(null);
+  /** Offset to put the cursor at once the editor shows this note (a template's {{cursor}} marker). */
+  const pendingCursorRef = useRef<number | null>(
+    cursorParam != null && /^\d+$/.test(cursorParam) ? Number(cursorParam) : null
+  );
   /** Note id we last synced from. Used to avoid overwriting unsaved editor content when note refetches (e.g. on preview toggle or focus). */
   const lastSyncedNoteIdRef = useRef<string | null>(null);
 
@@ -223,6 +297,87 @@ export default function NoteEditorScreen() {
     staleTime: 2 * 60 * 1000,
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: QueryKeys.noteTemplates(user?.id),
+    queryFn: () => listTemplates(user?.id),
+    enabled: isNewNote && !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Set when a sync found this note changed both here and on another device (native reservoir only)
+  const { data: conflict } = useQuery({
+    queryKey: QueryKeys.noteConflict(id),
+    queryFn: () => getNoteConflict(id),
+    enabled: !isNewNote && !!id,
+  });
+
+  const { data: versions = [], isLoading: isLoadingVersions } = useQuery({
+    queryKey: QueryKeys.noteVersions(id),
+    queryFn: () => listNoteVersions(id),
+    enabled: historyModalOpen && !isNewNote && !!id,
+  });
+
+  const { data: backlinks = [] } = useQuery({
+    queryKey: QueryKeys.noteBacklinks(user?.id, lastSavedTitle),
+    queryFn: () => listBacklinks(user?.id, lastSavedTitle, id),
+    enabled: !isNewNote && !!id && !!user?.id && !!lastSavedTitle.trim(),
+  });
+
+  // Owners see whom they invited; anyone else opening the note was invited, and looks up their role
+  const isOwner = !note || !user?.id || note.user_id === user.id;
+  const { data: collaborators = [] } = useQuery({
+    queryKey: QueryKeys.noteCollaborators(id),
+    queryFn: () => listNoteCollaborators(id),
+    enabled: !isNewNote && !!note && isOwner,
+  });
+  const { data: sharedWithMe = [] } = useQuery({
+    queryKey: QueryKeys.notesSharedWithMe(user?.id),
+    queryFn: listNotesSharedWithMe,
+    enabled: !isNewNote && !!note && !isOwner,
+  });
+  const sharedEntry = isOwner ? undefined : sharedWithMe.find((entry) => entry.note.id === id);
+  // Vault notes come back still encrypted while the vault is locked, and can't be shared
+  const noteLocked = !isNewNote && !!note && isEncryptedNote(note);
+  const inVault = isFolderInVault(folders, isNewNote ? initialFolderId : note?.folder_id);
+  const canEdit = (isOwner || sharedEntry?.role === "editor") && !noteLocked;
+  const isSharedNote = !isNewNote && !!note && !inVault && (!isOwner || collaborators.length > 0);
+
+  const noteCollab = useNoteCollab(id, {
+    enabled: isSharedNote,
+    canEdit,
+    userId: user?.id,
+    email: user?.email,
+    onMessage: (message) => editorRef.current?.receiveCollab?.(message),
+  });
+  /** Live editing starts once the note channel is joined; until then edits stay local. */
+  const collab = useMemo(
+    () => (noteCollab.connected ? { clientId: noteCollab.clientId, canEdit } : undefined),
+    [noteCollab.connected, noteCollab.clientId, canEdit]
+  );
+  const otherPeers = noteCollab.peers.filter((peer) => peer.clientId !== noteCollab.clientId);
+
+  // Another device changed this note; the refetch already brought it in unless there are unsaved edits.
+  // While editing live, collaborators' changes show up in the editor instead.
+  useEffect(() => {
+    setRemoteChange(null);
+    if (isNewNote || !id || collab) return;
+    return onRemoteNoteChange((change) => {
+      if ((change.type === "deleted" ? change.id : change.note.id) !== id) return;
+      setRemoteChange(change.type);
+    });
+  }, [id, isNewNote, collab]);
+
+  const openWikiLink =
+    !isPreview && editorCursor !== null ? findOpenWikiLink(content, editorCursor) : null;
+
+  // Titles for [[ autocomplete; same query as the notes list, so usually already cached
+  const { data: allNotes = [] } = useQuery({
+    queryKey: QueryKeys.notes(user?.id),
+    queryFn: () => listNotes(user?.id),
+    enabled: !!user?.id && openWikiLink !== null,
+    staleTime: 2 * 60 * 1000,
+  });
+
   // Check if notes list shows a newer version of this note and refetch if needed
   // This fixes the issue where note list updates but individual note shows stale content
   useEffect(() => {
@@ -263,13 +418,13 @@ export default function NoteEditorScreen() {
       setContent(note.content);
       setLastSavedTitle(note.title);
       setLastSavedContent(note.content);
-    } else if (!isDirty) {
+    } else if (!isDirty && !collab) {
       setTitle(note.title);
       setContent(note.content);
       setLastSavedTitle(note.title);
       setLastSavedContent(note.content);
     }
-  }, [note, isDirty, id]);
+  }, [note, isDirty, id, collab]);
 
   // Reset form when navigating to "new" so previous note content is cleared
   useEffect(() => {
@@ -319,6 +474,10 @@ export default function NoteEditorScreen() {
     openInEditAfterSave?: boolean;
     title?: string;
     content?: string;
+    /** Title before this save; when it changes, inbound [[links]] can be rewritten. */
+    previousTitle?: string;
+    /** Saved in the background after typing paused: no haptics, errors only logged (the draft is kept). */
+    autosave?: boolean;
   };
 
   const saveMutation = useMutation({
@@ -349,11 +508,24 @@ export default function NoteEditorScreen() {
     onSuccess: (savedNote, variables) => {
       const displayTitle = savedNote.title ?? "Untitled";
       const updatedContent = savedNote.content ?? content;
-
-      setTitle(displayTitle);
-      setContent(updatedContent);
+      const savedTitle = variables?.title ?? displayTitle;
+      const savedContent = variables?.content ?? updatedContent;
+
+      setRemoteChange(null);
+      // Typing may have continued while the save ran (always possible with autosave); keep it
+      setTitle((current) => (current === savedTitle ? displayTitle : current));
+      // While editing live, collaborators may have typed since this save started
+      if (!collab) setContent((current) => (current === savedContent ? updatedContent : current));
       setLastSavedTitle(displayTitle);
       setLastSavedContent(updatedContent);
+      // The draft is dropped once its text is saved; typing since then writes a new one
+      if (user?.id) {
+        if (isNewNote) clearNoteDraft(user.id, NEW_NOTE_DRAFT_ID);
+        if (title === savedTitle && content === savedContent) {
+          pendingDraftRef.current = null;
+          clearNoteDraft(user.id, savedNote.id);
+        }
+      }
 
       // Optimistically update cache instead of invalidating
       // For new notes, id is "new" but savedNote.id is the actual ID, so update both
@@ -422,9 +594,26 @@ export default function NoteEditorScreen() {
 
       invalidateNotesListQueries(queryClient, user?.id);
       invalidateFoldersQueries(queryClient, user?.id);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: QueryKeys.noteConflict(savedNote.id) });
+      queryClient.invalidateQueries({ queryKey: QueryKeys.noteVersions(savedNote.id) });
+      if (!variables?.autosave) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      const previousTitle = variables?.previousTitle;
+      if (
+        !isNewNote &&
+        previousTitle?.trim() &&
+        normalizeWikiTarget(previousTitle) !== normalizeWikiTarget(displayTitle)
+      ) {
+        offerWikiLinkRewrite(savedNote.id, previousTitle, displayTitle);
+      }
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      if (variables?.autosave) {
+        console.warn("[NoteEditorScreen] Autosave failed; the draft is kept:", error);
+        return;
+      }
       alert("Error", error.message);
     },
     onSettled: () => {
@@ -432,6 +621,129 @@ export default function NoteEditorScreen() {
     },
   });
 
+  const rewriteLinksMutation = useMutation({
+    mutationFn: (variables: { noteId: string; fromTitle: string; toTitle: string }) =>
+      rewriteInboundWikiLinks(user?.id, variables.noteId, variables.fromTitle, variables.toTitle),
+    onSuccess: () => {
+      invalidateNotesQueries(queryClient, user?.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: (error: any) => {
+      alert("Error", error.message);
+    },
+  });
+
+  /** After a rename, ask whether notes linking to the old title should follow it. */
+  const offerWikiLinkRewrite = async (noteId: string, fromTitle: string, toTitle: string) => {
+    let sources: Awaited<ReturnType<typeof listBacklinks>>;
+    try {
+      sources = await listBacklinks(user?.id, fromTitle, noteId);
+    } catch (error) {
+      console.warn("[NoteEditorScreen] Failed to look up backlinks:", error);
+      return;
+    }
+    if (sources.length === 0) return;
+    const count = sources.length === 1 ? "1 note links" : `${sources.length} notes link`;
+    alert("Update links?", `${count} to "${fromTitle}". Point them to "${toTitle}"?`, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Update",
+        onPress: () => rewriteLinksMutation.mutate({ noteId, fromTitle, toTitle }),
+      },
+    ]);
+  };
+
+  const openNote = (noteId: string) => {
+    router.push(`/(app)/note/${noteId}`);
+  };
+
+  const handleWikiLinkPress = async (linkTitle: string) => {
+    if (!user?.id) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const target = await findNoteByTitle(user.id, linkTitle);
+      if (target) {
+        openNote(target.id);
+        return;
+      }
+    } catch (error: any) {
+      alert("Error", error.message);
+      return;
+    }
+    alert("Note not found", `No note is titled "${linkTitle}". Create it?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Create",
+        onPress: async () => {
+          try {
+            const created = await createNote({ user_id: user.id, title: linkTitle, content: "" });
+            invalidateNotesListQueries(queryClient, user.id);
+            router.push(`/(app)/note/${created.id}?edit=1`);
+          } catch (error: any) {
+            alert("Error", error.message);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleTagPress = (tag: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({ pathname: "/(app)/notes", params: { tag } });
+  };
+
+  /** Complete the open [[… at the cursor with a note title, closing the link. */
+  const handleWikiLinkSelect = (linkTitle: string) => {
+    if (!openWikiLink) return;
+    const { start, end } = openWikiLink;
+    const closed = content.slice(end, end + 2) === "]]";
+    editorRef.current?.replaceRange(start, closed ? end + 2 : end, `${linkTitle}]]`);
+    setEditorCursor(null);
+  };
+
+  const resolveConflictMutation = useMutation({
+    mutationFn: (resolved: { title: string; content: string }) => resolveNoteConflict(id, resolved),
+    onSuccess: (resolvedNote) => {
+      if (resolvedNote) {
+        lastSyncedNoteIdRef.current = resolvedNote.id;
+        setTitle(resolvedNote.title);
+        setContent(resolvedNote.content);
+        setLastSavedTitle(resolvedNote.title);
+        setLastSavedContent(resolvedNote.content);
+        queryClient.setQueryData(["note", id], resolvedNote);
+      }
+      queryClient.setQueryData(QueryKeys.noteConflict(id), null);
+      queryClient.invalidateQueries({ queryKey: QueryKeys.noteVersions(id) });
+      invalidateNotesListQueries(queryClient, user?.id);
+      setConflictModalOpen(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: (error: any) => {
+      alert("Error", error.message);
+    },
+  });
+
+  const restoreVersionMutation = useMutation({
+    mutationFn: (versionId: string) => restoreNoteVersion(id, versionId),
+    onSuccess: (restoredNote) => {
+      if (restoredNote) {
+        lastSyncedNoteIdRef.current = restoredNote.id;
+        setTitle(restoredNote.title);
+        setContent(restoredNote.content);
+        setLastSavedTitle(restoredNote.title);
+        setLastSavedContent(restoredNote.content);
+        queryClient.setQueryData(["note", id], restoredNote);
+      }
+      queryClient.invalidateQueries({ queryKey: QueryKeys.noteVersions(id) });
+      invalidateNotesListQueries(queryClient, user?.id);
+      setHistoryModalOpen(false);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: (error: any) => {
+      alert("Error", error.message);
+    },
+  });
+
   const moveNoteMutation = useMutation({
     mutationFn: ({
       noteId,
@@ -484,6 +796,7 @@ export default function NoteEditorScreen() {
   };
 
   const handleSave = async () => {
+    if (!canEdit) return;
     let finalTitle = title;
     let finalContent = content;
 
@@ -519,10 +832,180 @@ export default function NoteEditorScreen() {
     saveMutation.mutate({ 
       openInEditAfterSave: !isPreview,
       title: finalTitle,
-      content: finalContent
+      content: finalContent,
+      previousTitle: renameFromRef.current ?? lastSavedTitle,
     });
+    renameFromRef.current = null;
   };
 
+  /** Pull unflushed edits out of the native editor so dialogs work on the latest text. */
+  const flushEditorContent = async () => {
+    if (Platform.OS === "web" || isPreview) return;
+    try {
+      const flushed = await editorRef.current?.getContentAsync?.();
+      if (typeof flushed === "string") setContent(flushed);
+    } catch (e) {
+      console.warn("[NoteEditorScreen] Failed to flush editor content:", e);
+    }
+  };
+
+  const openPropertiesModal = async () => {
+    await flushEditorContent();
+    setPropertiesModalOpen(true);
+  };
+
+  /** Export what's on screen, unsaved edits included. */
+  const openExportModal = async () => {
+    await flushEditorContent();
+    setExportModalOpen(true);
+  };
+
+  /** Write edited properties back as the note's frontmatter; autosave picks up the change. */
+  const handleSaveProperties = (properties: NoteProperties) => {
+    setPropertiesModalOpen(false);
+    setContent((current) => setNoteProperties(current, properties));
+  };
+
+  /** Start the new note from a template (null: blank), filling in its placeholders. */
+  const applyTemplate = (template: Note | null) => {
+    setTemplatePickerOpen(false);
+    const fill = () => {
+      if (!template) {
+        pendingCursorRef.current = null;
+        setContent(DEFAULT_NEW_NOTE_CONTENT);
+        return;
+      }
+      const rendered = renderTemplate(template.content, { title: title.trim() });
+      pendingCursorRef.current = rendered.cursor;
+      setContent(rendered.text);
+    };
+    if (!content.trim()) {
+      fill();
+      return;
+    }
+    alert("Replace text?", "The note's current text will be replaced.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Replace", style: "destructive", onPress: fill },
+    ]);
+  };
+
+  // Place the cursor at a template's {{cursor}} marker once the editor shows the filled-in text
+  useEffect(() => {
+    const offset = pendingCursorRef.current;
+    if (offset === null || isPreview || !hasEditorEverBeenVisible) return;
+    if (!isNewNote && (!note || content !== note.content)) return;
+    const timer = setTimeout(() => {
+      pendingCursorRef.current = null;
+      const at = Math.min(offset, content.length);
+      editorRef.current?.replaceRange(at, at, "");
+      editorRef.current?.focus();
+    }, CURSOR_PLACE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isPreview, hasEditorEverBeenVisible, isNewNote, note, content]);
+
+  /** Title editing ended: save a rename now so linking notes can be offered the new title. */
+  const handleTitleCommit = () => {
+    if (isNewNote || !canEdit) return;
+    if (title !== lastSavedTitle) {
+      handleSave();
+      return;
+    }
+    // Autosave already stored the rename
+    const fromTitle = renameFromRef.current;
+    renameFromRef.current = null;
+    if (fromTitle?.trim() && normalizeWikiTarget(fromTitle) !== normalizeWikiTarget(title)) {
+      offerWikiLinkRewrite(id, fromTitle, title);
+    }
+  };
+
+  // Autosave existing notes once typing pauses. Content is already in state on native too
+  // (the DOM editor syncs every change), so no WebView flush is needed.
+  useEffect(() => {
+    if (isNewNote || !canEdit || !isDirty || !note) return;
+    if (!title.trim() && !content.trim()) return;
+    const timer = setTimeout(() => {
+      if (saveInProgressRef.current) return;
+      saveInProgressRef.current = true;
+      if (title !== lastSavedTitle && renameFromRef.current === null) {
+        renameFromRef.current = lastSavedTitle;
+      }
+      saveMutation.mutate({ openInEditAfterSave: !isPreview, title, content, autosave: true });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [title, content, isDirty, isNewNote, canEdit, note, isPreview, lastSavedTitle]);
+
+  // Offer to recover a draft that is newer than the saved note (e.g. the app was killed before a save).
+  // Runs once per note, before any draft is written for it.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId || !id || draftCheckedIdRef.current === id) return;
+    if (!isNewNote && !note) return;
+    const draftId = isNewNote ? NEW_NOTE_DRAFT_ID : id;
+    let cancelled = false;
+    getNoteDraft(userId, draftId).then((draft) => {
+      if (cancelled) return;
+      draftCheckedIdRef.current = id;
+      if (!draft) return;
+      if (!isDraftNewer(draft, isNewNote ? null : note ?? null)) {
+        clearNoteDraft(userId, draftId);
+        return;
+      }
+      const when = new Date(draft.saved_at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+      alert("Recover unsaved changes?", `This note has changes from ${when} that were never saved.`, [
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => {
+            clearNoteDraft(userId, draftId);
+          },
+        },
+        {
+          text: "Recover",
+          onPress: () => {
+            setTitle(draft.title);
+            setContent(draft.content);
+            if (isNewNote) setIsPreview(false);
+          },
+        },
+      ]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, isNewNote, note, user?.id]);
+
+  // Write unsaved edits to the drafts store shortly after each change. Drafts are stored as plain
+  // text, so vault notes don't get any.
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId || !id || draftCheckedIdRef.current !== id || !canEdit || inVault) {
+      pendingDraftRef.current = null;
+      return;
+    }
+    if (!isDirty) {
+      pendingDraftRef.current = null;
+      return;
+    }
+    const draft = { title, content };
+    pendingDraftRef.current = draft;
+    const draftId = isNewNote ? NEW_NOTE_DRAFT_ID : id;
+    const timer = setTimeout(() => {
+      saveNoteDraft(userId, draftId, draft);
+    }, DRAFT_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [title, content, isDirty, id, isNewNote, canEdit, inVault, user?.id]);
+
+  // The app may be killed once in the background: write the latest draft right away
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (nextAppState: AppStateStatus) => {
+      const userId = user?.id;
+      const draft = pendingDraftRef.current;
+      if (nextAppState === "active" || !userId || !draft || draftCheckedIdRef.current !== id) return;
+      saveNoteDraft(userId, isNewNote ? NEW_NOTE_DRAFT_ID : id, draft);
+    });
+    return () => subscription.remove();
+  }, [id, isNewNote, user?.id]);
+
   const handleRefresh = async () => {
     if (isNewNote || !id || isRefreshing) return;
 
@@ -534,9 +1017,11 @@ export default function NoteEditorScreen() {
         await syncNotesFromSupabase(user.id);
       }
       const { data } = await refetch();
+      queryClient.invalidateQueries({ queryKey: QueryKeys.noteConflict(id) });
       if (data) {
         setTitle(data.title);
-        setContent(data.content);
+        // The live document is newer than any saved copy
+        if (!collab) setContent(data.content);
         setLastSavedTitle(data.title);
         setLastSavedContent(data.content);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -551,7 +1036,7 @@ export default function NoteEditorScreen() {
     }
   };
 
-  const canSave = isDirty && !saveMutation.isPending;
+  const canSave = canEdit && isDirty && !saveMutation.isPending;
 
   // Sync search with editor/preview
   useEffect(() => {
@@ -698,10 +1183,11 @@ export default function NoteEditorScreen() {
       {/* Single flex column root so header + content get correct height; content area can scroll to bottom */}
       <View className="flex-1 flex-col min-h-0">
         <NoteDetailHeader
-          title={title}
-          onTitleChange={setTitle}
+          title={noteLocked ? LOCKED_NOTE_TITLE : title}
+          onTitleChange={canEdit ? setTitle : undefined}
+          onTitleCommit={handleTitleCommit}
           isNewNote={isNewNote}
-          isDirty={isDirty}
+          isDirty={canEdit && isDirty}
           canSave={canSave}
           isSaving={saveMutation.isPending}
           onSave={handleSave}
@@ -721,18 +1207,83 @@ export default function NoteEditorScreen() {
           }}
           isFetching={isFetching || isRefreshing}
           onRefresh={!isNewNote ? handleRefresh : undefined}
-          onOpenShareModal={!isNewNote ? () => setShareModalOpen(true) : undefined}
+          onOpenShareModal={!isNewNote && isOwner && !inVault ? () => setShareModalOpen(true) : undefined}
           folderName={
-            !isNewNote && note
+            !isNewNote && note && isOwner
               ? note.folder_id != null
                 ? folders.find((f) => f.id === note.folder_id)?.name ?? "Folder"
                 : "No folder"
               : undefined
           }
-          onOpenMoveModal={!isNewNote && note ? openMoveModal : undefined}
-          onSearchOpen={() => handleSearchOpen('search')}
-          onReplaceOpen={() => handleSearchOpen('replace')}
+          onOpenMoveModal={!isNewNote && note && isOwner && !noteLocked ? openMoveModal : undefined}
+          onSearchOpen={noteLocked ? undefined : () => handleSearchOpen('search')}
+          onReplaceOpen={noteLocked ? undefined : () => handleSearchOpen('replace')}
+          onOpenHistory={!isNewNote && note && isOwner && !noteLocked ? () => setHistoryModalOpen(true) : undefined}
+          onOpenTemplates={isNewNote && templates.length > 0 ? () => setTemplatePickerOpen(true) : undefined}
+          onOpenProperties={!isNewNote && note && !noteLocked ? openPropertiesModal : undefined}
+          onOpenExport={!isNewNote && note && !noteLocked ? openExportModal : undefined}
         />
+        {remoteChange && (
+          <View className="flex-row items-center gap-2 border-b border-border px-4 py-1.5">
+            <CloudDownload size={14} color={colors.mutedForeground} />
+            <Text className="flex-1 text-xs text-muted-foreground">
+              {remoteChange === "deleted"
+                ? "Deleted on another device"
+                : isDirty
+                  ? "Updated on another device. Your unsaved changes are kept."
+                  : "Updated on another device"}
+            </Text>
+            <Pressable onPress={() => setRemoteChange(null)} hitSlop={8}>
+              <X size={14} color={colors.mutedForeground} />
+            </Pressable>
+          </View>
+        )}
+        {isSharedNote && (
+          <View className="flex-row items-center gap-2 border-b border-border bg-muted px-4 py-2">
+            <Users size={16} color={colors.mutedForeground} />
+            <Text className="flex-1 text-sm text-muted-foreground" numberOfLines={1}>
+              {isOwner
+                ? `Shared with ${collaborators.length} ${collaborators.length === 1 ? "person" : "people"}`
+                : `Shared by ${sharedEntry?.owner_email ?? "another account"} · ${
+                    COLLABORATOR_ROLES.find((r) => r.role === (sharedEntry?.role ?? "viewer"))?.label
+                  }`}
+              {otherPeers.length > 0 ? ` · ${otherPeers.length} here now` : ""}
+            </Text>
+            {otherPeers.slice(0, 5).map((peer) => (
+              <View
+                key={peer.clientId}
+                className="h-6 w-6 items-center justify-center rounded-full"
+                style={{ backgroundColor: peer.color }}
+              >
+                <Text className="text-xs font-semibold text-white">
+                  {(peer.email ?? "?").charAt(0).toUpperCase()}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+        {conflict && (
+          <View className="flex-row items-center gap-3 border-b border-border bg-muted px-4 py-2">
+            <GitMerge size={16} color={colors.mutedForeground} />
+            <Text className="flex-1 text-sm text-muted-foreground">
+              Also edited on another device. Your changes aren't synced until you merge.
+            </Text>
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                // The merge is built from the saved local version; unsaved editor text would be lost.
+                if (isDirty) {
+                  alert("Unsaved changes", "Save your changes before merging.");
+                  return;
+                }
+                setConflictModalOpen(true);
+              }}
+              className="rounded-md bg-foreground/10 px-3 py-1.5"
+            >
+              <Text className="text-sm font-medium text-foreground">Review</Text>
+            </Pressable>
+          </View>
+        )}
         {isSearchBarVisible && (
           <View className="flex-col bg-background border-b border-muted">
             <View className="flex-row items-center px-3 py-2 gap-6">
@@ -811,7 +1362,21 @@ export default function NoteEditorScreen() {
             )}
           </View>
         )}
-        {Platform.OS === "web" ? (
+        {noteLocked ? (
+          <View className="flex-1 items-center justify-center bg-background px-6">
+            <Lock color={colors.mutedForeground} size={48} style={{ marginBottom: 16 }} />
+            <Text className="mb-2 text-xl font-semibold text-muted-foreground">This note is in a locked vault</Text>
+            <Text className="mb-4 text-center text-sm text-muted-foreground">
+              Unlock the vault with your passphrase to read and edit it
+            </Text>
+            <Pressable
+              onPress={() => setVaultModalOpen(true)}
+              className="rounded-md border border-border bg-muted px-4 py-2.5"
+            >
+              <Text className="font-semibold text-foreground">Unlock</Text>
+            </Pressable>
+          </View>
+        ) : Platform.OS === "web" ? (
           <View className="flex-1 min-h-0 bg-background">
             <View className="flex-1 min-h-0 w-full bg-background relative">
               {/* Preview: always mounted, hidden when editing for instant switch */}
@@ -830,14 +1395,21 @@ export default function NoteEditorScreen() {
                   <View className="flex-grow w-full max-w-[672px] self-center bg-muted">
                     <MarkdownPreview
                       content={content}
-                      onToggleCheckbox={(updater) => setContent(updater as any)}
+                      onToggleCheckbox={canEdit ? (updater) => setContent(updater as any) : undefined}
                       placeholder="Start writing in markdown..."
                       onFirstHtmlRendered={() => setPreviewReady(true)}
                       searchQuery={isSearchBarVisible ? searchQuery : ""}
                       currentMatchIndex={currentMatchIndex}
                       onSearchMatchCount={setTotalMatches}
+                      onWikiLinkPress={handleWikiLinkPress}
+                      onTagPress={handleTagPress}
                     />
                   </View>
+                  {backlinks.length > 0 && (
+                    <View className="w-full max-w-[672px] self-center">
+                      <NoteBacklinks backlinks={backlinks} onOpenNote={openNote} />
+                    </View>
+                  )}
                 </ScrollView>
               </View>
               {/* Editor: always mounted, hidden when previewing for instant switch */}
@@ -864,10 +1436,16 @@ export default function NoteEditorScreen() {
                       onChangeText={setContent}
                       onSelectionChange={(sel) => {
                         lastSelectionRef.current = sel;
+                        setEditorCursor(sel.start === sel.end ? sel.end : null);
+                        if (collab) noteCollab.updateSelection(sel);
                       }}
                       placeholder="Start writing in markdown..."
                       isPreview={false}
                       onSave={handleSave}
+                      readOnly={!canEdit}
+                      collab={collab}
+                      onCollabMessage={noteCollab.send}
+                      remoteCursors={noteCollab.remoteCursors}
                       editorAreaHeight={editorAreaHeightPx}
                       searchQuery={isSearchBarVisible ? searchQuery : ""}
                       currentMatchIndex={currentMatchIndex}
@@ -875,21 +1453,31 @@ export default function NoteEditorScreen() {
                     />
                   )}
                 </View>
-                <MarkdownToolbar
-                  onInsertText={(text, cursorOffset) => {
-                    editorRef.current?.insertText(text, cursorOffset);
-                  }}
-                  onWrapSelection={(before, after, cursorOffset) => {
-                    editorRef.current?.wrapSelection(before, after, cursorOffset);
-                  }}
-                  onIndent={() => editorRef.current?.indent()}
-                  onOutdent={() => editorRef.current?.outdent()}
-                  onUndo={() => editorRef.current?.undo()}
-                  onRedo={() => editorRef.current?.redo()}
-                  onAIAssistant={handleOpenAIModal}
-                  onImageInsert={() => setImageModalOpen(true)}
-                  isPreview={false}
-                />
+                {openWikiLink && (
+                  <WikiLinkSuggestions
+                    query={openWikiLink.query}
+                    notes={allNotes}
+                    excludeId={id}
+                    onSelect={handleWikiLinkSelect}
+                  />
+                )}
+                {canEdit && (
+                  <MarkdownToolbar
+                    onInsertText={(text, cursorOffset) => {
+                      editorRef.current?.insertText(text, cursorOffset);
+                    }}
+                    onWrapSelection={(before, after, cursorOffset) => {
+                      editorRef.current?.wrapSelection(before, after, cursorOffset);
+                    }}
+                    onIndent={() => editorRef.current?.indent()}
+                    onOutdent={() => editorRef.current?.outdent()}
+                    onUndo={() => editorRef.current?.undo()}
+                    onRedo={() => editorRef.current?.redo()}
+                    onAIAssistant={handleOpenAIModal}
+                    onImageInsert={() => setImageModalOpen(true)}
+                    isPreview={false}
+                  />
+                )}
               </View>
             </View>
           </View>
@@ -925,9 +1513,15 @@ export default function NoteEditorScreen() {
                         onContentSync={(updater) => setContent(updater as any)}
                         onSelectionChange={(sel) => {
                           lastSelectionRef.current = sel;
+                          setEditorCursor(sel.start === sel.end ? sel.end : null);
+                          if (collab) noteCollab.updateSelection(sel);
                         }}
                         placeholder="Start writing in markdown..."
                         isPreview={false}
+                        readOnly={!canEdit}
+                        collab={collab}
+                        onCollabMessage={noteCollab.send}
+                        remoteCursors={noteCollab.remoteCursors}
                         searchQuery={isSearchBarVisible ? searchQuery : ""}
                         currentMatchIndex={currentMatchIndex}
                         onSearchMatchCount={setTotalMatches}
@@ -939,21 +1533,31 @@ export default function NoteEditorScreen() {
                     className="absolute bottom-0 left-0 right-0 z-10 bg-background"
                     style={[toolbarAnimatedStyle, { bottom: -0.5 }]}
                   >
-                    <MarkdownToolbar
-                      onInsertText={(text, cursorOffset) => {
-                        editorRef.current?.insertText(text, cursorOffset);
-                      }}
-                      onWrapSelection={(before, after, cursorOffset) => {
-                        editorRef.current?.wrapSelection(before, after, cursorOffset);
-                      }}
-                      onIndent={() => editorRef.current?.indent()}
-                      onOutdent={() => editorRef.current?.outdent()}
-                      onUndo={() => editorRef.current?.undo()}
-                      onRedo={() => editorRef.current?.redo()}
-                      onAIAssistant={handleOpenAIModal}
-                      onImageInsert={() => setImageModalOpen(true)}
-                      isPreview={false}
-                    />
+                    {openWikiLink && (
+                      <WikiLinkSuggestions
+                        query={openWikiLink.query}
+                        notes={allNotes}
+                        excludeId={id}
+                        onSelect={handleWikiLinkSelect}
+                      />
+                    )}
+                    {canEdit && (
+                      <MarkdownToolbar
+                        onInsertText={(text, cursorOffset) => {
+                          editorRef.current?.insertText(text, cursorOffset);
+                        }}
+                        onWrapSelection={(before, after, cursorOffset) => {
+                          editorRef.current?.wrapSelection(before, after, cursorOffset);
+                        }}
+                        onIndent={() => editorRef.current?.indent()}
+                        onOutdent={() => editorRef.current?.outdent()}
+                        onUndo={() => editorRef.current?.undo()}
+                        onRedo={() => editorRef.current?.redo()}
+                        onAIAssistant={handleOpenAIModal}
+                        onImageInsert={() => setImageModalOpen(true)}
+                        isPreview={false}
+                      />
+                    )}
                   </Animated.View>
                 </View>
 
@@ -972,7 +1576,7 @@ export default function NoteEditorScreen() {
                   <View className="flex-1 w-full max-w-[672px] self-center bg-muted">
                     <MarkdownPreview
                       content={content}
-                      onToggleCheckbox={(updater) => setContent(updater as any)}
+                      onToggleCheckbox={canEdit ? (updater) => setContent(updater as any) : undefined}
                       placeholder="Start writing in markdown..."
                       contentContainerStyle={{
                         flex: 1,
@@ -983,8 +1587,15 @@ export default function NoteEditorScreen() {
                       searchQuery={isSearchBarVisible ? searchQuery : ""}
                       currentMatchIndex={currentMatchIndex}
                       onSearchMatchCount={setTotalMatches}
+                      onWikiLinkPress={handleWikiLinkPress}
+                      onTagPress={handleTagPress}
                     />
                   </View>
+                  {backlinks.length > 0 && (
+                    <View className="w-full max-w-[672px] self-center" style={{ paddingBottom: insets.bottom }}>
+                      <NoteBacklinks backlinks={backlinks} onOpenNote={openNote} />
+                    </View>
+                  )}
                 </View>
               </View>
             </View>
@@ -992,7 +1603,7 @@ export default function NoteEditorScreen() {
         )}
         {/* Overlay loader while the note is loading or initial preview HTML is being generated,
             so the user does not see a blank note screen. */}
-        {!isNewNote && (isLoading || !previewReady) && (
+        {!isNewNote && (isLoading || (!previewReady && !noteLocked)) && (
           <View className="absolute inset-0 items-center justify-center bg-background">
             <ActivityIndicator size="large" color={colors.foreground} />
           </View>
@@ -1014,11 +1625,13 @@ export default function NoteEditorScreen() {
         onClose={() => setImageModalOpen(false)}
         onInsert={handleImageInsert}
       />
+      <VaultUnlockModal visible={vaultModalOpen} onClose={() => setVaultModalOpen(false)} />
       {!isNewNote && note && (
-        <ShareNoteModal
+        <ShareModal
           visible={shareModalOpen}
           onClose={() => setShareModalOpen(false)}
-          noteId={note.id}
+          kind="note"
+          itemId={note.id}
           shareToken={note.share_token}
           onShareTokenChange={(token) => {
             queryClient.setQueryData(["note", id], (prev: typeof note) =>
@@ -1028,6 +1641,64 @@ export default function NoteEditorScreen() {
         />
       )}
 
+      {conflict && (
+        <NoteConflictModal
+          visible={conflictModalOpen}
+          onClose={() => setConflictModalOpen(false)}
+          conflict={conflict}
+          onResolve={(resolved) => resolveConflictMutation.mutate(resolved)}
+          isResolving={resolveConflictMutation.isPending}
+        />
+      )}
+
+      {!isNewNote && (
+        <NoteHistoryModal
+          visible={historyModalOpen}
+          onClose={() => setHistoryModalOpen(false)}
+          versions={versions}
+          isLoading={isLoadingVersions}
+          current={{ title: lastSavedTitle, content: lastSavedContent }}
+          onRestore={(version) => {
+            // Restoring replaces the saved note; unsaved editor text would be lost.
+            if (isDirty) {
+              alert("Unsaved changes", "Save your changes before restoring a version.");
+              return;
+            }
+            restoreVersionMutation.mutate(version.id);
+          }}
+          isRestoring={restoreVersionMutation.isPending}
+        />
+      )}
+
+      {!isNewNote && (
+        <NotePropertiesModal
+          visible={propertiesModalOpen}
+          onClose={() => setPropertiesModalOpen(false)}
+          content={content}
+          onSave={handleSaveProperties}
+          readOnly={!canEdit}
+        />
+      )}
+
+      {!isNewNote && (
+        <NoteExportModal
+          visible={exportModalOpen}
+          onClose={() => setExportModalOpen(false)}
+          notes={[{ title, content }]}
+          formats={SINGLE_NOTE_EXPORT_FORMATS}
+        />
+      )}
+
+      {isNewNote && (
+        <TemplatePickerModal
+          visible={templatePickerOpen}
+          onClose={() => setTemplatePickerOpen(false)}
+          title="Start from a template"
+          templates={templates}
+          onSelect={applyTemplate}
+        />
+      )}
+
       {/* Move to folder modal */}
       {!isNewNote && note && (Platform.OS === "web" ? (
         moveModalOpen && (
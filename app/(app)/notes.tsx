@@ -3,28 +3,46 @@
 import { LongPressOptionsModal } from "@/components/long-press-options-modal";
 import { MoveToFolderModal } from "@/components/move-to-folder-modal";
 import { NoteCard } from "@/components/note-card";
+import { NoteExportModal } from "@/components/note-export-modal";
+import { NoteSearchResultCard } from "@/components/note-search-result-card";
+import { PropertyFilterBar } from "@/components/property-filter-bar";
+import { TagFilterBar } from "@/components/tag-filter-bar";
 import { Input } from "@/components/ui/input";
 import { Text } from "@/components/ui/text";
 import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
 import { useViewMode } from "@/contexts/view-mode-context";
 import { listFolders } from "@/lib/folders";
+import {
+  countStatuses,
+  sortNotesByProperty,
+  statusMatches,
+  type NotePropertySort,
+} from "@/lib/frontmatter";
 import { CARD_LIST_MAX_WIDTH, NAV_BAR_HEIGHT } from "@/lib/layout";
+import { COLLABORATOR_ROLES, listNotesSharedWithMe, removeCollaborator } from "@/lib/note-collaborators";
+import { MULTI_NOTE_EXPORT_FORMATS } from "@/lib/note-export";
 import {
   archiveNote,
   getNotesSyncStatus,
   getUnsyncedNoteIds,
+  listNoteProperties,
   listNotes,
+  listNotesByTag,
+  listTagCounts,
+  searchNotes,
   updateNote,
 } from "@/lib/notes";
-import { invalidateFoldersQueries, invalidateNotesListQueries } from "@/lib/query-utils";
+import { invalidateFoldersQueries, invalidateNotesListQueries, QueryKeys } from "@/lib/query-utils";
 import type { Note } from "@/lib/supabase";
+import { normalizeTag, noteHasTag } from "@/lib/tags";
 import { THEME } from "@/lib/theme";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
-import { Stack, useRouter } from "expo-router";
-import { LayoutGrid, Plus, Rows2, Search, X } from "lucide-react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { Download, LayoutGrid, Plus, Rows2, Search, Users, X } from "lucide-react-native";
 import { useEffect, useState } from "react";
 import {
   ActivityIndicator,
@@ -38,15 +56,21 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 export default function NotesScreen() {
   const { user } = useAuth();
   const router = useRouter();
+  /** ?tag=work/clienta opens the list filtered by a tag (e.g. from a #hashtag in a note). */
+  const { tag: tagParam } = useLocalSearchParams<{ tag?: string }>();
+  const selectedTag = typeof tagParam === "string" && tagParam ? normalizeTag(tagParam) : null;
   const queryClient = useQueryClient();
   const { alert } = useAlert();
   const { colors } = useThemeColors();
   const insets = useSafeAreaInsets();
   const { getViewMode, toggleViewMode } = useViewMode();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const [screenWidth, setScreenWidth] = useState(() => {
     if (Platform.OS === "web") {
       if (typeof window !== "undefined") {
@@ -80,6 +104,12 @@ export default function NotesScreen() {
     }
   }, []);
 
+  const trimmedQuery = searchQuery.trim();
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(trimmedQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmedQuery]);
+
   const viewMode = getViewMode("notes");
 
   // Always use 2 columns for all devices
@@ -107,29 +137,110 @@ export default function NotesScreen() {
   const { data: syncStatus } = useQuery({
     queryKey: ["notes-sync-status", user?.id],
     queryFn: () => getNotesSyncStatus(user?.id),
-    // Optimize polling: poll more frequently when there are pending changes, less when idle
-    refetchInterval: (query) => {
-      const pendingCount = query.state.data?.pendingCount ?? 0;
-      // Poll every 2s when syncing, 5s when pending changes, 15s when idle
-      if (query.state.data?.isSyncing) return 2000;
-      if (pendingCount > 0) return 5000;
-      return 15000; // Reduced from 10s to 15s when idle
-    },
+    // Remote changes arrive over Realtime (lib/realtime-sync.ts), which invalidates this;
+    // poll only to see a running sync finish
+    refetchInterval: (query) => (query.state.data?.isSyncing ? 2000 : false),
     enabled: !!user?.id,
   });
 
   const { data: unsyncedNoteIds = [] } = useQuery({
     queryKey: ["notes-unsynced-ids", user?.id],
     queryFn: () => getUnsyncedNoteIds(user?.id),
-    // Match sync status polling frequency
-    refetchInterval: (query) => {
-      const pendingCount = syncStatus?.pendingCount ?? 0;
-      if (syncStatus?.isSyncing) return 2000;
-      if (pendingCount > 0) return 5000;
-      return 15000; // Reduced from 10s to 15s when idle
-    },
+    refetchInterval: syncStatus?.isSyncing ? 2000 : false,
+    enabled: !!user?.id,
+  });
+
+  const isSearching = trimmedQuery.length > 0;
+  const { data: searchResults = [], isFetching: isSearchFetching } = useQuery({
+    queryKey: QueryKeys.notesSearch(user?.id, debouncedQuery),
+    queryFn: () => searchNotes(user?.id, debouncedQuery),
+    enabled: !!user?.id && debouncedQuery.length > 0,
+    placeholderData: (previousData) => previousData,
+    retry: false,
+  });
+  const isSearchPending = isSearching && (debouncedQuery !== trimmedQuery || isSearchFetching);
+
+  const { data: tagCounts = [] } = useQuery({
+    queryKey: QueryKeys.noteTags(user?.id),
+    queryFn: () => listTagCounts(user?.id),
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+    placeholderData: (previousData) => previousData,
+    retry: false,
+  });
+
+  const { data: taggedNotes = [], isLoading: isTaggedLoading } = useQuery({
+    queryKey: QueryKeys.notesByTag(user?.id, selectedTag ?? ""),
+    queryFn: () => listNotesByTag(user?.id, selectedTag!),
+    enabled: !!user?.id && !!selectedTag,
+    retry: false,
+  });
+
+  const { data: noteProperties = [] } = useQuery({
+    queryKey: QueryKeys.noteProperties(user?.id),
+    queryFn: () => listNoteProperties(user?.id),
     enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+    placeholderData: (previousData) => previousData,
+    retry: false,
   });
+  const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
+  const [propertySort, setPropertySort] = useState<NotePropertySort>("updated");
+  const statusCounts = countStatuses(noteProperties);
+  const statusByNoteId = new Map(noteProperties.map((entry) => [entry.note_id, entry.status]));
+  const statusOf = (noteId: string) => statusByNoteId.get(noteId);
+
+  const visibleNotes = sortNotesByProperty(
+    (selectedTag ? taggedNotes : notes).filter(
+      (note) => !selectedStatus || statusMatches(statusOf(note.id), selectedStatus)
+    ),
+    noteProperties,
+    propertySort
+  );
+  const visibleSearchResults = searchResults.filter(
+    (result) =>
+      (!selectedTag || noteHasTag(result.note.content, selectedTag)) &&
+      (!selectedStatus || statusMatches(statusOf(result.note.id), selectedStatus))
+  );
+
+  const handleSelectTag = (tag: string | null) => {
+    router.setParams({ tag: tag ?? "" });
+  };
+
+  /** Selection mode: cards toggle instead of opening, and the picked notes export as one document. */
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+  const selectableNotes = isSearching ? visibleSearchResults.map((result) => result.note) : visibleNotes;
+  const loadedNotesById = new Map(
+    [...notes, ...taggedNotes, ...searchResults.map((result) => result.note)].map((note) => [note.id, note])
+  );
+  const selectedNotes = selectedNoteIds
+    .map((id) => loadedNotesById.get(id))
+    .filter((note): note is Note => !!note);
+  const allSelected =
+    selectableNotes.length > 0 && selectableNotes.every((note) => selectedNoteIds.includes(note.id));
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedNoteIds([]);
+  };
+
+  const toggleNoteSelected = (noteId: string) => {
+    if (Platform.OS !== "web") Haptics.selectionAsync();
+    setSelectedNoteIds((current) =>
+      current.includes(noteId) ? current.filter((id) => id !== noteId) : [...current, noteId]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedNoteIds(allSelected ? [] : selectableNotes.map((note) => note.id));
+  };
+
+  const openNote = (noteId: string) => {
+    if (selectionMode) toggleNoteSelected(noteId);
+    else router.push(`/(app)/note/${noteId}`);
+  };
 
   const { data: folders = [] } = useQuery({
     queryKey: ["folders", user?.id],
@@ -226,15 +337,44 @@ export default function NotesScreen() {
     setSelectedFolderId(null);
   };
 
-  const filteredNotes = notes.filter((note) =>
-    note.title.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Notes other accounts invited this user to; they live in the owner's account, not in this list
+  const { data: sharedWithMe = [], refetch: refetchSharedWithMe } = useQuery({
+    queryKey: QueryKeys.notesSharedWithMe(user?.id),
+    queryFn: listNotesSharedWithMe,
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  });
+  const showSharedWithMe =
+    !isSearching && !selectedTag && !selectedStatus && sharedWithMe.length > 0;
+
+  const handleLeaveSharedNote = (noteId: string, noteTitle: string) => {
+    if (!user?.id) return;
+    alert("Leave note", `"${noteTitle || "Untitled"}" will no longer be shared with you.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Leave",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await removeCollaborator(noteId, user.id);
+            queryClient.invalidateQueries({ queryKey: QueryKeys.notesSharedWithMe(user.id) });
+          } catch (error: any) {
+            alert("Error", error?.message ?? "Failed to leave note");
+          }
+        },
+      },
+    ]);
+  };
+
+  const showEmptyState = isSearching
+    ? visibleSearchResults.length === 0 && !isSearchPending
+    : visibleNotes.length === 0 && !(selectedTag && isTaggedLoading);
 
   const onRefresh = async () => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
-    await refetch();
+    await Promise.all([refetch(), refetchSharedWithMe()]);
     if (Platform.OS !== "web") {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
@@ -275,7 +415,7 @@ export default function NotesScreen() {
                 color: colors.foreground,
               }}
             >
-              Notes
+              {selectionMode ? `${selectedNoteIds.length} selected` : "Notes"}
             </Text>
           </View>
 
@@ -287,30 +427,67 @@ export default function NotesScreen() {
               paddingRight: 8,
             }}
           >
-            <Pressable
-              onPress={() => {
-                if (Platform.OS !== "web") {
-                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-                }
-                toggleViewMode("notes");
-              }}
-              style={{ paddingVertical: 8 }}
-            >
-              {viewMode === "grid" ? (
-                <Rows2 color={colors.foreground} size={22} />
-              ) : (
-                <LayoutGrid color={colors.foreground} size={22} />
-              )}
-            </Pressable>
-            <Pressable
-              onPress={() => {
-                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-                router.push("/(app)/note/new");
-              }}
-              style={{ paddingVertical: 8 }}
-            >
-              <Plus color={colors.foreground} size={22} />
-            </Pressable>
+            {selectionMode ? (
+              <>
+                <Pressable onPress={toggleSelectAll} style={{ paddingVertical: 8 }}>
+                  <Text className="text-[15px] text-foreground">
+                    {allSelected ? "Select none" : "Select all"}
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => setExportModalOpen(true)}
+                  disabled={selectedNotes.length === 0}
+                  accessibilityLabel="Export selected notes"
+                  style={{ paddingVertical: 8, opacity: selectedNotes.length === 0 ? 0.4 : 1 }}
+                >
+                  <Download color={colors.foreground} size={22} />
+                </Pressable>
+                <Pressable
+                  onPress={exitSelectionMode}
+                  accessibilityLabel="Cancel selection"
+                  style={{ paddingVertical: 8 }}
+                >
+                  <X color={colors.foreground} size={22} />
+                </Pressable>
+              </>
+            ) : (
+              <>
+                <Pressable
+                  onPress={() => {
+                    if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setSelectionMode(true);
+                  }}
+                  accessibilityLabel="Select notes to export"
+                  style={{ paddingVertical: 8 }}
+                >
+                  <Download color={colors.foreground} size={22} />
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    if (Platform.OS !== "web") {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                    }
+                    toggleViewMode("notes");
+                  }}
+                  style={{ paddingVertical: 8 }}
+                >
+                  {viewMode === "grid" ? (
+                    <Rows2 color={colors.foreground} size={22} />
+                  ) : (
+                    <LayoutGrid color={colors.foreground} size={22} />
+                  )}
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                    router.push("/(app)/note/new");
+                  }}
+                  style={{ paddingVertical: 8 }}
+                >
+                  <Plus color={colors.foreground} size={22} />
+                </Pressable>
+              </>
+            )}
           </View>
         </View>
       </View>
@@ -343,6 +520,20 @@ export default function NotesScreen() {
               </Pressable>
             ) : null}
           </View>
+          <View className="mb-1">
+            <TagFilterBar tags={tagCounts} selectedTag={selectedTag} onSelectTag={handleSelectTag} />
+          </View>
+          {(noteProperties.length > 0 || selectedStatus) && (
+            <View className="mb-1 mt-1">
+              <PropertyFilterBar
+                statuses={statusCounts}
+                selectedStatus={selectedStatus}
+                onSelectStatus={setSelectedStatus}
+                sort={propertySort}
+                onChangeSort={setPropertySort}
+              />
+            </View>
+          )}
         </View>
 
         {isLoading ? (
@@ -366,20 +557,70 @@ export default function NotesScreen() {
               />
             }
           >
-            {filteredNotes.length === 0 ? (
+            {showSharedWithMe && (
+              <View className="mx-auto mb-4" style={{ width: "100%", maxWidth: CARD_LIST_MAX_WIDTH }}>
+                <View className="mb-2 flex-row items-center gap-2">
+                  <Users size={14} color={colors.mutedForeground} />
+                  <Text className="text-sm font-medium text-muted-foreground">Shared with me</Text>
+                </View>
+                <View className="rounded-lg border border-border bg-muted">
+                  {sharedWithMe.map((entry, index) => (
+                    <Pressable
+                      key={entry.note.id}
+                      onPress={() => router.push(`/(app)/note/${entry.note.id}`)}
+                      onLongPress={() => handleLeaveSharedNote(entry.note.id, entry.note.title)}
+                      className={cn("px-4 py-3", index > 0 && "border-t border-border")}
+                    >
+                      <Text className="text-[15px] font-medium text-foreground" numberOfLines={1}>
+                        {entry.note.title || "Untitled"}
+                      </Text>
+                      <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+                        {entry.owner_email ?? "Another account"} ·{" "}
+                        {COLLABORATOR_ROLES.find((r) => r.role === entry.role)?.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
+            {showEmptyState && showSharedWithMe ? null : showEmptyState ? (
               <View
                 className="flex-1 justify-center items-center pt-24 mx-auto"
                 style={{ width: "100%", maxWidth: CARD_LIST_MAX_WIDTH }}
               >
                 <Text className="text-xl font-semibold text-muted-foreground mb-2">
-                  {searchQuery ? "No notes found" : "No notes yet"}
+                  {searchQuery || selectedTag || selectedStatus ? "No notes found" : "No notes yet"}
                 </Text>
                 <Text className="text-sm text-muted-foreground text-center">
                   {searchQuery
                     ? "Try a different search"
-                    : "Tap the + button to create your first note"}
+                    : selectedTag
+                      ? `No notes are tagged #${selectedTag}${selectedStatus ? ` with status ${selectedStatus}` : ""}`
+                      : selectedStatus
+                        ? `No notes have status ${selectedStatus}`
+                        : "Tap the + button to create your first note"}
                 </Text>
               </View>
+            ) : isSearching ? (
+              <View className="mx-auto" style={{ width: "100%", maxWidth: CARD_LIST_MAX_WIDTH }}>
+                {visibleSearchResults.length === 0 ? (
+                  <ActivityIndicator className="pt-24" color={colors.foreground} />
+                ) : (
+                  visibleSearchResults.map((result, resultIndex) => (
+                    <View
+                      key={result.note.id}
+                      style={{ marginBottom: resultIndex < visibleSearchResults.length - 1 ? 12 : 0 }}
+                    >
+                      <NoteSearchResultCard
+                        result={result}
+                        onPress={() => openNote(result.note.id)}
+                        selected={selectionMode && selectedNoteIds.includes(result.note.id)}
+                        onLongPress={() => handleLongPressNote(result.note.id, result.note.title)}
+                      />
+                    </View>
+                  ))
+                )}
+              </View>
             ) : viewMode === "grid" ? (
               <View className="mx-auto" style={{ width: "100%", maxWidth: CARD_LIST_MAX_WIDTH }}>
                 {(() => {
@@ -395,7 +636,7 @@ export default function NotesScreen() {
                   const columnHeights = new Array(columns).fill(0);
                   const columnsData: Note[][] = new Array(columns).fill(null).map(() => []);
 
-                  filteredNotes.forEach((note) => {
+                  visibleNotes.forEach((note) => {
                     // Find the shortest column
                     const shortestColumnIndex = columnHeights.indexOf(Math.min(...columnHeights));
                     columnsData[shortestColumnIndex].push(note);
@@ -449,7 +690,8 @@ export default function NotesScreen() {
                                 note={note}
                                 cardWidth={cardWidth}
                                 isSynced={!unsyncedNoteIds.includes(note.id)}
-                                onPress={() => router.push(`/(app)/note/${note.id}`)}
+                                onPress={() => openNote(note.id)}
+                                selected={selectionMode && selectedNoteIds.includes(note.id)}
                                 onDelete={() => handleLongPressNote(note.id, note.title)}
                                 onRightClickDelete={
                                   Platform.OS === "web"
@@ -476,18 +718,19 @@ export default function NotesScreen() {
 
                   return (
                     <View style={{ width: cardWidth, alignSelf: "center" }}>
-                      {filteredNotes.map((note, noteIndex) => (
+                      {visibleNotes.map((note, noteIndex) => (
                         <View
                           key={note.id}
                           style={{
-                            marginBottom: noteIndex < filteredNotes.length - 1 ? gap : 0,
+                            marginBottom: noteIndex < visibleNotes.length - 1 ? gap : 0,
                           }}
                         >
                           <NoteCard
                             note={note}
                             cardWidth={cardWidth}
                             isSynced={!unsyncedNoteIds.includes(note.id)}
-                            onPress={() => router.push(`/(app)/note/${note.id}`)}
+                            onPress={() => openNote(note.id)}
+                            selected={selectionMode && selectedNoteIds.includes(note.id)}
                             onDelete={() => handleLongPressNote(note.id, note.title)}
                             onRightClickDelete={
                               Platform.OS === "web"
@@ -506,6 +749,13 @@ export default function NotesScreen() {
         )}
       </View>
 
+      <NoteExportModal
+        visible={exportModalOpen}
+        onClose={() => setExportModalOpen(false)}
+        notes={selectedNotes}
+        formats={MULTI_NOTE_EXPORT_FORMATS}
+      />
+
       <LongPressOptionsModal
         visible={optionsModalOpen}
         onClose={() => { setOptionsModalOpen(false); setSelectedNote(null); }}
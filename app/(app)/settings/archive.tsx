@@ -157,8 +157,6 @@ export default function ArchiveScreen() {
   const { data: unsyncedNoteIds = [] } = useQuery({
     queryKey: ["notes-unsynced-ids", user?.id],
     queryFn: () => getUnsyncedNoteIds(user?.id),
-    // Optimize polling: reduce frequency when idle
-    refetchInterval: 15000, // Reduced from 10s to 15s
     enabled: !!user?.id && activeTab === "notes",
   });
 
@@ -470,8 +468,10 @@ export default function ArchiveScreen() {
     return file.name.toLowerCase().includes(query);
   });
 
+  // Archived subfolders are restored and deleted with their parent, so only the tops of archived
+  // subtrees are listed unless searching
   const filteredFolders = archivedFolders.filter((folder) => {
-    if (!searchQuery.trim()) return true;
+    if (!searchQuery.trim()) return !archivedFolders.some((f) => f.id === folder.parent_id);
     const query = searchQuery.toLowerCase();
     return folder.name.toLowerCase().includes(query);
   });
@@ -88,7 +88,11 @@ export default function AttachmentsScreen() {
 
   const deleteMutation = useMutation({
     mutationFn: (url: string) => deleteAttachment(url),
-    onSuccess: () => {
+    onSuccess: (_, url) => {
+      // Drop it right away; when the delete was queued offline the refetch below fails
+      queryClient.setQueryData<AttachmentBucketItem[]>(["attachments", user?.id], (previous) =>
+        previous?.filter((item) => item.url !== url)
+      );
       invalidateAttachmentsQueries(queryClient, user?.id);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setDeleteDialogOpen(false);
@@ -0,0 +1,547 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  deleteCalendarFeed,
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+  getCalendarFeedWebcalUrl,
+  rotateCalendarFeed,
+} from "@/lib/calendar-feed";
+import { exportEvents } from "@/lib/event-export";
+import { importEvents, type EventImportReport } from "@/lib/event-import";
+import { listEvents } from "@/lib/events";
+import { NAV_BAR_HEIGHT } from "@/lib/layout";
+import type { ImportIssue, ImportProgress, PickedImportFile } from "@/lib/note-import";
+import { invalidateEventsQueries, QueryKeys } from "@/lib/query-utils";
+import { addDaysToDate } from "@/lib/recurrence";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as Clipboard from "expo-clipboard";
+import * as DocumentPicker from "expo-document-picker";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  CalendarPlus,
+  CircleAlert,
+  CircleCheck,
+  Copy,
+  Download,
+  Import,
+  RotateCcw,
+} from "lucide-react-native";
+import { useState } from "react";
+import { ActivityIndicator, Linking, Platform, Pressable, ScrollView, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+type ImportState =
+  | { status: "idle"; error?: string }
+  | { status: "running"; progress: ImportProgress | null }
+  | { status: "done"; report: EventImportReport };
+
+type ExportScope = "all" | "range";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function todayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_RE.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+function SectionTitle({ children }: { children: string }) {
+  const { colors } = useThemeColors();
+  return (
+    <Text
+      style={{
+        fontSize: 14,
+        fontWeight: "600",
+        color: colors.mutedForeground,
+        marginBottom: 12,
+        textTransform: "uppercase",
+        letterSpacing: 0.5,
+      }}
+    >
+      {children}
+    </Text>
+  );
+}
+
+function IssueList({ title, issues, tone }: { title: string; issues: ImportIssue[]; tone: "error" | "muted" }) {
+  if (issues.length === 0) return null;
+  return (
+    <View className="mb-4">
+      <Text
+        className={cn(
+          "mb-2 text-sm font-semibold uppercase",
+          tone === "error" ? "text-red-500" : "text-muted-foreground"
+        )}
+      >
+        {title} ({issues.length})
+      </Text>
+      <View className="rounded-lg border border-border bg-background">
+        {issues.map((issue, index) => (
+          <View key={`${issue.path}:${index}`} className={cn("px-4 py-3", index > 0 && "border-t border-border")}>
+            <Text className="text-[15px] text-foreground" numberOfLines={2}>
+              {issue.path}
+            </Text>
+            <Text className="text-xs text-muted-foreground">{issue.message}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function CalendarSyncScreen() {
+  const { user } = useAuth();
+  const { alert } = useAlert();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useThemeColors();
+  const insets = useSafeAreaInsets();
+  const [importState, setImportState] = useState<ImportState>({ status: "idle" });
+  const [exportScope, setExportScope] = useState<ExportScope>("all");
+  const [rangeFrom, setRangeFrom] = useState(todayString);
+  const [rangeTo, setRangeTo] = useState(() => addDaysToDate(todayString(), 30));
+  const [exporting, setExporting] = useState(false);
+  const [exportMessage, setExportMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [feedCopied, setFeedCopied] = useState(false);
+
+  const { data: feedToken, isLoading: feedLoading } = useQuery({
+    queryKey: QueryKeys.calendarFeed(user?.id),
+    queryFn: getCalendarFeedToken,
+    enabled: !!user?.id,
+  });
+
+  const rotateFeedMutation = useMutation({
+    mutationFn: rotateCalendarFeed,
+    onSuccess: (token) => {
+      queryClient.setQueryData(QueryKeys.calendarFeed(user?.id), token);
+    },
+    onError: (error: Error) => {
+      alert("Error", error.message || "Failed to create the calendar feed");
+    },
+  });
+
+  const deleteFeedMutation = useMutation({
+    mutationFn: () => deleteCalendarFeed(user!.id),
+    onSuccess: () => {
+      queryClient.setQueryData(QueryKeys.calendarFeed(user?.id), null);
+    },
+    onError: (error: Error) => {
+      alert("Error", error.message || "Failed to turn off the calendar feed");
+    },
+  });
+
+  const handlePickFiles = async () => {
+    if (!user?.id || importState.status === "running") return;
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    let files: PickedImportFile[];
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+      files = result.assets.map((asset) => ({ name: asset.name, uri: asset.uri, file: asset.file }));
+    } catch (e: any) {
+      setImportState({ status: "idle", error: e?.message ?? "Failed to select files" });
+      return;
+    }
+
+    setImportState({ status: "running", progress: null });
+    try {
+      const report = await importEvents(user.id, files, (progress) =>
+        setImportState({ status: "running", progress })
+      );
+      setImportState({ status: "done", report });
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(
+          report.failed.length > 0
+            ? Haptics.NotificationFeedbackType.Warning
+            : Haptics.NotificationFeedbackType.Success
+        );
+      }
+    } catch (e: any) {
+      setImportState({ status: "idle", error: e?.message ?? "Import failed" });
+    } finally {
+      invalidateEventsQueries(queryClient, user.id);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user?.id || exporting) return;
+    if (exportScope === "range") {
+      if (!isValidDate(rangeFrom) || !isValidDate(rangeTo)) {
+        setExportMessage({ text: "Enter both dates as YYYY-MM-DD", error: true });
+        return;
+      }
+      if (rangeTo < rangeFrom) {
+        setExportMessage({ text: "The end date is before the start date", error: true });
+        return;
+      }
+    }
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    setExporting(true);
+    setExportMessage(null);
+    try {
+      const events = await listEvents(user.id);
+      const count = await exportEvents(
+        events,
+        exportScope === "range" ? { from: rangeFrom, to: rangeTo } : undefined
+      );
+      setExportMessage({ text: `Exported ${count} event${count === 1 ? "" : "s"}` });
+    } catch (e: any) {
+      setExportMessage({ text: e?.message ?? "Export failed", error: true });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedToken) return;
+    try {
+      await Clipboard.setStringAsync(getCalendarFeedUrl(feedToken));
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 1500);
+    } catch {
+      // clipboard not available
+    }
+  };
+
+  const handleSubscribe = () => {
+    if (!feedToken) return;
+    Linking.openURL(getCalendarFeedWebcalUrl(feedToken)).catch(() => {
+      alert("Couldn't open a calendar app", "Copy the URL and add it as a subscribed calendar instead.");
+    });
+  };
+
+  const handleResetFeed = () => {
+    alert(
+      "Reset feed URL?",
+      "Calendars subscribed to the current URL will stop updating until they're given the new one.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Reset", style: "destructive", onPress: () => rotateFeedMutation.mutate() },
+      ]
+    );
+  };
+
+  const handleDeleteFeed = () => {
+    alert("Turn off calendar feed?", "Calendars subscribed to this URL will stop updating.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Turn off", style: "destructive", onPress: () => deleteFeedMutation.mutate() },
+    ]);
+  };
+
+  const renderImport = () => {
+    if (importState.status === "running") {
+      const { progress } = importState;
+      return (
+        <View className="items-center py-6">
+          <ActivityIndicator size="large" color={colors.foreground} />
+          <Text className="mt-4 text-base font-medium text-foreground">
+            {progress
+              ? `Importing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}`
+              : "Reading files…"}
+          </Text>
+          {progress && (
+            <Text className="mt-2 text-sm text-muted-foreground" numberOfLines={1}>
+              {progress.current}
+            </Text>
+          )}
+        </View>
+      );
+    }
+
+    if (importState.status === "done") {
+      const { report } = importState;
+      return (
+        <>
+          <View className="mb-4 flex-row items-start gap-3">
+            {report.failed.length > 0 ? (
+              <CircleAlert color="#f59e0b" size={22} />
+            ) : (
+              <CircleCheck color="#22c55e" size={22} />
+            )}
+            <View className="flex-1">
+              <Text className="text-base font-semibold text-foreground">
+                Imported {report.imported} event{report.imported === 1 ? "" : "s"}
+              </Text>
+              <Text className="mt-1 text-sm text-muted-foreground">
+                {report.skipped.length} skipped
+                {report.failed.length > 0 ? ` · ${report.failed.length} failed` : ""}
+              </Text>
+            </View>
+          </View>
+          <IssueList title="Failed" issues={report.failed} tone="error" />
+          <IssueList title="Imported with changes" issues={report.changed} tone="muted" />
+          <IssueList title="Skipped" issues={report.skipped} tone="muted" />
+          <View className="flex-row gap-3">
+            <Pressable
+              className="flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+              onPress={() => router.push("/(app)/calendar")}
+            >
+              <Text className="text-[15px] text-foreground">Open calendar</Text>
+            </Pressable>
+            <Pressable
+              className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background px-4 py-3 active:bg-accent"
+              onPress={() => setImportState({ status: "idle" })}
+            >
+              <Import color={colors.foreground} size={18} />
+              <Text className="text-[15px] text-foreground">Import more</Text>
+            </Pressable>
+          </View>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text className="mb-4 text-sm text-muted-foreground">
+          Pick .ics files exported from Google Calendar, Apple Calendar, Outlook or another app.
+          Repeating events keep their schedule; events already in your calendar are skipped.
+        </Text>
+        {importState.error && <Text className="mb-4 text-sm text-red-500">{importState.error}</Text>}
+        <Pressable
+          className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+          onPress={handlePickFiles}
+        >
+          <Import color={colors.foreground} size={20} />
+          <Text className="text-[15px] font-medium text-foreground">Choose .ics files</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  const renderFeed = () => {
+    if (feedLoading) {
+      return <ActivityIndicator className="my-4" color={colors.foreground} />;
+    }
+    const busy = rotateFeedMutation.isPending || deleteFeedMutation.isPending;
+
+    if (!feedToken) {
+      return (
+        <>
+          <Text className="mb-4 text-sm text-muted-foreground">
+            Get a private URL that calendar apps can subscribe to. They see your events read-only and
+            pick up changes on their own schedule (usually every few hours).
+          </Text>
+          <Pressable
+            className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+            onPress={() => rotateFeedMutation.mutate()}
+            disabled={busy}
+          >
+            {busy ? (
+              <ActivityIndicator size="small" color={colors.foreground} />
+            ) : (
+              <CalendarPlus color={colors.foreground} size={20} />
+            )}
+            <Text className="text-[15px] font-medium text-foreground">Create feed URL</Text>
+          </Pressable>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text className="mb-3 text-sm text-muted-foreground">
+          Anyone with this URL can see your events. Add it to another calendar app as a subscribed
+          calendar, and reset it if it gets out.
+        </Text>
+        <View className="mb-4 rounded-lg border border-border bg-background px-3 py-2.5">
+          <Text className="text-xs text-foreground" numberOfLines={3} selectable>
+            {getCalendarFeedUrl(feedToken)}
+          </Text>
+        </View>
+        <View className="mb-3 flex-row gap-3">
+          <Pressable
+            className="flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+            onPress={handleCopyFeedUrl}
+          >
+            <Copy color={colors.foreground} size={18} />
+            <Text className="text-[15px] text-foreground">{feedCopied ? "Copied" : "Copy URL"}</Text>
+          </Pressable>
+          {Platform.OS !== "web" && (
+            <Pressable
+              className="flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+              onPress={handleSubscribe}
+            >
+              <CalendarPlus color={colors.foreground} size={18} />
+              <Text className="text-[15px] text-foreground">Subscribe</Text>
+            </Pressable>
+          )}
+        </View>
+        <View className="flex-row gap-3">
+          <Pressable
+            className="flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+            onPress={handleResetFeed}
+            disabled={busy}
+          >
+            <RotateCcw color={colors.foreground} size={18} />
+            <Text className="text-[15px] text-foreground">Reset URL</Text>
+          </Pressable>
+          <Pressable
+            className="flex-1 flex-row items-center justify-center rounded-lg border border-border bg-background py-3 active:bg-accent"
+            onPress={handleDeleteFeed}
+            disabled={busy}
+          >
+            <Text className="text-[15px] text-red-500">Turn off</Text>
+          </Pressable>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View
+        className="border-b border-border"
+        style={{
+          paddingTop: insets.top,
+          backgroundColor: colors.background,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            height: 56,
+            paddingHorizontal: 6,
+          }}
+        >
+          <Pressable
+            onPress={() => {
+              if (Platform.OS !== "web") {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              router.replace("/(app)/settings");
+            }}
+            disabled={importState.status === "running"}
+            style={{ padding: 8, opacity: importState.status === "running" ? 0.4 : 1 }}
+          >
+            <ArrowLeft color={colors.foreground} size={24} />
+          </Pressable>
+          <Text
+            style={{
+              fontSize: 18,
+              fontWeight: "600",
+              color: colors.foreground,
+            }}
+          >
+            Calendar Sync
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{
+          padding: 16,
+          paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
+        }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View className="w-full max-w-2xl mx-auto gap-8">
+          <View>
+            <SectionTitle>Import</SectionTitle>
+            <View className="bg-muted border border-border rounded-2xl p-4">{renderImport()}</View>
+          </View>
+
+          <View>
+            <SectionTitle>Export</SectionTitle>
+            <View className="bg-muted border border-border rounded-2xl p-4">
+              <Text className="mb-3 text-sm text-muted-foreground">
+                Save your events as an .ics file that any calendar app can import.
+              </Text>
+              <View className="mb-4 flex-row gap-2">
+                {(["all", "range"] as const).map((scope) => (
+                  <Pressable
+                    key={scope}
+                    onPress={() => {
+                      setExportScope(scope);
+                      setExportMessage(null);
+                    }}
+                    className={cn(
+                      "rounded-full border px-3 py-1.5",
+                      exportScope === scope ? "border-blue-500 bg-blue-500/10" : "border-border bg-background"
+                    )}
+                  >
+                    <Text className={cn("text-sm", exportScope === scope ? "text-blue-500" : "text-foreground")}>
+                      {scope === "all" ? "All events" : "Date range"}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {exportScope === "range" && (
+                <View className="mb-4 flex-row gap-3">
+                  <View className="flex-1">
+                    <Text className="mb-2 text-sm font-medium text-foreground">From</Text>
+                    <Input
+                      value={rangeFrom}
+                      onChangeText={setRangeFrom}
+                      placeholder="YYYY-MM-DD"
+                      autoCapitalize="none"
+                      className="border-border bg-background text-foreground"
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="mb-2 text-sm font-medium text-foreground">To</Text>
+                    <Input
+                      value={rangeTo}
+                      onChangeText={setRangeTo}
+                      placeholder="YYYY-MM-DD"
+                      autoCapitalize="none"
+                      className="border-border bg-background text-foreground"
+                    />
+                  </View>
+                </View>
+              )}
+              {exportMessage && (
+                <Text className={cn("mb-4 text-sm", exportMessage.error ? "text-red-500" : "text-muted-foreground")}>
+                  {exportMessage.text}
+                </Text>
+              )}
+              <Pressable
+                className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-background py-3 active:bg-accent"
+                onPress={handleExport}
+                disabled={exporting}
+              >
+                {exporting ? (
+                  <ActivityIndicator size="small" color={colors.foreground} />
+                ) : (
+                  <Download color={colors.foreground} size={20} />
+                )}
+                <Text className="text-[15px] font-medium text-foreground">Export .ics</Text>
+              </Pressable>
+            </View>
+          </View>
+
+          <View>
+            <SectionTitle>Subscribe from other apps</SectionTitle>
+            <View className="bg-muted border border-border rounded-2xl p-4">{renderFeed()}</View>
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
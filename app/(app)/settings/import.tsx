@@ -0,0 +1,288 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import { useAuth } from "@/contexts/auth-context";
+import { NAV_BAR_HEIGHT } from "@/lib/layout";
+import {
+  IMPORT_SOURCE_LABELS,
+  importNotes,
+  type ImportIssue,
+  type ImportProgress,
+  type ImportReport,
+  type PickedImportFile,
+} from "@/lib/note-import";
+import { invalidateFoldersQueries, invalidateNotesListQueries } from "@/lib/query-utils";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import { useQueryClient } from "@tanstack/react-query";
+import * as DocumentPicker from "expo-document-picker";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import { ArrowLeft, CircleAlert, CircleCheck, FileText, Folder as FolderIcon, Import } from "lucide-react-native";
+import { useState } from "react";
+import { ActivityIndicator, Platform, Pressable, ScrollView, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+type ImportState =
+  | { status: "idle"; error?: string }
+  | { status: "running"; progress: ImportProgress | null }
+  | { status: "done"; report: ImportReport };
+
+const SOURCES = [
+  { title: "Obsidian", detail: "ZIP of the vault folder. Links, embeds and images are converted." },
+  { title: "Notion", detail: "\"Markdown & CSV\" export ZIP. Page IDs are removed from titles." },
+  { title: "Evernote", detail: ".enex files, one notebook each. Tags and images are kept." },
+  { title: "Markdown", detail: "A ZIP of folders or individual .md files." },
+];
+
+function IssueList({ title, issues, tone }: { title: string; issues: ImportIssue[]; tone: "error" | "muted" }) {
+  if (issues.length === 0) return null;
+  return (
+    <View className="mb-6">
+      <Text
+        className={cn(
+          "mb-2 text-sm font-semibold uppercase",
+          tone === "error" ? "text-red-500" : "text-muted-foreground"
+        )}
+      >
+        {title} ({issues.length})
+      </Text>
+      <View className="rounded-lg border border-border bg-muted">
+        {issues.map((issue, index) => (
+          <View key={`${issue.path}:${index}`} className={cn("px-4 py-3", index > 0 && "border-t border-border")}>
+            <Text className="text-[15px] text-foreground" numberOfLines={2}>
+              {issue.path}
+            </Text>
+            <Text className="text-xs text-muted-foreground">{issue.message}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function ImportScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { colors } = useThemeColors();
+  const insets = useSafeAreaInsets();
+  const [state, setState] = useState<ImportState>({ status: "idle" });
+
+  const handlePickFiles = async () => {
+    if (!user?.id || state.status === "running") return;
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    let files: PickedImportFile[];
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+      files = result.assets.map((asset) => ({ name: asset.name, uri: asset.uri, file: asset.file }));
+    } catch (e: any) {
+      setState({ status: "idle", error: e?.message ?? "Failed to select files" });
+      return;
+    }
+
+    setState({ status: "running", progress: null });
+    try {
+      const report = await importNotes(user.id, files, (progress) => setState({ status: "running", progress }));
+      setState({ status: "done", report });
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(
+          report.failed.length > 0
+            ? Haptics.NotificationFeedbackType.Warning
+            : Haptics.NotificationFeedbackType.Success
+        );
+      }
+    } catch (e: any) {
+      setState({ status: "idle", error: e?.message ?? "Import failed" });
+    } finally {
+      invalidateNotesListQueries(queryClient, user.id);
+      invalidateFoldersQueries(queryClient, user.id);
+    }
+  };
+
+  const renderIdle = (error?: string) => (
+    <>
+      <Text className="mb-4 text-sm text-muted-foreground">
+        Pick a ZIP or files exported from another app. Everything is imported into a new folder, with
+        the original folder structure inside it.
+      </Text>
+      <View className="mb-6 rounded-lg border border-border bg-muted">
+        {SOURCES.map((source, index) => (
+          <View key={source.title} className={cn("px-4 py-3", index > 0 && "border-t border-border")}>
+            <Text className="text-[15px] font-medium text-foreground">{source.title}</Text>
+            <Text className="text-xs text-muted-foreground">{source.detail}</Text>
+          </View>
+        ))}
+      </View>
+      {error && <Text className="mb-4 text-sm text-red-500">{error}</Text>}
+      <Pressable
+        className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-muted py-3 active:bg-accent"
+        onPress={handlePickFiles}
+      >
+        <Import color={colors.foreground} size={20} />
+        <Text className="text-[15px] font-medium text-foreground">Choose files</Text>
+      </Pressable>
+    </>
+  );
+
+  const renderRunning = (progress: ImportProgress | null) => (
+    <View className="items-center pt-16">
+      <ActivityIndicator size="large" color={colors.foreground} />
+      <Text className="mt-4 text-base font-medium text-foreground">
+        {progress ? `Importing ${Math.min(progress.done + 1, progress.total)} of ${progress.total}` : "Reading files…"}
+      </Text>
+      {progress && (
+        <>
+          <View className="mt-4 h-1.5 w-full max-w-[320px] overflow-hidden rounded-full bg-muted">
+            <View
+              className="h-full rounded-full bg-blue-500"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </View>
+          <Text className="mt-2 text-sm text-muted-foreground" numberOfLines={1}>
+            {progress.current}
+          </Text>
+        </>
+      )}
+      <Text className="mt-6 text-xs text-muted-foreground text-center">Keep this screen open until the import finishes.</Text>
+    </View>
+  );
+
+  const renderReport = (report: ImportReport) => (
+    <>
+      <View className="mb-6 flex-row items-start gap-3 rounded-lg border border-border bg-muted p-4">
+        {report.failed.length > 0 ? (
+          <CircleAlert color="#f59e0b" size={22} />
+        ) : (
+          <CircleCheck color="#22c55e" size={22} />
+        )}
+        <View className="flex-1">
+          <Text className="text-base font-semibold text-foreground">
+            Imported {report.notes.length} note{report.notes.length === 1 ? "" : "s"} from{" "}
+            {IMPORT_SOURCE_LABELS[report.source]}
+          </Text>
+          <Text className="mt-1 text-sm text-muted-foreground">
+            {report.foldersCreated} folder{report.foldersCreated === 1 ? "" : "s"} ·{" "}
+            {report.imagesUploaded} image{report.imagesUploaded === 1 ? "" : "s"} uploaded
+            {report.failed.length > 0 ? ` · ${report.failed.length} failed` : ""}
+          </Text>
+        </View>
+      </View>
+
+      <View className="mb-6 flex-row gap-3">
+        <Pressable
+          className="flex-1 flex-row items-center justify-center gap-2 rounded-lg border border-border bg-muted py-3 active:bg-accent"
+          onPress={() => router.push(`/(app)/folder/${report.folderId}`)}
+        >
+          <FolderIcon color={colors.foreground} size={18} />
+          <Text className="text-[15px] text-foreground" numberOfLines={1}>
+            Open {report.folderName}
+          </Text>
+        </Pressable>
+        <Pressable
+          className="flex-row items-center justify-center gap-2 rounded-lg border border-border bg-muted px-4 py-3 active:bg-accent"
+          onPress={() => setState({ status: "idle" })}
+        >
+          <Import color={colors.foreground} size={18} />
+          <Text className="text-[15px] text-foreground">Import more</Text>
+        </Pressable>
+      </View>
+
+      <IssueList title="Failed" issues={report.failed} tone="error" />
+      <IssueList title="Skipped" issues={report.skipped} tone="muted" />
+
+      {report.notes.length > 0 && (
+        <View className="mb-6">
+          <Text className="mb-2 text-sm font-semibold uppercase text-muted-foreground">
+            Imported ({report.notes.length})
+          </Text>
+          <View className="rounded-lg border border-border bg-muted">
+            {report.notes.map((note, index) => (
+              <Pressable
+                key={note.id}
+                className={cn("flex-row items-center gap-3 px-4 py-3", index > 0 && "border-t border-border")}
+                onPress={() => router.push(`/(app)/note/${note.id}`)}
+              >
+                <FileText color={colors.mutedForeground} size={16} />
+                <View className="flex-1">
+                  <Text className="text-[15px] text-foreground" numberOfLines={1}>
+                    {note.title}
+                  </Text>
+                  <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+                    {note.path}
+                  </Text>
+                </View>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View
+        className="border-b border-border"
+        style={{
+          paddingTop: insets.top,
+          backgroundColor: colors.background,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            height: 56,
+            paddingHorizontal: 6,
+          }}
+        >
+          <Pressable
+            onPress={() => {
+              if (Platform.OS !== "web") {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              router.replace("/(app)/settings");
+            }}
+            disabled={state.status === "running"}
+            style={{ padding: 8, opacity: state.status === "running" ? 0.4 : 1 }}
+          >
+            <ArrowLeft color={colors.foreground} size={24} />
+          </Pressable>
+          <Text
+            style={{
+              fontSize: 18,
+              fontWeight: "600",
+              color: colors.foreground,
+            }}
+          >
+            Import Notes
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        className="flex-1"
+        contentContainerStyle={{
+          padding: 16,
+          paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
+        }}
+      >
+        <View className="w-full max-w-2xl mx-auto">
+          {state.status === "idle" && renderIdle(state.error)}
+          {state.status === "running" && renderRunning(state.progress)}
+          {state.status === "done" && renderReport(state.report)}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
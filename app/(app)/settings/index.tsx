@@ -2,16 +2,19 @@
 
 import { Switch } from "@/components/ui/switch";
 import { Text } from "@/components/ui/text";
+import { VaultUnlockModal } from "@/components/vault-unlock-modal";
 import { useAlert } from "@/contexts/alert-context";
 import { useAuth } from "@/contexts/auth-context";
 import { useTheme } from "@/contexts/theme-context";
 import { clearAppCache } from "@/lib/clear-cache";
 import { NAV_BAR_HEIGHT } from "@/lib/layout";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { useVault } from "@/lib/use-vault";
+import { getVaultAutoLockMinutes, setVaultAutoLockMinutes, VAULT_AUTO_LOCK_OPTIONS } from "@/lib/vault";
 import { useQueryClient } from "@tanstack/react-query";
 import * as Haptics from "expo-haptics";
 import { Stack, useRouter } from "expo-router";
-import { Archive, ChevronRight, Eraser, Eye, EyeOff, FileText, Heart, ImageIcon, Lock, LogOut, Settings2, Trash2, WandSparkles } from "lucide-react-native";
+import { Archive, CalendarSync, ChevronRight, Eraser, Eye, EyeOff, FileText, Heart, ImageIcon, Import, KeyRound, Lock, LockOpen, LogOut, Settings2, Share2, Trash2, WandSparkles } from "lucide-react-native";
 import { useState, useEffect } from "react";
 import {
   ActivityIndicator,
@@ -39,6 +42,29 @@ export default function SettingsScreen() {
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false);
   const [clearCacheDialogOpen, setClearCacheDialogOpen] = useState(false);
   const [clearingCache, setClearingCache] = useState(false);
+  const vault = useVault(user?.id);
+  const [vaultModalOpen, setVaultModalOpen] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number | null>(null);
+
+  useEffect(() => {
+    getVaultAutoLockMinutes().then(setAutoLockMinutes);
+  }, []);
+
+  const handleVaultPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (vault.unlocked) vault.lock();
+    else setVaultModalOpen(true);
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAutoLockMinutes(minutes);
+    try {
+      await setVaultAutoLockMinutes(minutes);
+    } catch (error: any) {
+      alert("Error", error.message || "Failed to save the auto-lock setting");
+    }
+  };
 
   // Data Deletion State
   const { verifyPassword, deleteAllContent } = useAuth();
@@ -372,11 +398,11 @@ export default function SettingsScreen() {
               className="flex flex-row items-center justify-between p-4"
               onPress={() => {
                 Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                router.push("/(app)/settings/shared-notes");
+                router.push("/(app)/settings/shared-items");
               }}
             >
               <View className="flex flex-row items-center gap-2">
-                <FileText
+                <Share2
                   color={colors.foreground}
                   size={20}
                 />
@@ -387,7 +413,7 @@ export default function SettingsScreen() {
                     fontWeight: "500",
                   }}
                 >
-                  Manage Shared Notes
+                  Manage Shared Items
                 </Text>
               </View>
               <ChevronRight
@@ -399,6 +425,94 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Vault Section */}
+        <View className="w-full max-w-2xl mx-auto">
+          <Text
+            style={{
+              fontSize: 14,
+              fontWeight: "600",
+              color: colors.mutedForeground,
+              marginBottom: 12,
+              textTransform: "uppercase",
+              letterSpacing: 0.5,
+            }}
+          >
+            Vault
+          </Text>
+          <View className="bg-muted border border-border rounded-2xl overflow-hidden">
+            <Pressable
+              className="flex flex-row items-center justify-between p-4"
+              onPress={handleVaultPress}
+              disabled={vault.hasPassphrase === undefined}
+            >
+              <View className="flex flex-row items-center gap-2">
+                {vault.hasPassphrase === false ? (
+                  <KeyRound color={colors.foreground} size={20} />
+                ) : vault.unlocked ? (
+                  <LockOpen color={colors.foreground} size={20} />
+                ) : (
+                  <Lock color={colors.foreground} size={20} />
+                )}
+                <Text
+                  style={{
+                    fontSize: 16,
+                    color: colors.foreground,
+                    fontWeight: "500",
+                  }}
+                >
+                  {vault.hasPassphrase === false
+                    ? "Set Vault Passphrase"
+                    : vault.unlocked
+                      ? "Lock Vault Now"
+                      : "Unlock Vault"}
+                </Text>
+              </View>
+              <Text style={{ fontSize: 14, color: colors.mutedForeground }}>
+                {vault.hasPassphrase === false ? "Not set up" : vault.unlocked ? "Unlocked" : "Locked"}
+              </Text>
+            </Pressable>
+            <View className="p-4 border-t border-border">
+              <Text
+                style={{
+                  fontSize: 16,
+                  color: colors.foreground,
+                  fontWeight: "500",
+                  marginBottom: 4,
+                }}
+              >
+                Auto-lock
+              </Text>
+              <Text style={{ fontSize: 13, color: colors.mutedForeground, marginBottom: 12 }}>
+                Lock the vault after this long without opening or saving a vault note
+              </Text>
+              <View className="flex flex-row flex-wrap gap-2">
+                {VAULT_AUTO_LOCK_OPTIONS.map((option) => {
+                  const selected = option.minutes === autoLockMinutes;
+                  return (
+                    <Pressable
+                      key={option.minutes}
+                      onPress={() => handleAutoLockChange(option.minutes)}
+                      className={`rounded-full border px-3 py-1.5 ${
+                        selected ? "border-foreground bg-foreground/10" : "border-border"
+                      }`}
+                    >
+                      <Text
+                        style={{
+                          fontSize: 14,
+                          color: selected ? colors.foreground : colors.mutedForeground,
+                          fontWeight: selected ? "600" : "400",
+                        }}
+                      >
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          </View>
+        </View>
+
         {/* Storage Section */}
         <View className="w-full max-w-2xl mx-auto">
           <Text
@@ -470,6 +584,62 @@ export default function SettingsScreen() {
                 style={{ marginRight: -4 }}
               />
             </Pressable>
+            <Pressable
+              className="flex flex-row items-center justify-between p-4 border-t border-border"
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push("/(app)/settings/import");
+              }}
+            >
+              <View className="flex flex-row items-center gap-2">
+                <Import
+                  color={colors.foreground}
+                  size={20}
+                />
+                <Text
+                  style={{
+                    fontSize: 16,
+                    color: colors.foreground,
+                    fontWeight: "500",
+                  }}
+                >
+                  Import Notes
+                </Text>
+              </View>
+              <ChevronRight
+                color={colors.mutedForeground}
+                size={20}
+                style={{ marginRight: -4 }}
+              />
+            </Pressable>
+            <Pressable
+              className="flex flex-row items-center justify-between p-4 border-t border-border"
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push("/(app)/settings/calendar-sync");
+              }}
+            >
+              <View className="flex flex-row items-center gap-2">
+                <CalendarSync
+                  color={colors.foreground}
+                  size={20}
+                />
+                <Text
+                  style={{
+                    fontSize: 16,
+                    color: colors.foreground,
+                    fontWeight: "500",
+                  }}
+                >
+                  Calendar Sync
+                </Text>
+              </View>
+              <ChevronRight
+                color={colors.mutedForeground}
+                size={20}
+                style={{ marginRight: -4 }}
+              />
+            </Pressable>
             <Pressable
               className="flex flex-row items-center gap-12 p-4 border-t border-border"
               onPress={handleClearCachePress}
@@ -904,6 +1074,8 @@ export default function SettingsScreen() {
           </KeyboardAvoidingView>
         </Modal>
       )}
+
+      <VaultUnlockModal visible={vaultModalOpen} onClose={() => setVaultModalOpen(false)} />
     </View>
   );
 }
@@ -0,0 +1,514 @@
+"use client";
+
+import { ShareModal } from "@/components/share-modal";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import { useAuth } from "@/contexts/auth-context";
+import { listArchivedFiles, listFiles } from "@/lib/files";
+import { listArchivedFolders, listFolders } from "@/lib/folders";
+import { listArchivedNotes, listNotes } from "@/lib/notes";
+import {
+  invalidateFilesQueries,
+  invalidateFoldersQueries,
+  invalidateNotesQueries,
+  QueryKeys,
+} from "@/lib/query-utils";
+import {
+  disableShare,
+  getShareUrl,
+  isShareLinkExpired,
+  listShareLinks,
+  type ShareableKind,
+  type ShareLink,
+} from "@/lib/share-links";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import {
+  ArrowLeft,
+  Check,
+  File as FileIcon,
+  FileText,
+  Folder as FolderIcon,
+  Link,
+  Lock,
+  Share2,
+  SlidersHorizontal,
+  Unlink,
+} from "lucide-react-native";
+import { NAV_BAR_HEIGHT } from "@/lib/layout";
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Platform,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+/** A shared note, folder or file as listed on this screen. */
+type SharedRow = {
+  kind: ShareableKind;
+  id: string;
+  title: string;
+  shareToken: string;
+};
+
+const SECTIONS: { kind: ShareableKind; label: string; Icon: typeof FileText }[] = [
+  { kind: "note", label: "Shared notes", Icon: FileText },
+  { kind: "folder", label: "Shared folders", Icon: FolderIcon },
+  { kind: "file", label: "Shared files", Icon: FileIcon },
+];
+
+function sharedRows<T extends { id: string; share_token?: string | null }>(
+  kind: ShareableKind,
+  items: T[],
+  title: (item: T) => string
+): SharedRow[] {
+  return items.flatMap((item) =>
+    item.share_token ? [{ kind, id: item.id, title: title(item), shareToken: item.share_token }] : []
+  );
+}
+
+function describeShareLink(link: ShareLink | undefined): string {
+  if (!link) return "Never expires";
+  const parts = [`${link.view_count} view${link.view_count === 1 ? "" : "s"}`];
+  if (link.expires_at) {
+    const date = new Date(link.expires_at).toLocaleDateString(undefined, { dateStyle: "medium" });
+    parts.push(isShareLinkExpired(link) ? `Expired ${date}` : `Expires ${date}`);
+  } else {
+    parts.push("Never expires");
+  }
+  return parts.join(" · ");
+}
+
+export default function SharedItemsScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { alert } = useAlert();
+  const { colors } = useThemeColors();
+  const insets = useSafeAreaInsets();
+
+  const [disableModalOpen, setDisableModalOpen] = useState(false);
+  const [itemToDisable, setItemToDisable] = useState<SharedRow | null>(null);
+  const [copiedLinkItemId, setCopiedLinkItemId] = useState<string | null>(null);
+  const [optionsItem, setOptionsItem] = useState<SharedRow | null>(null);
+
+  const { data: notes = [], isLoading: notesLoading, refetch: refetchNotes, isRefetching: notesRefetching } = useQuery({
+    queryKey: ["notes", user?.id],
+    queryFn: () => listNotes(user?.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: archivedNotes = [], refetch: refetchArchived, isRefetching: archivedRefetching } = useQuery({
+    queryKey: ["archivedNotes", user?.id],
+    queryFn: () => listArchivedNotes(user?.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: folders = [], refetch: refetchFolders, isRefetching: foldersRefetching } = useQuery({
+    queryKey: QueryKeys.folders(user?.id),
+    queryFn: () => listFolders(user?.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: archivedFolders = [], refetch: refetchArchivedFolders, isRefetching: archivedFoldersRefetching } =
+    useQuery({
+      queryKey: QueryKeys.archivedFolders(user?.id),
+      queryFn: () => listArchivedFolders(user?.id),
+      enabled: !!user?.id,
+    });
+
+  const { data: files = [], refetch: refetchFiles, isRefetching: filesRefetching } = useQuery({
+    queryKey: QueryKeys.files(user?.id),
+    queryFn: () => listFiles(user?.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: archivedFiles = [], refetch: refetchArchivedFiles, isRefetching: archivedFilesRefetching } =
+    useQuery({
+      queryKey: QueryKeys.archivedFiles(user?.id),
+      queryFn: () => listArchivedFiles(user?.id),
+      enabled: !!user?.id,
+    });
+
+  const { data: shareLinks = [], refetch: refetchShareLinks, isRefetching: shareLinksRefetching } = useQuery({
+    queryKey: QueryKeys.shareLinks(user?.id),
+    queryFn: listShareLinks,
+    enabled: !!user?.id,
+  });
+
+  const linksByToken = useMemo(
+    () => new Map(shareLinks.map((link) => [link.token, link])),
+    [shareLinks]
+  );
+
+  const refreshing =
+    notesRefetching ||
+    archivedRefetching ||
+    foldersRefetching ||
+    archivedFoldersRefetching ||
+    filesRefetching ||
+    archivedFilesRefetching ||
+    shareLinksRefetching;
+  const onRefresh = async () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    await Promise.all([
+      refetchNotes(),
+      refetchArchived(),
+      refetchFolders(),
+      refetchArchivedFolders(),
+      refetchFiles(),
+      refetchArchivedFiles(),
+      refetchShareLinks(),
+    ]);
+  };
+
+  const sharedItems = useMemo(
+    () => [
+      ...sharedRows("note", [...notes, ...archivedNotes], (n) => n.title || "Untitled"),
+      ...sharedRows("folder", [...folders, ...archivedFolders], (f) => f.name),
+      ...sharedRows("file", [...files, ...archivedFiles], (f) => f.name),
+    ],
+    [notes, archivedNotes, folders, archivedFolders, files, archivedFiles]
+  );
+
+  const invalidateSharedKind = (kind: ShareableKind) => {
+    if (kind === "note") {
+      if (user?.id) invalidateNotesQueries(queryClient, user.id);
+    } else if (kind === "folder") {
+      invalidateFoldersQueries(queryClient, user?.id);
+    } else {
+      invalidateFilesQueries(queryClient, user?.id);
+    }
+  };
+
+  const disableShareMutation = useMutation({
+    mutationFn: (item: SharedRow) => disableShare(item.kind, item.id, item.shareToken),
+    onSuccess: (_data, item) => {
+      invalidateSharedKind(item.kind);
+      queryClient.invalidateQueries({ queryKey: QueryKeys.shareLinks(user?.id) });
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setDisableModalOpen(false);
+      setItemToDisable(null);
+    },
+    onError: (e: Error) => {
+      alert("Error", e.message ?? "Failed to disable sharing");
+    },
+  });
+
+  const openDisableModal = (item: SharedRow) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setItemToDisable(item);
+    setDisableModalOpen(true);
+  };
+
+  const closeDisableModal = () => {
+    setDisableModalOpen(false);
+    setItemToDisable(null);
+  };
+
+  const confirmDisable = () => {
+    if (!itemToDisable) return;
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    disableShareMutation.mutate(itemToDisable);
+  };
+
+  const handleCopyLink = async (item: SharedRow) => {
+    const shareUrl = getShareUrl(item.shareToken);
+    try {
+      await Clipboard.setStringAsync(shareUrl);
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setCopiedLinkItemId(item.id);
+      setTimeout(() => setCopiedLinkItemId(null), 1500);
+    } catch {
+      // clipboard not available
+    }
+  };
+
+  return (
+    <View className="flex-1" style={{ backgroundColor: colors.background }}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View
+        className="border-b border-border"
+        style={{
+          paddingTop: insets.top,
+          backgroundColor: colors.background,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            justifyContent: "space-between",
+            height: 56,
+            paddingHorizontal: 6,
+          }}
+        >
+          <View style={{ flexDirection: "row", alignItems: "center", flex: 1 }}>
+            <Pressable
+              onPress={() => {
+                if (Platform.OS !== "web") {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                }
+                router.replace("/(app)/settings");
+              }}
+              style={{ padding: 8 }}
+            >
+              <ArrowLeft color={colors.foreground} size={24} />
+            </Pressable>
+            <Text
+              style={{
+                fontSize: 18,
+                fontWeight: "600",
+                color: colors.foreground,
+              }}
+            >
+              Manage Shared Items
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      {notesLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.foreground} />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{
+            padding: 16,
+            paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
+          }}
+          refreshControl={
+            <RefreshControl
+              progressBackgroundColor={colors.background}
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={colors.foreground}
+              colors={[colors.foreground]}
+            />
+          }
+        >
+          {sharedItems.length === 0 ? (
+            <View className="flex-1 items-center justify-center pt-24">
+              <Share2
+                color={colors.mutedForeground}
+                size={48}
+              />
+              <Text className="mt-4 text-center text-muted-foreground text-base max-w-[280px]">
+                You haven&apos;t shared anything yet. Share a note from its detail
+                screen, or a folder or file from its options, to see it here.
+              </Text>
+            </View>
+          ) : (
+            <View className="w-full max-w-2xl mx-auto gap-6">
+              {SECTIONS.map(({ kind, label, Icon }) => {
+                const rows = sharedItems.filter((item) => item.kind === kind);
+                if (rows.length === 0) return null;
+                return (
+                  <View key={kind}>
+                    <Text className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">
+                      {label} ({rows.length})
+                    </Text>
+                    <View className="rounded-2xl border border-border bg-muted overflow-hidden">
+                      {rows.map((item, index) => {
+                        const link = linksByToken.get(item.shareToken);
+                        return (
+                          <View
+                            key={item.id}
+                            className={
+                              index > 0
+                                ? "flex-row items-center gap-3 px-4 py-3 border-t border-border"
+                                : "flex-row items-center gap-3 px-4 py-3"
+                            }
+                          >
+                            <Icon
+                              color={colors.mutedForeground}
+                              size={20}
+                            />
+                            <View className="flex-1 min-w-0">
+                              <Text
+                                className="text-foreground text-base font-medium"
+                                numberOfLines={1}
+                              >
+                                {item.title}
+                              </Text>
+                              <View className="flex-row items-center gap-1">
+                                {link?.has_passphrase && (
+                                  <Lock color={colors.mutedForeground} size={12} />
+                                )}
+                                <Text
+                                  className={
+                                    isShareLinkExpired(link)
+                                      ? "text-xs text-red-500"
+                                      : "text-xs text-muted-foreground"
+                                  }
+                                  numberOfLines={1}
+                                >
+                                  {describeShareLink(link)}
+                                </Text>
+                              </View>
+                            </View>
+                            <Pressable
+                              onPress={() => {
+                                if (Platform.OS !== "web") {
+                                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                                }
+                                setOptionsItem(item);
+                              }}
+                              className="p-2 rounded-lg active:opacity-70"
+                              accessibilityLabel="Share link options"
+                            >
+                              <SlidersHorizontal color={colors.mutedForeground} size={20} />
+                            </Pressable>
+                            <Pressable
+                              onPress={() => handleCopyLink(item)}
+                              className="p-2 rounded-lg active:opacity-70"
+                              accessibilityLabel="Copy share link"
+                            >
+                              {copiedLinkItemId === item.id ? (
+                                <Check color="#3b82f6" size={20} />
+                              ) : (
+                                <Link color="#3b82f6" size={20} />
+                              )}
+                            </Pressable>
+                            <Pressable
+                              onPress={() => openDisableModal(item)}
+                              className="p-2 rounded-lg active:opacity-70"
+                              accessibilityLabel="Disable sharing link"
+                              style={{ marginRight: -4 }}
+                            >
+                              <Unlink
+                                color="#ef4444"
+                                size={20}
+                              />
+                            </Pressable>
+                          </View>
+                        );
+                      })}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      {optionsItem && (
+        <ShareModal
+          visible
+          onClose={() => setOptionsItem(null)}
+          kind={optionsItem.kind}
+          itemId={optionsItem.id}
+          shareToken={optionsItem.shareToken}
+          onShareTokenChange={(token) => {
+            invalidateSharedKind(optionsItem.kind);
+            setOptionsItem(token ? { ...optionsItem, shareToken: token } : null);
+          }}
+        />
+      )}
+
+      {/* Disable sharing link confirmation modal — classNames only */}
+      {Platform.OS === "web" ? (
+        disableModalOpen && (
+          <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+            <Pressable
+              className="absolute inset-0"
+              onPress={closeDisableModal}
+            />
+            <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+              <Text className="mb-2 text-lg font-semibold text-foreground">
+                Disable sharing link
+              </Text>
+              <Text className="mb-6 text-sm text-muted-foreground">
+                {itemToDisable
+                  ? `Stop sharing "${itemToDisable.title.slice(0, 50)}${itemToDisable.title.length > 50 ? "…" : ""}"? The link will no longer work.`
+                  : "Stop sharing this item? The link will no longer work."}
+              </Text>
+              <View className="flex-row justify-end gap-3">
+                <Pressable
+                  className="px-4 py-2"
+                  onPress={closeDisableModal}
+                  disabled={disableShareMutation.isPending}
+                >
+                  <Text className="text-foreground">Cancel</Text>
+                </Pressable>
+                <Pressable
+                  className="rounded-md px-4 py-2"
+                  onPress={confirmDisable}
+                  disabled={disableShareMutation.isPending}
+                >
+                  <Text className="font-semibold text-red-500">
+                    {disableShareMutation.isPending ? "Disabling…" : "Disable link"}
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        )
+      ) : (
+        <Modal
+          visible={disableModalOpen}
+          transparent
+          animationType="fade"
+          onRequestClose={closeDisableModal}
+        >
+          <View className="flex-1 items-center justify-center bg-black/50 p-4">
+            <Pressable
+              className="absolute inset-0"
+              onPress={closeDisableModal}
+            />
+            <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+              <Text className="mb-2 text-lg font-semibold text-foreground">
+                Disable sharing link
+              </Text>
+              <Text className="mb-6 text-sm text-muted-foreground">
+                {itemToDisable
+                  ? `Stop sharing "${itemToDisable.title.slice(0, 50)}${itemToDisable.title.length > 50 ? "…" : ""}"? The link will no longer work.`
+                  : "Stop sharing this item? The link will no longer work."}
+              </Text>
+              <View className="flex-row justify-end gap-3">
+                <Pressable
+                  className="px-4 py-2"
+                  onPress={closeDisableModal}
+                  disabled={disableShareMutation.isPending}
+                >
+                  <Text className="text-foreground">Cancel</Text>
+                </Pressable>
+                <Pressable
+                  className="rounded-md px-4 py-2"
+                  onPress={confirmDisable}
+                  disabled={disableShareMutation.isPending}
+                >
+                  <Text className="font-semibold text-red-500">
+                    {disableShareMutation.isPending ? "Disabling…" : "Disable link"}
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </View>
+  );
+}
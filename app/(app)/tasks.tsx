@@ -0,0 +1,176 @@
+"use client";
+
+import { TagChip } from "@/components/tag-filter-bar";
+import { TaskRow } from "@/components/task-row";
+import { Text } from "@/components/ui/text";
+import { useAuth } from "@/contexts/auth-context";
+import { formatDateToLocalString } from "@/lib/calendar-utils";
+import { CARD_LIST_MAX_WIDTH, NAV_BAR_HEIGHT } from "@/lib/layout";
+import { QueryKeys } from "@/lib/query-utils";
+import { groupTasksByDate, groupTasksByNote, listTasks, type NoteTask } from "@/lib/tasks";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { useToggleTask } from "@/lib/use-toggle-task";
+import { cn } from "@/lib/utils";
+import { useQuery } from "@tanstack/react-query";
+import * as Haptics from "expo-haptics";
+import { Stack, useRouter } from "expo-router";
+import { useState } from "react";
+import { ActivityIndicator, Platform, RefreshControl, ScrollView, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+type GroupBy = "date" | "note";
+
+export default function TasksScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const { colors } = useThemeColors();
+  const insets = useSafeAreaInsets();
+  const [groupBy, setGroupBy] = useState<GroupBy>("date");
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  const {
+    data: tasks = [],
+    isLoading,
+    isFetching,
+    refetch,
+  } = useQuery({
+    queryKey: QueryKeys.noteTasks(user?.id),
+    queryFn: () => listTasks(user?.id),
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+    placeholderData: (previousData) => previousData,
+    retry: false,
+  });
+
+  const handleToggle = useToggleTask(user?.id);
+
+  const visibleTasks = showCompleted ? tasks : tasks.filter((task) => !task.checked);
+  const groups = groupBy === "date" ? groupTasksByDate(visibleTasks) : groupTasksByNote(visibleTasks);
+  const todayKey = formatDateToLocalString(new Date());
+  const openCount = tasks.filter((task) => !task.checked).length;
+
+  const handleOpenNote = (task: NoteTask) => {
+    router.push(`/(app)/note/${task.noteId}`);
+  };
+
+  const onRefresh = async () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    await refetch();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  return (
+    <View className="flex-1 w-full mx-auto" style={{ backgroundColor: colors.background }}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View
+        style={{
+          paddingTop: insets.top,
+          backgroundColor: colors.background,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <View
+          style={{
+            flexDirection: "row",
+            alignItems: "center",
+            height: 56,
+            paddingHorizontal: 16,
+            gap: 8,
+          }}
+        >
+          <Text style={{ fontSize: 18, fontWeight: "600", color: colors.foreground }}>Tasks</Text>
+          {openCount > 0 && <Text className="text-sm text-muted-foreground">{openCount} open</Text>}
+        </View>
+      </View>
+
+      <View className="w-full max-w-3xl mx-auto">
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ gap: 8, paddingHorizontal: 16, paddingVertical: 12 }}
+        >
+          <TagChip label="By date" active={groupBy === "date"} onPress={() => setGroupBy("date")} />
+          <TagChip label="By note" active={groupBy === "note"} onPress={() => setGroupBy("note")} />
+          <TagChip
+            label="Show completed"
+            active={showCompleted}
+            onPress={() => setShowCompleted((value) => !value)}
+          />
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 justify-center items-center">
+          <ActivityIndicator size="large" color={colors.foreground} />
+        </View>
+      ) : (
+        <ScrollView
+          className="flex-1"
+          contentContainerStyle={{
+            padding: 16,
+            paddingTop: 0,
+            paddingBottom: insets.bottom + NAV_BAR_HEIGHT + 32,
+          }}
+          refreshControl={
+            <RefreshControl
+              progressBackgroundColor={colors.background}
+              refreshing={isFetching && !isLoading}
+              onRefresh={onRefresh}
+              tintColor={colors.foreground}
+              colors={[colors.foreground]}
+            />
+          }
+        >
+          <View className="mx-auto" style={{ width: "100%", maxWidth: CARD_LIST_MAX_WIDTH }}>
+            {groups.length === 0 ? (
+              <View className="items-center pt-24">
+                <Text className="text-xl font-semibold text-muted-foreground mb-2">
+                  {tasks.length > 0 ? "All done" : "No tasks yet"}
+                </Text>
+                <Text className="text-sm text-muted-foreground text-center">
+                  {tasks.length > 0
+                    ? "Every task in your notes is checked off"
+                    : "Add \"- [ ] something\" to a note; append due:YYYY-MM-DD or !high to date or prioritize it"}
+                </Text>
+              </View>
+            ) : (
+              groups.map((group) => (
+                <View key={group.key} className="mb-5">
+                  <Text
+                    className={cn(
+                      "mb-2 text-sm font-semibold uppercase",
+                      group.key === "overdue" ? "text-red-500" : "text-muted-foreground"
+                    )}
+                  >
+                    {group.title}
+                  </Text>
+                  <View className="rounded-lg border border-border bg-muted">
+                    {group.tasks.map((task, index) => (
+                      <View
+                        key={`${task.noteId}:${task.lineIndex}`}
+                        className={cn(index > 0 && "border-t border-border")}
+                      >
+                        <TaskRow
+                          task={task}
+                          onToggle={handleToggle}
+                          onOpenNote={handleOpenNote}
+                          showNote={groupBy === "date"}
+                          overdue={!task.checked && !!task.due && task.due < todayKey}
+                        />
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
@@ -16,6 +16,9 @@ export default function Root({ children }: { children: React.ReactNode }) {
         />
         <meta name="theme-color" content="#000000" media="(prefers-color-scheme: dark)" />
         <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: light)" />
+        {/* Installable PWA; the service worker (public/sw.js) is registered from the root layout. */}
+        <link rel="manifest" href="/manifest.json" />
+        <link rel="apple-touch-icon" href="/icon.png" />
 
         {/* Title and OG/twitter meta are set per-route via Head (e.g. app share/[token] sets its own) so they are not overridden by this shell. */}
 
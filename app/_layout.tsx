@@ -4,6 +4,7 @@ import { AlertProvider, useAlert } from "@/contexts/alert-context";
 import { AuthProvider } from "@/contexts/auth-context";
 import { ThemeProvider, useTheme } from "@/contexts/theme-context";
 import "@/global.css";
+import { registerServiceWorker } from "@/lib/service-worker";
 import { supabase } from "@/lib/supabase";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import { PortalHost } from "@rn-primitives/portal";
@@ -36,6 +37,11 @@ const queryClient = new QueryClient({
       placeholderData: (previousData: any) => previousData,
       // Don't retry on mount if query fails (use cache instead)
       retryOnMount: false,
+      // Reads come from the local reservoir, so run them offline too (web pauses them otherwise)
+      networkMode: "offlineFirst",
+    },
+    mutations: {
+      networkMode: "offlineFirst",
     },
   },
 });
@@ -210,6 +216,10 @@ export default function RootLayout() {
     }
   }, [fontsLoaded]);
 
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   if (!fontsLoaded) {
     return null;
   }
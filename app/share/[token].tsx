@@ -1,6 +1,8 @@
 "use client";
 
 import { MarkdownPreview } from "@/components/markdown-preview";
+import { SharedFileView } from "@/components/shared-file-view";
+import { SharedFolderView } from "@/components/shared-folder-view";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,13 +12,13 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
-import { getNoteByShareToken } from "@/lib/notes";
+import { getSharedItem } from "@/lib/share-links";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import { useQuery } from "@tanstack/react-query";
 import * as Clipboard from "expo-clipboard";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import Head from "expo-router/head";
-import { Check, Copy, Info } from "lucide-react-native";
+import { ArrowLeft, Check, Copy, Info } from "lucide-react-native";
 import { useCallback, useState } from "react";
 import {
   ActivityIndicator,
@@ -25,6 +27,7 @@ import {
   Pressable,
   ScrollView,
   Text,
+  TextInput,
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -98,17 +101,42 @@ function metaDescriptionFromContent(content: string | null | undefined): string
   return plain.slice(0, max).trim().replace(/\s+\S*$/, "") + "…";
 }
 
-export default function SharedNoteScreen() {
-  const { token } = useLocalSearchParams<{ token: string }>();
+export default function SharedItemScreen() {
+  // `item` opens a note or file inside a shared folder
+  const { token, item: itemId } = useLocalSearchParams<{ token: string; item?: string }>();
   const router = useRouter();
   const { colors } = useThemeColors();
   const insets = useSafeAreaInsets();
 
-  const { data: note, isLoading, error } = useQuery({
-    queryKey: ["shared-note", token],
-    queryFn: () => getNoteByShareToken(token ?? ""),
+  const [passphraseInput, setPassphraseInput] = useState("");
+  const [passphrase, setPassphrase] = useState<string | undefined>(undefined);
+
+  const { data, isLoading, isFetching, isPlaceholderData, error } = useQuery({
+    queryKey: ["shared-item", token, passphrase, itemId || null],
+    queryFn: () => getSharedItem(token ?? "", { passphrase, itemId: itemId || undefined }),
     enabled: !!token,
+    // Opening the link counts as a view
+    refetchOnWindowFocus: false,
+    placeholderData: (previous) => previous,
   });
+  const shared = data?.status === "ok" ? data : null;
+  const folder = shared?.kind === "folder" ? shared : null;
+  const sharedNote = shared?.kind === "note" ? shared.note : folder?.note;
+  const note = sharedNote ? { ...sharedNote, shared_by_email: shared?.shared_by_email ?? null } : null;
+  const file = shared?.kind === "file" ? shared.file : folder?.file;
+  const title = note ? note.title || "Untitled" : file ? file.name : folder?.folder.name ?? "Shared";
+  const status = data?.status;
+  const needsPassphrase =
+    status === "passphrase_required" || status === "invalid_passphrase" || status === "too_many_attempts";
+
+  const submitPassphrase = () => {
+    const value = passphraseInput.trim();
+    if (value) setPassphrase(value);
+  };
+
+  const openFolderItem = (id: string | null) => {
+    router.setParams({ item: id ?? "" });
+  };
 
   const openGopxDrive = () => {
     if (Platform.OS === "web" && typeof window !== "undefined") {
@@ -130,17 +158,27 @@ export default function SharedNoteScreen() {
     }
   }, [note?.content]);
 
-  // Meta / OG for web: brief info for shared note (or generic/error state)
-  const metaTitle = note
-    ? `${note.title?.trim() || "Untitled"} — Gopx Drive`
-    : error || !note
+  // Meta / OG for web: brief info for the shared item (or generic/error state)
+  const metaTitle = shared
+    ? `${title.trim() || "Untitled"} — Gopx Drive`
+    : error || !shared
       ? "Invalid link — Gopx Drive"
       : "Shared note — Gopx Drive";
   const metaDesc = note
     ? metaDescriptionFromContent(note.content)
-    : error || !note
-      ? "This link is invalid or the note is no longer shared."
-      : "A note shared with you on Gopx Drive. Open to view.";
+    : file
+      ? `${file.name}, shared with you on Gopx Drive.`
+    : folder
+      ? `${folder.folder.name}: ${folder.notes.length} notes and ${folder.files.length} files shared with you on Gopx Drive.`
+    : needsPassphrase
+      ? "This shared note is protected with a passphrase."
+      : status === "expired"
+        ? "This link has expired."
+        : status === "encrypted"
+          ? "This note is end-to-end encrypted and can't be viewed from a link."
+        : error || !note
+          ? "This link is invalid or the note is no longer shared."
+          : "A note shared with you on Gopx Drive. Open to view.";
 
   if (isLoading || !token) {
     return (
@@ -170,7 +208,7 @@ export default function SharedNoteScreen() {
     );
   }
 
-  if (error || !note) {
+  if (error || !shared) {
     return (
       <>
         <Head>
@@ -220,8 +258,67 @@ export default function SharedNoteScreen() {
                 lineHeight: 22,
               }}
             >
-              This link is invalid or the note is no longer shared.
+              {needsPassphrase
+                ? "This note is protected. Enter the passphrase to view it."
+                : status === "expired"
+                  ? "This link has expired."
+                  : status === "encrypted"
+                    ? "This note is end-to-end encrypted. Only its owner can open it, in Gopx Drive."
+                    : "This link is invalid or the note is no longer shared."}
             </Text>
+            {needsPassphrase && (
+              <View style={{ alignSelf: "stretch", gap: 12 }}>
+                <TextInput
+                  value={passphraseInput}
+                  onChangeText={setPassphraseInput}
+                  onSubmitEditing={submitPassphrase}
+                  placeholder="Passphrase"
+                  placeholderTextColor={colors.mutedForeground}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus
+                  style={{
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                    borderRadius: 8,
+                    paddingVertical: 10,
+                    paddingHorizontal: 12,
+                    fontSize: 15,
+                    color: colors.foreground,
+                  }}
+                />
+                {status === "invalid_passphrase" && !isFetching && (
+                  <Text style={{ color: "#ef4444", fontSize: 14, textAlign: "center" }}>
+                    Incorrect passphrase.
+                  </Text>
+                )}
+                {status === "too_many_attempts" && !isFetching && (
+                  <Text style={{ color: "#ef4444", fontSize: 14, textAlign: "center" }}>
+                    Too many incorrect passphrases. Try again in 15 minutes.
+                  </Text>
+                )}
+                <Pressable
+                  onPress={submitPassphrase}
+                  disabled={isFetching || !passphraseInput.trim()}
+                  style={({ pressed }) => ({
+                    alignItems: "center",
+                    paddingVertical: 10,
+                    borderRadius: 8,
+                    backgroundColor: colors.foreground,
+                    opacity: pressed || isFetching || !passphraseInput.trim() ? 0.6 : 1,
+                  })}
+                >
+                  {isFetching ? (
+                    <ActivityIndicator size="small" color={colors.background} />
+                  ) : (
+                    <Text style={{ color: colors.background, fontSize: 15, fontWeight: "600" }}>
+                      View note
+                    </Text>
+                  )}
+                </Pressable>
+              </View>
+            )}
             <Pressable
               onPress={openGopxDrive}
               style={({ pressed }) => ({
@@ -286,6 +383,16 @@ export default function SharedNoteScreen() {
               paddingHorizontal: 6,
             }}
           >
+            {folder && (note || file) && (
+              <Pressable
+                onPress={() => openFolderItem(null)}
+                style={{ padding: 8 }}
+                accessibilityLabel={`Back to ${folder.folder.name}`}
+                accessibilityRole="button"
+              >
+                <ArrowLeft color={colors.foreground} size={24} />
+              </Pressable>
+            )}
             <View
               style={{
                 flex: 1,
@@ -302,7 +409,7 @@ export default function SharedNoteScreen() {
                 numberOfLines={1}
                 ellipsizeMode="tail"
               >
-                {note.title || "Untitled"}
+                {title}
               </Text>
             </View>
             <View
@@ -314,61 +421,65 @@ export default function SharedNoteScreen() {
                 paddingRight: 8,
               }}
             >
-              <Pressable
-                onPress={handleCopyContent}
-                disabled={!note.content}
-                style={[{ paddingVertical: 8 }, !note.content && { opacity: 0.4 }]}
-                accessibilityLabel={copied ? "Copied" : "Copy markdown"}
-                accessibilityRole="button"
-              >
-                {copied ? (
-                  <Check size={22} color={colors.primary} />
-                ) : (
-                  <Copy size={22} color={colors.foreground} />
-                )}
-              </Pressable>
+              {note && (
+                <Pressable
+                  onPress={handleCopyContent}
+                  disabled={!note.content}
+                  style={[{ paddingVertical: 8 }, !note.content && { opacity: 0.4 }]}
+                  accessibilityLabel={copied ? "Copied" : "Copy markdown"}
+                  accessibilityRole="button"
+                >
+                  {copied ? (
+                    <Check size={22} color={colors.primary} />
+                  ) : (
+                    <Copy size={22} color={colors.foreground} />
+                  )}
+                </Pressable>
+              )}
               <ThemeToggle className="p-0 py-2" size={22} />
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Pressable
-                    style={({ pressed }) => [{ paddingVertical: 8 }, pressed && { opacity: 1 }]}
-                    className="active:bg-transparent focus:outline-none"
-                    accessibilityLabel="Note Information"
-                  >
-                    <Info size={22} color={colors.foreground} />
-                  </Pressable>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent side="bottom" align="end" sideOffset={10} className="min-w-[240px]">
-                  <DropdownMenuLabel>Note Information</DropdownMenuLabel>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
-                    <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Title</Text>
-                    <Text style={{ color: colors.foreground, fontSize: 14 }} numberOfLines={1}>
-                      {note.title || "Untitled"}
-                    </Text>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
-                    <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Last updated</Text>
-                    <Text style={{ color: colors.foreground, fontSize: 14 }}>
-                      {formatDateTime(note.updated_at)}
-                    </Text>
-                  </DropdownMenuItem>
-                  {note.shared_by_email ? (
+              {note && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Pressable
+                      style={({ pressed }) => [{ paddingVertical: 8 }, pressed && { opacity: 1 }]}
+                      className="active:bg-transparent focus:outline-none"
+                      accessibilityLabel="Note Information"
+                    >
+                      <Info size={22} color={colors.foreground} />
+                    </Pressable>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="bottom" align="end" sideOffset={10} className="min-w-[240px]">
+                    <DropdownMenuLabel>Note Information</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
                     <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
-                      <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Shared by</Text>
+                      <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Title</Text>
                       <Text style={{ color: colors.foreground, fontSize: 14 }} numberOfLines={1}>
-                        {note.shared_by_email}
+                        {note.title || "Untitled"}
                       </Text>
                     </DropdownMenuItem>
-                  ) : null}
-                  <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
-                    <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Content</Text>
-                    <Text style={{ color: colors.foreground, fontSize: 14 }}>
-                      {note.content?.length ?? 0} characters · {wordCount(note.content ?? "")} words
-                    </Text>
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+                    <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
+                      <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Last updated</Text>
+                      <Text style={{ color: colors.foreground, fontSize: 14 }}>
+                        {formatDateTime(note.updated_at)}
+                      </Text>
+                    </DropdownMenuItem>
+                    {note.shared_by_email ? (
+                      <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
+                        <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Shared by</Text>
+                        <Text style={{ color: colors.foreground, fontSize: 14 }} numberOfLines={1}>
+                          {note.shared_by_email}
+                        </Text>
+                      </DropdownMenuItem>
+                    ) : null}
+                    <DropdownMenuItem disabled className="flex flex-col items-start gap-0.5 opacity-100">
+                      <Text style={{ color: colors.mutedForeground, fontSize: 12 }}>Content</Text>
+                      <Text style={{ color: colors.foreground, fontSize: 14 }}>
+                        {note.content?.length ?? 0} characters · {wordCount(note.content ?? "")} words
+                      </Text>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </View>
           </View>
         </View>
@@ -392,16 +503,26 @@ export default function SharedNoteScreen() {
                 nestedScrollEnabled
               >
                 <View style={{ flexGrow: 1, width: "100%", maxWidth: 672, alignSelf: "center", backgroundColor: colors.muted }}>
-                  {note.content ? (
-                    <MarkdownPreview
-                      content={note.content}
-                      placeholder="Start writing in markdown..."
-                    />
-                  ) : (
-                    <Text style={{ color: colors.mutedForeground, fontStyle: "italic", fontSize: 16 }}>
-                      No content
-                    </Text>
-                  )}
+                  {isPlaceholderData && isFetching ? (
+                    <ActivityIndicator style={{ marginTop: 48 }} color={colors.foreground} />
+                  ) : note ? (
+                    note.content ? (
+                      <MarkdownPreview
+                        content={note.content}
+                        placeholder="Start writing in markdown..."
+                      />
+                    ) : (
+                      <Text style={{ color: colors.mutedForeground, fontStyle: "italic", fontSize: 16 }}>
+                        No content
+                      </Text>
+                    )
+                  ) : file ? (
+                    <SharedFileView file={file} />
+                  ) : folder ? (
+                    <View style={{ padding: 16 }}>
+                      <SharedFolderView notes={folder.notes} files={folder.files} onOpenItem={openFolderItem} />
+                    </View>
+                  ) : null}
 
                   <View
                     style={{
@@ -419,7 +540,7 @@ export default function SharedNoteScreen() {
                         fontSize: 13,
                       }}
                     >
-                      Note taken on
+                      {note ? "Note taken on" : "Shared from"}
                     </Text>
                     <Pressable
                       onPress={openGopxDrive}
@@ -468,17 +589,27 @@ export default function SharedNoteScreen() {
               showsVerticalScrollIndicator
             >
               <View style={{ flexGrow: 1, width: "100%", maxWidth: 672, alignSelf: "center", backgroundColor: colors.muted }}>
-                {note.content ? (
-                  <MarkdownPreview
-                    content={note.content}
-                    placeholder="Start writing in markdown..."
-                    contentContainerStyle={{ flex: 1, width: "100%" }}
-                  />
-                ) : (
-                  <Text style={{ color: colors.mutedForeground, fontStyle: "italic", fontSize: 16 }}>
-                    No content
-                  </Text>
-                )}
+                {isPlaceholderData && isFetching ? (
+                  <ActivityIndicator style={{ marginTop: 48 }} color={colors.foreground} />
+                ) : note ? (
+                  note.content ? (
+                    <MarkdownPreview
+                      content={note.content}
+                      placeholder="Start writing in markdown..."
+                      contentContainerStyle={{ flex: 1, width: "100%" }}
+                    />
+                  ) : (
+                    <Text style={{ color: colors.mutedForeground, fontStyle: "italic", fontSize: 16 }}>
+                      No content
+                    </Text>
+                  )
+                ) : file ? (
+                  <SharedFileView file={file} />
+                ) : folder ? (
+                  <View style={{ padding: 16 }}>
+                    <SharedFolderView notes={folder.notes} files={folder.files} onOpenItem={openFolderItem} />
+                  </View>
+                ) : null}
 
                 <View
                   style={{
@@ -496,7 +627,7 @@ export default function SharedNoteScreen() {
                       fontSize: 13,
                     }}
                   >
-                    Note taken on
+                    {note ? "Note taken on" : "Shared from"}
                   </Text>
                   <Pressable
                     onPress={openGopxDrive}
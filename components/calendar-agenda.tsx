@@ -0,0 +1,137 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import {
+  compareEventInstances,
+  formatEventTimeRange,
+  formatTime12Hour,
+  parseLocalDate,
+  type ExpandedEvent,
+} from "@/lib/calendar-utils";
+import { addDaysToDate } from "@/lib/recurrence";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import { useMemo } from "react";
+import { Pressable, View } from "react-native";
+
+export interface CalendarAgendaProps {
+  /** Occurrences to list; each appears on every day of [from, to] it covers. */
+  events: ExpandedEvent[];
+  from: string;
+  to: string;
+  todayKey: string;
+  onPressEvent: (event: ExpandedEvent) => void;
+}
+
+/** What the time column says for `event` on `day`. */
+function agendaTimeLabel(event: ExpandedEvent, day: string): string {
+  if (event.all_day) return "All day";
+  if (event.startDay === day) return formatTime12Hour(event.start);
+  if (event.endDay === day) return `Until ${formatTime12Hour(event.end)}`;
+  return "All day";
+}
+
+/** Days with events, grouped under month headings, from `from` to `to`. */
+export function CalendarAgenda({ events, from, to, todayKey, onPressEvent }: CalendarAgendaProps) {
+  const { colors } = useThemeColors();
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, ExpandedEvent[]>();
+    for (const event of events) {
+      let day = event.startDay < from ? from : event.startDay;
+      const last = event.endDay > to ? to : event.endDay;
+      for (; day <= last; day = addDaysToDate(day, 1)) {
+        byDay.set(day, [...(byDay.get(day) ?? []), event]);
+      }
+    }
+    return [...byDay.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, list]) => ({ day, events: list.sort(compareEventInstances) }));
+  }, [events, from, to]);
+
+  if (days.length === 0) {
+    return (
+      <View className="flex-1 items-center justify-center pt-24">
+        <Text className="mb-2 text-xl font-semibold text-muted-foreground">No upcoming events</Text>
+        <Text className="text-center text-sm text-muted-foreground">Tap the + button to create an event</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {days.map(({ day, events: dayEvents }, index) => {
+        const date = parseLocalDate(day);
+        const month = day.slice(0, 7);
+        const showMonth = index === 0 || days[index - 1].day.slice(0, 7) !== month;
+        const isToday = day === todayKey;
+
+        return (
+          <View key={day}>
+            {showMonth && (
+              <Text
+                style={{
+                  color: colors.mutedForeground,
+                  fontSize: 14,
+                  fontWeight: "600",
+                  textTransform: "uppercase",
+                  letterSpacing: 0.5,
+                  marginTop: index === 0 ? 0 : 16,
+                  marginBottom: 8,
+                }}
+              >
+                {date.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+              </Text>
+            )}
+            <View className="mb-3 flex-row">
+              <View style={{ width: 52, alignItems: "center", paddingTop: 6 }}>
+                <Text
+                  style={{
+                    color: isToday ? colors.primary : colors.mutedForeground,
+                    fontSize: 11,
+                    fontWeight: "500",
+                    textTransform: "uppercase",
+                  }}
+                >
+                  {date.toLocaleDateString("en-US", { weekday: "short" })}
+                </Text>
+                <Text
+                  style={{
+                    color: isToday ? colors.primary : colors.foreground,
+                    fontSize: 20,
+                    fontWeight: "700",
+                  }}
+                >
+                  {date.getDate()}
+                </Text>
+              </View>
+              <View className="flex-1 rounded-2xl border border-border bg-muted">
+                {dayEvents.map((event, eventIndex) => (
+                  <Pressable
+                    key={`${event.id}-${event.instanceDate}`}
+                    onPress={() => onPressEvent(event)}
+                    className={cn("flex-row px-4 py-3", eventIndex > 0 && "border-t border-border")}
+                  >
+                    <Text style={{ width: 88, color: colors.mutedForeground, fontSize: 13 }}>
+                      {agendaTimeLabel(event, day)}
+                    </Text>
+                    <View className="flex-1">
+                      <Text numberOfLines={1} style={{ color: colors.foreground, fontSize: 15, fontWeight: "500" }}>
+                        {event.title}
+                      </Text>
+                      {event.startDay !== event.endDay && (
+                        <Text numberOfLines={1} style={{ color: colors.mutedForeground, fontSize: 12, marginTop: 2 }}>
+                          {formatEventTimeRange(event)}
+                        </Text>
+                      )}
+                    </View>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,423 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import {
+  formatDateToLocalString,
+  formatEventTimeRange,
+  formatTime12Hour,
+  isAllDayRowEvent,
+  layoutDayEvents,
+  layoutWeekBars,
+  parseLocalDate,
+  type ExpandedEvent,
+  type TimedEventLayout,
+} from "@/lib/calendar-utils";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { PanResponder, Platform, Pressable, ScrollView, View } from "react-native";
+
+const HOUR_HEIGHT = 48;
+const GUTTER_WIDTH = 52;
+const BAR_HEIGHT = 18;
+const MAX_ALL_DAY_LANES = 3;
+/** Drags snap to this many minutes. */
+const SNAP_MINUTES = 15;
+/** Pointer movement (px) below which a press on an event is a tap, not a drag. */
+const DRAG_THRESHOLD = 4;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+type ThemeColors = ReturnType<typeof useThemeColors>["colors"];
+
+function formatHourLabel(hour: number): string {
+  if (hour === 0) return "12 AM";
+  if (hour === 12) return "12 PM";
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+}
+
+/** `date` moved by `days` and `minutes` of local wall-clock time. */
+function shiftLocal(date: Date, days: number, minutes: number): Date {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  shifted.setMinutes(shifted.getMinutes() + minutes);
+  return shifted;
+}
+
+const snapMinutes = (dy: number) => Math.round((dy / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+
+export interface CalendarTimeGridProps {
+  /** Local days shown as columns ("YYYY-MM-DD"): one for the day view, seven for the week view. */
+  days: string[];
+  events: ExpandedEvent[];
+  /** Height of the scrolling hours area. */
+  height: number;
+  onPressEvent: (event: ExpandedEvent) => void;
+  /** A tap on an empty hour; `time` is "HH:mm". */
+  onPressSlot: (date: string, time: string) => void;
+  onPressDay?: (date: string) => void;
+  /**
+   * Set to let events be dragged to another time or day and resized from their bottom edge
+   * (web only). Called on drop with the occurrence's new start and end.
+   */
+  onReschedule?: (event: ExpandedEvent, start: Date, end: Date) => void;
+}
+
+/** Hours of one or more days side by side, with all-day events in a row above them. */
+export function CalendarTimeGrid({
+  days,
+  events,
+  height,
+  onPressEvent,
+  onPressSlot,
+  onPressDay,
+  onReschedule,
+}: CalendarTimeGridProps) {
+  const { colors } = useThemeColors();
+  const scrollRef = useRef<ScrollView>(null);
+  const [columnWidth, setColumnWidth] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+  const todayKey = formatDateToLocalString(now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Start scrolled to the current hour when today is shown, otherwise to the morning
+  const daysKey = days.join(",");
+  useEffect(() => {
+    const hour = days.includes(formatDateToLocalString(new Date())) ? Math.max(new Date().getHours() - 1, 0) : 7;
+    const timer = setTimeout(() => scrollRef.current?.scrollTo({ y: hour * HOUR_HEIGHT, animated: false }), 0);
+    return () => clearTimeout(timer);
+  }, [daysKey]);
+
+  const { bars, hidden } = useMemo(
+    () => layoutWeekBars(days.map(parseLocalDate), events.filter(isAllDayRowEvent), MAX_ALL_DAY_LANES),
+    [daysKey, events]
+  );
+  const lanes = bars.reduce((count, bar) => Math.max(count, bar.lane + 1), 0);
+  const allDayRows = lanes + (hidden.some((count) => count > 0) ? 1 : 0);
+
+  const layouts = useMemo(() => days.map((day) => layoutDayEvents(events, day)), [daysKey, events]);
+
+  return (
+    <View className="overflow-hidden rounded-2xl border border-border bg-muted">
+      {/* Day headers */}
+      <View style={{ flexDirection: "row", borderBottomWidth: 1, borderBottomColor: colors.border }}>
+        <View style={{ width: GUTTER_WIDTH }} />
+        {days.map((day) => {
+          const date = parseLocalDate(day);
+          const isToday = day === todayKey;
+          return (
+            <Pressable
+              key={day}
+              onPress={() => onPressDay?.(day)}
+              disabled={!onPressDay}
+              style={{ flex: 1, alignItems: "center", paddingVertical: 8 }}
+            >
+              <Text
+                style={{
+                  color: isToday ? colors.primary : colors.mutedForeground,
+                  fontSize: 11,
+                  fontWeight: "500",
+                  textTransform: "uppercase",
+                }}
+              >
+                {date.toLocaleDateString("en-US", { weekday: "short" })}
+              </Text>
+              <View
+                style={{
+                  marginTop: 2,
+                  width: 28,
+                  height: 28,
+                  borderRadius: 14,
+                  alignItems: "center",
+                  justifyContent: "center",
+                  backgroundColor: isToday ? colors.primary : "transparent",
+                }}
+              >
+                <Text
+                  style={{
+                    color: isToday ? colors.primaryForeground : colors.foreground,
+                    fontSize: 15,
+                    fontWeight: "600",
+                  }}
+                >
+                  {date.getDate()}
+                </Text>
+              </View>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {/* All-day and multi-day events */}
+      {allDayRows > 0 && (
+        <View style={{ flexDirection: "row", borderBottomWidth: 1, borderBottomColor: colors.border }}>
+          <View style={{ width: GUTTER_WIDTH, justifyContent: "center", paddingHorizontal: 4 }}>
+            <Text style={{ color: colors.mutedForeground, fontSize: 10, textAlign: "right" }}>all-day</Text>
+          </View>
+          <View style={{ flex: 1, height: allDayRows * (BAR_HEIGHT + 2) + 4, marginTop: 2 }}>
+            {bars.map((bar) => (
+              <Pressable
+                key={`${bar.event.id}-${bar.event.instanceDate}`}
+                onPress={() => onPressEvent(bar.event)}
+                style={{
+                  position: "absolute",
+                  top: bar.lane * (BAR_HEIGHT + 2),
+                  left: `${(bar.startCol / days.length) * 100}%`,
+                  width: `${((bar.endCol - bar.startCol + 1) / days.length) * 100}%`,
+                  height: BAR_HEIGHT,
+                  paddingHorizontal: 1,
+                }}
+              >
+                <View
+                  style={{
+                    flex: 1,
+                    justifyContent: "center",
+                    paddingHorizontal: 4,
+                    borderRadius: 4,
+                    backgroundColor: colors.primary,
+                  }}
+                >
+                  <Text numberOfLines={1} style={{ color: colors.primaryForeground, fontSize: 11, fontWeight: "500" }}>
+                    {bar.event.title}
+                  </Text>
+                </View>
+              </Pressable>
+            ))}
+            {hidden.map((count, col) =>
+              count > 0 ? (
+                <Pressable
+                  key={`more-${col}`}
+                  onPress={() => onPressDay?.(days[col])}
+                  style={{
+                    position: "absolute",
+                    top: lanes * (BAR_HEIGHT + 2),
+                    left: `${(col / days.length) * 100}%`,
+                    width: `${100 / days.length}%`,
+                    height: BAR_HEIGHT,
+                    alignItems: "center",
+                    justifyContent: "center",
+                  }}
+                >
+                  <Text style={{ color: colors.mutedForeground, fontSize: 10, fontWeight: "500" }}>+{count}</Text>
+                </Pressable>
+              ) : null
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Hours */}
+      <ScrollView ref={scrollRef} style={{ height }} nestedScrollEnabled showsVerticalScrollIndicator={false}>
+        <View style={{ flexDirection: "row", height: 24 * HOUR_HEIGHT }}>
+          <View style={{ width: GUTTER_WIDTH }}>
+            {HOURS.map((hour) =>
+              hour === 0 ? null : (
+                <Text
+                  key={hour}
+                  style={{
+                    position: "absolute",
+                    top: hour * HOUR_HEIGHT - 7,
+                    right: 6,
+                    color: colors.mutedForeground,
+                    fontSize: 10,
+                  }}
+                >
+                  {formatHourLabel(hour)}
+                </Text>
+              )
+            )}
+          </View>
+
+          <View
+            style={{ flex: 1, flexDirection: "row" }}
+            onLayout={(e) => setColumnWidth(e.nativeEvent.layout.width / days.length)}
+          >
+            {days.map((day, dayIndex) => (
+              <View
+                key={day}
+                style={{
+                  flex: 1,
+                  borderLeftWidth: 1,
+                  borderLeftColor: colors.border,
+                }}
+              >
+                {HOURS.map((hour) => (
+                  <Pressable
+                    key={hour}
+                    onPress={() => onPressSlot(day, `${String(hour).padStart(2, "0")}:00`)}
+                    style={{
+                      height: HOUR_HEIGHT,
+                      borderTopWidth: hour === 0 ? 0 : 1,
+                      borderTopColor: colors.border,
+                    }}
+                  />
+                ))}
+
+                {layouts[dayIndex].map((layout) => (
+                  <EventBlock
+                    key={`${layout.event.id}-${layout.event.instanceDate}`}
+                    layout={layout}
+                    dayIndex={dayIndex}
+                    dayCount={days.length}
+                    columnWidth={columnWidth}
+                    colors={colors}
+                    onPress={() => onPressEvent(layout.event)}
+                    onReschedule={Platform.OS === "web" ? onReschedule : undefined}
+                  />
+                ))}
+
+                {day === todayKey && (
+                  <View
+                    pointerEvents="none"
+                    style={{
+                      position: "absolute",
+                      left: 0,
+                      right: 0,
+                      top: ((now.getHours() * 60 + now.getMinutes()) / 60) * HOUR_HEIGHT,
+                      height: 2,
+                      backgroundColor: "#ef4444",
+                    }}
+                  />
+                )}
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+interface EventBlockProps {
+  layout: TimedEventLayout;
+  dayIndex: number;
+  dayCount: number;
+  columnWidth: number;
+  colors: ThemeColors;
+  onPress: () => void;
+  onReschedule?: (event: ExpandedEvent, start: Date, end: Date) => void;
+}
+
+type DragState = { mode: "move" | "resize"; dx: number; dy: number };
+
+/** One timed event in a day column; with `onReschedule`, draggable and resizable from its bottom edge. */
+function EventBlock({ layout, dayIndex, dayCount, columnWidth, colors, onPress, onReschedule }: EventBlockProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // The responders are created once; they read the latest props from here
+  const latest = useRef({ layout, dayIndex, dayCount, columnWidth, onPress, onReschedule });
+  latest.current = { layout, dayIndex, dayCount, columnWidth, onPress, onReschedule };
+
+  const dayShiftFor = (dx: number) => {
+    const { dayIndex, dayCount, columnWidth } = latest.current;
+    if (columnWidth <= 0) return 0;
+    return Math.min(Math.max(Math.round(dx / columnWidth), -dayIndex), dayCount - 1 - dayIndex);
+  };
+
+  const finish = (mode: DragState["mode"], dx: number, dy: number) => {
+    const { layout, onPress, onReschedule } = latest.current;
+    if (Math.abs(dx) < DRAG_THRESHOLD && Math.abs(dy) < DRAG_THRESHOLD) {
+      if (mode === "move") onPress();
+      return;
+    }
+    const { event } = layout;
+    const minutes = snapMinutes(dy);
+    if (mode === "move") {
+      const days = dayShiftFor(dx);
+      if (days === 0 && minutes === 0) return;
+      const start = shiftLocal(event.start, days, minutes);
+      onReschedule?.(event, start, new Date(start.getTime() + (event.end.getTime() - event.start.getTime())));
+    } else {
+      if (minutes === 0) return;
+      const minEnd = event.start.getTime() + SNAP_MINUTES * 60 * 1000;
+      onReschedule?.(event, event.start, new Date(Math.max(shiftLocal(event.end, 0, minutes).getTime(), minEnd)));
+    }
+  };
+
+  const createResponder = (mode: DragState["mode"]) =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => setDrag({ mode, dx: 0, dy: 0 }),
+      onPanResponderMove: (_, gesture) => setDrag({ mode, dx: gesture.dx, dy: gesture.dy }),
+      onPanResponderRelease: (_, gesture) => {
+        setDrag(null);
+        finish(mode, gesture.dx, gesture.dy);
+      },
+      onPanResponderTerminate: () => setDrag(null),
+    });
+  const moveResponder = useRef(createResponder("move")).current;
+  const resizeResponder = useRef(createResponder("resize")).current;
+
+  const { event, startMinute, endMinute, column, columns } = layout;
+  const minutes = drag ? snapMinutes(drag.dy) : 0;
+  const top = (startMinute / 60) * HOUR_HEIGHT;
+  const blockHeight = ((endMinute - startMinute) / 60) * HOUR_HEIGHT;
+  const previewHeight =
+    drag?.mode === "resize"
+      ? Math.max(blockHeight + (minutes / 60) * HOUR_HEIGHT, (SNAP_MINUTES / 60) * HOUR_HEIGHT)
+      : blockHeight;
+  const dayShift = drag?.mode === "move" ? dayShiftFor(drag.dx) : 0;
+  const startShift = drag?.mode === "move" ? minutes : 0;
+  const translateX = dayShift * columnWidth;
+  const translateY = (startShift / 60) * HOUR_HEIGHT;
+
+  const content = (
+    <View
+      style={{
+        flex: 1,
+        paddingHorizontal: 4,
+        paddingVertical: 2,
+        borderRadius: 4,
+        backgroundColor: colors.primary,
+        borderWidth: 1,
+        borderColor: colors.muted,
+        opacity: drag ? 0.85 : 1,
+        overflow: "hidden",
+      }}
+    >
+      <Text
+        numberOfLines={previewHeight > 36 ? 2 : 1}
+        style={{ color: colors.primaryForeground, fontSize: 11, fontWeight: "600" }}
+      >
+        {event.title}
+      </Text>
+      {previewHeight > 30 && (
+        <Text numberOfLines={1} style={{ color: colors.primaryForeground, fontSize: 10, opacity: 0.85 }}>
+          {drag ? formatTime12Hour(shiftLocal(event.start, dayShift, startShift)) : formatEventTimeRange(event)}
+        </Text>
+      )}
+    </View>
+  );
+
+  const style = {
+    position: "absolute" as const,
+    top,
+    height: Math.max(previewHeight - 1, 12),
+    left: `${(column / columns) * 100}%` as const,
+    width: `${100 / columns}%` as const,
+    paddingHorizontal: 1,
+    zIndex: drag ? 10 : 1,
+    transform: [{ translateX }, { translateY }],
+  };
+
+  if (!onReschedule) {
+    return (
+      <Pressable onPress={onPress} style={style}>
+        {content}
+      </Pressable>
+    );
+  }
+
+  return (
+    <View className="cursor-pointer" style={style} {...moveResponder.panHandlers}>
+      {content}
+      <View
+        {...resizeResponder.panHandlers}
+        className="cursor-ns-resize"
+        style={{ position: "absolute", left: 0, right: 0, bottom: 0, height: 6 }}
+      />
+    </View>
+  );
+}
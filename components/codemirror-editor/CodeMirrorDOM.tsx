@@ -16,6 +16,9 @@ import {
   getScrollbarCss,
   type MarkdownThemeColors,
 } from "@/lib/markdown-theme";
+import { createCollabSession, type CollabMessage, type CollabSession, type RemoteCursor } from "@/lib/note-collab";
+import { HASHTAG_RE } from "@/lib/tags";
+import { WIKI_LINK_RE } from "@/lib/wiki-links";
 import { defaultKeymap, history, indentWithTab, indentMore, indentLess } from "@codemirror/commands";
 import { cpp } from "@codemirror/lang-cpp";
 import { css } from "@codemirror/lang-css";
@@ -30,7 +33,7 @@ import { rust } from "@codemirror/lang-rust";
 import { sql } from "@codemirror/lang-sql";
 import { xml } from "@codemirror/lang-xml";
 import { HighlightStyle, syntaxHighlighting, syntaxTree } from "@codemirror/language";
-import { EditorState, StateField, Annotation } from "@codemirror/state";
+import { EditorState, StateField, StateEffect, Annotation, ChangeSet, Compartment, Transaction } from "@codemirror/state";
 import { BlockWrapper, Decoration, DecorationSet, EditorView, keymap, ViewPlugin, WidgetType } from "@codemirror/view";
 import { useDOMImperativeHandle, type DOMImperativeFactory } from "expo/dom";
 import React, { useEffect, useRef, type Ref } from "react";
@@ -252,6 +255,65 @@ const codeBlockAndBlockquotePlugins = [
   mathMarkerPlugin,
   markHighlightPlugin,
 ];
+
+// Collaborators' carets (with a name tag) and selections; mapped through edits between updates
+class RemoteCaretWidget extends WidgetType {
+  constructor(readonly name: string, readonly color: string) {
+    super();
+  }
+  eq(other: RemoteCaretWidget) {
+    return other.name === this.name && other.color === this.color;
+  }
+  toDOM() {
+    const caret = document.createElement("span");
+    caret.className = "cm-remote-caret";
+    caret.style.borderLeft = `2px solid ${this.color}`;
+    const label = document.createElement("span");
+    label.className = "cm-remote-caret-label";
+    label.textContent = this.name;
+    label.style.backgroundColor = this.color;
+    caret.appendChild(label);
+    return caret;
+  }
+  ignoreEvent() {
+    return true;
+  }
+}
+
+function getRemoteCursorDecorations(cursors: RemoteCursor[], length: number): DecorationSet {
+  const ranges = [];
+  for (const cursor of cursors) {
+    const anchor = Math.min(Math.max(0, cursor.anchor), length);
+    const head = Math.min(Math.max(0, cursor.head), length);
+    if (anchor !== head) {
+      ranges.push(
+        Decoration.mark({ attributes: { style: `background-color: ${cursor.color}33` } }).range(
+          Math.min(anchor, head),
+          Math.max(anchor, head)
+        )
+      );
+    }
+    ranges.push(Decoration.widget({ widget: new RemoteCaretWidget(cursor.name, cursor.color), side: 1 }).range(head));
+  }
+  return Decoration.set(ranges, true);
+}
+
+const setRemoteCursorsEffect = StateEffect.define<RemoteCursor[]>();
+
+const remoteCursorsField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(value, tr) {
+    let next = value.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(setRemoteCursorsEffect)) next = getRemoteCursorDecorations(effect.value, tr.state.doc.length);
+    }
+    return next;
+  },
+  provide: (f) => EditorView.decorations.from(f),
+});
+
 function buildThemeFromProps(props: {
   backgroundColor: string;
   color: string;
@@ -290,6 +352,8 @@ export interface CodeMirrorDOMRef extends DOMImperativeFactory {
   replace: (...args: JSONValue[]) => void;
   replaceAll: (...args: JSONValue[]) => void;
   getValue: () => string;
+  /** Feed a message from the note channel to the live collaboration session. */
+  receiveCollab: (...args: JSONValue[]) => void;
 }
 
 interface CodeMirrorDOMProps {
@@ -316,6 +380,14 @@ interface CodeMirrorDOMProps {
   hashtagTag?: string;
   isDark?: boolean;
   extraBottomPadding?: number;
+  readOnly?: boolean;
+  /** Enables live collaboration; the session restarts when the client id or permission changes. */
+  collab?: { clientId: string; canEdit: boolean };
+  /** Native action: session messages to broadcast on the note channel. */
+  onCollabMessage?: (message: CollabMessage) => Promise<void>;
+  remoteCursors?: RemoteCursor[];
+  /** Native action: content after a collaborator's edit was applied; defaults to onContentChange. */
+  onRemoteContentChange?: (text: string) => Promise<void>;
   dom?: import("expo/dom").DOMProps;
   ref?: Ref<CodeMirrorDOMRef>;
 }
@@ -339,6 +411,11 @@ export default function CodeMirrorDOM({
   hashtagTag,
   isDark,
   extraBottomPadding,
+  readOnly = false,
+  collab,
+  onCollabMessage,
+  remoteCursors,
+  onRemoteContentChange,
   ref: refProp,
 }: CodeMirrorDOMProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -351,12 +428,20 @@ export default function CodeMirrorDOM({
   const lastIdRef = useRef(id);
   onContentChangeRef.current = onContentChange;
   onSelectionChangeRef.current = onSelectionChange;
+  const onCollabMessageRef = useRef(onCollabMessage);
+  const onRemoteContentChangeRef = useRef(onRemoteContentChange);
+  onCollabMessageRef.current = onCollabMessage;
+  onRemoteContentChangeRef.current = onRemoteContentChange;
+  const collabRef = useRef<CollabSession | null>(null);
+  const readOnlyCompartment = useRef(new Compartment()).current;
 
   const [searchState, setSearchState] = React.useState({ query: "", activeIndex: 0 });
   const searchStateRef = useRef(searchState);
   searchStateRef.current = searchState;
   
   const programmatic = useRef(Annotation.define<boolean>()).current;
+  /** Marks a collaborator's edit applied by the collab session, so it is not sent back out. */
+  const remoteChange = useRef(Annotation.define<boolean>()).current;
 
   // Create CodeMirror instance once (theme colors from props so light/dark render correctly)
   useEffect(() => {
@@ -568,7 +653,7 @@ export default function CodeMirrorDOM({
 
         getHashtags(view: EditorView) {
           let widgets: any[] = [];
-          const HASHTAG_REGEX = /(^|\s)(#[\w-]+)(?=\b|\s|$)/g;
+          const HASHTAG_REGEX = new RegExp(HASHTAG_RE.source, "g");
 
           for (let { from, to } of view.visibleRanges) {
             const text: string = view.state.doc.sliceString(from, to);
@@ -593,6 +678,41 @@ export default function CodeMirrorDOM({
       }
     );
 
+    const wikiLinkPlugin = ViewPlugin.fromClass(
+      class {
+        decorations: any;
+
+        constructor(view: EditorView) {
+          this.decorations = this.getWikiLinks(view);
+        }
+
+        update(update: any) {
+          if (update.docChanged || update.viewportChanged) {
+            this.decorations = this.getWikiLinks(update.view);
+          }
+        }
+
+        getWikiLinks(view: EditorView) {
+          let widgets: any[] = [];
+          const WIKI_REGEX = new RegExp(WIKI_LINK_RE.source, "g");
+
+          for (let { from, to } of view.visibleRanges) {
+            const text: string = view.state.doc.sliceString(from, to);
+            let match;
+
+            while ((match = WIKI_REGEX.exec(text)) !== null) {
+              const matchStart = from + match.index;
+              widgets.push(Decoration.mark({ class: "cm-wiki-link" }).range(matchStart, matchStart + match[0].length));
+            }
+          }
+          return Decoration.set(widgets);
+        }
+      },
+      {
+        decorations: (v: any) => v.decorations,
+      }
+    );
+
     const linkPlugin = ViewPlugin.fromClass(
       class {
         decorations: any;
@@ -639,6 +759,7 @@ export default function CodeMirrorDOM({
         ...codeBlockAndBlockquotePlugins,
         mentionPlugin,
         hashtagPlugin,
+        wikiLinkPlugin,
         linkPlugin,
         ViewPlugin.fromClass(class {
           decorations: DecorationSet;
@@ -651,10 +772,21 @@ export default function CodeMirrorDOM({
         }, {
           decorations: v => v.decorations
         }),
+        remoteCursorsField,
         history(),
         keymap.of([...customMarkdownKeymap, ...defaultKeymap, indentWithTab]),
         EditorView.lineWrapping,
+        readOnlyCompartment.of(
+          readOnly ? [EditorState.readOnly.of(true), EditorView.editable.of(false)] : []
+        ),
         EditorView.updateListener.of((update) => {
+          const isRemote = update.transactions.some(tr => tr.annotation(remoteChange));
+          if (update.docChanged && collabRef.current && !isRemote) {
+            // Every local edit, prop syncs included, goes to collaborators
+            for (const tr of update.transactions) {
+              if (tr.docChanged) collabRef.current.localChange(tr.changes);
+            }
+          }
           if (update.docChanged && onContentChangeRef.current) {
             // Echo Suppression: If this change was triggered programmatically (e.g. from a prop update),
             // do NOT sync it back to the parent. This prevents feedback loops and stale state race conditions.
@@ -662,7 +794,11 @@ export default function CodeMirrorDOM({
               return;
             }
             const v = update.state.doc.toString();
-            onContentChangeRef.current(v);
+            if (isRemote && onRemoteContentChangeRef.current) {
+              onRemoteContentChangeRef.current(v);
+            } else {
+              onContentChangeRef.current(v);
+            }
           }
           if (update.selectionSet) {
             const sel = update.state.selection.main;
@@ -725,6 +861,20 @@ export default function CodeMirrorDOM({
             backgroundColor: "#eab308", // yellow-500
             color: "#000",
           },
+          ".cm-remote-caret": { position: "relative", marginLeft: "-1px", marginRight: "-1px" },
+          ".cm-remote-caret-label": {
+            position: "absolute",
+            bottom: "100%",
+            left: "-2px",
+            padding: "0 4px",
+            borderRadius: "3px 3px 3px 0",
+            color: "#fff",
+            fontSize: "11px",
+            lineHeight: "16px",
+            whiteSpace: "nowrap",
+            pointerEvents: "none",
+            userSelect: "none",
+          },
         }),
       ],
     });
@@ -738,6 +888,47 @@ export default function CodeMirrorDOM({
     };
   }, []);
 
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({
+      effects: readOnlyCompartment.reconfigure(
+        readOnly ? [EditorState.readOnly.of(true), EditorView.editable.of(false)] : []
+      ),
+    });
+  }, [readOnly]);
+
+  // Live collaboration runs here rather than in native so remote edits are rebased against exactly
+  // what has been typed, however far the bridge lags. CodeMirror maps the selection through them.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !collab) return;
+    const session = createCollabSession({
+      clientId: collab.clientId,
+      canEdit: collab.canEdit,
+      ChangeSet,
+      doc: view.state.doc,
+      send: (message) => {
+        onCollabMessageRef.current?.(message);
+      },
+      applyRemote: (changes) => {
+        view.dispatch({
+          changes,
+          annotations: [remoteChange.of(true), Transaction.addToHistory.of(false)],
+        });
+      },
+    });
+    collabRef.current = session;
+    return () => {
+      session.destroy();
+      collabRef.current = null;
+    };
+  }, [collab?.clientId, collab?.canEdit]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: setRemoteCursorsEffect.of(remoteCursors ?? []) });
+  }, [remoteCursors]);
+
   // Sync value from native only when the change is external (toolbar, undo, paste).
   // When the user types fast, value prop can lag behind editor content due to async bridge.
   // Only overwrite editor when editor content still matches the previous value we had
@@ -756,8 +947,18 @@ export default function CodeMirrorDOM({
       if (val === cur) return; // Already in sync
 
       prevValueRef.current = val;
+      // Replace only the changed span so collaborators' concurrent edits elsewhere survive
+      let start = 0;
+      const max = Math.min(cur.length, val.length);
+      while (start < max && cur[start] === val[start]) start++;
+      let endCur = cur.length;
+      let endVal = val.length;
+      while (endCur > start && endVal > start && cur[endCur - 1] === val[endVal - 1]) {
+        endCur--;
+        endVal--;
+      }
       viewRef.current.dispatch({
-        changes: { from: 0, to: cur.length, insert: val || "" },
+        changes: { from: start, to: endCur, insert: val.slice(start, endVal) },
         annotations: programmatic.of(true),
       });
     };
@@ -951,6 +1152,12 @@ export default function CodeMirrorDOM({
             });
           }
         },
+        receiveCollab: (...args: JSONValue[]) => {
+          const [message] = args;
+          if (message && typeof message === "object") {
+            collabRef.current?.receive(message as unknown as CollabMessage);
+          }
+        },
         indent: () => {
           const view = viewRef.current;
           if (view) {
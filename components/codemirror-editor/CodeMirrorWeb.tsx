@@ -5,7 +5,10 @@ import {
   getMarkdownHighlightStyleConfig,
   getMarkdownThemeFromPalette,
 } from "@/lib/markdown-theme";
+import { createCollabSession, type CollabMessage, type CollabSession, type RemoteCursor } from "@/lib/note-collab";
 import { useThemeColors } from "@/lib/use-theme-colors";
+import { HASHTAG_RE } from "@/lib/tags";
+import { WIKI_LINK_RE } from "@/lib/wiki-links";
 import React, { useEffect, useImperativeHandle, useRef } from "react";
 import { Platform } from "react-native";
 
@@ -17,7 +20,10 @@ let EditorView: any;
 let EditorState: any;
 let Compartment: any;
 let StateField: any;
+let StateEffect: any;
 let Annotation: any;
+let Transaction: any;
+let ChangeSet: any;
 let markdown: any;
 let keymap: any;
 let defaultKeymap: any;
@@ -41,6 +47,8 @@ let getMarkdownCodeLanguages:
   })
   | null = null;
 let getCodeBlockLinePlugin: (() => any[]) | null = null;
+let remoteCursorsField: any = null;
+let setRemoteCursorsEffect: any = null;
 
 if (typeof document !== "undefined") {
   const cmView = require("@codemirror/view");
@@ -64,7 +72,10 @@ if (typeof document !== "undefined") {
   EditorState = cmState.EditorState;
   Compartment = cmState.Compartment;
   StateField = cmState.StateField;
+  StateEffect = cmState.StateEffect;
   Annotation = cmState.Annotation;
+  Transaction = cmState.Transaction;
+  ChangeSet = cmState.ChangeSet;
   BlockWrapper = cmView.BlockWrapper;
   markdown = cmLangMarkdown.markdown;
   keymap = cmView.keymap;
@@ -357,6 +368,61 @@ if (typeof document !== "undefined") {
     mathMarkerPlugin,
     markHighlightPlugin,
   ];
+
+  // Collaborators' carets (with a name tag) and selections; mapped through edits between updates
+  class RemoteCaretWidget extends WidgetType {
+    constructor(readonly name: string, readonly color: string) {
+      super();
+    }
+    eq(other: RemoteCaretWidget) {
+      return other.name === this.name && other.color === this.color;
+    }
+    toDOM() {
+      const caret = document.createElement("span");
+      caret.className = "cm-remote-caret";
+      caret.style.borderLeft = `2px solid ${this.color}`;
+      const label = document.createElement("span");
+      label.className = "cm-remote-caret-label";
+      label.textContent = this.name;
+      label.style.backgroundColor = this.color;
+      caret.appendChild(label);
+      return caret;
+    }
+    ignoreEvent() {
+      return true;
+    }
+  }
+
+  function getRemoteCursorDecorations(cursors: RemoteCursor[], length: number) {
+    const ranges: any[] = [];
+    for (const cursor of cursors) {
+      const anchor = Math.min(Math.max(0, cursor.anchor), length);
+      const head = Math.min(Math.max(0, cursor.head), length);
+      if (anchor !== head) {
+        ranges.push(
+          Decoration.mark({ attributes: { style: `background-color: ${cursor.color}33` } }).range(
+            Math.min(anchor, head),
+            Math.max(anchor, head)
+          )
+        );
+      }
+      ranges.push(Decoration.widget({ widget: new RemoteCaretWidget(cursor.name, cursor.color), side: 1 }).range(head));
+    }
+    return Decoration.set(ranges, true);
+  }
+
+  setRemoteCursorsEffect = StateEffect.define();
+  remoteCursorsField = StateField.define({
+    create() { return Decoration.none; },
+    update(value: any, tr: any) {
+      let next = value.map(tr.changes);
+      for (const effect of tr.effects) {
+        if (effect.is(setRemoteCursorsEffect)) next = getRemoteCursorDecorations(effect.value, tr.state.doc.length);
+      }
+      return next;
+    },
+    provide: (f: any) => EditorView.decorations.from(f),
+  });
 }
 
 export interface CodeMirrorEditorHandle {
@@ -372,6 +438,8 @@ export interface CodeMirrorEditorHandle {
   scrollToMatch?: (query: string, activeIndex: number) => void;
   replace?: (query: string, replacement: string, activeIndex: number) => void;
   replaceAll?: (query: string, replacement: string) => void;
+  /** Feed a message from the note channel to the live collaboration session. */
+  receiveCollab?: (message: CollabMessage) => void;
 }
 
 interface CodeMirrorWebProps {
@@ -387,11 +455,34 @@ interface CodeMirrorWebProps {
   searchQuery?: string;
   currentMatchIndex?: number;
   onSearchMatchCount?: (count: number) => void;
+  readOnly?: boolean;
+  /** Enables live collaboration; the session restarts when the client id or permission changes. */
+  collab?: { clientId: string; canEdit: boolean };
+  /** Session messages to broadcast on the note channel. */
+  onCollabMessage?: (message: CollabMessage) => void;
+  remoteCursors?: RemoteCursor[];
+  /** Text after a collaborator's edit was applied; defaults to onChangeText. */
+  onRemoteChangeText?: (text: string) => void;
 }
 
 export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirrorWebProps>(
   function CodeMirrorWeb(
-    { id, value, onChangeText, onSelectionChange, placeholder, containerHeight, searchQuery, currentMatchIndex, onSearchMatchCount },
+    {
+      id,
+      value,
+      onChangeText,
+      onSelectionChange,
+      placeholder,
+      containerHeight,
+      searchQuery,
+      currentMatchIndex,
+      onSearchMatchCount,
+      readOnly = false,
+      collab,
+      onCollabMessage,
+      remoteCursors,
+      onRemoteChangeText,
+    },
     ref
   ) {
     const containerRef = useRef<HTMLDivElement | null>(null);
@@ -400,6 +491,12 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
     const heightThemeCompartmentRef = useRef<any>(null);
     const themeColorsCompartmentRef = useRef<any>(null);
     const highlightCompartmentRef = useRef<any>(null);
+    const readOnlyCompartmentRef = useRef<any>(null);
+    const collabRef = useRef<CollabSession | null>(null);
+    const onCollabMessageRef = useRef(onCollabMessage);
+    const onRemoteChangeRef = useRef(onRemoteChangeText);
+    onCollabMessageRef.current = onCollabMessage;
+    onRemoteChangeRef.current = onRemoteChangeText;
     const { colors, isDark } = useThemeColors();
     const theme = getMarkdownThemeFromPalette(colors, isDark);
     const prevValueRef = useRef(value);
@@ -416,6 +513,11 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
       if (!Annotation) return null;
       return Annotation.define();
     }, []);
+    /** Marks a collaborator's edit applied by the collab session, so it is not sent back out. */
+    const remoteChange = React.useMemo(() => {
+      if (!Annotation) return null;
+      return Annotation.define();
+    }, []);
 
     useEffect(() => {
       if (Platform.OS !== "web" || !EditorView || !Compartment) return;
@@ -449,7 +551,9 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
       const heightCompartment = new Compartment();
       const themeColorsCompartment = new Compartment();
       const highlightCompartment = new Compartment();
+      const readOnlyCompartment = new Compartment();
       heightThemeCompartmentRef.current = heightCompartment;
+      readOnlyCompartmentRef.current = readOnlyCompartment;
       themeColorsCompartmentRef.current = themeColorsCompartment;
       highlightCompartmentRef.current = highlightCompartment;
 
@@ -563,7 +667,7 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
 
           getHashtags(view: any) {
             let widgets: any[] = [];
-            const HASHTAG_REGEX = /(^|\s)(#[\w-]+)(?=\b|\s|$)/g;
+            const HASHTAG_REGEX = new RegExp(HASHTAG_RE.source, "g");
 
             for (let { from, to } of view.visibleRanges) {
               const text: string = view.state.doc.sliceString(from, to);
@@ -588,6 +692,41 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
         }
       );
 
+      const wikiLinkPlugin = ViewPlugin.fromClass(
+        class {
+          decorations: any;
+
+          constructor(view: any) {
+            this.decorations = this.getWikiLinks(view);
+          }
+
+          update(update: any) {
+            if (update.docChanged || update.viewportChanged) {
+              this.decorations = this.getWikiLinks(update.view);
+            }
+          }
+
+          getWikiLinks(view: any) {
+            let widgets: any[] = [];
+            const WIKI_REGEX = new RegExp(WIKI_LINK_RE.source, "g");
+
+            for (let { from, to } of view.visibleRanges) {
+              const text: string = view.state.doc.sliceString(from, to);
+              let match;
+
+              while ((match = WIKI_REGEX.exec(text)) !== null) {
+                const matchStart = from + match.index;
+                widgets.push(Decoration.mark({ class: "cm-wiki-link" }).range(matchStart, matchStart + match[0].length));
+              }
+            }
+            return Decoration.set(widgets);
+          }
+        },
+        {
+          decorations: (v: any) => v.decorations,
+        }
+      );
+
       const linkPlugin = ViewPlugin.fromClass(
         class {
           decorations: any;
@@ -645,11 +784,22 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
           }),
           mentionPlugin,
           hashtagPlugin,
+          wikiLinkPlugin,
           linkPlugin,
+          ...(remoteCursorsField ? [remoteCursorsField] : []),
           history(),
           keymap.of([...customMarkdownKeymap, ...defaultKeymap, indentWithTab]),
           EditorView.lineWrapping,
+          readOnlyCompartment.of([]),
           EditorView.updateListener.of((update: any) => {
+            const isRemote =
+              !!remoteChange && update.transactions.some((tr: any) => tr.annotation(remoteChange));
+            if (update.docChanged && collabRef.current && !isRemote) {
+              // Every local edit, prop syncs included, goes to collaborators
+              for (const tr of update.transactions) {
+                if (tr.docChanged) collabRef.current.localChange(tr.changes);
+              }
+            }
             if (update.docChanged && onChangeRef.current) {
               // Echo Suppression: If this change was triggered programmatically (e.g. from a prop update),
               // do NOT sync it back to the parent. This prevents feedback loops and stale state race conditions.
@@ -657,7 +807,11 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
                 return;
               }
               const v = update.state.doc.toString();
-              onChangeRef.current(v);
+              if (isRemote && onRemoteChangeRef.current) {
+                onRemoteChangeRef.current(v);
+              } else {
+                onChangeRef.current(v);
+              }
             }
             if (update.selectionSet && onSelectionRef.current) {
               const sel = update.state.selection.main;
@@ -676,6 +830,22 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
               },
             })
           ),
+          EditorView.theme({
+            ".cm-remote-caret": { position: "relative", marginLeft: "-1px", marginRight: "-1px" },
+            ".cm-remote-caret-label": {
+              position: "absolute",
+              bottom: "100%",
+              left: "-2px",
+              padding: "0 4px",
+              borderRadius: "3px 3px 3px 0",
+              color: "#fff",
+              fontSize: "11px",
+              lineHeight: "16px",
+              whiteSpace: "nowrap",
+              pointerEvents: "none",
+              userSelect: "none",
+            },
+          }),
           themeColorsCompartment.of(EditorView.theme(getCodeMirrorThemeConfig(theme))),
           EditorView.theme({
             ".cm-scroller": {
@@ -707,9 +877,52 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
         heightThemeCompartmentRef.current = null;
         themeColorsCompartmentRef.current = null;
         highlightCompartmentRef.current = null;
+        readOnlyCompartmentRef.current = null;
       };
     }, []);
 
+    useEffect(() => {
+      const view = viewRef.current;
+      const comp = readOnlyCompartmentRef.current;
+      if (Platform.OS !== "web" || !view || !comp) return;
+      view.dispatch({
+        effects: comp.reconfigure(
+          readOnly ? [EditorState.readOnly.of(true), EditorView.editable.of(false)] : []
+        ),
+      });
+    }, [readOnly]);
+
+    // Live collaboration: remote edits are mapped over local pending ones, and CodeMirror maps the
+    // local selection through them, so the cursor stays where the user left it.
+    useEffect(() => {
+      const view = viewRef.current;
+      if (Platform.OS !== "web" || !view || !collab || !ChangeSet) return;
+      const session = createCollabSession({
+        clientId: collab.clientId,
+        canEdit: collab.canEdit,
+        ChangeSet,
+        doc: view.state.doc,
+        send: (message) => onCollabMessageRef.current?.(message),
+        applyRemote: (changes) => {
+          view.dispatch({
+            changes,
+            annotations: [remoteChange.of(true), Transaction.addToHistory.of(false)],
+          });
+        },
+      });
+      collabRef.current = session;
+      return () => {
+        session.destroy();
+        collabRef.current = null;
+      };
+    }, [collab?.clientId, collab?.canEdit]);
+
+    useEffect(() => {
+      const view = viewRef.current;
+      if (Platform.OS !== "web" || !view || !setRemoteCursorsEffect) return;
+      view.dispatch({ effects: setRemoteCursorsEffect.of(remoteCursors ?? []) });
+    }, [remoteCursors]);
+
     // Reconfigure theme and minimal syntax colors when light/dark theme changes
     useEffect(() => {
       if (Platform.OS !== "web" || !EditorView || !viewRef.current) return;
@@ -993,6 +1206,9 @@ export const CodeMirrorWeb = React.forwardRef<CodeMirrorEditorHandle, CodeMirror
             });
           }
         },
+        receiveCollab: (message: CollabMessage) => {
+          collabRef.current?.receive(message);
+        },
         indent: () => {
           const view = viewRef.current;
           if (view) {
@@ -2,8 +2,13 @@
 
 import { Card } from "@/components/ui/card";
 import { Text } from "@/components/ui/text";
-import { parseLocalDate } from "@/lib/calendar-utils";
-import type { ExpandedEvent } from "@/lib/calendar-utils";
+import {
+  formatEventOriginalTime,
+  formatEventTimeRange,
+  parseLocalDate,
+  type ExpandedEvent,
+} from "@/lib/calendar-utils";
+import { describeRecurrence, getEventRecurrence } from "@/lib/recurrence";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import * as Haptics from "expo-haptics";
 import { useRef } from "react";
@@ -38,8 +43,8 @@ export function EventCard({ event, onSelectDate, onEdit }: EventCardProps) {
     }).start();
   };
 
-  const eventDateStr = event.instanceDate || event.event_date.split("T")[0];
-  const eventDate = parseLocalDate(eventDateStr);
+  const recurrence = getEventRecurrence(event);
+  const eventDate = parseLocalDate(event.startDay);
   const dayName = eventDate.toLocaleDateString("en-US", { weekday: "short" });
   const dayNumber = eventDate.getDate();
   const monthName = eventDate.toLocaleDateString("en-US", { month: "short" });
@@ -53,18 +58,8 @@ export function EventCard({ event, onSelectDate, onEdit }: EventCardProps) {
     desc.toLowerCase().includes("leave");
   const showRed = isWeekend || hasHolidayOrLeave;
 
-  let eventTime = "10:00 AM";
-  if (event.event_date.includes("T") && event.event_date.split("T")[1]) {
-    const timePart = event.event_date.split("T")[1];
-    const timeMatch = timePart.match(/^(\d{2}):(\d{2})/);
-    if (timeMatch) {
-      const hours = parseInt(timeMatch[1], 10);
-      const minutes = timeMatch[2];
-      const period = hours >= 12 ? "PM" : "AM";
-      const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-      eventTime = `${displayHours}:${minutes} ${period}`;
-    }
-  }
+  const eventTime = formatEventTimeRange(event);
+  const originalTime = formatEventOriginalTime(event);
 
   const handlePress = () => {
     const now = Date.now();
@@ -83,8 +78,7 @@ export function EventCard({ event, onSelectDate, onEdit }: EventCardProps) {
     lastTapTime.current = now;
     singleTapTimer.current = setTimeout(() => {
       singleTapTimer.current = null;
-      const dateStr = event.instanceDate || event.event_date.split("T")[0];
-      onSelectDate(dateStr);
+      onSelectDate(event.startDay);
       if (Platform.OS !== "web") {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
@@ -198,10 +192,11 @@ export function EventCard({ event, onSelectDate, onEdit }: EventCardProps) {
                   style={{
                     fontSize: 11,
                     color: colors.mutedForeground,
-                    textTransform: "capitalize",
+                    flexShrink: 1,
                   }}
+                  numberOfLines={1}
                 >
-                  {event.repeat_interval || "once"}
+                  {recurrence ? describeRecurrence(recurrence) : "Once"}
                 </Text>
                 <Text
                   style={{
@@ -213,6 +208,11 @@ export function EventCard({ event, onSelectDate, onEdit }: EventCardProps) {
                   • {eventTime}
                 </Text>
               </View>
+              {originalTime && (
+                <Text style={{ fontSize: 11, color: colors.mutedForeground, marginTop: 2 }} numberOfLines={1}>
+                  {originalTime}
+                </Text>
+              )}
             </View>
           </View>
         </Card>
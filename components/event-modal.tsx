@@ -1,18 +1,26 @@
 "use client";
 
 import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu";
+  draftFromEvent,
+  EventRecurrenceFields,
+  ruleFromDraft,
+  type RecurrenceDraft,
+} from "@/components/event-recurrence-fields";
+import { EventReminderFields } from "@/components/event-reminder-fields";
+import {
+  EventTimeFields,
+  timeDraftFromEvent,
+  timesFromDraft,
+  type EventTimeDraft,
+} from "@/components/event-time-fields";
 import { Input } from "@/components/ui/input";
 import { Text } from "@/components/ui/text";
 import { useAlert } from "@/contexts/alert-context";
 import { formatDateToLocalString } from "@/lib/calendar-utils";
-import type { Event } from "@/lib/supabase";
-import { useThemeColors } from "@/lib/use-theme-colors";
-import { ChevronDown } from "lucide-react-native";
+import { normalizeReminders } from "@/lib/event-reminders";
+import type { RecurrenceScope } from "@/lib/events";
+import { formatRRule, getEventRecurrence, repeatIntervalForRule } from "@/lib/recurrence";
+import type { Event, EventInput, EventUpdates } from "@/lib/supabase";
 import { useEffect, useState } from "react";
 import {
   Keyboard,
@@ -28,29 +36,38 @@ export interface EventModalProps {
   open: boolean;
   onClose: () => void;
   event: Event | null;
+  /** The occurrence that was opened ("YYYY-MM-DD"), when `event` repeats. */
+  instanceDate?: string | null;
   prefillDate?: string | null;
-  onCreate: (input: {
-    user_id: string;
-    title: string;
-    description: string;
-    event_date: string;
-    repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-  }) => void;
+  /** Start time ("HH:mm") for a new event, e.g. the slot tapped in the week view. */
+  prefillTime?: string | null;
+  onCreate: (input: EventInput) => void;
+  /** `scope` and `instanceDate` are set when one occurrence of a recurring event was edited. */
   onUpdate: (params: {
     id: string;
-    updates: Partial<Pick<Event, "title" | "description" | "event_date" | "repeat_interval">>;
+    updates: EventUpdates;
+    scope?: RecurrenceScope;
+    instanceDate?: string;
   }) => void;
-  onDelete: (id: string) => void;
+  onDelete: (params: { id: string; scope?: RecurrenceScope; instanceDate?: string }) => void;
   userId: string;
   isSaving?: boolean;
   isDeleting?: boolean;
 }
 
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: "this", label: "This event" },
+  { scope: "following", label: "This and following events" },
+  { scope: "all", label: "All events" },
+];
+
 export function EventModal({
   open,
   onClose,
   event,
+  instanceDate,
   prefillDate,
+  prefillTime,
   onCreate,
   onUpdate,
   onDelete,
@@ -58,18 +75,16 @@ export function EventModal({
   isSaving = false,
   isDeleting = false,
 }: EventModalProps) {
-  const { colors } = useThemeColors();
   const { alert } = useAlert();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [eventDate, setEventDate] = useState(
-    formatDateToLocalString(new Date())
+  const [times, setTimes] = useState<EventTimeDraft>(() =>
+    timeDraftFromEvent(null, formatDateToLocalString(new Date()))
   );
-  const [eventTime, setEventTime] = useState("10:00 AM");
-  const [repeatInterval, setRepeatInterval] = useState<"once" | "daily" | "weekly" | "monthly" | "yearly">("once");
-  const [dateError, setDateError] = useState("");
-  const [timeError, setTimeError] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(() => draftFromEvent(null, times.startDate));
+  const [reminders, setReminders] = useState<number[]>([]);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [scopeAction, setScopeAction] = useState<"save" | "delete" | null>(null);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
 
   useEffect(() => {
@@ -77,38 +92,25 @@ export function EventModal({
       if (event) {
         setTitle(event.title);
         setDescription(event.description);
-        const dateTimeStr = event.event_date;
-        setEventDate(dateTimeStr.split("T")[0]);
-        if (dateTimeStr.includes("T") && dateTimeStr.split("T")[1]) {
-          const timePart = dateTimeStr.split("T")[1];
-          const timeMatch = timePart.match(/^(\d{2}):(\d{2})/);
-          if (timeMatch) {
-            const hours24 = parseInt(timeMatch[1], 10);
-            const minutes = timeMatch[2];
-            const period = hours24 >= 12 ? "PM" : "AM";
-            const hours12 = hours24 === 0 ? 12 : hours24 > 12 ? hours24 - 12 : hours24;
-            setEventTime(`${hours12}:${minutes} ${period}`);
-          } else {
-            setEventTime("10:00 AM");
-          }
-        } else {
-          setEventTime("10:00 AM");
-        }
-        setRepeatInterval(event.repeat_interval || "once");
+        const seriesDate = event.event_date.split("T")[0];
+        // A recurring event opened from one occurrence shows that occurrence's date
+        setTimes(timeDraftFromEvent(event, instanceDate ?? seriesDate));
+        setRecurrence(draftFromEvent(event, seriesDate));
+        setReminders(normalizeReminders(event.reminders));
       } else {
+        const date = prefillDate || formatDateToLocalString(new Date());
         setTitle("");
         setDescription("");
-        setEventDate(prefillDate || formatDateToLocalString(new Date()));
-        setEventTime("10:00 AM");
-        setRepeatInterval("once");
+        setTimes(timeDraftFromEvent(null, date, prefillTime ?? undefined));
+        setRecurrence(draftFromEvent(null, date));
+        setReminders([]);
       }
       setDeleteDialogOpen(false);
-      setDateError("");
-      setTimeError("");
+      setScopeAction(null);
     } else {
       setKeyboardVisible(false);
     }
-  }, [open, event, prefillDate]);
+  }, [open, event, instanceDate, prefillDate, prefillTime]);
 
   useEffect(() => {
     if (Platform.OS === "web" || !open) return;
@@ -120,95 +122,76 @@ export function EventModal({
     };
   }, [open]);
 
-  const validateDate = (dateString: string): boolean => {
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!dateRegex.test(dateString)) return false;
-    const [year, month, day] = dateString.split("-").map(Number);
-    const date = new Date(year, month - 1, day);
-    return (
-      date.getFullYear() === year &&
-      date.getMonth() === month - 1 &&
-      date.getDate() === day
-    );
-  };
-
-  const handleDateChange = (text: string) => {
-    setEventDate(text);
-    if (text && !validateDate(text)) {
-      setDateError("Please enter a valid date (YYYY-MM-DD)");
-    } else {
-      setDateError("");
-    }
-  };
-
-  const validateTime = (timeString: string): boolean => {
-    const timeRegex = /^(1[0-2]|[1-9]):[0-5][0-9]\s?(AM|PM|am|pm)$/;
-    return timeRegex.test(timeString);
-  };
-
-  const convert12To24Hour = (time12: string): string => {
-    const match = time12.match(/^(\d{1,2}):(\d{2})\s?(AM|PM|am|pm)$/);
-    if (!match) return "10:00";
-    let hours = parseInt(match[1], 10);
-    const minutes = match[2];
-    const period = match[3].toUpperCase();
-    if (period === "AM") {
-      if (hours === 12) hours = 0;
-    } else {
-      if (hours !== 12) hours += 12;
-    }
-    return `${String(hours).padStart(2, "0")}:${minutes}`;
-  };
-
-  const handleTimeChange = (text: string) => {
-    setEventTime(text);
-    if (text && !validateTime(text)) {
-      setTimeError("Please enter a valid time (HH:mm AM/PM, 12-hour format)");
-    } else {
-      setTimeError("");
-    }
-  };
+  /** Editing one occurrence of a recurring event asks which occurrences the change applies to. */
+  const isOccurrence = !!event && !!instanceDate && !!getEventRecurrence(event);
 
-  const handleSave = () => {
+  const buildUpdates = (): EventUpdates | null => {
     if (!title.trim()) {
       alert("Error", "Please enter a title");
-      return;
+      return null;
     }
-    if (!validateDate(eventDate)) {
-      setDateError("Please enter a valid date (YYYY-MM-DD)");
-      return;
+    const { values, error: timeError } = timesFromDraft(times);
+    if (!values) {
+      alert("Error", timeError ?? "Please check the event's dates and times");
+      return null;
     }
-    let finalTime = eventTime.trim();
-    if (!finalTime || !validateTime(finalTime)) {
-      finalTime = "10:00 AM";
+    const { rule, error } = ruleFromDraft(recurrence, times.startDate);
+    if (error) {
+      alert("Error", error);
+      return null;
     }
-    const time24Hour = convert12To24Hour(finalTime);
-    const eventDateTime = `${eventDate}T${time24Hour}:00`;
+    return {
+      title: title.trim(),
+      description: description.trim(),
+      ...values,
+      rrule: rule ? formatRRule(rule) : null,
+      repeat_interval: repeatIntervalForRule(rule),
+      exdates: rule ? recurrence.exdates : [],
+      reminders,
+    };
+  };
 
-    if (event) {
-      onUpdate({
-        id: event.id,
-        updates: {
-          title: title.trim(),
-          description: description.trim(),
-          event_date: eventDateTime,
-          repeat_interval: repeatInterval,
-        },
-      });
+  const handleSave = () => {
+    const updates = buildUpdates();
+    if (!updates) return;
+    if (event && isOccurrence) {
+      setScopeAction("save");
+    } else if (event) {
+      onUpdate({ id: event.id, updates });
     } else {
       onCreate({
         user_id: userId,
-        title: title.trim(),
-        description: description.trim(),
-        event_date: eventDateTime,
-        repeat_interval: repeatInterval,
+        title: updates.title!,
+        description: updates.description!,
+        event_date: updates.event_date!,
+        start_at: updates.start_at,
+        end_at: updates.end_at,
+        all_day: updates.all_day,
+        timezone: updates.timezone,
+        rrule: updates.rrule,
+        repeat_interval: updates.repeat_interval,
+        reminders: updates.reminders,
       });
     }
   };
 
+  const handleScopeSelect = (scope: RecurrenceScope) => {
+    if (!event || !instanceDate) return;
+    const action = scopeAction;
+    setScopeAction(null);
+    if (action === "delete") {
+      onDelete({ id: event.id, scope, instanceDate });
+      return;
+    }
+    const updates = buildUpdates();
+    if (updates) onUpdate({ id: event.id, updates, scope, instanceDate });
+  };
+
   const handleDelete = () => {
     if (!event) return;
-    if (Platform.OS === "web") {
+    if (isOccurrence) {
+      setScopeAction("delete");
+    } else if (Platform.OS === "web") {
       setDeleteDialogOpen(true);
     } else {
       alert("Delete Event", `Are you sure you want to delete "${event.title}"?`, [
@@ -217,7 +200,7 @@ export function EventModal({
           text: "Delete",
           style: "destructive",
           onPress: () => {
-            onDelete(event.id);
+            onDelete({ id: event.id });
           },
         },
       ]);
@@ -226,10 +209,40 @@ export function EventModal({
 
   const handleDeleteConfirm = () => {
     if (event) {
-      onDelete(event.id);
+      onDelete({ id: event.id });
     }
   };
 
+  const scopePanel = (
+    <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+      <Text className="mb-2 text-lg font-semibold text-foreground">
+        {scopeAction === "delete" ? "Delete recurring event" : "Save recurring event"}
+      </Text>
+      <Text className="mb-4 text-sm text-muted-foreground">
+        {scopeAction === "delete"
+          ? `Delete "${event?.title}" on ${instanceDate}, this and the following occurrences, or every occurrence?`
+          : "Apply your changes to this occurrence, this and the following occurrences, or every occurrence?"}
+      </Text>
+      <View className="mb-4 gap-2">
+        {SCOPE_OPTIONS.map((option) => (
+          <Pressable
+            key={option.scope}
+            onPress={() => handleScopeSelect(option.scope)}
+            className="rounded-md border border-border bg-background px-4 py-2.5"
+            disabled={isSaving || isDeleting}
+          >
+            <Text className={scopeAction === "delete" ? "text-red-500" : "text-foreground"}>{option.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <View className="flex-row justify-end">
+        <Pressable className="px-4 py-2" onPress={() => setScopeAction(null)}>
+          <Text className="text-foreground">Cancel</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+
   if (!open) return null;
 
   return (
@@ -237,7 +250,7 @@ export function EventModal({
       {Platform.OS === "web" ? (
         <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
           <Pressable className="absolute inset-0" onPress={onClose} />
-          <View className="w-full max-w-md rounded-lg border border-border bg-muted p-6 shadow-lg">
+          <View className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-lg border border-border bg-muted p-6 shadow-lg">
             <Text className="mb-5 text-xl font-semibold text-foreground">
               {event ? "Edit Event" : "Create Event"}
             </Text>
@@ -264,57 +277,11 @@ export function EventModal({
               />
             </View>
 
-            <View className="mb-4">
-              <Text className="mb-2 text-sm font-medium text-foreground">Date</Text>
-              <Input
-                value={eventDate}
-                onChangeText={handleDateChange}
-                placeholder="YYYY-MM-DD"
-                className={`border bg-background text-foreground ${dateError ? "border-red-500" : "border-border"}`}
-              />
-              {dateError ? (
-                <Text className="mt-1 text-xs text-red-500">{dateError}</Text>
-              ) : null}
-            </View>
+            <EventTimeFields draft={times} onChange={setTimes} />
 
-            <View className="mb-6">
-              <Text className="mb-2 text-sm font-medium text-foreground">Time</Text>
-              <Input
-                value={eventTime}
-                onChangeText={handleTimeChange}
-                placeholder="HH:mm (24-hour format)"
-                className={`border bg-background text-foreground ${timeError ? "border-red-500" : "border-border"}`}
-              />
-              {timeError ? (
-                <Text className="mt-1 text-xs text-red-500">{timeError}</Text>
-              ) : null}
-            </View>
+            <EventRecurrenceFields draft={recurrence} onChange={setRecurrence} date={times.startDate} />
 
-            <View className="mb-6">
-              <Text className="mb-2 text-sm font-medium text-foreground">Repeat</Text>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
-                    <Text className="text-sm text-foreground">
-                      {repeatInterval.charAt(0).toUpperCase() + repeatInterval.slice(1)}
-                    </Text>
-                    <ChevronDown color={colors.mutedForeground} size={16} />
-                  </Pressable>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent>
-                  {(["once", "daily", "weekly", "monthly", "yearly"] as const).map((interval) => (
-                    <DropdownMenuItem
-                      key={interval}
-                      onPress={() => setRepeatInterval(interval)}
-                    >
-                      <Text className="text-foreground">
-                        {interval.charAt(0).toUpperCase() + interval.slice(1)}
-                      </Text>
-                    </DropdownMenuItem>
-                  ))}
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </View>
+            <EventReminderFields reminders={reminders} allDay={times.allDay} onChange={setReminders} />
 
             <View className="flex-row justify-between gap-3">
               {event && (
@@ -398,57 +365,11 @@ export function EventModal({
                       />
                     </View>
 
-                    <View className="mb-4 mt-10">
-                      <Text className="mb-2 text-sm font-medium text-foreground">Date</Text>
-                      <Input
-                        value={eventDate}
-                        onChangeText={handleDateChange}
-                        placeholder="YYYY-MM-DD"
-                        className={`border bg-background text-foreground ${dateError ? "border-red-500" : "border-border"}`}
-                      />
-                      {dateError ? (
-                        <Text className="mt-1 text-xs text-red-500">{dateError}</Text>
-                      ) : null}
-                    </View>
+                    <EventTimeFields draft={times} onChange={setTimes} />
 
-                    <View className="mb-6">
-                      <Text className="mb-2 text-sm font-medium text-foreground">Time</Text>
-                      <Input
-                        value={eventTime}
-                        onChangeText={handleTimeChange}
-                        placeholder="HH:mm AM/PM (e.g., 2:30 PM)"
-                        className={`border bg-background text-foreground ${timeError ? "border-red-500" : "border-border"}`}
-                      />
-                      {timeError ? (
-                        <Text className="mt-1 text-xs text-red-500">{timeError}</Text>
-                      ) : null}
-                    </View>
+                    <EventRecurrenceFields draft={recurrence} onChange={setRecurrence} date={times.startDate} />
 
-                    <View className="mb-6">
-                      <Text className="mb-2 text-sm font-medium text-foreground">Repeat</Text>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
-                            <Text className="text-sm text-foreground">
-                              {repeatInterval.charAt(0).toUpperCase() + repeatInterval.slice(1)}
-                            </Text>
-                            <ChevronDown color={colors.mutedForeground} size={16} />
-                          </Pressable>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent>
-                          {(["once", "daily", "weekly", "monthly", "yearly"] as const).map((interval) => (
-                            <DropdownMenuItem
-                              key={interval}
-                              onPress={() => setRepeatInterval(interval)}
-                            >
-                              <Text className="text-foreground">
-                                {interval.charAt(0).toUpperCase() + interval.slice(1)}
-                              </Text>
-                            </DropdownMenuItem>
-                          ))}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </View>
+                    <EventReminderFields reminders={reminders} allDay={times.allDay} onChange={setReminders} />
 
                     <View className="flex-row justify-between gap-3">
                       {event && (
@@ -547,6 +468,27 @@ export function EventModal({
           </View>
         </Modal>
       )}
+
+      {Platform.OS === "web" ? (
+        scopeAction && (
+          <View className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+            <Pressable className="absolute inset-0" onPress={() => setScopeAction(null)} />
+            {scopePanel}
+          </View>
+        )
+      ) : (
+        <Modal
+          visible={scopeAction !== null}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setScopeAction(null)}
+        >
+          <View className="flex-1 items-center justify-center bg-black/50 p-4">
+            <Pressable className="absolute inset-0" onPress={() => setScopeAction(null)} />
+            {scopePanel}
+          </View>
+        </Modal>
+      )}
     </>
   );
 }
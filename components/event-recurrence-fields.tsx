@@ -0,0 +1,296 @@
+"use client";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Text } from "@/components/ui/text";
+import {
+  describeRecurrence,
+  formatRRule,
+  getEventRecurrence,
+  monthlyPatternsFor,
+  weekdayLabel,
+  weekdayOfDate,
+  type MonthlyPattern,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence";
+import type { Event } from "@/lib/supabase";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import { ChevronDown, X } from "lucide-react-native";
+import { Pressable, View } from "react-native";
+
+/** Monday-first, as shown in the form. */
+const FORM_WEEKDAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+const FREQUENCY_OPTIONS: { freq: RecurrenceFrequency | null; label: string; unit: string }[] = [
+  { freq: null, label: "Does not repeat", unit: "" },
+  { freq: "DAILY", label: "Daily", unit: "day(s)" },
+  { freq: "WEEKLY", label: "Weekly", unit: "week(s)" },
+  { freq: "MONTHLY", label: "Monthly", unit: "month(s)" },
+  { freq: "YEARLY", label: "Yearly", unit: "year(s)" },
+];
+
+const END_OPTIONS: { end: RecurrenceDraft["end"]; label: string }[] = [
+  { end: "never", label: "Never" },
+  { end: "until", label: "On date" },
+  { end: "count", label: "After a number of times" },
+];
+
+/** Form state for an event's recurrence; turned into a rule with ruleFromDraft on save. */
+export interface RecurrenceDraft {
+  freq: RecurrenceFrequency | null;
+  interval: string;
+  weekdays: Weekday[];
+  monthlyPattern: MonthlyPattern;
+  end: "never" | "until" | "count";
+  until: string;
+  count: string;
+  exdates: string[];
+  /** A rule the fields can't show (e.g. from an imported calendar), kept as is until the frequency changes. */
+  custom: RecurrenceRule | null;
+}
+
+function draftFromRule(rule: RecurrenceRule | null, date: string): RecurrenceDraft {
+  const nth = rule?.byDay?.[0]?.nth;
+  const monthlyPattern: MonthlyPattern = nth === -1 ? "lastWeekday" : nth ? "nthWeekday" : "monthDay";
+  return {
+    freq: rule?.freq ?? null,
+    interval: String(rule?.interval ?? 1),
+    weekdays:
+      rule?.freq === "WEEKLY" && rule.byDay?.length
+        ? rule.byDay.map((d) => d.weekday)
+        : [weekdayOfDate(date)],
+    monthlyPattern,
+    end: rule?.count ? "count" : rule?.until ? "until" : "never",
+    until: rule?.until ?? "",
+    count: rule?.count ? String(rule.count) : "10",
+    exdates: [],
+    custom: null,
+  };
+}
+
+/** Form state for `event` (null for a new event) starting on `date`. */
+export function draftFromEvent(event: Event | null, date: string): RecurrenceDraft {
+  const rule = event ? getEventRecurrence(event) : null;
+  const draft = { ...draftFromRule(rule, date), exdates: event?.exdates ?? [] };
+  if (!rule) return draft;
+  // Rules the fields would save differently are kept whole
+  const rebuilt = ruleFromDraft(draft, date);
+  const sameRule = !!rebuilt.rule && formatRRule(rebuilt.rule) === formatRRule(withImpliedDays(rule, date));
+  return { ...draft, custom: sameRule ? null : rule };
+}
+
+/** Spell out the days a bare weekly or monthly rule implies from its start date, as the form saves them. */
+function withImpliedDays(rule: RecurrenceRule, date: string): RecurrenceRule {
+  if (rule.byDay?.length || rule.byMonthDay?.length) return rule;
+  if (rule.freq === "WEEKLY") return { ...rule, byDay: [{ weekday: weekdayOfDate(date) }] };
+  if (rule.freq === "MONTHLY") return { ...rule, byMonthDay: [Number(date.split("-")[2])] };
+  return rule;
+}
+
+/** The rule the form describes for an event starting on `date`, or an error to show. */
+export function ruleFromDraft(
+  draft: RecurrenceDraft,
+  date: string
+): { rule: RecurrenceRule | null; error?: string } {
+  if (draft.custom) return { rule: draft.custom };
+  if (!draft.freq) return { rule: null };
+
+  const interval = Number(draft.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 999) {
+    return { rule: null, error: "Repeat every must be a whole number from 1 to 999" };
+  }
+  const rule: RecurrenceRule = { freq: draft.freq, interval };
+
+  if (draft.freq === "WEEKLY") {
+    const weekdays = draft.weekdays.length > 0 ? draft.weekdays : [weekdayOfDate(date)];
+    rule.byDay = FORM_WEEKDAYS.filter((d) => weekdays.includes(d)).map((weekday) => ({ weekday }));
+  } else if (draft.freq === "MONTHLY") {
+    const patterns = monthlyPatternsFor(date);
+    const pattern = patterns.find((p) => p.pattern === draft.monthlyPattern) ?? patterns[0];
+    Object.assign(rule, pattern.rule);
+  }
+
+  if (draft.end === "until") {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.until) || draft.until < date) {
+      return { rule: null, error: "Enter an end date (YYYY-MM-DD) on or after the event date" };
+    }
+    rule.until = draft.until;
+  } else if (draft.end === "count") {
+    const count = Number(draft.count);
+    if (!Number.isInteger(count) || count < 1) {
+      return { rule: null, error: "Enter how many times the event repeats" };
+    }
+    rule.count = count;
+  }
+  return { rule };
+}
+
+export interface EventRecurrenceFieldsProps {
+  draft: RecurrenceDraft;
+  onChange: (draft: RecurrenceDraft) => void;
+  /** Event date ("YYYY-MM-DD") the monthly options and summary are based on. */
+  date: string;
+}
+
+/** Repeat settings in the event form: frequency, interval, weekdays, monthly pattern, end and skipped dates. */
+export function EventRecurrenceFields({ draft, onChange, date }: EventRecurrenceFieldsProps) {
+  const { colors } = useThemeColors();
+  const validDate = /^\d{4}-\d{2}-\d{2}$/.test(date);
+  const update = (changes: Partial<RecurrenceDraft>) => onChange({ ...draft, ...changes });
+  const frequency = FREQUENCY_OPTIONS.find((option) => option.freq === draft.freq) ?? FREQUENCY_OPTIONS[0];
+  const monthlyPatterns = validDate ? monthlyPatternsFor(date) : [];
+  const monthlyPattern =
+    monthlyPatterns.find((p) => p.pattern === draft.monthlyPattern) ?? monthlyPatterns[0];
+  const endOption = END_OPTIONS.find((option) => option.end === draft.end) ?? END_OPTIONS[0];
+  const { rule } = validDate ? ruleFromDraft(draft, date) : { rule: null };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const weekdays = draft.weekdays.includes(weekday)
+      ? draft.weekdays.filter((d) => d !== weekday)
+      : [...draft.weekdays, weekday];
+    update({ weekdays });
+  };
+
+  return (
+    <View className="mb-6">
+      <Text className="mb-2 text-sm font-medium text-foreground">Repeat</Text>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
+            <Text className="text-sm text-foreground">{draft.custom ? "Custom" : frequency.label}</Text>
+            <ChevronDown color={colors.mutedForeground} size={16} />
+          </Pressable>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {FREQUENCY_OPTIONS.map((option) => (
+            <DropdownMenuItem key={option.label} onPress={() => update({ freq: option.freq, custom: null })}>
+              <Text className="text-foreground">{option.label}</Text>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {draft.freq && !draft.custom && (
+        <View className="mt-3 gap-3">
+          <View className="flex-row items-center gap-2">
+            <Text className="text-sm text-foreground">Every</Text>
+            <Input
+              value={draft.interval}
+              onChangeText={(interval) => update({ interval: interval.replace(/[^0-9]/g, "") })}
+              keyboardType="number-pad"
+              className="w-16 border-border bg-background text-center text-foreground"
+            />
+            <Text className="text-sm text-foreground">{frequency.unit}</Text>
+          </View>
+
+          {draft.freq === "WEEKLY" && (
+            <View className="flex-row flex-wrap gap-1.5">
+              {FORM_WEEKDAYS.map((weekday) => {
+                const selected = draft.weekdays.includes(weekday);
+                return (
+                  <Pressable
+                    key={weekday}
+                    onPress={() => toggleWeekday(weekday)}
+                    className={cn(
+                      "rounded-full border px-2.5 py-1.5",
+                      selected ? "border-foreground bg-foreground/10" : "border-border"
+                    )}
+                  >
+                    <Text className={cn("text-xs", selected ? "font-semibold text-foreground" : "text-muted-foreground")}>
+                      {weekdayLabel(weekday)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {draft.freq === "MONTHLY" && monthlyPattern && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
+                  <Text className="text-sm text-foreground">{monthlyPattern.label}</Text>
+                  <ChevronDown color={colors.mutedForeground} size={16} />
+                </Pressable>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                {monthlyPatterns.map((option) => (
+                  <DropdownMenuItem key={option.pattern} onPress={() => update({ monthlyPattern: option.pattern })}>
+                    <Text className="text-foreground">{option.label}</Text>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <View>
+            <Text className="mb-2 text-sm font-medium text-foreground">Ends</Text>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
+                  <Text className="text-sm text-foreground">{endOption.label}</Text>
+                  <ChevronDown color={colors.mutedForeground} size={16} />
+                </Pressable>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                {END_OPTIONS.map((option) => (
+                  <DropdownMenuItem key={option.end} onPress={() => update({ end: option.end })}>
+                    <Text className="text-foreground">{option.label}</Text>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {draft.end === "until" && (
+              <Input
+                value={draft.until}
+                onChangeText={(until) => update({ until })}
+                placeholder="YYYY-MM-DD"
+                className="mt-2 border-border bg-background text-foreground"
+              />
+            )}
+            {draft.end === "count" && (
+              <View className="mt-2 flex-row items-center gap-2">
+                <Input
+                  value={draft.count}
+                  onChangeText={(count) => update({ count: count.replace(/[^0-9]/g, "") })}
+                  keyboardType="number-pad"
+                  className="w-16 border-border bg-background text-center text-foreground"
+                />
+                <Text className="text-sm text-foreground">times</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      )}
+
+      {rule && <Text className="mt-2 text-xs text-muted-foreground">{describeRecurrence(rule)}</Text>}
+
+      {draft.freq && draft.exdates.length > 0 && (
+        <View className="mt-3">
+          <Text className="mb-2 text-sm font-medium text-foreground">Skipped dates</Text>
+          <View className="flex-row flex-wrap gap-1.5">
+            {draft.exdates.map((exdate) => (
+              <Pressable
+                key={exdate}
+                onPress={() => update({ exdates: draft.exdates.filter((d) => d !== exdate) })}
+                className="flex-row items-center gap-1 rounded-full border border-border px-2.5 py-1"
+                accessibilityLabel={`Restore ${exdate}`}
+              >
+                <Text className="text-xs text-foreground">{exdate}</Text>
+                <X color={colors.mutedForeground} size={12} />
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import {
+  ALL_DAY_REMINDER_OPTIONS,
+  normalizeReminders,
+  REMINDER_OPTIONS,
+  reminderLabel,
+} from "@/lib/event-reminders";
+import { requestReminderPermission } from "@/lib/reminder-notifications";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { Plus, X } from "lucide-react-native";
+import { Pressable, View } from "react-native";
+
+export interface EventReminderFieldsProps {
+  /** Minutes before the event (lib/event-reminders.ts). */
+  reminders: number[];
+  allDay: boolean;
+  onChange: (reminders: number[]) => void;
+}
+
+/** The event's reminders in the event form, with a menu to add more. */
+export function EventReminderFields({ reminders, allDay, onChange }: EventReminderFieldsProps) {
+  const { colors } = useThemeColors();
+  const { alert } = useAlert();
+  const options = (allDay ? ALL_DAY_REMINDER_OPTIONS : REMINDER_OPTIONS).filter((m) => !reminders.includes(m));
+
+  // Reminders are saved either way, so other devices still show them
+  const addReminder = async (minutes: number) => {
+    onChange(normalizeReminders([...reminders, minutes]));
+    if (!(await requestReminderPermission())) {
+      alert("Notifications are off", "Allow notifications for this app to get event reminders on this device.");
+    }
+  };
+
+  return (
+    <View className="mb-6">
+      <Text className="mb-2 text-sm font-medium text-foreground">Reminders</Text>
+      <View className="flex-row flex-wrap gap-1.5">
+        {reminders.map((minutes) => (
+          <Pressable
+            key={minutes}
+            onPress={() => onChange(reminders.filter((m) => m !== minutes))}
+            className="flex-row items-center gap-1 rounded-full border border-border px-2.5 py-1"
+            accessibilityLabel={`Remove reminder ${reminderLabel(minutes, allDay)}`}
+          >
+            <Text className="text-xs text-foreground">{reminderLabel(minutes, allDay)}</Text>
+            <X color={colors.mutedForeground} size={12} />
+          </Pressable>
+        ))}
+        {options.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Pressable className="flex-row items-center gap-1 rounded-full border border-dashed border-border px-2.5 py-1">
+                <Plus color={colors.mutedForeground} size={12} />
+                <Text className="text-xs text-muted-foreground">Add reminder</Text>
+              </Pressable>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {options.map((minutes) => (
+                <DropdownMenuItem key={minutes} onPress={() => addReminder(minutes)}>
+                  <Text className="text-foreground">{reminderLabel(minutes, allDay)}</Text>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </View>
+    </View>
+  );
+}
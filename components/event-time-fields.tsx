@@ -0,0 +1,265 @@
+"use client";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Text } from "@/components/ui/text";
+import { eventDuration, eventTimeZone, eventTimestamps } from "@/lib/event-times";
+import { addDaysToDate, daysBetweenDates } from "@/lib/recurrence";
+import type { Event } from "@/lib/supabase";
+import {
+  COMMON_TIME_ZONES,
+  getDeviceTimeZone,
+  timeZoneLabel,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "@/lib/timezones";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { ChevronDown } from "lucide-react-native";
+import { Pressable, ScrollView, View } from "react-native";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^(1[0-2]|0?[1-9]):([0-5][0-9])\s?(AM|PM|am|pm)$/;
+
+/** Form state for when an event happens; turned into event fields with timesFromDraft on save. */
+export interface EventTimeDraft {
+  allDay: boolean;
+  startDate: string;
+  /** 12-hour times, e.g. "2:30 PM". */
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  timeZone: string;
+}
+
+export type EventTimeFieldValues = Pick<Event, "event_date" | "start_at" | "end_at" | "all_day" | "timezone">;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/** "2:30 PM" → "14:30", or null if it isn't a 12-hour time. */
+function to24Hour(time12: string): string | null {
+  const match = time12.trim().match(TIME_RE);
+  if (!match) return null;
+  let hours = parseInt(match[1], 10) % 12;
+  if (match[3].toUpperCase() === "PM") hours += 12;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+}
+
+/** "14:30:00" → "2:30 PM". */
+function to12Hour(time24: string): string {
+  const [hours, minutes] = time24.split(":").map(Number);
+  const period = hours >= 12 ? "PM" : "AM";
+  const hours12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hours12}:${String(minutes).padStart(2, "0")} ${period}`;
+}
+
+/** Split a wall-clock time into the form's date and 12-hour time. */
+function fromWallClock(wallClock: string): { date: string; time: string } {
+  const [date, time = "00:00:00"] = wallClock.split("T");
+  return { date, time: to12Hour(time) };
+}
+
+/** Wall-clock `date` + `time` moved by `minutes`, as "YYYY-MM-DDTHH:mm:00". */
+function shiftWallClock(date: string, time24: string, minutes: number): string {
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi] = time24.split(":").map(Number);
+  return new Date(Date.UTC(y, mo - 1, d, h, mi) + minutes * 60000).toISOString().slice(0, 19);
+}
+
+/**
+ * Form state for `event` (null for a new event, starting at `time` "HH:mm") on `date`: a
+ * repeating event opened from one occurrence shows that occurrence's date and the same length
+ * as the series.
+ */
+export function timeDraftFromEvent(event: Event | null, date: string, time = "10:00"): EventTimeDraft {
+  if (!event) {
+    const end = fromWallClock(shiftWallClock(date, time, 60));
+    return {
+      allDay: false,
+      startDate: date,
+      startTime: to12Hour(time),
+      endDate: end.date,
+      endTime: end.time,
+      timeZone: getDeviceTimeZone(),
+    };
+  }
+  const timeZone = eventTimeZone(event);
+  const duration = eventDuration(event);
+  const startTime = event.event_date.includes("T") ? event.event_date.split("T")[1] : "10:00:00";
+  if (event.all_day) {
+    return {
+      allDay: true,
+      startDate: date,
+      startTime: "10:00 AM",
+      endDate: addDaysToDate(date, Math.round(duration / DAY_MS) - 1),
+      endTime: "11:00 AM",
+      timeZone,
+    };
+  }
+  const start = zonedTimeToUtc(`${date}T${startTime}`, timeZone);
+  const end = fromWallClock(utcToZonedTime(new Date(start.getTime() + duration), timeZone));
+  return {
+    allDay: false,
+    startDate: date,
+    startTime: to12Hour(startTime),
+    endDate: end.date,
+    endTime: end.time,
+    timeZone,
+  };
+}
+
+/** The event fields the form describes, or an error to show. */
+export function timesFromDraft(draft: EventTimeDraft): { values?: EventTimeFieldValues; error?: string } {
+  if (!isValidDate(draft.startDate)) return { error: "Please enter a valid start date (YYYY-MM-DD)" };
+  if (!isValidDate(draft.endDate)) return { error: "Please enter a valid end date (YYYY-MM-DD)" };
+
+  if (draft.allDay) {
+    const days = daysBetweenDates(draft.startDate, draft.endDate) + 1;
+    if (days < 1) return { error: "The event ends before it starts" };
+    const eventDate = `${draft.startDate}T00:00:00`;
+    return {
+      values: {
+        event_date: eventDate,
+        all_day: true,
+        timezone: draft.timeZone,
+        ...eventTimestamps(eventDate, { allDay: true, timeZone: draft.timeZone, duration: days * DAY_MS }),
+      },
+    };
+  }
+
+  const startTime = to24Hour(draft.startTime);
+  const endTime = to24Hour(draft.endTime);
+  if (!startTime) return { error: "Please enter a valid start time (e.g. 2:30 PM)" };
+  if (!endTime) return { error: "Please enter a valid end time (e.g. 3:30 PM)" };
+  const eventDate = `${draft.startDate}T${startTime}:00`;
+  const start = zonedTimeToUtc(eventDate, draft.timeZone);
+  const end = zonedTimeToUtc(`${draft.endDate}T${endTime}:00`, draft.timeZone);
+  if (end < start) return { error: "The event ends before it starts" };
+  return {
+    values: {
+      event_date: eventDate,
+      all_day: false,
+      timezone: draft.timeZone,
+      start_at: start.toISOString(),
+      end_at: end.toISOString(),
+    },
+  };
+}
+
+export interface EventTimeFieldsProps {
+  draft: EventTimeDraft;
+  onChange: (draft: EventTimeDraft) => void;
+}
+
+/** When the event happens in the event form: all-day switch, start, end and time zone. */
+export function EventTimeFields({ draft, onChange }: EventTimeFieldsProps) {
+  const { colors } = useThemeColors();
+  const update = (changes: Partial<EventTimeDraft>) => onChange({ ...draft, ...changes });
+  const timeZones = [...new Set([draft.timeZone, getDeviceTimeZone(), ...COMMON_TIME_ZONES])];
+
+  // Moving the start moves the end with it, keeping the event's length
+  const changeStartDate = (startDate: string) => {
+    if (isValidDate(startDate) && isValidDate(draft.startDate) && isValidDate(draft.endDate)) {
+      const endDate = addDaysToDate(draft.endDate, daysBetweenDates(draft.startDate, startDate));
+      update({ startDate, endDate });
+    } else {
+      update({ startDate });
+    }
+  };
+
+  const changeStartTime = (startTime: string) => {
+    const from = to24Hour(draft.startTime);
+    const to = to24Hour(startTime);
+    const end = to24Hour(draft.endTime);
+    if (from && to && end && isValidDate(draft.endDate)) {
+      const [fh, fm] = from.split(":").map(Number);
+      const [th, tm] = to.split(":").map(Number);
+      const moved = fromWallClock(shiftWallClock(draft.endDate, end, th * 60 + tm - (fh * 60 + fm)));
+      update({ startTime, endDate: moved.date, endTime: moved.time });
+    } else {
+      update({ startTime });
+    }
+  };
+
+  const fieldClass = (valid: boolean) =>
+    `border bg-background text-foreground ${valid ? "border-border" : "border-red-500"}`;
+
+  return (
+    <View className="mb-4">
+      <View className="mb-4 flex-row items-center justify-between">
+        <Text className="text-sm font-medium text-foreground">All day</Text>
+        <Switch checked={draft.allDay} onCheckedChange={(allDay) => update({ allDay })} />
+      </View>
+
+      <Text className="mb-2 text-sm font-medium text-foreground">Starts</Text>
+      <View className="mb-4 flex-row gap-2">
+        <Input
+          value={draft.startDate}
+          onChangeText={changeStartDate}
+          placeholder="YYYY-MM-DD"
+          className={`flex-1 ${fieldClass(!draft.startDate || isValidDate(draft.startDate))}`}
+        />
+        {!draft.allDay && (
+          <Input
+            value={draft.startTime}
+            onChangeText={changeStartTime}
+            placeholder="2:30 PM"
+            className={`w-28 ${fieldClass(!draft.startTime || !!to24Hour(draft.startTime))}`}
+          />
+        )}
+      </View>
+
+      <Text className="mb-2 text-sm font-medium text-foreground">Ends</Text>
+      <View className="mb-4 flex-row gap-2">
+        <Input
+          value={draft.endDate}
+          onChangeText={(endDate) => update({ endDate })}
+          placeholder="YYYY-MM-DD"
+          className={`flex-1 ${fieldClass(!draft.endDate || isValidDate(draft.endDate))}`}
+        />
+        {!draft.allDay && (
+          <Input
+            value={draft.endTime}
+            onChangeText={(endTime) => update({ endTime })}
+            placeholder="3:30 PM"
+            className={`w-28 ${fieldClass(!draft.endTime || !!to24Hour(draft.endTime))}`}
+          />
+        )}
+      </View>
+
+      {!draft.allDay && (
+        <>
+          <Text className="mb-2 text-sm font-medium text-foreground">Time zone</Text>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Pressable className="flex-row items-center justify-between rounded-md border border-border bg-background px-3 py-2.5">
+                <Text className="text-sm text-foreground">{timeZoneLabel(draft.timeZone)}</Text>
+                <ChevronDown color={colors.mutedForeground} size={16} />
+              </Pressable>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <ScrollView style={{ maxHeight: 288 }}>
+                {timeZones.map((timeZone) => (
+                  <DropdownMenuItem key={timeZone} onPress={() => update({ timeZone })}>
+                    <Text className="text-foreground">{timeZoneLabel(timeZone)}</Text>
+                  </DropdownMenuItem>
+                ))}
+              </ScrollView>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      )}
+    </View>
+  );
+}
@@ -5,7 +5,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Text } from "@/components/ui/text";
 import type { Folder } from "@/lib/supabase";
 import { useThemeColors } from "@/lib/use-theme-colors";
-import { Folder as FolderIcon } from "lucide-react-native";
+import { Folder as FolderIcon, Lock } from "lucide-react-native";
 import { useRef } from "react";
 import { Animated, Pressable, View } from "react-native";
 
@@ -96,12 +96,17 @@ export function FolderCard({
           size={gridIconSize}
           strokeWidth={0.1}
         />
-        <View className="items-center" style={{ width: cardWidth, marginTop: gridInfoMarginTop }}>
+        <View
+          className="flex-row items-center justify-center gap-1"
+          style={{ width: cardWidth, marginTop: gridInfoMarginTop }}
+        >
+          {folder.is_vault && <Lock color={colors.mutedForeground} size={12} />}
           <Text
             style={{
               fontSize: 14,
               fontWeight: "600",
               color: colors.foreground,
+              flexShrink: 1,
             }}
             numberOfLines={1}
             ellipsizeMode="tail"
@@ -165,6 +170,7 @@ export function FolderCard({
             >
               {folder.name || "Unnamed folder"}
             </Text>
+            {folder.is_vault && <Lock color={colors.mutedForeground} size={16} />}
           </View>
         </View>
       </Card>
@@ -10,7 +10,7 @@ import { Text } from "@/components/ui/text";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import * as Haptics from "expo-haptics";
 import { useRouter } from "expo-router";
-import { ArrowLeft, Check, Edit, Eye, Folder, MoreVertical, RefreshCcw, Replace, Search, Share2 } from "lucide-react-native";
+import { ArrowLeft, Check, Download, Edit, Eye, Folder, History, LayoutTemplate, MoreVertical, RefreshCcw, Replace, Search, Share2, SlidersHorizontal } from "lucide-react-native";
 import { useEffect, useRef, useState } from "react";
 import { ActivityIndicator, Platform, Pressable, View } from "react-native";
 import { KeyboardController } from "react-native-keyboard-controller";
@@ -18,7 +18,10 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 interface NoteDetailHeaderProps {
   title: string;
-  onTitleChange: (title: string) => void;
+  /** Omitted when the title can't be changed (a note shared with view access). */
+  onTitleChange?: (title: string) => void;
+  /** Title editing ended (blur or submit). */
+  onTitleCommit?: () => void;
   isNewNote: boolean;
   isDirty: boolean;
   canSave: boolean;
@@ -35,11 +38,20 @@ interface NoteDetailHeaderProps {
   onOpenMoveModal?: () => void;
   onSearchOpen?: () => void;
   onReplaceOpen?: () => void;
+  /** Opens the version history panel. */
+  onOpenHistory?: () => void;
+  /** New notes only: opens the template picker. */
+  onOpenTemplates?: () => void;
+  /** Opens the frontmatter properties editor. */
+  onOpenProperties?: () => void;
+  /** Opens the export dialog (PDF, HTML, DOCX, Markdown). */
+  onOpenExport?: () => void;
 }
 
 export function NoteDetailHeader({
   title,
   onTitleChange,
+  onTitleCommit,
   isNewNote,
   isDirty,
   canSave,
@@ -54,6 +66,10 @@ export function NoteDetailHeader({
   onOpenMoveModal,
   onSearchOpen,
   onReplaceOpen,
+  onOpenHistory,
+  onOpenTemplates,
+  onOpenProperties,
+  onOpenExport,
 }: NoteDetailHeaderProps) {
   const router = useRouter();
   const { colors } = useThemeColors();
@@ -71,7 +87,10 @@ export function NoteDetailHeader({
   }, [isEditingTitle]);
 
   const handleTitleBlur = () => {
+    // Submit is followed by a blur; commit once
+    if (!isEditingTitle) return;
     setIsEditingTitle(false);
+    onTitleCommit?.();
   };
 
   const displayTitle = title || "Untitled";
@@ -128,7 +147,7 @@ export function NoteDetailHeader({
               flex: 1,
             }}
           >
-            {isEditingTitle ? (
+            {isEditingTitle && onTitleChange ? (
               <Input
                 // @ts-ignore: Input ref may not type focus, but it exists on the instance
                 ref={titleInputRef as any}
@@ -148,6 +167,7 @@ export function NoteDetailHeader({
             ) : (
               <Pressable
                 onPress={() => {
+                  if (!onTitleChange) return;
                   Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                   setIsEditingTitle(true);
                 }}
@@ -208,6 +228,18 @@ export function NoteDetailHeader({
               <Eye color={colors.foreground} size={22} />
             )}
           </Pressable>
+          {isNewNote && onOpenTemplates && (
+            <Pressable
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                onOpenTemplates();
+              }}
+              style={{ paddingVertical: 8 }}
+              accessibilityLabel="Templates"
+            >
+              <LayoutTemplate color={colors.foreground} size={22} />
+            </Pressable>
+          )}
           {!isNewNote && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -274,6 +306,42 @@ export function NoteDetailHeader({
                     <Text style={{ color: colors.foreground }}>Share</Text>
                   </DropdownMenuItem>
                 )}
+                {onOpenExport && (
+                  <DropdownMenuItem
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      onOpenExport();
+                    }}
+                    className="flex flex-row items-center gap-2"
+                  >
+                    <Icon as={Download} className="size-4 text-foreground" />
+                    <Text style={{ color: colors.foreground }}>Export</Text>
+                  </DropdownMenuItem>
+                )}
+                {onOpenProperties && (
+                  <DropdownMenuItem
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      onOpenProperties();
+                    }}
+                    className="flex flex-row items-center gap-2"
+                  >
+                    <Icon as={SlidersHorizontal} className="size-4 text-foreground" />
+                    <Text style={{ color: colors.foreground }}>Properties</Text>
+                  </DropdownMenuItem>
+                )}
+                {onOpenHistory && (
+                  <DropdownMenuItem
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      onOpenHistory();
+                    }}
+                    className="flex flex-row items-center gap-2"
+                  >
+                    <Icon as={History} className="size-4 text-foreground" />
+                    <Text style={{ color: colors.foreground }}>History</Text>
+                  </DropdownMenuItem>
+                )}
                 {onOpenMoveModal != null && (
                   <DropdownMenuItem
                     onPress={() => {
@@ -10,6 +10,8 @@ export interface LongPressOptionsModalProps {
   title: string;
   onMove: () => void;
   onArchive: () => void;
+  /** Shows a "Share" row when set. */
+  onShare?: () => void;
 }
 
 /**
@@ -23,6 +25,7 @@ export function LongPressOptionsModal({
   title,
   onMove,
   onArchive,
+  onShare,
 }: LongPressOptionsModalProps) {
   const overlayClassName = "flex-1 justify-center items-center bg-black/50";
   const backdropClassName = "absolute inset-0";
@@ -50,6 +53,11 @@ export function LongPressOptionsModal({
           <Pressable className={optionRowClassName} onPress={onMove}>
             <Text className="text-base font-medium text-blue-500">Move to</Text>
           </Pressable>
+          {onShare && (
+            <Pressable className={optionRowClassName} onPress={onShare}>
+              <Text className="text-base font-medium text-blue-500">Share</Text>
+            </Pressable>
+          )}
           <Pressable className={optionRowClassName} onPress={onArchive}>
             <Text className="text-base font-semibold text-red-500">Archive</Text>
           </Pressable>
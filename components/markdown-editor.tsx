@@ -142,6 +142,10 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
       currentMatchIndex,
       onSearchMatchCount,
       extraBottomPadding,
+      readOnly = false,
+      collab,
+      onCollabMessage,
+      remoteCursors,
     },
     ref
   ) {
@@ -614,6 +618,16 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
       onContentSync?.(newText);
     };
 
+    // A collaborator's edit: already in the editor, so skip list processing and just report it.
+    // Undo snapshots hold whole texts, and restoring one would revert the collaborator's edit.
+    const handleRemoteText = (text: string) => {
+      previousValueRef.current = text;
+      pendingInternalValueRef.current = text;
+      clearHistory();
+      onChangeText?.(text);
+      onContentSync?.(text);
+    };
+
     const lastPropValueRef = useRef(value);
     const lastIdRef = useRef(id);
 
@@ -1135,6 +1149,10 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
       replaceAll: (query: string, replacement: string) => {
         inputRef.current?.replaceAll?.(query, replacement);
       },
+      receiveCollab: (message) => {
+        const input = inputRef.current as any;
+        input?.receiveCollab?.(message);
+      },
       getContentAsync: async () => {
         if (inputRef.current && typeof inputRef.current.getValue === 'function') {
           const val = await inputRef.current.getValue();
@@ -2618,6 +2636,11 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
             }}
             placeholder={placeholder}
             containerHeight={editorAreaHeight}
+            readOnly={readOnly}
+            collab={collab}
+            onCollabMessage={onCollabMessage}
+            remoteCursors={remoteCursors}
+            onRemoteChangeText={handleRemoteText}
           />
         ) : (
           <CodeMirrorNativeErrorBoundary>
@@ -2650,6 +2673,15 @@ export const MarkdownEditor = forwardRef<MarkdownEditorRef, MarkdownEditorProps>
               hashtagTag={theme.hashtagTag}
               isDark={isDark}
               extraBottomPadding={extraBottomPadding}
+              readOnly={readOnly}
+              collab={collab}
+              onCollabMessage={async (message) => {
+                onCollabMessage?.(message);
+              }}
+              remoteCursors={remoteCursors}
+              onRemoteContentChange={async (text) => {
+                handleRemoteText(text);
+              }}
             />
           </CodeMirrorNativeErrorBoundary>
         )}
@@ -21,6 +21,14 @@ export interface MarkdownEditorProps {
   onSearchMatchCount?: (count: number) => void;
   /** (Native only) Extra padding at the bottom of the editor content (e.g. to avoid being hidden by toolbar). */
   extraBottomPadding?: number;
+  /** Shows the editor but blocks typing (e.g. a note shared with view access). */
+  readOnly?: boolean;
+  /** Live collaboration session for this editor (see lib/note-collab.ts). */
+  collab?: { clientId: string; canEdit: boolean };
+  /** Session messages to broadcast on the note channel. */
+  onCollabMessage?: (message: import("@/lib/note-collab").CollabMessage) => void;
+  /** Collaborators' carets and selections. */
+  remoteCursors?: import("@/lib/note-collab").RemoteCursor[];
 }
 
 export interface MarkdownEditorRef {
@@ -42,6 +50,8 @@ export interface MarkdownEditorRef {
   scrollToMatch?: (query: string, activeIndex: number) => void | Promise<void>;
   replace?: (query: string, replacement: string, activeIndex: number) => void | Promise<void>;
   replaceAll?: (query: string, replacement: string) => void | Promise<void>;
+  /** Feed a message from the note channel to the editor's collaboration session. */
+  receiveCollab?: (message: import("@/lib/note-collab").CollabMessage) => void;
 }
 
 export type Snapshot = {
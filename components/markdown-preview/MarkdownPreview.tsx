@@ -34,6 +34,10 @@ export interface MarkdownPreviewProps {
   searchQuery?: string;
   currentMatchIndex?: number;
   onSearchMatchCount?: (count: number) => void;
+  /** Called with the target title when a [[wiki link]] is pressed. */
+  onWikiLinkPress?: (title: string) => void;
+  /** Called with the normalized tag path (e.g. "work/clienta") when a #hashtag is pressed. */
+  onTagPress?: (tag: string) => void;
 }
 
 /**
@@ -50,6 +54,8 @@ export function MarkdownPreview({
   searchQuery,
   currentMatchIndex,
   onSearchMatchCount,
+  onWikiLinkPress,
+  onTagPress,
 }: MarkdownPreviewProps) {
   const [html, setHtml] = useState("");
   const skipNextHtmlGenRef = useRef(false);
@@ -189,6 +195,8 @@ export function MarkdownPreview({
         searchQuery={searchQuery}
         currentMatchIndex={currentMatchIndex}
         onSearchMatchCount={onSearchMatchCount}
+        onWikiLinkPress={onWikiLinkPress}
+        onTagPress={onTagPress}
       />
     );
   }
@@ -201,6 +209,8 @@ export function MarkdownPreview({
       searchQuery={searchQuery}
       currentMatchIndex={currentMatchIndex}
       onSearchMatchCount={onSearchMatchCount}
+      onWikiLinkPress={onWikiLinkPress}
+      onTagPress={onTagPress}
     />
   );
 }
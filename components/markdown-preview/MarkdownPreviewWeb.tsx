@@ -14,6 +14,10 @@ interface MarkdownPreviewWebProps {
   searchQuery?: string;
   currentMatchIndex?: number;
   onSearchMatchCount?: (count: number) => void;
+  /** Called with the target title when a [[wiki link]] is clicked. */
+  onWikiLinkPress?: (title: string) => void;
+  /** Called with the normalized tag path when a #hashtag is clicked. */
+  onTagPress?: (tag: string) => void;
 }
 
 const CHECKBOX_WRAPPER_CLASS = "markdown-preview-checkbox-wrapper";
@@ -456,6 +460,8 @@ export function MarkdownPreviewWeb({
   searchQuery,
   currentMatchIndex,
   onSearchMatchCount,
+  onWikiLinkPress,
+  onTagPress,
 }: MarkdownPreviewWebProps) {
   const { colors, isDark } = useThemeColors() as { colors: any; isDark: boolean };
   const theme = getMarkdownThemeFromPalette(colors, isDark);
@@ -463,6 +469,10 @@ export function MarkdownPreviewWeb({
   const containerRef = useRef<HTMLDivElement>(null);
   const onToggleRef = useRef(onToggleCheckbox);
   onToggleRef.current = onToggleCheckbox;
+  const onWikiLinkPressRef = useRef(onWikiLinkPress);
+  onWikiLinkPressRef.current = onWikiLinkPress;
+  const onTagPressRef = useRef(onTagPress);
+  onTagPressRef.current = onTagPress;
   const mermaidRef = useRef<any | null>(null);
   const searchStateRef = useRef({ query: searchQuery || "", index: currentMatchIndex || 0 });
   searchStateRef.current = { query: searchQuery || "", index: currentMatchIndex || 0 };
@@ -609,6 +619,26 @@ export function MarkdownPreviewWeb({
     };
   }, [highlightedHtml]);
 
+  // [[Wiki links]] and #hashtags: delegated so links in re-rendered HTML work without rebinding
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target as HTMLElement | null;
+      const link = target?.closest?.<HTMLElement>("a.wiki-link");
+      if (link) {
+        e.preventDefault();
+        const title = link.getAttribute("data-wiki-target");
+        if (title) onWikiLinkPressRef.current?.(title);
+        return;
+      }
+      const tag = target?.closest?.<HTMLElement>(".hashtag-tag[data-tag]")?.getAttribute("data-tag");
+      if (tag) onTagPressRef.current?.(tag);
+    };
+    container.addEventListener("click", handleClick);
+    return () => container.removeEventListener("click", handleClick);
+  }, [html]);
+
   // Handle Scroll to Active
   useEffect(() => {
     const active = containerRef.current?.querySelector(".search-highlight.active");
@@ -360,6 +360,10 @@ interface MarkdownPreviewWebViewProps {
   searchQuery?: string;
   currentMatchIndex?: number;
   onSearchMatchCount?: (count: number) => void;
+  /** Called with the target title when a [[wiki link]] is tapped. */
+  onWikiLinkPress?: (title: string) => void;
+  /** Called with the normalized tag path when a #hashtag is tapped. */
+  onTagPress?: (tag: string) => void;
 }
 
 export function MarkdownPreviewWebView({ 
@@ -368,12 +372,18 @@ export function MarkdownPreviewWebView({
   onCheckboxToggle,
   searchQuery,
   currentMatchIndex,
-  onSearchMatchCount
+  onSearchMatchCount,
+  onWikiLinkPress,
+  onTagPress
 }: MarkdownPreviewWebViewProps) {
   const webViewRef = useRef<WebView>(null);
   const [loaded, setLoaded] = useState(false);
   const onCheckboxToggleRef = useRef(onCheckboxToggle);
   onCheckboxToggleRef.current = onCheckboxToggle;
+  const onWikiLinkPressRef = useRef(onWikiLinkPress);
+  onWikiLinkPressRef.current = onWikiLinkPress;
+  const onTagPressRef = useRef(onTagPress);
+  onTagPressRef.current = onTagPress;
   const { colors, isDark } = useThemeColors();
   const theme = getMarkdownThemeFromPalette(colors, isDark);
 
@@ -512,6 +522,8 @@ export function MarkdownPreviewWebView({
           text?: string;
           index?: number;
           count?: number;
+          title?: string;
+          tag?: string;
         };
         if (data?.type === "searchCount" && typeof data.count === "number") {
           onSearchMatchCount?.(data.count);
@@ -521,6 +533,14 @@ export function MarkdownPreviewWebView({
           onCheckboxToggleRef.current?.(data.lineIndex);
           return;
         }
+        if (data?.type === "wikiLink" && typeof data.title === "string") {
+          if (data.title) onWikiLinkPressRef.current?.(data.title);
+          return;
+        }
+        if (data?.type === "tag" && typeof data.tag === "string") {
+          if (data.tag) onTagPressRef.current?.(data.tag);
+          return;
+        }
         if (data?.type === "copyCode" && typeof data.text === "string") {
           await Clipboard.setStringAsync(data.text);
           const index = typeof data.index === "number" ? data.index : 0;
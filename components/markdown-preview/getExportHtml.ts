@@ -0,0 +1,148 @@
+import { linkifyMarkdown } from "@/components/markdown-editor/utils/text-helpers";
+import { getPreviewCss, type MarkdownThemeColors } from "@/lib/markdown-theme";
+import { markdownToHtml } from "@/lib/markdown-to-html";
+import type { Note } from "@/lib/supabase";
+import { editorPreviewColors } from "@/lib/use-theme-colors";
+import { encode } from "base64-arraybuffer";
+
+/** Exports are always light: they're printed or opened outside the app's theme. */
+const EXPORT_COLORS: MarkdownThemeColors = { ...editorPreviewColors.light, isDark: false };
+
+/** Images larger than this stay linked instead of being embedded. */
+const MAX_INLINE_IMAGE_BYTES = 8 * 1024 * 1024;
+
+const IMG_SRC_RE = /(<img\b[^>]*?\ssrc=")(https?:\/\/[^"]+)(")/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function decodeHtmlAttribute(value: string): string {
+  return value.replace(/&amp;/g, "&").replace(/&quot;/g, '"').replace(/&#x27;|&#39;/g, "'");
+}
+
+async function fetchDataUri(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const buffer = await response.arrayBuffer();
+    if (buffer.byteLength > MAX_INLINE_IMAGE_BYTES) return null;
+    const type = response.headers.get("content-type")?.split(";")[0] || "image/png";
+    return `data:${type};base64,${encode(buffer)}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Replace remote image sources with data URIs so the document works offline; failures stay linked. */
+async function inlineImages(html: string): Promise<string> {
+  const urls = [...new Set([...html.matchAll(IMG_SRC_RE)].map((match) => match[2]))];
+  if (urls.length === 0) return html;
+  const dataUris = new Map<string, string | null>();
+  await Promise.all(
+    urls.map(async (url) => dataUris.set(url, await fetchDataUri(decodeHtmlAttribute(url))))
+  );
+  return html.replace(IMG_SRC_RE, (all, before: string, url: string, after: string) => {
+    const dataUri = dataUris.get(url);
+    return dataUri ? `${before}${dataUri}${after}` : all;
+  });
+}
+
+async function renderNote(content: string): Promise<string> {
+  if (!content.trim()) return "";
+  try {
+    return await markdownToHtml(linkifyMarkdown(content));
+  } catch {
+    return `<pre>${escapeHtml(content)}</pre>`;
+  }
+}
+
+function getExportCss(): string {
+  return `
+${getPreviewCss(EXPORT_COLORS)}
+html, body { margin: 0; padding: 0; background: #ffffff; }
+.markdown-preview { background-color: #ffffff; max-width: 760px; min-height: 0; }
+.export-title { margin-top: 0; }
+.export-toc ol { padding-left: 1.5em; }
+.export-toc li { margin: 0.25em 0; }
+.export-note + .export-note { margin-top: 48px; padding-top: 24px; border-top: 1px solid #e5e5e5; }
+.export-note-title { margin-top: 0; }
+@page { margin: 18mm 16mm; }
+@media print {
+  .markdown-preview { max-width: none; padding: 0; }
+  .export-toc, .export-note + .export-note { break-before: page; page-break-before: always; }
+  .export-note + .export-note { margin-top: 0; padding-top: 0; border-top: 0; }
+  h1, h2, h3, h4, h5, h6 { break-after: avoid; page-break-after: avoid; }
+  pre, blockquote, table, img, figure, .mermaid, .katex-display { break-inside: avoid; page-break-inside: avoid; }
+  a { color: inherit; }
+}`;
+}
+
+/**
+ * Standalone HTML document for one or more notes: light preview styles inlined, remote images
+ * embedded as data URIs, math rendered by KaTeX ahead of time with its stylesheet and fonts
+ * inlined (katex-css.generated.ts), so everything but diagrams shows offline. Mermaid is too large
+ * to inline: documents with diagrams load it from the CDN and show them only with a network
+ * connection (never in native PDFs, which don't run scripts). Several notes get the document
+ * `title` as a heading and a linked table of contents; each note starts on a new printed page.
+ *
+ * The document exposes `window.exportReady`, a promise that settles once Mermaid has rendered and
+ * the fonts have loaded, so the web print flow can wait for diagrams and math.
+ */
+export async function getExportHtml(
+  notes: Pick<Note, "title" | "content">[],
+  title: string
+): Promise<string> {
+  const combined = notes.length > 1;
+  const sections = await Promise.all(
+    notes.map(async (note, index) => {
+      const heading = escapeHtml(note.title || "Untitled");
+      const body = await renderNote(note.content);
+      return `<section class="export-note" id="note-${index + 1}"><h1 class="export-note-title">${heading}</h1>${body}</section>`;
+    })
+  );
+  const toc = combined
+    ? `<h1 class="export-title">${escapeHtml(title)}</h1><nav class="export-toc"><h2>Contents</h2><ol>${notes
+        .map((note, index) => `<li><a href="#note-${index + 1}">${escapeHtml(note.title || "Untitled")}</a></li>`)
+        .join("")}</ol></nav>`
+    : "";
+  const bodyHtml = await inlineImages(toc + sections.join(""));
+  // The stylesheet is mostly fonts (~350 KB), so it is only loaded and included for notes with math
+  const katexCss = bodyHtml.includes('class="katex')
+    ? `\n  <style>${(await import("./katex-css.generated")).KATEX_CSS}</style>`
+    : "";
+  const mermaidScript = bodyHtml.includes('class="mermaid"')
+    ? `\n  <script src="https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.min.js"></script>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>${getExportCss()}
+  </style>${katexCss}${mermaidScript}
+  <script>
+    window.exportReady = new Promise(function(resolve) {
+      function render() {
+        if (!window.mermaid || !document.querySelector(".mermaid")) return resolve();
+        window.mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: "default" });
+        window.mermaid.run({ querySelector: ".mermaid" }).then(resolve, resolve);
+      }
+      if (document.readyState === "loading") document.addEventListener("DOMContentLoaded", render);
+      else render();
+    }).then(function() {
+      return document.fonts ? document.fonts.ready : undefined;
+    });
+  </script>
+</head>
+<body>
+  <main class="markdown-preview">${bodyHtml}</main>
+</body>
+</html>`;
+}
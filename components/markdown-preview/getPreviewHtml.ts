@@ -77,6 +77,28 @@ export function getPreviewFullHtml(bodyHtml: string, colors: PreviewThemeColors)
           }
           return;
         }
+
+        // 3. [[Wiki link]] to another note
+        var wikiLink = target.closest('a.wiki-link');
+        if (wikiLink) {
+          e.preventDefault();
+          e.stopPropagation();
+          if (window.ReactNativeWebView && window.ReactNativeWebView.postMessage) {
+            window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'wikiLink', title: wikiLink.getAttribute('data-wiki-target') || '' }));
+          }
+          return;
+        }
+
+        // 4. #hashtag: open the notes list filtered by it
+        var hashtag = target.closest('.hashtag-tag[data-tag]');
+        if (hashtag) {
+          e.preventDefault();
+          e.stopPropagation();
+          if (window.ReactNativeWebView && window.ReactNativeWebView.postMessage) {
+            window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'tag', tag: hashtag.getAttribute('data-tag') || '' }));
+          }
+          return;
+        }
       }, true); /* Capture phase for maximum reliability */
 
       function report(c) {
@@ -0,0 +1,79 @@
+import { linkifyMarkdown } from "@/components/markdown-editor/utils/text-helpers";
+import { markdownToHtml } from "@/lib/markdown-to-html";
+import { diffVersionRows } from "@/lib/note-versions";
+import { joinLines } from "@/lib/text-diff";
+
+/** Unchanged lines kept around each change; longer unchanged runs are collapsed. */
+const CONTEXT_LINES = 3;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function renderLines(lines: string[]): Promise<string> {
+  const markdown = joinLines(lines);
+  if (!markdown.trim()) return "";
+  try {
+    return await markdownToHtml(linkifyMarkdown(markdown));
+  } catch {
+    return `<pre>${escapeHtml(markdown)}</pre>`;
+  }
+}
+
+function row(left: string, right: string, leftClass = "", rightClass = ""): string {
+  return `<div class="version-diff-row"><div class="version-diff-cell ${leftClass}">${left}</div><div class="version-diff-cell ${rightClass}">${right}</div></div>`;
+}
+
+/**
+ * Side-by-side diff of two note contents as preview HTML (styled by .version-diff rules in
+ * getPreviewCss). Each changed region is rendered as markdown on both sides, removed on the
+ * left and added on the right; unchanged runs keep CONTEXT_LINES of context.
+ */
+export async function getVersionDiffHtml(
+  before: string,
+  after: string,
+  labels: { before: string; after: string }
+): Promise<string> {
+  const rows = diffVersionRows(before, after);
+  if (!rows.some((r) => r.type === "change")) {
+    return `<p class="preview-placeholder">No differences in content.</p>`;
+  }
+
+  const parts: string[] = [
+    `<div class="version-diff-header">${row(escapeHtml(labels.before), escapeHtml(labels.after))}</div>`,
+  ];
+  for (let i = 0; i < rows.length; i++) {
+    const current = rows[i];
+    if (current.type === "change") {
+      const [left, right] = await Promise.all([renderLines(current.before), renderLines(current.after)]);
+      parts.push(row(left, right, "version-diff-removed", "version-diff-added"));
+      continue;
+    }
+
+    const { lines } = current;
+    const keepHead = i > 0 ? CONTEXT_LINES : 0;
+    const keepTail = i < rows.length - 1 ? CONTEXT_LINES : 0;
+    if (lines.length <= keepHead + keepTail + 1) {
+      const html = await renderLines(lines);
+      parts.push(row(html, html));
+      continue;
+    }
+    if (keepHead > 0) {
+      const html = await renderLines(lines.slice(0, keepHead));
+      parts.push(row(html, html));
+    }
+    const hidden = lines.length - keepHead - keepTail;
+    parts.push(
+      `<div class="version-diff-gap">… ${hidden} unchanged line${hidden === 1 ? "" : "s"} …</div>`
+    );
+    if (keepTail > 0) {
+      const html = await renderLines(lines.slice(-keepTail));
+      parts.push(row(html, html));
+    }
+  }
+  return `<div class="version-diff">${parts.join("")}</div>`;
+}
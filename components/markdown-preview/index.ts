@@ -2,3 +2,4 @@ export { MarkdownPreview } from "./MarkdownPreview";
 export type { MarkdownPreviewProps } from "./MarkdownPreview";
 export { getPreviewCss } from "./preview-styles";
 export type { PreviewThemeColors } from "./preview-styles";
+export { getExportHtml } from "./getExportHtml";
@@ -7,10 +7,11 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Text } from "@/components/ui/text";
+import { flattenFolderTree } from "@/lib/folder-tree";
 import type { Folder } from "@/lib/supabase";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import { ChevronDown } from "lucide-react-native";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Modal, Platform, Pressable, View } from "react-native";
 
 export interface MoveToFolderModalProps {
@@ -23,11 +24,16 @@ export interface MoveToFolderModalProps {
   folders: Folder[];
   onMoveConfirm: () => void;
   isPending: boolean;
+  /** Folder being moved: it and its subfolders are not offered as destinations. */
+  excludeFolderId?: string | null;
+  /** Label for the "no folder" choice (e.g. "Top level" when moving a folder). */
+  noFolderLabel?: string;
 }
 
 /**
- * Reusable "Move to folder" modal for notes/files.
- * Use on notes/, files/, folder/[id], or anywhere note/file cards are shown.
+ * Reusable "Move to folder" modal for notes, files and folders.
+ * Use on notes/, files/, folders/, folder/[id], or anywhere note/file cards are shown.
+ * Folders are listed as an indented tree.
  * Styling is via className only (except dropdown content width which is dynamic).
  */
 export function MoveToFolderModal({
@@ -39,9 +45,15 @@ export function MoveToFolderModal({
   folders,
   onMoveConfirm,
   isPending,
+  excludeFolderId,
+  noFolderLabel = "No folder",
 }: MoveToFolderModalProps) {
   const { colors } = useThemeColors();
   const [dropdownTriggerWidth, setDropdownTriggerWidth] = useState(0);
+  const tree = useMemo(
+    () => flattenFolderTree(folders, excludeFolderId),
+    [folders, excludeFolderId]
+  );
 
   const overlayClassName = "flex-1 items-center justify-center bg-black/50 p-4";
   const backdropClassName = "absolute inset-0";
@@ -71,7 +83,7 @@ export function MoveToFolderModal({
               <Pressable className={triggerClassName}>
                 <Text className="text-sm text-foreground">
                   {selectedFolderId == null
-                    ? "No folder"
+                    ? noFolderLabel
                     : folders.find((f) => f.id === selectedFolderId)?.name ??
                       "Select folder"}
                 </Text>
@@ -84,14 +96,19 @@ export function MoveToFolderModal({
               }
             >
               <DropdownMenuItem onPress={() => onSelectFolder(null)}>
-                <Text className="text-foreground">No folder</Text>
+                <Text className="text-foreground">{noFolderLabel}</Text>
               </DropdownMenuItem>
-              {folders.map((folder) => (
+              {tree.map(({ folder, depth }) => (
                 <DropdownMenuItem
                   key={folder.id}
                   onPress={() => onSelectFolder(folder.id)}
                 >
-                  <Text className="text-foreground">{folder.name}</Text>
+                  <Text
+                    className="text-foreground"
+                    style={depth > 0 ? { paddingLeft: depth * 16 } : undefined}
+                  >
+                    {folder.name}
+                  </Text>
                 </DropdownMenuItem>
               ))}
             </DropdownMenuContent>
@@ -3,7 +3,7 @@
 import { useThemeColors } from "@/lib/use-theme-colors";
 import * as Haptics from "expo-haptics";
 import { usePathname, useRouter } from "expo-router";
-import { Calendar, FileText, Files, Folder, Home, Menu, Settings } from "lucide-react-native";
+import { Calendar, FileText, Files, Folder, Home, ListChecks, Menu, Settings } from "lucide-react-native";
 import { useEffect, useState } from "react";
 import {
   Dimensions,
@@ -79,6 +79,7 @@ const navItems: NavItem[] = [
   { label: "Home", icon: Home, href: "/(app)/home" },
   { label: "Folders", icon: Folder, href: "/(app)/folders", activePathPrefixes: ["/folder/", "/(app)/folder/"] },
   { label: "Notes", icon: FileText, href: "/(app)/notes", activePathPrefixes: ["/note/", "/(app)/note/"] },
+  { label: "Tasks", icon: ListChecks, href: "/(app)/tasks" },
   { label: "Files", icon: Files, href: "/(app)/files" },
   { label: "Calendar", icon: Calendar, href: "/(app)/calendar" },
   {
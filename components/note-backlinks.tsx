@@ -0,0 +1,50 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import type { Note } from "@/lib/supabase";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import * as Haptics from "expo-haptics";
+import { Link2 } from "lucide-react-native";
+import { Platform, Pressable, ScrollView, View } from "react-native";
+
+export interface NoteBacklinksProps {
+  /** Notes whose content contains a [[link]] to this note. */
+  backlinks: Note[];
+  onOpenNote: (id: string) => void;
+}
+
+/** "Linked from" section shown under a note's preview. Renders nothing when there are no backlinks. */
+export function NoteBacklinks({ backlinks, onOpenNote }: NoteBacklinksProps) {
+  const { colors } = useThemeColors();
+
+  if (backlinks.length === 0) return null;
+
+  return (
+    <View className="border-t border-border bg-muted px-4 py-3">
+      <View className="mb-2 flex-row items-center gap-2">
+        <Link2 size={14} color={colors.mutedForeground} />
+        <Text className="text-xs font-medium uppercase text-muted-foreground">
+          Linked from {backlinks.length}
+        </Text>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+        {backlinks.map((note) => (
+          <Pressable
+            key={note.id}
+            onPress={() => {
+              if (Platform.OS !== "web") {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              onOpenNote(note.id);
+            }}
+            className="max-w-[220px] rounded-md border border-border bg-background px-3 py-1.5 active:opacity-70"
+          >
+            <Text className="text-sm text-foreground" numberOfLines={1}>
+              {note.title || "Untitled"}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
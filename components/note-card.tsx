@@ -4,7 +4,8 @@ import { Card } from "@/components/ui/card";
 import { Text } from "@/components/ui/text";
 import { useThemeColors } from "@/lib/use-theme-colors";
 import type { Note } from "@/lib/supabase";
-import { Check, CheckCheck } from "lucide-react-native";
+import { cn } from "@/lib/utils";
+import { Check, CheckCheck, CircleCheck } from "lucide-react-native";
 import { Platform, Pressable, Animated, View } from "react-native";
 
 export interface NoteCardProps {
@@ -15,6 +16,8 @@ export interface NoteCardProps {
   onPress: () => void;
   onDelete: () => void;
   onRightClickDelete?: () => void;
+  /** Picked in the notes list's selection mode (outlined, with a check next to the title). */
+  selected?: boolean;
 }
 
 function formatNoteDate(dateString: string) {
@@ -38,6 +41,7 @@ export function NoteCard({
   onPress,
   onDelete,
   onRightClickDelete,
+  selected = false,
 }: NoteCardProps) {
   const { colors } = useThemeColors();
   const scale = new Animated.Value(1);
@@ -91,7 +95,7 @@ export function NoteCard({
     >
       <Animated.View style={{ transform: [{ scale }] }}>
         <Card
-          className="rounded-2xl bg-muted border border-border"
+          className={cn("rounded-2xl bg-muted border", selected ? "border-blue-500" : "border-border")}
           style={{
             width: cardWidth,
             minHeight: cardHeight,
@@ -99,12 +103,15 @@ export function NoteCard({
             padding,
           }}
         >
-          <Text
-            className="text-lg font-semibold text-foreground"
-            numberOfLines={1}
-          >
-            {note.title || "Untitled"}
-          </Text>
+          <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+            <Text
+              className="flex-1 text-lg font-semibold text-foreground"
+              numberOfLines={1}
+            >
+              {note.title || "Untitled"}
+            </Text>
+            {selected && <CircleCheck size={18} color="#3b82f6" />}
+          </View>
           <Text
             className="text-sm text-muted-foreground leading-4"
             numberOfLines={contentLength > 200 ? 8 : 6}
@@ -0,0 +1,264 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import type { NoteConflict } from "@/lib/note-merge";
+import { applyMergeChoices, merge3, type ConflictChoice, type MergeHunk } from "@/lib/text-diff";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import * as Haptics from "expo-haptics";
+import { GitMerge } from "lucide-react-native";
+import { useEffect, useMemo, useState } from "react";
+import { Modal, Platform, Pressable, ScrollView, View } from "react-native";
+
+export interface NoteConflictModalProps {
+  visible: boolean;
+  onClose: () => void;
+  conflict: NoteConflict;
+  onResolve: (resolved: { title: string; content: string }) => void;
+  isResolving: boolean;
+}
+
+/** Unchanged runs longer than this are collapsed to their first and last lines. */
+const STABLE_CONTEXT_LINES = 2;
+
+const CHOICE_LABELS: Record<ConflictChoice, string> = {
+  ours: "Mine",
+  theirs: "Theirs",
+  both: "Both",
+};
+
+function StableHunk({ lines }: { lines: string[] }) {
+  const collapsed = lines.length > STABLE_CONTEXT_LINES * 2 + 1;
+  const shown = collapsed
+    ? [
+        ...lines.slice(0, STABLE_CONTEXT_LINES),
+        `… ${lines.length - STABLE_CONTEXT_LINES * 2} unchanged lines …`,
+        ...lines.slice(-STABLE_CONTEXT_LINES),
+      ]
+    : lines;
+  return (
+    <View className="px-3 py-1">
+      {shown.map((line, i) => (
+        <Text key={i} className="font-mono text-xs text-muted-foreground" numberOfLines={1}>
+          {line || " "}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+function SideBlock({ label, lines, selected }: { label: string; lines: string[]; selected: boolean }) {
+  return (
+    <View
+      className={cn(
+        "rounded-md border px-3 py-2",
+        selected ? "border-blue-500 bg-blue-500/10" : "border-border bg-background"
+      )}
+    >
+      <Text className="mb-1 text-[11px] font-semibold uppercase text-muted-foreground">{label}</Text>
+      {lines.length === 0 ? (
+        <Text className="font-mono text-xs italic text-muted-foreground">(removed)</Text>
+      ) : (
+        lines.map((line, i) => (
+          <Text key={i} className="font-mono text-xs text-foreground">
+            {line || " "}
+          </Text>
+        ))
+      )}
+    </View>
+  );
+}
+
+/**
+ * Three-way merge screen for a note edited both locally and on another device.
+ * Non-overlapping changes are merged automatically; each overlapping region and a conflicting
+ * title must be resolved by picking mine, theirs, or both.
+ */
+export function NoteConflictModal({
+  visible,
+  onClose,
+  conflict,
+  onResolve,
+  isResolving,
+}: NoteConflictModalProps) {
+  const { colors } = useThemeColors();
+  const { base, local, remote } = conflict;
+
+  const merge = useMemo(
+    () => merge3(base.content, local.content, remote.content),
+    [base.content, local.content, remote.content]
+  );
+  const conflictCount = merge.hunks.filter((h) => h.type === "conflict").length;
+  const titleConflict =
+    local.title !== remote.title && local.title !== base.title && remote.title !== base.title;
+
+  const [choices, setChoices] = useState<(ConflictChoice | undefined)[]>([]);
+  const [titleChoice, setTitleChoice] = useState<"ours" | "theirs" | undefined>();
+
+  useEffect(() => {
+    if (visible) {
+      setChoices(new Array(conflictCount).fill(undefined));
+      setTitleChoice(undefined);
+    }
+  }, [visible, conflictCount, conflict.detectedAt]);
+
+  const unresolved =
+    choices.filter((c) => c === undefined).length + (titleConflict && !titleChoice ? 1 : 0);
+
+  const choose = (index: number, choice: ConflictChoice) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setChoices((prev) => {
+      const next = [...prev];
+      next[index] = choice;
+      return next;
+    });
+  };
+
+  const chooseAll = (choice: "ours" | "theirs") => {
+    setChoices(new Array(conflictCount).fill(choice));
+    if (titleConflict) setTitleChoice(choice);
+  };
+
+  const handleResolve = () => {
+    const title = titleConflict
+      ? titleChoice === "theirs"
+        ? remote.title
+        : local.title
+      : local.title !== base.title
+        ? local.title
+        : remote.title;
+    const content = applyMergeChoices(
+      merge.hunks,
+      choices.map((c) => c ?? "ours")
+    );
+    onResolve({ title, content });
+  };
+
+  let conflictIndex = -1;
+  const renderHunk = (hunk: MergeHunk, key: number) => {
+    if (hunk.type === "stable") {
+      return <StableHunk key={key} lines={hunk.lines} />;
+    }
+    conflictIndex++;
+    const index = conflictIndex;
+    const choice = choices[index];
+    return (
+      <View key={key} className="my-2 gap-2 rounded-lg border border-border bg-muted p-2">
+        <SideBlock label="Mine" lines={hunk.ours} selected={choice === "ours" || choice === "both"} />
+        <SideBlock
+          label="Other device"
+          lines={hunk.theirs}
+          selected={choice === "theirs" || choice === "both"}
+        />
+        <View className="flex-row gap-2">
+          {(["ours", "theirs", "both"] as ConflictChoice[]).map((option) => (
+            <Pressable
+              key={option}
+              onPress={() => choose(index, option)}
+              className={cn(
+                "flex-1 items-center rounded-md border py-2",
+                choice === option ? "border-blue-500 bg-blue-500/10" : "border-border bg-background"
+              )}
+            >
+              <Text className="text-sm font-medium text-foreground">{CHOICE_LABELS[option]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const overlayContent = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="max-h-[85%] w-full max-w-[560px] rounded-lg border border-border bg-muted p-6 shadow-lg shadow-black/5">
+        <View className="mb-2 flex-row items-center gap-3">
+          <GitMerge color={colors.foreground} size={22} />
+          <Text className="text-lg font-semibold text-foreground">Resolve sync conflict</Text>
+        </View>
+        <Text className="mb-4 text-sm text-muted-foreground">
+          This note was changed on another device while you had unsynced edits. Changes that don't
+          overlap were merged; pick what to keep for the rest.
+        </Text>
+
+        <ScrollView className="mb-4 rounded-md border border-border bg-background" showsVerticalScrollIndicator>
+          {titleConflict && (
+            <View className="gap-2 border-b border-border p-3">
+              <Text className="text-[11px] font-semibold uppercase text-muted-foreground">Title</Text>
+              {(["ours", "theirs"] as const).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setTitleChoice(option)}
+                  className={cn(
+                    "rounded-md border px-3 py-2",
+                    titleChoice === option ? "border-blue-500 bg-blue-500/10" : "border-border"
+                  )}
+                >
+                  <Text className="text-sm text-foreground">
+                    {option === "ours" ? local.title : remote.title}
+                  </Text>
+                  <Text className="text-xs text-muted-foreground">
+                    {option === "ours" ? "Mine" : "Other device"}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+          <View className="py-2">{merge.hunks.map(renderHunk)}</View>
+        </ScrollView>
+
+        <View className="mb-4 flex-row gap-2">
+          <Pressable
+            onPress={() => chooseAll("ours")}
+            className="rounded-md bg-foreground/10 px-3 py-2"
+          >
+            <Text className="text-sm font-medium text-foreground">Keep all mine</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => chooseAll("theirs")}
+            className="rounded-md bg-foreground/10 px-3 py-2"
+          >
+            <Text className="text-sm font-medium text-foreground">Keep all theirs</Text>
+          </Pressable>
+        </View>
+
+        <View className="flex-row items-center justify-end gap-3">
+          {unresolved > 0 && (
+            <Text className="mr-auto text-xs text-muted-foreground">
+              {unresolved} left to resolve
+            </Text>
+          )}
+          <Pressable className="px-4 py-2" onPress={onClose} disabled={isResolving}>
+            <Text className="text-foreground">Later</Text>
+          </Pressable>
+          <Pressable
+            className={cn("rounded-md px-4 py-2", unresolved > 0 && "opacity-40")}
+            onPress={handleResolve}
+            disabled={unresolved > 0 || isResolving}
+          >
+            <Text className="font-semibold text-blue-500">
+              {isResolving ? "Saving…" : "Save merge"}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        {overlayContent}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{overlayContent}</View>
+    </Modal>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { getExportHtml } from "@/components/markdown-preview";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import { exportPdf, saveExportFile } from "@/lib/export-file";
+import {
+  combinedExportTitle,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_MIME_TYPES,
+  exportFileName,
+  noteToDocx,
+  notesToMarkdownZip,
+  type ExportableNote,
+  type NoteExportFormat,
+} from "@/lib/note-export";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { FileCode, FileDown, FileText, FileType } from "lucide-react-native";
+import { useState } from "react";
+import { ActivityIndicator, Modal, Platform, Pressable, View } from "react-native";
+
+const FORMAT_ICONS = {
+  pdf: FileDown,
+  html: FileCode,
+  docx: FileType,
+  markdown: FileText,
+} as const;
+
+function formatDescription(format: NoteExportFormat, count: number): string {
+  const combined = count > 1;
+  switch (format) {
+    case "pdf":
+      return combined ? "One document with a table of contents" : "Print-ready document";
+    case "html":
+      return combined
+        ? "One web page with a table of contents"
+        : "Single web page with styles and images included";
+    case "docx":
+      return "Editable in Word, Pages or Google Docs";
+    case "markdown":
+      return combined ? "ZIP with one .md file per note" : "The note's source as a .md file";
+  }
+}
+
+async function exportNotes(notes: ExportableNote[], format: NoteExportFormat): Promise<void> {
+  const title = notes.length === 1 ? notes[0].title || "Untitled" : combinedExportTitle(notes.length);
+  switch (format) {
+    case "pdf":
+      return exportPdf(await getExportHtml(notes, title), exportFileName(title, "pdf"));
+    case "html":
+      return saveExportFile({
+        fileName: exportFileName(title, "html"),
+        mimeType: EXPORT_MIME_TYPES.html,
+        text: await getExportHtml(notes, title),
+      });
+    case "docx":
+      return saveExportFile({
+        fileName: exportFileName(title, "docx"),
+        mimeType: EXPORT_MIME_TYPES.docx,
+        base64: await noteToDocx(notes[0]),
+      });
+    case "markdown":
+      if (notes.length === 1) {
+        return saveExportFile({
+          fileName: exportFileName(title, "md"),
+          mimeType: EXPORT_MIME_TYPES.markdown,
+          text: notes[0].content,
+        });
+      }
+      return saveExportFile({
+        fileName: exportFileName(title, "zip"),
+        mimeType: EXPORT_MIME_TYPES.zip,
+        base64: await notesToMarkdownZip(notes),
+      });
+  }
+}
+
+export interface NoteExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** One note exports as itself; several are combined into one document (or one ZIP). */
+  notes: ExportableNote[];
+  formats: NoteExportFormat[];
+}
+
+/** Pick a format and export the notes: shared on native, downloaded or printed on web. */
+export function NoteExportModal({ visible, onClose, notes, formats }: NoteExportModalProps) {
+  const { colors } = useThemeColors();
+  const { alert } = useAlert();
+  const [pendingFormat, setPendingFormat] = useState<NoteExportFormat | null>(null);
+
+  const handleExport = async (format: NoteExportFormat) => {
+    if (pendingFormat || notes.length === 0) return;
+    setPendingFormat(format);
+    try {
+      await exportNotes(notes, format);
+      onClose();
+    } catch (error) {
+      alert("Export failed", error instanceof Error ? error.message : "Couldn't export the note");
+    } finally {
+      setPendingFormat(null);
+    }
+  };
+
+  const panel = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+        <Text className="mb-2 text-lg font-semibold text-foreground">Export</Text>
+        <Text className="mb-4 text-sm text-muted-foreground" numberOfLines={2}>
+          {notes.length === 1 ? notes[0].title || "Untitled" : `${notes.length} notes`}
+        </Text>
+        <View className="mb-4 gap-2">
+          {formats.map((format) => {
+            const FormatIcon = FORMAT_ICONS[format];
+            return (
+              <Pressable
+                key={format}
+                className="flex-row items-center gap-3 rounded-md border border-border bg-background px-4 py-3 active:bg-accent"
+                onPress={() => handleExport(format)}
+                disabled={pendingFormat !== null}
+              >
+                <FormatIcon color={colors.foreground} size={20} />
+                <View className="flex-1">
+                  <Text className="text-foreground">
+                    {format === "markdown" && notes.length > 1 ? "Markdown ZIP" : EXPORT_FORMAT_LABELS[format]}
+                  </Text>
+                  <Text className="text-xs text-muted-foreground">
+                    {formatDescription(format, notes.length)}
+                  </Text>
+                </View>
+                {pendingFormat === format && <ActivityIndicator size="small" color={colors.foreground} />}
+              </Pressable>
+            );
+          })}
+        </View>
+        <View className="flex-row justify-end">
+          <Pressable className="rounded-md py-2.5 pl-4" onPress={onClose}>
+            <Text className="text-foreground">Cancel</Text>
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+        {panel}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{panel}</View>
+    </Modal>
+  );
+}
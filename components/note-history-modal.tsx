@@ -0,0 +1,194 @@
+"use client";
+
+import { getVersionDiffHtml } from "@/components/markdown-preview/getVersionDiffHtml";
+import { MarkdownPreviewWeb } from "@/components/markdown-preview/MarkdownPreviewWeb";
+import { MarkdownPreviewWebView } from "@/components/markdown-preview/MarkdownPreviewWebView";
+import { Text } from "@/components/ui/text";
+import type { NoteVersion } from "@/lib/supabase";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import * as Haptics from "expo-haptics";
+import { ArrowLeft, History } from "lucide-react-native";
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Modal, Platform, Pressable, ScrollView, View } from "react-native";
+
+export interface NoteHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  versions: NoteVersion[];
+  isLoading: boolean;
+  /** The note as currently saved; versions are diffed against it. */
+  current: { title: string; content: string };
+  onRestore: (version: NoteVersion) => void;
+  isRestoring: boolean;
+}
+
+function formatVersionDate(dateString: string) {
+  return new Date(dateString).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function VersionDiff({ version, current }: { version: NoteVersion; current: { content: string } }) {
+  const [html, setHtml] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setHtml("");
+    getVersionDiffHtml(version.content, current.content, {
+      before: formatVersionDate(version.updated_at),
+      after: "Current",
+    }).then((result) => {
+      if (!cancelled) setHtml(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [version.id, version.content, version.updated_at, current.content]);
+
+  if (Platform.OS === "web") {
+    return <MarkdownPreviewWeb html={html} />;
+  }
+  return <MarkdownPreviewWebView html={html} />;
+}
+
+/**
+ * Version history of a note: list of saved versions, a side-by-side diff of the selected version
+ * against the current note, and restore.
+ */
+export function NoteHistoryModal({
+  visible,
+  onClose,
+  versions,
+  isLoading,
+  current,
+  onRestore,
+  isRestoring,
+}: NoteHistoryModalProps) {
+  const { colors } = useThemeColors();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (visible) setSelectedId(null);
+  }, [visible]);
+
+  const isCurrent = (version: NoteVersion) =>
+    version.title === current.title && version.content === current.content;
+
+  const select = (id: string | null) => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setSelectedId(id);
+  };
+
+  const list = isLoading ? (
+    <View className="flex-1 items-center justify-center">
+      <ActivityIndicator color={colors.foreground} />
+    </View>
+  ) : versions.length === 0 ? (
+    <View className="flex-1 items-center justify-center px-6">
+      <Text className="text-center text-sm text-muted-foreground">
+        No versions yet. A version is saved each time you save this note.
+      </Text>
+    </View>
+  ) : (
+    <ScrollView className="flex-1" showsVerticalScrollIndicator>
+      {versions.map((version) => (
+        <Pressable
+          key={version.id}
+          onPress={() => select(version.id)}
+          className="border-b border-border px-4 py-3"
+        >
+          <View className="flex-row items-center gap-2">
+            <Text className="text-sm font-medium text-foreground">
+              {formatVersionDate(version.updated_at)}
+            </Text>
+            {isCurrent(version) && (
+              <Text className="rounded bg-foreground/10 px-1.5 text-[11px] text-muted-foreground">
+                Current
+              </Text>
+            )}
+          </View>
+          <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+            {version.title || "Untitled"} · {version.content.length} characters
+          </Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+
+  const detail = selected && (
+    <View className="flex-1">
+      {selected.title !== current.title && (
+        <Text className="mb-2 text-xs text-muted-foreground" numberOfLines={2}>
+          Title: "{selected.title || "Untitled"}" → "{current.title || "Untitled"}"
+        </Text>
+      )}
+      <View className="flex-1 overflow-hidden rounded-md border border-border">
+        <VersionDiff version={selected} current={current} />
+      </View>
+    </View>
+  );
+
+  const overlayContent = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="h-[85%] w-full max-w-[900px] rounded-lg border border-border bg-muted p-6 shadow-lg shadow-black/5">
+        <View className="mb-4 flex-row items-center gap-3">
+          {selected ? (
+            <Pressable onPress={() => select(null)} hitSlop={8}>
+              <ArrowLeft color={colors.foreground} size={22} />
+            </Pressable>
+          ) : (
+            <History color={colors.foreground} size={22} />
+          )}
+          <Text className="flex-1 text-lg font-semibold text-foreground" numberOfLines={1}>
+            {selected ? formatVersionDate(selected.updated_at) : "Version history"}
+          </Text>
+        </View>
+
+        <View className={cn("mb-4 flex-1", !selected && "rounded-md border border-border bg-background")}>
+          {selected ? detail : list}
+        </View>
+
+        <View className="flex-row items-center justify-end gap-3">
+          <Pressable className="px-4 py-2" onPress={onClose} disabled={isRestoring}>
+            <Text className="text-foreground">Close</Text>
+          </Pressable>
+          {selected && (
+            <Pressable
+              className={cn("rounded-md px-4 py-2", isCurrent(selected) && "opacity-40")}
+              onPress={() => onRestore(selected)}
+              disabled={isRestoring || isCurrent(selected)}
+            >
+              <Text className="font-semibold text-blue-500">
+                {isRestoring ? "Restoring…" : "Restore"}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        {overlayContent}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{overlayContent}</View>
+    </Modal>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Text } from "@/components/ui/text";
+import {
+  formatPropertyValue,
+  LIST_PROPERTIES,
+  parseProperties,
+  parsePropertyInput,
+  splitFrontmatter,
+  type NoteProperties,
+} from "@/lib/frontmatter";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { Plus, X } from "lucide-react-native";
+import { useEffect, useState } from "react";
+import { Modal, Platform, Pressable, ScrollView, View } from "react-native";
+
+/** Offered as one-tap additions when the note doesn't have them yet. */
+const SUGGESTED_PROPERTIES = ["status", "due", "aliases", "tags"];
+
+type PropertyRow = {
+  key: string;
+  value: string;
+  /** Value as parsed from YAML; kept when the text is left unchanged so numbers and nested values survive. */
+  original?: unknown;
+};
+
+export interface NotePropertiesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** The note's current content; its frontmatter is what gets edited. */
+  content: string;
+  /** Called with the properties to write back (empty removes the frontmatter). */
+  onSave: (properties: NoteProperties) => void;
+  readOnly?: boolean;
+}
+
+function rowsFromContent(content: string): { rows: PropertyRow[]; invalid: boolean } {
+  const { yaml } = splitFrontmatter(content);
+  const properties = yaml === null ? {} : parseProperties(yaml);
+  if (!properties) return { rows: [], invalid: true };
+  return {
+    rows: Object.entries(properties).map(([key, value]) => ({
+      key,
+      value: formatPropertyValue(value),
+      original: value,
+    })),
+    invalid: false,
+  };
+}
+
+/**
+ * Edit a note's YAML frontmatter as key/value rows. `aliases` and `tags` take comma-separated
+ * lists; `due` is a YYYY-MM-DD date.
+ */
+export function NotePropertiesModal({
+  visible,
+  onClose,
+  content,
+  onSave,
+  readOnly = false,
+}: NotePropertiesModalProps) {
+  const { colors } = useThemeColors();
+  const [rows, setRows] = useState<PropertyRow[]>([]);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const initial = rowsFromContent(content);
+    setRows(initial.rows);
+    setInvalid(initial.invalid);
+    // Only when opened: edits in the modal shouldn't be reset by content changes behind it
+  }, [visible]);
+
+  const updateRow = (index: number, changes: Partial<PropertyRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setRows((current) => current.filter((_, i) => i !== index));
+  };
+
+  const addRow = (key = "") => {
+    setRows((current) => [...current, { key, value: "" }]);
+  };
+
+  const handleSave = () => {
+    const properties: NoteProperties = {};
+    for (const row of rows) {
+      const key = row.key.trim();
+      if (!key) continue;
+      const unchanged = row.original !== undefined && row.value === formatPropertyValue(row.original);
+      properties[key] = unchanged ? row.original : parsePropertyInput(key, row.value);
+    }
+    onSave(properties);
+  };
+
+  const existingKeys = new Set(rows.map((row) => row.key.trim().toLowerCase()));
+  const suggestions = SUGGESTED_PROPERTIES.filter((key) => !existingKeys.has(key));
+
+  const placeholderFor = (key: string) => {
+    const normalized = key.trim().toLowerCase();
+    if (normalized === "due") return "YYYY-MM-DD";
+    if (LIST_PROPERTIES.includes(normalized)) return "Comma-separated";
+    return "Value";
+  };
+
+  const panel = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="w-full max-w-[480px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+        <Text className="mb-2 text-lg font-semibold text-foreground">Properties</Text>
+        <Text className="mb-4 text-sm text-muted-foreground">
+          {invalid
+            ? "The note's frontmatter isn't valid YAML. Saving here replaces it."
+            : "Stored as YAML frontmatter at the top of the note."}
+        </Text>
+        <ScrollView style={{ maxHeight: 360 }} className="mb-3">
+          {rows.length === 0 && (
+            <Text className="py-2 text-sm text-muted-foreground">No properties yet.</Text>
+          )}
+          {rows.map((row, index) => (
+            <View key={index} className="mb-2 flex-row items-center gap-2">
+              <Input
+                value={row.key}
+                onChangeText={(key) => updateRow(index, { key })}
+                placeholder="Name"
+                editable={!readOnly}
+                autoCapitalize="none"
+                className="w-[35%] border-border bg-background text-foreground"
+              />
+              <Input
+                value={row.value}
+                onChangeText={(value) => updateRow(index, { value })}
+                placeholder={placeholderFor(row.key)}
+                editable={!readOnly}
+                className="flex-1 border-border bg-background text-foreground"
+              />
+              {!readOnly && (
+                <Pressable
+                  className="rounded-md p-1.5 active:bg-accent"
+                  onPress={() => removeRow(index)}
+                  accessibilityLabel={`Remove ${row.key || "property"}`}
+                  hitSlop={6}
+                >
+                  <X color={colors.mutedForeground} size={16} />
+                </Pressable>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+        {!readOnly && (
+          <View className="mb-4 flex-row flex-wrap gap-2">
+            <Pressable
+              className="flex-row items-center gap-1 rounded-full border border-border px-3 py-1 active:opacity-70"
+              onPress={() => addRow()}
+            >
+              <Plus color={colors.foreground} size={14} />
+              <Text className="text-sm text-foreground">Add property</Text>
+            </Pressable>
+            {suggestions.map((key) => (
+              <Pressable
+                key={key}
+                className="rounded-full border border-border px-3 py-1 active:opacity-70"
+                onPress={() => addRow(key)}
+              >
+                <Text className="text-sm text-muted-foreground">{key}</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+        <View className="flex-row justify-end gap-3">
+          <Pressable className="rounded-md px-4 py-2.5" onPress={onClose}>
+            <Text className="text-foreground">{readOnly ? "Close" : "Cancel"}</Text>
+          </Pressable>
+          {!readOnly && (
+            <Pressable className="rounded-md py-2.5 pl-4" onPress={handleSave}>
+              <Text className="font-semibold text-blue-500">Save</Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+        {panel}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{panel}</View>
+    </Modal>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Text } from "@/components/ui/text";
+import { splitHighlights, type NoteSearchResult } from "@/lib/note-search";
+import { cn } from "@/lib/utils";
+import { CircleCheck } from "lucide-react-native";
+import { Platform, Pressable, View } from "react-native";
+
+export interface NoteSearchResultCardProps {
+  result: NoteSearchResult;
+  onPress: () => void;
+  onLongPress: () => void;
+  /** Picked in the notes list's selection mode. */
+  selected?: boolean;
+}
+
+function HighlightedText({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, i) =>
+        part.highlighted ? (
+          <Text key={i} className="rounded-sm bg-yellow-300/60 font-semibold text-foreground">
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
+
+/** Search hit: title and a content snippet with the matched words highlighted. */
+export function NoteSearchResultCard({
+  result,
+  onPress,
+  onLongPress,
+  selected = false,
+}: NoteSearchResultCardProps) {
+  const handleContextMenu = (e: any) => {
+    if (Platform.OS === "web") {
+      e.preventDefault();
+      onLongPress();
+    }
+  };
+
+  return (
+    <Pressable
+      onPress={onPress}
+      onLongPress={onLongPress}
+      {...(Platform.OS === "web" && {
+        onContextMenu: handleContextMenu,
+      })}
+    >
+      <Card
+        className={cn(
+          "gap-1 rounded-2xl border bg-muted p-4",
+          selected ? "border-blue-500" : "border-border"
+        )}
+      >
+        <View className="flex-row items-center gap-1.5">
+          <Text className="flex-1 text-lg font-semibold text-foreground" numberOfLines={1}>
+            {result.titleHighlighted ? <HighlightedText text={result.titleHighlighted} /> : "Untitled"}
+          </Text>
+          {selected && <CircleCheck size={18} color="#3b82f6" />}
+        </View>
+        {result.snippet ? (
+          <Text className="text-sm leading-5 text-muted-foreground" numberOfLines={3}>
+            <HighlightedText text={result.snippet} />
+          </Text>
+        ) : null}
+      </Card>
+    </Pressable>
+  );
+}
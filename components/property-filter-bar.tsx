@@ -0,0 +1,67 @@
+"use client";
+
+import { TagChip } from "@/components/tag-filter-bar";
+import { Text } from "@/components/ui/text";
+import type { NotePropertySort, StatusCount } from "@/lib/frontmatter";
+import { ScrollView, View } from "react-native";
+
+const SORT_OPTIONS: { sort: NotePropertySort; label: string }[] = [
+  { sort: "updated", label: "Updated" },
+  { sort: "due", label: "Due" },
+  { sort: "status", label: "Status" },
+];
+
+export interface PropertyFilterBarProps {
+  statuses: StatusCount[];
+  /** Selected `status` property value, or null for any status. */
+  selectedStatus: string | null;
+  onSelectStatus: (status: string | null) => void;
+  sort: NotePropertySort;
+  onChangeSort: (sort: NotePropertySort) => void;
+}
+
+/**
+ * Filter the notes list by the `status` frontmatter property and sort it by update time, `due`
+ * or `status`. Rendered only when some note has properties.
+ */
+export function PropertyFilterBar({
+  statuses,
+  selectedStatus,
+  onSelectStatus,
+  sort,
+  onChangeSort,
+}: PropertyFilterBarProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={{ gap: 8, paddingHorizontal: 16, alignItems: "center" }}
+    >
+      <Text className="text-xs text-muted-foreground">Sort</Text>
+      {SORT_OPTIONS.map((option) => (
+        <TagChip
+          key={option.sort}
+          label={option.label}
+          active={sort === option.sort}
+          onPress={() => onChangeSort(option.sort)}
+        />
+      ))}
+      {statuses.length > 0 && (
+        <>
+          <View className="mx-1 h-5 w-px bg-border" />
+          <Text className="text-xs text-muted-foreground">Status</Text>
+          <TagChip label="Any" active={!selectedStatus} onPress={() => onSelectStatus(null)} />
+          {statuses.map((entry) => (
+            <TagChip
+              key={entry.status}
+              label={entry.status}
+              count={entry.count}
+              active={selectedStatus?.toLowerCase() === entry.status.toLowerCase()}
+              onPress={() => onSelectStatus(entry.status)}
+            />
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,483 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  COLLABORATOR_ROLES,
+  inviteCollaborator,
+  listNoteCollaborators,
+  removeCollaborator,
+  type CollaboratorRole,
+} from "@/lib/note-collaborators";
+import { QueryKeys } from "@/lib/query-utils";
+import {
+  disableShare,
+  enableShare,
+  getShareUrl,
+  isShareLinkExpired,
+  listShareLinks,
+  regenerateShareToken,
+  SHARE_EXPIRY_OPTIONS,
+  updateShareLinkOptions,
+  type ShareableKind,
+} from "@/lib/share-links";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import * as Clipboard from "expo-clipboard";
+import * as Haptics from "expo-haptics";
+import { Check, Eye, Link, Lock, RefreshCw, Share2, UserPlus, X } from "lucide-react-native";
+import { useCallback, useEffect, useState } from "react";
+import { Modal, Platform, Pressable, View } from "react-native";
+
+function formatShareDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+const SHARE_DESCRIPTIONS: Record<ShareableKind, string> = {
+  note: "view the note",
+  folder: "browse the notes and files in this folder",
+  file: "download the file",
+};
+
+/** People invited to a note by email; they open it from "Shared with me" and edit it live. */
+function NoteCollaboratorsSection({ noteId, visible }: { noteId: string; visible: boolean }) {
+  const { colors } = useThemeColors();
+  const { alert } = useAlert();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CollaboratorRole>("editor");
+  const [saving, setSaving] = useState(false);
+
+  const { data: collaborators = [] } = useQuery({
+    queryKey: QueryKeys.noteCollaborators(noteId),
+    queryFn: () => listNoteCollaborators(noteId),
+    enabled: visible,
+  });
+
+  useEffect(() => {
+    if (!visible) setEmail("");
+  }, [visible]);
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QueryKeys.noteCollaborators(noteId) });
+  }, [queryClient, noteId]);
+
+  const handleInvite = useCallback(
+    async (inviteEmail: string, inviteRole: CollaboratorRole) => {
+      if (!inviteEmail.trim()) return;
+      setSaving(true);
+      try {
+        await inviteCollaborator(noteId, inviteEmail, inviteRole);
+        setEmail("");
+        invalidate();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Failed to invite collaborator";
+        alert("Error", message);
+      } finally {
+        setSaving(false);
+      }
+    },
+    [noteId, alert, invalidate]
+  );
+
+  const handleRemove = useCallback(
+    (userId: string, collaboratorEmail: string) => {
+      alert("Remove access", `${collaboratorEmail} will no longer be able to open this note.`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await removeCollaborator(noteId, userId);
+              invalidate();
+            } catch (e: unknown) {
+              const message = e instanceof Error ? e.message : "Failed to remove collaborator";
+              alert("Error", message);
+            }
+          },
+        },
+      ]);
+    },
+    [noteId, alert, invalidate]
+  );
+
+  return (
+    <View className="mb-4 border-t border-border pt-4">
+      <Text className="mb-2 text-sm font-medium text-foreground">People</Text>
+      <View className="mb-2 flex-row items-center gap-2">
+        <Input
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email address"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          className="flex-1"
+          onSubmitEditing={() => handleInvite(email, role)}
+        />
+        <Pressable
+          disabled={saving || !email.trim()}
+          onPress={() => handleInvite(email, role)}
+          className={cn("rounded-md bg-foreground/10 px-3 py-2.5", !email.trim() && "opacity-40")}
+        >
+          <UserPlus color={colors.foreground} size={18} />
+        </Pressable>
+      </View>
+      <View className="mb-3 flex-row gap-2">
+        {COLLABORATOR_ROLES.map((option) => (
+          <Pressable
+            key={option.role}
+            onPress={() => setRole(option.role)}
+            className={cn("rounded-md px-3 py-1.5", role === option.role ? "bg-foreground" : "bg-foreground/10")}
+          >
+            <Text className={cn("text-sm", role === option.role ? "text-background" : "text-foreground")}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {collaborators.map((collaborator) => {
+        const nextRole: CollaboratorRole = collaborator.role === "editor" ? "viewer" : "editor";
+        return (
+          <View key={collaborator.user_id} className="flex-row items-center gap-2 py-1.5">
+            <Text className="flex-1 text-sm text-foreground" numberOfLines={1}>
+              {collaborator.email}
+            </Text>
+            <Pressable
+              disabled={saving}
+              onPress={() => handleInvite(collaborator.email, nextRole)}
+              className="rounded-md bg-foreground/10 px-2 py-1"
+            >
+              <Text className="text-xs text-foreground">
+                {COLLABORATOR_ROLES.find((r) => r.role === collaborator.role)?.label}
+              </Text>
+            </Pressable>
+            <Pressable onPress={() => handleRemove(collaborator.user_id, collaborator.email)} className="p-1">
+              <X color={colors.mutedForeground} size={16} />
+            </Pressable>
+          </View>
+        );
+      })}
+      {collaborators.length === 0 && (
+        <Text className="text-xs text-muted-foreground">Only you can open this note.</Text>
+      )}
+    </View>
+  );
+}
+
+export interface ShareModalProps {
+  visible: boolean;
+  onClose: () => void;
+  kind: ShareableKind;
+  itemId: string;
+  shareToken: string | null | undefined;
+  onShareTokenChange: (token: string | null) => void;
+}
+
+export function ShareModal({
+  visible,
+  onClose,
+  kind,
+  itemId,
+  shareToken,
+  onShareTokenChange,
+}: ShareModalProps) {
+  const { colors } = useThemeColors();
+  const { alert } = useAlert();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [toggling, setToggling] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [savingOptions, setSavingOptions] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+
+  const isShared = !!shareToken;
+  const shareUrl = shareToken ? getShareUrl(shareToken) : "";
+
+  const { data: shareLinks = [] } = useQuery({
+    queryKey: QueryKeys.shareLinks(user?.id),
+    queryFn: listShareLinks,
+    enabled: visible && isShared && !!user?.id,
+  });
+  const link = shareLinks.find((l) => l.token === shareToken) ?? null;
+  const expired = isShareLinkExpired(link);
+
+  useEffect(() => {
+    if (!visible) {
+      setCopied(false);
+      setPassphrase("");
+    }
+  }, [visible]);
+
+  const invalidateShareLinks = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QueryKeys.shareLinks(user?.id) });
+  }, [queryClient, user?.id]);
+
+  const handleToggle = useCallback(
+    async (enabled: boolean) => {
+      setToggling(true);
+      try {
+        if (enabled) {
+          const token = await enableShare(kind, itemId);
+          onShareTokenChange(token);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        } else {
+          await disableShare(kind, itemId, shareToken);
+          onShareTokenChange(null);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }
+        invalidateShareLinks();
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Failed to update share";
+        alert("Error", message);
+      } finally {
+        setToggling(false);
+      }
+    },
+    [kind, itemId, shareToken, onShareTokenChange, alert, invalidateShareLinks]
+  );
+
+  const saveOptions = useCallback(
+    async (options: { expiresAt?: string | null; passphrase?: string | null }) => {
+      if (!shareToken) return;
+      setSavingOptions(true);
+      try {
+        await updateShareLinkOptions(shareToken, options);
+        invalidateShareLinks();
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        if (options.passphrase !== undefined) setPassphrase("");
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : "Failed to update share link";
+        alert("Error", message);
+      } finally {
+        setSavingOptions(false);
+      }
+    },
+    [shareToken, alert, invalidateShareLinks]
+  );
+
+  const handleRegenerate = useCallback(() => {
+    if (!shareToken) return;
+    alert("Regenerate link", "The current link will stop working. Anyone you shared it with will need the new one.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Regenerate",
+        style: "destructive",
+        onPress: async () => {
+          setToggling(true);
+          try {
+            const token = await regenerateShareToken(kind, itemId, shareToken);
+            onShareTokenChange(token);
+            invalidateShareLinks();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          } catch (e: unknown) {
+            const message = e instanceof Error ? e.message : "Failed to regenerate link";
+            alert("Error", message);
+          } finally {
+            setToggling(false);
+          }
+        },
+      },
+    ]);
+  }, [kind, itemId, shareToken, onShareTokenChange, alert, invalidateShareLinks]);
+
+  const handleCopy = useCallback(async () => {
+    if (!shareUrl) return;
+    try {
+      await Clipboard.setStringAsync(shareUrl);
+      setCopied(true);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // clipboard not available
+    }
+  }, [shareUrl]);
+
+  const overlayContent = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg shadow-black/5">
+        <View className="mb-4 flex-row items-center gap-3">
+          <Share2 color={colors.foreground} size={22} />
+          <Text className="text-lg font-semibold text-foreground">
+            Share {kind}
+          </Text>
+        </View>
+
+        <View className="mb-4 flex-row items-center justify-between">
+          <Text className="text-[15px] text-foreground">
+            Enable share
+          </Text>
+          <View className="rounded-full border border-border bg-background">
+            <Switch
+              checked={isShared}
+              onCheckedChange={handleToggle}
+              disabled={toggling}
+            />
+          </View>
+        </View>
+
+        {isShared && (
+          <>
+            <Text className="mb-2 text-sm text-muted-foreground">
+              {link?.has_passphrase
+                ? `Anyone with this link and the passphrase can ${SHARE_DESCRIPTIONS[kind]}.`
+                : `Anyone with this link can ${SHARE_DESCRIPTIONS[kind]}.`}
+            </Text>
+            <Pressable
+              onPress={handleCopy}
+              className="mt-2 mb-4 flex-row items-center justify-center gap-2 self-start rounded-md bg-foreground/10 px-3 py-2.5 w-full"
+            >
+              {copied ? (
+                <Check
+                  color={colors.foreground}
+                  size={18}
+                />
+              ) : (
+                <Link
+                  color={colors.foreground}
+                  size={18}
+                />
+              )}
+              <Text className="text-sm font-medium text-foreground">
+                {copied ? "Copied!" : "Copy link"}
+              </Text>
+            </Pressable>
+
+            <View className="mb-4 flex-row items-center gap-2">
+              <Eye color={colors.mutedForeground} size={14} />
+              <Text className="text-xs text-muted-foreground">
+                {link?.view_count
+                  ? `${link.view_count} view${link.view_count === 1 ? "" : "s"}${link.last_viewed_at ? ` · last ${formatShareDate(link.last_viewed_at)}` : ""}`
+                  : "Not viewed yet"}
+              </Text>
+            </View>
+
+            <Text className="mb-2 text-sm font-medium text-foreground">Expires</Text>
+            <View className="mb-1 flex-row flex-wrap gap-2">
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.label}
+                  disabled={savingOptions}
+                  onPress={() =>
+                    saveOptions({
+                      expiresAt:
+                        option.days === null
+                          ? null
+                          : new Date(Date.now() + option.days * 24 * 60 * 60 * 1000).toISOString(),
+                    })
+                  }
+                  className={cn(
+                    "rounded-md px-3 py-1.5",
+                    option.days === null && !link?.expires_at ? "bg-foreground" : "bg-foreground/10"
+                  )}
+                >
+                  <Text
+                    className={cn(
+                      "text-sm",
+                      option.days === null && !link?.expires_at ? "text-background" : "text-foreground"
+                    )}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text className={cn("mb-4 text-xs", expired ? "text-red-500" : "text-muted-foreground")}>
+              {link?.expires_at
+                ? `${expired ? "Expired" : "Expires"} ${formatShareDate(link.expires_at)}`
+                : "Never expires"}
+            </Text>
+
+            <Text className="mb-2 text-sm font-medium text-foreground">Passphrase</Text>
+            {link?.has_passphrase ? (
+              <View className="mb-4 flex-row items-center gap-2">
+                <Lock color={colors.mutedForeground} size={14} />
+                <Text className="flex-1 text-sm text-muted-foreground">Viewers must enter a passphrase</Text>
+                <Pressable
+                  disabled={savingOptions}
+                  onPress={() => saveOptions({ passphrase: null })}
+                  className="rounded-md px-3 py-1.5"
+                >
+                  <Text className="text-sm font-medium text-red-500">Remove</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <View className="mb-4 flex-row items-center gap-2">
+                <Input
+                  value={passphrase}
+                  onChangeText={setPassphrase}
+                  placeholder="Optional passphrase"
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  className="flex-1"
+                />
+                <Pressable
+                  disabled={savingOptions || !passphrase.trim()}
+                  onPress={() => saveOptions({ passphrase: passphrase.trim() })}
+                  className={cn("rounded-md bg-foreground/10 px-3 py-2.5", !passphrase.trim() && "opacity-40")}
+                >
+                  <Text className="text-sm font-medium text-foreground">Set</Text>
+                </Pressable>
+              </View>
+            )}
+
+            <Pressable
+              onPress={handleRegenerate}
+              disabled={toggling}
+              className="mb-4 flex-row items-center gap-2 self-start"
+            >
+              <RefreshCw color={colors.mutedForeground} size={14} />
+              <Text className="text-sm text-muted-foreground">Regenerate link</Text>
+            </Pressable>
+          </>
+        )}
+
+        {kind === "note" && <NoteCollaboratorsSection noteId={itemId} visible={visible} />}
+
+        <View className="flex-row justify-end">
+          <Pressable
+            onPress={() => {
+              if (Platform.OS !== "web") {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              onClose();
+            }}
+            className="py-2 pl-4 pr-0"
+          >
+            <Text className="font-medium text-foreground">Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        {overlayContent}
+      </View>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">
+        {overlayContent}
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { formatFileSize } from "@/components/file-card";
+import { Text } from "@/components/ui/text";
+import { useAlert } from "@/contexts/alert-context";
+import { getFileDownloadUrl } from "@/lib/files";
+import type { SharedFile } from "@/lib/share-links";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { useQuery } from "@tanstack/react-query";
+import { Download, File as FileIcon } from "lucide-react-native";
+import { useState } from "react";
+import { ActivityIndicator, Image, Linking, Platform, Pressable, View } from "react-native";
+
+export interface SharedFileViewProps {
+  file: SharedFile;
+}
+
+/** Download page for a publicly shared file, with an inline preview for images. */
+export function SharedFileView({ file }: SharedFileViewProps) {
+  const { colors } = useThemeColors();
+  const { alert } = useAlert();
+  const [downloading, setDownloading] = useState(false);
+  const isImage = file.mime_type?.startsWith("image/");
+
+  // The storage path is only granted for a few minutes after the link is opened
+  const { data: previewUrl } = useQuery({
+    queryKey: ["shared-file-preview", file.file_path],
+    queryFn: () => getFileDownloadUrl(file.file_path),
+    enabled: isImage,
+    staleTime: 30 * 60 * 1000,
+    retry: false,
+  });
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const url = await getFileDownloadUrl(file.file_path, { download: true });
+      if (Platform.OS === "web") {
+        if (typeof window !== "undefined") window.location.assign(url);
+      } else {
+        await Linking.openURL(url);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Failed to download file";
+      alert("Error", `${message}. Reload the link and try again.`);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <View className="items-center gap-6 py-12">
+      {isImage && previewUrl ? (
+        <Image
+          source={{ uri: previewUrl }}
+          style={{ width: "100%", height: 320 }}
+          resizeMode="contain"
+          accessibilityLabel={file.name}
+        />
+      ) : (
+        <View className="h-24 w-24 items-center justify-center rounded-2xl border border-border bg-background">
+          <FileIcon color={colors.mutedForeground} size={40} />
+        </View>
+      )}
+      <View className="items-center gap-1 px-6">
+        <Text className="text-center text-lg font-semibold text-foreground" numberOfLines={2}>
+          {file.name}
+        </Text>
+        <Text className="text-sm text-muted-foreground">
+          {formatFileSize(file.file_size)}
+          {file.extension ? ` · ${file.extension.toUpperCase()}` : ""}
+        </Text>
+      </View>
+      <Pressable
+        onPress={handleDownload}
+        disabled={downloading}
+        className="flex-row items-center gap-2 rounded-md bg-foreground px-5 py-2.5 active:opacity-80"
+      >
+        {downloading ? (
+          <ActivityIndicator size="small" color={colors.background} />
+        ) : (
+          <Download color={colors.background} size={18} />
+        )}
+        <Text className="text-sm font-semibold text-background">Download</Text>
+      </Pressable>
+    </View>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { formatFileSize } from "@/components/file-card";
+import { Text } from "@/components/ui/text";
+import type { SharedFileEntry } from "@/lib/share-links";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { File as FileIcon, FileText } from "lucide-react-native";
+import { Pressable, View } from "react-native";
+
+export interface SharedFolderViewProps {
+  notes: { id: string; title: string; updated_at: string }[];
+  files: SharedFileEntry[];
+  /** Open a note or file of the folder by id. */
+  onOpenItem: (id: string) => void;
+}
+
+/** Read-only listing of a publicly shared folder: its notes, then its files. */
+export function SharedFolderView({ notes, files, onOpenItem }: SharedFolderViewProps) {
+  const { colors } = useThemeColors();
+
+  if (notes.length === 0 && files.length === 0) {
+    return (
+      <View className="items-center justify-center py-24">
+        <Text className="text-base text-muted-foreground">This folder is empty.</Text>
+      </View>
+    );
+  }
+
+  const section = (label: string, rows: { id: string; title: string; detail: string; isNote: boolean }[]) =>
+    rows.length > 0 && (
+      <View>
+        <Text className="mb-3 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+          {label} ({rows.length})
+        </Text>
+        <View className="overflow-hidden rounded-2xl border border-border bg-muted">
+          {rows.map((row, index) => (
+            <Pressable
+              key={row.id}
+              onPress={() => onOpenItem(row.id)}
+              className={
+                index > 0
+                  ? "flex-row items-center gap-3 border-t border-border px-4 py-3 active:opacity-70"
+                  : "flex-row items-center gap-3 px-4 py-3 active:opacity-70"
+              }
+            >
+              {row.isNote ? (
+                <FileText color={colors.mutedForeground} size={20} />
+              ) : (
+                <FileIcon color={colors.mutedForeground} size={20} />
+              )}
+              <Text className="min-w-0 flex-1 text-base font-medium text-foreground" numberOfLines={1}>
+                {row.title}
+              </Text>
+              <Text className="text-xs text-muted-foreground">{row.detail}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    );
+
+  return (
+    <View className="gap-6">
+      {section(
+        "Notes",
+        notes.map((n) => ({
+          id: n.id,
+          title: n.title || "Untitled",
+          detail: new Date(n.updated_at).toLocaleDateString(undefined, { dateStyle: "medium" }),
+          isNote: true,
+        }))
+      )}
+      {section(
+        "Files",
+        files.map((f) => ({ id: f.id, title: f.name, detail: formatFileSize(f.file_size), isNote: false }))
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import { getChildTags, getParentTag, getTagLabel, type TagCount } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import * as Haptics from "expo-haptics";
+import { Platform, Pressable, ScrollView } from "react-native";
+
+export interface TagChipProps {
+  label: string;
+  count?: number;
+  active?: boolean;
+  onPress: () => void;
+}
+
+export function TagChip({ label, count, active, onPress }: TagChipProps) {
+  return (
+    <Pressable
+      onPress={() => {
+        if (Platform.OS !== "web") {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        }
+        onPress();
+      }}
+      className={cn(
+        "flex-row items-center gap-1.5 rounded-full border px-3 py-1 active:opacity-70",
+        active ? "border-foreground bg-foreground" : "border-border bg-muted"
+      )}
+    >
+      <Text className={cn("text-sm", active ? "text-background" : "text-foreground")} numberOfLines={1}>
+        {label}
+      </Text>
+      {count !== undefined && (
+        <Text className={cn("text-xs", active ? "text-background/70" : "text-muted-foreground")}>
+          {count}
+        </Text>
+      )}
+    </Pressable>
+  );
+}
+
+function ancestorsOf(tag: string): string[] {
+  const path: string[] = [];
+  for (let t: string | null = tag; t; t = getParentTag(t)) path.unshift(t);
+  return path;
+}
+
+export interface TagFilterBarProps {
+  tags: TagCount[];
+  /** Normalized tag path, or null for all notes. */
+  selectedTag: string | null;
+  onSelectTag: (tag: string | null) => void;
+}
+
+/**
+ * Tag browser for the notes list: "All", the path down to the selected tag, then the selected
+ * tag's children (top-level tags when nothing is selected). Renders nothing when there are no tags.
+ */
+export function TagFilterBar({ tags, selectedTag, onSelectTag }: TagFilterBarProps) {
+  if (tags.length === 0 && !selectedTag) return null;
+
+  const countOf = (tag: string) => tags.find((t) => t.tag === tag)?.count ?? 0;
+  const path = selectedTag ? ancestorsOf(selectedTag) : [];
+  const children = getChildTags(tags, selectedTag);
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={{ gap: 8, paddingHorizontal: 16 }}
+    >
+      <TagChip label="All" active={!selectedTag} onPress={() => onSelectTag(null)} />
+      {path.map((tag) => (
+        <TagChip
+          key={tag}
+          label={`#${tag}`}
+          count={countOf(tag)}
+          active={tag === selectedTag}
+          onPress={() => onSelectTag(tag)}
+        />
+      ))}
+      {children.map((child) => (
+        <TagChip
+          key={child.tag}
+          label={selectedTag ? `/${getTagLabel(child.tag)}` : `#${child.tag}`}
+          count={child.count}
+          onPress={() => onSelectTag(child.tag)}
+        />
+      ))}
+    </ScrollView>
+  );
+}
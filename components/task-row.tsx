@@ -0,0 +1,91 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import type { NoteTask, TaskPriority } from "@/lib/tasks";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { cn } from "@/lib/utils";
+import * as Haptics from "expo-haptics";
+import { CalendarDays, Flag, Square, SquareCheck } from "lucide-react-native";
+import { Platform, Pressable, View } from "react-native";
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  high: "#ef4444",
+  medium: "#f59e0b",
+  low: "#3b82f6",
+};
+
+export interface TaskRowProps {
+  task: NoteTask;
+  onToggle: (task: NoteTask) => void;
+  /** Opens the note the task lives in. */
+  onOpenNote: (task: NoteTask) => void;
+  /** Show the note's title under the task (off when the list is already grouped by note). */
+  showNote?: boolean;
+  /** Due date is in the past and the task is still open. */
+  overdue?: boolean;
+  disabled?: boolean;
+}
+
+/** One task from a note: checkbox, text, and its note / due date / priority. */
+export function TaskRow({
+  task,
+  onToggle,
+  onOpenNote,
+  showNote = true,
+  overdue = false,
+  disabled = false,
+}: TaskRowProps) {
+  const { colors } = useThemeColors();
+  const CheckIcon = task.checked ? SquareCheck : Square;
+
+  return (
+    <View className="flex-row items-start gap-3 px-4 py-3">
+      <Pressable
+        onPress={() => {
+          if (Platform.OS !== "web") Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onToggle(task);
+        }}
+        disabled={disabled}
+        hitSlop={8}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: task.checked, disabled }}
+        style={{ paddingTop: 1 }}
+      >
+        <CheckIcon color={task.checked ? colors.mutedForeground : colors.foreground} size={20} />
+      </Pressable>
+      <Pressable className="flex-1" onPress={() => onOpenNote(task)}>
+        <Text
+          className={cn(
+            "text-[15px]",
+            task.checked ? "text-muted-foreground line-through" : "text-foreground"
+          )}
+        >
+          {task.text || "Untitled task"}
+        </Text>
+        {(showNote || task.due || task.priority) && (
+          <View className="mt-1 flex-row flex-wrap items-center gap-x-3 gap-y-1">
+            {showNote && (
+              <Text className="text-xs text-muted-foreground" numberOfLines={1}>
+                {task.noteTitle || "Untitled"}
+              </Text>
+            )}
+            {task.due && (
+              <View className="flex-row items-center gap-1">
+                <CalendarDays color={overdue ? "#ef4444" : colors.mutedForeground} size={12} />
+                <Text className={cn("text-xs", overdue ? "text-red-500" : "text-muted-foreground")}>
+                  {task.due}
+                </Text>
+              </View>
+            )}
+            {task.priority && (
+              <View className="flex-row items-center gap-1">
+                <Flag color={PRIORITY_COLORS[task.priority]} size={12} />
+                <Text className="text-xs text-muted-foreground">{task.priority}</Text>
+              </View>
+            )}
+          </View>
+        )}
+      </Pressable>
+    </View>
+  );
+}
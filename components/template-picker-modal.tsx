@@ -0,0 +1,93 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import type { Note } from "@/lib/supabase";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { Check, FileText, LayoutTemplate } from "lucide-react-native";
+import { Modal, Platform, Pressable, ScrollView, View } from "react-native";
+
+export interface TemplatePickerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Heading, e.g. "New note from template" or "Today's note". */
+  title: string;
+  templates: Note[];
+  /** Highlighted choice (null for the blank note); omit to highlight nothing. */
+  selectedTemplateId?: string | null;
+  /** Called with the chosen template, or null for a blank note. */
+  onSelect: (template: Note | null) => void;
+  isPending?: boolean;
+}
+
+/**
+ * Pick a note template (a note in the Templates folder) or a blank note.
+ * Used by the new-note flow and the "Today's note" action on home.
+ */
+export function TemplatePickerModal({
+  visible,
+  onClose,
+  title,
+  templates,
+  selectedTemplateId,
+  onSelect,
+  isPending = false,
+}: TemplatePickerModalProps) {
+  const { colors } = useThemeColors();
+
+  const renderRow = (key: string, label: string, template: Note | null, icon: typeof FileText) => {
+    const RowIcon = icon;
+    const isSelected = selectedTemplateId !== undefined && (template?.id ?? null) === selectedTemplateId;
+    return (
+      <Pressable
+        key={key}
+        className="flex-row items-center gap-3 rounded-md px-3 py-2.5 active:bg-accent"
+        onPress={() => onSelect(template)}
+        disabled={isPending}
+      >
+        <RowIcon color={colors.mutedForeground} size={18} />
+        <Text className="flex-1 text-foreground" numberOfLines={1}>
+          {label}
+        </Text>
+        {isSelected && <Check color={colors.foreground} size={16} />}
+      </Pressable>
+    );
+  };
+
+  const content = (
+    <>
+      <Pressable className="absolute inset-0" onPress={onClose} />
+      <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+        <Text className="mb-2 text-lg font-semibold text-foreground">{title}</Text>
+        <Text className="mb-4 text-sm text-muted-foreground">
+          Templates are the notes in your Templates folder.
+        </Text>
+        <ScrollView style={{ maxHeight: 320 }} className="mb-4">
+          {renderRow("blank", "Blank note", null, FileText)}
+          {templates.map((template) =>
+            renderRow(template.id, template.title || "Untitled", template, LayoutTemplate)
+          )}
+        </ScrollView>
+        <View className="flex-row justify-end">
+          <Pressable className="px-4 py-2" onPress={onClose}>
+            <Text className="text-foreground">{isPending ? "Creating…" : "Cancel"}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+        {content}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{content}</View>
+    </Modal>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Text } from "@/components/ui/text";
+import { useAuth } from "@/contexts/auth-context";
+import { useThemeColors } from "@/lib/use-theme-colors";
+import { useVault } from "@/lib/use-vault";
+import { Lock } from "lucide-react-native";
+import { useEffect, useState } from "react";
+import { ActivityIndicator, Modal, Platform, Pressable, View } from "react-native";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface VaultUnlockModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Called once the vault is unlocked (including right after setting a passphrase). */
+  onUnlocked?: () => void;
+}
+
+/** Unlock the vault with its passphrase, or set the passphrase the first time a vault is used. */
+export function VaultUnlockModal({ visible, onClose, onUnlocked }: VaultUnlockModalProps) {
+  const { user } = useAuth();
+  const { colors } = useThemeColors();
+  const { hasPassphrase, setUp, unlock } = useVault(user?.id);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const settingUp = hasPassphrase === false;
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase("");
+      setConfirmation("");
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (busy || hasPassphrase === undefined || !passphrase) return;
+    if (settingUp) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Passphrases don't match");
+        return;
+      }
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      if (settingUp) {
+        await setUp(passphrase);
+      } else if (!(await unlock(passphrase))) {
+        setError("Incorrect passphrase");
+        return;
+      }
+      onUnlocked?.();
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't unlock the vault");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const panel = (
+    <>
+      <Pressable className="absolute inset-0" onPress={busy ? undefined : onClose} />
+      <View className="w-full max-w-[400px] rounded-lg border border-border bg-muted p-6 shadow-lg">
+        <View className="mb-2 flex-row items-center gap-2">
+          <Lock color={colors.foreground} size={18} />
+          <Text className="text-lg font-semibold text-foreground">
+            {settingUp ? "Set vault passphrase" : "Unlock vault"}
+          </Text>
+        </View>
+        <Text className="mb-4 text-sm text-muted-foreground">
+          {settingUp
+            ? "Notes in vault folders are encrypted on your devices with this passphrase. It can't be recovered: if you forget it, those notes are lost."
+            : "Enter your vault passphrase to open encrypted notes."}
+        </Text>
+        {hasPassphrase === undefined ? (
+          <ActivityIndicator className="my-4" color={colors.foreground} />
+        ) : (
+          <View className="mb-4 gap-3">
+            <Input
+              value={passphrase}
+              onChangeText={setPassphrase}
+              onSubmitEditing={settingUp ? undefined : handleSubmit}
+              placeholder="Passphrase"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              editable={!busy}
+              className="border-border bg-background text-foreground"
+            />
+            {settingUp && (
+              <Input
+                value={confirmation}
+                onChangeText={setConfirmation}
+                onSubmitEditing={handleSubmit}
+                placeholder="Repeat passphrase"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!busy}
+                className="border-border bg-background text-foreground"
+              />
+            )}
+            {error && <Text className="text-sm text-red-500">{error}</Text>}
+          </View>
+        )}
+        <View className="flex-row items-center justify-end gap-3">
+          {busy && <ActivityIndicator size="small" color={colors.foreground} />}
+          <Pressable className="rounded-md px-4 py-2.5" onPress={onClose} disabled={busy}>
+            <Text className="text-foreground">Cancel</Text>
+          </Pressable>
+          <Pressable
+            className="rounded-md py-2.5 pl-4"
+            onPress={handleSubmit}
+            disabled={busy || !passphrase || hasPassphrase === undefined}
+          >
+            <Text className="font-semibold text-blue-500">{settingUp ? "Set passphrase" : "Unlock"}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </>
+  );
+
+  if (Platform.OS === "web") {
+    if (!visible) return null;
+    return (
+      <View className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
+        {panel}
+      </View>
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={busy ? undefined : onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50 p-4">{panel}</View>
+    </Modal>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Text } from "@/components/ui/text";
+import type { Note } from "@/lib/supabase";
+import { normalizeWikiTarget } from "@/lib/wiki-links";
+import * as Haptics from "expo-haptics";
+import { Platform, Pressable, ScrollView, View } from "react-native";
+
+const MAX_SUGGESTIONS = 8;
+
+export interface WikiLinkSuggestionsProps {
+  /** Text typed after `[[` so far. */
+  query: string;
+  notes: Note[];
+  /** The note being edited; not suggested as a link to itself. */
+  excludeId?: string;
+  onSelect: (title: string) => void;
+}
+
+/** Note titles matching an unclosed `[[…` in the editor; prefix matches first. */
+export function WikiLinkSuggestions({ query, notes, excludeId, onSelect }: WikiLinkSuggestionsProps) {
+  const needle = normalizeWikiTarget(query);
+  const seen = new Set<string>();
+  const matches = notes
+    .filter((note) => {
+      const key = normalizeWikiTarget(note.title);
+      if (note.id === excludeId || !key || seen.has(key) || !key.includes(needle)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        Number(!normalizeWikiTarget(a.title).startsWith(needle)) -
+        Number(!normalizeWikiTarget(b.title).startsWith(needle))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <View className="border-t border-border bg-background py-1.5">
+      <ScrollView
+        horizontal
+        keyboardShouldPersistTaps="always"
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ gap: 6, paddingHorizontal: 8 }}
+      >
+        {matches.map((note) => (
+          <Pressable
+            key={note.id}
+            onPress={() => {
+              if (Platform.OS !== "web") {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              onSelect(note.title);
+            }}
+            className="max-w-[200px] rounded-md bg-muted px-2.5 py-1 active:opacity-70"
+          >
+            <Text className="text-sm text-foreground" numberOfLines={1}>
+              {note.title}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
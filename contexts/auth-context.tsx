@@ -1,5 +1,7 @@
 import { UI_DEV } from "@/lib/config";
+import { clearLocalNotes } from "@/lib/notes";
 import { supabase } from "@/lib/supabase";
+import { lockVault } from "@/lib/vault";
 import createContextHook from "@nkzw/create-context-hook";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import type { User } from "@supabase/supabase-js";
@@ -242,6 +244,12 @@ export const [AuthProvider, useAuth] = createContextHook(
         throw error;
       }
 
+      lockVault();
+      // The next account on this device must not find this one's notes
+      await clearLocalNotes().catch((error) => {
+        console.error("Failed to clear local notes:", error);
+      });
+
       setUser(null);
       setSession(null);
     };
@@ -338,6 +346,9 @@ export const [AuthProvider, useAuth] = createContextHook(
           throw new Error(`Failed to clear ${table}: ${error.message}`);
         }
       }
+
+      // 3. Drop the local copy, so unsynced notes aren't pushed back
+      await clearLocalNotes();
     };
 
     return {
@@ -3,21 +3,28 @@ import { createContext, useContext, useEffect, useState, type ReactNode } from "
 
 type ViewMode = "list" | "grid";
 
-type ViewModeKey =
-  | "home"
-  | "notes"
-  | "files"
-  | "folders"
-  | "attachments";
+export type CalendarView = "month" | "week" | "day" | "agenda";
+
+type ViewModeState = {
+  home: ViewMode;
+  notes: ViewMode;
+  files: ViewMode;
+  folders: ViewMode;
+  attachments: ViewMode;
+  calendar: CalendarView;
+};
+
+type ViewModeKey = keyof ViewModeState;
 
-type ViewModeState = Record<ViewModeKey, ViewMode>;
+/** Screens with a list/grid toggle. */
+type ListViewModeKey = Exclude<ViewModeKey, "calendar">;
 
 interface ViewModeContextValue {
   modes: ViewModeState;
   isLoaded: boolean;
-  getViewMode: (key: ViewModeKey) => ViewMode;
-  toggleViewMode: (key: ViewModeKey) => void;
-  setViewMode: (key: ViewModeKey, mode: ViewMode) => void;
+  getViewMode: <K extends ViewModeKey>(key: K) => ViewModeState[K];
+  toggleViewMode: (key: ListViewModeKey) => void;
+  setViewMode: <K extends ViewModeKey>(key: K, mode: ViewModeState[K]) => void;
 }
 
 const DEFAULT_MODES: ViewModeState = {
@@ -26,6 +33,20 @@ const DEFAULT_MODES: ViewModeState = {
   files: "list",
   folders: "list",
   attachments: "list",
+  calendar: "month",
+};
+
+const LIST_MODES: readonly ViewMode[] = ["list", "grid"];
+const CALENDAR_VIEWS: readonly CalendarView[] = ["month", "week", "day", "agenda"];
+
+/** Values each key may be restored with. */
+const ALLOWED_MODES: { [K in ViewModeKey]: readonly ViewModeState[K][] } = {
+  home: LIST_MODES,
+  notes: LIST_MODES,
+  files: LIST_MODES,
+  folders: LIST_MODES,
+  attachments: LIST_MODES,
+  calendar: CALENDAR_VIEWS,
 };
 
 const STORAGE_KEY = "@view_modes";
@@ -47,9 +68,8 @@ export function ViewModeProvider({ children }: { children: ReactNode }) {
             ...Object.fromEntries(
               Object.entries(parsed).filter(
                 ([key, value]) =>
-                  (["home", "notes", "files", "folders", "attachments"] as ViewModeKey[]).includes(
-                    key as ViewModeKey,
-                  ) && (value === "list" || value === "grid"),
+                  key in ALLOWED_MODES &&
+                  (ALLOWED_MODES[key as ViewModeKey] as readonly string[]).includes(value as string),
               ),
             ),
           }));
@@ -75,16 +95,16 @@ export function ViewModeProvider({ children }: { children: ReactNode }) {
     save();
   }, [modes, isLoaded]);
 
-  const getViewMode = (key: ViewModeKey): ViewMode => modes[key] ?? DEFAULT_MODES[key];
+  const getViewMode = <K extends ViewModeKey>(key: K): ViewModeState[K] => modes[key] ?? DEFAULT_MODES[key];
 
-  const setViewMode = (key: ViewModeKey, mode: ViewMode) => {
+  const setViewMode = <K extends ViewModeKey>(key: K, mode: ViewModeState[K]) => {
     setModes((prev) => {
       if (prev[key] === mode) return prev;
       return { ...prev, [key]: mode };
     });
   };
 
-  const toggleViewMode = (key: ViewModeKey) => {
+  const toggleViewMode = (key: ListViewModeKey) => {
     setModes((prev) => {
       const current = prev[key] ?? DEFAULT_MODES[key];
       const next = current === "grid" ? "list" : "grid";
@@ -0,0 +1,32 @@
+import JSZip from 'jszip';
+
+import { exportFileName, notesToMarkdownZip } from '../note-export';
+
+async function zipNames(notes) {
+  const zip = await JSZip.loadAsync(await notesToMarkdownZip(notes), { base64: true });
+  return Object.keys(zip.files);
+}
+
+it(`numbers notes with the same title`, async () => {
+  const names = await zipNames([
+    { title: 'Plans', content: 'a' },
+    { title: 'plans', content: 'b' },
+    { title: 'Plans', content: 'c' },
+  ]);
+
+  expect(names).toEqual(['Plans.md', 'plans 2.md', 'Plans 3.md']);
+});
+
+it(`numbers long duplicate titles after cutting them to length`, async () => {
+  const title = 'x'.repeat(120);
+  const names = await zipNames([
+    { title, content: 'a' },
+    { title, content: 'b' },
+  ]);
+
+  expect(names).toEqual([`${'x'.repeat(100)}.md`, `${'x'.repeat(100)} 2.md`]);
+});
+
+it(`keeps the suffix when the title is cut`, () => {
+  expect(exportFileName('y'.repeat(150), 'md', ' 3')).toBe(`${'y'.repeat(100)} 3.md`);
+});
@@ -1,3 +1,9 @@
+import {
+  flushOutbox,
+  getPendingMutations,
+  registerOutboxHandlers,
+  runOrEnqueue,
+} from "@/lib/outbox";
 import {
   deleteAttachmentByPublicUrl,
   listFilesInAttachmentsBucket,
@@ -6,6 +12,10 @@ import {
 
 export type { AttachmentBucketItem };
 
+registerOutboxHandlers("attachment", {
+  delete: (payload) => deleteAttachmentByPublicUrl(payload.id),
+});
+
 /**
  * List all files in the user's attachments bucket (Storage only, no note correlation).
  */
@@ -13,12 +23,23 @@ export async function listAttachments(
   userId?: string
 ): Promise<AttachmentBucketItem[]> {
   if (!userId) return [];
-  return listFilesInAttachmentsBucket(userId);
+  await flushOutbox(userId);
+  const items = await listFilesInAttachmentsBucket(userId);
+  const pendingDeletes = new Set(
+    (await getPendingMutations(userId, "attachment")).map((e) => e.payload.id)
+  );
+  return items.filter((item) => !pendingDeletes.has(item.url));
 }
 
 /**
  * Delete an attachment from the Storage bucket by its public URL.
+ * When offline, the delete is queued and replayed when back online.
  */
 export async function deleteAttachment(publicUrl: string): Promise<void> {
-  await deleteAttachmentByPublicUrl(publicUrl);
+  await runOrEnqueue(
+    null,
+    { entity: "attachment", op: "delete", payload: { id: publicUrl } },
+    () => deleteAttachmentByPublicUrl(publicUrl),
+    async () => {}
+  );
 }
@@ -0,0 +1,36 @@
+/**
+ * Private calendar feed: a secret URL other calendar apps (Google Calendar, Apple Calendar,
+ * Outlook) can subscribe to, read-only. It serves the user's events as iCalendar straight from
+ * the database (calendar_feed RPC), so it stays current without the app running.
+ */
+
+import { UI_DEV } from "@/lib/config";
+import * as supabaseCalendarFeed from "@/lib/supabase-calendar-feed";
+
+export const getCalendarFeedToken = async (): Promise<string | null> => {
+  if (UI_DEV) return null;
+  return supabaseCalendarFeed.getCalendarFeedToken();
+};
+
+/** Turn the feed on, or replace its URL (anyone subscribed to the old one stops getting updates). */
+export const rotateCalendarFeed = async (): Promise<string> => {
+  if (UI_DEV) throw new Error("Calendar feeds aren't available in UI dev mode");
+  return supabaseCalendarFeed.rotateCalendarFeed();
+};
+
+export const deleteCalendarFeed = async (userId: string): Promise<void> => {
+  if (UI_DEV) return;
+  await supabaseCalendarFeed.deleteCalendarFeed(userId);
+};
+
+/** The https URL of a feed. The public API key goes in the query, since calendar apps can't send headers. */
+export function getCalendarFeedUrl(token: string): string {
+  const base = (process.env.EXPO_PUBLIC_SUPABASE_URL ?? "").replace(/\/+$/, "");
+  const apiKey = process.env.EXPO_PUBLIC_SUPABASE_KEY ?? "";
+  return `${base}/rest/v1/rpc/calendar_feed?token=${encodeURIComponent(token)}&apikey=${encodeURIComponent(apiKey)}`;
+}
+
+/** The same URL as webcal://, which opens the subscribe dialog of the device's calendar app. */
+export function getCalendarFeedWebcalUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, "webcal://");
+}
@@ -1,4 +1,7 @@
+import { eventDuration, eventTimeZone, occurrenceTimes } from "@/lib/event-times";
+import { addDaysToDate, expandRecurrence, getEventRecurrence } from "@/lib/recurrence";
 import type { Event } from "@/lib/supabase";
+import { getDeviceTimeZone, timeZoneLabel, utcToZonedTime } from "@/lib/timezones";
 
 export function formatDateToLocalString(date: Date): string {
   const year = date.getFullYear();
@@ -23,8 +26,45 @@ export function formatDateDisplay(dateString: string): string {
 }
 
 export interface ExpandedEvent extends Event {
+  /** The occurrence's date in its series (in the event's time zone); what exdates and overrides refer to. */
   instanceDate: string;
   isRecurring: boolean;
+  /** This occurrence's start and end. `event_date` holds the start as local wall-clock time. */
+  start: Date;
+  end: Date;
+  /** First and last local day ("YYYY-MM-DD") the occurrence covers. */
+  startDay: string;
+  endDay: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatLocalDateTime(date: Date): string {
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+  return `${formatDateToLocalString(date)}T${time}`;
+}
+
+function toInstance(event: Event, occurrenceDate: string, isRecurring: boolean): ExpandedEvent {
+  const { start, end } = occurrenceTimes(event, occurrenceDate);
+  // The last day is the one holding the moment before the end; an event with no length stays on its day
+  const last = end.getTime() > start.getTime() ? new Date(end.getTime() - 1) : start;
+  return {
+    ...event,
+    event_date: formatLocalDateTime(start),
+    instanceDate: occurrenceDate,
+    isRecurring,
+    start,
+    end,
+    startDay: formatDateToLocalString(start),
+    endDay: formatDateToLocalString(last),
+  };
+}
+
+/** Whether the occurrence covers the local day `date` ("YYYY-MM-DD"). */
+export function occursOnDate(event: ExpandedEvent, date: string): boolean {
+  return event.startDay <= date && event.endDay >= date;
 }
 
 function generateRecurringInstances(
@@ -32,105 +72,29 @@ function generateRecurringInstances(
   startDate: Date,
   endDate: Date
 ): ExpandedEvent[] {
-  const instances: ExpandedEvent[] = [];
-  const repeatInterval = event.repeat_interval || "once";
-
-  if (repeatInterval === "once") {
-    const eventDate = parseLocalDate(event.event_date.split("T")[0]);
-    if (eventDate >= startDate && eventDate <= endDate) {
-      instances.push({
-        ...event,
-        instanceDate: event.event_date.split("T")[0],
-        isRecurring: false,
-      });
-    }
-    return instances;
-  }
-
-  const originalDate = parseLocalDate(event.event_date.split("T")[0]);
-  const timePart = event.event_date.includes("T") ? event.event_date.split("T")[1] : "00:00:00";
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const rule = getEventRecurrence(event);
+  const eventDay = event.event_date.split("T")[0];
+  const from = formatDateToLocalString(startDate);
+  const to = formatDateToLocalString(endDate);
+  const overlaps = (instance: ExpandedEvent) => instance.endDay >= from && instance.startDay <= to;
 
-  if (originalDate >= startDate && originalDate < today) {
-    const dateStr = formatDateToLocalString(originalDate);
-    const instanceDateTime = `${dateStr}T${timePart}`;
-    instances.push({
-      ...event,
-      event_date: instanceDateTime,
-      instanceDate: dateStr,
-      isRecurring: true,
-    });
+  if (!rule) {
+    const instance = toInstance(event, eventDay, false);
+    return overlaps(instance) ? [instance] : [];
   }
 
-  let currentDate = new Date(originalDate);
-
-  if (currentDate < today) {
-    if (repeatInterval === "daily") {
-      const daysDiff = Math.floor((today.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-      currentDate = new Date(originalDate);
-      currentDate.setDate(currentDate.getDate() + daysDiff);
-    } else if (repeatInterval === "weekly") {
-      const weeksDiff = Math.floor((today.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-      currentDate = new Date(originalDate);
-      currentDate.setDate(currentDate.getDate() + weeksDiff * 7);
-    } else if (repeatInterval === "monthly") {
-      const monthsDiff =
-        (today.getFullYear() - currentDate.getFullYear()) * 12 +
-        (today.getMonth() - currentDate.getMonth());
-      currentDate = new Date(originalDate);
-      currentDate.setMonth(currentDate.getMonth() + monthsDiff);
-    } else if (repeatInterval === "yearly") {
-      const yearsDiff = today.getFullYear() - currentDate.getFullYear();
-      currentDate = new Date(originalDate);
-      currentDate.setFullYear(currentDate.getFullYear() + yearsDiff);
-    }
-
-    while (currentDate < today) {
-      if (repeatInterval === "daily") {
-        currentDate.setDate(currentDate.getDate() + 1);
-      } else if (repeatInterval === "weekly") {
-        currentDate.setDate(currentDate.getDate() + 7);
-      } else if (repeatInterval === "monthly") {
-        currentDate.setMonth(currentDate.getMonth() + 1);
-      } else if (repeatInterval === "yearly") {
-        currentDate.setFullYear(currentDate.getFullYear() + 1);
-      }
-    }
-  }
-
-  const maxEndDate = new Date(today);
-  maxEndDate.setFullYear(maxEndDate.getFullYear() + 1);
-  const actualEndDate = endDate < maxEndDate ? endDate : maxEndDate;
-
-  let instanceCount = 0;
-  const maxInstances = 500;
-
-  while (currentDate <= actualEndDate && instanceCount < maxInstances) {
-    const dateStr = formatDateToLocalString(currentDate);
-    const instanceDateTime = `${dateStr}T${timePart}`;
-
-    instances.push({
-      ...event,
-      event_date: instanceDateTime,
-      instanceDate: dateStr,
-      isRecurring: true,
-    });
-
-    if (repeatInterval === "daily") {
-      currentDate.setDate(currentDate.getDate() + 1);
-    } else if (repeatInterval === "weekly") {
-      currentDate.setDate(currentDate.getDate() + 7);
-    } else if (repeatInterval === "monthly") {
-      currentDate.setMonth(currentDate.getMonth() + 1);
-    } else if (repeatInterval === "yearly") {
-      currentDate.setFullYear(currentDate.getFullYear() + 1);
-    }
-
-    instanceCount++;
-  }
-
-  return instances;
+  // Occurrence dates are in the event's zone, a day off local ones at most; ones that start
+  // before the range can still run into it
+  const spanDays = Math.ceil(eventDuration(event) / DAY_MS);
+  return expandRecurrence(
+    rule,
+    eventDay,
+    addDaysToDate(from, -(spanDays + 1)),
+    addDaysToDate(to, 1),
+    event.exdates ?? []
+  )
+    .map((dateStr) => toInstance(event, dateStr, true))
+    .filter(overlaps);
 }
 
 export function expandEventsIntoInstances(
@@ -146,18 +110,134 @@ export function expandEventsIntoInstances(
   return expandedEvents;
 }
 
+/** All-day occurrences first, then by start time. */
+export function compareEventInstances(a: ExpandedEvent, b: ExpandedEvent): number {
+  if (!!a.all_day !== !!b.all_day) return a.all_day ? -1 : 1;
+  return a.start.getTime() - b.start.getTime();
+}
+
+/** Whether an occurrence is drawn as a bar across days in the month grid rather than as a dot. */
+export function isSpanningEvent(event: ExpandedEvent): boolean {
+  return !!event.all_day || event.startDay !== event.endDay;
+}
+
+export interface WeekBar {
+  event: ExpandedEvent;
+  startCol: number;
+  endCol: number;
+  lane: number;
+  /** The occurrence starts before / ends after this week (or month), so that end isn't rounded. */
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+/**
+ * Bars for a row of day columns (`week`, null for cells outside the month): each occurrence
+ * clipped to the row's days, packed into lanes, longest first. Bars that don't fit in `maxLanes`
+ * are counted per column in `hidden`.
+ */
+export function layoutWeekBars(
+  week: (Date | null)[],
+  events: ExpandedEvent[],
+  maxLanes: number
+): { bars: WeekBar[]; hidden: number[] } {
+  const days = week.map((date) => (date ? formatDateToLocalString(date) : null));
+  const segments = events
+    .map((event) => {
+      const cols = days
+        .map((day, col) => (day && day >= event.startDay && day <= event.endDay ? col : -1))
+        .filter((col) => col >= 0);
+      if (cols.length === 0) return null;
+      const startCol = cols[0];
+      const endCol = cols[cols.length - 1];
+      return {
+        event,
+        startCol,
+        endCol,
+        continuesBefore: event.startDay < days[startCol]!,
+        continuesAfter: event.endDay > days[endCol]!,
+      };
+    })
+    .filter((segment): segment is Omit<WeekBar, "lane"> => segment !== null)
+    .sort((a, b) => a.startCol - b.startCol || b.endCol - b.startCol - (a.endCol - a.startCol));
+
+  const laneEnds: number[] = [];
+  const bars: WeekBar[] = [];
+  const hidden = week.map(() => 0);
+  for (const segment of segments) {
+    let lane = laneEnds.findIndex((end) => end < segment.startCol);
+    if (lane === -1 && laneEnds.length < maxLanes) lane = laneEnds.length;
+    if (lane === -1) {
+      for (let col = segment.startCol; col <= segment.endCol; col++) hidden[col]++;
+      continue;
+    }
+    laneEnds[lane] = segment.endCol;
+    bars.push({ ...segment, lane });
+  }
+  return { bars, hidden };
+}
+
+/** Whether an occurrence goes in the all-day row of the week and day views rather than the time grid. */
+export function isAllDayRowEvent(event: ExpandedEvent): boolean {
+  return !!event.all_day || event.end.getTime() - event.start.getTime() >= DAY_MS;
+}
+
+export interface TimedEventLayout {
+  event: ExpandedEvent;
+  /** Minutes from midnight, clipped to the day. */
+  startMinute: number;
+  endMinute: number;
+  /** Side-by-side slot among the events it overlaps, out of `columns`. */
+  column: number;
+  columns: number;
+}
+
+/**
+ * Places the timed occurrences on local day `date` ("YYYY-MM-DD") in a time grid: overlapping
+ * events share the width in columns, and every event in a group of overlapping ones gets the
+ * group's column count. Events shorter than `minMinutes` take that much room.
+ */
+export function layoutDayEvents(events: ExpandedEvent[], date: string, minMinutes = 15): TimedEventLayout[] {
+  const minuteOf = (d: Date) => d.getHours() * 60 + d.getMinutes();
+  const placed = events
+    .filter((event) => !isAllDayRowEvent(event) && occursOnDate(event, date))
+    .map((event) => {
+      const startMinute = event.startDay < date ? 0 : minuteOf(event.start);
+      // Ending at or after the next midnight runs to the bottom of the day
+      const endMinute = formatDateToLocalString(event.end) > date ? 24 * 60 : minuteOf(event.end);
+      return {
+        event,
+        startMinute,
+        endMinute: Math.min(24 * 60, Math.max(endMinute, startMinute + minMinutes)),
+        column: 0,
+        columns: 1,
+      };
+    })
+    .sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+
+  let group: TimedEventLayout[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    for (const item of group) item.columns = columnEnds.length;
+    group = [];
+    columnEnds = [];
+  };
+  for (const item of placed) {
+    if (item.startMinute >= groupEnd) closeGroup();
+    let column = columnEnds.findIndex((end) => end <= item.startMinute);
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = item.endMinute;
+    item.column = column;
+    group.push(item);
+    groupEnd = Math.max(groupEnd, item.endMinute);
+  }
+  closeGroup();
+  return placed;
+}
+
 function sortEventsByTime(list: ExpandedEvent[]): ExpandedEvent[] {
-  return [...list].sort((a, b) => {
-    const timeA =
-      a.event_date.includes("T") && a.event_date.split("T")[1]
-        ? a.event_date.split("T")[1].substring(0, 5)
-        : "00:00";
-    const timeB =
-      b.event_date.includes("T") && b.event_date.split("T")[1]
-        ? b.event_date.split("T")[1].substring(0, 5)
-        : "00:00";
-    return timeA.localeCompare(timeB);
-  });
+  return [...list].sort(compareEventInstances);
 }
 
 /** Returns today's events (expanded for recurring), sorted by time. */
@@ -168,8 +248,7 @@ export function getTodaysEvents(events: Event[]): ExpandedEvent[] {
   todayEnd.setHours(23, 59, 59, 999);
   const expanded = expandEventsIntoInstances(events, today, todayEnd);
   const todayStr = formatDateToLocalString(today);
-  const forToday = expanded.filter((e) => (e.instanceDate || e.event_date.split("T")[0]) === todayStr);
-  return sortEventsByTime(forToday);
+  return sortEventsByTime(expanded.filter((e) => occursOnDate(e, todayStr)));
 }
 
 /** Returns today's and tomorrow's events (expanded for recurring), each sorted by time. */
@@ -186,14 +265,53 @@ export function getTodaysAndTomorrowsEvents(events: Event[]): {
   const expanded = expandEventsIntoInstances(events, today, tomorrowEnd);
   const todayStr = formatDateToLocalString(today);
   const tomorrowStr = formatDateToLocalString(tomorrow);
-  const forToday = expanded.filter((e) => (e.instanceDate || e.event_date.split("T")[0]) === todayStr);
-  const forTomorrow = expanded.filter((e) => (e.instanceDate || e.event_date.split("T")[0]) === tomorrowStr);
   return {
-    today: sortEventsByTime(forToday),
-    tomorrow: sortEventsByTime(forTomorrow),
+    today: sortEventsByTime(expanded.filter((e) => occursOnDate(e, todayStr))),
+    tomorrow: sortEventsByTime(expanded.filter((e) => occursOnDate(e, tomorrowStr))),
   };
 }
 
+/** "2:30 PM" for a local time. */
+export function formatTime12Hour(date: Date): string {
+  const hours = date.getHours();
+  const period = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+  return `${displayHours}:${String(date.getMinutes()).padStart(2, "0")} ${period}`;
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+/**
+ * When an occurrence happens, in local time: "2:30 PM – 3:30 PM", "All day", "Oct 19 – Oct 21"
+ * or "Oct 19, 10:00 PM – Oct 20, 2:00 AM".
+ */
+export function formatEventTimeRange(event: ExpandedEvent): string {
+  if (event.all_day) {
+    if (event.startDay === event.endDay) return "All day";
+    return `${formatShortDate(parseLocalDate(event.startDay))} – ${formatShortDate(parseLocalDate(event.endDay))}`;
+  }
+  const start = formatTime12Hour(event.start);
+  const end = formatTime12Hour(event.end);
+  if (event.startDay === event.endDay) return event.end > event.start ? `${start} – ${end}` : start;
+  return `${formatShortDate(event.start)}, ${start} – ${formatShortDate(event.end)}, ${end}`;
+}
+
+/**
+ * The start in the event's own time zone when that isn't the device's, e.g. "9:00 AM Berlin (GMT+2)";
+ * null when they match or for all-day events.
+ */
+export function formatEventOriginalTime(event: ExpandedEvent): string | null {
+  if (event.all_day || !event.timezone) return null;
+  const zone = eventTimeZone(event);
+  if (zone === getDeviceTimeZone()) return null;
+  const wallClock = utcToZonedTime(event.start, zone);
+  const [h, m] = wallClock.split("T")[1].split(":").map(Number);
+  const time = formatTime12Hour(new Date(2000, 0, 1, h, m));
+  return `${time} ${timeZoneLabel(zone, event.start)}`;
+}
+
 /** Format event time from event_date (e.g. "14:30"). */
 export function formatEventTime(eventDate: string): string {
   if (eventDate.includes("T") && eventDate.split("T")[1]) {
@@ -0,0 +1,53 @@
+/**
+ * Calendar export: all events, or the ones in a date range, as an iCalendar (`.ics`) file.
+ * Saving/sharing the file is platform-specific (export-file / export-file.web).
+ */
+
+import { saveExportFile } from "@/lib/export-file";
+import { eventsToIcs } from "@/lib/ics";
+import { expandRecurrence, getEventRecurrence } from "@/lib/recurrence";
+import type { Event } from "@/lib/supabase";
+
+export const ICS_MIME_TYPE = "text/calendar";
+
+/** "YYYY-MM-DD" range, both ends included. */
+export type EventExportRange = { from: string; to: string };
+
+function occursInRange(event: Event, { from, to }: EventExportRange): boolean {
+  const start = event.event_date.split("T")[0];
+  const rule = getEventRecurrence(event);
+  if (!rule) return start >= from && start <= to;
+  return expandRecurrence(rule, start, from, to, event.exdates ?? []).length > 0;
+}
+
+/**
+ * Events with an occurrence in the range. A repeating event is exported whole (with its rule),
+ * together with its edited occurrences, so the calendar that imports it can expand it.
+ */
+export function eventsInRange(events: Event[], range: EventExportRange): Event[] {
+  const keep = new Set<string>();
+  for (const event of events) {
+    if (!occursInRange(event, range)) continue;
+    keep.add(event.id);
+    if (event.recurrence_id) keep.add(event.recurrence_id);
+  }
+  return events.filter((e) => keep.has(e.id) || (e.recurrence_id != null && keep.has(e.recurrence_id)));
+}
+
+export function eventExportFileName(range?: EventExportRange): string {
+  return range ? `Calendar ${range.from} to ${range.to}.ics` : "Calendar.ics";
+}
+
+/** Save or share the events (all of them, or those in `range`) as an .ics file; returns how many. */
+export async function exportEvents(events: Event[], range?: EventExportRange): Promise<number> {
+  const selected = range ? eventsInRange(events, range) : events;
+  if (selected.length === 0) {
+    throw new Error(range ? "No events in this date range" : "No events to export");
+  }
+  await saveExportFile({
+    fileName: eventExportFileName(range),
+    mimeType: ICS_MIME_TYPE,
+    text: eventsToIcs(selected),
+  });
+  return selected.length;
+}
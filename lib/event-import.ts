@@ -0,0 +1,167 @@
+/**
+ * Import events from iCalendar (`.ics`) files exported by other calendar apps.
+ *
+ * Repeating events keep their RRULE and skipped dates (EXDATE). An occurrence the other app
+ * edited on its own (RECURRENCE-ID) is skipped in its series and imported as an override, and a
+ * cancelled one is only skipped. Events already in the calendar (same title, start and rule) are
+ * left out, so importing a file twice, or re-importing an export, doesn't duplicate anything.
+ *
+ * Events are created one at a time through the regular events API, so an import works offline.
+ */
+
+import { DEFAULT_EVENT_DURATION_MS, eventTimestamps } from "@/lib/event-times";
+import { createEvent, listEvents } from "@/lib/events";
+import { parseIcs, type IcsEvent } from "@/lib/ics";
+import {
+  readPickedText,
+  type ImportIssue,
+  type ImportProgress,
+  type PickedImportFile,
+} from "@/lib/note-import";
+import { formatRRule, parseRRule, repeatIntervalForRule } from "@/lib/recurrence";
+import type { Event } from "@/lib/supabase";
+import { getDeviceTimeZone, utcToZonedTime } from "@/lib/timezones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EventImportReport = {
+  imported: number;
+  failed: ImportIssue[];
+  skipped: ImportIssue[];
+  /** Imported, but not exactly as in the file (a repeat rule this app can't follow). */
+  changed: ImportIssue[];
+};
+
+const ICS_FILE_RE = /\.(ics|ical|icalendar)$/i;
+
+/** What makes two events the same for duplicate detection. */
+function eventKey(event: Pick<Event, "title" | "event_date" | "rrule">): string {
+  return [event.title.trim().toLowerCase(), event.event_date.slice(0, 16), event.rrule ?? ""].join("|");
+}
+
+/** The day a UTC UNTIL ("…T215959Z") falls on in `timeZone`, or null if UNTIL isn't in UTC. */
+function untilInZone(rrule: string, timeZone: string): string | null {
+  const match = rrule.match(/UNTIL=(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z/i);
+  if (!match) return null;
+  const [y, mo, d, h, mi, sec] = match.slice(1).map(Number);
+  return utcToZonedTime(new Date(Date.UTC(y, mo - 1, d, h, mi, sec)), timeZone).split("T")[0];
+}
+
+function issuePath(fileName: string, event: IcsEvent): string {
+  return `${fileName}: ${event.title || "Untitled Event"} (${event.start.split("T")[0]})`;
+}
+
+export async function importEvents(
+  userId: string,
+  files: PickedImportFile[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<EventImportReport> {
+  const report: EventImportReport = { imported: 0, failed: [], skipped: [], changed: [] };
+  const existing = new Set((await listEvents(userId)).map(eventKey));
+
+  const parsed: { fileName: string; events: IcsEvent[] }[] = [];
+  for (const file of files) {
+    try {
+      const text = await readPickedText(file);
+      if (!ICS_FILE_RE.test(file.name) && !/^\s*BEGIN:VCALENDAR/i.test(text)) {
+        report.skipped.push({ path: file.name, message: "Not an iCalendar (.ics) file" });
+        continue;
+      }
+      const events = parseIcs(text);
+      if (events.length === 0) {
+        report.skipped.push({ path: file.name, message: "No events in this file" });
+        continue;
+      }
+      parsed.push({ fileName: file.name, events });
+    } catch (e) {
+      report.failed.push({ path: file.name, message: e instanceof Error ? e.message : "Couldn't read the file" });
+    }
+  }
+
+  const total = parsed.reduce((sum, { events }) => sum + events.length, 0);
+  let done = 0;
+
+  for (const { fileName, events } of parsed) {
+    // Overrides are matched to their series by UID, within the same file
+    const overrides = new Map<string, IcsEvent[]>();
+    for (const event of events) {
+      if (event.uid && event.recurrenceDate) {
+        overrides.set(event.uid, [...(overrides.get(event.uid) ?? []), event]);
+      }
+    }
+    const seriesByUid = new Map<string, Event>();
+
+    const importOne = async (event: IcsEvent, series?: Event) => {
+      onProgress?.({ done, total, current: event.title || "Untitled Event" });
+      done++;
+      if (event.cancelled) {
+        if (!series) report.skipped.push({ path: issuePath(fileName, event), message: "Cancelled" });
+        return;
+      }
+
+      // Floating times are taken as the device's; events with no end last a day or an hour
+      const timeZone = event.timeZone ?? getDeviceTimeZone();
+      const duration = event.duration ?? (event.allDay ? DAY_MS : DEFAULT_EVENT_DURATION_MS);
+
+      let rrule: string | null = null;
+      if (event.rrule && !series) {
+        const rule = parseRRule(event.rrule);
+        if (rule) {
+          if (rule.until && !event.allDay) rule.until = untilInZone(event.rrule, timeZone) ?? rule.until;
+          rrule = formatRRule(rule);
+        } else {
+          report.changed.push({
+            path: issuePath(fileName, event),
+            message: `Repeat rule not supported (${event.rrule}); imported as a single event`,
+          });
+        }
+      }
+
+      const ownOverrides = rrule && event.uid ? (overrides.get(event.uid) ?? []) : [];
+      const exdates = [...new Set([...event.exdates, ...ownOverrides.map((o) => o.recurrenceDate!)])].sort();
+      const input = {
+        user_id: userId,
+        title: event.title || "Untitled Event",
+        description: event.description,
+        event_date: event.start,
+        all_day: event.allDay,
+        timezone: timeZone,
+        ...eventTimestamps(event.start, { allDay: event.allDay, timeZone, duration }),
+        repeat_interval: repeatIntervalForRule(rrule ? parseRRule(rrule) : null),
+        rrule,
+        exdates: rrule ? exdates : [],
+        recurrence_id: series?.id ?? null,
+        recurrence_date: series ? event.recurrenceDate : null,
+      };
+
+      const key = eventKey(input);
+      if (existing.has(key)) {
+        report.skipped.push({ path: issuePath(fileName, event), message: "Already in your calendar" });
+        return;
+      }
+      try {
+        const created = await createEvent(input);
+        existing.add(key);
+        report.imported++;
+        if (rrule && event.uid) seriesByUid.set(event.uid, created);
+      } catch (e) {
+        report.failed.push({
+          path: issuePath(fileName, event),
+          message: e instanceof Error ? e.message : "Couldn't create the event",
+        });
+      }
+    };
+
+    for (const event of events) {
+      if (!event.recurrenceDate) await importOne(event);
+    }
+    for (const event of events) {
+      if (!event.recurrenceDate) continue;
+      const series = event.uid ? seriesByUid.get(event.uid) : undefined;
+      // Without its series (not in the file, or already imported) an override is a one-off event
+      await importOne(event, series);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,114 @@
+/**
+ * Event reminders: which notifications should be scheduled for the events the app knows about.
+ *
+ * An event's `reminders` are minutes before each occurrence's start. All-day occurrences have no
+ * start time, so theirs count back from 9 AM on the first day: 0 is that morning, 1440 the
+ * morning before. Only the next few days' reminders are scheduled at a time (iOS keeps at most
+ * 64 pending notifications), and the schedule is rebuilt from the event list whenever it changes,
+ * so recurring events roll forward and edits made on other devices replace what was scheduled.
+ */
+
+import {
+  expandEventsIntoInstances,
+  formatEventTimeRange,
+  type ExpandedEvent,
+} from "@/lib/calendar-utils";
+import type { Event } from "@/lib/supabase";
+
+/** How far ahead reminders are scheduled. */
+export const REMINDER_HORIZON_DAYS = 14;
+
+/** At most this many reminders are scheduled at once, the soonest first. */
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+/** Every reminder notification's id starts with this, telling them apart from other notifications. */
+export const REMINDER_ID_PREFIX = "reminder:";
+
+/** Local time all-day reminders count back from, in minutes after midnight. */
+const ALL_DAY_REMINDER_MINUTE = 9 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440, 2880, 10080];
+export const ALL_DAY_REMINDER_OPTIONS = [0, 1440, 2880, 10080];
+
+/** One notification to show: `id` stays the same for the same reminder of the same occurrence. */
+export interface ScheduledReminder {
+  id: string;
+  eventId: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+}
+
+/** "10 minutes before", "1 day before", "At time of event"; all-day ones say when on the day. */
+export function reminderLabel(minutes: number, allDay = false): string {
+  if (allDay) {
+    if (minutes === 0) return "On the day at 9 AM";
+    if (minutes % 1440 === 0) return `${reminderLabel(minutes)} at 9 AM`;
+  }
+  if (minutes === 0) return "At time of event";
+  const units: [number, string][] = [
+    [10080, "week"],
+    [1440, "day"],
+    [60, "hour"],
+    [1, "minute"],
+  ];
+  const [size, unit] = units.find(([size]) => minutes % size === 0) ?? [1, "minute"];
+  const count = minutes / size;
+  return `${count} ${unit}${count === 1 ? "" : "s"} before`;
+}
+
+/** Unique, non-negative offsets, soonest to the event first. */
+export function normalizeReminders(reminders: number[] | null | undefined): number[] {
+  return [...new Set((reminders ?? []).filter((m) => Number.isInteger(m) && m >= 0))].sort((a, b) => a - b);
+}
+
+/** When the reminder `minutes` before `instance` goes off. */
+export function reminderFireTime(instance: ExpandedEvent, minutes: number): Date {
+  if (instance.all_day) {
+    // Counted on the local calendar, so a reminder days before still goes off at 9 AM across DST changes
+    const day = instance.start;
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, ALL_DAY_REMINDER_MINUTE - minutes);
+  }
+  return new Date(instance.start.getTime() - minutes * 60000);
+}
+
+function reminderBody(instance: ExpandedEvent): string {
+  const day = instance.start.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+  return `${day} · ${formatEventTimeRange(instance)}`;
+}
+
+/** Reminders that go off after `now` and within the next REMINDER_HORIZON_DAYS, soonest first. */
+export function upcomingReminders(events: Event[], now = new Date()): ScheduledReminder[] {
+  const withReminders = events.filter((event) => normalizeReminders(event.reminders).length > 0);
+  if (withReminders.length === 0) return [];
+
+  const horizon = new Date(now.getTime() + REMINDER_HORIZON_DAYS * DAY_MS);
+  // Occurrences up to the longest offset past the horizon can still have a reminder inside it
+  const longest = Math.max(...withReminders.flatMap((event) => normalizeReminders(event.reminders)));
+  const until = new Date(horizon.getTime() + longest * 60000 + DAY_MS);
+
+  const reminders: ScheduledReminder[] = [];
+  for (const instance of expandEventsIntoInstances(withReminders, now, until)) {
+    for (const minutes of normalizeReminders(instance.reminders)) {
+      const fireAt = reminderFireTime(instance, minutes);
+      if (fireAt <= now || fireAt > horizon) continue;
+      reminders.push({
+        id: `${REMINDER_ID_PREFIX}${instance.id}:${instance.instanceDate}:${minutes}`,
+        eventId: instance.id,
+        title: instance.title || "Untitled Event",
+        body: reminderBody(instance),
+        fireAt,
+      });
+    }
+  }
+  return reminders
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+}
+
+/** What a scheduled reminder shows and when; a changed signature means it must be rescheduled. */
+export function reminderSignature(reminder: ScheduledReminder): string {
+  return `${reminder.fireAt.getTime()}|${reminder.title}|${reminder.body}`;
+}
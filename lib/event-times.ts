@@ -0,0 +1,66 @@
+/**
+ * When an event (or one occurrence of it) starts and ends.
+ *
+ * `event_date` is the start's wall-clock time in the event's own time zone, and what recurrence
+ * expands from: every occurrence starts at that same local time in that zone, so a 09:00 meeting
+ * in Berlin stays at 09:00 Berlin time across DST changes, wherever it is viewed from.
+ * `start_at`/`end_at` are the first occurrence's UTC instants; their difference is each
+ * occurrence's length. All-day events are dates, not instants: they start at local midnight
+ * wherever they are viewed, and `start_at`/`end_at` hold UTC midnights of the first day and the
+ * day after the last.
+ *
+ * Events saved before times were stored have no zone (their wall clock is the device's) and no end.
+ */
+
+import { getDeviceTimeZone, zonedTimeToUtc } from "@/lib/timezones";
+import type { Event } from "@/lib/supabase";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Length of an event with no end time. */
+export const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+type EventTimeFields = Pick<Event, "event_date" | "start_at" | "end_at" | "all_day" | "timezone">;
+
+/** The zone an event's wall-clock times are in. */
+export function eventTimeZone(event: Pick<Event, "timezone">): string {
+  return event.timezone || getDeviceTimeZone();
+}
+
+/** How long each occurrence lasts, in ms; whole days for all-day events. */
+export function eventDuration(event: Pick<Event, "start_at" | "end_at" | "all_day">): number {
+  if (event.start_at && event.end_at) {
+    const duration = Date.parse(event.end_at) - Date.parse(event.start_at);
+    if (duration >= 0) return event.all_day ? Math.max(1, Math.round(duration / DAY_MS)) * DAY_MS : duration;
+  }
+  return event.all_day ? DAY_MS : DEFAULT_EVENT_DURATION_MS;
+}
+
+/**
+ * `start_at` and `end_at` for an event starting at `eventDate` (wall clock in `timeZone`; only
+ * the date counts for all-day events) and lasting `duration` ms.
+ */
+export function eventTimestamps(
+  eventDate: string,
+  { allDay, timeZone, duration }: { allDay: boolean; timeZone: string | null; duration: number }
+): { start_at: string; end_at: string } {
+  const start = allDay
+    ? Date.parse(`${eventDate.split("T")[0]}T00:00:00Z`)
+    : zonedTimeToUtc(eventDate, timeZone || getDeviceTimeZone()).getTime();
+  return { start_at: new Date(start).toISOString(), end_at: new Date(start + duration).toISOString() };
+}
+
+/**
+ * Start and end of the occurrence on `occurrenceDate` (a date in the event's zone). All-day
+ * occurrences run from local midnight to the midnight after their last day.
+ */
+export function occurrenceTimes(event: EventTimeFields, occurrenceDate: string): { start: Date; end: Date } {
+  const duration = eventDuration(event);
+  if (event.all_day) {
+    const [y, m, d] = occurrenceDate.split("-").map(Number);
+    return { start: new Date(y, m - 1, d), end: new Date(y, m - 1, d + Math.round(duration / DAY_MS)) };
+  }
+  const time = event.event_date.includes("T") ? event.event_date.split("T")[1] : "00:00:00";
+  const start = zonedTimeToUtc(`${occurrenceDate}T${time}`, eventTimeZone(event));
+  return { start, end: new Date(start.getTime() + duration) };
+}
@@ -1,17 +1,70 @@
 import { UI_DEV } from "@/lib/config";
+import { eventDuration, eventTimestamps } from "@/lib/event-times";
 import { getCachedEvents, setCachedEvents } from "@/lib/events-cache";
 import * as mockEvents from "@/lib/mock-events";
-import type { Event } from "@/lib/supabase";
+import {
+  createTempId,
+  flushOutbox,
+  getPendingMutations,
+  getSessionUserId,
+  registerOutboxHandlers,
+  runOrEnqueue,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import {
+  addDaysToDate,
+  countOccurrencesBefore,
+  daysBetweenDates,
+  formatRRule,
+  getEventRecurrence,
+} from "@/lib/recurrence";
+import type { Event, EventInput, EventUpdates } from "@/lib/supabase";
 import * as supabaseEvents from "@/lib/supabase-events";
 
+registerOutboxHandlers("event", {
+  create: async (payload, userId) => {
+    const event = await supabaseEvents.createEvent(payload.input);
+    await replaceCachedEvent(userId, payload.tempId, event);
+    return event.id;
+  },
+  update: async (payload) => {
+    await supabaseEvents.updateEvent(payload.id, payload.updates);
+  },
+  delete: (payload) => supabaseEvents.deleteEvent(payload.id),
+});
+
+/** Replace (or with null, remove) one event in the cached list. */
+async function replaceCachedEvent(userId: string, id: string, event: Event | null): Promise<void> {
+  const cached = await getCachedEvents(userId);
+  const rest = cached.filter((e) => e.id !== id);
+  await setCachedEvents(userId, event ? [...rest, event] : rest);
+}
+
+/** Apply queued event writes to a freshly fetched list so they show until replayed. */
+function withPendingEventOps(events: Event[], pending: OutboxEntry[]): Event[] {
+  let result = [...events];
+  for (const { op, payload } of pending) {
+    if (op === "create") {
+      result.push(payload.event);
+    } else if (op === "update") {
+      result = result.map((e) => (e.id === payload.id ? { ...e, ...payload.updates } : e));
+    } else if (op === "delete") {
+      result = result.filter((e) => e.id !== payload.id);
+    }
+  }
+  return result;
+}
+
 // Unified events API. When offline, returns full cached event list so calendar can show all events (including current month).
 export const listEvents = async (userId?: string): Promise<Event[]> => {
   if (UI_DEV) {
     return mockEvents.listEvents(userId);
   }
   if (!userId) return [];
+  await flushOutbox(userId);
   try {
-    const events = await supabaseEvents.listEvents(userId);
+    const fetched = await supabaseEvents.listEvents(userId);
+    const events = withPendingEventOps(fetched, await getPendingMutations(userId, "event"));
     await setCachedEvents(userId, events);
     return events;
   } catch {
@@ -26,29 +79,63 @@ export const getEventById = async (id: string): Promise<Event | null> => {
   return supabaseEvents.getEventById(id);
 };
 
-export const createEvent = async (input: {
-  user_id: string;
-  title: string;
-  description: string;
-  event_date: string;
-  repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-}): Promise<Event> => {
+export const createEvent = async (input: EventInput): Promise<Event> => {
   if (UI_DEV) {
     return mockEvents.createEvent(input);
   }
-  return supabaseEvents.createEvent(input);
+  const tempId = createTempId();
+  const now = new Date().toISOString();
+  const event: Event = {
+    id: tempId,
+    user_id: input.user_id,
+    title: input.title || "Untitled Event",
+    description: input.description || "",
+    event_date: input.event_date,
+    repeat_interval: input.repeat_interval || "once",
+    rrule: input.rrule ?? null,
+    exdates: input.exdates ?? [],
+    recurrence_id: input.recurrence_id ?? null,
+    recurrence_date: input.recurrence_date ?? null,
+    start_at: input.start_at ?? null,
+    end_at: input.end_at ?? null,
+    all_day: input.all_day ?? false,
+    timezone: input.timezone ?? null,
+    reminders: input.reminders ?? [],
+    created_at: now,
+    updated_at: now,
+  };
+  return runOrEnqueue(
+    input.user_id,
+    { entity: "event", op: "create", payload: { tempId, input, event } },
+    () => supabaseEvents.createEvent(input),
+    async () => {
+      await replaceCachedEvent(input.user_id, tempId, event);
+      return event;
+    }
+  );
 };
 
 export const updateEvent = async (
   id: string,
-  updates: Partial<
-    Pick<Event, "title" | "description" | "event_date" | "repeat_interval">
-  >
+  updates: EventUpdates
 ): Promise<Event | null> => {
   if (UI_DEV) {
     return mockEvents.updateEvent(id, updates);
   }
-  return supabaseEvents.updateEvent(id, updates);
+  const userId = await getSessionUserId();
+  return runOrEnqueue(
+    userId,
+    { entity: "event", op: "update", payload: { id, updates } },
+    () => supabaseEvents.updateEvent(id, updates),
+    async () => {
+      if (!userId) return null;
+      const existing = (await getCachedEvents(userId)).find((e) => e.id === id);
+      if (!existing) return null;
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      await replaceCachedEvent(userId, id, updated);
+      return updated;
+    }
+  );
 };
 
 export const deleteEvent = async (id: string): Promise<void> => {
@@ -56,5 +143,148 @@ export const deleteEvent = async (id: string): Promise<void> => {
   if (UI_DEV) {
     return mockEvents.deleteEvent(id);
   }
-  return supabaseEvents.deleteEvent(id);
+  const userId = await getSessionUserId();
+  await runOrEnqueue(
+    userId,
+    { entity: "event", op: "delete", payload: { id } },
+    () => supabaseEvents.deleteEvent(id),
+    async () => {
+      if (userId) await replaceCachedEvent(userId, id, null);
+    }
+  );
+};
+
+/** Which occurrences an edit or delete made on one occurrence of a recurring event applies to. */
+export type RecurrenceScope = "this" | "following" | "all";
+
+function datePart(eventDate: string): string {
+  return eventDate.split("T")[0];
+}
+
+/** Time suffix of an event_date ("T10:00:00"), or "" for date-only values. */
+function timePart(eventDate: string): string {
+  return eventDate.includes("T") ? eventDate.slice(eventDate.indexOf("T")) : "";
+}
+
+/** start_at/end_at for `event` with `changes` applied, moved to start at `eventDate`. */
+function timesAt(event: Event, changes: EventUpdates, eventDate: string): Pick<EventUpdates, "start_at" | "end_at"> {
+  const merged = { ...event, ...changes };
+  return eventTimestamps(eventDate, {
+    allDay: !!merged.all_day,
+    timeZone: merged.timezone ?? null,
+    duration: eventDuration(merged),
+  });
+}
+
+function withExdate(exdates: string[] | null | undefined, date: string): string[] {
+  return [...new Set([...(exdates ?? []), date])].sort();
+}
+
+/**
+ * Rule and skipped dates that end `event`'s series just before `date`. A COUNT keeps counting the
+ * occurrences before the split, so the second half gets what is left of it.
+ */
+function splitSeries(event: Event, date: string): { before: EventUpdates; remainingCount?: number } {
+  const rule = getEventRecurrence(event);
+  const exdates = (event.exdates ?? []).filter((d) => d < date);
+  if (!rule) return { before: { exdates } };
+  const start = datePart(event.event_date);
+  if (rule.count) {
+    const count = countOccurrencesBefore(rule, start, date);
+    return {
+      before: { rrule: formatRRule({ ...rule, count }), exdates },
+      remainingCount: Math.max(rule.count - count, 1),
+    };
+  }
+  const until = addDaysToDate(date, -1);
+  const before = { ...rule, until: rule.until && rule.until < until ? rule.until : until };
+  return { before: { rrule: formatRRule(before), exdates } };
+}
+
+/**
+ * Save an edit made on the occurrence of `event` (the series) that falls on `instanceDate`:
+ * - "this": the occurrence is skipped in the series and saved as an event of its own
+ * - "following": the series ends before it and a new series starts from it with the edits
+ * - "all": the series is updated; moving the occurrence's date moves the whole series
+ */
+export const updateEventOccurrence = async (
+  event: Event,
+  instanceDate: string,
+  scope: RecurrenceScope,
+  updates: EventUpdates
+): Promise<void> => {
+  const seriesStart = datePart(event.event_date);
+  const newDate = updates.event_date ?? `${instanceDate}${timePart(event.event_date)}`;
+  const shift = daysBetweenDates(instanceDate, datePart(newDate));
+
+  if (scope === "this") {
+    await createEvent({
+      user_id: event.user_id,
+      title: updates.title ?? event.title,
+      description: updates.description ?? event.description,
+      event_date: newDate,
+      all_day: updates.all_day ?? event.all_day,
+      timezone: updates.timezone ?? event.timezone,
+      reminders: updates.reminders ?? event.reminders,
+      ...timesAt(event, updates, newDate),
+      repeat_interval: "once",
+      rrule: null,
+      recurrence_id: event.id,
+      recurrence_date: instanceDate,
+    });
+    await updateEvent(event.id, { exdates: withExdate(event.exdates, instanceDate) });
+    return;
+  }
+
+  const exdates = updates.exdates ?? event.exdates ?? [];
+  if (scope === "all" || instanceDate <= seriesStart) {
+    const eventDate = `${addDaysToDate(seriesStart, shift)}${timePart(newDate)}`;
+    await updateEvent(event.id, {
+      ...updates,
+      event_date: eventDate,
+      ...timesAt(event, updates, eventDate),
+      exdates: exdates.map((d) => addDaysToDate(d, shift)),
+    });
+    return;
+  }
+
+  const { before, remainingCount } = splitSeries(event, instanceDate);
+  // An unchanged rule with a COUNT continues with the occurrences the first half didn't use
+  const ruleUnchanged = updates.rrule === undefined || updates.rrule === event.rrule;
+  const rule = getEventRecurrence(event);
+  const rrule =
+    ruleUnchanged && rule && remainingCount !== undefined
+      ? formatRRule({ ...rule, count: remainingCount })
+      : ruleUnchanged
+        ? event.rrule
+        : updates.rrule;
+  await updateEvent(event.id, before);
+  await createEvent({
+    user_id: event.user_id,
+    title: updates.title ?? event.title,
+    description: updates.description ?? event.description,
+    event_date: newDate,
+    all_day: updates.all_day ?? event.all_day,
+    timezone: updates.timezone ?? event.timezone,
+    reminders: updates.reminders ?? event.reminders,
+    ...timesAt(event, updates, newDate),
+    repeat_interval: updates.repeat_interval ?? event.repeat_interval,
+    rrule: rrule ?? null,
+    exdates: exdates.filter((d) => d >= instanceDate).map((d) => addDaysToDate(d, shift)),
+  });
+};
+
+/** Delete the occurrence of `event` on `instanceDate`, it and the ones after it, or the whole series. */
+export const deleteEventOccurrence = async (
+  event: Event,
+  instanceDate: string,
+  scope: RecurrenceScope
+): Promise<void> => {
+  if (scope === "all" || (scope === "following" && instanceDate <= datePart(event.event_date))) {
+    await deleteEvent(event.id);
+  } else if (scope === "this") {
+    await updateEvent(event.id, { exdates: withExdate(event.exdates, instanceDate) });
+  } else {
+    await updateEvent(event.id, splitSeries(event, instanceDate).before);
+  }
 };
@@ -0,0 +1,49 @@
+/**
+ * Native side of note export: files are written to the cache directory and handed to the
+ * share sheet (Save to Files, Drive, Mail, ...). PDFs are rendered by expo-print.
+ * The web build uses export-file.web.ts (browser downloads and the print dialog).
+ */
+
+import * as FileSystem from "expo-file-system/legacy";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+export type ExportFile = { fileName: string; mimeType: string } & (
+  | { text: string }
+  | { base64: string }
+);
+
+async function shareFile(uri: string, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing files isn't available on this device");
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: "Export" });
+}
+
+function cacheUri(fileName: string): string {
+  if (!FileSystem.cacheDirectory) throw new Error("No cache directory available for the export");
+  return `${FileSystem.cacheDirectory}${fileName}`;
+}
+
+/** Write the file to the cache directory and open the share sheet for it. */
+export async function saveExportFile(file: ExportFile): Promise<void> {
+  const uri = cacheUri(file.fileName);
+  if ("text" in file) {
+    await FileSystem.writeAsStringAsync(uri, file.text);
+  } else {
+    await FileSystem.writeAsStringAsync(uri, file.base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+  await shareFile(uri, file.mimeType);
+}
+
+/** Render an HTML document to a PDF and share it. Scripts (Mermaid) don't run while printing. */
+export async function exportPdf(html: string, fileName: string): Promise<void> {
+  const { uri } = await Print.printToFileAsync({ html });
+  // expo-print names the file with a UUID; rename it so the shared file has the note's title.
+  const target = cacheUri(fileName);
+  await FileSystem.deleteAsync(target, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: target });
+  await shareFile(target, "application/pdf");
+}
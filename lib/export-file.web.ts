@@ -0,0 +1,64 @@
+/**
+ * Web side of note export: files are downloaded through an object URL, and PDFs go through the
+ * browser's print dialog ("Save as PDF") from a hidden iframe holding the export document.
+ */
+
+import { decode } from "base64-arraybuffer";
+
+export type ExportFile = { fileName: string; mimeType: string } & (
+  | { text: string }
+  | { base64: string }
+);
+
+/** How long to wait for diagrams and fonts in the print frame before printing anyway. */
+const PRINT_READY_TIMEOUT_MS = 5000;
+
+/** Download the file in the browser. */
+export async function saveExportFile(file: ExportFile): Promise<void> {
+  const data = "text" in file ? file.text : decode(file.base64);
+  const url = URL.createObjectURL(new Blob([data], { type: file.mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Open the print dialog for an HTML document. The browser names the PDF after the document's
+ * `<title>`, so `fileName` only matters for browsers that ignore it.
+ */
+export async function exportPdf(html: string, _fileName: string): Promise<void> {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  Object.assign(frame.style, {
+    position: "fixed",
+    right: "0",
+    bottom: "0",
+    width: "0",
+    height: "0",
+    border: "0",
+  });
+
+  await new Promise<void>((resolve) => {
+    frame.onload = () => resolve();
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+  const win = frame.contentWindow as (Window & { exportReady?: Promise<unknown> }) | null;
+  if (!win) {
+    frame.remove();
+    throw new Error("Couldn't open the print view");
+  }
+  await Promise.race([
+    Promise.all([win.exportReady, win.document.fonts?.ready]).catch(() => undefined),
+    new Promise((resolve) => setTimeout(resolve, PRINT_READY_TIMEOUT_MS)),
+  ]);
+
+  win.addEventListener("afterprint", () => frame.remove(), { once: true });
+  win.focus();
+  win.print();
+}
@@ -6,8 +6,94 @@ import {
   setCachedFiles,
 } from "@/lib/files-cache";
 import * as mockFiles from "@/lib/mock-files";
+import {
+  createTempId,
+  flushOutbox,
+  getPendingMutations,
+  getSessionUserId,
+  isTempId,
+  registerOutboxHandlers,
+  runOrEnqueue,
+  type OutboxEntry,
+} from "@/lib/outbox";
 import * as supabaseFiles from "@/lib/supabase-files";
 import type { File } from "@/lib/supabase";
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+
+/**
+ * Uploads queued offline are copied here so the picker's temp file can't disappear before replay.
+ * Queued uploads store only their temp id: on iOS the app's container path changes across updates.
+ */
+function outboxUploadsDir(): string {
+  return `${FileSystem.documentDirectory}outbox/`;
+}
+
+function outboxUploadPath(tempId: string): string {
+  return `${outboxUploadsDir()}${tempId}`;
+}
+
+registerOutboxHandlers("file", {
+  upload: async (payload, userId) => {
+    const uri = outboxUploadPath(payload.tempId);
+    const file = await supabaseFiles.uploadFile({
+      user_id: payload.user_id,
+      file: { name: payload.file.name, type: payload.file.type, size: payload.file.size, uri },
+      folder_id: payload.folder_id ?? null,
+    });
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    await patchCachedFiles(userId, payload.tempId, () => file);
+    return file.id;
+  },
+  update: async (payload) => {
+    await supabaseFiles.updateFile(payload.id, payload.updates);
+  },
+  archive: (payload) => supabaseFiles.archiveFile(payload.id),
+  restore: (payload) => supabaseFiles.restoreFile(payload.id),
+  delete: (payload) => supabaseFiles.deleteFile(payload.id, { filePath: payload.filePath }),
+});
+
+/**
+ * Rewrite one file in both cached lists. `patch` returns the new row, or null to drop it;
+ * rows land in the archived or active list according to is_archived.
+ */
+async function patchCachedFiles(
+  userId: string,
+  id: string,
+  patch: (file: File) => File | null
+): Promise<File | null> {
+  const [active, archived] = await Promise.all([
+    getCachedFiles(userId),
+    getCachedArchivedFiles(userId),
+  ]);
+  const existing = active.find((f) => f.id === id) ?? archived.find((f) => f.id === id);
+  if (!existing) return null;
+  const next = patch(existing);
+  const without = (list: File[]) => list.filter((f) => f.id !== id);
+  await Promise.all([
+    setCachedFiles(userId, next && !next.is_archived ? [next, ...without(active)] : without(active)),
+    setCachedArchivedFiles(
+      userId,
+      next && next.is_archived ? [next, ...without(archived)] : without(archived)
+    ),
+  ]);
+  return next;
+}
+
+/** Apply queued file writes to a freshly fetched list so they show until replayed. */
+function withPendingFileOps(files: File[], pending: OutboxEntry[], archived: boolean): File[] {
+  let result = [...files];
+  for (const { op, payload } of pending) {
+    if (op === "upload" && !archived) {
+      result.unshift(payload.placeholder);
+    } else if (op === "update") {
+      result = result.map((f) => (f.id === payload.id ? { ...f, ...payload.updates } : f));
+    } else if (op === "delete" || op === (archived ? "restore" : "archive")) {
+      result = result.filter((f) => f.id !== payload.id);
+    }
+  }
+  return result;
+}
 
 // Unified files API that switches between mock and Supabase based on UI_DEV config.
 // When offline, returns cached file lists so file cards can still be shown.
@@ -16,8 +102,10 @@ export const listFiles = async (userId?: string): Promise<File[]> => {
     return mockFiles.listFiles(userId);
   }
   if (!userId) return [];
+  await flushOutbox(userId);
   try {
-    const files = await supabaseFiles.listFiles(userId);
+    const fetched = await supabaseFiles.listFiles(userId);
+    const files = withPendingFileOps(fetched, await getPendingMutations(userId, "file"), false);
     await setCachedFiles(userId, files);
     return files;
   } catch {
@@ -31,7 +119,8 @@ export const listArchivedFiles = async (userId?: string): Promise<File[]> => {
   }
   if (!userId) return [];
   try {
-    const files = await supabaseFiles.listArchivedFiles(userId);
+    const fetched = await supabaseFiles.listArchivedFiles(userId);
+    const files = withPendingFileOps(fetched, await getPendingMutations(userId, "file"), true);
     await setCachedArchivedFiles(userId, files);
     return files;
   } catch {
@@ -67,7 +156,20 @@ export const updateFile = async (
   if (UI_DEV) {
     return null;
   }
-  return supabaseFiles.updateFile(id, updates);
+  const userId = await getSessionUserId();
+  return runOrEnqueue(
+    userId,
+    { entity: "file", op: "update", payload: { id, updates } },
+    () => supabaseFiles.updateFile(id, updates),
+    async () => {
+      if (!userId) return null;
+      return patchCachedFiles(userId, id, (f) => ({
+        ...f,
+        ...updates,
+        updated_at: new Date().toISOString(),
+      }));
+    }
+  );
 };
 
 export const uploadFile = async (input: {
@@ -78,25 +180,84 @@ export const uploadFile = async (input: {
     type: string;
     size: number;
   };
+  folder_id?: string | null;
 }): Promise<File> => {
   if (UI_DEV) {
     return mockFiles.uploadFile(input);
   }
-  return supabaseFiles.uploadFile(input);
+  const { file } = input;
+  if (Platform.OS === "web" || typeof file.uri !== "string") {
+    // A picked browser File can't be persisted for a later retry
+    return supabaseFiles.uploadFile(input);
+  }
+  const tempId = createTempId();
+  const now = new Date().toISOString();
+  const placeholder: File = {
+    id: tempId,
+    user_id: input.user_id,
+    name: file.name,
+    file_path: "",
+    file_size: file.size,
+    mime_type: file.type,
+    extension: file.name.split(".").pop() || "",
+    is_archived: false,
+    created_at: now,
+    updated_at: now,
+    folder_id: input.folder_id ?? null,
+  };
+  const queuedFile = { name: file.name, type: file.type, size: file.size };
+  return runOrEnqueue(
+    input.user_id,
+    {
+      entity: "file",
+      op: "upload",
+      payload: {
+        tempId,
+        user_id: input.user_id,
+        folder_id: input.folder_id ?? null,
+        file: queuedFile,
+        placeholder,
+      },
+    },
+    () => supabaseFiles.uploadFile(input),
+    async () => {
+      await FileSystem.makeDirectoryAsync(outboxUploadsDir(), { intermediates: true });
+      await FileSystem.copyAsync({ from: file.uri as string, to: outboxUploadPath(tempId) });
+      const cached = await getCachedFiles(input.user_id);
+      await setCachedFiles(input.user_id, [placeholder, ...cached]);
+      return placeholder;
+    }
+  );
 };
 
 export const archiveFile = async (id: string): Promise<void> => {
   if (UI_DEV) {
     return mockFiles.archiveFile?.(id) || Promise.resolve();
   }
-  return supabaseFiles.archiveFile(id);
+  const userId = await getSessionUserId();
+  await runOrEnqueue(
+    userId,
+    { entity: "file", op: "archive", payload: { id } },
+    () => supabaseFiles.archiveFile(id),
+    async () => {
+      if (userId) await patchCachedFiles(userId, id, (f) => ({ ...f, is_archived: true }));
+    }
+  );
 };
 
 export const restoreFile = async (id: string): Promise<void> => {
   if (UI_DEV) {
     return mockFiles.restoreFile?.(id) || Promise.resolve();
   }
-  return supabaseFiles.restoreFile(id);
+  const userId = await getSessionUserId();
+  await runOrEnqueue(
+    userId,
+    { entity: "file", op: "restore", payload: { id } },
+    () => supabaseFiles.restoreFile(id),
+    async () => {
+      if (userId) await patchCachedFiles(userId, id, (f) => ({ ...f, is_archived: false }));
+    }
+  );
 };
 
 export const deleteFile = async (
@@ -106,12 +267,28 @@ export const deleteFile = async (
   if (UI_DEV) {
     return mockFiles.deleteFile(id);
   }
-  return supabaseFiles.deleteFile(id, options);
+  const userId = await getSessionUserId();
+  await runOrEnqueue(
+    userId,
+    { entity: "file", op: "delete", payload: { id, filePath: options?.filePath } },
+    () => supabaseFiles.deleteFile(id, options),
+    async () => {
+      if (isTempId(id)) {
+        // Never uploaded: the queued upload is dropped, so drop its copy too
+        await FileSystem.deleteAsync(outboxUploadPath(id), { idempotent: true });
+      }
+      if (userId) await patchCachedFiles(userId, id, () => null);
+    }
+  );
 };
 
-export const getFileDownloadUrl = async (filePath: string): Promise<string> => {
+/** Signed URL for a stored file. `download` makes browsers save it instead of opening it inline. */
+export const getFileDownloadUrl = async (
+  filePath: string,
+  options?: { download?: boolean }
+): Promise<string> => {
   if (UI_DEV) {
     return mockFiles.getFileDownloadUrl(filePath);
   }
-  return supabaseFiles.getFileDownloadUrl(filePath);
+  return supabaseFiles.getFileDownloadUrl(filePath, options);
 };
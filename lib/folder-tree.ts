@@ -0,0 +1,76 @@
+/**
+ * Folder hierarchy helpers over a flat folder list (`parent_id` links).
+ * A folder whose parent is missing from the list (archived, deleted, not yet synced) is treated
+ * as top-level, so a broken link never hides a folder.
+ */
+
+import type { Folder } from "@/lib/supabase";
+
+export type FolderTreeItem = { folder: Folder; depth: number };
+
+function childrenByParent(folders: Folder[]): Map<string | null, Folder[]> {
+  const ids = new Set(folders.map((f) => f.id));
+  const byParent = new Map<string | null, Folder[]>();
+  for (const folder of folders) {
+    const parent = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    const siblings = byParent.get(parent);
+    if (siblings) siblings.push(folder);
+    else byParent.set(parent, [folder]);
+  }
+  return byParent;
+}
+
+/** Direct subfolders of `parentId` (null for top level). */
+export function getChildFolders(folders: Folder[], parentId: string | null): Folder[] {
+  return childrenByParent(folders).get(parentId) ?? [];
+}
+
+/** Ids of every folder below `folderId`, nearest first. */
+export function getDescendantFolderIds(folders: Folder[], folderId: string): string[] {
+  const byParent = childrenByParent(folders);
+  const result: string[] = [];
+  const seen = new Set([folderId]);
+  const queue = [folderId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const child of byParent.get(id) ?? []) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      result.push(child.id);
+      queue.push(child.id);
+    }
+  }
+  return result;
+}
+
+/** Folders from the top level down to `folderId` (inclusive), for breadcrumbs. */
+export function getFolderPath(folders: Folder[], folderId: string): Folder[] {
+  const byId = new Map(folders.map((f) => [f.id, f]));
+  const path: Folder[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/** Depth-first listing with nesting depth, siblings sorted by name. Skips `excludeId` and its subtree. */
+export function flattenFolderTree(folders: Folder[], excludeId?: string | null): FolderTreeItem[] {
+  const byParent = childrenByParent(folders);
+  const result: FolderTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const children = [...(byParent.get(parentId) ?? [])].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const folder of children) {
+      if (folder.id === excludeId) continue;
+      result.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
@@ -3,6 +3,7 @@
  * so they can be shown when offline (e.g. listFolders fails).
  */
 
+import { getDescendantFolderIds } from "@/lib/folder-tree";
 import type { Folder } from "@/lib/supabase";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
@@ -19,202 +20,50 @@ function cacheKey(key: string, userId: string): string {
 }
 
 export type PendingFolderCreate = { id: string; name: string; user_id: string };
-
-export async function getPendingCreates(userId: string): Promise<PendingFolderCreate[]> {
-  try {
-    const raw = await AsyncStorage.getItem(cacheKey(PENDING_CREATES_KEY, userId));
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as PendingFolderCreate[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-export async function addPendingCreate(
-  userId: string,
-  item: PendingFolderCreate
-): Promise<void> {
-  const list = await getPendingCreates(userId);
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_CREATES_KEY, userId),
-    JSON.stringify([...list.filter((p) => p.id !== item.id), item])
-  );
-}
-
-export async function removePendingCreate(
-  userId: string,
-  tempId: string
-): Promise<void> {
-  const list = (await getPendingCreates(userId)).filter((p) => p.id !== tempId);
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_CREATES_KEY, userId),
-    JSON.stringify(list)
-  );
-}
-
-export async function getPendingDeletes(userId: string): Promise<string[]> {
-  try {
-    const raw = await AsyncStorage.getItem(cacheKey(PENDING_DELETES_KEY, userId));
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as string[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-export async function addPendingDelete(userId: string, folderId: string): Promise<void> {
-  const list = await getPendingDeletes(userId);
-  if (list.includes(folderId)) return;
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_DELETES_KEY, userId),
-    JSON.stringify([...list, folderId])
-  );
-}
-
-export async function removePendingDelete(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = (await getPendingDeletes(userId)).filter((id) => id !== folderId);
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_DELETES_KEY, userId),
-    JSON.stringify(list)
-  );
-}
-
 export type PendingFolderUpdate = { folderId: string; name: string };
 
-export async function getPendingFolderUpdates(
-  userId: string
-): Promise<PendingFolderUpdate[]> {
-  try {
-    const raw = await AsyncStorage.getItem(cacheKey(PENDING_UPDATES_KEY, userId));
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as PendingFolderUpdate[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
-export async function addPendingFolderUpdate(
-  userId: string,
-  folderId: string,
-  name: string
-): Promise<void> {
-  const list = (await getPendingFolderUpdates(userId)).filter(
-    (u) => u.folderId !== folderId
-  );
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_UPDATES_KEY, userId),
-    JSON.stringify([...list, { folderId, name }])
-  );
-}
-
-export async function removePendingFolderUpdate(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = (await getPendingFolderUpdates(userId)).filter(
-    (u) => u.folderId !== folderId
-  );
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_UPDATES_KEY, userId),
-    JSON.stringify(list)
-  );
-}
-
-export async function getPendingArchives(userId: string): Promise<string[]> {
-  try {
-    const raw = await AsyncStorage.getItem(
-      cacheKey(PENDING_ARCHIVES_KEY, userId)
-    );
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as string[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
+export type LegacyPendingFolderOps = {
+  creates: PendingFolderCreate[];
+  updates: PendingFolderUpdate[];
+  archives: string[];
+  restores: string[];
+  deletes: string[];
+};
 
-export async function addPendingArchive(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = await getPendingArchives(userId);
-  if (list.includes(folderId)) return;
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_ARCHIVES_KEY, userId),
-    JSON.stringify([...list, folderId])
-  );
-}
-
-export async function removePendingArchive(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = (await getPendingArchives(userId)).filter((id) => id !== folderId);
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_ARCHIVES_KEY, userId),
-    JSON.stringify(list)
-  );
-}
-
-export async function getPendingRestores(userId: string): Promise<string[]> {
+async function readList<T>(key: string): Promise<T[]> {
   try {
-    const raw = await AsyncStorage.getItem(
-      cacheKey(PENDING_RESTORES_KEY, userId)
-    );
+    const raw = await AsyncStorage.getItem(key);
     if (!raw) return [];
-    const parsed = JSON.parse(raw) as string[];
+    const parsed = JSON.parse(raw) as T[];
     return Array.isArray(parsed) ? parsed : [];
   } catch {
     return [];
   }
 }
 
-export async function addPendingRestore(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = await getPendingRestores(userId);
-  if (list.includes(folderId)) return;
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_RESTORES_KEY, userId),
-    JSON.stringify([...list, folderId])
-  );
-}
-
-export async function removePendingRestore(
-  userId: string,
-  folderId: string
-): Promise<void> {
-  const list = (await getPendingRestores(userId)).filter((id) => id !== folderId);
-  await AsyncStorage.setItem(
-    cacheKey(PENDING_RESTORES_KEY, userId),
-    JSON.stringify(list)
-  );
-}
-
-/** Cached folders list with pending creates included, pending deletes excluded, and pending renames applied. */
-export async function getCachedFoldersWithPending(userId: string): Promise<Folder[]> {
-  const [cached, pendingDeletes, pendingUpdates] = await Promise.all([
-    getCachedFolders(userId),
-    getPendingDeletes(userId),
-    getPendingFolderUpdates(userId),
+/**
+ * Read and clear the pending-operation lists older versions kept per folder operation.
+ * Offline folder writes now go through the mutation outbox (lib/outbox.ts).
+ */
+export async function takeLegacyPendingFolderOps(
+  userId: string
+): Promise<LegacyPendingFolderOps> {
+  const keys = [
+    PENDING_CREATES_KEY,
+    PENDING_UPDATES_KEY,
+    PENDING_ARCHIVES_KEY,
+    PENDING_RESTORES_KEY,
+    PENDING_DELETES_KEY,
+  ].map((key) => cacheKey(key, userId));
+  const [creates, updates, archives, restores, deletes] = await Promise.all([
+    readList<PendingFolderCreate>(keys[0]),
+    readList<PendingFolderUpdate>(keys[1]),
+    readList<string>(keys[2]),
+    readList<string>(keys[3]),
+    readList<string>(keys[4]),
   ]);
-  const deleteSet = new Set(pendingDeletes);
-  const updateMap = new Map(
-    pendingUpdates.map((u) => [u.folderId, u.name])
-  );
-  return cached
-    .filter((f) => !deleteSet.has(f.id))
-    .map((f) => {
-      const name = updateMap.get(f.id);
-      return name !== undefined ? { ...f, name, updated_at: new Date().toISOString() } : f;
-    });
+  await AsyncStorage.multiRemove(keys);
+  return { creates, updates, archives, restores, deletes };
 }
 
 export async function getCachedFolders(userId: string): Promise<Folder[]> {
@@ -281,7 +130,23 @@ export async function addFolderToCache(
   await setCachedFolders(userId, [...without, folder]);
 }
 
-/** Remove a folder from both active and archived caches (e.g. after delete). */
+/**
+ * Swap a folder created offline for the server copy, pointing its cached subfolders at the
+ * server id too.
+ */
+export async function replaceTempFolderInCache(
+  userId: string,
+  tempId: string,
+  folder: Folder
+): Promise<void> {
+  const list = await getCachedFolders(userId);
+  const next = list
+    .filter((f) => f.id !== tempId && f.id !== folder.id)
+    .map((f) => (f.parent_id === tempId ? { ...f, parent_id: folder.id } : f));
+  await setCachedFolders(userId, [...next, folder]);
+}
+
+/** Remove a folder and its subfolders from both active and archived caches (e.g. after delete). */
 export async function removeFolderFromCache(
   userId: string,
   folderId: string
@@ -290,27 +155,32 @@ export async function removeFolderFromCache(
     getCachedFolders(userId),
     getCachedArchivedFolders(userId),
   ]);
+  const removed = new Set([
+    folderId,
+    ...getDescendantFolderIds([...active, ...archived], folderId),
+  ]);
   await Promise.all([
-    setCachedFolders(userId, active.filter((f) => f.id !== folderId)),
+    setCachedFolders(userId, active.filter((f) => !removed.has(f.id))),
     setCachedArchivedFolders(
       userId,
-      archived.filter((f) => f.id !== folderId)
+      archived.filter((f) => !removed.has(f.id))
     ),
   ]);
 }
 
-/** Update a folder in cache (e.g. after rename). */
+/** Update a folder in cache (e.g. after rename or move). */
 export async function updateFolderInCache(
   userId: string,
   folderId: string,
-  updates: Partial<Pick<Folder, "name" | "updated_at">>
+  updates: Partial<Pick<Folder, "name" | "parent_id" | "is_vault" | "updated_at">>
 ): Promise<void> {
   const list = await getCachedFolders(userId);
   const idx = list.findIndex((f) => f.id === folderId);
-  if (idx === -1) return;
-  const next = [...list];
-  next[idx] = { ...next[idx], ...updates };
-  await setCachedFolders(userId, next);
+  if (idx !== -1) {
+    const next = [...list];
+    next[idx] = { ...next[idx], ...updates };
+    await setCachedFolders(userId, next);
+  }
   const archived = await getCachedArchivedFolders(userId);
   const archIdx = archived.findIndex((f) => f.id === folderId);
   if (archIdx !== -1) {
@@ -320,7 +190,7 @@ export async function updateFolderInCache(
   }
 }
 
-/** Move folder from active to archived cache (e.g. after archive). */
+/** Move a folder and its subfolders from active to archived cache (e.g. after archive). */
 export async function moveFolderToArchivedInCache(
   userId: string,
   folder: Folder
@@ -329,17 +199,26 @@ export async function moveFolderToArchivedInCache(
     getCachedFolders(userId),
     getCachedArchivedFolders(userId),
   ]);
-  const updated = { ...folder, is_archived: true };
+  const moved = new Set([folder.id, ...getDescendantFolderIds(active, folder.id)]);
+  const updated = [
+    { ...folder, is_archived: true },
+    ...active
+      .filter((f) => moved.has(f.id) && f.id !== folder.id)
+      .map((f) => ({ ...f, is_archived: true })),
+  ];
   await Promise.all([
-    setCachedFolders(userId, active.filter((f) => f.id !== folder.id)),
+    setCachedFolders(userId, active.filter((f) => !moved.has(f.id))),
     setCachedArchivedFolders(userId, [
-      ...archived.filter((f) => f.id !== folder.id),
-      updated,
+      ...archived.filter((f) => !moved.has(f.id)),
+      ...updated,
     ]),
   ]);
 }
 
-/** Move folder from archived to active cache (e.g. after restore). */
+/**
+ * Move a folder and its subfolders from archived to active cache (e.g. after restore).
+ * The folder goes to the top level when its parent isn't active, matching restoreFolder.
+ */
 export async function moveFolderToActiveInCache(
   userId: string,
   folder: Folder
@@ -348,9 +227,16 @@ export async function moveFolderToActiveInCache(
     getCachedFolders(userId),
     getCachedArchivedFolders(userId),
   ]);
-  const updated = { ...folder, is_archived: false };
+  const moved = new Set([folder.id, ...getDescendantFolderIds(archived, folder.id)]);
+  const parentActive = !!folder.parent_id && active.some((f) => f.id === folder.parent_id);
+  const updated = [
+    { ...folder, is_archived: false, parent_id: parentActive ? folder.parent_id : null },
+    ...archived
+      .filter((f) => moved.has(f.id) && f.id !== folder.id)
+      .map((f) => ({ ...f, is_archived: false })),
+  ];
   await Promise.all([
-    setCachedFolders(userId, [...active.filter((f) => f.id !== folder.id), updated]),
-    setCachedArchivedFolders(userId, archived.filter((f) => f.id !== folder.id)),
+    setCachedFolders(userId, [...active.filter((f) => !moved.has(f.id)), ...updated]),
+    setCachedArchivedFolders(userId, archived.filter((f) => !moved.has(f.id))),
   ]);
 }
@@ -1,98 +1,129 @@
 import { deleteFile } from "@/lib/files";
+import { getDescendantFolderIds } from "@/lib/folder-tree";
 import {
   addFolderToCache,
-  addPendingArchive,
-  addPendingCreate,
-  addPendingDelete,
-  addPendingFolderUpdate,
-  addPendingRestore,
   getCachedArchivedFolders,
   getCachedFolders,
-  getCachedFoldersWithPending,
-  getPendingArchives,
-  getPendingCreates,
-  getPendingDeletes,
-  getPendingFolderUpdates,
-  getPendingRestores,
   moveFolderToActiveInCache,
   moveFolderToArchivedInCache,
   removeFolderFromCache,
-  removePendingArchive,
-  removePendingCreate,
-  removePendingDelete,
-  removePendingFolderUpdate,
-  removePendingRestore,
+  replaceTempFolderInCache,
   setCachedArchivedFolders,
   setCachedFolders,
+  takeLegacyPendingFolderOps,
   updateFolderInCache,
 } from "@/lib/folders-cache";
-import { deleteNote } from "@/lib/notes";
+import { deleteNote, remapNotesFolderId, syncVaultEncryption } from "@/lib/notes";
+import {
+  createTempId,
+  enqueueMutation,
+  flushOutbox,
+  getPendingMutations,
+  onOutboxIdRemap,
+  registerOutboxHandlers,
+  runOrEnqueue,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import { disableShare } from "@/lib/share-links";
 import type { Folder } from "@/lib/supabase";
 import * as supabaseFolders from "@/lib/supabase-folders";
+import { isFolderInVault, isVaultUnlocked } from "@/lib/vault";
 
-/** Sync pending folder creates, updates, archive/restore, and deletes to Supabase. Does not fetch list; caller fetches after. */
-async function syncPendingFolderOperations(userId: string): Promise<void> {
-  const creates = await getPendingCreates(userId);
-  for (const p of creates) {
-    try {
-      const folder = await supabaseFolders.createFolder({
-        user_id: p.user_id,
-        name: p.name,
-      });
-      await removePendingCreate(userId, p.id);
-      await removeFolderFromCache(userId, p.id);
-      await addFolderToCache(userId, folder);
-    } catch {
-      // keep in pending for next sync
-    }
-  }
-  const updates = await getPendingFolderUpdates(userId);
-  for (const u of updates) {
-    try {
-      await supabaseFolders.updateFolder(u.folderId, { name: u.name });
-      await removePendingFolderUpdate(userId, u.folderId);
-    } catch {
-      // keep in pending for next sync
-    }
-  }
-  const toArchive = await getPendingArchives(userId);
-  for (const folderId of toArchive) {
-    try {
-      await supabaseFolders.archiveFolder(folderId);
-      await removePendingArchive(userId, folderId);
-    } catch {
-      // keep in pending for next sync
-    }
+registerOutboxHandlers("folder", {
+  create: async (payload, userId) => {
+    const folder = await supabaseFolders.createFolder({
+      user_id: payload.user_id,
+      name: payload.name,
+      parent_id: payload.parent_id ?? null,
+    });
+    await replaceTempFolderInCache(userId, payload.tempId, folder);
+    return folder.id;
+  },
+  update: async (payload) => {
+    await supabaseFolders.updateFolder(payload.id, folderUpdatesFromPayload(payload));
+  },
+  archive: (payload) => supabaseFolders.archiveFolder(payload.id),
+  restore: (payload) => supabaseFolders.restoreFolder(payload.id),
+  delete: (payload) => deleteFolderRemote(payload.id),
+});
+
+// Notes filed into a folder created offline point at its temp id until the create is replayed
+onOutboxIdRemap(async ({ entity, fromId, toId }) => {
+  if (entity === "folder") await remapNotesFolderId(fromId, toId);
+});
+
+type FolderUpdates = Partial<Pick<Folder, "name" | "parent_id" | "is_vault">>;
+
+/** Queued updates carry only the fields that changed; `parent_id: null` means "move to top level". */
+function folderUpdatesFromPayload(payload: Record<string, any>): FolderUpdates {
+  const updates: FolderUpdates = {};
+  if (typeof payload.name === "string") updates.name = payload.name;
+  if ("parent_id" in payload) updates.parent_id = payload.parent_id ?? null;
+  if (typeof payload.is_vault === "boolean") updates.is_vault = payload.is_vault;
+  return updates;
+}
+
+const migratedLegacyQueues = new Set<string>();
+
+/** Move pending operations recorded by the old per-operation lists into the outbox (once per user). */
+async function migrateLegacyPendingFolderOps(userId: string): Promise<void> {
+  if (migratedLegacyQueues.has(userId)) return;
+  migratedLegacyQueues.add(userId);
+  const legacy = await takeLegacyPendingFolderOps(userId);
+  for (const p of legacy.creates) {
+    await enqueueMutation(userId, "folder", "create", {
+      tempId: p.id,
+      user_id: p.user_id,
+      name: p.name,
+      created_at: new Date().toISOString(),
+    });
   }
-  const toRestore = await getPendingRestores(userId);
-  for (const folderId of toRestore) {
-    try {
-      await supabaseFolders.restoreFolder(folderId);
-      await removePendingRestore(userId, folderId);
-    } catch {
-      // keep in pending for next sync
-    }
+  for (const u of legacy.updates) {
+    await enqueueMutation(userId, "folder", "update", { id: u.folderId, name: u.name });
   }
-  const deletes = await getPendingDeletes(userId);
-  for (const folderId of deletes) {
-    try {
-      await deleteFolder(folderId, { userId });
-    } catch {
-      // folder may already be deleted on server; clear pending so we don't retry forever
+  for (const id of legacy.archives) await enqueueMutation(userId, "folder", "archive", { id });
+  for (const id of legacy.restores) await enqueueMutation(userId, "folder", "restore", { id });
+  for (const id of legacy.deletes) await enqueueMutation(userId, "folder", "delete", { id });
+}
+
+/** Apply queued folder writes to a freshly fetched list so they don't flicker away until replayed. */
+function withPendingFolderOps(folders: Folder[], pending: OutboxEntry[], archived: boolean): Folder[] {
+  let result = [...folders];
+  for (const { op, payload } of pending) {
+    if (op === "create" && !archived && !result.some((f) => f.id === payload.tempId)) {
+      result.push({
+        id: payload.tempId,
+        user_id: payload.user_id,
+        name: payload.name,
+        parent_id: payload.parent_id ?? null,
+        is_archived: false,
+        created_at: payload.created_at,
+        updated_at: payload.created_at,
+      });
+    } else if (op === "update") {
+      const updates = folderUpdatesFromPayload(payload);
+      result = result.map((f) => (f.id === payload.id ? { ...f, ...updates } : f));
+    } else if (op === "delete" || op === (archived ? "restore" : "archive")) {
+      // Archive, restore and delete carry the whole subtree with them
+      const removed = new Set([payload.id, ...getDescendantFolderIds(result, payload.id)]);
+      result = result.filter((f) => !removed.has(f.id));
     }
-    await removePendingDelete(userId, folderId);
   }
+  return result;
 }
 
 export const listFolders = async (userId?: string): Promise<Folder[]> => {
   if (!userId) return [];
+  await migrateLegacyPendingFolderOps(userId);
+  await flushOutbox(userId);
   try {
-    await syncPendingFolderOperations(userId);
-    const folders = await supabaseFolders.listFolders(userId);
+    const fetched = await supabaseFolders.listFolders(userId);
+    const folders = withPendingFolderOps(fetched, await getPendingMutations(userId, "folder"), false);
     await setCachedFolders(userId, folders);
     return folders;
   } catch (err) {
-    const cached = await getCachedFoldersWithPending(userId);
+    // The cache already reflects queued writes (they are applied to it when queued)
+    const cached = await getCachedFolders(userId);
     if (cached.length > 0) return cached;
     throw err;
   }
@@ -101,7 +132,8 @@ export const listFolders = async (userId?: string): Promise<Folder[]> => {
 export const listArchivedFolders = async (userId?: string): Promise<Folder[]> => {
   if (!userId) return [];
   try {
-    const folders = await supabaseFolders.listArchivedFolders(userId);
+    const fetched = await supabaseFolders.listArchivedFolders(userId);
+    const folders = withPendingFolderOps(fetched, await getPendingMutations(userId, "folder"), true);
     await setCachedArchivedFolders(userId, folders);
     return folders;
   } catch {
@@ -113,123 +145,160 @@ export const getFolderById = async (id: string): Promise<Folder | null> => {
   return supabaseFolders.getFolderById(id);
 };
 
-function tempFolderId(): string {
-  return `local-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-}
-
 export const createFolder = async (input: {
   user_id: string;
   name: string;
+  /** Create the folder inside this one; omit for a top-level folder. */
+  parent_id?: string | null;
 }): Promise<Folder> => {
-  try {
-    const folder = await supabaseFolders.createFolder(input);
-    await addFolderToCache(input.user_id, folder);
-    return folder;
-  } catch (err) {
-    const now = new Date().toISOString();
-    const tempId = tempFolderId();
-    const folder: Folder = {
-      id: tempId,
-      user_id: input.user_id,
-      name: input.name.trim() || "Unnamed folder",
-      is_archived: false,
-      created_at: now,
-      updated_at: now,
-    };
-    await addFolderToCache(input.user_id, folder);
-    await addPendingCreate(input.user_id, { id: tempId, name: folder.name, user_id: input.user_id });
-    return folder;
-  }
+  const tempId = createTempId();
+  const now = new Date().toISOString();
+  const name = input.name.trim() || "Unnamed folder";
+  const parentId = input.parent_id ?? null;
+  return runOrEnqueue(
+    input.user_id,
+    {
+      entity: "folder",
+      op: "create",
+      payload: { tempId, user_id: input.user_id, name, parent_id: parentId, created_at: now },
+    },
+    async () => {
+      const folder = await supabaseFolders.createFolder(input);
+      await addFolderToCache(input.user_id, folder);
+      return folder;
+    },
+    async () => {
+      const folder: Folder = {
+        id: tempId,
+        user_id: input.user_id,
+        name,
+        parent_id: parentId,
+        is_archived: false,
+        created_at: now,
+        updated_at: now,
+      };
+      await addFolderToCache(input.user_id, folder);
+      return folder;
+    }
+  );
 };
 
+/**
+ * Rename a folder, move it (`parent_id` is the new containing folder, null for the top level) or
+ * turn it into a vault and back (which stops sharing it). When that moves its notes into or out
+ * of a vault they are encrypted or decrypted to match, which needs the vault unlocked.
+ */
 export const updateFolder = async (
   id: string,
-  updates: Partial<Pick<Folder, "name">>,
+  updates: FolderUpdates,
   options?: { userId?: string }
 ): Promise<Folder | null> => {
-  try {
-    const result = await supabaseFolders.updateFolder(id, updates);
-    if (result)
-      await updateFolderInCache(result.user_id, id, {
-        name: result.name,
-        updated_at: result.updated_at,
-      });
-    return result;
-  } catch (err) {
-    const userId = options?.userId;
-    if (userId && updates.name !== undefined) {
+  const userId = options?.userId;
+  const folders = userId ? await getCachedFolders(userId) : [];
+  if (updates.parent_id !== undefined && updates.parent_id !== null && userId) {
+    if (updates.parent_id === id || getDescendantFolderIds(folders, id).includes(updates.parent_id)) {
+      throw new Error("A folder cannot be moved into itself or one of its subfolders");
+    }
+  }
+  const movedFolders = folders.map((f) => (f.id === id ? { ...f, ...updates } : f));
+  const vaultChanged =
+    !!userId && isFolderInVault(folders, id) !== isFolderInVault(movedFolders, id);
+  if (vaultChanged && !isVaultUnlocked()) {
+    throw new Error("Unlock the vault to move notes into or out of it");
+  }
+
+  // Vault folders can't be shared
+  const shareToken = folders.find((f) => f.id === id)?.share_token;
+  if (updates.is_vault && shareToken) await disableShare("folder", id, shareToken);
+
+  const result = await updateFolderRecord(id, updates, userId);
+  if (vaultChanged && userId) {
+    await syncVaultEncryption(userId, [id, ...getDescendantFolderIds(movedFolders, id)]);
+  }
+  return result;
+};
+
+async function updateFolderRecord(
+  id: string,
+  updates: FolderUpdates,
+  userId: string | undefined
+): Promise<Folder | null> {
+  return runOrEnqueue(
+    userId,
+    { entity: "folder", op: "update", payload: { id, ...updates } },
+    async () => {
+      const result = await supabaseFolders.updateFolder(id, updates);
+      if (result)
+        await updateFolderInCache(result.user_id, id, {
+          name: result.name,
+          parent_id: result.parent_id ?? null,
+          is_vault: result.is_vault ?? false,
+          updated_at: result.updated_at,
+        });
+      return result;
+    },
+    async () => {
+      if (!userId || Object.keys(updates).length === 0) return null;
       const cached = await getCachedFolders(userId);
       const archived = await getCachedArchivedFolders(userId);
       const folder = cached.find((f) => f.id === id) ?? archived.find((f) => f.id === id);
-      if (folder) {
-        const now = new Date().toISOString();
-        await updateFolderInCache(userId, id, { name: updates.name, updated_at: now });
-        await addPendingFolderUpdate(userId, id, updates.name);
-        return { ...folder, name: updates.name, updated_at: now };
-      }
+      if (!folder) return null;
+      const now = new Date().toISOString();
+      await updateFolderInCache(userId, id, { ...updates, updated_at: now });
+      return { ...folder, ...updates, updated_at: now };
     }
-    throw err;
-  }
-};
+  );
+}
 
 export const archiveFolder = async (
   id: string,
   options?: { userId?: string }
 ): Promise<void> => {
-  try {
-    await supabaseFolders.archiveFolder(id);
-    const folder = await supabaseFolders.getFolderById(id);
-    if (folder) await moveFolderToArchivedInCache(folder.user_id, folder);
-  } catch (err) {
-    const userId = options?.userId;
-    if (userId) {
-      const cached = await getCachedFolders(userId);
-      const folder = cached.find((f) => f.id === id);
-      if (folder) {
-        await moveFolderToArchivedInCache(userId, folder);
-        await addPendingArchive(userId, id);
-        return;
-      }
+  await runOrEnqueue(
+    options?.userId,
+    { entity: "folder", op: "archive", payload: { id } },
+    async () => {
+      await supabaseFolders.archiveFolder(id);
+      const folder = await supabaseFolders.getFolderById(id);
+      if (folder) await moveFolderToArchivedInCache(folder.user_id, folder);
+    },
+    async () => {
+      const userId = options?.userId;
+      if (!userId) return;
+      const folder = (await getCachedFolders(userId)).find((f) => f.id === id);
+      if (folder) await moveFolderToArchivedInCache(userId, folder);
     }
-    throw err;
-  }
+  );
 };
 
 export const restoreFolder = async (
   id: string,
   options?: { userId?: string }
 ): Promise<void> => {
-  try {
-    await supabaseFolders.restoreFolder(id);
-    const folder = await supabaseFolders.getFolderById(id);
-    if (folder) await moveFolderToActiveInCache(folder.user_id, folder);
-  } catch (err) {
-    const userId = options?.userId;
-    if (userId) {
-      const archived = await getCachedArchivedFolders(userId);
-      const folder = archived.find((f) => f.id === id);
-      if (folder) {
-        await moveFolderToActiveInCache(userId, folder);
-        await addPendingRestore(userId, id);
-        return;
-      }
+  await runOrEnqueue(
+    options?.userId,
+    { entity: "folder", op: "restore", payload: { id } },
+    async () => {
+      await supabaseFolders.restoreFolder(id);
+      const folder = await supabaseFolders.getFolderById(id);
+      if (folder) await moveFolderToActiveInCache(folder.user_id, folder);
+    },
+    async () => {
+      const userId = options?.userId;
+      if (!userId) return;
+      const folder = (await getCachedArchivedFolders(userId)).find((f) => f.id === id);
+      if (folder) await moveFolderToActiveInCache(userId, folder);
     }
-    throw err;
-  }
+  );
 };
 
-/** Permanently delete a folder and all notes and files inside it. When offline, records delete in cache and syncs when back online. */
-export const deleteFolder = async (
-  id: string,
-  options?: { userId?: string }
-): Promise<void> => {
-  let userId = options?.userId;
-  try {
-    const folder = await supabaseFolders.getFolderById(id);
-    userId = folder?.user_id ?? userId;
-
-    const noteIds = await supabaseFolders.listNoteIdsByFolderId(id);
-    const fileRecords = await supabaseFolders.listFileRecordsByFolderId(id);
+/** Delete the folder record, its subfolders and all notes and files inside them on the server. */
+async function deleteFolderRemote(id: string): Promise<void> {
+  const descendantIds = await supabaseFolders.listDescendantFolderIds(id);
+  // Deepest first, so an interrupted delete never leaves a subfolder without its parent
+  for (const folderId of [...descendantIds.reverse(), id]) {
+    const noteIds = await supabaseFolders.listNoteIdsByFolderId(folderId);
+    const fileRecords = await supabaseFolders.listFileRecordsByFolderId(folderId);
 
     for (const noteId of noteIds) {
       await deleteNote(noteId);
@@ -237,15 +306,29 @@ export const deleteFolder = async (
     for (const file of fileRecords) {
       await deleteFile(file.id, { filePath: file.file_path });
     }
-    await supabaseFolders.deleteFolderRecord(id);
-
-    if (userId) await removeFolderFromCache(userId, id);
-  } catch (err) {
-    if (userId) {
-      await addPendingDelete(userId, id);
-      await removeFolderFromCache(userId, id);
-      return; // optimistic: folder removed from cache, will sync when online
-    }
-    throw err;
+    await supabaseFolders.deleteFolderRecord(folderId);
   }
 }
+
+/**
+ * Permanently delete a folder, its subfolders and all notes and files inside them.
+ * When offline, removes them from cache and queues the delete.
+ */
+export const deleteFolder = async (
+  id: string,
+  options?: { userId?: string }
+): Promise<void> => {
+  await runOrEnqueue(
+    options?.userId,
+    { entity: "folder", op: "delete", payload: { id } },
+    async () => {
+      const folder = await supabaseFolders.getFolderById(id);
+      const userId = folder?.user_id ?? options?.userId;
+      await deleteFolderRemote(id);
+      if (userId) await removeFolderFromCache(userId, id);
+    },
+    async () => {
+      if (options?.userId) await removeFolderFromCache(options.userId, id);
+    }
+  );
+};
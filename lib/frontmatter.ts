@@ -0,0 +1,174 @@
+/**
+ * YAML frontmatter: a `---` fenced block at the very start of a note's content holding its
+ * properties (`status: draft`, `due: 2026-11-01`, `aliases: [Q4 plan]`, `tags: [work]`).
+ * The block stays part of the content, so it syncs, diffs and merges like any other text.
+ *
+ * A few properties are indexed for filtering and sorting lists (indexedProperties); the same
+ * rules feed the SQLite property index (native) and the in-memory one (web).
+ */
+
+import type { Note } from "@/lib/supabase";
+import { parse, stringify } from "yaml";
+
+/** Group 1: the YAML source (absent for an empty block). Mirrors remark-frontmatter's rule. */
+const FRONTMATTER_RE = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+export type NoteProperties = Record<string, unknown>;
+
+/** Properties shown as comma-separated lists and stored as YAML sequences. */
+export const LIST_PROPERTIES = ["aliases", "tags"];
+
+export type NoteIndexedProperties = {
+  status: string | null;
+  /** YYYY-MM-DD, or null when missing or not a date. */
+  due: string | null;
+  aliases: string[];
+  /** As written, without a leading `#`. */
+  tags: string[];
+};
+
+export type NotePropertiesEntry = NoteIndexedProperties & { note_id: string };
+
+export function hasFrontmatter(content: string): boolean {
+  return FRONTMATTER_RE.test(content);
+}
+
+/** Split content into its YAML source (null when there is no frontmatter) and the markdown after it. */
+export function splitFrontmatter(content: string): { yaml: string | null; body: string } {
+  const match = FRONTMATTER_RE.exec(content);
+  if (!match) return { yaml: null, body: content };
+  return { yaml: match[1] ?? "", body: content.slice(match[0].length) };
+}
+
+/** Parse frontmatter YAML into properties; null when it isn't valid YAML or isn't a mapping. */
+export function parseProperties(yaml: string): NoteProperties | null {
+  if (!yaml.trim()) return {};
+  try {
+    const value = parse(yaml);
+    if (value == null) return {};
+    return typeof value === "object" && !Array.isArray(value) ? (value as NoteProperties) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A note's properties; empty when it has no frontmatter or the frontmatter is invalid. */
+export function getNoteProperties(content: string): NoteProperties {
+  const { yaml } = splitFrontmatter(content);
+  return yaml === null ? {} : parseProperties(yaml) ?? {};
+}
+
+/** Replace the note's frontmatter with `properties`; no properties removes the block. */
+export function setNoteProperties(content: string, properties: NoteProperties): string {
+  const { body } = splitFrontmatter(content);
+  if (Object.keys(properties).length === 0) return body;
+  return `---\n${stringify(properties)}---\n${body}`;
+}
+
+/** Display form of a property value: lists comma-separated, nested values as JSON. */
+export function formatPropertyValue(value: unknown): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) return value.map(formatPropertyValue).join(", ");
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Value to store for text typed into the property editor. */
+export function parsePropertyInput(key: string, text: string): unknown {
+  if (LIST_PROPERTIES.includes(key.trim().toLowerCase())) {
+    return text
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return text.trim();
+}
+
+function toStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return items
+    .filter((item) => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+/** status, due, aliases and tags from a note's frontmatter (keys are matched case-insensitively). */
+export function indexedProperties(content: string): NoteIndexedProperties {
+  const properties = getNoteProperties(content);
+  const get = (name: string) =>
+    Object.entries(properties).find(([key]) => key.trim().toLowerCase() === name)?.[1];
+
+  const status = get("status");
+  const due = formatPropertyValue(get("due")).slice(0, 10);
+  return {
+    status: typeof status === "string" && status.trim() ? status.trim() : null,
+    due: /^\d{4}-\d{2}-\d{2}$/.test(due) ? due : null,
+    aliases: toStringList(get("aliases")),
+    tags: toStringList(get("tags")).map((tag) => tag.replace(/^#/, "")),
+  };
+}
+
+export function hasIndexedProperties(properties: NoteIndexedProperties): boolean {
+  return (
+    properties.status !== null ||
+    properties.due !== null ||
+    properties.aliases.length > 0 ||
+    properties.tags.length > 0
+  );
+}
+
+/** Indexed properties of the notes that have any, in input order. */
+export function collectNoteProperties(notes: Pick<Note, "id" | "content">[]): NotePropertiesEntry[] {
+  const entries: NotePropertiesEntry[] = [];
+  for (const note of notes) {
+    if (!hasFrontmatter(note.content)) continue;
+    const properties = indexedProperties(note.content);
+    if (hasIndexedProperties(properties)) entries.push({ note_id: note.id, ...properties });
+  }
+  return entries;
+}
+
+export type NotePropertySort = "updated" | "due" | "status";
+
+export type StatusCount = { status: string; count: number };
+
+/** Statuses in use with note counts, compared case-insensitively and sorted by name. */
+export function countStatuses(entries: NotePropertiesEntry[]): StatusCount[] {
+  const counts = new Map<string, StatusCount>();
+  for (const { status } of entries) {
+    if (!status) continue;
+    const key = status.toLowerCase();
+    const existing = counts.get(key);
+    if (existing) existing.count++;
+    else counts.set(key, { status, count: 1 });
+  }
+  return [...counts.values()].sort((a, b) => a.status.localeCompare(b.status));
+}
+
+export function statusMatches(status: string | null | undefined, selected: string): boolean {
+  return !!status && status.toLowerCase() === selected.toLowerCase();
+}
+
+/**
+ * Order notes by a property; notes without it go last, ties keep the incoming order (newest first).
+ * "updated" returns the notes unchanged.
+ */
+export function sortNotesByProperty<T extends Pick<Note, "id">>(
+  notes: T[],
+  entries: NotePropertiesEntry[],
+  sort: NotePropertySort
+): T[] {
+  if (sort === "updated") return notes;
+  const byId = new Map(entries.map((entry) => [entry.note_id, entry]));
+  const valueOf = (note: T) => byId.get(note.id)?.[sort]?.toLowerCase() ?? null;
+  return notes
+    .map((note, index) => ({ note, index, value: valueOf(note) }))
+    .sort((a, b) => {
+      if (a.value === b.value) return a.index - b.index;
+      if (a.value === null) return 1;
+      if (b.value === null) return -1;
+      return a.value.localeCompare(b.value);
+    })
+    .map(({ note }) => note);
+}
@@ -0,0 +1,158 @@
+/**
+ * Converts HTML to Markdown with unified (rehype-parse → rehype-remark → remark-stringify),
+ * the reverse of markdown-to-html. Used by the importer for Evernote notes (ENML) and HTML
+ * exports. Evernote's own elements are mapped first:
+ *
+ * - `<en-media hash="…">` → an image (or a link for other files) pointing at the uploaded resource
+ * - `<en-todo checked="true"/>` → a GFM task list item (`- [x]`)
+ * - `<en-crypt>` → a placeholder, since its content can't be decrypted here
+ */
+
+import type { Element, ElementContent, Root, RootContent } from "hast";
+import rehypeParse from "rehype-parse";
+import rehypeRemark from "rehype-remark";
+import remarkGfm from "remark-gfm";
+import remarkStringify from "remark-stringify";
+import { unified } from "unified";
+
+const VOID_ENML_ELEMENTS = new Set(["en-todo", "en-media"]);
+
+export type HtmlMediaResource = { url: string; fileName?: string; mimeType?: string };
+
+export type HtmlToMarkdownOptions = {
+  /** Resolve an `<en-media>` hash to its uploaded file; unresolved media are dropped. */
+  resolveMedia?: (hash: string) => HtmlMediaResource | undefined;
+};
+
+function element(tagName: string, properties: Element["properties"], children: ElementContent[]): Element {
+  return { type: "element", tagName, properties, children };
+}
+
+function text(value: string): ElementContent {
+  return { type: "text", value };
+}
+
+function isBlank(node: ElementContent): boolean {
+  return node.type === "text" && !node.value.trim();
+}
+
+/** Last node that isn't whitespace, so blocks separated by newlines still count as adjacent. */
+function lastContent(nodes: (RootContent | ElementContent)[]): RootContent | ElementContent | undefined {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (!(node.type === "text" && !node.value.trim())) return node;
+  }
+  return undefined;
+}
+
+/**
+ * ENML's `<en-todo/>` and `<en-media/>` are self-closing, which the HTML parser doesn't honour for
+ * unknown elements: it nests the following content inside them. Move that content back out.
+ */
+function hoistVoidChildren<T extends RootContent | ElementContent>(nodes: T[]): T[] {
+  return nodes.flatMap((node) => {
+    if (node.type !== "element" || !VOID_ENML_ELEMENTS.has(node.tagName) || node.children.length === 0) {
+      return [node];
+    }
+    const children = hoistVoidChildren(node.children) as T[];
+    node.children = [];
+    return [node, ...children];
+  });
+}
+
+function isTodo(node: ElementContent | undefined): node is Element {
+  return node?.type === "element" && node.tagName === "en-todo";
+}
+
+function isChecked(todo: Element): boolean {
+  return String(todo.properties?.checked ?? "false") === "true";
+}
+
+function mediaElement(node: Element, options: HtmlToMarkdownOptions): ElementContent | null {
+  const hash = String(node.properties?.hash ?? "");
+  const resource = hash ? options.resolveMedia?.(hash) : undefined;
+  if (!resource) return null;
+  const type = resource.mimeType ?? String(node.properties?.type ?? "");
+  if (type.startsWith("image/")) {
+    return element("img", { src: resource.url, alt: resource.fileName ?? "" }, []);
+  }
+  return element("a", { href: resource.url }, [text(resource.fileName ?? "Attachment")]);
+}
+
+/**
+ * Rewrite Evernote elements in place. A block whose first content is an `<en-todo>` becomes a
+ * task list item; consecutive ones share a list so the Markdown isn't split into many lists.
+ */
+function rehypeEvernote(options: HtmlToMarkdownOptions) {
+  /** Lists created here, which following task blocks may join. */
+  const todoLists = new WeakSet<Element>();
+
+  const transform = (parent: Root | Element) => {
+    const children: (RootContent | ElementContent)[] = [];
+    for (const child of hoistVoidChildren<RootContent | ElementContent>(parent.children)) {
+      if (child.type !== "element") {
+        children.push(child);
+        continue;
+      }
+      if (child.tagName === "en-media") {
+        const replacement = mediaElement(child, options);
+        if (replacement) children.push(replacement);
+        continue;
+      }
+      if (child.tagName === "en-crypt") {
+        children.push(element("em", {}, [text("[Encrypted content not imported]")]));
+        continue;
+      }
+      if (child.tagName === "en-todo") {
+        // A checkbox in the middle of a line: keep it readable as text
+        children.push(text(isChecked(child) ? "[x] " : "[ ] "));
+        continue;
+      }
+
+      const content = hoistVoidChildren(child.children).filter((node) => !isBlank(node));
+      const first = content[0];
+      if (!isTodo(first)) {
+        transform(child);
+        children.push(child);
+        continue;
+      }
+
+      child.children = content.slice(1);
+      transform(child);
+      const checkbox = element("input", { type: "checkbox", checked: isChecked(first) }, []);
+      if (child.tagName === "li") {
+        child.children.unshift(checkbox);
+        children.push(child);
+        continue;
+      }
+      const item = element("li", {}, [checkbox, ...child.children]);
+      const previous = lastContent(children);
+      if (previous?.type === "element" && todoLists.has(previous)) {
+        previous.children.push(item);
+      } else {
+        const list = element("ul", {}, [item]);
+        todoLists.add(list);
+        children.push(list);
+      }
+    }
+    parent.children = children as typeof parent.children;
+  };
+  return (tree: Root) => transform(tree);
+}
+
+/** Strip the XML declaration and DOCTYPE that wrap ENML so only the note body is parsed. */
+function stripXmlPrologue(html: string): string {
+  return html.replace(/<\?xml[^>]*\?>/i, "").replace(/<!DOCTYPE[^>]*>/i, "");
+}
+
+/** Markdown for an HTML fragment or document. */
+export async function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): Promise<string> {
+  const file = await unified()
+    .use(rehypeParse, { fragment: true })
+    .use(rehypeEvernote, options)
+    .use(rehypeRemark)
+    .use(remarkGfm)
+    .use(remarkStringify, { bullet: "-", emphasis: "_", rule: "-", fences: true })
+    .process(stripXmlPrologue(html));
+  return String(file).trim() + "\n";
+}
@@ -0,0 +1,359 @@
+/**
+ * iCalendar (RFC 5545) for events: reading VEVENTs out of `.ics` files and writing events out as
+ * a VCALENDAR.
+ *
+ * Events keep a wall-clock `event_date` ("2026-10-19T10:00:00") in their own time zone, so they
+ * are written with that zone as TZID (floating when they have none) and an end as DTEND; all-day
+ * events are written as DATEs. No VTIMEZONEs are included: TZIDs are IANA names, which calendar
+ * apps resolve themselves. Reading, UTC times ("…Z") are converted to the device's time zone and
+ * TZIDs that aren't IANA names are read as floating times; EXDATEs and RECURRENCE-IDs are dates in
+ * their series' DTSTART zone, whatever zone they were written in.
+ */
+
+import { eventDuration, eventTimeZone } from "@/lib/event-times";
+import { addDaysToDate, daysBetweenDates, formatRRule, getEventRecurrence } from "@/lib/recurrence";
+import type { Event } from "@/lib/supabase";
+import { getDeviceTimeZone, isValidTimeZone, utcToZonedTime, zonedTimeToUtc } from "@/lib/timezones";
+
+/** One VEVENT, in the shape events are stored in. */
+export type IcsEvent = {
+  uid: string | null;
+  title: string;
+  description: string;
+  /** event_date form: "YYYY-MM-DDTHH:mm:ss". */
+  start: string;
+  allDay: boolean;
+  /** IANA zone `start` is in; null for floating times. */
+  timeZone: string | null;
+  /** Length from DTEND or DURATION in ms; null when the file has neither. */
+  duration: number | null;
+  /** The RRULE value as written in the file (not validated). */
+  rrule: string | null;
+  exdates: string[];
+  /** Set on an occurrence edited on its own: the date it replaces in the series with the same UID. */
+  recurrenceDate: string | null;
+  cancelled: boolean;
+};
+
+const PRODID = "-//Gopx Drive//Calendar//EN";
+/** Lines are folded at 75 octets (RFC 5545 3.1). */
+const MAX_LINE_OCTETS = 75;
+
+/** A content line; parameter names are upper-cased and quotes removed from their values. */
+type IcsProperty = { name: string; params: Record<string, string>; value: string };
+
+/** A DATE or DATE-TIME value read from the file; `instant` is set for UTC values. */
+type IcsDate = { wallClock: string; allDay: boolean; timeZone: string | null; instant?: Date };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Split "NAME;PARAM=x;PARAM="a:b":value" at the first colon outside quotes. */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rest] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [""];
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/"/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** A DATE or DATE-TIME value (`tzid` from its TZID parameter), or null if malformed. */
+function parseDateValue(value: string, tzid?: string): IcsDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) return { wallClock: `${y}-${mo}-${d}T00:00:00`, allDay: true, timeZone: null };
+  if (utc) {
+    const timeZone = getDeviceTimeZone();
+    const instant = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+    return { wallClock: utcToZonedTime(instant, timeZone), allDay: false, timeZone, instant };
+  }
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : null;
+  return { wallClock: `${y}-${mo}-${d}T${h}:${mi}:${s}`, allDay: false, timeZone };
+}
+
+/**
+ * The date `date` falls on in `timeZone` (the device's when null): how an EXDATE or RECURRENCE-ID
+ * names an occurrence of a series starting in that zone. Floating values are taken as is.
+ */
+function dateInZone(date: IcsDate, timeZone: string | null): string {
+  const instant = date.allDay
+    ? null
+    : (date.instant ?? (date.timeZone ? zonedTimeToUtc(date.wallClock, date.timeZone) : null));
+  if (!instant) return date.wallClock.split("T")[0];
+  return utcToZonedTime(instant, timeZone ?? getDeviceTimeZone()).split("T")[0];
+}
+
+/** A DURATION value ("PT1H30M", "P2D") in ms, or null if malformed or negative. */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match || match[1] === "-") return null;
+  const [w, d, h, m, s] = match.slice(2).map((part) => Number(part ?? 0));
+  return ((w * 7 + d) * 24 * 3600 + h * 3600 + m * 60 + s) * 1000;
+}
+
+/** Milliseconds from `start` to `end`, or null if the end comes first. */
+function durationBetween(start: IcsDate, end: IcsDate): number | null {
+  let duration: number;
+  if (start.allDay) {
+    duration = daysBetweenDates(start.wallClock.split("T")[0], end.wallClock.split("T")[0]) * DAY_MS;
+  } else {
+    const instant = (date: IcsDate) =>
+      zonedTimeToUtc(date.wallClock, date.timeZone ?? start.timeZone ?? getDeviceTimeZone()).getTime();
+    duration = instant(end) - instant(start);
+  }
+  return duration >= 0 ? duration : null;
+}
+
+/** Read every VEVENT in an iCalendar file. VEVENTs without a usable DTSTART are left out. */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let start: IcsDate | null = null;
+  let end: IcsDate | null = null;
+  let exdates: IcsDate[] = [];
+  let recurrenceId: IcsDate | null = null;
+  // RECURRENCE-IDs are in their series' zone, and the series may come later in the file
+  const overrides: { event: IcsEvent; recurrenceId: IcsDate }[] = [];
+  // Components nested in a VEVENT (VALARM) have properties of their own
+  let nested = 0;
+
+  for (const line of lines) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+    const value = prop.value.toUpperCase();
+    if (prop.name === "BEGIN") {
+      if (current) nested++;
+      else if (value === "VEVENT") {
+        current = {
+          uid: null,
+          title: "",
+          description: "",
+          start: "",
+          allDay: false,
+          timeZone: null,
+          duration: null,
+          rrule: null,
+          exdates: [],
+          recurrenceDate: null,
+          cancelled: false,
+        };
+      }
+      continue;
+    }
+    if (prop.name === "END" && current) {
+      if (nested > 0) nested--;
+      else if (value === "VEVENT") {
+        if (start) {
+          current.start = start.wallClock;
+          current.allDay = start.allDay;
+          current.timeZone = start.timeZone;
+          if (end) current.duration = durationBetween(start, end);
+          current.exdates = exdates.map((date) => dateInZone(date, current!.timeZone));
+          if (recurrenceId) overrides.push({ event: current, recurrenceId });
+          events.push(current);
+        }
+        current = null;
+        start = null;
+        end = null;
+        exdates = [];
+        recurrenceId = null;
+      }
+      continue;
+    }
+    if (!current || nested > 0) continue;
+
+    switch (prop.name) {
+      case "UID":
+        current.uid = prop.value.trim();
+        break;
+      case "SUMMARY":
+        current.title = unescapeText(prop.value).trim();
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(prop.value).trim();
+        break;
+      case "DTSTART":
+        start = parseDateValue(prop.value, prop.params.TZID);
+        break;
+      case "DTEND":
+        end = parseDateValue(prop.value, prop.params.TZID);
+        break;
+      case "DURATION":
+        current.duration = parseDuration(prop.value);
+        break;
+      case "RRULE":
+        current.rrule = prop.value.trim();
+        break;
+      case "EXDATE":
+        for (const item of prop.value.split(",")) {
+          const date = parseDateValue(item, prop.params.TZID);
+          if (date) exdates.push(date);
+        }
+        break;
+      case "RECURRENCE-ID":
+        recurrenceId = parseDateValue(prop.value, prop.params.TZID);
+        break;
+      case "STATUS":
+        current.cancelled = value.trim() === "CANCELLED";
+        break;
+    }
+  }
+
+  const seriesZones = new Map<string, string | null>();
+  for (const event of events) {
+    if (event.uid && event.rrule && !overrides.some((o) => o.event === event)) {
+      seriesZones.set(event.uid, event.timeZone);
+    }
+  }
+  for (const { event, recurrenceId: date } of overrides) {
+    const zone = event.uid && seriesZones.has(event.uid) ? (seriesZones.get(event.uid) ?? null) : event.timeZone;
+    event.recurrenceDate = dateInZone(date, zone);
+  }
+
+  return events;
+}
+
+function utf8Length(ch: string): number {
+  const code = ch.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8Length(ch);
+    // Continuation lines start with a space, which counts toward their length
+    if (octets + size > MAX_LINE_OCTETS - (chunks.length > 0 ? 1 : 0)) {
+      chunks.push(chunk);
+      chunk = "";
+      octets = 0;
+    }
+    chunk += ch;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+/** "2026-10-19T10:00:00" → "20261019T100000" (a DATE-TIME without zone). */
+function formatDateTime(eventDate: string): string {
+  const [date, time = "00:00:00"] = eventDate.split("T");
+  return `${date.replace(/-/g, "")}T${time.slice(0, 8).replace(/:/g, "").padEnd(6, "0")}`;
+}
+
+/**
+ * A date property of `event` at `wallClocks` (times in the event's zone): DATEs for all-day
+ * events, DATE-TIMEs with TZID for events with a zone, floating otherwise.
+ */
+function dateProperty(name: string, event: Event, wallClocks: string[]): string {
+  if (event.all_day) {
+    return `${name};VALUE=DATE:${wallClocks.map((w) => w.split("T")[0].replace(/-/g, "")).join(",")}`;
+  }
+  const values = wallClocks.map(formatDateTime).join(",");
+  return event.timezone ? `${name};TZID=${event.timezone}:${values}` : `${name}:${values}`;
+}
+
+/** Wall-clock end of an event starting at its event_date, in the event's zone. */
+function eventEnd(event: Event): string {
+  const duration = eventDuration(event);
+  if (event.all_day) return `${addDaysToDate(event.event_date.split("T")[0], Math.round(duration / DAY_MS))}T00:00:00`;
+  const zone = eventTimeZone(event);
+  return utcToZonedTime(new Date(zonedTimeToUtc(event.event_date, zone).getTime() + duration), zone);
+}
+
+/**
+ * RRULE UNTIL for the last day `date` ("YYYYMMDD"): it has to be of DTSTART's type, and in UTC
+ * when DTSTART has a TZID. The whole last day still counts.
+ */
+function formatUntil(event: Event, date: string): string {
+  if (event.all_day) return date;
+  if (!event.timezone) return `${date}T235959`;
+  const wallClock = `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6)}T23:59:59`;
+  return formatUtc(zonedTimeToUtc(wallClock, event.timezone).toISOString());
+}
+
+function formatUtc(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return formatUtc(new Date().toISOString());
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** UID of an exported event; overrides share their series' UID. */
+export function eventUid(id: string): string {
+  return `${id}@gopx-drive`;
+}
+
+/**
+ * Events as an iCalendar file. Series are written with their RRULE and EXDATEs; an occurrence
+ * edited on its own is written with its series' UID and a RECURRENCE-ID.
+ */
+export function eventsToIcs(events: Event[], calendarName = "Gopx Drive"): string {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const dtstamp = formatUtc(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const series = event.recurrence_id ? byId.get(event.recurrence_id) : undefined;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${eventUid(series ? series.id : event.id)}`,
+      `DTSTAMP:${dtstamp}`,
+      `LAST-MODIFIED:${formatUtc(event.updated_at)}`,
+      dateProperty("DTSTART", event, [event.event_date]),
+      dateProperty("DTEND", event, [eventEnd(event)]),
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+
+    const time = event.event_date.split("T")[1] ?? "00:00:00";
+    const rule = getEventRecurrence(event);
+    if (series && event.recurrence_date) {
+      // Identified by the replaced occurrence's original start, in the series' terms
+      const seriesTime = series.event_date.split("T")[1] ?? "00:00:00";
+      lines.push(dateProperty("RECURRENCE-ID", series, [`${event.recurrence_date}T${seriesTime}`]));
+    } else if (rule) {
+      const rrule = formatRRule(rule).replace(
+        /UNTIL=(\d{8})(?=;|$)/,
+        (_, date: string) => `UNTIL=${formatUntil(event, date)}`
+      );
+      lines.push(`RRULE:${rrule}`);
+      if (event.exdates?.length) {
+        lines.push(dateProperty("EXDATE", event, event.exdates.map((d) => `${d}T${time}`)));
+      }
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
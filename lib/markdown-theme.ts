@@ -300,6 +300,9 @@ export function getPreviewCss(colors: MarkdownThemeColors): string {
 .markdown-preview .hashtag-tag {
   color: ${colors.hashtagTag ?? (colors.isDark ? "#c084fc" : "#9333ea")};
 }
+.markdown-preview .hashtag-tag[data-tag] {
+  cursor: pointer;
+}
 .markdown-preview .mermaid-block .mermaid-copy-btn svg {
   width: 16px;
   height: 16px;
@@ -436,6 +439,8 @@ ${getHighlightCss(colors)}
 /* Links: GFM-style, match editor link highlight. Allow long URLs to wrap so they don't cut off. */
 .markdown-preview a { color: ${link}; text-decoration: underline; overflow-wrap: break-word; word-wrap: break-word; word-break: break-word; }
 .markdown-preview a:visited { color: ${linkUrl}; }
+/* [[Wiki links]] to other notes: dotted underline to tell them apart from web links */
+.markdown-preview a.wiki-link, .markdown-preview a.wiki-link:visited { color: ${link}; text-decoration: underline dotted; text-underline-offset: 2px; cursor: pointer; }
       /* Tables (GFM): match old react-native-markdown-display table styles */
       .markdown-preview table { border-collapse: collapse; width: 100%; margin: 16px 0; border: 1px solid ${colors.ring}; border-radius: 0; background: ${colors.background}; overflow: hidden; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
       /* When tables overflow on small screens they are wrapped in a scroll container (see MarkdownPreviewWeb / MarkdownPreviewWebView)
@@ -451,6 +456,11 @@ ${getHighlightCss(colors)}
 .markdown-preview th[align="left"], .markdown-preview td[align="left"] { text-align: left; }
 .markdown-preview th[align="center"], .markdown-preview td[align="center"] { text-align: center; }
 .markdown-preview th[align="right"], .markdown-preview td[align="right"] { text-align: right; }
+/* Frontmatter properties: a compact key/value table above the note body */
+.markdown-preview table.note-properties { width: auto; min-width: 0; margin: 0 0 1.25em 0; box-shadow: none; border: none; background: transparent; }
+.markdown-preview table.note-properties tbody { background: transparent; }
+.markdown-preview table.note-properties th, .markdown-preview table.note-properties td { border: none; border-bottom: 1px solid ${colors.ring}; padding: 6px 12px 6px 0; font-size: 13px; line-height: 18px; letter-spacing: 0; background: transparent; }
+.markdown-preview table.note-properties th { font-weight: 500; color: ${colors.mutedForeground}; white-space: nowrap; }
 .markdown-preview hr { border: none; height: 1px; background: ${colors.ring}; margin: 1em 0; }
 .markdown-preview img { max-width: 100%; height: auto; border-radius: 4px; display: block; margin-left: auto; margin-right: auto; }
 .markdown-preview figure.image-with-caption { margin: 1.25em 0; text-align: center; }
@@ -463,6 +473,16 @@ ${getHighlightCss(colors)}
   font-style: italic;
 }
 .markdown-preview .preview-placeholder { color: ${colors.mutedForeground}; font-style: italic; margin: 0; padding: 0; }
+/* Version history: side-by-side diff of two note versions (getVersionDiffHtml). */
+.markdown-preview .version-diff { display: flex; flex-direction: column; gap: 4px; }
+.markdown-preview .version-diff-row { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1fr); gap: 8px; }
+.markdown-preview .version-diff-header { position: sticky; top: 0; z-index: 1; background-color: ${colors.muted}; padding-bottom: 4px; border-bottom: 1px solid ${colors.ring}; }
+.markdown-preview .version-diff-header .version-diff-cell { font-size: 0.8em; font-weight: 600; color: ${colors.mutedForeground}; }
+.markdown-preview .version-diff-cell { min-width: 0; padding: 4px 8px; border-radius: 6px; }
+.markdown-preview .version-diff-removed { background-color: ${colors.isDark ? "rgba(248,81,73,0.18)" : "rgba(207,34,46,0.10)"}; }
+.markdown-preview .version-diff-added { background-color: ${colors.isDark ? "rgba(63,185,80,0.18)" : "rgba(26,127,55,0.10)"}; }
+.markdown-preview .version-diff-cell:empty { background-color: transparent; }
+.markdown-preview .version-diff-gap { color: ${colors.mutedForeground}; font-size: 0.85em; text-align: center; padding: 2px 0; }
 /* Task lists (GFM): same left padding as bullet/number lists; we hide the default marker and draw our own checkbox. */
 .markdown-preview ul.contains-task-list,
 .markdown-preview ol.contains-task-list { list-style: none; padding-left: 1.5em; }
@@ -847,6 +867,10 @@ export function getCodeMirrorThemeConfig(
       color: colors.hashtagTag ?? (colors.isDark ? DEFAULT_HASHTAG_TAG_DARK : DEFAULT_HASHTAG_TAG_LIGHT),
       fontWeight: "500",
     },
+    ".cm-wiki-link": {
+      color: link,
+      textDecoration: "underline dotted",
+    },
     ".cm-math-marker": {
       opacity: "0.5",
     },
@@ -896,6 +920,7 @@ export function getCodeMirrorWebViewInjectCss(colors: MarkdownThemeColors): stri
 
     `.cm-mention-tag { color: ${colors.mentionTag ?? (colors.isDark ? DEFAULT_MENTION_TAG_DARK : DEFAULT_MENTION_TAG_LIGHT)} !important; font-weight: 500 !important; } ` +
     `.cm-hashtag-tag { color: ${colors.hashtagTag ?? (colors.isDark ? DEFAULT_HASHTAG_TAG_DARK : DEFAULT_HASHTAG_TAG_LIGHT)} !important; font-weight: 500 !important; } ` +
+    `.cm-wiki-link { color: ${link} !important; text-decoration: underline dotted !important; } ` +
     `.cm-math-marker { opacity: 0.5 !important; } ` +
     `.cm-highlight { background-color: rgb(250 204 21 / 0.4) !important; padding: 0.1em 0.2em !important; border-radius: 0px !important; } ` +
     `.cm-search-match { background-color: ${colors.isDark ? "rgba(255, 255, 0, 0.25)" : "rgba(255, 255, 0, 0.2)"} !important; } ` +
@@ -0,0 +1,282 @@
+/**
+ * Converts notes to a Word document (.docx) with the `docx` package, walking the mdast from
+ * remark instead of the preview HTML so headings, lists and tables become real Word structures.
+ *
+ * Covered: headings, paragraphs, bold/italic/strikethrough/inline code, links, lists (nested,
+ * ordered, task items), blockquotes, code blocks, tables, rules and frontmatter properties.
+ * Math and Mermaid are kept as their source text; images become links to the image.
+ */
+
+import { formatPropertyValue, parseProperties } from "@/lib/frontmatter";
+import type { Note } from "@/lib/supabase";
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type IRunOptions,
+  type ParagraphChild,
+} from "docx";
+import type { Nodes, PhrasingContent, RootContent } from "mdast";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+
+type RunStyle = Omit<IRunOptions, "text" | "children" | "break">;
+type Block = Paragraph | Table;
+
+/** Indentation context for nested blocks (list items and blockquotes). */
+type BlockContext = { listLevel: number; quoteDepth: number };
+
+const ORDERED_LIST = "ordered-list";
+const MONO_FONT = "Consolas";
+const CODE_SHADING = { type: ShadingType.CLEAR, color: "auto", fill: "F2F2F2" };
+const QUOTE_INDENT = 480;
+const BORDER = { style: BorderStyle.SINGLE, size: 4, color: "BFBFBF" };
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml"]).use(remarkMath);
+
+function runs(nodes: PhrasingContent[], style: RunStyle = {}): ParagraphChild[] {
+  return nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case "text":
+        return [new TextRun({ text: node.value, ...style })];
+      case "strong":
+        return runs(node.children, { ...style, bold: true });
+      case "emphasis":
+        return runs(node.children, { ...style, italics: true });
+      case "delete":
+        return runs(node.children, { ...style, strike: true });
+      case "inlineCode":
+        return [new TextRun({ text: node.value, ...style, font: MONO_FONT, shading: CODE_SHADING })];
+      case "break":
+        return [new TextRun({ break: 1 })];
+      case "link":
+        return [
+          new ExternalHyperlink({
+            link: node.url,
+            children: runs(node.children, { ...style, style: "Hyperlink" }),
+          }),
+        ];
+      case "image":
+        return [
+          new ExternalHyperlink({
+            link: node.url,
+            children: [new TextRun({ text: `[${node.alt || "Image"}]`, ...style, style: "Hyperlink" })],
+          }),
+        ];
+      case "footnoteReference":
+        return [new TextRun({ text: `[${node.label ?? node.identifier}]`, ...style, superScript: true })];
+      default:
+        // inlineMath keeps its TeX source; raw HTML is dropped like in the preview
+        if (node.type === "html") return [];
+        return "value" in node && typeof node.value === "string"
+          ? [new TextRun({ text: node.value, ...style, italics: true })]
+          : [];
+    }
+  });
+}
+
+function plainText(node: Nodes): string {
+  if ("value" in node && typeof node.value === "string") return node.value;
+  if ("children" in node) return (node.children as Nodes[]).map(plainText).join("");
+  return "";
+}
+
+/** Left indent and quote bar for a paragraph at this nesting. */
+function indentFor(context: BlockContext) {
+  if (context.quoteDepth === 0) return {};
+  return {
+    indent: { left: QUOTE_INDENT * context.quoteDepth },
+    border: { left: { style: BorderStyle.SINGLE, size: 12, color: "BFBFBF", space: 8 } },
+  };
+}
+
+function cell(children: ParagraphChild[], header: boolean): TableCell {
+  return new TableCell({
+    children: [new Paragraph({ children })],
+    shading: header ? { type: ShadingType.CLEAR, color: "auto", fill: "F2F2F2" } : undefined,
+  });
+}
+
+function table(rows: TableRow[]): Table {
+  return new Table({
+    rows,
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: {
+      top: BORDER,
+      bottom: BORDER,
+      left: BORDER,
+      right: BORDER,
+      insideHorizontal: BORDER,
+      insideVertical: BORDER,
+    },
+  });
+}
+
+function propertiesTable(yaml: string): Block[] {
+  const properties = parseProperties(yaml);
+  if (!properties) return codeBlock(yaml, { listLevel: 0, quoteDepth: 0 });
+  const rows = Object.entries(properties).map(
+    ([key, value]) =>
+      new TableRow({
+        children: [
+          cell([new TextRun({ text: key, bold: true })], true),
+          cell([new TextRun(formatPropertyValue(value))], false),
+        ],
+      })
+  );
+  return rows.length > 0 ? [table(rows), new Paragraph({})] : [];
+}
+
+function codeBlock(code: string, context: BlockContext): Paragraph[] {
+  return code.split("\n").map(
+    (line) =>
+      new Paragraph({
+        ...indentFor(context),
+        shading: CODE_SHADING,
+        spacing: { before: 0, after: 0 },
+        children: [new TextRun({ text: line, font: MONO_FONT, size: 20 })],
+      })
+  );
+}
+
+function createConverter() {
+  /** Each ordered list restarts at 1, so each gets its own numbering instance. */
+  let orderedInstance = 0;
+
+  const blocks = (nodes: RootContent[], context: BlockContext): Block[] =>
+    nodes.flatMap((node): Block[] => {
+      switch (node.type) {
+        case "heading":
+          return [new Paragraph({ heading: HEADINGS[node.depth - 1], children: runs(node.children) })];
+        case "paragraph":
+          return [new Paragraph({ ...indentFor(context), children: runs(node.children) })];
+        case "blockquote":
+          return blocks(node.children, { ...context, quoteDepth: context.quoteDepth + 1 });
+        case "code":
+          return codeBlock(node.value, context);
+        case "yaml":
+          return propertiesTable(node.value);
+        case "thematicBreak":
+          return [new Paragraph({ border: { bottom: { ...BORDER, space: 1 } } })];
+        case "list": {
+          const instance = node.ordered ? ++orderedInstance : 0;
+          const level = Math.min(context.listLevel, 8);
+          return node.children.flatMap((item) => {
+            const [first, ...rest] = item.children;
+            const checkbox = item.checked == null ? [] : [new TextRun(item.checked ? "☒ " : "☐ ")];
+            const marker = node.ordered
+              ? { numbering: { reference: ORDERED_LIST, level, instance } }
+              : { bullet: { level } };
+            const head =
+              first?.type === "paragraph"
+                ? [new Paragraph({ ...marker, children: [...checkbox, ...runs(first.children)] })]
+                : [new Paragraph({ ...marker, children: checkbox })];
+            const tail = blocks(first?.type === "paragraph" ? rest : item.children, {
+              ...context,
+              listLevel: context.listLevel + 1,
+            });
+            return [...head, ...tail];
+          });
+        }
+        case "table":
+          return [
+            table(
+              node.children.map(
+                (row, rowIndex) =>
+                  new TableRow({
+                    tableHeader: rowIndex === 0,
+                    children: row.children.map((tableCell) =>
+                      cell(runs(tableCell.children, rowIndex === 0 ? { bold: true } : {}), rowIndex === 0)
+                    ),
+                  })
+              )
+            ),
+            new Paragraph({}),
+          ];
+        case "footnoteDefinition":
+          return [
+            new Paragraph({
+              children: [
+                new TextRun({ text: `[${node.label ?? node.identifier}] `, superScript: true }),
+                new TextRun(node.children.map(plainText).join(" ")),
+              ],
+            }),
+          ];
+        case "html":
+        case "definition":
+          return [];
+        default:
+          // Block math: TeX source, centered
+          return "value" in node && typeof node.value === "string"
+            ? [
+                new Paragraph({
+                  alignment: AlignmentType.CENTER,
+                  children: [new TextRun({ text: node.value, font: MONO_FONT })],
+                }),
+              ]
+            : [];
+      }
+    });
+
+  return (markdown: string) => blocks(parser.parse(markdown).children, { listLevel: 0, quoteDepth: 0 });
+}
+
+/**
+ * Word document with one section per note (each starts on a new page under its title),
+ * returned as base64.
+ */
+export async function notesToDocx(
+  notes: Pick<Note, "title" | "content">[],
+  title: string
+): Promise<string> {
+  const convert = createConverter();
+  const doc = new Document({
+    title,
+    creator: "Gopx Drive",
+    styles: { default: { document: { run: { font: "Calibri", size: 22 } } } },
+    numbering: {
+      config: [
+        {
+          reference: ORDERED_LIST,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: notes.map((note) => ({
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, text: note.title || "Untitled" }),
+        ...convert(note.content),
+      ],
+    })),
+  });
+  return Packer.toBase64String(doc);
+}
@@ -8,12 +8,19 @@
  * fenced code blocks with language `mermaid` are converted into
  * `<div class="mermaid">...</div>` so downstream preview layers
  * (web DOM + WebView) can render them using the Mermaid runtime.
+ *
+ * A leading YAML frontmatter block is rendered as a property table
+ * (`<table class="note-properties">`) instead of a rule and a heading.
  */
 
+import { formatPropertyValue, parseProperties } from "@/lib/frontmatter";
+import { HASHTAG_RE, normalizeTag } from "@/lib/tags";
+import { WIKI_LINK_RE } from "@/lib/wiki-links";
 import rehypeHighlight from "rehype-highlight";
 import rehypeKatex from "rehype-katex";
 import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
 import rehypeStringify from "rehype-stringify";
+import remarkFrontmatter from "remark-frontmatter";
 import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
 import remarkParse from "remark-parse";
@@ -33,6 +40,63 @@ type HastNode = {
   };
 };
 
+type MdastNode = {
+  type: string;
+  value?: string;
+  children?: MdastNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown>; hChildren?: HastNode[] };
+};
+
+/**
+ * Remark plugin: replace the `yaml` node from remark-frontmatter (which remark-rehype drops)
+ * with a property table. Invalid YAML is shown as-is in a code block so it can be fixed.
+ * The node keeps its position, so line numbers of the rest of the note are unaffected.
+ */
+function remarkFrontmatterTable() {
+  return (tree: MdastNode) => {
+    const node = tree.children?.[0];
+    if (!node || node.type !== "yaml") return;
+    const properties = parseProperties(node.value ?? "");
+
+    node.type = "noteProperties";
+    if (!properties) {
+      node.data = {
+        hName: "pre",
+        hChildren: [
+          {
+            type: "element",
+            tagName: "code",
+            properties: {},
+            children: [{ type: "text", value: node.value ?? "" }],
+          },
+        ],
+      };
+      return;
+    }
+
+    const rows: HastNode[] = Object.entries(properties).map(([key, value]) => ({
+      type: "element",
+      tagName: "tr",
+      properties: {},
+      children: [
+        { type: "element", tagName: "th", properties: {}, children: [{ type: "text", value: key }] },
+        {
+          type: "element",
+          tagName: "td",
+          properties: {},
+          children: [{ type: "text", value: formatPropertyValue(value) }],
+        },
+      ],
+    }));
+    node.data = {
+      hName: rows.length > 0 ? "table" : "div",
+      hProperties: rows.length > 0 ? { className: ["note-properties"] } : {},
+      hChildren:
+        rows.length > 0 ? [{ type: "element", tagName: "tbody", properties: {}, children: rows }] : [],
+    };
+  };
+}
+
 /**
  * Rehype plugin: turn <pre><code class="language-mermaid">…</code></pre>
  * into <div class="mermaid">…</div> so Mermaid can render it.
@@ -205,6 +269,60 @@ function rehypeSandboxBlocks() {
   };
 }
 
+/**
+ * Rehype plugin: turn [[Note Title]] / [[Note Title|label]] into
+ * <a class="wiki-link" data-wiki-target="Note Title">label</a>.
+ * The preview layers intercept clicks on .wiki-link and navigate to the note.
+ */
+function rehypeWikiLinks() {
+  return (tree: HastNode) => {
+    visit(tree as any, "text", (node: HastNode, index: number | undefined, parent: HastNode | undefined) => {
+      // Don't parse inside code blocks or existing links
+      if (parent && (parent.tagName === "code" || parent.tagName === "pre" || parent.tagName === "a")) {
+        return;
+      }
+
+      if (node.value && typeof node.value === "string") {
+        const text = node.value;
+        const WIKI_REGEX = new RegExp(WIKI_LINK_RE.source, "g");
+        if (!WIKI_REGEX.test(text)) return;
+        WIKI_REGEX.lastIndex = 0;
+
+        const newChildren: HastNode[] = [];
+        let lastIndex = 0;
+        let match;
+
+        while ((match = WIKI_REGEX.exec(text)) !== null) {
+          const target = match[1].trim();
+          const label = (match[2] ?? "").trim() || target;
+
+          if (match.index > lastIndex) {
+            newChildren.push({ type: "text", value: text.slice(lastIndex, match.index) });
+          }
+
+          newChildren.push({
+            type: "element",
+            tagName: "a",
+            properties: { href: "#", className: ["wiki-link"], dataWikiTarget: target },
+            children: [{ type: "text", value: label }],
+          });
+
+          lastIndex = match.index + match[0].length;
+        }
+
+        if (lastIndex < text.length) {
+          newChildren.push({ type: "text", value: text.slice(lastIndex) });
+        }
+
+        if (parent && Array.isArray(parent.children) && typeof index === "number") {
+          parent.children.splice(index, 1, ...newChildren);
+          return index + newChildren.length;
+        }
+      }
+    });
+  };
+}
+
 /**
  * Rehype plugin: turn @tags into <span class="mention-tag">@tag</span>
  * Applies to text nodes only.
@@ -263,7 +381,8 @@ function rehypeMentions() {
 }
 
 /**
- * Rehype plugin: turn #hashtags into <span class="hashtag-tag">#hashtag</span>
+ * Rehype plugin: turn #hashtags (including nested #work/clientA) into
+ * <span class="hashtag-tag" data-tag="work/clienta">#work/clientA</span>
  * Applies to text nodes only.
  */
 function rehypeHashtags() {
@@ -276,7 +395,7 @@ function rehypeHashtags() {
 
       if (node.value && typeof node.value === "string") {
         const text = node.value;
-        const HASHTAG_REGEX = /(^|\s)(#[\w-]+)(?=\b|\s|$)/g;
+        const HASHTAG_REGEX = new RegExp(HASHTAG_RE.source, "g");
 
         if (!HASHTAG_REGEX.test(text)) return;
         HASHTAG_REGEX.lastIndex = 0; // Reset regex
@@ -298,7 +417,7 @@ function rehypeHashtags() {
           newChildren.push({
             type: "element",
             tagName: "span",
-            properties: { className: ["hashtag-tag"] },
+            properties: { className: ["hashtag-tag"], dataTag: normalizeTag(mTag) },
             children: [{ type: "text", value: mTag }]
           });
 
@@ -582,9 +701,17 @@ const sanitizeSchema = {
       "className",
       "data-line-index",
     ],
+    a: [
+      ...(defaultSchema.attributes?.a ?? []).filter(
+        (attr) => !(Array.isArray(attr) && attr[0] === "className")
+      ),
+      ["className", "data-footnote-backref", "wiki-link"],
+      "dataWikiTarget",
+    ],
     span: [
       ...(defaultSchema.attributes?.span ?? []),
       ["className", /^hljs-/, /^katex-/, "mention-tag", "hashtag-tag", "math", "math-inline", "math-display"],
+      "dataTag",
     ],
     div: [
       ...(defaultSchema.attributes?.div || []),
@@ -593,6 +720,10 @@ const sanitizeSchema = {
       "data-sandbox-source",
       ["className", "math", "math-display", "sandbox-block"],
     ],
+    table: [
+      ...(defaultSchema.attributes?.table ?? []),
+      ["className", "note-properties"],
+    ],
     annotation: ["encoding"],
   },
 };
@@ -602,11 +733,14 @@ let processor: ReturnType<typeof createProcessor> | null = null;
 function createProcessor() {
   return (unified() as any)
     .use(remarkParse)
+    .use(remarkFrontmatter, ["yaml"])
+    .use(remarkFrontmatterTable)
     .use(remarkMath)
     .use(remarkGfm)
     .use(remarkRehype, { allowDangerousHtml: false })
     .use(rehypeMermaidBlocks)
     .use(rehypeSandboxBlocks)
+    .use(rehypeWikiLinks)
     .use(rehypeMentions)
     .use(rehypeHashtags)
     .use(rehypeMark)
@@ -1,4 +1,4 @@
-import { Event } from "@/lib/supabase";
+import { Event, type EventInput, type EventUpdates } from "@/lib/supabase";
 
 const wait = (ms = 250) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -51,13 +51,7 @@ export const getEventById = async (id: string) => {
   return events.find((event) => event.id === id) ?? null;
 };
 
-export const createEvent = async (input: {
-  user_id: string;
-  title: string;
-  description: string;
-  event_date: string;
-  repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-}) => {
+export const createEvent = async (input: EventInput) => {
   await wait();
   const now = new Date().toISOString();
   const event: Event = {
@@ -67,6 +61,15 @@ export const createEvent = async (input: {
     description: input.description || "",
     event_date: input.event_date,
     repeat_interval: input.repeat_interval || "once",
+    rrule: input.rrule ?? null,
+    exdates: input.exdates ?? [],
+    recurrence_id: input.recurrence_id ?? null,
+    recurrence_date: input.recurrence_date ?? null,
+    start_at: input.start_at ?? null,
+    end_at: input.end_at ?? null,
+    all_day: input.all_day ?? false,
+    timezone: input.timezone ?? null,
+    reminders: input.reminders ?? [],
     created_at: now,
     updated_at: now,
   };
@@ -78,7 +81,7 @@ export const createEvent = async (input: {
 
 export const updateEvent = async (
   id: string,
-  updates: Partial<Pick<Event, "title" | "description" | "event_date" | "repeat_interval">>
+  updates: EventUpdates
 ) => {
   await wait();
   let updated: Event | null = null;
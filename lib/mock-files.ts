@@ -71,6 +71,7 @@ export const uploadFile = async (input: {
     type: string;
     size: number;
   };
+  folder_id?: string | null;
 }) => {
   await wait();
   const now = new Date().toISOString();
@@ -83,6 +84,8 @@ export const uploadFile = async (input: {
     file_size: input.file.size,
     mime_type: input.file.type,
     extension: fileExt,
+    is_archived: false,
+    folder_id: input.folder_id ?? null,
     created_at: now,
     updated_at: now,
   };
@@ -0,0 +1,327 @@
+/**
+ * Live collaborative editing of one note, run inside the editor (CodeMirrorWeb on web, the
+ * CodeMirrorDOM WebView on native) so remote operations are rebased against exactly what the
+ * local user has typed. Messages travel over the note's Realtime channel (see use-note-collab.ts).
+ *
+ * The channel relays broadcasts to every subscriber, the sender included, in one order; that order
+ * is the shared operation log. Each client keeps at most one operation in flight: it waits to see
+ * its own operation come back before sending the next, so an operation only ever needs mapping over
+ * the log entries that arrived after its `base`. Every client maps identically, so all converge.
+ * Positions travel as CodeMirror ChangeSet JSON; the editor passes its own ChangeSet class in, which
+ * keeps this module free of a second @codemirror/state instance.
+ *
+ * A client that joins asks the others (via presence) for a snapshot: the confirmed document, the log
+ * head and a tail of the log. A client left alone starts a new log (an "origin"); when two origins
+ * meet, the older one wins and the other side resyncs from it.
+ */
+
+import type { ChangeSet, Text } from "@codemirror/state";
+
+/** ChangeSet.toJSON() */
+export type CollabChangesJSON = (number | [number, ...string[]])[];
+
+export type CollabLogEntry = { id: string; clientId: string; changes: CollabChangesJSON };
+
+export type CollabMessage =
+  /** A client joined or needs to resync; editors answer with a snapshot. */
+  | { type: "hello"; clientId: string }
+  | {
+      type: "op";
+      clientId: string;
+      id: string;
+      origin: string;
+      /** Id of the last log entry the sender had applied (the origin id for an empty log). */
+      base: string;
+      changes: CollabChangesJSON;
+    }
+  | {
+      type: "snapshot";
+      clientId: string;
+      /** Client the snapshot answers. */
+      to: string;
+      origin: string;
+      /** Entry `log` starts after. */
+      logBase: string;
+      log: CollabLogEntry[];
+      doc: string;
+    };
+
+/** Another client's selection, shown as a caret with a name tag (positions in the document). */
+export type RemoteCursor = { clientId: string; name: string; color: string; anchor: number; head: number };
+
+export interface CollabSession {
+  /** Feed a message from the channel (or a synthesized hello). */
+  receive: (message: CollabMessage) => void;
+  /** Report a local edit; pass each transaction's changes in order. */
+  localChange: (changes: ChangeSet) => void;
+  destroy: () => void;
+}
+
+export interface CollabSessionOptions {
+  clientId: string;
+  /** Viewers follow along; they never send operations or answer hellos. */
+  canEdit: boolean;
+  /** The editor's ChangeSet class. */
+  ChangeSet: typeof ChangeSet;
+  /** Current editor document; the session starts from it. */
+  doc: Text;
+  send: (message: CollabMessage) => void;
+  /** Apply a remote change to the editor without reporting it back through localChange. */
+  applyRemote: (changes: ChangeSet) => void;
+}
+
+/** How long a joining client waits for a snapshot before starting its own log. */
+const SYNC_TIMEOUT_MS = 2000;
+/** Log entries kept for mapping late operations; older ones force a resync. */
+const MAX_LOG = 1000;
+/** Log entries sent with a snapshot. */
+const SNAPSHOT_LOG = 200;
+
+let idCounter = 0;
+
+function newId(clientId: string): string {
+  idCounter += 1;
+  return `${clientId}:${idCounter}`;
+}
+
+/** Sorts by start time, so the older of two origins compares smaller. */
+function newOrigin(clientId: string): string {
+  return `${Date.now().toString().padStart(14, "0")}:${clientId}`;
+}
+
+/** Smallest single replacement turning `from` into `to`. */
+function diffRange(from: string, to: string): { from: number; to: number; insert: string } | null {
+  if (from === to) return null;
+  let start = 0;
+  const max = Math.min(from.length, to.length);
+  while (start < max && from[start] === to[start]) start++;
+  let endFrom = from.length;
+  let endTo = to.length;
+  while (endFrom > start && endTo > start && from[endFrom - 1] === to[endTo - 1]) {
+    endFrom--;
+    endTo--;
+  }
+  return { from: start, to: endFrom, insert: to.slice(start, endTo) };
+}
+
+export function createCollabSession(options: CollabSessionOptions): CollabSession {
+  const { clientId, canEdit, ChangeSet: ChangeSetClass, send, applyRemote } = options;
+
+  let ready = false;
+  let origin = "";
+  let logBase = "";
+  let log: { id: string; clientId: string; changes: ChangeSet }[] = [];
+  /** The document as of the last log entry. */
+  let confirmed = options.doc;
+  /** Sent, not yet seen in the log; in `confirmed` coordinates. */
+  let inflight: { id: string; changes: ChangeSet } | null = null;
+  /** Not yet sent; applies on top of `confirmed` + inflight. */
+  let buffer: ChangeSet | null = null;
+  /** Operations received while waiting for a snapshot. */
+  let queue: Extract<CollabMessage, { type: "op" }>[] = [];
+  let syncTimer: ReturnType<typeof setTimeout> | null = null;
+  let destroyed = false;
+
+  const head = () => (log.length > 0 ? log[log.length - 1].id : logBase);
+
+  const flush = () => {
+    if (!ready || !canEdit || inflight || !buffer || buffer.empty) return;
+    inflight = { id: newId(clientId), changes: buffer };
+    buffer = null;
+    send({
+      type: "op",
+      clientId,
+      id: inflight.id,
+      origin,
+      base: head(),
+      changes: inflight.changes.toJSON() as CollabChangesJSON,
+    });
+  };
+
+  /** Apply a change in `confirmed` coordinates to the editor, rebased over local pending edits. */
+  const rebaseAndApply = (remote: ChangeSet) => {
+    let local = remote;
+    if (inflight) {
+      const pending = inflight.changes;
+      inflight = { id: inflight.id, changes: pending.map(local) };
+      local = local.map(pending, true);
+    }
+    if (buffer) {
+      const pending = buffer;
+      buffer = pending.map(local);
+      local = local.map(pending, true);
+    }
+    if (!local.empty) applyRemote(local);
+  };
+
+  const appendToLog = (entry: { id: string; clientId: string; changes: ChangeSet }) => {
+    log.push(entry);
+    confirmed = entry.changes.apply(confirmed);
+    if (log.length > MAX_LOG) {
+      const dropped = log.splice(0, log.length - MAX_LOG);
+      logBase = dropped[dropped.length - 1].id;
+    }
+  };
+
+  /** Index of the first log entry the sender had not seen, or -1 when `base` is unknown here. */
+  const baseIndex = (base: string): number => {
+    if (base === logBase) return 0;
+    const index = log.findIndex((entry) => entry.id === base);
+    return index < 0 ? -1 : index + 1;
+  };
+
+  const sendSnapshot = (to: string) => {
+    send({
+      type: "snapshot",
+      clientId,
+      to,
+      origin,
+      logBase: log.length > SNAPSHOT_LOG ? log[log.length - SNAPSHOT_LOG - 1].id : logBase,
+      log: log.slice(-SNAPSHOT_LOG).map((entry) => ({
+        id: entry.id,
+        clientId: entry.clientId,
+        changes: entry.changes.toJSON() as CollabChangesJSON,
+      })),
+      doc: confirmed.toString(),
+    });
+  };
+
+  const requestSync = () => {
+    if (destroyed) return;
+    ready = false;
+    queue = [];
+    send({ type: "hello", clientId });
+    if (syncTimer) clearTimeout(syncTimer);
+    // Nobody answered: keep (or start) our own log
+    syncTimer = setTimeout(() => {
+      syncTimer = null;
+      if (destroyed || ready) return;
+      if (!origin) {
+        origin = newOrigin(clientId);
+        logBase = origin;
+      }
+      ready = true;
+      const queued = queue;
+      queue = [];
+      for (const op of queued) receiveOp(op, true);
+      flush();
+    }, SYNC_TIMEOUT_MS);
+  };
+
+  const receiveOp = (op: Extract<CollabMessage, { type: "op" }>, replaying = false) => {
+    if (op.origin !== origin) {
+      if (replaying) return;
+      // Two logs met; the older one wins
+      if (op.origin < origin || !canEdit) requestSync();
+      else sendSnapshot(op.clientId);
+      return;
+    }
+    if (log.some((entry) => entry.id === op.id)) return;
+
+    const start = baseIndex(op.base);
+    if (start < 0) {
+      if (!replaying) {
+        console.warn("[note-collab] Missed operations; resyncing");
+        requestSync();
+      }
+      return;
+    }
+
+    let changes = ChangeSetClass.fromJSON(op.changes);
+    for (let i = start; i < log.length; i++) {
+      changes = changes.map(log[i].changes);
+    }
+    if (changes.length !== confirmed.length) {
+      console.warn("[note-collab] Operation does not fit the document; resyncing");
+      if (!replaying) requestSync();
+      return;
+    }
+    appendToLog({ id: op.id, clientId: op.clientId, changes });
+
+    if (inflight && op.id === inflight.id) {
+      inflight = null;
+      flush();
+      return;
+    }
+    rebaseAndApply(changes);
+  };
+
+  const adoptSnapshot = (snapshot: Extract<CollabMessage, { type: "snapshot" }>) => {
+    if (syncTimer) {
+      clearTimeout(syncTimer);
+      syncTimer = null;
+    }
+
+    // Local edits not in the snapshot stay pending and are sent again on the adopted log
+    let baseDoc = confirmed;
+    if (inflight) {
+      const id = inflight.id;
+      if (snapshot.log.some((entry) => entry.id === id)) {
+        baseDoc = inflight.changes.apply(confirmed);
+        inflight = null;
+      } else if (!queue.some((op) => op.id === id && op.origin === snapshot.origin)) {
+        buffer = buffer ? inflight.changes.compose(buffer) : inflight.changes;
+        inflight = null;
+      }
+      // Otherwise it is still on its way through the adopted log and is confirmed below
+    }
+
+    const range = diffRange(baseDoc.toString(), snapshot.doc);
+    const remote = ChangeSetClass.of(range ? [range] : [], baseDoc.length);
+    confirmed = remote.apply(baseDoc);
+    rebaseAndApply(remote);
+
+    origin = snapshot.origin;
+    logBase = snapshot.logBase;
+    log = snapshot.log.map((entry) => ({
+      id: entry.id,
+      clientId: entry.clientId,
+      changes: ChangeSetClass.fromJSON(entry.changes),
+    }));
+    ready = true;
+
+    const queued = queue;
+    queue = [];
+    for (const op of queued) receiveOp(op, true);
+    flush();
+  };
+
+  requestSync();
+
+  return {
+    receive: (message) => {
+      if (destroyed || message.clientId === clientId) {
+        // Our own operations come back through the channel to confirm them
+        if (!destroyed && message.type === "op") {
+          if (ready) receiveOp(message);
+          else queue.push(message);
+        }
+        return;
+      }
+      switch (message.type) {
+        case "hello":
+          if (ready && canEdit) sendSnapshot(message.clientId);
+          return;
+        case "snapshot":
+          // Answers our hello, or an older log telling us to join it
+          if (message.to !== clientId || (ready && !(message.origin < origin))) return;
+          adoptSnapshot(message);
+          return;
+        case "op":
+          if (ready) receiveOp(message);
+          else queue.push(message);
+          return;
+      }
+    },
+    localChange: (changes) => {
+      if (destroyed || changes.empty) return;
+      buffer = buffer ? buffer.compose(changes) : changes;
+      flush();
+    },
+    destroy: () => {
+      destroyed = true;
+      if (syncTimer) clearTimeout(syncTimer);
+      syncTimer = null;
+    },
+  };
+}
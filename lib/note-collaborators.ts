@@ -0,0 +1,39 @@
+import { UI_DEV } from "@/lib/config";
+import type { CollaboratorRole, NoteCollaborator } from "@/lib/supabase";
+import * as supabaseNoteCollaborators from "@/lib/supabase-note-collaborators";
+import type { SharedWithMeNote } from "@/lib/supabase-note-collaborators";
+
+export type { CollaboratorRole, NoteCollaborator, SharedWithMeNote };
+
+export const COLLABORATOR_ROLES: { role: CollaboratorRole; label: string }[] = [
+  { role: "viewer", label: "Can view" },
+  { role: "editor", label: "Can edit" },
+];
+
+/** Accounts invited to a note (owner only). Empty in UI_DEV. */
+export const listNoteCollaborators = async (noteId: string): Promise<NoteCollaborator[]> => {
+  if (UI_DEV) return [];
+  return supabaseNoteCollaborators.listNoteCollaborators(noteId);
+};
+
+/** Invite an account by email; inviting it again changes its role. */
+export const inviteCollaborator = async (
+  noteId: string,
+  email: string,
+  role: CollaboratorRole
+): Promise<NoteCollaborator> => {
+  if (UI_DEV) throw new Error("Sharing with other accounts needs a Supabase backend");
+  return supabaseNoteCollaborators.inviteNoteCollaborator(noteId, email.trim(), role);
+};
+
+/** Remove a collaborator, or leave a note shared with you by passing your own user id. */
+export const removeCollaborator = async (noteId: string, userId: string): Promise<void> => {
+  if (UI_DEV) return;
+  return supabaseNoteCollaborators.removeNoteCollaborator(noteId, userId);
+};
+
+/** Notes other accounts invited the signed-in user to, with the role they were given. */
+export const listNotesSharedWithMe = async (): Promise<SharedWithMeNote[]> => {
+  if (UI_DEV) return [];
+  return supabaseNoteCollaborators.listNotesSharedWithMe();
+};
@@ -0,0 +1,75 @@
+/**
+ * Note drafts: the editor's unsaved title and content, written to AsyncStorage a moment after
+ * every change so nothing typed is lost if the app is killed before a save. One draft per note,
+ * plus one for a new note that was never saved. A draft is dropped once its text is saved.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const DRAFT_KEY = "@note_draft";
+
+/** Draft slot for the new-note screen (no id yet). */
+export const NEW_NOTE_DRAFT_ID = "new";
+
+export type NoteDraft = {
+  noteId: string;
+  title: string;
+  content: string;
+  /** When the draft was written (ISO). */
+  saved_at: string;
+};
+
+function draftKey(userId: string, noteId: string): string {
+  return `${DRAFT_KEY}:${userId}:${noteId}`;
+}
+
+export async function getNoteDraft(userId: string, noteId: string): Promise<NoteDraft | null> {
+  try {
+    const raw = await AsyncStorage.getItem(draftKey(userId, noteId));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<NoteDraft>;
+    if (typeof parsed.content !== "string" || typeof parsed.saved_at !== "string") return null;
+    return {
+      noteId,
+      title: parsed.title ?? "",
+      content: parsed.content,
+      saved_at: parsed.saved_at,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function saveNoteDraft(
+  userId: string,
+  noteId: string,
+  draft: Pick<NoteDraft, "title" | "content">
+): Promise<void> {
+  try {
+    const value: NoteDraft = { noteId, title: draft.title, content: draft.content, saved_at: new Date().toISOString() };
+    await AsyncStorage.setItem(draftKey(userId, noteId), JSON.stringify(value));
+  } catch (error) {
+    console.warn("[note-drafts] Failed to save draft:", error);
+  }
+}
+
+export async function clearNoteDraft(userId: string, noteId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(draftKey(userId, noteId));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * True when the draft holds edits the saved note doesn't: written after the note's last save and
+ * with different text. `saved` is null for a note that was never saved.
+ */
+export function isDraftNewer(
+  draft: NoteDraft,
+  saved: { title: string; content: string; updated_at: string } | null
+): boolean {
+  if (!saved) return draft.title.trim().length > 0 || draft.content.trim().length > 0;
+  if (draft.title === saved.title && draft.content === saved.content) return false;
+  return new Date(draft.saved_at).getTime() > new Date(saved.updated_at).getTime();
+}
@@ -0,0 +1,71 @@
+/**
+ * Note export formats and the file-producing helpers that don't depend on rendering:
+ * file names, Markdown (single file or ZIP) and DOCX. HTML and PDF documents are built by
+ * getExportHtml; saving/sharing is platform-specific (export-file / export-file.web).
+ */
+
+import { notesToDocx } from "@/lib/markdown-to-docx";
+import type { Note } from "@/lib/supabase";
+import JSZip from "jszip";
+
+export type NoteExportFormat = "pdf" | "html" | "docx" | "markdown";
+
+export type ExportableNote = Pick<Note, "title" | "content">;
+
+export const EXPORT_FORMAT_LABELS: Record<NoteExportFormat, string> = {
+  pdf: "PDF",
+  html: "HTML",
+  docx: "Word (DOCX)",
+  markdown: "Markdown",
+};
+
+/** Formats offered for a single note and for a selection combined into one document. */
+export const SINGLE_NOTE_EXPORT_FORMATS: NoteExportFormat[] = ["pdf", "html", "docx", "markdown"];
+export const MULTI_NOTE_EXPORT_FORMATS: NoteExportFormat[] = ["pdf", "html", "markdown"];
+
+export const EXPORT_MIME_TYPES = {
+  pdf: "application/pdf",
+  html: "text/html",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  markdown: "text/markdown",
+  zip: "application/zip",
+} as const;
+
+/**
+ * A file name for `title`: characters not allowed on common file systems removed, length capped.
+ * `suffix` (e.g. " 2") goes after the cap, so it is never cut off.
+ */
+export function exportFileName(title: string, extension: string, suffix = ""): string {
+  const base = title
+    .replace(/[\\/:*?"<>|#^[\]\u0000-\u001f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100);
+  return `${base || "Untitled"}${suffix}.${extension}`;
+}
+
+/** One .md file per note (frontmatter kept), named after the note; duplicate titles get a number. */
+export async function notesToMarkdownZip(notes: ExportableNote[]): Promise<string> {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  for (const note of notes) {
+    let name = exportFileName(note.title, "md");
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = exportFileName(note.title, "md", ` ${n}`);
+    }
+    used.add(name.toLowerCase());
+    zip.file(name, note.content);
+  }
+  return zip.generateAsync({ type: "base64" });
+}
+
+/** A single note as a Word document, base64. */
+export function noteToDocx(note: ExportableNote): Promise<string> {
+  return notesToDocx([note], note.title || "Untitled");
+}
+
+/** Default title for a combined export of several notes. */
+export function combinedExportTitle(count: number, date: Date = new Date()): string {
+  const day = date.toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+  return `${count} notes – ${day}`;
+}
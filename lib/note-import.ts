@@ -0,0 +1,478 @@
+/**
+ * Import notes from other apps: an Obsidian vault, a Notion export, Evernote `.enex` files or
+ * plain Markdown, picked as a ZIP or as individual files.
+ *
+ * Everything lands in one new folder (named after the archive) with the source's folder
+ * structure recreated inside it. Along the way:
+ *
+ * - images referenced by notes are uploaded to the attachments bucket and the links rewritten
+ * - Obsidian `[[path/Note#heading|alias]]` links become `[[Note|alias]]`, and `![[image.png]]`
+ *   embeds become Markdown images
+ * - Notion's page IDs are stripped from titles and folders, and links between pages become
+ *   `[[wiki links]]`
+ * - Evernote notes (ENML) are converted to Markdown, their tags kept as frontmatter `tags`
+ *
+ * Notes are created one at a time through the regular notes API, so an import works offline
+ * like any other edit. A failed note or image is reported and the import carries on.
+ */
+
+import { createFolder } from "@/lib/folders";
+import { setNoteProperties } from "@/lib/frontmatter";
+import { htmlToMarkdown, type HtmlMediaResource } from "@/lib/html-to-markdown";
+import { createNote } from "@/lib/notes";
+import { uploadImageDataToNoteImages } from "@/lib/supabase-images";
+import { decode } from "base64-arraybuffer";
+import * as FileSystem from "expo-file-system/legacy";
+import JSZip from "jszip";
+import { Platform } from "react-native";
+import SparkMD5 from "spark-md5";
+
+export type ImportSource = "obsidian" | "notion" | "evernote" | "markdown";
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  obsidian: "Obsidian vault",
+  notion: "Notion export",
+  evernote: "Evernote",
+  markdown: "Markdown",
+};
+
+/** A file chosen with expo-document-picker (`file` is the browser File on web). */
+export type PickedImportFile = { name: string; uri: string; file?: File };
+
+export type ImportedNote = { id: string; title: string; path: string };
+
+/** A file or note that wasn't imported (or an image that couldn't be uploaded), with why. */
+export type ImportIssue = { path: string; message: string };
+
+export type ImportReport = {
+  source: ImportSource;
+  /** The folder everything was imported into. */
+  folderId: string;
+  folderName: string;
+  notes: ImportedNote[];
+  foldersCreated: number;
+  imagesUploaded: number;
+  failed: ImportIssue[];
+  skipped: ImportIssue[];
+};
+
+export type ImportProgress = { done: number; total: number; current: string };
+
+/** A file from the selection or from inside a ZIP, read on demand. */
+type ImportEntry = { path: string; text: () => Promise<string>; data: () => Promise<ArrayBuffer> };
+
+/** One note to create: where it goes and how to produce its Markdown. */
+type ImportUnit = { path: string; title: string; folder: string[]; content: () => Promise<string> };
+
+const NOTE_FILE_RE = /\.(md|markdown|txt)$/i;
+const HTML_FILE_RE = /\.html?$/i;
+const ENEX_FILE_RE = /\.enex$/i;
+const ZIP_FILE_RE = /\.zip$/i;
+/** Notion appends a 32-hex-digit page ID to every exported file and folder name. */
+const NOTION_ID_RE = /\s+[0-9a-f]{32}$/i;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  heic: "image/heic",
+  avif: "image/avif",
+};
+
+/** `![alt](path "title")` with a relative path. Group 1: alt, 2: path (maybe <bracketed>), 3: rest. */
+const MD_IMAGE_RE = /!\[([^\]]*)\]\(\s*(<[^>]+>|[^)\s]+)((?:\s+"[^"]*")?\s*)\)/g;
+/** `[text](path)` not preceded by `!`. Group 1: prefix char, 2: text, 3: path. */
+const MD_LINK_RE = /(^|[^!])\[([^\]]*)\]\(\s*(<[^>]+>|[^)\s]+)\s*\)/g;
+/** `![[target|size]]` embeds. Group 1: target. */
+const EMBED_RE = /!\[\[([^\]|#\n]+)(?:#[^\]|\n]*)?(?:\|[^\]\n]*)?\]\]/g;
+/** `[[target#heading|alias]]`. Group 1: target, 2: alias. */
+const WIKI_RE = /\[\[([^\]|#\n]+)(?:#[^\]|\n]*)?(?:\|([^\]\n]+))?\]\]/g;
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+function stripExtension(name: string): string {
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(0, index) : name;
+}
+
+function extension(name: string): string {
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(index + 1).toLowerCase() : "";
+}
+
+/** Resolve `relative` against `dir` (both `/`-separated, no leading slash). */
+function joinPath(dir: string, relative: string): string {
+  const parts = dir ? dir.split("/") : [];
+  for (const part of relative.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function isExternalUrl(target: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("#");
+}
+
+function unbracket(target: string): string {
+  return target.startsWith("<") && target.endsWith(">") ? target.slice(1, -1) : target;
+}
+
+/** Hidden files and folders (.obsidian, .trash, .DS_Store) and macOS ZIP metadata. */
+function isIgnoredPath(path: string): boolean {
+  return path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+}
+
+async function replaceAsync(
+  text: string,
+  re: RegExp,
+  replace: (match: RegExpExecArray) => Promise<string>
+): Promise<string> {
+  const matches = [...text.matchAll(re)] as RegExpExecArray[];
+  if (matches.length === 0) return text;
+  const replacements: string[] = [];
+  for (const match of matches) replacements.push(await replace(match));
+  let result = "";
+  let last = 0;
+  matches.forEach((match, i) => {
+    result += text.slice(last, match.index) + replacements[i];
+    last = match.index + match[0].length;
+  });
+  return result + text.slice(last);
+}
+
+async function readPickedFile(file: PickedImportFile): Promise<ArrayBuffer> {
+  if (file.file) return file.file.arrayBuffer();
+  if (Platform.OS === "web") return (await fetch(file.uri)).arrayBuffer();
+  return decode(await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.Base64 }));
+}
+
+export function readPickedText(file: PickedImportFile): Promise<string> {
+  if (file.file) return file.file.text();
+  if (Platform.OS === "web") return fetch(file.uri).then((response) => response.text());
+  return FileSystem.readAsStringAsync(file.uri);
+}
+
+/**
+ * Files from the selection, with ZIPs expanded (hidden files included, for source detection).
+ * A ZIP's single top-level folder is dropped from paths and names the import instead.
+ */
+async function readEntries(files: PickedImportFile[]): Promise<{ entries: ImportEntry[]; rootName: string | null }> {
+  const entries: ImportEntry[] = [];
+  let rootName: string | null = null;
+  for (const file of files) {
+    if (!ZIP_FILE_RE.test(file.name)) {
+      entries.push({ path: file.name, text: () => readPickedText(file), data: () => readPickedFile(file) });
+      continue;
+    }
+    const zip = await JSZip.loadAsync(await readPickedFile(file));
+    const zipEntries = Object.values(zip.files).filter(
+      (entry) => !entry.dir && !entry.name.split("/").includes("__MACOSX")
+    );
+    const visible = zipEntries.filter((entry) => !isIgnoredPath(entry.name));
+    const tops = new Set(visible.map((entry) => entry.name.split("/")[0]));
+    const [top] = tops;
+    const stripTop =
+      tops.size === 1 && zipEntries.every((entry) => entry.name.startsWith(`${top}/`) || isIgnoredPath(entry.name));
+    rootName ??= stripTop ? top : stripExtension(file.name);
+    for (const entry of zipEntries) {
+      entries.push({
+        path: stripTop && entry.name.startsWith(`${top}/`) ? entry.name.slice(top.length + 1) : entry.name,
+        text: () => entry.async("string"),
+        data: () => entry.async("arraybuffer"),
+      });
+    }
+  }
+  return { entries, rootName };
+}
+
+export function detectImportSource(paths: string[]): ImportSource {
+  if (paths.some((path) => ENEX_FILE_RE.test(path))) return "evernote";
+  if (paths.some((path) => path.split("/").includes(".obsidian"))) return "obsidian";
+  if (paths.some((path) => NOTION_ID_RE.test(stripExtension(basename(path))))) return "notion";
+  return "markdown";
+}
+
+/** A file or folder name as a note title / folder name: no extension, no Notion page ID. */
+function cleanName(name: string): string {
+  return stripExtension(name).replace(NOTION_ID_RE, "").trim() || "Untitled";
+}
+
+type EnexResource = { hash: string; mimeType: string; fileName: string | undefined; data: ArrayBuffer };
+type EnexNote = { title: string; content: string; tags: string[]; resources: EnexResource[] };
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_all, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function xmlField(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? match[1] : undefined;
+}
+
+/** Notes in an Evernote export. Resource hashes are the MD5 of their data, as `<en-media hash>` expects. */
+export function parseEnex(xml: string): EnexNote[] {
+  const notes: EnexNote[] = [];
+  for (const [, noteXml] of xml.matchAll(/<note>([\s\S]*?)<\/note>/g)) {
+    // The content is CDATA, which may itself contain anything but `]]>`; cut it out before the resources.
+    const content = xmlField(noteXml, "content");
+    const rest = content === undefined ? noteXml : noteXml.replace(content, "");
+    const resources: EnexResource[] = [];
+    for (const [, resourceXml] of rest.matchAll(/<resource>([\s\S]*?)<\/resource>/g)) {
+      const base64 = xmlField(resourceXml, "data")?.replace(/\s+/g, "");
+      if (!base64) continue;
+      const data = decode(base64);
+      const fileName = xmlField(resourceXml, "file-name");
+      resources.push({
+        hash: SparkMD5.ArrayBuffer.hash(data),
+        mimeType: xmlField(resourceXml, "mime")?.trim() ?? "application/octet-stream",
+        fileName: fileName ? decodeXmlText(fileName).trim() : undefined,
+        data,
+      });
+    }
+    notes.push({
+      title: decodeXmlText(xmlField(rest, "title") ?? "").trim() || "Untitled",
+      content: content === undefined ? "" : decodeXmlText(content),
+      tags: [...rest.matchAll(/<tag>([\s\S]*?)<\/tag>/g)].map(([, tag]) => decodeXmlText(tag).trim()),
+      resources,
+    });
+  }
+  return notes;
+}
+
+/**
+ * Import the picked files into a new folder. `onProgress` is called before each note is
+ * created. Throws only when nothing could be read; per-file problems end up in the report.
+ */
+export async function importNotes(
+  userId: string,
+  files: PickedImportFile[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportReport> {
+  const { entries, rootName } = await readEntries(files);
+  const source = detectImportSource(entries.map((entry) => entry.path));
+  const visible = entries.filter((entry) => !isIgnoredPath(entry.path));
+
+  const failed: ImportIssue[] = [];
+  const skipped: ImportIssue[] = [];
+  const byPath = new Map(visible.map((entry) => [entry.path.toLowerCase(), entry]));
+  const byName = new Map<string, ImportEntry>();
+  for (const entry of visible) {
+    const name = basename(entry.path).toLowerCase();
+    if (!byName.has(name)) byName.set(name, entry);
+  }
+
+  let imagesUploaded = 0;
+  const uploads = new Map<string, Promise<string | null>>();
+  /** Upload an image once, however many notes use it; null (and a report entry) on failure. */
+  const uploadImage = (path: string, name: string, load: () => Promise<ArrayBuffer>, type?: string) => {
+    const existing = uploads.get(path);
+    if (existing) return existing;
+    const upload = (async () => {
+      try {
+        const url = await uploadImageDataToNoteImages({
+          user_id: userId,
+          name,
+          type: type ?? IMAGE_MIME_TYPES[extension(name)] ?? "application/octet-stream",
+          data: await load(),
+        });
+        imagesUploaded++;
+        return url;
+      } catch (error) {
+        failed.push({ path, message: error instanceof Error ? error.message : "Image upload failed" });
+        return null;
+      }
+    })();
+    uploads.set(path, upload);
+    return upload;
+  };
+
+  const findEntry = (fromDir: string, target: string): ImportEntry | undefined => {
+    const decoded = safeDecode(unbracket(target)).split("#")[0];
+    return (
+      byPath.get(joinPath(fromDir, decoded).toLowerCase()) ??
+      byPath.get(decoded.replace(/^\/+/, "").toLowerCase()) ??
+      byName.get(basename(decoded).toLowerCase())
+    );
+  };
+  const isImage = (path: string) => extension(path) in IMAGE_MIME_TYPES;
+  const isNoteFile = (path: string) => NOTE_FILE_RE.test(path) || HTML_FILE_RE.test(path);
+
+  /** Markdown from another app, with images uploaded and links rewritten for this one. */
+  const convertMarkdown = async (entry: ImportEntry, title: string, markdown: string): Promise<string> => {
+    const dir = dirname(entry.path);
+    let content = markdown.replace(/\r\n/g, "\n");
+
+    if (source === "notion") {
+      // Notion repeats the page title as the first heading
+      const firstLine = content.split("\n", 1)[0];
+      if (firstLine.replace(/^#\s+/, "").trim() === title && firstLine.startsWith("# ")) {
+        content = content.slice(firstLine.length).replace(/^\n+/, "");
+      }
+    }
+
+    content = await replaceAsync(content, EMBED_RE, async ([all, target]) => {
+      const found = findEntry(dir, target.trim());
+      if (found && isImage(found.path)) {
+        const url = await uploadImage(found.path, basename(found.path), found.data);
+        return url ? `![${cleanName(basename(found.path))}](${url})` : all;
+      }
+      // Note embeds (transclusion) aren't supported: keep them as links
+      return `[[${cleanName(basename(target.trim()))}]]`;
+    });
+
+    content = await replaceAsync(content, MD_IMAGE_RE, async ([all, alt, target, rest]) => {
+      if (isExternalUrl(unbracket(target))) return all;
+      const found = findEntry(dir, target);
+      if (!found || !isImage(found.path)) return all;
+      const url = await uploadImage(found.path, basename(found.path), found.data);
+      return url ? `![${alt}](${url}${rest})` : all;
+    });
+
+    content = await replaceAsync(content, MD_LINK_RE, async ([all, prefix, text, target]) => {
+      if (isExternalUrl(unbracket(target))) return all;
+      const found = findEntry(dir, target);
+      if (!found) return all;
+      if (isNoteFile(found.path)) {
+        const linkTitle = cleanName(basename(found.path));
+        return `${prefix}[[${linkTitle}${text && text !== linkTitle ? `|${text}` : ""}]]`;
+      }
+      if (isImage(found.path)) {
+        const url = await uploadImage(found.path, basename(found.path), found.data);
+        return url ? `${prefix}[${text}](${url})` : all;
+      }
+      return all;
+    });
+
+    return content.replace(WIKI_RE, (_all, target: string, alias?: string) => {
+      const linkTitle = cleanName(basename(target.trim()));
+      return `[[${linkTitle}${alias ? `|${alias.trim()}` : ""}]]`;
+    });
+  };
+
+  const units: ImportUnit[] = [];
+  for (const entry of visible) {
+    const folder = dirname(entry.path).split("/").filter(Boolean).map(cleanName);
+    const title = cleanName(basename(entry.path));
+    if (NOTE_FILE_RE.test(entry.path)) {
+      units.push({
+        path: entry.path,
+        title,
+        folder,
+        content: async () => convertMarkdown(entry, title, await entry.text()),
+      });
+    } else if (HTML_FILE_RE.test(entry.path)) {
+      units.push({
+        path: entry.path,
+        title,
+        folder,
+        content: async () => convertMarkdown(entry, title, await htmlToMarkdown(await entry.text())),
+      });
+    } else if (ENEX_FILE_RE.test(entry.path)) {
+      let notes: EnexNote[];
+      try {
+        notes = parseEnex(await entry.text());
+      } catch (error) {
+        failed.push({ path: entry.path, message: error instanceof Error ? error.message : "Couldn't read the file" });
+        continue;
+      }
+      // One notebook per .enex file
+      const notebook = [...folder, cleanName(basename(entry.path))];
+      notes.forEach((note, index) => {
+        units.push({
+          path: `${entry.path}/${note.title}`,
+          title: note.title,
+          folder: notebook,
+          content: async () => {
+            const media = new Map<string, HtmlMediaResource>();
+            for (const [i, resource] of note.resources.entries()) {
+              const name = resource.fileName ?? `${note.title}-${i + 1}`;
+              if (!resource.mimeType.startsWith("image/")) {
+                skipped.push({ path: `${note.title}/${name}`, message: "Only images are imported from Evernote attachments" });
+                continue;
+              }
+              const resourcePath = `${entry.path}#${index}/${resource.hash}`;
+              const url = await uploadImage(resourcePath, name, async () => resource.data, resource.mimeType);
+              if (url) media.set(resource.hash, { url, fileName: resource.fileName, mimeType: resource.mimeType });
+            }
+            const markdown = await htmlToMarkdown(note.content, { resolveMedia: (hash) => media.get(hash) });
+            return note.tags.length > 0 ? setNoteProperties(markdown, { tags: note.tags }) : markdown;
+          },
+        });
+      });
+    } else if (!isImage(entry.path)) {
+      skipped.push({
+        path: entry.path,
+        message:
+          extension(entry.path) === "csv" && source === "notion"
+            ? "Notion databases (CSV) aren't imported"
+            : "Unsupported file type",
+      });
+    }
+  }
+
+  if (units.length === 0) {
+    throw new Error("No notes found. Pick a ZIP, Markdown (.md), HTML or Evernote (.enex) files.");
+  }
+
+  const folderName = rootName ?? `${IMPORT_SOURCE_LABELS[source]} import`;
+  const root = await createFolder({ user_id: userId, name: folderName });
+  let foldersCreated = 1;
+  const folderIds = new Map<string, string>([["", root.id]]);
+  const ensureFolder = async (path: string[]): Promise<string> => {
+    let parentId = root.id;
+    for (let depth = 1; depth <= path.length; depth++) {
+      const key = path.slice(0, depth).join("/");
+      let id = folderIds.get(key);
+      if (!id) {
+        id = (await createFolder({ user_id: userId, name: path[depth - 1], parent_id: parentId })).id;
+        folderIds.set(key, id);
+        foldersCreated++;
+      }
+      parentId = id;
+    }
+    return parentId;
+  };
+
+  const notes: ImportedNote[] = [];
+  for (const [index, unit] of units.entries()) {
+    onProgress?.({ done: index, total: units.length, current: unit.title });
+    try {
+      const content = await unit.content();
+      const folderId = await ensureFolder(unit.folder);
+      const note = await createNote({ user_id: userId, title: unit.title, content, folder_id: folderId });
+      notes.push({ id: note.id, title: unit.title, path: unit.path });
+    } catch (error) {
+      failed.push({ path: unit.path, message: error instanceof Error ? error.message : "Import failed" });
+    }
+  }
+  onProgress?.({ done: units.length, total: units.length, current: "" });
+
+  return { source, folderId: root.id, folderName, notes, foldersCreated, imagesUploaded, failed, skipped };
+}
@@ -0,0 +1,103 @@
+/**
+ * Field-level three-way merge for notes.
+ * The reservoir keeps a base snapshot (server state at last pull/push) per note; when both the
+ * local row and the server changed since that base, fields are merged individually and only
+ * fields changed differently on both sides are reported as conflicts.
+ */
+
+import type { Note } from "@/lib/supabase";
+import { merge3 } from "@/lib/text-diff";
+import { isEncryptedText } from "@/lib/vault-crypto";
+
+/** The synced fields of a note as seen at one point in time. */
+export type NoteSnapshot = {
+  title: string;
+  content: string;
+  is_archived: boolean;
+  folder_id: string | null;
+  share_token: string | null;
+  updated_at: string;
+};
+
+export type NoteMergeField = "title" | "content" | "is_archived" | "folder_id" | "share_token";
+
+const MERGE_FIELDS: NoteMergeField[] = ["title", "content", "is_archived", "folder_id", "share_token"];
+
+export type NoteMergeResult = {
+  merged: Omit<NoteSnapshot, "updated_at">;
+  conflicts: NoteMergeField[];
+};
+
+/** An unresolved conflict between a local edit and a server edit of the same note. */
+export type NoteConflict = {
+  noteId: string;
+  base: NoteSnapshot;
+  local: NoteSnapshot;
+  remote: NoteSnapshot;
+  detectedAt: string;
+};
+
+export function snapshotOf(note: Note): NoteSnapshot {
+  return {
+    title: note.title ?? "",
+    content: note.content ?? "",
+    is_archived: Boolean(note.is_archived),
+    folder_id: note.folder_id ?? null,
+    share_token: note.share_token ?? null,
+    updated_at: note.updated_at,
+  };
+}
+
+export function parseSnapshot(raw: unknown): NoteSnapshot | null {
+  if (typeof raw !== "string" || raw.length === 0) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<NoteSnapshot>;
+    if (typeof parsed.updated_at !== "string") return null;
+    return {
+      title: parsed.title ?? "",
+      content: parsed.content ?? "",
+      is_archived: Boolean(parsed.is_archived),
+      folder_id: parsed.folder_id ?? null,
+      share_token: parsed.share_token ?? null,
+      updated_at: parsed.updated_at,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** True when the server row is a different revision than the base (timestamps compared as instants). */
+export function isRemoteChanged(base: NoteSnapshot, remote: Pick<Note, "updated_at">): boolean {
+  return new Date(base.updated_at).getTime() !== new Date(remote.updated_at).getTime();
+}
+
+export function mergeNoteSnapshots(
+  base: NoteSnapshot,
+  local: NoteSnapshot,
+  remote: NoteSnapshot
+): NoteMergeResult {
+  const merged = { ...local };
+  const conflicts: NoteMergeField[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    const localChanged = local[field] !== base[field];
+    const remoteChanged = remote[field] !== base[field];
+    if (!remoteChanged || local[field] === remote[field]) continue;
+    if (!localChanged) {
+      (merged as Record<NoteMergeField, unknown>)[field] = remote[field];
+      continue;
+    }
+    // Ciphertext of vault notes has no lines to merge; both edits are kept for the user to pick
+    if (field === "content" && !isEncryptedText(local.content) && !isEncryptedText(remote.content)) {
+      const result = merge3(base.content, local.content, remote.content);
+      if (result.clean) {
+        merged.content = result.hunks.flatMap((h) => (h.type === "stable" ? h.lines : [])).join("\n");
+        continue;
+      }
+    }
+    conflicts.push(field);
+  }
+
+  const { updated_at: _updatedAt, ...fields } = merged;
+  return { merged: fields, conflicts };
+}
@@ -0,0 +1,181 @@
+/**
+ * Note search query parsing and snippet helpers shared by the SQLite FTS5 index (native),
+ * Postgres full-text search (web) and the in-memory fallback.
+ *
+ * Query syntax: bare words are ANDed, "quoted text" is a phrase, and `word*` is a prefix.
+ * The last bare word is also treated as a prefix so results update while typing.
+ */
+
+import type { Note } from "@/lib/supabase";
+
+/** Snippet highlight delimiters. Control characters so they can't collide with note text. */
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export type SearchTerm = {
+  /** Lower-cased words; more than one for a phrase. */
+  words: string[];
+  phrase: boolean;
+  prefix: boolean;
+};
+
+export type NoteSearchResult = {
+  note: Note;
+  /** Title with matches wrapped in HIGHLIGHT_START / HIGHLIGHT_END. */
+  titleHighlighted: string;
+  /** Excerpt of content around the best match, highlighted the same way. */
+  snippet: string;
+  /** Higher is better. Only comparable within one result set. */
+  rank: number;
+};
+
+/** Letters/digits incl. accented Latin, Greek, Cyrillic and CJK; avoids \p{} escapes for older JS engines. */
+const WORD_RE = /[0-9A-Za-z_\u00C0-\u1FFF\u2C00-\uD7FF]+/g;
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(WORD_RE) ?? [];
+}
+
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const tokenRe = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenRe.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const words = wordsOf(match[1]);
+      if (words.length > 0) terms.push({ words, phrase: words.length > 1, prefix: false });
+      continue;
+    }
+    const raw = match[2];
+    const words = wordsOf(raw);
+    if (words.length === 0) continue;
+    // "foo-bar" style tokens behave like a phrase, as both tokenizers split them anyway
+    terms.push({ words, phrase: words.length > 1, prefix: raw.endsWith("*") });
+  }
+
+  const last = terms[terms.length - 1];
+  if (last && !last.phrase && !/"\s*$/.test(query) && !/\s$/.test(query)) {
+    last.prefix = true;
+  }
+  return terms;
+}
+
+/** FTS5 MATCH expression; every token is quoted so user input can't inject FTS syntax. */
+export function toFtsMatch(terms: SearchTerm[]): string {
+  return terms
+    .map((t) => `"${t.words.join(" ")}"${t.prefix ? "*" : ""}`)
+    .join(" AND ");
+}
+
+/** Postgres to_tsquery expression (phrases use the followed-by operator). */
+export function toTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map((t) => {
+      const parts = t.words.map((w, i) =>
+        t.prefix && i === t.words.length - 1 ? `${w}:*` : w
+      );
+      return parts.length > 1 ? `(${parts.join(" <-> ")})` : parts[0];
+    })
+    .join(" & ");
+}
+
+function termMatchesAt(tokens: string[], index: number, term: SearchTerm): boolean {
+  return term.words.every((word, offset) => {
+    const token = tokens[index + offset];
+    if (token === undefined) return false;
+    const isLast = offset === term.words.length - 1;
+    return isLast && term.prefix ? token.startsWith(word) : token === word;
+  });
+}
+
+type Token = { text: string; start: number; end: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(WORD_RE)) {
+    tokens.push({ text: m[0].toLowerCase(), start: m.index ?? 0, end: (m.index ?? 0) + m[0].length });
+  }
+  return tokens;
+}
+
+/** Character ranges in `text` matched by any term. */
+function matchRanges(text: string, terms: SearchTerm[]): Array<[number, number]> {
+  const tokens = tokenize(text);
+  const words = tokens.map((t) => t.text);
+  const ranges: Array<[number, number]> = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (const term of terms) {
+      if (termMatchesAt(words, i, term)) {
+        ranges.push([tokens[i].start, tokens[i + term.words.length - 1].end]);
+      }
+    }
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+function wrapRanges(text: string, ranges: Array<[number, number]>, from = 0, to = text.length): string {
+  let out = "";
+  let pos = from;
+  for (const [start, end] of ranges) {
+    if (end <= pos || start >= to) continue;
+    const s = Math.max(start, pos);
+    const e = Math.min(end, to);
+    out += text.slice(pos, s) + HIGHLIGHT_START + text.slice(s, e) + HIGHLIGHT_END;
+    pos = e;
+  }
+  return out + text.slice(pos, to);
+}
+
+/** True when every term occurs in the title or content (same semantics as the FTS query). */
+export function noteMatches(note: Pick<Note, "title" | "content">, terms: SearchTerm[]): boolean {
+  const words = [...wordsOf(note.title), ...wordsOf(note.content)];
+  return terms.every((term) => words.some((_, i) => termMatchesAt(words, i, term)));
+}
+
+/** In-memory highlight + snippet, used where the index can't produce one (LIKE fallback, mock data). */
+export function buildSearchResult(
+  note: Note,
+  terms: SearchTerm[],
+  snippetChars = 120
+): NoteSearchResult {
+  const titleRanges = matchRanges(note.title, terms);
+  const contentRanges = matchRanges(note.content, terms);
+  const first = contentRanges[0];
+  let snippet: string;
+  if (!first) {
+    snippet = note.content.slice(0, snippetChars);
+    if (note.content.length > snippetChars) snippet += "…";
+  } else {
+    const start = Math.max(0, first[0] - Math.floor(snippetChars / 3));
+    const end = Math.min(note.content.length, start + snippetChars);
+    snippet =
+      (start > 0 ? "…" : "") +
+      wrapRanges(note.content, contentRanges, start, end) +
+      (end < note.content.length ? "…" : "");
+  }
+  return {
+    note,
+    titleHighlighted: wrapRanges(note.title, titleRanges),
+    snippet: snippet.replace(/\s+/g, " "),
+    // Title hits weigh more than body hits, mirroring the column weights used by the indexes
+    rank: titleRanges.length * 10 + contentRanges.length,
+  };
+}
+
+/** Split highlighted text into runs for rendering. */
+export function splitHighlights(text: string): Array<{ text: string; highlighted: boolean }> {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let highlighted = false;
+  let current = "";
+  for (const ch of text) {
+    if (ch === HIGHLIGHT_START || ch === HIGHLIGHT_END) {
+      if (current) parts.push({ text: current, highlighted });
+      current = "";
+      highlighted = ch === HIGHLIGHT_START;
+      continue;
+    }
+    current += ch;
+  }
+  if (current) parts.push({ text: current, highlighted });
+  return parts;
+}
@@ -0,0 +1,122 @@
+/**
+ * Note templates: ordinary notes kept in a top-level "Templates" folder. Their content may use
+ * placeholders that are filled in when a note is created from them:
+ *
+ * - `{{date}}` — today as YYYY-MM-DD, `{{time}}` — the current time as HH:mm
+ * - `{{title}}` — the new note's title
+ * - `{{cursor}}` — where the cursor is placed (removed from the text)
+ *
+ * Unknown placeholders are left as typed. The daily note is titled with its date (YYYY-MM-DD);
+ * the template it starts from is remembered per user.
+ */
+
+import { formatDateToLocalString } from "@/lib/calendar-utils";
+import { listFolders } from "@/lib/folders";
+import { createNote, findNoteByTitle, listNotesByFolder } from "@/lib/notes";
+import type { Folder, Note } from "@/lib/supabase";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export const TEMPLATES_FOLDER_NAME = "Templates";
+
+const DAILY_NOTE_TEMPLATE_KEY = "@daily_note_template";
+
+const PLACEHOLDER_RE = /\{\{\s*(date|time|title|cursor)\s*\}\}/gi;
+
+export type RenderedTemplate = {
+  text: string;
+  /** Offset of the cursor marker in `text`, or null when the template has none. */
+  cursor: number | null;
+};
+
+function formatTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${hours}:${minutes}`;
+}
+
+/** Fill in a template's placeholders. Only the first cursor marker counts; later ones are dropped. */
+export function renderTemplate(
+  template: string,
+  vars: { title: string; now?: Date }
+): RenderedTemplate {
+  const now = vars.now ?? new Date();
+  let text = "";
+  let cursor: number | null = null;
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER_RE)) {
+    text += template.slice(last, match.index);
+    last = match.index! + match[0].length;
+    switch (match[1].toLowerCase()) {
+      case "date":
+        text += formatDateToLocalString(now);
+        break;
+      case "time":
+        text += formatTime(now);
+        break;
+      case "title":
+        text += vars.title;
+        break;
+      case "cursor":
+        if (cursor === null) cursor = text.length;
+        break;
+    }
+  }
+  text += template.slice(last);
+  return { text, cursor };
+}
+
+export function findTemplatesFolder(folders: Folder[]): Folder | undefined {
+  const name = TEMPLATES_FOLDER_NAME.toLowerCase();
+  return folders.find((f) => !f.parent_id && f.name.trim().toLowerCase() === name);
+}
+
+/** Templates (notes in the Templates folder), sorted by title. Empty when there is no Templates folder. */
+export async function listTemplates(userId?: string): Promise<Note[]> {
+  if (!userId) return [];
+  const folder = findTemplatesFolder(await listFolders(userId));
+  if (!folder) return [];
+  const notes = await listNotesByFolder(userId, folder.id);
+  return notes.sort((a, b) => (a.title || "").localeCompare(b.title || ""));
+}
+
+export function dailyNoteTitle(date: Date = new Date()): string {
+  return formatDateToLocalString(date);
+}
+
+/** The daily note for `date`, or null when it hasn't been created yet. */
+export async function findDailyNote(userId: string, date: Date = new Date()): Promise<Note | null> {
+  return findNoteByTitle(userId, dailyNoteTitle(date));
+}
+
+/** Create the daily note for `date`, from `template` when given (null for a blank note). */
+export async function createDailyNote(
+  userId: string,
+  template: Note | null,
+  date: Date = new Date()
+): Promise<{ note: Note; cursor: number | null }> {
+  const title = dailyNoteTitle(date);
+  const rendered = template
+    ? renderTemplate(template.content, { title, now: date })
+    : { text: "", cursor: null };
+  const note = await createNote({ user_id: userId, title, content: rendered.text });
+  return { note, cursor: rendered.cursor };
+}
+
+export async function getDailyNoteTemplateId(userId: string): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(`${DAILY_NOTE_TEMPLATE_KEY}:${userId}`);
+  } catch {
+    return null;
+  }
+}
+
+/** Remember the template the daily note starts from; null means a blank daily note. */
+export async function setDailyNoteTemplateId(userId: string, templateId: string | null): Promise<void> {
+  const key = `${DAILY_NOTE_TEMPLATE_KEY}:${userId}`;
+  try {
+    if (templateId) await AsyncStorage.setItem(key, templateId);
+    else await AsyncStorage.removeItem(key);
+  } catch (e) {
+    console.error("Failed to save daily note template:", e);
+  }
+}
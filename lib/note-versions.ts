@@ -0,0 +1,55 @@
+/**
+ * Note version history: when to snapshot and how to pair lines for the side-by-side diff.
+ * Each save either starts a new version or, within VERSION_COALESCE_MS of the latest version's
+ * first save, overwrites that version so a burst of edits yields one entry.
+ */
+
+import type { Note, NoteVersion } from "@/lib/supabase";
+import { diffLines } from "@/lib/text-diff";
+
+export const VERSION_COALESCE_MS = 10 * 60 * 1000;
+
+/** Oldest versions beyond this are pruned per note. */
+export const MAX_VERSIONS_PER_NOTE = 100;
+
+export type VersionSnapshotPlan = "skip" | "coalesce" | "insert";
+
+/**
+ * Decide what a save does to history. Pass `coalesce: false` for saves that must stay
+ * separately restorable (e.g. restoring an older version).
+ */
+export function planVersionSnapshot(
+  latest: Pick<NoteVersion, "title" | "content" | "created_at"> | null,
+  next: Pick<Note, "title" | "content">,
+  options: { now?: Date; coalesce?: boolean } = {}
+): VersionSnapshotPlan {
+  if (!latest) return "insert";
+  if (latest.title === next.title && latest.content === next.content) return "skip";
+  if (options.coalesce === false) return "insert";
+  const age = (options.now ?? new Date()).getTime() - new Date(latest.created_at).getTime();
+  return age >= 0 && age < VERSION_COALESCE_MS ? "coalesce" : "insert";
+}
+
+/** One row of the side-by-side diff: unchanged lines, or a removed/added pair (either side may be empty). */
+export type VersionDiffRow =
+  | { type: "equal"; lines: string[] }
+  | { type: "change"; before: string[]; after: string[] };
+
+export function diffVersionRows(before: string, after: string): VersionDiffRow[] {
+  const rows: VersionDiffRow[] = [];
+  let change: Extract<VersionDiffRow, { type: "change" }> | null = null;
+  for (const op of diffLines(before, after)) {
+    if (op.type === "equal") {
+      rows.push({ type: "equal", lines: op.lines });
+      change = null;
+      continue;
+    }
+    if (!change) {
+      change = { type: "change", before: [], after: [] };
+      rows.push(change);
+    }
+    if (op.type === "delete") change.before.push(...op.lines);
+    else change.after.push(...op.lines);
+  }
+  return rows;
+}
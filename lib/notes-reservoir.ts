@@ -4,17 +4,128 @@
  * - On web: uses Supabase only (expo-sqlite web is alpha).
  */
 
-import type { Note } from "@/lib/supabase";
+import {
+  hasFrontmatter,
+  hasIndexedProperties,
+  indexedProperties,
+  type NotePropertiesEntry,
+} from "@/lib/frontmatter";
+import {
+  isRemoteChanged,
+  mergeNoteSnapshots,
+  parseSnapshot,
+  snapshotOf,
+  type NoteConflict,
+  type NoteSnapshot,
+} from "@/lib/note-merge";
+import {
+  buildSearchResult,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  noteMatches,
+  parseSearchQuery,
+  toFtsMatch,
+  type NoteSearchResult,
+} from "@/lib/note-search";
+import { MAX_VERSIONS_PER_NOTE, planVersionSnapshot } from "@/lib/note-versions";
+import { isTempId } from "@/lib/outbox";
+import { indexedTags, normalizeTag, type TagCount } from "@/lib/tags";
+import { ENCRYPTED_PREFIX } from "@/lib/vault-crypto";
+import { extractWikiLinks, normalizeWikiTarget, resolveWikiLink } from "@/lib/wiki-links";
+import type { Note, NoteVersion } from "@/lib/supabase";
+import * as supabaseNoteVersions from "@/lib/supabase-note-versions";
 import * as supabaseNotes from "@/lib/supabase-notes";
 import { Platform } from "react-native";
 import * as SQLite from "expo-sqlite";
 
 const DB_NAME = "notes.db";
 const TABLE = "notes";
+const CONFLICTS_TABLE = "note_conflicts";
+const FTS_TABLE = "notes_fts";
+const VERSIONS_TABLE = "note_versions";
+const LINKS_TABLE = "note_links";
+const TAGS_TABLE = "note_tags";
+const PROPERTIES_TABLE = "note_properties";
+const SYNC_STATE_TABLE = "sync_state";
+const SEARCH_LIMIT = 50;
+/** Pulls re-read this much before the watermark: a write that commits late carries an earlier updated_at. */
+const SYNC_OVERLAP_MS = 60 * 1000;
+/** How long the server keeps tombstones; a watermark older than this pulls everything again. */
+const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
 
 /** One-time open and migrate; null on web. */
 let dbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
+/** False if this SQLite build lacks FTS5; search then falls back to LIKE. */
+let ftsAvailable = false;
+
+/** External-content FTS5 index over notes(title, content), kept in sync by triggers. */
+async function ensureFtsIndex(db: SQLite.SQLiteDatabase): Promise<void> {
+  try {
+    const existing = await db.getFirstAsync<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      FTS_TABLE
+    );
+    await db.execAsync(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(
+        title, content,
+        content='${TABLE}', content_rowid='rowid',
+        tokenize='unicode61 remove_diacritics 2'
+      );
+      CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_ai AFTER INSERT ON ${TABLE} BEGIN
+        INSERT INTO ${FTS_TABLE}(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_ad AFTER DELETE ON ${TABLE} BEGIN
+        INSERT INTO ${FTS_TABLE}(${FTS_TABLE}, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_au AFTER UPDATE OF title, content ON ${TABLE} BEGIN
+        INSERT INTO ${FTS_TABLE}(${FTS_TABLE}, rowid, title, content) VALUES ('delete', old.rowid, old.title, old.content);
+        INSERT INTO ${FTS_TABLE}(rowid, title, content) VALUES (new.rowid, new.title, new.content);
+      END;
+    `);
+    if (!existing) {
+      // Index notes stored before the FTS table existed
+      await db.execAsync(`INSERT INTO ${FTS_TABLE}(${FTS_TABLE}) VALUES ('rebuild')`);
+    }
+    ftsAvailable = true;
+  } catch (error) {
+    console.warn("Notes FTS index unavailable, search will use LIKE:", error);
+    ftsAvailable = false;
+  }
+}
+
+/** Frontmatter properties index (status, due, aliases, tags) for list filters and sorting. */
+async function ensurePropertiesIndex(db: SQLite.SQLiteDatabase): Promise<void> {
+  const existing = await db.getFirstAsync<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    PROPERTIES_TABLE
+  );
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS ${PROPERTIES_TABLE} (
+      note_id TEXT PRIMARY KEY NOT NULL,
+      user_id TEXT NOT NULL,
+      status TEXT,
+      due TEXT,
+      aliases TEXT NOT NULL DEFAULT '[]',
+      tags TEXT NOT NULL DEFAULT '[]'
+    );
+    CREATE INDEX IF NOT EXISTS idx_note_properties_user_status ON ${PROPERTIES_TABLE}(user_id, status);
+    CREATE INDEX IF NOT EXISTS idx_note_properties_user_due ON ${PROPERTIES_TABLE}(user_id, due);
+  `);
+  if (!existing) {
+    // Index notes stored before the table existed; their frontmatter tags join the tag index too
+    const rows = await db.getAllAsync<{ id: string; user_id: string; content: string }>(
+      `SELECT id, user_id, content FROM ${TABLE} WHERE content LIKE '---%'`
+    );
+    await db.withTransactionAsync(async () => {
+      for (const row of rows) {
+        await indexNoteProperties(db, row);
+        await indexNoteTags(db, row);
+      }
+    });
+  }
+}
+
 function getDb(): Promise<SQLite.SQLiteDatabase> | null {
   if (Platform.OS === "web") {
     return null;
@@ -46,6 +157,51 @@ function getDb(): Promise<SQLite.SQLiteDatabase> | null {
       } catch {
         // Column already exists
       }
+      try {
+        // JSON NoteSnapshot of the server row at last pull/push; base for three-way merges.
+        await db.execAsync(`ALTER TABLE ${TABLE} ADD COLUMN base_snapshot TEXT`);
+      } catch {
+        // Column already exists
+      }
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${CONFLICTS_TABLE} (
+          note_id TEXT PRIMARY KEY NOT NULL,
+          base_snapshot TEXT NOT NULL,
+          remote_snapshot TEXT NOT NULL,
+          detected_at TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS ${VERSIONS_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          note_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          dirty INTEGER NOT NULL DEFAULT 1
+        );
+        CREATE INDEX IF NOT EXISTS idx_note_versions_note_updated ON ${VERSIONS_TABLE}(note_id, updated_at);
+        CREATE TABLE IF NOT EXISTS ${LINKS_TABLE} (
+          source_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          target TEXT NOT NULL,
+          PRIMARY KEY (source_id, target)
+        );
+        CREATE INDEX IF NOT EXISTS idx_note_links_user_target ON ${LINKS_TABLE}(user_id, target);
+        CREATE TABLE IF NOT EXISTS ${TAGS_TABLE} (
+          note_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (note_id, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_note_tags_user_tag ON ${TAGS_TABLE}(user_id, tag);
+        CREATE TABLE IF NOT EXISTS ${SYNC_STATE_TABLE} (
+          user_id TEXT PRIMARY KEY NOT NULL,
+          notes_pulled_at TEXT
+        );
+      `);
+      await ensureFtsIndex(db);
+      await ensurePropertiesIndex(db);
       return db;
     })();
   }
@@ -73,6 +229,204 @@ async function getDbAsync(): Promise<SQLite.SQLiteDatabase | null> {
   return p ? p : null;
 }
 
+function rowToVersion(row: Record<string, unknown>): NoteVersion {
+  return {
+    id: row.id as string,
+    note_id: row.note_id as string,
+    user_id: row.user_id as string,
+    title: (row.title as string) ?? "",
+    content: (row.content as string) ?? "",
+    created_at: row.created_at as string,
+    updated_at: row.updated_at as string,
+  };
+}
+
+async function insertVersion(
+  db: SQLite.SQLiteDatabase,
+  note: Pick<Note, "id" | "user_id" | "title" | "content">,
+  timestamp: string
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO ${VERSIONS_TABLE} (id, note_id, user_id, title, content, created_at, updated_at, dirty)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 1)`,
+    generateId(),
+    note.id,
+    note.user_id,
+    note.title,
+    note.content,
+    timestamp,
+    timestamp
+  );
+}
+
+/**
+ * Record a save in the note's history (coalescing with the latest version when recent).
+ * Notes that predate history also get their pre-edit state, so the first edit is restorable.
+ */
+async function snapshotVersion(
+  db: SQLite.SQLiteDatabase,
+  previous: Note,
+  next: Note,
+  coalesce = true
+): Promise<void> {
+  const latestRow = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${VERSIONS_TABLE} WHERE note_id = ? ORDER BY updated_at DESC LIMIT 1`,
+    next.id
+  );
+  const latest = latestRow ? rowToVersion(latestRow) : null;
+  if (!latest && (previous.title !== next.title || previous.content !== next.content)) {
+    await insertVersion(db, previous, previous.updated_at);
+  }
+
+  const plan = planVersionSnapshot(latest, next, { coalesce });
+  if (plan === "skip") return;
+  if (plan === "coalesce" && latest) {
+    await db.runAsync(
+      `UPDATE ${VERSIONS_TABLE} SET title = ?, content = ?, updated_at = ?, dirty = 1 WHERE id = ?`,
+      next.title,
+      next.content,
+      next.updated_at,
+      latest.id
+    );
+  } else {
+    await insertVersion(db, next, next.updated_at);
+  }
+
+  await db.runAsync(
+    `DELETE FROM ${VERSIONS_TABLE} WHERE note_id = ? AND id NOT IN (
+       SELECT id FROM ${VERSIONS_TABLE} WHERE note_id = ? ORDER BY updated_at DESC LIMIT ?
+     )`,
+    next.id,
+    next.id,
+    MAX_VERSIONS_PER_NOTE
+  );
+}
+
+/** Versions recorded under a local id follow the note when the server assigns its id. */
+async function remapVersionsNoteId(
+  db: SQLite.SQLiteDatabase,
+  fromId: string,
+  toId: string
+): Promise<void> {
+  if (fromId === toId) return;
+  await db.runAsync(`UPDATE ${VERSIONS_TABLE} SET note_id = ? WHERE note_id = ?`, toId, fromId);
+}
+
+/** Replace a note's outgoing [[wiki links]], #tags and frontmatter properties in their indexes. */
+async function indexNoteRefs(
+  db: SQLite.SQLiteDatabase,
+  note: Pick<Note, "id" | "user_id" | "content">
+): Promise<void> {
+  await indexNoteLinks(db, note);
+  await indexNoteTags(db, note);
+  await indexNoteProperties(db, note);
+}
+
+async function indexNoteLinks(
+  db: SQLite.SQLiteDatabase,
+  note: Pick<Note, "id" | "user_id" | "content">
+): Promise<void> {
+  await db.runAsync(`DELETE FROM ${LINKS_TABLE} WHERE source_id = ?`, note.id);
+  for (const target of extractWikiLinks(note.content)) {
+    await db.runAsync(
+      `INSERT OR IGNORE INTO ${LINKS_TABLE} (source_id, user_id, target) VALUES (?, ?, ?)`,
+      note.id,
+      note.user_id,
+      target
+    );
+  }
+}
+
+/** Tags are stored with their ancestors so nested counts and filters are plain lookups. */
+async function indexNoteTags(
+  db: SQLite.SQLiteDatabase,
+  note: Pick<Note, "id" | "user_id" | "content">
+): Promise<void> {
+  await db.runAsync(`DELETE FROM ${TAGS_TABLE} WHERE note_id = ?`, note.id);
+  for (const tag of indexedTags(note.content)) {
+    await db.runAsync(
+      `INSERT OR IGNORE INTO ${TAGS_TABLE} (note_id, user_id, tag) VALUES (?, ?, ?)`,
+      note.id,
+      note.user_id,
+      tag
+    );
+  }
+}
+
+async function indexNoteProperties(
+  db: SQLite.SQLiteDatabase,
+  note: Pick<Note, "id" | "user_id" | "content">
+): Promise<void> {
+  await db.runAsync(`DELETE FROM ${PROPERTIES_TABLE} WHERE note_id = ?`, note.id);
+  if (!hasFrontmatter(note.content)) return;
+  const properties = indexedProperties(note.content);
+  if (!hasIndexedProperties(properties)) return;
+  await db.runAsync(
+    `INSERT INTO ${PROPERTIES_TABLE} (note_id, user_id, status, due, aliases, tags) VALUES (?, ?, ?, ?, ?, ?)`,
+    note.id,
+    note.user_id,
+    properties.status,
+    properties.due,
+    JSON.stringify(properties.aliases),
+    JSON.stringify(properties.tags)
+  );
+}
+
+/** Rebuild the link, tag and property indexes for a user after a sync rewrote notes wholesale. */
+async function rebuildNoteRefs(db: SQLite.SQLiteDatabase, userId: string): Promise<void> {
+  const rows = await db.getAllAsync<{ id: string; content: string }>(
+    `SELECT id, content FROM ${TABLE}
+     WHERE user_id = ? AND (content LIKE '%[[%' OR content LIKE '%#%' OR content LIKE '---%')`,
+    userId
+  );
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(`DELETE FROM ${LINKS_TABLE} WHERE user_id = ?`, userId);
+    await db.runAsync(`DELETE FROM ${TAGS_TABLE} WHERE user_id = ?`, userId);
+    await db.runAsync(`DELETE FROM ${PROPERTIES_TABLE} WHERE user_id = ?`, userId);
+    for (const row of rows) {
+      await indexNoteRefs(db, { id: row.id, user_id: userId, content: row.content });
+    }
+  });
+}
+
+/** Links, tags and properties recorded under a local id follow the note when the server assigns its id. */
+async function remapNoteRefsId(
+  db: SQLite.SQLiteDatabase,
+  fromId: string,
+  toId: string
+): Promise<void> {
+  if (fromId === toId) return;
+  await db.runAsync(`UPDATE ${LINKS_TABLE} SET source_id = ? WHERE source_id = ?`, toId, fromId);
+  await db.runAsync(`UPDATE ${TAGS_TABLE} SET note_id = ? WHERE note_id = ?`, toId, fromId);
+  await db.runAsync(`UPDATE ${PROPERTIES_TABLE} SET note_id = ? WHERE note_id = ?`, toId, fromId);
+}
+
+/** Push unsynced versions of notes that exist on the server (base_snapshot set). */
+async function pushDirtyVersions(
+  db: SQLite.SQLiteDatabase,
+  userId: string,
+  noteId?: string
+): Promise<void> {
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT v.* FROM ${VERSIONS_TABLE} v
+     JOIN ${TABLE} n ON n.id = v.note_id
+     WHERE v.dirty = 1 AND v.user_id = ? AND n.base_snapshot IS NOT NULL${noteId ? " AND v.note_id = ?" : ""}`,
+    ...(noteId ? [userId, noteId] : [userId])
+  );
+  if (rows.length === 0) return;
+
+  const versions = rows.map(rowToVersion);
+  await supabaseNoteVersions.upsertNoteVersions(versions);
+  for (const version of versions) {
+    // A save may have coalesced into the version while it was being pushed
+    await db.runAsync(
+      `UPDATE ${VERSIONS_TABLE} SET dirty = 0 WHERE id = ? AND updated_at = ?`,
+      version.id,
+      version.updated_at
+    );
+  }
+}
+
 export type NotesSyncStatus = {
   /** Number of notes with local changes not yet pushed to Supabase. */
   pendingCount: number;
@@ -111,133 +465,229 @@ export async function getUnsyncedNoteIds(userId: string | undefined): Promise<st
   return rows.map((r) => r.id);
 }
 
-/** Sync: push dirty rows to Supabase, then pull all notes for user and upsert into SQLite. */
-export async function syncFromSupabase(userId: string): Promise<void> {
-  if (Platform.OS === "web") {
-    return;
+type PushPayload = Parameters<typeof supabaseNotes.updateNoteIfUnchanged>[1];
+
+function pushPayloadOf(note: Pick<NoteSnapshot, "title" | "content" | "is_archived" | "folder_id" | "share_token">): PushPayload {
+  return {
+    title: note.title,
+    content: note.content,
+    is_archived: note.is_archived,
+    folder_id: note.folder_id,
+    share_token: note.share_token,
+  };
+}
+
+/** Store the server's copy of a note as the synced local row and new merge base. */
+async function markSynced(db: SQLite.SQLiteDatabase, note: Note): Promise<void> {
+  await db.runAsync(
+    `UPDATE ${TABLE} SET title = ?, content = ?, is_archived = ?, updated_at = ?, dirty = 0, share_token = ?, folder_id = ?, base_snapshot = ? WHERE id = ?`,
+    note.title,
+    note.content,
+    note.is_archived ? 1 : 0,
+    note.updated_at,
+    note.share_token ?? null,
+    note.folder_id ?? null,
+    JSON.stringify(snapshotOf(note)),
+    note.id
+  );
+}
+
+async function saveConflict(
+  db: SQLite.SQLiteDatabase,
+  noteId: string,
+  base: NoteSnapshot,
+  remote: NoteSnapshot
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO ${CONFLICTS_TABLE} (note_id, base_snapshot, remote_snapshot, detected_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(note_id) DO UPDATE SET
+       remote_snapshot = excluded.remote_snapshot,
+       detected_at = excluded.detected_at`,
+    noteId,
+    JSON.stringify(base),
+    JSON.stringify(remote),
+    new Date().toISOString()
+  );
+}
+
+async function refreshConflictRemote(
+  db: SQLite.SQLiteDatabase,
+  noteId: string,
+  remote: NoteSnapshot
+): Promise<void> {
+  await db.runAsync(
+    `UPDATE ${CONFLICTS_TABLE} SET remote_snapshot = ? WHERE note_id = ?`,
+    JSON.stringify(remote),
+    noteId
+  );
+}
+
+async function hasConflict(db: SQLite.SQLiteDatabase, noteId: string): Promise<boolean> {
+  const row = await db.getFirstAsync<{ note_id: string }>(
+    `SELECT note_id FROM ${CONFLICTS_TABLE} WHERE note_id = ?`,
+    noteId
+  );
+  return !!row;
+}
+
+/**
+ * Push a dirty local row. With a base revision the write is conditional on the server still being
+ * at that revision; if it moved on, both sides are merged field by field. Non-mergeable edits are
+ * recorded in the conflicts table and the row stays dirty until the user resolves them.
+ * Returns the synced note, or null when the push did not complete.
+ */
+async function pushDirtyNote(
+  db: SQLite.SQLiteDatabase,
+  row: Record<string, unknown>,
+  serverNote?: Note
+): Promise<Note | null> {
+  const note = rowToNote(row);
+  const local = snapshotOf(note);
+  let base = parseSnapshot(row.base_snapshot);
+
+  if (!base) {
+    // Rows synced before base tracking existed: adopt the current server row as base (local wins once).
+    const current = serverNote ?? (await supabaseNotes.getNoteById(note.id));
+    if (!current) return null;
+    base = snapshotOf(current);
   }
-  const db = await getDbAsync();
-  if (!db) return;
 
-  // Prevent concurrent syncs
-  if (isSyncing) {
-    return;
+  const updated = await supabaseNotes.updateNoteIfUnchanged(note.id, pushPayloadOf(local), base.updated_at);
+  if (updated) {
+    await markSynced(db, updated);
+    return updated;
   }
 
-  isSyncing = true;
-  try {
-    // Fetch all remote notes once (we'll need them for duplicate checking and final sync)
-    const remote = await supabaseNotes.listNotes(userId);
-    const archived = await supabaseNotes.listArchivedNotes(userId);
-    const allRemote = [...remote, ...archived];
+  const remoteNote = await supabaseNotes.getNoteById(note.id);
+  if (!remoteNote || !isRemoteChanged(base, remoteNote)) return null;
+
+  const remote = snapshotOf(remoteNote);
+  const { merged, conflicts } = mergeNoteSnapshots(base, local, remote);
+  if (conflicts.length > 0) {
+    await saveConflict(db, note.id, base, remote);
+    return null;
+  }
 
-    const dirtyRows = await db.getAllAsync<Record<string, unknown>>(
+  const mergedNote = await supabaseNotes.updateNoteIfUnchanged(
+    note.id,
+    pushPayloadOf(merged),
+    remoteNote.updated_at
+  );
+  if (mergedNote) await markSynced(db, mergedNote);
+  return mergedNote;
+}
+
+/** Newest server timestamp pulled for a user (see pullRemoteNotes), or null before the first pull. */
+async function getNotesWatermark(db: SQLite.SQLiteDatabase, userId: string): Promise<string | null> {
+  const row = await db.getFirstAsync<{ notes_pulled_at: string | null }>(
+    `SELECT notes_pulled_at FROM ${SYNC_STATE_TABLE} WHERE user_id = ?`,
+    userId
+  );
+  return row?.notes_pulled_at ?? null;
+}
+
+async function setNotesWatermark(
+  db: SQLite.SQLiteDatabase,
+  userId: string,
+  pulledAt: string
+): Promise<void> {
+  await db.runAsync(
+    `INSERT INTO ${SYNC_STATE_TABLE} (user_id, notes_pulled_at) VALUES (?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET notes_pulled_at = excluded.notes_pulled_at`,
+    userId,
+    pulledAt
+  );
+}
+
+function laterTimestamp(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(b).getTime() > new Date(a).getTime() ? b : a;
+}
+
+/** Remove a note and everything stored alongside it from the local database. */
+async function deleteLocalNote(db: SQLite.SQLiteDatabase, id: string): Promise<void> {
+  await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, id);
+  await db.runAsync(`DELETE FROM ${CONFLICTS_TABLE} WHERE note_id = ?`, id);
+  await db.runAsync(`DELETE FROM ${VERSIONS_TABLE} WHERE note_id = ?`, id);
+  await db.runAsync(`DELETE FROM ${LINKS_TABLE} WHERE source_id = ?`, id);
+  await db.runAsync(`DELETE FROM ${TAGS_TABLE} WHERE note_id = ?`, id);
+  await db.runAsync(`DELETE FROM ${PROPERTIES_TABLE} WHERE note_id = ?`, id);
+}
+
+/**
+ * Push every dirty row. The server copies are fetched in one batch; notes the server doesn't have
+ * (created here, or deleted elsewhere while edited here) are inserted together under their local ids.
+ */
+async function pushDirtyNotes(db: SQLite.SQLiteDatabase, userId: string): Promise<void> {
+  const dirtyRows = (
+    await db.getAllAsync<Record<string, unknown>>(
       `SELECT * FROM ${TABLE} WHERE user_id = ? AND dirty = 1`,
       userId
-    );
-    for (const row of dirtyRows) {
-      const note = rowToNote(row);
-      if (!note.id) continue;
-      try {
-        const existing = await supabaseNotes.getNoteById(note.id);
-        if (!existing) {
-          // Note doesn't exist in Supabase - this could be:
-          // 1. A new note created locally (legitimate case)
-          // 2. A note that was created but sync failed (should check for duplicates)
-          // 
-          // To prevent duplicates, check if a note with similar content already exists
-          // Check if a note with the same title and content already exists
-          // (within a small time window to account for timing differences)
-          const duplicate = allRemote.find(
-            (remoteNote) =>
-              remoteNote.title === note.title &&
-              remoteNote.content === note.content &&
-              Math.abs(
-                new Date(remoteNote.created_at).getTime() -
-                new Date(note.created_at).getTime()
-              ) < 60000 // Within 1 minute
-          );
-
-          if (duplicate) {
-            // A duplicate exists - update local note to use the existing ID
-            await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, note.id);
-            await db.runAsync(
-              `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty)
-               VALUES (?, ?, ?, ?, ?, ?, ?, 0)
-               ON CONFLICT(id) DO UPDATE SET
-                 user_id = excluded.user_id,
-                 title = excluded.title,
-                 content = excluded.content,
-                 is_archived = excluded.is_archived,
-                 created_at = excluded.created_at,
-                 updated_at = excluded.updated_at,
-                 dirty = 0`,
-              duplicate.id,
-              duplicate.user_id,
-              duplicate.title,
-              duplicate.content,
-              duplicate.is_archived ? 1 : 0,
-              duplicate.created_at,
-              duplicate.updated_at
-            );
-          } else {
-            // No duplicate found - create new note
-            const created = await supabaseNotes.createNote({
-              user_id: note.user_id,
-              title: note.title,
-              content: note.content,
-            });
-            if (note.is_archived) {
-              await supabaseNotes.archiveNote(created.id);
-            }
-            await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, note.id);
-            await db.runAsync(
-              `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty)
-               VALUES (?, ?, ?, ?, ?, ?, ?, 0)`,
-              created.id,
-              created.user_id,
-              created.title,
-              created.content,
-              note.is_archived ? 1 : 0,
-              created.created_at,
-              created.updated_at
-            );
-            // Add the newly created note to allRemote for subsequent duplicate checks
-            allRemote.push(created);
-          }
-        } else {
-          // Note exists - update it
-          const updatePayload: Parameters<typeof supabaseNotes.updateNote>[1] = {
-            title: note.title,
-            content: note.content,
-          };
-          if (note.share_token !== undefined) {
-            updatePayload.share_token = note.share_token;
-          }
-          if (note.folder_id !== undefined) {
-            updatePayload.folder_id = note.folder_id;
-          }
-          await supabaseNotes.updateNote(note.id, updatePayload);
-          if (note.is_archived) {
-            await supabaseNotes.archiveNote(note.id);
-          } else {
-            await supabaseNotes.restoreNote(note.id);
-          }
-          await db.runAsync(
-            `UPDATE ${TABLE} SET dirty = 0 WHERE id = ?`,
-            note.id
-          );
-        }
-      } catch (error) {
-        // Log error but keep row dirty for next sync
-        console.warn(`[notes-reservoir] Failed to sync note ${note.id}:`, error);
+    )
+  ).filter(
+    // Filed into a folder created offline; pushed once the folder has its server id
+    (row) => !!row.id && !isTempId(row.folder_id)
+  );
+  if (dirtyRows.length === 0) return;
+
+  const remoteById = new Map(
+    (await supabaseNotes.getNotesByIds(dirtyRows.map((row) => row.id as string))).map((note) => [note.id, note])
+  );
+
+  const newNotes = dirtyRows.filter((row) => !remoteById.has(row.id as string)).map(rowToNote);
+  if (newNotes.length > 0) {
+    try {
+      const created = await supabaseNotes.insertNotes(newNotes);
+      for (const note of created) {
+        await markSynced(db, note);
       }
+    } catch (error) {
+      // Rows stay dirty for the next sync
+      console.warn("[notes-reservoir] Failed to push new notes:", error);
     }
+  }
 
-    for (const note of allRemote) {
-      await db.runAsync(
-        `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, share_token, folder_id)
-         VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+  for (const row of dirtyRows) {
+    const remote = remoteById.get(row.id as string);
+    if (!remote) continue;
+    try {
+      if (await hasConflict(db, remote.id)) {
+        // Waiting for the user to resolve; keep the stored server side current.
+        await refreshConflictRemote(db, remote.id, snapshotOf(remote));
+      } else {
+        // Conditional on the base revision, merging if the server moved on
+        await pushDirtyNote(db, row, remote);
+      }
+    } catch (error) {
+      // Log error but keep row dirty for next sync
+      console.warn(`[notes-reservoir] Failed to sync note ${remote.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Pull notes written on the server since the watermark, and the tombstones of notes deleted since,
+ * then move the watermark to the newest timestamp seen. Rows with unpushed edits keep them. Without
+ * a usable watermark every note is pulled; that complete list also drops synced rows whose
+ * deletion is older than the server keeps tombstones.
+ */
+async function pullRemoteNotes(db: SQLite.SQLiteDatabase, userId: string): Promise<void> {
+  const watermark = await getNotesWatermark(db, userId);
+  const full = !watermark || Date.now() - new Date(watermark).getTime() > TOMBSTONE_RETENTION_MS;
+  const since = full ? null : new Date(new Date(watermark).getTime() - SYNC_OVERLAP_MS).toISOString();
+
+  // Notes before tombstones: a note deleted in between shows up in both and ends up deleted
+  const changed = await supabaseNotes.listNotesChangedSince(userId, since);
+  const tombstones = await supabaseNotes.listNoteTombstonesSince(userId, since);
+
+  const applied: Note[] = [];
+  await db.withTransactionAsync(async () => {
+    for (const note of changed) {
+      const result = await db.runAsync(
+        `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, share_token, folder_id, base_snapshot)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
          ON CONFLICT(id) DO UPDATE SET
            user_id = excluded.user_id,
            title = excluded.title,
@@ -247,7 +697,9 @@ export async function syncFromSupabase(userId: string): Promise<void> {
            updated_at = excluded.updated_at,
            dirty = 0,
            share_token = excluded.share_token,
-           folder_id = excluded.folder_id`,
+           folder_id = excluded.folder_id,
+           base_snapshot = excluded.base_snapshot
+         WHERE ${TABLE}.dirty = 0`,
         note.id,
         note.user_id,
         note.title,
@@ -256,28 +708,70 @@ export async function syncFromSupabase(userId: string): Promise<void> {
         note.created_at,
         note.updated_at,
         note.share_token ?? null,
-        note.folder_id ?? null
+        note.folder_id ?? null,
+        JSON.stringify(snapshotOf(note))
       );
+      if (result.changes > 0) applied.push(note);
     }
 
-    // Remove local notes that were deleted on the server (e.g. from archive on web)
-    const remoteIdSet = new Set(allRemote.map((n) => n.id));
-    const localRows = await db.getAllAsync<{ id: string }>(
-      `SELECT id FROM ${TABLE} WHERE user_id = ?`,
-      userId
-    );
-    const idsToDelete = localRows.map((r) => r.id).filter((id) => !remoteIdSet.has(id));
-    if (idsToDelete.length > 0) {
-      const chunkSize = 500; // SQLite default limit is 999 bind params
-      for (let i = 0; i < idsToDelete.length; i += chunkSize) {
-        const chunk = idsToDelete.slice(i, i + chunkSize);
-        const placeholders = chunk.map(() => "?").join(",");
-        await db.runAsync(
-          `DELETE FROM ${TABLE} WHERE id IN (${placeholders})`,
-          ...chunk
-        );
+    for (const tombstone of tombstones) {
+      const row = await db.getFirstAsync<{ dirty: number }>(
+        `SELECT dirty FROM ${TABLE} WHERE id = ?`,
+        tombstone.note_id
+      );
+      // Edited here since: the push recreates it
+      if (row && Number(row.dirty) === 0) await deleteLocalNote(db, tombstone.note_id);
+    }
+
+    if (full) {
+      const remoteIds = new Set(changed.map((note) => note.id));
+      const synced = await db.getAllAsync<{ id: string }>(
+        `SELECT id FROM ${TABLE} WHERE user_id = ? AND dirty = 0 AND base_snapshot IS NOT NULL`,
+        userId
+      );
+      for (const { id } of synced) {
+        if (!remoteIds.has(id)) await deleteLocalNote(db, id);
       }
     }
+  });
+
+  if (full) {
+    await rebuildNoteRefs(db, userId);
+  } else {
+    for (const note of applied) {
+      await indexNoteRefs(db, note);
+    }
+  }
+
+  let pulledAt = watermark;
+  for (const note of changed) pulledAt = laterTimestamp(pulledAt, note.updated_at);
+  for (const tombstone of tombstones) pulledAt = laterTimestamp(pulledAt, tombstone.deleted_at);
+  if (pulledAt && pulledAt !== watermark) await setNotesWatermark(db, userId, pulledAt);
+}
+
+/** Sync: push dirty rows to Supabase, then pull what changed on the server since the last sync. */
+export async function syncFromSupabase(userId: string): Promise<void> {
+  if (Platform.OS === "web") {
+    return;
+  }
+  const db = await getDbAsync();
+  if (!db) return;
+
+  // Prevent concurrent syncs
+  if (isSyncing) {
+    return;
+  }
+
+  isSyncing = true;
+  try {
+    await pushDirtyNotes(db, userId);
+    await pullRemoteNotes(db, userId);
+
+    try {
+      await pushDirtyVersions(db, userId);
+    } catch (error) {
+      console.warn("[notes-reservoir] Failed to sync note versions:", error);
+    }
   } catch (e) {
     console.warn("[notes-reservoir] syncFromSupabase failed:", e);
   } finally {
@@ -285,6 +779,73 @@ export async function syncFromSupabase(userId: string): Promise<void> {
   }
 }
 
+/** What applying a server row pushed over Realtime did to the local copy. */
+export type RemoteNoteApplyResult = "applied" | "unchanged" | "dirty";
+
+/**
+ * Apply a note row pushed by Supabase Realtime. A row with unpushed local edits is left alone
+ * ("dirty"; the next sync merges both sides). "unchanged" is usually this device's own push.
+ */
+export async function applyRemoteNote(note: Note): Promise<RemoteNoteApplyResult> {
+  if (Platform.OS === "web") return "applied";
+  const db = await getDbAsync();
+  if (!db) return "applied";
+
+  const row = await db.getFirstAsync<Record<string, unknown>>(`SELECT * FROM ${TABLE} WHERE id = ?`, note.id);
+  if (row && Number(row.dirty) === 1) return "dirty";
+  if (row) {
+    const local = snapshotOf(rowToNote(row));
+    const remote = snapshotOf(note);
+    if (
+      local.title === remote.title &&
+      local.content === remote.content &&
+      local.is_archived === remote.is_archived &&
+      local.folder_id === remote.folder_id &&
+      local.share_token === remote.share_token
+    ) {
+      return "unchanged";
+    }
+  }
+
+  await db.runAsync(
+    `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, share_token, folder_id, base_snapshot)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       title = excluded.title,
+       content = excluded.content,
+       is_archived = excluded.is_archived,
+       updated_at = excluded.updated_at,
+       share_token = excluded.share_token,
+       folder_id = excluded.folder_id,
+       base_snapshot = excluded.base_snapshot
+     WHERE ${TABLE}.dirty = 0`,
+    note.id,
+    note.user_id,
+    note.title ?? "",
+    note.content ?? "",
+    note.is_archived ? 1 : 0,
+    note.created_at,
+    note.updated_at,
+    note.share_token ?? null,
+    note.folder_id ?? null,
+    JSON.stringify(snapshotOf(note))
+  );
+  await indexNoteRefs(db, note);
+  return "applied";
+}
+
+/** Drop a note deleted on the server (pushed over Realtime). Returns false for ids not stored here. */
+export async function removeRemoteNote(id: string): Promise<boolean> {
+  if (Platform.OS === "web") return false;
+  const db = await getDbAsync();
+  if (!db) return false;
+
+  const row = await db.getFirstAsync<{ id: string }>(`SELECT id FROM ${TABLE} WHERE id = ?`, id);
+  if (!row) return false;
+  await deleteLocalNote(db, id);
+  return true;
+}
+
 export async function listNotes(userId?: string): Promise<Note[]> {
   if (!userId) throw new Error("User ID is required");
   if (Platform.OS === "web") {
@@ -323,6 +884,65 @@ export async function listArchivedNotes(userId?: string): Promise<Note[]> {
   return rows.map(rowToNote);
 }
 
+/**
+ * Ranked full-text search over active notes in the local FTS index (bm25, title weighted 10x).
+ * Reads the local copy only; callers already keep it fresh via listNotes/sync.
+ */
+export async function searchNotes(userId: string, query: string): Promise<NoteSearchResult[]> {
+  if (!userId) throw new Error("User ID is required");
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+  if (Platform.OS === "web") {
+    return supabaseNotes.searchNotes(userId, terms, SEARCH_LIMIT);
+  }
+
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.searchNotes(userId, terms, SEARCH_LIMIT);
+
+  if (ftsAvailable) {
+    const rows = await db.getAllAsync<Record<string, unknown>>(
+      `SELECT n.*,
+              highlight(${FTS_TABLE}, 0, ?, ?) AS title_highlighted,
+              snippet(${FTS_TABLE}, 1, ?, ?, '…', 24) AS snippet,
+              bm25(${FTS_TABLE}, 10.0, 1.0) AS score
+       FROM ${FTS_TABLE}
+       JOIN ${TABLE} n ON n.rowid = ${FTS_TABLE}.rowid
+       WHERE ${FTS_TABLE} MATCH ? AND n.user_id = ? AND n.is_archived = 0
+       ORDER BY score
+       LIMIT ?`,
+      HIGHLIGHT_START,
+      HIGHLIGHT_END,
+      HIGHLIGHT_START,
+      HIGHLIGHT_END,
+      toFtsMatch(terms),
+      userId,
+      SEARCH_LIMIT
+    );
+    return rows.map((row) => ({
+      note: rowToNote(row),
+      titleHighlighted: (row.title_highlighted as string) ?? "",
+      snippet: ((row.snippet as string) ?? "").replace(/\s+/g, " "),
+      // bm25() is lower-is-better
+      rank: -Number(row.score),
+    }));
+  }
+
+  // No FTS5: narrow with LIKE on the first word of each term, then match and rank in memory
+  const clauses = terms.map(() => `(title LIKE ? OR content LIKE ?)`).join(" AND ");
+  const params = terms.flatMap((t) => [`%${t.words[0]}%`, `%${t.words[0]}%`]);
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE user_id = ? AND is_archived = 0 AND ${clauses}`,
+    userId,
+    ...params
+  );
+  return rows
+    .map(rowToNote)
+    .filter((note) => noteMatches(note, terms))
+    .map((note) => buildSearchResult(note, terms))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, SEARCH_LIMIT);
+}
+
 export async function getNoteById(id: string): Promise<Note | null> {
   if (Platform.OS === "web") {
     return supabaseNotes.getNoteById(id);
@@ -335,7 +955,14 @@ export async function getNoteById(id: string): Promise<Note | null> {
     `SELECT * FROM ${TABLE} WHERE id = ?`,
     id
   );
-  return row ? rowToNote(row) : null;
+  if (row) return rowToNote(row);
+  // Notes other accounts shared with this user are not mirrored locally
+  try {
+    return await supabaseNotes.getNoteById(id);
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to fetch note ${id} from Supabase:`, error);
+    return null;
+  }
 }
 
 function generateId(): string {
@@ -402,6 +1029,8 @@ export async function createNote(input: {
     updated_at: now,
     folder_id: folderId,
   };
+  await insertVersion(db, note, now);
+  await indexNoteRefs(db, note);
 
   try {
     // Check if note already exists in Supabase before creating
@@ -415,16 +1044,19 @@ export async function createNote(input: {
     if (duplicate) {
       // Update local note to use existing Supabase ID
       await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, id);
+      await remapVersionsNoteId(db, id, duplicate.id);
+      await remapNoteRefsId(db, id, duplicate.id);
       await db.runAsync(
-        `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, folder_id)
-         VALUES (?, ?, ?, ?, 0, ?, ?, 0, ?)`,
+        `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, folder_id, base_snapshot)
+         VALUES (?, ?, ?, ?, 0, ?, ?, 0, ?, ?)`,
         duplicate.id,
         duplicate.user_id,
         duplicate.title,
         duplicate.content,
         duplicate.created_at,
         duplicate.updated_at,
-        duplicate.folder_id ?? null
+        duplicate.folder_id ?? null,
+        JSON.stringify(snapshotOf(duplicate))
       );
       return { ...duplicate };
     }
@@ -436,16 +1068,19 @@ export async function createNote(input: {
       folder_id: input.folder_id,
     });
     await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, id);
+    await remapVersionsNoteId(db, id, created.id);
+    await remapNoteRefsId(db, id, created.id);
     await db.runAsync(
-      `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, folder_id)
-       VALUES (?, ?, ?, ?, 0, ?, ?, 0, ?)`,
+      `INSERT INTO ${TABLE} (id, user_id, title, content, is_archived, created_at, updated_at, dirty, folder_id, base_snapshot)
+       VALUES (?, ?, ?, ?, 0, ?, ?, 0, ?, ?)`,
       created.id,
       created.user_id,
       created.title,
       created.content,
       created.created_at,
       created.updated_at,
-      created.folder_id ?? null
+      created.folder_id ?? null,
+      JSON.stringify(snapshotOf(created))
     );
     return { ...created };
   } catch (error) {
@@ -466,6 +1101,19 @@ export async function updateNote(
   const db = await getDbAsync();
   if (!db) return supabaseNotes.updateNote(id, updates);
 
+  const local = await db.getFirstAsync<{ id: string }>(`SELECT id FROM ${TABLE} WHERE id = ?`, id);
+  // A note shared by another account: write through, its owner keeps the history
+  if (!local) return supabaseNotes.updateNote(id, updates);
+
+  return saveNoteUpdate(db, id, updates, true);
+}
+
+async function saveNoteUpdate(
+  db: SQLite.SQLiteDatabase,
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>,
+  coalesceVersion: boolean
+): Promise<Note | null> {
   const currentRow = await db.getFirstAsync<Record<string, unknown>>(
     `SELECT * FROM ${TABLE} WHERE id = ?`,
     id
@@ -496,32 +1144,23 @@ export async function updateNote(
     id
   );
   if (!row) return null;
+  await snapshotVersion(db, currentNote, rowToNote(row), coalesceVersion);
+  if (content !== currentNote.content) await indexNoteRefs(db, rowToNote(row));
 
   try {
-    const payload: Parameters<typeof supabaseNotes.updateNote>[1] = {
-      title,
-      content,
-    };
-    if (updates.share_token !== undefined) {
-      payload.share_token = updates.share_token;
-    }
-    if (updates.folder_id !== undefined) {
-      payload.folder_id = updates.folder_id;
-    }
-    const updated = await supabaseNotes.updateNote(id, payload);
-    if (updated) {
-      await db.runAsync(
-        `UPDATE ${TABLE} SET updated_at = ?, dirty = 0, folder_id = ? WHERE id = ?`,
-        updated.updated_at,
-        updated.folder_id ?? null,
-        id
-      );
-      return updated;
+    // An open conflict must be resolved by the user first; keep the edit local until then.
+    if (!(await hasConflict(db, id))) {
+      const updated = await pushDirtyNote(db, row);
+      if (updated) return updated;
     }
   } catch (error) {
     console.warn(`[notes-reservoir] Failed to sync update for note ${id}:`, error);
   }
-  return rowToNote(row);
+  const latest = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    id
+  );
+  return rowToNote(latest ?? row);
 }
 
 export async function archiveNote(id: string): Promise<void> {
@@ -578,7 +1217,7 @@ export async function deleteNote(id: string): Promise<void> {
   const db = await getDbAsync();
   if (!db) return supabaseNotes.deleteNote(id);
 
-  await db.runAsync(`DELETE FROM ${TABLE} WHERE id = ?`, id);
+  await deleteLocalNote(db, id);
 
   try {
     await supabaseNotes.deleteNote(id);
@@ -586,3 +1225,316 @@ export async function deleteNote(id: string): Promise<void> {
     // Already removed locally
   }
 }
+
+/** Unresolved conflict for a note (local and server both changed since the last sync), or null. */
+export async function getNoteConflict(id: string): Promise<NoteConflict | null> {
+  if (Platform.OS === "web") return null;
+  const db = await getDbAsync();
+  if (!db) return null;
+
+  const conflictRow = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${CONFLICTS_TABLE} WHERE note_id = ?`,
+    id
+  );
+  const noteRow = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    id
+  );
+  if (!conflictRow || !noteRow) return null;
+
+  const base = parseSnapshot(conflictRow.base_snapshot);
+  const remote = parseSnapshot(conflictRow.remote_snapshot);
+  if (!base || !remote) return null;
+
+  return {
+    noteId: id,
+    base,
+    local: snapshotOf(rowToNote(noteRow)),
+    remote,
+    detectedAt: conflictRow.detected_at as string,
+  };
+}
+
+/**
+ * Resolve a conflict with the user's merged fields. The server revision that was merged against
+ * becomes the new base, so the push only succeeds if nobody changed the note again meanwhile.
+ */
+export async function resolveNoteConflict(
+  id: string,
+  resolved: Pick<Note, "title" | "content">
+): Promise<Note | null> {
+  if (Platform.OS === "web") return null;
+  const db = await getDbAsync();
+  if (!db) return null;
+
+  const conflict = await getNoteConflict(id);
+  if (!conflict) return getNoteById(id);
+
+  const { remote } = conflict;
+  const local = conflict.local;
+  // Non-text fields: keep the local value only where the local side changed it.
+  const pick = <K extends "is_archived" | "folder_id" | "share_token">(field: K) =>
+    local[field] !== conflict.base[field] ? local[field] : remote[field];
+
+  await db.runAsync(
+    `UPDATE ${TABLE} SET title = ?, content = ?, is_archived = ?, folder_id = ?, share_token = ?, updated_at = ?, dirty = 1, base_snapshot = ? WHERE id = ?`,
+    resolved.title,
+    resolved.content,
+    pick("is_archived") ? 1 : 0,
+    pick("folder_id"),
+    pick("share_token"),
+    new Date().toISOString(),
+    JSON.stringify(remote),
+    id
+  );
+  await db.runAsync(`DELETE FROM ${CONFLICTS_TABLE} WHERE note_id = ?`, id);
+
+  const row = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    id
+  );
+  if (!row) return null;
+  const previous: Note = {
+    ...rowToNote(row),
+    title: local.title,
+    content: local.content,
+    updated_at: local.updated_at,
+  };
+  await snapshotVersion(db, previous, rowToNote(row), false);
+  await indexNoteRefs(db, rowToNote(row));
+
+  try {
+    const pushed = await pushDirtyNote(db, row);
+    if (pushed) return pushed;
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to sync resolved note ${id}:`, error);
+  }
+  const latest = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    id
+  );
+  return latest ? rowToNote(latest) : null;
+}
+
+/**
+ * Version history of a note, newest first. Pushes local versions and pulls ones recorded on
+ * other devices when online; otherwise returns what is stored locally.
+ */
+export async function listNoteVersions(noteId: string): Promise<NoteVersion[]> {
+  if (Platform.OS === "web") {
+    return supabaseNoteVersions.listNoteVersions(noteId);
+  }
+
+  const db = await getDbAsync();
+  if (!db) return supabaseNoteVersions.listNoteVersions(noteId);
+
+  const noteRow = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    noteId
+  );
+  if (noteRow?.base_snapshot != null) {
+    try {
+      await pushDirtyVersions(db, noteRow.user_id as string, noteId);
+      const remote = await supabaseNoteVersions.listNoteVersions(noteId);
+      for (const version of remote) {
+        await db.runAsync(
+          `INSERT INTO ${VERSIONS_TABLE} (id, note_id, user_id, title, content, created_at, updated_at, dirty)
+           VALUES (?, ?, ?, ?, ?, ?, ?, 0)
+           ON CONFLICT(id) DO UPDATE SET
+             title = excluded.title,
+             content = excluded.content,
+             updated_at = excluded.updated_at
+           WHERE ${VERSIONS_TABLE}.dirty = 0`,
+          version.id,
+          version.note_id,
+          version.user_id,
+          version.title,
+          version.content,
+          version.created_at,
+          version.updated_at
+        );
+      }
+    } catch (error) {
+      console.warn(`[notes-reservoir] Failed to sync versions for note ${noteId}:`, error);
+    }
+  }
+
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT * FROM ${VERSIONS_TABLE} WHERE note_id = ? ORDER BY updated_at DESC LIMIT ?`,
+    noteId,
+    MAX_VERSIONS_PER_NOTE
+  );
+  return rows.map(rowToVersion);
+}
+
+/** Replace the note's title and content with a version's. Recorded as a new version so it can be undone. */
+export async function restoreNoteVersion(noteId: string, versionId: string): Promise<Note | null> {
+  if (Platform.OS === "web") return null;
+  const db = await getDbAsync();
+  if (!db) return null;
+
+  const versionRow = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${VERSIONS_TABLE} WHERE id = ? AND note_id = ?`,
+    versionId,
+    noteId
+  );
+  if (!versionRow) throw new Error("Version not found");
+
+  const version = rowToVersion(versionRow);
+  return saveNoteUpdate(db, noteId, { title: version.title, content: version.content }, false);
+}
+
+/** Drop a note's plaintext history once it has been encrypted into a vault (see lib/vault.ts). */
+export async function deletePlaintextVersions(noteId: string): Promise<void> {
+  if (Platform.OS === "web") return;
+  const db = await getDbAsync();
+  if (!db) return;
+  await db.runAsync(
+    `DELETE FROM ${VERSIONS_TABLE} WHERE note_id = ? AND content NOT LIKE ?`,
+    noteId,
+    `${ENCRYPTED_PREFIX}%`
+  );
+}
+
+/** Point notes filed into a folder created offline at the folder's server id. */
+export async function remapNotesFolderId(fromId: string, toId: string): Promise<void> {
+  if (Platform.OS === "web") return;
+  const db = await getDbAsync();
+  if (!db) return;
+  await db.runAsync(`UPDATE ${TABLE} SET folder_id = ? WHERE folder_id = ?`, toId, fromId);
+}
+
+/** Notes whose content links to `title` via [[wiki links]], most recently updated first. */
+export async function listBacklinks(
+  userId: string,
+  title: string,
+  excludeId?: string
+): Promise<Note[]> {
+  if (Platform.OS === "web") return supabaseNotes.listBacklinks(userId, title, excludeId);
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.listBacklinks(userId, title, excludeId);
+
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT n.* FROM ${TABLE} n
+     JOIN ${LINKS_TABLE} l ON l.source_id = n.id
+     WHERE l.user_id = ? AND l.target = ? AND n.id != ? AND n.is_archived = 0
+     ORDER BY n.updated_at DESC`,
+    userId,
+    normalizeWikiTarget(title),
+    excludeId ?? ""
+  );
+  return rows.map(rowToNote);
+}
+
+/** Tag counts over active notes; nested tags also count toward their ancestors. */
+export async function listTagCounts(userId: string): Promise<TagCount[]> {
+  if (Platform.OS === "web") return supabaseNotes.listTagCounts(userId);
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.listTagCounts(userId);
+
+  return db.getAllAsync<TagCount>(
+    `SELECT t.tag AS tag, COUNT(*) AS count FROM ${TAGS_TABLE} t
+     JOIN ${TABLE} n ON n.id = t.note_id
+     WHERE t.user_id = ? AND n.is_archived = 0
+     GROUP BY t.tag
+     ORDER BY t.tag`,
+    userId
+  );
+}
+
+/** Active notes tagged `tag` or one of its descendants, most recently updated first. */
+export async function listNotesByTag(userId: string, tag: string): Promise<Note[]> {
+  if (Platform.OS === "web") return supabaseNotes.listNotesByTag(userId, tag);
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.listNotesByTag(userId, tag);
+
+  const rows = await db.getAllAsync<Record<string, unknown>>(
+    `SELECT n.* FROM ${TABLE} n
+     JOIN ${TAGS_TABLE} t ON t.note_id = n.id
+     WHERE t.user_id = ? AND t.tag = ? AND n.is_archived = 0
+     ORDER BY n.updated_at DESC`,
+    userId,
+    normalizeTag(tag)
+  );
+  return rows.map(rowToNote);
+}
+
+/** Frontmatter properties of active notes that have any, most recently updated first. */
+export async function listNoteProperties(userId: string): Promise<NotePropertiesEntry[]> {
+  if (Platform.OS === "web") return supabaseNotes.listNoteProperties(userId);
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.listNoteProperties(userId);
+
+  const rows = await db.getAllAsync<{
+    note_id: string;
+    status: string | null;
+    due: string | null;
+    aliases: string;
+    tags: string;
+  }>(
+    `SELECT p.note_id, p.status, p.due, p.aliases, p.tags FROM ${PROPERTIES_TABLE} p
+     JOIN ${TABLE} n ON n.id = p.note_id
+     WHERE p.user_id = ? AND n.is_archived = 0
+     ORDER BY n.updated_at DESC`,
+    userId
+  );
+  const parseList = (value: string): string[] => {
+    try {
+      const list = JSON.parse(value);
+      return Array.isArray(list) ? list : [];
+    } catch {
+      return [];
+    }
+  };
+  return rows.map((row) => ({
+    note_id: row.note_id,
+    status: row.status,
+    due: row.due,
+    aliases: parseList(row.aliases),
+    tags: parseList(row.tags),
+  }));
+}
+
+/** Note a [[wiki link]] to `title` resolves to (most recently updated on collisions), or null. */
+export async function findNoteByTitle(userId: string, title: string): Promise<Note | null> {
+  if (Platform.OS === "web") return supabaseNotes.findNoteByTitle(userId, title);
+  const db = await getDbAsync();
+  if (!db) return supabaseNotes.findNoteByTitle(userId, title);
+
+  // SQLite lower() only folds ASCII, so titles are compared normalized in JS
+  const titles = await db.getAllAsync<{ id: string; title: string; updated_at: string }>(
+    `SELECT id, title, updated_at FROM ${TABLE} WHERE user_id = ?`,
+    userId
+  );
+  const match = resolveWikiLink(title, titles);
+  if (!match) return null;
+  const row = await db.getFirstAsync<Record<string, unknown>>(
+    `SELECT * FROM ${TABLE} WHERE id = ?`,
+    match.id
+  );
+  return row ? rowToNote(row) : null;
+}
+
+/**
+ * Drop every note stored on this device with its conflicts, versions, indexes and sync watermark
+ * (sign-out, deleting all content). Changes not yet pushed are lost.
+ */
+export async function clearLocalNotes(): Promise<void> {
+  if (Platform.OS === "web") return;
+  const db = await getDbAsync();
+  if (!db) return;
+  await db.withTransactionAsync(async () => {
+    // The FTS delete trigger empties notes_fts along with the notes
+    for (const table of [
+      TABLE,
+      CONFLICTS_TABLE,
+      VERSIONS_TABLE,
+      LINKS_TABLE,
+      TAGS_TABLE,
+      PROPERTIES_TABLE,
+      SYNC_STATE_TABLE,
+    ]) {
+      await db.runAsync(`DELETE FROM ${table}`);
+    }
+  });
+}
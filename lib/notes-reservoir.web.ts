@@ -1,42 +1,563 @@
 /**
- * Notes reservoir – web: Supabase only (no expo-sqlite to avoid WASM/Metro issues).
- * Native uses notes-reservoir.ts with SQLite.
+ * Notes reservoir – web: local-first storage in IndexedDB, synced with Supabase.
+ * Same API and dirty-row semantics as the SQLite reservoir (notes-reservoir.ts): writes land in
+ * IndexedDB first and are pushed conditionally on their base revision; pulls are incremental.
+ * Without IndexedDB (static rendering, some private modes) every call goes to Supabase.
+ * Version history stays on the server, as before.
  */
 
-import type { Note } from "@/lib/supabase";
+import {
+  isRemoteChanged,
+  mergeNoteSnapshots,
+  snapshotOf,
+  type NoteConflict,
+  type NoteSnapshot,
+} from "@/lib/note-merge";
+import {
+  buildSearchResult,
+  noteMatches,
+  parseSearchQuery,
+  type NoteSearchResult,
+} from "@/lib/note-search";
+import { collectNoteProperties, type NotePropertiesEntry } from "@/lib/frontmatter";
+import { planVersionSnapshot } from "@/lib/note-versions";
+import { isTempId } from "@/lib/outbox";
+import type { Note, NoteVersion } from "@/lib/supabase";
+import { countTags, noteHasTag, type TagCount } from "@/lib/tags";
+import { linksTo, resolveWikiLink } from "@/lib/wiki-links";
+import * as supabaseNoteVersions from "@/lib/supabase-note-versions";
 import * as supabaseNotes from "@/lib/supabase-notes";
 
+const DB_NAME = "gopx-notes";
+const DB_VERSION = 1;
+const NOTES_STORE = "notes";
+const CONFLICTS_STORE = "note_conflicts";
+const SYNC_STATE_STORE = "sync_state";
+const SEARCH_LIMIT = 50;
+/** Pulls re-read this much before the watermark: a write that commits late carries an earlier updated_at. */
+const SYNC_OVERLAP_MS = 60 * 1000;
+/** How long the server keeps tombstones; a watermark older than this pulls everything again. */
+const TOMBSTONE_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+/** A note as stored: the server fields plus the local sync state. */
+type StoredNote = Note & {
+  dirty: 0 | 1;
+  /** Server row at last pull/push; base for three-way merges. Null until first pushed. */
+  base_snapshot: NoteSnapshot | null;
+};
+
+type StoredConflict = {
+  note_id: string;
+  base_snapshot: NoteSnapshot;
+  remote_snapshot: NoteSnapshot;
+  detected_at: string;
+};
+
+type SyncState = { user_id: string; notes_pulled_at: string | null };
+
+/** One-time open and upgrade; resolves null where IndexedDB is unavailable. */
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function getDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(NOTES_STORE)) {
+          const notes = db.createObjectStore(NOTES_STORE, { keyPath: "id" });
+          notes.createIndex("user_id", "user_id");
+        }
+        if (!db.objectStoreNames.contains(CONFLICTS_STORE)) {
+          db.createObjectStore(CONFLICTS_STORE, { keyPath: "note_id" });
+        }
+        if (!db.objectStoreNames.contains(SYNC_STATE_STORE)) {
+          db.createObjectStore(SYNC_STATE_STORE, { keyPath: "user_id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[notes-reservoir] IndexedDB unavailable, using Supabase only:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Run `work` in one transaction and resolve once it has committed. */
+async function transact<T>(
+  db: IDBDatabase,
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+  const tx = db.transaction(stores, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+  try {
+    const result = await work(tx);
+    await committed;
+    return result;
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // Already finished
+    }
+    throw error;
+  }
+}
+
+function toNote(row: StoredNote): Note {
+  const { dirty: _dirty, base_snapshot: _base, ...note } = row;
+  return { ...note, share_token: note.share_token ?? null, folder_id: note.folder_id || null };
+}
+
+function byUpdatedDesc(a: Note, b: Note): number {
+  return new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+}
+
+async function getRow(db: IDBDatabase, id: string): Promise<StoredNote | null> {
+  const row = await promisify<StoredNote | undefined>(
+    db.transaction(NOTES_STORE).objectStore(NOTES_STORE).get(id)
+  );
+  return row ?? null;
+}
+
+async function getUserRows(db: IDBDatabase, userId: string): Promise<StoredNote[]> {
+  return promisify<StoredNote[]>(
+    db.transaction(NOTES_STORE).objectStore(NOTES_STORE).index("user_id").getAll(userId)
+  );
+}
+
+async function putRow(db: IDBDatabase, row: StoredNote): Promise<void> {
+  await transact(db, [NOTES_STORE], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(NOTES_STORE).put(row));
+  });
+}
+
+/** Remove a note and its conflict record from the local database. */
+async function deleteLocalNote(db: IDBDatabase, id: string): Promise<void> {
+  await transact(db, [NOTES_STORE, CONFLICTS_STORE], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(NOTES_STORE).delete(id));
+    await promisify(tx.objectStore(CONFLICTS_STORE).delete(id));
+  });
+}
+
+/** Active notes of a user, most recently updated first. */
+async function getActiveNotes(db: IDBDatabase, userId: string): Promise<Note[]> {
+  return (await getUserRows(db, userId))
+    .filter((row) => !row.is_archived)
+    .map(toNote)
+    .sort(byUpdatedDesc);
+}
+
 export type NotesSyncStatus = {
+  /** Number of notes with local changes not yet pushed to Supabase. */
   pendingCount: number;
+  /** True while a sync is in progress. */
   isSyncing: boolean;
 };
 
-/** On web, data is always from Supabase so there is nothing to sync. */
-export async function getNotesSyncStatus(_userId: string | undefined): Promise<NotesSyncStatus> {
-  return { pendingCount: 0, isSyncing: false };
+let isSyncing = false;
+
+/** Returns current sync status: pending count (dirty rows) and whether a sync is in progress. */
+export async function getNotesSyncStatus(userId: string | undefined): Promise<NotesSyncStatus> {
+  if (!userId) return { pendingCount: 0, isSyncing: false };
+  const db = await getDb();
+  if (!db) return { pendingCount: 0, isSyncing: false };
+  const rows = await getUserRows(db, userId);
+  return {
+    pendingCount: rows.filter((row) => row.dirty === 1).length,
+    isSyncing,
+  };
+}
+
+/** Returns note ids that have local changes not yet pushed to Supabase (for showing per-note sync icon). */
+export async function getUnsyncedNoteIds(userId: string | undefined): Promise<string[]> {
+  if (!userId) return [];
+  const db = await getDb();
+  if (!db) return [];
+  return (await getUserRows(db, userId)).filter((row) => row.dirty === 1).map((row) => row.id);
 }
 
-/** On web, all notes are considered synced. */
-export async function getUnsyncedNoteIds(_userId: string | undefined): Promise<string[]> {
-  return [];
+type PushPayload = Parameters<typeof supabaseNotes.updateNoteIfUnchanged>[1];
+
+function pushPayloadOf(note: Pick<NoteSnapshot, "title" | "content" | "is_archived" | "folder_id" | "share_token">): PushPayload {
+  return {
+    title: note.title,
+    content: note.content,
+    is_archived: note.is_archived,
+    folder_id: note.folder_id,
+    share_token: note.share_token,
+  };
+}
+
+/** Store the server's copy of a note as the synced local row and new merge base. */
+async function markSynced(db: IDBDatabase, note: Note): Promise<void> {
+  await transact(db, [NOTES_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(NOTES_STORE);
+    const existing = await promisify<StoredNote | undefined>(store.get(note.id));
+    if (!existing) return;
+    await promisify(store.put({ ...existing, ...note, dirty: 0, base_snapshot: snapshotOf(note) }));
+  });
+}
+
+async function saveConflict(
+  db: IDBDatabase,
+  noteId: string,
+  base: NoteSnapshot,
+  remote: NoteSnapshot
+): Promise<void> {
+  await transact(db, [CONFLICTS_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(CONFLICTS_STORE);
+    const existing = await promisify<StoredConflict | undefined>(store.get(noteId));
+    const conflict: StoredConflict = existing
+      ? { ...existing, remote_snapshot: remote, detected_at: new Date().toISOString() }
+      : { note_id: noteId, base_snapshot: base, remote_snapshot: remote, detected_at: new Date().toISOString() };
+    await promisify(store.put(conflict));
+  });
+}
+
+async function refreshConflictRemote(
+  db: IDBDatabase,
+  noteId: string,
+  remote: NoteSnapshot
+): Promise<void> {
+  await transact(db, [CONFLICTS_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(CONFLICTS_STORE);
+    const existing = await promisify<StoredConflict | undefined>(store.get(noteId));
+    if (existing) await promisify(store.put({ ...existing, remote_snapshot: remote }));
+  });
+}
+
+async function getConflict(db: IDBDatabase, noteId: string): Promise<StoredConflict | null> {
+  const conflict = await promisify<StoredConflict | undefined>(
+    db.transaction(CONFLICTS_STORE).objectStore(CONFLICTS_STORE).get(noteId)
+  );
+  return conflict ?? null;
+}
+
+/**
+ * Push a dirty local row. With a base revision the write is conditional on the server still being
+ * at that revision; if it moved on, both sides are merged field by field. Non-mergeable edits are
+ * recorded as a conflict and the row stays dirty until the user resolves them.
+ * Returns the synced note, or null when the push did not complete.
+ */
+async function pushDirtyNote(
+  db: IDBDatabase,
+  row: StoredNote,
+  serverNote?: Note
+): Promise<Note | null> {
+  const local = snapshotOf(toNote(row));
+  let base = row.base_snapshot;
+
+  if (!base) {
+    // Created here: the first push inserts it under its local id
+    const [created] = await supabaseNotes.insertNotes([toNote(row)]);
+    if (created) {
+      await markSynced(db, created);
+      return created;
+    }
+    // Already on the server (an earlier push whose response was lost): adopt it as base
+    const current = serverNote ?? (await supabaseNotes.getNoteById(row.id));
+    if (!current) return null;
+    base = snapshotOf(current);
+  }
+
+  const updated = await supabaseNotes.updateNoteIfUnchanged(row.id, pushPayloadOf(local), base.updated_at);
+  if (updated) {
+    await markSynced(db, updated);
+    return updated;
+  }
+
+  const remoteNote = await supabaseNotes.getNoteById(row.id);
+  if (!remoteNote || !isRemoteChanged(base, remoteNote)) return null;
+
+  const remote = snapshotOf(remoteNote);
+  const { merged, conflicts } = mergeNoteSnapshots(base, local, remote);
+  if (conflicts.length > 0) {
+    await saveConflict(db, row.id, base, remote);
+    return null;
+  }
+
+  const mergedNote = await supabaseNotes.updateNoteIfUnchanged(
+    row.id,
+    pushPayloadOf(merged),
+    remoteNote.updated_at
+  );
+  if (mergedNote) await markSynced(db, mergedNote);
+  return mergedNote;
+}
+
+async function getNotesWatermark(db: IDBDatabase, userId: string): Promise<string | null> {
+  const state = await promisify<SyncState | undefined>(
+    db.transaction(SYNC_STATE_STORE).objectStore(SYNC_STATE_STORE).get(userId)
+  );
+  return state?.notes_pulled_at ?? null;
+}
+
+function laterTimestamp(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(b).getTime() > new Date(a).getTime() ? b : a;
+}
+
+/**
+ * Push every dirty row. The server copies are fetched in one batch; notes the server doesn't have
+ * (created here, or deleted elsewhere while edited here) are inserted together under their local ids.
+ */
+async function pushDirtyNotes(db: IDBDatabase, userId: string): Promise<void> {
+  const dirtyRows = (await getUserRows(db, userId)).filter(
+    // Filed into a folder created offline; pushed once the folder has its server id
+    (row) => row.dirty === 1 && !isTempId(row.folder_id)
+  );
+  if (dirtyRows.length === 0) return;
+
+  const remoteById = new Map(
+    (await supabaseNotes.getNotesByIds(dirtyRows.map((row) => row.id))).map((note) => [note.id, note])
+  );
+
+  const newNotes = dirtyRows.filter((row) => !remoteById.has(row.id)).map(toNote);
+  if (newNotes.length > 0) {
+    try {
+      const created = await supabaseNotes.insertNotes(newNotes);
+      for (const note of created) {
+        await markSynced(db, note);
+      }
+    } catch (error) {
+      // Rows stay dirty for the next sync
+      console.warn("[notes-reservoir] Failed to push new notes:", error);
+    }
+  }
+
+  for (const row of dirtyRows) {
+    const remote = remoteById.get(row.id);
+    if (!remote) continue;
+    try {
+      if (await getConflict(db, remote.id)) {
+        // Waiting for the user to resolve; keep the stored server side current.
+        await refreshConflictRemote(db, remote.id, snapshotOf(remote));
+      } else {
+        // Conditional on the base revision, merging if the server moved on
+        await pushDirtyNote(db, row, remote);
+      }
+    } catch (error) {
+      // Log error but keep row dirty for next sync
+      console.warn(`[notes-reservoir] Failed to sync note ${remote.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Pull notes written on the server since the watermark, and the tombstones of notes deleted since,
+ * then move the watermark to the newest timestamp seen. Rows with unpushed edits keep them. Without
+ * a usable watermark every note is pulled; that complete list also drops synced rows whose
+ * deletion is older than the server keeps tombstones.
+ */
+async function pullRemoteNotes(db: IDBDatabase, userId: string): Promise<void> {
+  const watermark = await getNotesWatermark(db, userId);
+  const full = !watermark || Date.now() - new Date(watermark).getTime() > TOMBSTONE_RETENTION_MS;
+  const since = full ? null : new Date(new Date(watermark).getTime() - SYNC_OVERLAP_MS).toISOString();
+
+  // Notes before tombstones: a note deleted in between shows up in both and ends up deleted
+  const changed = await supabaseNotes.listNotesChangedSince(userId, since);
+  const tombstones = await supabaseNotes.listNoteTombstonesSince(userId, since);
+
+  let pulledAt = watermark;
+  for (const note of changed) pulledAt = laterTimestamp(pulledAt, note.updated_at);
+  for (const tombstone of tombstones) pulledAt = laterTimestamp(pulledAt, tombstone.deleted_at);
+
+  await transact(db, [NOTES_STORE, CONFLICTS_STORE, SYNC_STATE_STORE], "readwrite", async (tx) => {
+    const notes = tx.objectStore(NOTES_STORE);
+    const conflicts = tx.objectStore(CONFLICTS_STORE);
+
+    for (const note of changed) {
+      const existing = await promisify<StoredNote | undefined>(notes.get(note.id));
+      if (existing?.dirty === 1) continue;
+      await promisify(notes.put({ ...note, dirty: 0, base_snapshot: snapshotOf(note) }));
+    }
+
+    for (const tombstone of tombstones) {
+      const existing = await promisify<StoredNote | undefined>(notes.get(tombstone.note_id));
+      // Edited here since: the push recreates it
+      if (!existing || existing.dirty === 1) continue;
+      await promisify(notes.delete(tombstone.note_id));
+      await promisify(conflicts.delete(tombstone.note_id));
+    }
+
+    if (full) {
+      const remoteIds = new Set(changed.map((note) => note.id));
+      const local = await promisify<StoredNote[]>(notes.index("user_id").getAll(userId));
+      for (const row of local) {
+        if (row.dirty === 0 && row.base_snapshot && !remoteIds.has(row.id)) {
+          await promisify(notes.delete(row.id));
+          await promisify(conflicts.delete(row.id));
+        }
+      }
+    }
+
+    if (pulledAt && pulledAt !== watermark) {
+      const state: SyncState = { user_id: userId, notes_pulled_at: pulledAt };
+      await promisify(tx.objectStore(SYNC_STATE_STORE).put(state));
+    }
+  });
+}
+
+/** Sync: push dirty rows to Supabase, then pull what changed on the server since the last sync. */
+export async function syncFromSupabase(userId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  // Prevent concurrent syncs
+  if (isSyncing) {
+    return;
+  }
+
+  isSyncing = true;
+  try {
+    await pushDirtyNotes(db, userId);
+    await pullRemoteNotes(db, userId);
+  } catch (e) {
+    console.warn("[notes-reservoir] syncFromSupabase failed:", e);
+  } finally {
+    isSyncing = false;
+  }
+}
+
+/** What applying a server row pushed over Realtime did to the local copy. */
+export type RemoteNoteApplyResult = "applied" | "unchanged" | "dirty";
+
+/**
+ * Apply a note row pushed by Supabase Realtime. A row with unpushed local edits is left alone
+ * ("dirty"; the next sync merges both sides). "unchanged" is usually this device's own push.
+ */
+export async function applyRemoteNote(note: Note): Promise<RemoteNoteApplyResult> {
+  const db = await getDb();
+  if (!db) return "applied";
+
+  return transact(db, [NOTES_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(NOTES_STORE);
+    const existing = await promisify<StoredNote | undefined>(store.get(note.id));
+    if (existing?.dirty === 1) return "dirty";
+    if (existing) {
+      const local = snapshotOf(toNote(existing));
+      const remote = snapshotOf(note);
+      if (
+        local.title === remote.title &&
+        local.content === remote.content &&
+        local.is_archived === remote.is_archived &&
+        local.folder_id === remote.folder_id &&
+        local.share_token === remote.share_token
+      ) {
+        return "unchanged";
+      }
+    }
+    await promisify(store.put({ ...note, dirty: 0, base_snapshot: snapshotOf(note) }));
+    return "applied";
+  });
 }
 
-export async function syncFromSupabase(_userId: string): Promise<void> {
-  // No-op on web; data is always from Supabase
+/** Drop a note deleted on the server (pushed over Realtime). Returns false for ids not stored here. */
+export async function removeRemoteNote(id: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  if (!(await getRow(db, id))) return false;
+  await deleteLocalNote(db, id);
+  return true;
 }
 
 export async function listNotes(userId?: string): Promise<Note[]> {
   if (!userId) throw new Error("User ID is required");
-  return supabaseNotes.listNotes(userId);
+  const db = await getDb();
+  if (!db) return supabaseNotes.listNotes(userId);
+
+  // Supabase-first: attempt sync, then read the local copy (fallback when offline/fetch fails).
+  await syncFromSupabase(userId).catch(() => {});
+  return getActiveNotes(db, userId);
 }
 
 export async function listArchivedNotes(userId?: string): Promise<Note[]> {
   if (!userId) throw new Error("User ID is required");
-  return supabaseNotes.listArchivedNotes(userId);
+  const db = await getDb();
+  if (!db) return supabaseNotes.listArchivedNotes(userId);
+
+  await syncFromSupabase(userId).catch(() => {});
+  return (await getUserRows(db, userId))
+    .filter((row) => row.is_archived)
+    .map(toNote)
+    .sort(byUpdatedDesc);
 }
 
 export async function getNoteById(id: string): Promise<Note | null> {
-  return supabaseNotes.getNoteById(id);
+  const db = await getDb();
+  if (!db) return supabaseNotes.getNoteById(id);
+
+  const row = await getRow(db, id);
+  if (row) return toNote(row);
+  // Notes other accounts shared with this user are not mirrored locally
+  try {
+    return await supabaseNotes.getNoteById(id);
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to fetch note ${id} from Supabase:`, error);
+    return null;
+  }
+}
+
+/** Same history rules as native; failures are logged so a missing versions table never blocks saving. */
+async function snapshotVersion(previous: Note, next: Note, coalesce = true): Promise<void> {
+  try {
+    const latest = await supabaseNoteVersions.getLatestNoteVersion(next.id);
+    if (!latest && (previous.title !== next.title || previous.content !== next.content)) {
+      await supabaseNoteVersions.createNoteVersion({
+        note_id: previous.id,
+        user_id: previous.user_id,
+        title: previous.title,
+        content: previous.content,
+        created_at: previous.updated_at,
+      });
+    }
+    const plan = planVersionSnapshot(latest, next, { coalesce });
+    if (plan === "coalesce" && latest) {
+      await supabaseNoteVersions.updateNoteVersion(latest.id, next);
+    } else if (plan === "insert") {
+      await supabaseNoteVersions.createNoteVersion({
+        note_id: next.id,
+        user_id: next.user_id,
+        title: next.title,
+        content: next.content,
+      });
+    }
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to record version for note ${next.id}:`, error);
+  }
+}
+
+function generateId(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === "x" ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
 }
 
 export async function createNote(input: {
@@ -45,24 +566,321 @@ export async function createNote(input: {
   content: string;
   folder_id?: string | null;
 }): Promise<Note> {
-  return supabaseNotes.createNote(input);
+  const db = await getDb();
+  if (!db) {
+    const created = await supabaseNotes.createNote(input);
+    await snapshotVersion(created, created);
+    return created;
+  }
+
+  const now = new Date().toISOString();
+  const note: Note = {
+    id: generateId(),
+    user_id: input.user_id,
+    title: input.title || "Untitled",
+    content: input.content,
+    is_archived: false,
+    created_at: now,
+    updated_at: now,
+    share_token: null,
+    folder_id: input.folder_id ?? null,
+  };
+  const row: StoredNote = { ...note, dirty: 1, base_snapshot: null };
+  await putRow(db, row);
+
+  // Filed into a folder created offline; pushed once the folder has its server id
+  if (isTempId(note.folder_id)) return note;
+  try {
+    const created = await pushDirtyNote(db, row);
+    if (created) {
+      await snapshotVersion(created, created);
+      return created;
+    }
+  } catch (error) {
+    // Sync failed - return local note, it will sync later
+    console.warn(`[notes-reservoir] Failed to sync new note immediately:`, error);
+  }
+  return note;
+}
+
+async function saveNoteUpdate(
+  db: IDBDatabase,
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>,
+  coalesceVersion: boolean
+): Promise<Note | null> {
+  const current = await getRow(db, id);
+  if (!current) return null;
+
+  const row: StoredNote = {
+    ...current,
+    title: updates.title !== undefined ? updates.title : current.title,
+    content: updates.content !== undefined ? updates.content : current.content,
+    share_token: updates.share_token !== undefined ? updates.share_token : current.share_token ?? null,
+    folder_id: updates.folder_id !== undefined ? updates.folder_id : current.folder_id ?? null,
+    updated_at: new Date().toISOString(),
+    dirty: 1,
+  };
+  await putRow(db, row);
+
+  try {
+    // An open conflict must be resolved by the user first; keep the edit local until then.
+    if (!isTempId(row.folder_id) && !(await getConflict(db, id))) {
+      const updated = await pushDirtyNote(db, row);
+      if (updated) {
+        const touchesText = updates.title !== undefined || updates.content !== undefined;
+        if (touchesText) await snapshotVersion(toNote(current), updated, coalesceVersion);
+        return updated;
+      }
+    }
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to sync update for note ${id}:`, error);
+  }
+  const latest = await getRow(db, id);
+  return toNote(latest ?? row);
+}
+
+/** Write straight to Supabase (no IndexedDB, or a note another account shared that isn't stored here). */
+async function saveRemoteNoteUpdate(
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>,
+  coalesceVersion: boolean
+): Promise<Note | null> {
+  const touchesText = updates.title !== undefined || updates.content !== undefined;
+  const previous = touchesText ? await supabaseNotes.getNoteById(id) : null;
+  const updated = await supabaseNotes.updateNote(id, updates);
+  if (previous && updated) {
+    await snapshotVersion(previous, updated, coalesceVersion);
+  }
+  return updated;
+}
+
+async function saveUpdate(
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>,
+  coalesceVersion: boolean
+): Promise<Note | null> {
+  const db = await getDb();
+  // A note shared by another account: write through, its owner keeps the history
+  if (!db || !(await getRow(db, id))) return saveRemoteNoteUpdate(id, updates, coalesceVersion);
+  return saveNoteUpdate(db, id, updates, coalesceVersion);
 }
 
 export async function updateNote(
   id: string,
-  updates: Partial<Pick<Note, "title" | "content">>
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>
 ): Promise<Note | null> {
-  return supabaseNotes.updateNote(id, updates);
+  return saveUpdate(id, updates, true);
+}
+
+/** Archive or restore locally, then on the server; the row stays dirty if that fails. */
+async function setArchived(id: string, archived: boolean): Promise<void> {
+  const db = await getDb();
+  const row = db ? await getRow(db, id) : null;
+  if (!db || !row) {
+    return archived ? supabaseNotes.archiveNote(id) : supabaseNotes.restoreNote(id);
+  }
+
+  await putRow(db, { ...row, is_archived: archived, updated_at: new Date().toISOString(), dirty: 1 });
+
+  try {
+    if (archived) await supabaseNotes.archiveNote(id);
+    else await supabaseNotes.restoreNote(id);
+    const latest = await getRow(db, id);
+    if (latest) await putRow(db, { ...latest, dirty: 0 });
+  } catch {
+    // Leave dirty
+  }
 }
 
 export async function archiveNote(id: string): Promise<void> {
-  return supabaseNotes.archiveNote(id);
+  return setArchived(id, true);
 }
 
 export async function restoreNote(id: string): Promise<void> {
-  return supabaseNotes.restoreNote(id);
+  return setArchived(id, false);
 }
 
 export async function deleteNote(id: string): Promise<void> {
-  return supabaseNotes.deleteNote(id);
+  const db = await getDb();
+  if (!db) return supabaseNotes.deleteNote(id);
+
+  await deleteLocalNote(db, id);
+
+  try {
+    await supabaseNotes.deleteNote(id);
+  } catch {
+    // Already removed locally
+  }
+}
+
+/** Search over the local copy of active notes, ranked and highlighted in memory. */
+export async function searchNotes(userId: string, query: string): Promise<NoteSearchResult[]> {
+  if (!userId) throw new Error("User ID is required");
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+  const db = await getDb();
+  if (!db) return supabaseNotes.searchNotes(userId, terms, SEARCH_LIMIT);
+
+  return (await getActiveNotes(db, userId))
+    .filter((note) => noteMatches(note, terms))
+    .map((note) => buildSearchResult(note, terms))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, SEARCH_LIMIT);
+}
+
+/** Notes whose content links to `title` via [[wiki links]], most recently updated first. */
+export async function listBacklinks(
+  userId: string,
+  title: string,
+  excludeId?: string
+): Promise<Note[]> {
+  if (!userId) throw new Error("User ID is required");
+  const db = await getDb();
+  if (!db) return supabaseNotes.listBacklinks(userId, title, excludeId);
+
+  return (await getActiveNotes(db, userId)).filter(
+    (note) => note.id !== excludeId && linksTo(note.content, title)
+  );
+}
+
+/** Note a [[wiki link]] to `title` resolves to (most recently updated on collisions), or null. */
+export async function findNoteByTitle(userId: string, title: string): Promise<Note | null> {
+  if (!userId) throw new Error("User ID is required");
+  const db = await getDb();
+  if (!db) return supabaseNotes.findNoteByTitle(userId, title);
+
+  return resolveWikiLink(title, (await getUserRows(db, userId)).map(toNote));
+}
+
+/** Tag counts over active notes; nested tags also count toward their ancestors. */
+export async function listTagCounts(userId: string): Promise<TagCount[]> {
+  if (!userId) throw new Error("User ID is required");
+  const db = await getDb();
+  if (!db) return supabaseNotes.listTagCounts(userId);
+
+  return countTags(await getActiveNotes(db, userId));
+}
+
+/** Active notes tagged `tag` or one of its descendants, most recently updated first. */
+export async function listNotesByTag(userId: string, tag: string): Promise<Note[]> {
+  if (!userId) throw new Error("User ID is required");
+  const db = await getDb();
+  if (!db) return supabaseNotes.listNotesByTag(userId, tag);
+
+  return (await getActiveNotes(db, userId)).filter((note) => noteHasTag(note.content, tag));
+}
+
+/** Frontmatter properties of active notes that have any, most recently updated first. */
+export async function listNoteProperties(userId: string): Promise<NotePropertiesEntry[]> {
+  if (!userId) throw new Error("User ID is required");
+  const db = await getDb();
+  if (!db) return supabaseNotes.listNoteProperties(userId);
+
+  return collectNoteProperties(await getActiveNotes(db, userId));
+}
+
+/** Unresolved conflict for a note (local and server both changed since the last sync), or null. */
+export async function getNoteConflict(id: string): Promise<NoteConflict | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const conflict = await getConflict(db, id);
+  const row = await getRow(db, id);
+  if (!conflict || !row) return null;
+
+  return {
+    noteId: id,
+    base: conflict.base_snapshot,
+    local: snapshotOf(toNote(row)),
+    remote: conflict.remote_snapshot,
+    detectedAt: conflict.detected_at,
+  };
+}
+
+/**
+ * Resolve a conflict with the user's merged fields. The server revision that was merged against
+ * becomes the new base, so the push only succeeds if nobody changed the note again meanwhile.
+ */
+export async function resolveNoteConflict(
+  id: string,
+  resolved: Pick<Note, "title" | "content">
+): Promise<Note | null> {
+  const db = await getDb();
+  if (!db) return saveRemoteNoteUpdate(id, resolved, false);
+
+  const conflict = await getNoteConflict(id);
+  const current = await getRow(db, id);
+  if (!conflict || !current) return getNoteById(id);
+
+  const { local, remote } = conflict;
+  // Non-text fields: keep the local value only where the local side changed it.
+  const pick = <K extends "is_archived" | "folder_id" | "share_token">(field: K) =>
+    local[field] !== conflict.base[field] ? local[field] : remote[field];
+
+  const row: StoredNote = {
+    ...current,
+    title: resolved.title,
+    content: resolved.content,
+    is_archived: pick("is_archived"),
+    folder_id: pick("folder_id"),
+    share_token: pick("share_token"),
+    updated_at: new Date().toISOString(),
+    dirty: 1,
+    base_snapshot: remote,
+  };
+  await transact(db, [NOTES_STORE, CONFLICTS_STORE], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(NOTES_STORE).put(row));
+    await promisify(tx.objectStore(CONFLICTS_STORE).delete(id));
+  });
+
+  try {
+    const pushed = await pushDirtyNote(db, row);
+    if (pushed) {
+      await snapshotVersion(toNote(current), pushed, false);
+      return pushed;
+    }
+  } catch (error) {
+    console.warn(`[notes-reservoir] Failed to sync resolved note ${id}:`, error);
+  }
+  const latest = await getRow(db, id);
+  return latest ? toNote(latest) : null;
+}
+
+export async function listNoteVersions(noteId: string): Promise<NoteVersion[]> {
+  return supabaseNoteVersions.listNoteVersions(noteId);
+}
+
+/** Replace the note's title and content with a version's. Recorded as a new version so it can be undone. */
+export async function restoreNoteVersion(noteId: string, versionId: string): Promise<Note | null> {
+  const version = await supabaseNoteVersions.getNoteVersionById(versionId);
+  if (!version || version.note_id !== noteId) throw new Error("Version not found");
+  return saveUpdate(noteId, { title: version.title, content: version.content }, false);
+}
+
+/** Versions live on the server, which drops an encrypted note's plaintext history itself. */
+export async function deletePlaintextVersions(_noteId: string): Promise<void> {}
+
+/** Point notes filed into a folder created offline at the folder's server id. */
+export async function remapNotesFolderId(fromId: string, toId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await transact(db, [NOTES_STORE], "readwrite", async (tx) => {
+    const store = tx.objectStore(NOTES_STORE);
+    const rows = await promisify<StoredNote[]>(store.getAll());
+    for (const row of rows) {
+      if (row.folder_id === fromId) await promisify(store.put({ ...row, folder_id: toId }));
+    }
+  });
+}
+
+/** Drop every note stored in this browser, with its conflicts and sync watermark (sign-out, deleting all content). */
+export async function clearLocalNotes(): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await transact(db, [NOTES_STORE, CONFLICTS_STORE, SYNC_STATE_STORE], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(NOTES_STORE).clear());
+    await promisify(tx.objectStore(CONFLICTS_STORE).clear());
+    await promisify(tx.objectStore(SYNC_STATE_STORE).clear());
+  });
 }
@@ -1,33 +1,105 @@
 import { UI_DEV } from "@/lib/config";
+import { collectNoteProperties, type NotePropertiesEntry } from "@/lib/frontmatter";
 import * as mockNotes from "@/lib/mock-notes";
+import type { NoteConflict } from "@/lib/note-merge";
+import {
+  buildSearchResult,
+  noteMatches,
+  parseSearchQuery,
+  type NoteSearchResult,
+} from "@/lib/note-search";
 import * as notesReservoir from "@/lib/notes-reservoir";
 import * as supabaseNotes from "@/lib/supabase-notes";
-import type { Note } from "@/lib/supabase";
-
-export type SharedNoteResult = supabaseNotes.SharedNoteResult;
+import type { Note, NoteVersion } from "@/lib/supabase";
+import { countTags, noteHasTag, type TagCount } from "@/lib/tags";
+import {
+  isEncryptedText,
+  isEncryptedNote,
+  isVaultFolderId,
+  isVaultUnlocked,
+  openText,
+  revealNote,
+  sealText,
+} from "@/lib/vault";
+import {
+  linksTo,
+  normalizeWikiTarget,
+  resolveWikiLink,
+  rewriteWikiLinks,
+} from "@/lib/wiki-links";
 
 export type NotesSyncStatus = import("@/lib/notes-reservoir").NotesSyncStatus;
+export type RemoteNoteApplyResult = import("@/lib/notes-reservoir").RemoteNoteApplyResult;
+
+/** Vault notes decrypted; while the vault is locked they are left out. */
+function revealNotes(notes: Note[]): Note[] {
+  return notes.map(revealNote).filter((note) => !isEncryptedNote(note));
+}
+
+/** The user's vault notes, decrypted. Empty while the vault is locked. */
+async function listUnlockedVaultNotes(userId: string): Promise<Note[]> {
+  if (!isVaultUnlocked()) return [];
+  const notes = await notesReservoir.listNotes(userId);
+  return revealNotes(notes.filter(isEncryptedNote));
+}
+
+/**
+ * Title and content as they should be stored for a note moving to (or staying in) `folderId`:
+ * encrypted inside a vault, plaintext outside. Unchanged fields keep their ciphertext so a save
+ * doesn't rewrite them. Vault notes can't be shared; moving one in stops its share link.
+ */
+async function sealNoteUpdates(
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id">>
+): Promise<{ updates: typeof updates; newlyEncrypted: boolean }> {
+  const current = await notesReservoir.getNoteById(id);
+  if (!current) return { updates, newlyEncrypted: false };
+  const folderId = updates.folder_id !== undefined ? updates.folder_id : current.folder_id;
+  const inVault = await isVaultFolderId(current.user_id, folderId);
+  if (!inVault && !isEncryptedNote(current)) return { updates, newlyEncrypted: false };
+  if (!isVaultUnlocked()) throw new Error("Unlock the vault to change its notes");
+
+  const sealed = { ...updates };
+  for (const field of ["title", "content"] as const) {
+    const stored = current[field];
+    const plaintext = updates[field] ?? openText(stored);
+    if (isEncryptedText(plaintext)) {
+      throw new Error("This note was encrypted with a different vault passphrase");
+    }
+    if (!inVault) sealed[field] = plaintext;
+    else if (isEncryptedText(stored) && openText(stored) === plaintext) sealed[field] = stored;
+    else sealed[field] = sealText(plaintext);
+  }
+  if (inVault) {
+    if (updates.share_token) throw new Error("Notes in a vault can't be shared");
+    if (current.share_token) sealed.share_token = null;
+  }
+  return { updates: sealed, newlyEncrypted: inVault && !isEncryptedNote(current) };
+}
 
-// Unified notes API: mock (UI_DEV), or local-first reservoir (SQLite + Supabase sync)
+// Unified notes API: mock (UI_DEV), or local-first reservoir (SQLite on native, IndexedDB on web, synced with Supabase).
+// Notes in vault folders are stored encrypted and decrypted here while the vault is unlocked (lib/vault.ts).
 export const listNotes = async (userId?: string): Promise<Note[]> => {
   if (UI_DEV) {
     return mockNotes.listNotes(userId);
   }
-  return notesReservoir.listNotes(userId);
+  return revealNotes(await notesReservoir.listNotes(userId));
 };
 
 export const listArchivedNotes = async (userId?: string): Promise<Note[]> => {
   if (UI_DEV) {
     return mockNotes.listArchivedNotes?.(userId) || [];
   }
-  return notesReservoir.listArchivedNotes(userId);
+  return revealNotes(await notesReservoir.listArchivedNotes(userId));
 };
 
+/** A vault note comes back still encrypted while the vault is locked (see isEncryptedNote). */
 export const getNoteById = async (id: string): Promise<Note | null> => {
   if (UI_DEV) {
     return mockNotes.getNoteById(id);
   }
-  return notesReservoir.getNoteById(id);
+  const note = await notesReservoir.getNoteById(id);
+  return note ? revealNote(note) : null;
 };
 
 export const createNote = async (input: {
@@ -39,6 +111,15 @@ export const createNote = async (input: {
   if (UI_DEV) {
     return mockNotes.createNote(input);
   }
+  if (await isVaultFolderId(input.user_id, input.folder_id)) {
+    if (!isVaultUnlocked()) throw new Error("Unlock the vault to add notes to it");
+    const note = await notesReservoir.createNote({
+      ...input,
+      title: sealText(input.title),
+      content: sealText(input.content),
+    });
+    return revealNote(note);
+  }
   return notesReservoir.createNote(input);
 };
 
@@ -49,7 +130,10 @@ export const updateNote = async (
   if (UI_DEV) {
     return mockNotes.updateNote(id, updates);
   }
-  return notesReservoir.updateNote(id, updates);
+  const sealed = await sealNoteUpdates(id, updates);
+  const note = await notesReservoir.updateNote(id, sealed.updates);
+  if (sealed.newlyEncrypted) await notesReservoir.deletePlaintextVersions(id);
+  return note ? revealNote(note) : null;
 };
 
 export const archiveNote = async (id: string): Promise<void> => {
@@ -73,12 +157,159 @@ export const deleteNote = async (id: string): Promise<void> => {
   return notesReservoir.deleteNote(id);
 };
 
+/**
+ * Ranked full-text search over active notes' titles and contents. Supports "phrases" and prefix* queries.
+ * Vault notes aren't in the search index: while the vault is unlocked they are matched in memory and
+ * listed after the indexed results; while it is locked they are not searched.
+ */
+export const searchNotes = async (
+  userId: string | undefined,
+  query: string
+): Promise<NoteSearchResult[]> => {
+  if (!userId) throw new Error("User ID is required");
+  if (UI_DEV) {
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) return [];
+    const notes = await mockNotes.listNotes(userId);
+    return notes
+      .filter((note) => noteMatches(note, terms))
+      .map((note) => buildSearchResult(note, terms))
+      .sort((a, b) => b.rank - a.rank);
+  }
+  const results = await notesReservoir.searchNotes(userId, query);
+  const terms = parseSearchQuery(query);
+  const vaultResults = (await listUnlockedVaultNotes(userId))
+    .filter((note) => noteMatches(note, terms))
+    .map((note) => buildSearchResult(note, terms))
+    .sort((a, b) => b.rank - a.rank);
+  return [...results.filter((result) => !isEncryptedNote(result.note)), ...vaultResults];
+};
+
+/** Active notes that link to `title` with [[wiki links]], newest first. */
+export const listBacklinks = async (
+  userId: string | undefined,
+  title: string,
+  excludeId?: string
+): Promise<Note[]> => {
+  if (!userId) throw new Error("User ID is required");
+  if (!title.trim()) return [];
+  if (UI_DEV) {
+    const notes = await mockNotes.listNotes(userId);
+    return notes.filter((note) => note.id !== excludeId && linksTo(note.content, title));
+  }
+  const backlinks = await notesReservoir.listBacklinks(userId, title, excludeId);
+  const vaultBacklinks = (await listUnlockedVaultNotes(userId)).filter(
+    (note) => note.id !== excludeId && linksTo(note.content, title)
+  );
+  return [...revealNotes(backlinks), ...vaultBacklinks];
+};
+
+/** Note a [[wiki link]] points at (by title, then by alias), or null when none matches. */
+export const findNoteByTitle = async (
+  userId: string | undefined,
+  title: string
+): Promise<Note | null> => {
+  if (!userId) throw new Error("User ID is required");
+  const note = UI_DEV
+    ? resolveWikiLink(title, await mockNotes.listNotes(userId))
+    : (await notesReservoir.findNoteByTitle(userId, title)) ??
+      resolveWikiLink(title, await listUnlockedVaultNotes(userId));
+  if (note) return revealNote(note);
+
+  // No title match: fall back to a note listing `title` in its `aliases` property
+  const target = normalizeWikiTarget(title);
+  const aliased = (await listNoteProperties(userId)).find((entry) =>
+    entry.aliases.some((alias) => normalizeWikiTarget(alias) === target)
+  );
+  return aliased ? getNoteById(aliased.note_id) : null;
+};
+
+/** After a rename, point inbound [[fromTitle]] links at toTitle. Returns how many notes were updated. */
+export const rewriteInboundWikiLinks = async (
+  userId: string | undefined,
+  noteId: string,
+  fromTitle: string,
+  toTitle: string
+): Promise<number> => {
+  const sources = await listBacklinks(userId, fromTitle, noteId);
+  let updated = 0;
+  for (const source of sources) {
+    const content = rewriteWikiLinks(source.content, fromTitle, toTitle);
+    if (content === source.content) continue;
+    await updateNote(source.id, { content });
+    updated++;
+  }
+  return updated;
+};
+
+/** #tags across active notes with counts; nested tags also count toward their ancestors. */
+export const listTagCounts = async (userId: string | undefined): Promise<TagCount[]> => {
+  if (!userId) throw new Error("User ID is required");
+  if (UI_DEV) {
+    return countTags(await mockNotes.listNotes(userId));
+  }
+  const vaultNotes = await listUnlockedVaultNotes(userId);
+  const tagCounts = await notesReservoir.listTagCounts(userId);
+  if (vaultNotes.length === 0) return tagCounts;
+  const counts = new Map(tagCounts.map(({ tag, count }) => [tag, count]));
+  for (const { tag, count } of countTags(vaultNotes)) {
+    counts.set(tag, (counts.get(tag) ?? 0) + count);
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+};
+
+/** Frontmatter properties (status, due, aliases, tags) of active notes that have any, newest first. */
+export const listNoteProperties = async (
+  userId: string | undefined
+): Promise<NotePropertiesEntry[]> => {
+  if (!userId) throw new Error("User ID is required");
+  if (UI_DEV) {
+    return collectNoteProperties(await mockNotes.listNotes(userId));
+  }
+  const entries = await notesReservoir.listNoteProperties(userId);
+  return [...entries, ...collectNoteProperties(await listUnlockedVaultNotes(userId))];
+};
+
+/** Active notes tagged `tag` (e.g. "work" also matches #work/clientA), newest first. */
+export const listNotesByTag = async (userId: string | undefined, tag: string): Promise<Note[]> => {
+  if (!userId) throw new Error("User ID is required");
+  if (UI_DEV) {
+    const notes = await mockNotes.listNotes(userId);
+    return notes.filter((note) => noteHasTag(note.content, tag));
+  }
+  const notes = await notesReservoir.listNotesByTag(userId, tag);
+  const vaultNotes = (await listUnlockedVaultNotes(userId)).filter((note) =>
+    noteHasTag(note.content, tag)
+  );
+  return [...revealNotes(notes), ...vaultNotes];
+};
+
 /** Trigger sync of notes from Supabase into local SQLite. Returns a promise that resolves when sync finishes (for invalidating queries). */
 export const syncNotesFromSupabase = (userId: string | undefined): Promise<void> | undefined => {
   if (UI_DEV || !userId) return undefined;
   return notesReservoir.syncFromSupabase(userId).catch(() => {});
 };
 
+/** Apply a note row pushed by Supabase Realtime to the local store (native SQLite; no-op on web). */
+export const applyRemoteNote = async (note: Note): Promise<RemoteNoteApplyResult> => {
+  if (UI_DEV) return "unchanged";
+  return notesReservoir.applyRemoteNote(note);
+};
+
+/** Remove a note deleted on the server from the local store; false when it wasn't stored here. */
+export const removeRemoteNote = async (id: string): Promise<boolean> => {
+  if (UI_DEV) return false;
+  return notesReservoir.removeRemoteNote(id);
+};
+
+/** Remove every note kept on this device (sign-out, deleting all content); the server copy is untouched. */
+export const clearLocalNotes = async (): Promise<void> => {
+  if (UI_DEV) return;
+  return notesReservoir.clearLocalNotes();
+};
+
 /** Check if notes are synced with Supabase: pendingCount (unsynced changes) and isSyncing. On web or UI_DEV always returns { pendingCount: 0, isSyncing: false }. */
 export const getNotesSyncStatus = async (
   userId: string | undefined
@@ -95,14 +326,96 @@ export const getUnsyncedNoteIds = async (
   return notesReservoir.getUnsyncedNoteIds(userId);
 };
 
-/** List notes that belong to a folder. Tries Supabase; when offline or fetch fails, uses cached notes (e.g. from SQLite) filtered by folder_id. */
+/** Unresolved sync conflict for a note (edited locally and on another device since last sync). Null on web or UI_DEV. */
+export const getNoteConflict = async (id: string): Promise<NoteConflict | null> => {
+  if (UI_DEV) return null;
+  const conflict = await notesReservoir.getNoteConflict(id);
+  if (!conflict) return null;
+  return {
+    ...conflict,
+    base: revealNote(conflict.base),
+    local: revealNote(conflict.local),
+    remote: revealNote(conflict.remote),
+  };
+};
+
+/** Save the user's merge of a conflicted note and push it. */
+export const resolveNoteConflict = async (
+  id: string,
+  resolved: Pick<Note, "title" | "content">
+): Promise<Note | null> => {
+  if (UI_DEV) {
+    return mockNotes.updateNote(id, resolved);
+  }
+  const { updates } = await sealNoteUpdates(id, resolved);
+  const note = await notesReservoir.resolveNoteConflict(id, {
+    title: updates.title ?? resolved.title,
+    content: updates.content ?? resolved.content,
+  });
+  return note ? revealNote(note) : null;
+};
+
+/** Saved versions of a note, newest first. Empty in UI_DEV. */
+export const listNoteVersions = async (noteId: string): Promise<NoteVersion[]> => {
+  if (UI_DEV) return [];
+  return (await notesReservoir.listNoteVersions(noteId)).map(revealNote);
+};
+
+/** Restore a note's title and content from a version (recorded as a new version, so it can be undone). */
+export const restoreNoteVersion = async (
+  noteId: string,
+  versionId: string
+): Promise<Note | null> => {
+  if (UI_DEV) return mockNotes.getNoteById(noteId);
+  const current = await notesReservoir.getNoteById(noteId);
+  if (current && (await isVaultFolderId(current.user_id, current.folder_id))) {
+    // Through updateNote, so a version from before the note entered the vault is encrypted again
+    const version = (await listNoteVersions(noteId)).find((v) => v.id === versionId);
+    if (!version) throw new Error("Version not found");
+    return updateNote(noteId, { title: version.title, content: version.content });
+  }
+  const note = await notesReservoir.restoreNoteVersion(noteId, versionId);
+  return note ? revealNote(note) : null;
+};
+
+/**
+ * Encrypt or decrypt the notes (active and archived) filed in `folderIds` so each matches whether
+ * its folder is now inside a vault. Run after a folder becomes or stops being a vault, or moves
+ * into or out of one. Returns how many notes were re-saved.
+ */
+export const syncVaultEncryption = async (userId: string, folderIds: string[]): Promise<number> => {
+  if (UI_DEV) return 0;
+  const ids = new Set(folderIds);
+  const notes = [
+    ...(await notesReservoir.listNotes(userId)),
+    ...(await notesReservoir.listArchivedNotes(userId)),
+  ].filter((note) => note.folder_id && ids.has(note.folder_id));
+  let changed = 0;
+  for (const note of notes) {
+    if (isEncryptedNote(note) === (await isVaultFolderId(userId, note.folder_id))) continue;
+    await updateNote(note.id, {});
+    changed++;
+  }
+  return changed;
+};
+
+/** Re-file notes from a folder's temp id (created offline) to its server id. */
+export const remapNotesFolderId = async (fromId: string, toId: string): Promise<void> => {
+  if (UI_DEV) return;
+  return notesReservoir.remapNotesFolderId(fromId, toId);
+};
+
+/**
+ * List notes that belong to a folder. Tries Supabase; when offline or fetch fails, uses cached notes (e.g. from SQLite) filtered by folder_id.
+ * Notes of a locked vault are left out.
+ */
 export const listNotesByFolder = async (
   userId: string | undefined,
   folderId: string
 ): Promise<Note[]> => {
   if (UI_DEV || !userId) return [];
   try {
-    return await supabaseNotes.listNotesByFolder(userId, folderId);
+    return revealNotes(await supabaseNotes.listNotesByFolder(userId, folderId));
   } catch {
     try {
       const allNotes = await listNotes(userId);
@@ -113,10 +426,3 @@ export const listNotesByFolder = async (
   }
 };
 
-/** Public: fetch a note by share token (no auth). For shared note page. */
-export const getNoteByShareToken = async (
-  token: string
-): Promise<supabaseNotes.SharedNoteResult | null> => {
-  if (UI_DEV) return null;
-  return supabaseNotes.getNoteByShareToken(token);
-};
@@ -0,0 +1,305 @@
+/**
+ * Mutation outbox: writes to folders, events, files and attachments that can't reach Supabase
+ * are persisted in AsyncStorage and replayed in order once the network is back.
+ *
+ * - Entity modules register one handler per operation with registerOutboxHandlers.
+ * - Offline creates use a temp id (createTempId, "local-…"). When the create is replayed its
+ *   handler returns the server id and every later entry that references the temp id is rewritten;
+ *   onOutboxIdRemap listeners are told so local caches can follow.
+ * - A network failure stops the flush (retried on the next trigger). Any other failure backs the
+ *   entry off exponentially and drops it after MAX_ATTEMPTS. Entries touching the same id never
+ *   overtake each other.
+ */
+
+import { supabase } from "@/lib/supabase";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const OUTBOX_KEY = "@mutation_outbox";
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+export type OutboxEntity = "folder" | "event" | "file" | "attachment";
+
+export type OutboxEntry = {
+  id: string;
+  entity: OutboxEntity;
+  op: string;
+  /** `id` is the target entity; creates carry `tempId` instead. */
+  payload: Record<string, any>;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: number;
+  last_error?: string;
+};
+
+/** Replays one entry. Create handlers return the server id so the temp id can be remapped. */
+export type OutboxHandler = (payload: Record<string, any>, userId: string) => Promise<string | void>;
+
+export type OutboxIdRemap = {
+  userId: string;
+  entity: OutboxEntity;
+  fromId: string;
+  toId: string;
+};
+
+const handlers = new Map<OutboxEntity, Record<string, OutboxHandler>>();
+const remapListeners = new Set<(remap: OutboxIdRemap) => void | Promise<void>>();
+const flushes = new Map<string, Promise<void>>();
+let lock: Promise<unknown> = Promise.resolve();
+
+function outboxKey(userId: string): string {
+  return `${OUTBOX_KEY}:${userId}`;
+}
+
+/** Serialize read-modify-write cycles on the stored queue. */
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => {});
+  return run;
+}
+
+async function readEntries(userId: string): Promise<OutboxEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(outboxKey(userId));
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as OutboxEntry[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeEntries(userId: string, entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    await AsyncStorage.removeItem(outboxKey(userId));
+    return;
+  }
+  await AsyncStorage.setItem(outboxKey(userId), JSON.stringify(entries));
+}
+
+export function createTempId(): string {
+  return `local-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function isTempId(id: unknown): id is string {
+  return typeof id === "string" && id.startsWith("local-");
+}
+
+/** True for failures caused by being offline (fetch never reached the server). */
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  return /network request failed|failed to fetch|fetch failed|networkerror|load failed|network error|timed out|timeout|ENOTFOUND|ECONNREFUSED|ECONNRESET/i.test(
+    message
+  );
+}
+
+/** Signed-in user id from the persisted session; works offline. */
+export async function getSessionUserId(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function collectTempIds(value: unknown, into: Set<string>): void {
+  if (isTempId(value)) {
+    into.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectTempIds(v, into));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((v) => collectTempIds(v, into));
+  }
+}
+
+/** Ids an entry depends on: its target and any temp ids referenced in the payload. */
+function entryIds(payload: Record<string, any>): string[] {
+  const ids = new Set<string>();
+  if (typeof payload.id === "string") ids.add(payload.id);
+  collectTempIds(payload, ids);
+  return [...ids];
+}
+
+function replaceId<T>(value: T, fromId: string, toId: string): T {
+  if (value === fromId) return toId as T;
+  if (Array.isArray(value)) return value.map((v) => replaceId(v, fromId, toId)) as T;
+  if (value && typeof value === "object") {
+    const next: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) next[key] = replaceId(v, fromId, toId);
+    return next as T;
+  }
+  return value;
+}
+
+export function registerOutboxHandlers(
+  entity: OutboxEntity,
+  entityHandlers: Record<string, OutboxHandler>
+): void {
+  handlers.set(entity, { ...handlers.get(entity), ...entityHandlers });
+}
+
+/** Called after a queued create has been replayed and its temp id replaced by the server id. */
+export function onOutboxIdRemap(
+  listener: (remap: OutboxIdRemap) => void | Promise<void>
+): () => void {
+  remapListeners.add(listener);
+  return () => {
+    remapListeners.delete(listener);
+  };
+}
+
+export async function getPendingMutations(
+  userId: string,
+  entity?: OutboxEntity
+): Promise<OutboxEntry[]> {
+  const entries = await withLock(() => readEntries(userId));
+  return entity ? entries.filter((e) => e.entity === entity) : entries;
+}
+
+/** True when any queued entry touches one of `ids`; new writes to them must queue behind it. */
+export async function hasPendingMutations(userId: string, ids: string[]): Promise<boolean> {
+  if (ids.length === 0) return false;
+  const entries = await withLock(() => readEntries(userId));
+  return entries.some((e) => entryIds(e.payload).some((id) => ids.includes(id)));
+}
+
+export async function enqueueMutation(
+  userId: string,
+  entity: OutboxEntity,
+  op: string,
+  payload: Record<string, any>
+): Promise<void> {
+  await withLock(async () => {
+    const entries = await readEntries(userId);
+    // Deleting something that never reached the server: drop its queued writes instead
+    if (op === "delete" && isTempId(payload.id)) {
+      await writeEntries(
+        userId,
+        entries.filter((e) => !entryIds(e.payload).includes(payload.id))
+      );
+      return;
+    }
+    entries.push({
+      id: createTempId(),
+      entity,
+      op,
+      payload,
+      created_at: new Date().toISOString(),
+      attempts: 0,
+      next_attempt_at: 0,
+    });
+    await writeEntries(userId, entries);
+  });
+}
+
+/**
+ * Run a write against Supabase, or queue it when that isn't possible: when the target already
+ * has queued writes (so order is kept) or when `run` fails with a network error. In both cases
+ * `optimistic` applies the change to local caches and provides the result.
+ */
+export async function runOrEnqueue<T>(
+  userId: string | null | undefined,
+  mutation: { entity: OutboxEntity; op: string; payload: Record<string, any> },
+  run: () => Promise<T>,
+  optimistic: () => Promise<T>
+): Promise<T> {
+  const owner = userId ?? (await getSessionUserId());
+  if (!owner) return run();
+  const mustQueue =
+    isTempId(mutation.payload.id) ||
+    (await hasPendingMutations(owner, entryIds(mutation.payload)));
+  if (!mustQueue) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  const result = await optimistic();
+  await enqueueMutation(owner, mutation.entity, mutation.op, mutation.payload);
+  return result;
+}
+
+async function notifyRemap(remap: OutboxIdRemap): Promise<void> {
+  for (const listener of remapListeners) {
+    try {
+      await listener(remap);
+    } catch (e) {
+      console.warn("[outbox] id remap listener failed:", e);
+    }
+  }
+}
+
+async function replay(userId: string): Promise<void> {
+  // Ids whose earlier entry is waiting or failed; later entries for them must wait too
+  const blocked = new Set<string>();
+  const queued = await withLock(() => readEntries(userId));
+
+  for (const { id: entryId } of queued) {
+    // Re-read: replaying an earlier create may have rewritten this entry's payload
+    const entry = (await withLock(() => readEntries(userId))).find((e) => e.id === entryId);
+    if (!entry) continue;
+    const ids = entryIds(entry.payload);
+    const handler = handlers.get(entry.entity)?.[entry.op];
+    if (!handler || entry.next_attempt_at > Date.now() || ids.some((id) => blocked.has(id))) {
+      ids.forEach((id) => blocked.add(id));
+      continue;
+    }
+
+    try {
+      const serverId = await handler(entry.payload, userId);
+      const tempId = entry.payload.tempId;
+      const remapped = isTempId(tempId) && typeof serverId === "string" && serverId !== tempId;
+      await withLock(async () => {
+        let entries = (await readEntries(userId)).filter((e) => e.id !== entry.id);
+        if (remapped) {
+          entries = entries.map((e) => ({ ...e, payload: replaceId(e.payload, tempId, serverId) }));
+        }
+        await writeEntries(userId, entries);
+      });
+      if (remapped) {
+        await notifyRemap({ userId, entity: entry.entity, fromId: tempId, toId: serverId });
+      }
+    } catch (error) {
+      if (isNetworkError(error)) return; // Still offline; the next trigger retries
+      ids.forEach((id) => blocked.add(id));
+      const attempts = entry.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      await withLock(async () => {
+        const entries = await readEntries(userId);
+        if (attempts >= MAX_ATTEMPTS) {
+          console.warn(`[outbox] Dropping ${entry.entity}.${entry.op} after ${attempts} attempts: ${message}`);
+          await writeEntries(userId, entries.filter((e) => e.id !== entry.id));
+          return;
+        }
+        await writeEntries(
+          userId,
+          entries.map((e) =>
+            e.id === entry.id
+              ? {
+                  ...e,
+                  attempts,
+                  last_error: message,
+                  next_attempt_at:
+                    Date.now() + Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS),
+                }
+              : e
+          )
+        );
+      });
+    }
+  }
+}
+
+/** Replay queued writes for a user. Concurrent calls share one run; never throws. */
+export function flushOutbox(userId: string): Promise<void> {
+  const running = flushes.get(userId);
+  if (running) return running;
+  const run = replay(userId)
+    .catch((e) => console.warn("[outbox] flush failed:", e))
+    .finally(() => flushes.delete(userId));
+  flushes.set(userId, run);
+  return run;
+}
@@ -19,6 +19,18 @@ export function batchInvalidateQueries(
  */
 export const QueryKeys = {
   notes: (userId?: string) => (userId ? ["notes", userId] : ["notes"]),
+  /** Nested under notes(userId) so list invalidations also refresh search results. */
+  notesSearch: (userId: string | undefined, query: string) => ["notes", userId ?? "", "search", query],
+  /** Also under notes(userId): any note save can add or drop a [[link]]. */
+  noteBacklinks: (userId: string | undefined, title: string) => ["notes", userId ?? "", "backlinks", title],
+  noteTags: (userId: string | undefined) => ["notes", userId ?? "", "tags"],
+  notesByTag: (userId: string | undefined, tag: string) => ["notes", userId ?? "", "tag", tag],
+  /** Frontmatter properties index (status, due, aliases, tags) for list filters and sorting. */
+  noteProperties: (userId: string | undefined) => ["notes", userId ?? "", "properties"],
+  /** `- [ ]` items across notes (lib/tasks.ts). */
+  noteTasks: (userId: string | undefined) => ["notes", userId ?? "", "tasks"],
+  /** Notes in the Templates folder (lib/note-templates.ts); under notes(userId) so saves refresh it. */
+  noteTemplates: (userId: string | undefined) => ["notes", userId ?? "", "templates"],
   archivedNotes: (userId?: string) => (userId ? ["archivedNotes", userId] : ["archivedNotes"]),
   notesSyncStatus: (userId?: string) => (userId ? ["notes-sync-status", userId] : ["notes-sync-status"]),
   notesUnsyncedIds: (userId?: string) => (userId ? ["notes-unsynced-ids", userId] : ["notes-unsynced-ids"]),
@@ -30,7 +42,16 @@ export const QueryKeys = {
   folderNotes: (folderId: string) => ["folderNotes", folderId],
   folderFiles: (folderId: string) => ["folderFiles", folderId],
   note: (id: string) => ["note", id],
+  noteConflict: (id: string) => ["note-conflict", id],
+  noteVersions: (id: string) => ["note-versions", id],
   attachments: (userId?: string) => (userId ? ["attachments", userId] : ["attachments"]),
+  shareLinks: (userId?: string) => (userId ? ["share-links", userId] : ["share-links"]),
+  noteCollaborators: (noteId: string) => ["note-collaborators", noteId],
+  notesSharedWithMe: (userId?: string) => (userId ? ["notes-shared-with-me", userId] : ["notes-shared-with-me"]),
+  /** The user's vault key parameters (lib/vault.ts); null until a passphrase is set. */
+  vaultSetup: (userId?: string) => (userId ? ["vault-setup", userId] : ["vault-setup"]),
+  /** The user's private calendar feed token (lib/calendar-feed.ts); null while the feed is off. */
+  calendarFeed: (userId?: string) => (userId ? ["calendar-feed", userId] : ["calendar-feed"]),
 } as const;
 
 /**
@@ -84,6 +105,18 @@ export function invalidateFoldersQueries(queryClient: QueryClient, userId?: stri
   queryClient.invalidateQueries({ queryKey: ["folderFiles"] });
 }
 
+/**
+ * After the vault locks or unlocks, refetch everything that may hold vault notes. On lock the
+ * cached data is reset instead of kept until the refetch, so decrypted notes don't linger.
+ */
+export function refreshVaultQueries(queryClient: QueryClient, locked: boolean): void {
+  const queryKeys = [["notes"], ["archivedNotes"], ["note"], ["folderNotes"], ["note-versions"], ["note-conflict"]];
+  queryKeys.forEach((queryKey) => {
+    if (locked) queryClient.resetQueries({ queryKey });
+    else queryClient.invalidateQueries({ queryKey });
+  });
+}
+
 /**
  * Invalidate attachments queries (bucket-only, no note correlation)
  */
@@ -0,0 +1,158 @@
+/**
+ * Realtime push of changes made on other devices: one channel per signed-in user listens to
+ * Postgres changes on notes, folders, files and events (see the supabase_realtime publication
+ * migration). Note rows are applied to the local reservoir; every change invalidates the matching
+ * React Query caches, debounced so a burst (e.g. a sync from another device) refetches once.
+ *
+ * The open note is told through onRemoteNoteChange so it can show that it changed elsewhere.
+ */
+
+import { applyRemoteNote, removeRemoteNote, syncNotesFromSupabase } from "@/lib/notes";
+import {
+  debounce,
+  invalidateEventsQueries,
+  invalidateFilesQueries,
+  invalidateFoldersQueries,
+  invalidateNotesListQueries,
+  QueryKeys,
+} from "@/lib/query-utils";
+import { supabase, type Note } from "@/lib/supabase";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { QueryClient } from "@tanstack/react-query";
+
+/** Bursts of changes within this window refetch once. */
+const INVALIDATE_DEBOUNCE_MS = 300;
+
+export type RemoteNoteChange =
+  | { type: "updated"; note: Note }
+  | { type: "deleted"; id: string };
+
+const noteListeners = new Set<(change: RemoteNoteChange) => void>();
+
+/** Listen for notes changed on another device (already applied locally). Returns unsubscribe. */
+export function onRemoteNoteChange(listener: (change: RemoteNoteChange) => void): () => void {
+  noteListeners.add(listener);
+  return () => {
+    noteListeners.delete(listener);
+  };
+}
+
+function notifyNoteListeners(change: RemoteNoteChange): void {
+  noteListeners.forEach((listener) => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.warn("[realtime-sync] Note listener failed:", error);
+    }
+  });
+}
+
+/** True when a cached list (any query under `prefix`) holds a row with this id. */
+function isCachedRow(queryClient: QueryClient, prefix: readonly unknown[], id: string): boolean {
+  return queryClient
+    .getQueriesData<unknown>({ queryKey: prefix })
+    .some(([, data]) => Array.isArray(data) && data.some((row) => (row as { id?: string })?.id === id));
+}
+
+/** Primary key of a deleted row; deletes carry nothing else. */
+function deletedId(payload: RealtimePostgresChangesPayload<Record<string, unknown>>): string | null {
+  if (payload.eventType !== "DELETE") return null;
+  const id = (payload.old as { id?: unknown }).id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Subscribe to the user's changes. Returns a function that removes the channel.
+ * Realtime can't filter deletes by user, so a delete only counts when its id is one of ours.
+ */
+export function startRealtimeSync(userId: string, queryClient: QueryClient): () => void {
+  const refreshNotes = debounce(() => {
+    invalidateNotesListQueries(queryClient, userId);
+    queryClient.invalidateQueries({ queryKey: ["folderNotes"] });
+  }, INVALIDATE_DEBOUNCE_MS);
+  const refreshFolders = debounce(() => invalidateFoldersQueries(queryClient, userId), INVALIDATE_DEBOUNCE_MS);
+  const refreshFiles = debounce(() => {
+    invalidateFilesQueries(queryClient, userId);
+    queryClient.invalidateQueries({ queryKey: ["folderFiles"] });
+  }, INVALIDATE_DEBOUNCE_MS);
+  const refreshEvents = debounce(() => invalidateEventsQueries(queryClient, userId), INVALIDATE_DEBOUNCE_MS);
+
+  const handleNoteChange = async (payload: RealtimePostgresChangesPayload<Note>) => {
+    try {
+      if (payload.eventType === "DELETE") {
+        const id = (payload.old as Partial<Note>).id;
+        if (!id) return;
+        const removed = await removeRemoteNote(id);
+        if (!removed && !isCachedRow(queryClient, ["notes"], id) && !isCachedRow(queryClient, ["archivedNotes"], id)) {
+          return;
+        }
+        queryClient.removeQueries({ queryKey: QueryKeys.note(id) });
+        notifyNoteListeners({ type: "deleted", id });
+        refreshNotes();
+        return;
+      }
+
+      const note = payload.new as Note;
+      const result = await applyRemoteNote(note);
+      if (result === "unchanged") return;
+      if (result === "dirty") {
+        // Edited here too: a sync pushes and merges both sides (or records a conflict)
+        await syncNotesFromSupabase(userId);
+        queryClient.invalidateQueries({ queryKey: QueryKeys.noteConflict(note.id) });
+      }
+      // The echo of a save from this device (web) already matches the cached note
+      const cached = queryClient.getQueryData<Note>(QueryKeys.note(note.id));
+      if (!cached || cached.updated_at !== note.updated_at) {
+        queryClient.invalidateQueries({ queryKey: QueryKeys.note(note.id) });
+        notifyNoteListeners({ type: "updated", note });
+      }
+      refreshNotes();
+    } catch (error) {
+      console.warn("[realtime-sync] Failed to apply note change:", error);
+    }
+  };
+
+  const onDelete =
+    (prefixes: readonly (readonly unknown[])[], refresh: () => void) =>
+    (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+      const id = deletedId(payload);
+      if (id && prefixes.some((prefix) => isCachedRow(queryClient, prefix, id))) refresh();
+    };
+
+  const filter = `user_id=eq.${userId}`;
+  const channel = supabase
+    .channel(`user-changes:${userId}`)
+    .on<Note>("postgres_changes", { event: "INSERT", schema: "public", table: "notes", filter }, handleNoteChange)
+    .on<Note>("postgres_changes", { event: "UPDATE", schema: "public", table: "notes", filter }, handleNoteChange)
+    .on<Note>("postgres_changes", { event: "DELETE", schema: "public", table: "notes" }, handleNoteChange)
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "folders", filter }, refreshFolders)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "folders", filter }, refreshFolders)
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "folders" },
+      onDelete([["folders"], ["archivedFolders"]], refreshFolders)
+    )
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "files", filter }, refreshFiles)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "files", filter }, refreshFiles)
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "files" },
+      onDelete([["files"], ["archivedFiles"], ["folderFiles"]], refreshFiles)
+    )
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "events", filter }, refreshEvents)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "events", filter }, refreshEvents)
+    .on(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "events" },
+      onDelete([["events"]], refreshEvents)
+    )
+    .subscribe((status, error) => {
+      if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        console.warn(`[realtime-sync] Channel ${status.toLowerCase()}:`, error?.message ?? "");
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
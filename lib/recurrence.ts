@@ -0,0 +1,473 @@
+/**
+ * Event recurrence in the RFC 5545 RRULE syntax, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH" or
+ * "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6". Rules are expanded on calendar dates ("YYYY-MM-DD"); the
+ * event's time of day is applied by the caller (lib/calendar-utils.ts).
+ *
+ * Supported: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with ordinals), BYMONTHDAY,
+ * BYMONTH, BYSETPOS, COUNT, UNTIL and WKST. Other parts are ignored.
+ */
+
+import type { Event } from "@/lib/supabase";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+/** In Date#getDay order (0 = Sunday). */
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  /** 1 = first, 2 = second, -1 = last… within the month (or year); unset = every such weekday. */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  /** 1–12 */
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  /** Last possible date, inclusive ("YYYY-MM-DD"). */
+  until?: string;
+  wkst?: Weekday;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on periods walked in one expansion, in case a rule never matches. */
+const MAX_PERIODS = 50_000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Days since 1970-01-01, so date math is free of time zones and DST. */
+function toDay(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function dayOf(year: number, month0: number, date: number): number {
+  return Date.UTC(year, month0, date) / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  const d = new Date(day * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+/** 0 = Sunday, like Date#getDay. */
+function weekdayOf(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+function daysInMonth(year: number, month0: number): number {
+  return new Date(Date.UTC(year, month0 + 1, 0)).getUTCDate();
+}
+
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const list = value.split(",").map((part) => Number(part.trim()));
+  if (list.some((n) => !Number.isInteger(n) || n === 0 || n < min || n > max)) return null;
+  return list;
+}
+
+/** Parse an RRULE value (with or without the "RRULE:" prefix). Null when it isn't a rule we can expand. */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const body = value.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const part of body.split(";")) {
+    const [key, ...rest] = part.split("=");
+    if (key && rest.length > 0) parts.set(key.trim().toUpperCase(), rest.join("=").trim().toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  const interval = parts.get("INTERVAL");
+  if (interval !== undefined) {
+    const n = Number(interval);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.interval = n;
+  }
+
+  const byDay = parts.get("BYDAY");
+  if (byDay) {
+    const days: WeekdayRule[] = [];
+    for (const item of byDay.split(",")) {
+      const match = item.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return null;
+      const nth = match[1] ? Number(match[1]) : undefined;
+      if (nth === 0) return null;
+      days.push(nth === undefined ? { weekday: match[2] as Weekday } : { weekday: match[2] as Weekday, nth });
+    }
+    rule.byDay = days;
+  }
+
+  const listParts: [string, "byMonthDay" | "byMonth" | "bySetPos", number, number][] = [
+    ["BYMONTHDAY", "byMonthDay", -31, 31],
+    ["BYMONTH", "byMonth", 1, 12],
+    ["BYSETPOS", "bySetPos", -366, 366],
+  ];
+  for (const [key, field, min, max] of listParts) {
+    const raw = parts.get(key);
+    if (!raw) continue;
+    const list = parseIntList(raw, min, max);
+    if (!list) return null;
+    rule[field] = list;
+  }
+
+  const count = parts.get("COUNT");
+  if (count !== undefined) {
+    const n = Number(count);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.count = n;
+  }
+
+  const until = parts.get("UNTIL");
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  const wkst = parts.get("WKST") as Weekday | undefined;
+  if (wkst && WEEKDAYS.includes(wkst)) rule.wkst = wkst;
+
+  return rule;
+}
+
+/** The RRULE value (without the "RRULE:" prefix) for a rule. */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ""}${d.weekday}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+  return parts.join(";");
+}
+
+/**
+ * The event's recurrence rule: its `rrule`, or for events saved before rules existed, one built
+ * from `repeat_interval`. Null for one-off events.
+ */
+export function getEventRecurrence(
+  event: Pick<Event, "rrule" | "repeat_interval">
+): RecurrenceRule | null {
+  if (event.rrule) return parseRRule(event.rrule);
+  const interval = event.repeat_interval;
+  if (!interval || interval === "once") return null;
+  return { freq: interval.toUpperCase() as RecurrenceFrequency, interval: 1 };
+}
+
+/** `repeat_interval` to store next to a rule, so older app versions still show something close. */
+export function repeatIntervalForRule(rule: RecurrenceRule | null): NonNullable<Event["repeat_interval"]> {
+  return rule ? (rule.freq.toLowerCase() as NonNullable<Event["repeat_interval"]>) : "once";
+}
+
+/** Every day in [first, first + length) matching the BYDAY list; ordinals count within that span. */
+function weekdayDays(first: number, length: number, byDay: WeekdayRule[]): number[] {
+  const days = new Set<number>();
+  for (const { weekday, nth } of byDay) {
+    const target = WEEKDAYS.indexOf(weekday);
+    const matches: number[] = [];
+    const offset = (target - weekdayOf(first) + 7) % 7;
+    for (let day = first + offset; day < first + length; day += 7) matches.push(day);
+    if (nth === undefined) {
+      matches.forEach((day) => days.add(day));
+    } else {
+      const picked = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+      if (picked !== undefined) days.add(picked);
+    }
+  }
+  return [...days];
+}
+
+function monthDays(year: number, month0: number, rule: RecurrenceRule, startDate: number): number[] {
+  const length = daysInMonth(year, month0);
+  const first = dayOf(year, month0, 1);
+  let days: number[] | null = null;
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : length + d + 1))
+      .filter((d) => d >= 1 && d <= length)
+      .map((d) => first + d - 1);
+  }
+  if (rule.byDay?.length) {
+    const byDays = weekdayDays(first, length, rule.byDay);
+    days = days ? days.filter((d) => byDays.includes(d)) : byDays;
+  }
+  // No BYxxx: same day of the month as the start, skipping months that don't have it
+  return days ?? (startDate <= length ? [first + startDate - 1] : []);
+}
+
+interface Period {
+  /** First day of the period; expansion stops once this passes the end of the range. */
+  start: number;
+  days: number[];
+}
+
+function periodAt(rule: RecurrenceRule, start: number, k: number): Period {
+  const startDate = new Date(start * DAY_MS);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth();
+  const startDom = startDate.getUTCDate();
+  const inMonths = (day: number) =>
+    !rule.byMonth?.length || rule.byMonth.includes(new Date(day * DAY_MS).getUTCMonth() + 1);
+
+  if (rule.freq === "DAILY") {
+    const day = start + k * rule.interval;
+    const date = new Date(day * DAY_MS);
+    const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+    const matches =
+      inMonths(day) &&
+      (!rule.byMonthDay?.length ||
+        rule.byMonthDay.some((d) => (d > 0 ? d : length + d + 1) === date.getUTCDate())) &&
+      (!rule.byDay?.length || rule.byDay.some((d) => WEEKDAYS.indexOf(d.weekday) === weekdayOf(day)));
+    return { start: day, days: matches ? [day] : [] };
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const weekStart = WEEKDAYS.indexOf(rule.wkst ?? "MO");
+    const first = start - ((weekdayOf(start) - weekStart + 7) % 7) + k * 7 * rule.interval;
+    const weekdays = rule.byDay?.length
+      ? rule.byDay.map((d) => WEEKDAYS.indexOf(d.weekday))
+      : [weekdayOf(start)];
+    const days: number[] = [];
+    for (let day = first; day < first + 7; day++) {
+      if (weekdays.includes(weekdayOf(day)) && inMonths(day)) days.push(day);
+    }
+    return { start: first, days };
+  }
+
+  if (rule.freq === "MONTHLY") {
+    const monthIndex = startMonth + k * rule.interval;
+    const year = startYear + Math.floor(monthIndex / 12);
+    const month0 = monthIndex % 12;
+    const first = dayOf(year, month0, 1);
+    if (rule.byMonth?.length && !rule.byMonth.includes(month0 + 1)) return { start: first, days: [] };
+    return { start: first, days: monthDays(year, month0, rule, startDom) };
+  }
+
+  const year = startYear + k * rule.interval;
+  const first = dayOf(year, 0, 1);
+  let days: number[];
+  if (rule.byMonth?.length) {
+    days = rule.byMonth.flatMap((month) => monthDays(year, month - 1, rule, startDom));
+  } else if (rule.byDay?.length && !rule.byMonthDay?.length) {
+    // "20MO" in a yearly rule counts Mondays within the year
+    days = weekdayDays(first, dayOf(year + 1, 0, 1) - first, rule.byDay);
+  } else if (rule.byMonthDay?.length) {
+    days = Array.from({ length: 12 }, (_, month0) => monthDays(year, month0, rule, startDom)).flat();
+  } else {
+    days = monthDays(year, startMonth, rule, startDom);
+  }
+  return { start: first, days };
+}
+
+/** First period that can reach `from`; without COUNT the periods before it can be skipped. */
+function firstPeriodIndex(rule: RecurrenceRule, start: number, from: number): number {
+  if (rule.count || from <= start) return 0;
+  const startDate = new Date(start * DAY_MS);
+  const fromDate = new Date(from * DAY_MS);
+  let periods: number;
+  if (rule.freq === "DAILY") {
+    periods = from - start;
+  } else if (rule.freq === "WEEKLY") {
+    const weekStart = WEEKDAYS.indexOf(rule.wkst ?? "MO");
+    periods = Math.floor((from - (start - ((weekdayOf(start) - weekStart + 7) % 7))) / 7);
+  } else if (rule.freq === "MONTHLY") {
+    periods =
+      (fromDate.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+      (fromDate.getUTCMonth() - startDate.getUTCMonth());
+  } else {
+    periods = fromDate.getUTCFullYear() - startDate.getUTCFullYear();
+  }
+  return Math.max(0, Math.floor(periods / rule.interval));
+}
+
+function applySetPos(days: number[], bySetPos: number[] | undefined): number[] {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (!bySetPos?.length) return sorted;
+  const picked = new Set<number>();
+  for (const pos of bySetPos) {
+    const day = pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos];
+    if (day !== undefined) picked.add(day);
+  }
+  return [...picked].sort((a, b) => a - b);
+}
+
+/**
+ * Occurrence dates of a series starting on `start`, between `rangeStart` and `rangeEnd` inclusive,
+ * leaving out `exdates`. As in RFC 5545 the start date is always the first occurrence, and
+ * skipped dates still count towards COUNT.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  start: string,
+  rangeStart: string,
+  rangeEnd: string,
+  exdates: string[] = []
+): string[] {
+  const startDay = toDay(start);
+  const from = toDay(rangeStart);
+  const to = toDay(rangeEnd);
+  const last = rule.until ? Math.min(to, toDay(rule.until)) : to;
+  const skipped = new Set(exdates);
+  const dates: string[] = [];
+  let produced = 0;
+
+  const emit = (day: number) => {
+    produced++;
+    const date = fromDay(day);
+    if (day >= from && !skipped.has(date)) dates.push(date);
+  };
+
+  if (startDay > last) return dates;
+  emit(startDay);
+
+  for (let k = firstPeriodIndex(rule, startDay, from); k < MAX_PERIODS; k++) {
+    const period = periodAt(rule, startDay, k);
+    if (period.start > last) break;
+    for (const day of applySetPos(period.days, rule.bySetPos)) {
+      if (day <= startDay) continue;
+      if (day > last || (rule.count && produced >= rule.count)) return dates;
+      emit(day);
+    }
+  }
+  return dates;
+}
+
+/** How many occurrences (skipped ones included) the series has before `date`. */
+export function countOccurrencesBefore(rule: RecurrenceRule, start: string, date: string): number {
+  if (date <= start) return 0;
+  return expandRecurrence(rule, start, start, fromDay(toDay(date) - 1)).length;
+}
+
+/** `date` moved by `days` days ("YYYY-MM-DD"). */
+export function addDaysToDate(date: string, days: number): string {
+  return fromDay(toDay(date) + days);
+}
+
+/** Whole days from `from` to `to` ("YYYY-MM-DD"). */
+export function daysBetweenDates(from: string, to: string): number {
+  return toDay(to) - toDay(from);
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+};
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last" };
+
+export function weekdayLabel(weekday: Weekday): string {
+  return WEEKDAY_LABELS[weekday];
+}
+
+function ordinalWeekday({ weekday, nth }: WeekdayRule): string {
+  if (nth === undefined) return WEEKDAY_NAMES[weekday];
+  const ordinal = ORDINALS[nth] ?? (nth > 0 ? `${nth}th` : `${-nth}th to last`);
+  return `${ordinal} ${WEEKDAY_NAMES[weekday]}`;
+}
+
+function formatUntil(date: string): string {
+  return new Date(toDay(date) * DAY_MS).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/** Short summary for the event form and cards, e.g. "Every 2 weeks on Tue, Thu, 10 times". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ["Daily", "days"],
+    WEEKLY: ["Weekly", "weeks"],
+    MONTHLY: ["Monthly", "months"],
+    YEARLY: ["Yearly", "years"],
+  };
+  const [single, plural] = units[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+  if (rule.bySetPos?.length) {
+    text += " on selected days";
+  } else if (rule.byDay?.length && rule.byDay.some((d) => d.nth !== undefined)) {
+    text += ` on the ${rule.byDay.map(ordinalWeekday).join(", ")}`;
+  } else if (rule.byDay?.length) {
+    text += ` on ${rule.byDay.map((d) => WEEKDAY_LABELS[d.weekday]).join(", ")}`;
+  } else if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay.map((d) => (d === -1 ? "the last day" : d > 0 ? `day ${d}` : `${-d} days before the end`));
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.byMonth?.length) {
+    const months = rule.byMonth.map((m) =>
+      new Date(Date.UTC(2000, m - 1, 1)).toLocaleDateString("en-US", { month: "short", timeZone: "UTC" })
+    );
+    text += ` in ${months.join(", ")}`;
+  }
+  if (rule.count) text += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  else if (rule.until) text += `, until ${formatUntil(rule.until)}`;
+  return text;
+}
+
+export type MonthlyPattern = "monthDay" | "nthWeekday" | "lastWeekday";
+
+/** The ways a monthly series can follow `date`: same day number, same nth weekday, or last weekday. */
+export function monthlyPatternsFor(date: string): { pattern: MonthlyPattern; label: string; rule: Pick<RecurrenceRule, "byDay" | "byMonthDay"> }[] {
+  const day = toDay(date);
+  const d = new Date(day * DAY_MS);
+  const dom = d.getUTCDate();
+  const weekday = WEEKDAYS[weekdayOf(day)];
+  const nth = Math.ceil(dom / 7);
+  const isLast = dom + 7 > daysInMonth(d.getUTCFullYear(), d.getUTCMonth());
+  const patterns: { pattern: MonthlyPattern; label: string; rule: Pick<RecurrenceRule, "byDay" | "byMonthDay"> }[] = [
+    { pattern: "monthDay", label: `On day ${dom}`, rule: { byMonthDay: [dom] } },
+  ];
+  if (nth <= 4) {
+    patterns.push({
+      pattern: "nthWeekday",
+      label: `On the ${ordinalWeekday({ weekday, nth })}`,
+      rule: { byDay: [{ weekday, nth }] },
+    });
+  }
+  if (isLast) {
+    patterns.push({
+      pattern: "lastWeekday",
+      label: `On the ${ordinalWeekday({ weekday, nth: -1 })}`,
+      rule: { byDay: [{ weekday, nth: -1 }] },
+    });
+  }
+  return patterns;
+}
+
+/** Weekday of a "YYYY-MM-DD" date. */
+export function weekdayOfDate(date: string): Weekday {
+  return WEEKDAYS[weekdayOf(toDay(date))];
+}
@@ -0,0 +1,88 @@
+/**
+ * Native side of event reminders: each reminder is a local notification scheduled with
+ * expo-notifications under the reminder's id, so the OS shows it even when the app isn't running.
+ * The web build uses reminder-notifications.web.ts (the Notification API while the app is open).
+ */
+
+import { REMINDER_ID_PREFIX, reminderSignature, type ScheduledReminder } from "@/lib/event-reminders";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+const CHANNEL_ID = "event-reminders";
+
+// Reminders that arrive while the app is open still show a banner
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let channelReady: Promise<unknown> | null = null;
+
+function ensureChannel(): Promise<unknown> {
+  if (Platform.OS !== "android") return Promise.resolve();
+  channelReady ??= Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+    name: "Event reminders",
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+  return channelReady;
+}
+
+/** Whether reminders can be shown, asking the user if they haven't been asked yet. */
+export async function requestReminderPermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Make the scheduled reminder notifications match `reminders`: ones no longer wanted or whose
+ * time or text changed are cancelled, and missing ones are scheduled. Does nothing without
+ * permission; it is never asked for here.
+ */
+export async function syncReminderNotifications(reminders: ScheduledReminder[]): Promise<void> {
+  if (!(await Notifications.getPermissionsAsync()).granted) return;
+  await ensureChannel();
+
+  const wanted = new Map(reminders.map((reminder) => [reminder.id, reminder]));
+  const scheduled = new Set<string>();
+  for (const request of await Notifications.getAllScheduledNotificationsAsync()) {
+    if (!request.identifier.startsWith(REMINDER_ID_PREFIX)) continue;
+    const reminder = wanted.get(request.identifier);
+    if (reminder && request.content.data?.signature === reminderSignature(reminder)) {
+      scheduled.add(request.identifier);
+    } else {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+
+  for (const reminder of reminders) {
+    if (scheduled.has(reminder.id)) continue;
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { eventId: reminder.eventId, signature: reminderSignature(reminder) },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+}
+
+/** Cancel every scheduled reminder, e.g. on sign-out. */
+export async function clearReminderNotifications(): Promise<void> {
+  for (const request of await Notifications.getAllScheduledNotificationsAsync()) {
+    if (request.identifier.startsWith(REMINDER_ID_PREFIX)) {
+      await Notifications.cancelScheduledNotificationAsync(request.identifier);
+    }
+  }
+}
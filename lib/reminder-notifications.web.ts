@@ -0,0 +1,71 @@
+/**
+ * Web side of event reminders: browsers can't schedule notifications ahead, so each reminder is a
+ * timer that shows a Notification while the app is open in a tab. Reminders due while it was
+ * closed are not shown late.
+ */
+
+import { reminderSignature, type ScheduledReminder } from "@/lib/event-reminders";
+
+const timers = new Map<string, { signature: string; timeout: ReturnType<typeof setTimeout> }>();
+
+function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/** Whether reminders can be shown, asking the user if they haven't been asked yet. */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission !== "default") return Notification.permission === "granted";
+  return (await Notification.requestPermission()) === "granted";
+}
+
+function showReminder(reminder: ScheduledReminder): void {
+  timers.delete(reminder.id);
+  if (Notification.permission !== "granted") return;
+  const options = { body: reminder.body, tag: reminder.id };
+  try {
+    const notification = new Notification(reminder.title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch {
+    // Mobile browsers only show notifications through the service worker
+    navigator.serviceWorker?.getRegistration().then((registration) => {
+      registration?.showNotification(reminder.title, options);
+    });
+  }
+}
+
+/**
+ * Make the pending reminder timers match `reminders`: ones no longer wanted or whose time or
+ * text changed are cleared, and missing ones are set. Does nothing without permission; it is
+ * never asked for here.
+ */
+export async function syncReminderNotifications(reminders: ScheduledReminder[]): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== "granted") return;
+
+  const wanted = new Map(reminders.map((reminder) => [reminder.id, reminder]));
+  for (const [id, timer] of timers) {
+    const reminder = wanted.get(id);
+    if (!reminder || reminderSignature(reminder) !== timer.signature) {
+      clearTimeout(timer.timeout);
+      timers.delete(id);
+    }
+  }
+
+  for (const reminder of reminders) {
+    if (timers.has(reminder.id)) continue;
+    const delay = Math.max(0, reminder.fireAt.getTime() - Date.now());
+    timers.set(reminder.id, {
+      signature: reminderSignature(reminder),
+      timeout: setTimeout(() => showReminder(reminder), delay),
+    });
+  }
+}
+
+/** Clear every pending reminder, e.g. on sign-out. */
+export async function clearReminderNotifications(): Promise<void> {
+  for (const timer of timers.values()) clearTimeout(timer.timeout);
+  timers.clear();
+}
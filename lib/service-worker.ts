@@ -0,0 +1,14 @@
+import { Platform } from "react-native";
+
+/**
+ * Register the web build's service worker (public/sw.js), which caches the app shell so the app
+ * opens offline. Skipped in development, where a cached shell would hide Metro's updates.
+ */
+export function registerServiceWorker(): void {
+  if (Platform.OS !== "web" || __DEV__) return;
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.register("/sw.js").catch((error) => {
+    console.warn("[service-worker] Registration failed:", error);
+  });
+}
@@ -0,0 +1,149 @@
+import { UI_DEV } from "@/lib/config";
+import { updateNote } from "@/lib/notes";
+import type { ShareLink } from "@/lib/supabase";
+import * as supabaseShareLinks from "@/lib/supabase-share-links";
+import type { ShareableKind, SharedItem } from "@/lib/supabase-share-links";
+import { isEncryptedNote, isEncryptedText } from "@/lib/vault";
+import { Platform } from "react-native";
+
+export type { ShareLink, ShareableKind, SharedItem };
+export type { SharedFile, SharedFileEntry, SharedNote } from "@/lib/supabase-share-links";
+
+/** Expiry presets offered when sharing; `days: null` never expires. */
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never", days: null },
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+export function generateShareToken(): string {
+  const length = 12;
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    const arr = new Uint8Array(length);
+    crypto.getRandomValues(arr);
+    return Array.from(arr, (b) => chars[b % chars.length]).join("");
+  }
+  let s = "";
+  for (let i = 0; i < length; i++) {
+    s += chars[Math.floor(Math.random() * chars.length)];
+  }
+  return s;
+}
+
+export function getShareBaseUrl(): string {
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    return window.location.origin;
+  }
+  return process.env.EXPO_PUBLIC_APP_URL ?? "https://drive.gopx.dev";
+}
+
+export function getShareUrl(token: string): string {
+  return `${getShareBaseUrl()}/share/${token}`;
+}
+
+export function isShareLinkExpired(link: Pick<ShareLink, "expires_at"> | null | undefined): boolean {
+  return !!link?.expires_at && new Date(link.expires_at).getTime() <= Date.now();
+}
+
+/** Options of every share link owned by the signed-in user. Empty in UI_DEV. */
+export const listShareLinks = async (): Promise<ShareLink[]> => {
+  if (UI_DEV) return [];
+  return supabaseShareLinks.listShareLinks();
+};
+
+/**
+ * Update a link's options. `passphrase`: undefined keeps it, null or "" removes it.
+ * `expiresAt`: undefined keeps it, null never expires.
+ */
+export const updateShareLinkOptions = async (
+  token: string,
+  options: { expiresAt?: string | null; passphrase?: string | null }
+): Promise<void> => {
+  if (UI_DEV) return;
+  if (options.expiresAt !== undefined) {
+    await supabaseShareLinks.setShareLinkExpiry(token, options.expiresAt);
+  }
+  if (options.passphrase !== undefined) {
+    await supabaseShareLinks.setShareLinkPassphrase(token, options.passphrase);
+  }
+};
+
+async function setItemShareToken(kind: ShareableKind, id: string, token: string | null): Promise<void> {
+  if (kind === "note") {
+    await updateNote(id, { share_token: token });
+    return;
+  }
+  if (!UI_DEV) await supabaseShareLinks.setShareToken(kind, id, token);
+}
+
+/** Start sharing a note, folder or file; returns the new token. The link row exists before the token is public. */
+export const enableShare = async (kind: ShareableKind, id: string): Promise<string> => {
+  const token = generateShareToken();
+  if (!UI_DEV) await supabaseShareLinks.setShareLinkExpiry(token, null);
+  await setItemShareToken(kind, id, token);
+  return token;
+};
+
+/** Stop sharing an item; its link stops working. */
+export const disableShare = async (
+  kind: ShareableKind,
+  id: string,
+  token: string | null | undefined
+): Promise<void> => {
+  await setItemShareToken(kind, id, null);
+  if (UI_DEV || !token) return;
+  try {
+    await supabaseShareLinks.deleteShareLink(token);
+  } catch (error) {
+    // The link is already dead once the item no longer carries the token
+    console.warn("[share-links] Failed to delete share link options:", error);
+  }
+};
+
+/**
+ * Replace an item's token so the old link dies. The new link keeps the old expiry and passphrase;
+ * its view count starts at zero. Returns the new token.
+ */
+export const regenerateShareToken = async (
+  kind: ShareableKind,
+  id: string,
+  previousToken: string
+): Promise<string> => {
+  const token = generateShareToken();
+  if (!UI_DEV) await supabaseShareLinks.copyShareLink(previousToken, token);
+  await setItemShareToken(kind, id, token);
+  if (!UI_DEV) {
+    try {
+      await supabaseShareLinks.deleteShareLink(previousToken);
+    } catch (error) {
+      console.warn("[share-links] Failed to delete previous share link options:", error);
+    }
+  }
+  return token;
+};
+
+/**
+ * Vault notes can't be shared, but a link made before a note moved into a vault, or a folder
+ * listing a vault's notes, could still return them: they are withheld rather than shown as ciphertext.
+ */
+function withoutEncryptedNotes(item: SharedItem): SharedItem {
+  if (item.status !== "ok") return item;
+  if (item.kind === "note") return isEncryptedNote(item.note) ? { status: "encrypted" } : item;
+  if (item.kind !== "folder") return item;
+  return {
+    ...item,
+    notes: item.notes.filter((note) => !isEncryptedText(note.title)),
+    note: item.note && isEncryptedNote(item.note) ? undefined : item.note,
+  };
+}
+
+/** Public: resolve a share link for /share/[token]. Pass the passphrase for protected links. */
+export const getSharedItem = async (
+  token: string,
+  options?: { passphrase?: string; itemId?: string }
+): Promise<SharedItem> => {
+  if (UI_DEV) return { status: "not_found" };
+  return withoutEncryptedNotes(await supabaseShareLinks.getSharedItem(token, options));
+};
@@ -0,0 +1,31 @@
+import { supabase } from "@/lib/supabase";
+
+/** The signed-in user's calendar feed token, or null if the feed is off. */
+export const getCalendarFeedToken = async (): Promise<string | null> => {
+  const { data, error } = await supabase.from("calendar_feeds").select("token").maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar feed: ${error.message}`);
+  }
+
+  return data?.token ?? null;
+};
+
+/** Turn the feed on, or replace its token so the old URL stops working; returns the new token. */
+export const rotateCalendarFeed = async (): Promise<string> => {
+  const { data, error } = await supabase.rpc("rotate_calendar_feed");
+
+  if (error) {
+    throw new Error(`Failed to create calendar feed: ${error.message}`);
+  }
+
+  return data as string;
+};
+
+export const deleteCalendarFeed = async (userId: string): Promise<void> => {
+  const { error } = await supabase.from("calendar_feeds").delete().eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to turn off calendar feed: ${error.message}`);
+  }
+};
@@ -1,4 +1,4 @@
-import { supabase, type Event } from "@/lib/supabase";
+import { supabase, type Event, type EventInput, type EventUpdates } from "@/lib/supabase";
 import { withSupabaseTimeout } from "@/lib/network-timeout";
 
 export const listEvents = async (userId?: string): Promise<Event[]> => {
@@ -40,13 +40,7 @@ export const getEventById = async (id: string): Promise<Event | null> => {
   return data;
 };
 
-export const createEvent = async (input: {
-  user_id: string;
-  title: string;
-  description: string;
-  event_date: string;
-  repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
-}): Promise<Event> => {
+export const createEvent = async (input: EventInput): Promise<Event> => {
   const { data, error } = await supabase
     .from("events")
     .insert({
@@ -55,6 +49,15 @@ export const createEvent = async (input: {
       description: input.description || "",
       event_date: input.event_date,
       repeat_interval: input.repeat_interval || "once",
+      rrule: input.rrule ?? null,
+      exdates: input.exdates ?? [],
+      recurrence_id: input.recurrence_id ?? null,
+      recurrence_date: input.recurrence_date ?? null,
+      start_at: input.start_at ?? null,
+      end_at: input.end_at ?? null,
+      all_day: input.all_day ?? false,
+      timezone: input.timezone ?? null,
+      reminders: input.reminders ?? [],
     })
     .select()
     .single();
@@ -68,7 +71,7 @@ export const createEvent = async (input: {
 
 export const updateEvent = async (
   id: string,
-  updates: Partial<Pick<Event, "title" | "description" | "event_date" | "repeat_interval">>
+  updates: EventUpdates
 ): Promise<Event | null> => {
   const { data, error } = await supabase
     .from("events")
@@ -157,8 +157,9 @@ export const uploadFile = async (input: {
     type: string;
     size: number;
   };
+  folder_id?: string | null;
 }): Promise<File> => {
-  const { user_id, file } = input;
+  const { user_id, file, folder_id = null } = input;
 
   // Generate a unique file path
   // Note: In Supabase Storage, the path should NOT include the bucket name
@@ -229,6 +230,7 @@ export const uploadFile = async (input: {
       mime_type: file.type,
       extension: fileExt,
       is_archived: false,
+      folder_id,
     })
     .select()
     .single();
@@ -65,12 +65,14 @@ export const getFolderById = async (id: string): Promise<Folder | null> => {
 export const createFolder = async (input: {
   user_id: string;
   name: string;
+  parent_id?: string | null;
 }): Promise<Folder> => {
   const { data, error } = await supabase
     .from("folders")
     .insert({
       user_id: input.user_id,
       name: input.name.trim() || "Unnamed folder",
+      parent_id: input.parent_id ?? null,
       is_archived: false,
     })
     .select()
@@ -85,7 +87,7 @@ export const createFolder = async (input: {
 
 export const updateFolder = async (
   id: string,
-  updates: Partial<Pick<Folder, "name">>
+  updates: Partial<Pick<Folder, "name" | "parent_id" | "is_vault">>
 ): Promise<Folder | null> => {
   const { data, error } = await supabase
     .from("folders")
@@ -107,69 +109,87 @@ export const updateFolder = async (
   return data;
 };
 
-const updatedAt = () => new Date().toISOString();
-
-export const archiveFolder = async (id: string): Promise<void> => {
-  // Archive all notes in this folder
-  const { error: notesError } = await supabase
-    .from("notes")
-    .update({ is_archived: true, updated_at: updatedAt() })
-    .eq("folder_id", id);
-
-  if (notesError && !notesError.message?.includes("folder_id")) {
-    throw new Error(`Failed to archive notes in folder: ${notesError.message}`);
-  }
+/** Ids of every folder below `id` (any archive state), nearest first. */
+export const listDescendantFolderIds = async (id: string): Promise<string[]> => {
+  const result: string[] = [];
+  const seen = new Set([id]);
+  let frontier = [id];
+  while (frontier.length > 0) {
+    const { data, error } = await supabase
+      .from("folders")
+      .select("id")
+      .in("parent_id", frontier);
 
-  // Archive all files in this folder
-  const { error: filesError } = await supabase
-    .from("files")
-    .update({ is_archived: true, updated_at: updatedAt() })
-    .eq("folder_id", id);
+    if (error) {
+      // Databases without the parent_id column have no subfolders
+      if (error.message?.includes("parent_id")) return result;
+      throw new Error(`Failed to list subfolders: ${error.message}`);
+    }
 
-  if (filesError && !filesError.message?.includes("folder_id")) {
-    throw new Error(`Failed to archive files in folder: ${filesError.message}`);
+    frontier = [];
+    for (const row of (data || []) as Array<{ id: string }>) {
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+      result.push(row.id);
+      frontier.push(row.id);
+    }
   }
+  return result;
+};
 
-  // Archive the folder
-  const { error } = await supabase
-    .from("folders")
-    .update({ is_archived: true, updated_at: updatedAt() })
-    .eq("id", id);
+const updatedAt = () => new Date().toISOString();
 
-  if (error) {
-    throw new Error(`Failed to archive folder: ${error.message}`);
-  }
-};
+/** Set is_archived on the notes, files and folders of a folder subtree. */
+async function setSubtreeArchived(folderIds: string[], isArchived: boolean): Promise<void> {
+  const verb = isArchived ? "archive" : "restore";
 
-export const restoreFolder = async (id: string): Promise<void> => {
-  // Restore all notes in this folder
   const { error: notesError } = await supabase
     .from("notes")
-    .update({ is_archived: false, updated_at: updatedAt() })
-    .eq("folder_id", id);
+    .update({ is_archived: isArchived, updated_at: updatedAt() })
+    .in("folder_id", folderIds);
 
   if (notesError && !notesError.message?.includes("folder_id")) {
-    throw new Error(`Failed to restore notes in folder: ${notesError.message}`);
+    throw new Error(`Failed to ${verb} notes in folder: ${notesError.message}`);
   }
 
-  // Restore all files in this folder
   const { error: filesError } = await supabase
     .from("files")
-    .update({ is_archived: false, updated_at: updatedAt() })
-    .eq("folder_id", id);
+    .update({ is_archived: isArchived, updated_at: updatedAt() })
+    .in("folder_id", folderIds);
 
   if (filesError && !filesError.message?.includes("folder_id")) {
-    throw new Error(`Failed to restore files in folder: ${filesError.message}`);
+    throw new Error(`Failed to ${verb} files in folder: ${filesError.message}`);
   }
 
-  // Restore the folder
   const { error } = await supabase
     .from("folders")
-    .update({ is_archived: false, updated_at: updatedAt() })
-    .eq("id", id);
+    .update({ is_archived: isArchived, updated_at: updatedAt() })
+    .in("id", folderIds);
 
   if (error) {
-    throw new Error(`Failed to restore folder: ${error.message}`);
+    throw new Error(`Failed to ${verb} folder: ${error.message}`);
+  }
+}
+
+/** Archive a folder together with its subfolders and everything inside them. */
+export const archiveFolder = async (id: string): Promise<void> => {
+  const descendantIds = await listDescendantFolderIds(id);
+  await setSubtreeArchived([id, ...descendantIds], true);
+};
+
+/**
+ * Restore a folder together with its subfolders and everything inside them.
+ * A folder whose parent is still archived is moved to the top level so it stays reachable.
+ */
+export const restoreFolder = async (id: string): Promise<void> => {
+  const descendantIds = await listDescendantFolderIds(id);
+  await setSubtreeArchived([id, ...descendantIds], false);
+
+  const folder = await getFolderById(id);
+  if (!folder?.parent_id) return;
+  const parent = await getFolderById(folder.parent_id);
+  if (!parent || parent.is_archived) {
+    await updateFolder(id, { parent_id: null });
   }
 };
 
@@ -148,31 +148,6 @@ export const uploadImageToNoteImages = async (input: {
   };
 }): Promise<string> => {
   const { user_id, file } = input;
-  const bucketName = getBucketName();
-
-  // First verify the bucket exists
-  const bucketCheck = await verifyAttachmentsBucket();
-  if (!bucketCheck.exists) {
-    let errorMsg =
-      bucketCheck.error ||
-      `Bucket '${bucketName}' not found. Please create it in Supabase Storage.`;
-
-    // If we found available buckets, suggest using one of them
-    if (
-      bucketCheck.availableBuckets &&
-      bucketCheck.availableBuckets.length > 0
-    ) {
-      errorMsg += `\n\nAvailable buckets: ${bucketCheck.availableBuckets.join(", ")}\n\nTo use a different bucket, set EXPO_PUBLIC_ATTACHMENTS_BUCKET_NAME in your .env file.`;
-    }
-
-    throw new Error(errorMsg);
-  }
-
-  // Generate a unique file path
-  // Note: In Supabase Storage, the path should NOT include the bucket name
-  const fileExt = file.name.split(".").pop() || "jpg";
-  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
-  const filePath = `${user_id}/${fileName}`;
 
   // Read file and prepare for upload
   let fileData: Blob | ArrayBuffer;
@@ -210,11 +185,60 @@ export const uploadImageToNoteImages = async (input: {
     }
   }
 
+  return uploadAttachmentData({ user_id, name: file.name, type: file.type, data: fileData });
+};
+
+/**
+ * Upload image bytes that are already in memory (e.g. extracted from an imported archive)
+ * to the attachments bucket. Returns the public URL.
+ */
+export const uploadImageDataToNoteImages = async (input: {
+  user_id: string;
+  name: string;
+  type: string;
+  data: ArrayBuffer;
+}): Promise<string> => {
+  return uploadAttachmentData(input);
+};
+
+const uploadAttachmentData = async (input: {
+  user_id: string;
+  name: string;
+  type: string;
+  data: Blob | ArrayBuffer;
+}): Promise<string> => {
+  const { user_id, data: fileData } = input;
+  const bucketName = getBucketName();
+
+  // First verify the bucket exists
+  const bucketCheck = await verifyAttachmentsBucket();
+  if (!bucketCheck.exists) {
+    let errorMsg =
+      bucketCheck.error ||
+      `Bucket '${bucketName}' not found. Please create it in Supabase Storage.`;
+
+    // If we found available buckets, suggest using one of them
+    if (
+      bucketCheck.availableBuckets &&
+      bucketCheck.availableBuckets.length > 0
+    ) {
+      errorMsg += `\n\nAvailable buckets: ${bucketCheck.availableBuckets.join(", ")}\n\nTo use a different bucket, set EXPO_PUBLIC_ATTACHMENTS_BUCKET_NAME in your .env file.`;
+    }
+
+    throw new Error(errorMsg);
+  }
+
+  // Generate a unique file path
+  // Note: In Supabase Storage, the path should NOT include the bucket name
+  const fileExt = input.name.split(".").pop() || "jpg";
+  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+  const filePath = `${user_id}/${fileName}`;
+
   // Upload to Supabase Storage
   const { error: uploadError } = await supabase.storage
     .from(bucketName)
     .upload(filePath, fileData, {
-      contentType: file.type,
+      contentType: input.type,
       upsert: false,
     });
 
@@ -0,0 +1,108 @@
+import { supabase, type CollaboratorRole, type Note, type NoteCollaborator } from "@/lib/supabase";
+
+/** A note another account shared with the signed-in user (see notes_shared_with_me). */
+export interface SharedWithMeNote {
+  note: Note;
+  role: CollaboratorRole;
+  owner_email: string | null;
+}
+
+export const listNoteCollaborators = async (noteId: string): Promise<NoteCollaborator[]> => {
+  const { data, error } = await supabase
+    .from("note_collaborators")
+    .select("*")
+    .eq("note_id", noteId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch collaborators: ${error.message}`);
+  }
+
+  return (data || []) as NoteCollaborator[];
+};
+
+/** Invite the account registered with `email`, or change its role when already invited. */
+export const inviteNoteCollaborator = async (
+  noteId: string,
+  email: string,
+  role: CollaboratorRole
+): Promise<NoteCollaborator> => {
+  const { data, error } = await supabase.rpc("invite_note_collaborator", {
+    p_note_id: noteId,
+    p_email: email,
+    p_role: role,
+  });
+
+  if (error) {
+    throw new Error(`Failed to invite collaborator: ${error.message}`);
+  }
+
+  return data as NoteCollaborator;
+};
+
+/** The owner removing a collaborator, or a collaborator leaving the note. */
+export const removeNoteCollaborator = async (noteId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("note_collaborators")
+    .delete()
+    .eq("note_id", noteId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to remove collaborator: ${error.message}`);
+  }
+};
+
+export const listNotesSharedWithMe = async (): Promise<SharedWithMeNote[]> => {
+  const { data, error } = await supabase.rpc("notes_shared_with_me");
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("notes_shared_with_me")) {
+      return [];
+    }
+    throw new Error(`Failed to fetch shared notes: ${error.message}`);
+  }
+
+  return ((data || []) as { note: Note; role: CollaboratorRole; owner_email: string | null }[]).map(
+    (row) => ({ note: row.note, role: row.role, owner_email: row.owner_email })
+  );
+};
+
+/** A collaborator's view of a note: the owner's share link and folder are never sent. */
+function toSharedNote(row: Omit<Note, "share_token" | "folder_id">): Note {
+  return { ...row, share_token: null, folder_id: null };
+}
+
+/** A note another account shared with the signed-in user, or null when it isn't shared with them. */
+export const getSharedNote = async (noteId: string): Promise<Note | null> => {
+  const { data, error } = await supabase.rpc("get_shared_note", { p_note_id: noteId });
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("get_shared_note")) {
+      return null;
+    }
+    throw new Error(`Failed to fetch shared note: ${error.message}`);
+  }
+
+  return data ? toSharedNote(data) : null;
+};
+
+/** An editor saving a note shared with them; only its title and content can change. */
+export const updateSharedNote = async (
+  noteId: string,
+  updates: Partial<Pick<Note, "title" | "content">>
+): Promise<Note> => {
+  const { data, error } = await supabase.rpc("update_shared_note", {
+    p_note_id: noteId,
+    p_title: updates.title ?? null,
+    p_content: updates.content ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update shared note: ${error.message}`);
+  }
+
+  return toSharedNote(data);
+};
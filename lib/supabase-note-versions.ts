@@ -0,0 +1,93 @@
+import { supabase, type NoteVersion } from "@/lib/supabase";
+
+export const listNoteVersions = async (noteId: string): Promise<NoteVersion[]> => {
+  const { data, error } = await supabase
+    .from("note_versions")
+    .select("*")
+    .eq("note_id", noteId)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch note versions: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+export const getNoteVersionById = async (id: string): Promise<NoteVersion | null> => {
+  const { data, error } = await supabase
+    .from("note_versions")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      return null;
+    }
+    throw new Error(`Failed to fetch note version: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const getLatestNoteVersion = async (noteId: string): Promise<NoteVersion | null> => {
+  const { data, error } = await supabase
+    .from("note_versions")
+    .select("*")
+    .eq("note_id", noteId)
+    .order("updated_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch note versions: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+};
+
+export const createNoteVersion = async (input: {
+  note_id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  created_at?: string;
+}): Promise<NoteVersion> => {
+  const timestamp = input.created_at ?? new Date().toISOString();
+  const { data, error } = await supabase
+    .from("note_versions")
+    .insert({ ...input, created_at: timestamp, updated_at: timestamp })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create note version: ${error.message}`);
+  }
+
+  return data;
+};
+
+/** Overwrite a version with a newer save (coalescing). */
+export const updateNoteVersion = async (
+  id: string,
+  updates: Pick<NoteVersion, "title" | "content">
+): Promise<void> => {
+  const { error } = await supabase
+    .from("note_versions")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update note version: ${error.message}`);
+  }
+};
+
+/** Push versions recorded offline (native reservoir); ids are generated client-side. */
+export const upsertNoteVersions = async (versions: NoteVersion[]): Promise<void> => {
+  if (versions.length === 0) return;
+  const { error } = await supabase.from("note_versions").upsert(versions, { onConflict: "id" });
+
+  if (error) {
+    throw new Error(`Failed to sync note versions: ${error.message}`);
+  }
+};
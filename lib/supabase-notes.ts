@@ -1,5 +1,16 @@
+import { collectNoteProperties, type NotePropertiesEntry } from "@/lib/frontmatter";
 import { withSupabaseTimeout } from "@/lib/network-timeout";
+import {
+  buildSearchResult,
+  noteMatches,
+  toTsQuery,
+  type NoteSearchResult,
+  type SearchTerm,
+} from "@/lib/note-search";
 import { supabase, type Note } from "@/lib/supabase";
+import { getSharedNote, updateSharedNote } from "@/lib/supabase-note-collaborators";
+import { countTags, noteHasTag, type TagCount } from "@/lib/tags";
+import { linksTo, resolveWikiLink } from "@/lib/wiki-links";
 
 export const listNotes = async (userId?: string): Promise<Note[]> => {
   if (!userId) {
@@ -100,6 +111,117 @@ export const listNotesByFolder = async (
   return data || [];
 };
 
+/**
+ * Full-text search via the `search_notes` RPC (Postgres FTS, ranked, with highlighted snippets).
+ * Falls back to filtering active notes client-side if the RPC isn't deployed yet.
+ */
+export const searchNotes = async (
+  userId: string,
+  terms: SearchTerm[],
+  limit = 50
+): Promise<NoteSearchResult[]> => {
+  const { data, error } = await supabase.rpc("search_notes", {
+    search_query: toTsQuery(terms),
+    max_results: limit,
+  });
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("search_notes")) {
+      const notes = await listNotes(userId);
+      return notes
+        .filter((note) => noteMatches(note, terms))
+        .map((note) => buildSearchResult(note, terms))
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, limit);
+    }
+    throw new Error(`Failed to search notes: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    note: row.note as Note,
+    titleHighlighted: row.title_highlighted ?? row.note?.title ?? "",
+    snippet: (row.snippet ?? "").replace(/\s+/g, " "),
+    rank: Number(row.rank) || 0,
+  }));
+};
+
+/** Notes linking to `title` via [[wiki links]] (server-side link index; see note_backlinks). */
+export const listBacklinks = async (
+  userId: string,
+  title: string,
+  excludeId?: string
+): Promise<Note[]> => {
+  const { data, error } = await supabase.rpc("note_backlinks", { target_title: title });
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("note_backlinks")) {
+      const notes = await listNotes(userId);
+      return notes.filter((note) => note.id !== excludeId && linksTo(note.content, title));
+    }
+    throw new Error(`Failed to fetch backlinks: ${error.message}`);
+  }
+
+  return ((data || []) as Note[]).filter((note) => note.id !== excludeId);
+};
+
+/** Tag counts over active notes (server-side tag index; see note_tag_counts). */
+export const listTagCounts = async (userId: string): Promise<TagCount[]> => {
+  const { data, error } = await supabase.rpc("note_tag_counts");
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("note_tag_counts")) {
+      return countTags(await listNotes(userId));
+    }
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  return ((data || []) as { tag: string; count: number | string }[]).map((row) => ({
+    tag: row.tag,
+    count: Number(row.count),
+  }));
+};
+
+/** Active notes tagged `tag` or one of its descendants. */
+export const listNotesByTag = async (userId: string, tag: string): Promise<Note[]> => {
+  const { data, error } = await supabase.rpc("notes_with_tag", { tag_path: tag });
+
+  if (error) {
+    // PGRST202: function not found (migration not applied)
+    if (error.code === "PGRST202" || error.message?.includes("notes_with_tag")) {
+      const notes = await listNotes(userId);
+      return notes.filter((note) => noteHasTag(note.content, tag));
+    }
+    throw new Error(`Failed to fetch notes by tag: ${error.message}`);
+  }
+
+  return (data || []) as Note[];
+};
+
+/** Frontmatter properties of active notes. The server keeps no property index, so they are read from content. */
+export const listNoteProperties = async (userId: string): Promise<NotePropertiesEntry[]> => {
+  return collectNoteProperties(await listNotes(userId));
+};
+
+/** Note a [[wiki link]] to `title` resolves to, or null. */
+export const findNoteByTitle = async (userId: string, title: string): Promise<Note | null> => {
+  // ilike narrows case-insensitively; resolveWikiLink applies the exact matching rule
+  const pattern = title.trim().replace(/[%_\\]/g, "\\$&").replace(/\s+/g, "%");
+  const { data, error } = await supabase
+    .from("notes")
+    .select("*")
+    .eq("user_id", userId)
+    .ilike("title", pattern);
+
+  if (error) {
+    throw new Error(`Failed to fetch note: ${error.message}`);
+  }
+
+  return resolveWikiLink(title, (data || []) as Note[]);
+};
+
 export const getNoteById = async (id: string): Promise<Note | null> => {
   const { data, error } = await supabase
     .from("notes")
@@ -109,8 +231,8 @@ export const getNoteById = async (id: string): Promise<Note | null> => {
 
   if (error) {
     if (error.code === "PGRST116") {
-      // No rows returned
-      return null;
+      // Not one of the user's notes: collaborators read shared notes without the owner-only fields
+      return getSharedNote(id);
     }
     throw new Error(`Failed to fetch note: ${error.message}`);
   }
@@ -118,6 +240,117 @@ export const getNoteById = async (id: string): Promise<Note | null> => {
   return data;
 };
 
+/** Rows per page for sync pulls; below PostgREST's default max-rows so a short page means the end. */
+const SYNC_PAGE_SIZE = 500;
+/** Ids per `in` filter, keeping request URLs short. */
+const IDS_PER_REQUEST = 100;
+
+/** A note deleted on the server (see note_tombstones). */
+export type NoteTombstone = { note_id: string; deleted_at: string };
+
+/**
+ * Every note of the user, active and archived, written after `since` (all of them when null),
+ * oldest first. Pages by (updated_at, id) so rows written while paging are not skipped.
+ */
+export const listNotesChangedSince = async (
+  userId: string,
+  since: string | null
+): Promise<Note[]> => {
+  const notes: Note[] = [];
+  let after: Note | null = null;
+  for (;;) {
+    let query = supabase.from("notes").select("*").eq("user_id", userId);
+    if (after) {
+      query = query.or(
+        `updated_at.gt."${after.updated_at}",and(updated_at.eq."${after.updated_at}",id.gt.${after.id})`
+      );
+    } else if (since) {
+      query = query.gt("updated_at", since);
+    }
+    const { data, error } = await query
+      .order("updated_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(SYNC_PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to fetch notes: ${error.message}`);
+    }
+
+    const page = (data || []) as Note[];
+    notes.push(...page);
+    if (page.length < SYNC_PAGE_SIZE) return notes;
+    after = page[page.length - 1];
+  }
+};
+
+/** Notes of the user deleted after `since` (all retained tombstones when null). */
+export const listNoteTombstonesSince = async (
+  userId: string,
+  since: string | null
+): Promise<NoteTombstone[]> => {
+  let query = supabase.from("note_tombstones").select("note_id, deleted_at").eq("user_id", userId);
+  if (since) query = query.gt("deleted_at", since);
+  const { data, error } = await query.order("deleted_at", { ascending: true });
+
+  if (error) {
+    // Table not there yet (migration not applied): deletions only arrive over Realtime
+    if (error.code === "42P01" || error.code === "PGRST205" || error.message?.includes("note_tombstones")) {
+      return [];
+    }
+    throw new Error(`Failed to fetch deleted notes: ${error.message}`);
+  }
+
+  return (data || []) as NoteTombstone[];
+};
+
+/** The notes among `ids` that exist on the server (readable by this user). */
+export const getNotesByIds = async (ids: string[]): Promise<Note[]> => {
+  const notes: Note[] = [];
+  for (let i = 0; i < ids.length; i += IDS_PER_REQUEST) {
+    const { data, error } = await supabase
+      .from("notes")
+      .select("*")
+      .in("id", ids.slice(i, i + IDS_PER_REQUEST));
+
+    if (error) {
+      throw new Error(`Failed to fetch notes: ${error.message}`);
+    }
+    notes.push(...((data || []) as Note[]));
+  }
+  return notes;
+};
+
+/**
+ * Insert notes created offline under the ids they were given locally, in one request. Ids already
+ * on the server are skipped, so a retry after a lost response creates nothing twice. Returns the
+ * rows inserted.
+ */
+export const insertNotes = async (notes: Note[]): Promise<Note[]> => {
+  if (notes.length === 0) return [];
+  const { data, error } = await supabase
+    .from("notes")
+    .upsert(
+      notes.map((note) => ({
+        id: note.id,
+        user_id: note.user_id,
+        title: note.title || "Untitled",
+        content: note.content,
+        is_archived: note.is_archived,
+        folder_id: note.folder_id ?? null,
+        share_token: note.share_token ?? null,
+        created_at: note.created_at,
+      })),
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to create notes: ${error.message}`);
+  }
+
+  return (data || []) as Note[];
+};
+
 export const createNote = async (input: {
   user_id: string;
   title: string;
@@ -183,7 +416,9 @@ export const updateNote = async (
 
   if (error) {
     if (error.code === "PGRST116") {
-      return null;
+      // Not one of the user's notes: editors of a shared note change only its title and content
+      if (updates.share_token !== undefined || updates.folder_id !== undefined) return null;
+      return (await getSharedNote(id)) ? updateSharedNote(id, updates) : null;
     }
     throw new Error(`Failed to update note: ${error.message}`);
   }
@@ -191,6 +426,33 @@ export const updateNote = async (
   return data;
 };
 
+/**
+ * Update a note only if the server row is still at `expectedUpdatedAt` (optimistic concurrency).
+ * Returns null when the row was changed by someone else or no longer exists.
+ */
+export const updateNoteIfUnchanged = async (
+  id: string,
+  updates: Partial<Pick<Note, "title" | "content" | "share_token" | "folder_id" | "is_archived">>,
+  expectedUpdatedAt: string
+): Promise<Note | null> => {
+  const payload: Record<string, unknown> = {
+    ...updates,
+    updated_at: new Date().toISOString(),
+  };
+  const { data, error } = await supabase
+    .from("notes")
+    .update(payload)
+    .eq("id", id)
+    .eq("updated_at", expectedUpdatedAt)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to update note: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+};
+
 export const archiveNote = async (id: string): Promise<void> => {
   // Try updating with is_archived first
   let { error } = await supabase
@@ -251,39 +513,63 @@ export const deleteNote = async (id: string): Promise<void> => {
   }
 };
 
-/** Public API: fetch a note by share token (no auth). Returns null if not found or not shared. */
+/** Public API: fetch a note by share token (no auth). Superseded by getSharedItem; kept for servers without it. */
 export type SharedNoteResult = {
   id: string;
   title: string;
   content: string;
+  created_at?: string;
   updated_at: string;
   shared_by_email: string | null;
 };
 
+/** Why a share link did not resolve; "ok" when it did. */
+export type SharedNoteStatus =
+  | "ok"
+  | "not_found"
+  | "expired"
+  | "passphrase_required"
+  | "invalid_passphrase"
+  /** Too many wrong passphrases; the link refuses them for a while. */
+  | "too_many_attempts";
+
+export type SharedNoteLookup =
+  | { status: "ok"; note: SharedNoteResult }
+  | { status: Exclude<SharedNoteStatus, "ok">; note: null };
+
 export const getNoteByShareToken = async (
-  token: string
-): Promise<SharedNoteResult | null> => {
-  const { data, error } = await supabase.rpc("get_note_by_share_token", {
-    token,
-  });
+  token: string,
+  passphrase?: string
+): Promise<SharedNoteLookup> => {
+  // Only send a passphrase when given, so servers without share_links options still resolve links
+  const { data, error } = await supabase.rpc(
+    "get_note_by_share_token",
+    passphrase ? { token, passphrase } : { token }
+  );
 
   if (error) {
     if (error.code === "PGRST116" || error.message?.includes("0 rows")) {
-      return null;
+      return { status: "not_found", note: null };
     }
     throw new Error(`Failed to fetch shared note: ${error.message}`);
   }
 
   // RPC returns table result: array of rows (or single row depending on client)
   const row = Array.isArray(data) ? data[0] : data;
-  if (!row || row.id == null) return null;
+  const status: SharedNoteStatus = row?.status ?? (row?.id != null ? "ok" : "not_found");
+  if (status !== "ok" || !row || row.id == null) {
+    return { status: status === "ok" ? "not_found" : status, note: null };
+  }
 
   return {
-    id: row.id,
-    title: row.title ?? "",
-    content: row.content ?? "",
-    created_at: row.created_at ?? undefined,
-    updated_at: row.updated_at ?? new Date().toISOString(),
-    shared_by_email: row.shared_by_email ?? null,
+    status: "ok",
+    note: {
+      id: row.id,
+      title: row.title ?? "",
+      content: row.content ?? "",
+      created_at: row.created_at ?? undefined,
+      updated_at: row.updated_at ?? new Date().toISOString(),
+      shared_by_email: row.shared_by_email ?? null,
+    },
   };
 };
@@ -0,0 +1,138 @@
+import { supabase, type File, type Note, type ShareLink } from "@/lib/supabase";
+import { getNoteByShareToken, type SharedNoteStatus } from "@/lib/supabase-notes";
+
+export type ShareableKind = "note" | "folder" | "file";
+
+export type SharedNote = Pick<Note, "id" | "title" | "content" | "created_at" | "updated_at">;
+export type SharedFileEntry = Pick<File, "id" | "name" | "file_size" | "mime_type" | "extension" | "updated_at">;
+/** A file a viewer may download; `file_path` is granted for signing a storage URL for a few minutes. */
+export type SharedFile = SharedFileEntry & Pick<File, "file_path" | "created_at">;
+
+/** Public API: what a share token resolves to (see get_shared_item). */
+export type SharedItem =
+  | { status: "ok"; kind: "note"; shared_by_email: string | null; note: SharedNote }
+  | {
+      status: "ok";
+      kind: "folder";
+      shared_by_email: string | null;
+      folder: { id: string; name: string; updated_at: string };
+      notes: { id: string; title: string; updated_at: string }[];
+      files: SharedFileEntry[];
+      /** The note or file opened inside the folder, if any. */
+      note?: SharedNote;
+      file?: SharedFile;
+    }
+  | { status: "ok"; kind: "file"; shared_by_email: string | null; file: SharedFile }
+  | { status: Exclude<SharedNoteStatus, "ok"> }
+  /** The note is in a vault: its content is end-to-end encrypted and never shown to viewers. */
+  | { status: "encrypted" };
+
+const SHARE_LINK_COLUMNS =
+  "token, user_id, expires_at, has_passphrase, view_count, last_viewed_at, created_at, updated_at";
+
+export const listShareLinks = async (): Promise<ShareLink[]> => {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select(SHARE_LINK_COLUMNS)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch share links: ${error.message}`);
+  }
+
+  return (data || []) as ShareLink[];
+};
+
+export const setShareLinkExpiry = async (token: string, expiresAt: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from("share_links")
+    .upsert(
+      { token, expires_at: expiresAt, updated_at: new Date().toISOString() },
+      { onConflict: "token" }
+    );
+
+  if (error) {
+    throw new Error(`Failed to update share link: ${error.message}`);
+  }
+};
+
+/** Hashed server-side; null or "" removes the passphrase. */
+export const setShareLinkPassphrase = async (
+  token: string,
+  passphrase: string | null
+): Promise<void> => {
+  const { error } = await supabase.rpc("set_share_link_passphrase", {
+    p_token: token,
+    p_passphrase: passphrase ?? "",
+  });
+
+  if (error) {
+    throw new Error(`Failed to update share link passphrase: ${error.message}`);
+  }
+};
+
+/** Create `toToken` with `fromToken`'s expiry and passphrase (used when regenerating a link). */
+export const copyShareLink = async (fromToken: string, toToken: string): Promise<void> => {
+  const { error } = await supabase.rpc("copy_share_link", {
+    p_from_token: fromToken,
+    p_to_token: toToken,
+  });
+
+  if (error) {
+    throw new Error(`Failed to copy share link: ${error.message}`);
+  }
+};
+
+export const deleteShareLink = async (token: string): Promise<void> => {
+  const { error } = await supabase.from("share_links").delete().eq("token", token);
+
+  if (error) {
+    throw new Error(`Failed to delete share link: ${error.message}`);
+  }
+};
+
+/** Set or clear the share token on a folder or file row (notes go through updateNote). */
+export const setShareToken = async (
+  kind: Exclude<ShareableKind, "note">,
+  id: string,
+  token: string | null
+): Promise<void> => {
+  const { error } = await supabase
+    .from(kind === "folder" ? "folders" : "files")
+    .update({ share_token: token, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update ${kind} share: ${error.message}`);
+  }
+};
+
+/** Public API (no auth). `itemId` opens a note or file inside a shared folder. */
+export const getSharedItem = async (
+  token: string,
+  options?: { passphrase?: string; itemId?: string }
+): Promise<SharedItem> => {
+  const { data, error } = await supabase.rpc("get_shared_item", {
+    p_token: token,
+    p_passphrase: options?.passphrase ?? null,
+    p_item_id: options?.itemId ?? null,
+  });
+
+  if (error) {
+    // Server without folder/file sharing: only note links exist
+    if (error.code === "PGRST202" && !options?.itemId) {
+      const lookup = await getNoteByShareToken(token, options?.passphrase);
+      if (lookup.status !== "ok") return { status: lookup.status };
+      const { shared_by_email, ...note } = lookup.note;
+      return {
+        status: "ok",
+        kind: "note",
+        shared_by_email,
+        note: { ...note, created_at: note.created_at ?? note.updated_at },
+      };
+    }
+    throw new Error(`Failed to fetch shared item: ${error.message}`);
+  }
+
+  return (data ?? { status: "not_found" }) as SharedItem;
+};
@@ -0,0 +1,31 @@
+import { supabase, type VaultKey } from "@/lib/supabase";
+
+export const getVaultKey = async (userId: string): Promise<VaultKey | null> => {
+  const { data, error } = await supabase
+    .from("vault_keys")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch vault key: ${error.message}`);
+  }
+
+  return data;
+};
+
+/** Insert only: a second device setting up at the same time must not replace the first key. */
+export const createVaultKey = async (
+  input: Pick<VaultKey, "user_id" | "salt" | "iterations" | "key_check">
+): Promise<VaultKey> => {
+  const { data, error } = await supabase.from("vault_keys").insert(input).select().single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("A vault passphrase was already set up on another device");
+    }
+    throw new Error(`Failed to create vault key: ${error.message}`);
+  }
+
+  return data;
+};
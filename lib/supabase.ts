@@ -20,9 +20,15 @@ export interface Folder {
   id: string;
   user_id: string;
   name: string;
+  /** Containing folder; null or absent for top-level folders. */
+  parent_id?: string | null;
   is_archived: boolean;
   created_at: string;
   updated_at: string;
+  /** When set, the folder's active notes and files are publicly listed at /share/{share_token}. */
+  share_token?: string | null;
+  /** Notes in this folder and its subfolders are end-to-end encrypted (see lib/vault.ts). */
+  is_vault?: boolean;
 }
 
 export interface Note {
@@ -39,6 +45,56 @@ export interface Note {
   folder_id?: string | null;
 }
 
+/** Parameters of a user's vault key. The key itself is derived from a passphrase on the client. */
+export interface VaultKey {
+  user_id: string;
+  /** Base64 PBKDF2 salt. */
+  salt: string;
+  iterations: number;
+  /** A known value encrypted with the key, to check a passphrase before using it. */
+  key_check: string;
+  created_at: string;
+}
+
+/** Snapshot of a note's title and content; saves within a short window coalesce into one version. */
+export interface NoteVersion {
+  id: string;
+  note_id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  /** First save captured by this version. */
+  created_at: string;
+  /** Last save coalesced into this version. */
+  updated_at: string;
+}
+
+export type CollaboratorRole = "viewer" | "editor";
+
+/** Another account invited to a note; editors can change its title and content. */
+export interface NoteCollaborator {
+  note_id: string;
+  user_id: string;
+  email: string;
+  role: CollaboratorRole;
+  invited_by: string;
+  created_at: string;
+}
+
+/** Options of a public share link, keyed by the token stored on the shared row. */
+export interface ShareLink {
+  token: string;
+  user_id: string;
+  /** Link stops resolving after this time; null = never expires. */
+  expires_at: string | null;
+  /** Viewers must enter a passphrase (checked server-side; the hash is never sent to clients). */
+  has_passphrase: boolean;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface File {
   id: string;
   user_id: string;
@@ -52,6 +108,8 @@ export interface File {
   updated_at: string;
   /** Optional folder; null = uncategorized. */
   folder_id?: string | null;
+  /** When set, the file can be downloaded publicly from /share/{share_token}. */
+  share_token?: string | null;
 }
 
 export interface Event {
@@ -60,7 +118,58 @@ export interface Event {
   title: string;
   description: string;
   event_date: string;
+  /** Kept for older app versions; `rrule` wins when set. */
   repeat_interval?: "once" | "daily" | "weekly" | "monthly" | "yearly" | null;
+  /** RFC 5545 recurrence rule (lib/recurrence.ts), e.g. "FREQ=WEEKLY;BYDAY=TU,TH"; null = one-off. */
+  rrule?: string | null;
+  /** Occurrence dates ("YYYY-MM-DD") left out of the series. */
+  exdates?: string[] | null;
+  /** Set on an occurrence edited on its own: the series it came from, and the date it replaces. */
+  recurrence_id?: string | null;
+  recurrence_date?: string | null;
+  /** First occurrence's start and end in UTC (lib/event-times.ts); unset on events saved before they existed. */
+  start_at?: string | null;
+  end_at?: string | null;
+  /** A date (or dates) rather than a time: shown on the same days in every time zone. */
+  all_day?: boolean;
+  /** IANA zone `event_date` is the wall-clock time in, e.g. "Europe/Berlin"; null = the device's. */
+  timezone?: string | null;
+  /** Minutes before each occurrence to remind at (lib/event-reminders.ts), e.g. [10, 1440]. */
+  reminders?: number[] | null;
   created_at: string;
   updated_at: string;
 }
+
+export type EventInput = Pick<Event, "user_id" | "title" | "description" | "event_date"> &
+  Partial<
+    Pick<
+      Event,
+      | "repeat_interval"
+      | "rrule"
+      | "exdates"
+      | "recurrence_id"
+      | "recurrence_date"
+      | "start_at"
+      | "end_at"
+      | "all_day"
+      | "timezone"
+      | "reminders"
+    >
+  >;
+
+export type EventUpdates = Partial<
+  Pick<
+    Event,
+    | "title"
+    | "description"
+    | "event_date"
+    | "repeat_interval"
+    | "rrule"
+    | "exdates"
+    | "start_at"
+    | "end_at"
+    | "all_day"
+    | "timezone"
+    | "reminders"
+  >
+>;
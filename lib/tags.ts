@@ -0,0 +1,98 @@
+/**
+ * #hashtags in note content. Tags may be nested with slashes (`#work/clientA`); a note tagged
+ * `#work/clientA` also counts as tagged `#work`. Tags are compared lower-cased.
+ * The `tags` frontmatter property counts too (`tags: [work/clientA]`).
+ * The same rules are used by the SQLite tag index (native) and `note_tags()` in Postgres (web);
+ * `note_tags()` only sees hashtags.
+ */
+
+import { indexedProperties, splitFrontmatter } from "@/lib/frontmatter";
+import type { Note } from "@/lib/supabase";
+
+/** Group 1: leading whitespace (or empty at line start), group 2: `#tag` including nested segments. */
+export const HASHTAG_RE = /(^|\s)(#[\w-]+(?:\/[\w-]+)*)(?=\b|\s|$)/g;
+
+const FENCED_CODE_RE = /```[\s\S]*?```/g;
+const INLINE_CODE_RE = /`[^`\n]*`/g;
+
+export type TagCount = {
+  /** Normalized tag path without `#`, e.g. "work/clienta". */
+  tag: string;
+  /** Active notes carrying the tag or one of its descendants. */
+  count: number;
+};
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").replace(/^\/+|\/+$/g, "").toLowerCase();
+}
+
+/**
+ * Tags written in a note (code spans and fenced blocks are ignored) and listed in its `tags`
+ * property, normalized and de-duplicated.
+ */
+export function extractTags(content: string): string[] {
+  const text = splitFrontmatter(content)
+    .body.replace(FENCED_CODE_RE, " ")
+    .replace(INLINE_CODE_RE, " ");
+  const tags = new Set<string>();
+  for (const property of indexedProperties(content).tags) {
+    const tag = normalizeTag(property.replace(/\s+/g, "-"));
+    if (tag) tags.add(tag);
+  }
+  for (const match of text.matchAll(HASHTAG_RE)) {
+    const tag = normalizeTag(match[2]);
+    if (tag) tags.add(tag);
+  }
+  return [...tags];
+}
+
+/** `["work/clienta"]` → `["work", "work/clienta"]`. */
+export function expandTagAncestors(tags: string[]): string[] {
+  const expanded = new Set<string>();
+  for (const tag of tags) {
+    const segments = tag.split("/");
+    for (let i = 1; i <= segments.length; i++) {
+      expanded.add(segments.slice(0, i).join("/"));
+    }
+  }
+  return [...expanded];
+}
+
+/** Tags a note is indexed under: its own tags plus every ancestor. */
+export function indexedTags(content: string): string[] {
+  return expandTagAncestors(extractTags(content));
+}
+
+export function noteHasTag(content: string, tag: string): boolean {
+  return indexedTags(content).includes(normalizeTag(tag));
+}
+
+/** Tag counts over a set of notes, sorted by tag path. */
+export function countTags(notes: Pick<Note, "content">[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of indexedTags(note.content)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+export function getParentTag(tag: string): string | null {
+  const slash = tag.lastIndexOf("/");
+  return slash === -1 ? null : tag.slice(0, slash);
+}
+
+/** Last segment of a nested tag, for display under its parent. */
+export function getTagLabel(tag: string): string {
+  return tag.slice(tag.lastIndexOf("/") + 1);
+}
+
+/** Direct children of `parent` (top-level tags when null), most used first. */
+export function getChildTags(tags: TagCount[], parent: string | null): TagCount[] {
+  return tags
+    .filter((t) => getParentTag(t.tag) === parent)
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,187 @@
+/**
+ * Tasks: `- [ ]` / `- [x]` list items collected from every active note. A task may carry inline
+ * metadata, which is stripped from the displayed text:
+ *
+ * - due date — `due:2026-11-01` or `📅 2026-11-01`
+ * - priority — `!high`, `!medium`, `!low`, or `⏫` / `🔼` / `🔽`
+ *
+ * Toggling rewrites the task's source line in the owning note. Notes in the Templates folder
+ * are skipped so template checklists don't show up as open tasks.
+ */
+
+import { formatDateDisplay, formatDateToLocalString } from "@/lib/calendar-utils";
+import { listFolders } from "@/lib/folders";
+import { splitFrontmatter } from "@/lib/frontmatter";
+import { findTemplatesFolder } from "@/lib/note-templates";
+import { getNoteById, listNotes, updateNote } from "@/lib/notes";
+import type { Note } from "@/lib/supabase";
+
+export type TaskPriority = "high" | "medium" | "low";
+
+export type NoteTask = {
+  noteId: string;
+  noteTitle: string;
+  /** 0-based line in the note's content. */
+  lineIndex: number;
+  /** The source line as read; used to find the task again if the note changed. */
+  line: string;
+  /** Task text without the checkbox and metadata. */
+  text: string;
+  checked: boolean;
+  /** YYYY-MM-DD */
+  due: string | null;
+  priority: TaskPriority | null;
+};
+
+export type TaskGroup = { key: string; title: string; tasks: NoteTask[] };
+
+/** Group 1: indent and marker up to `[`, group 2: state, group 3: text. Same states as the editor's toggle. */
+const TASK_LINE_RE = /^(\s*[-*+]\s+\[)([\s*xX])\](?:\s+(.*))?$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const DUE_RE = /(?:^|\s)(?:due:|📅\s*)(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const PRIORITY_RE = /(?:^|\s)(?:!(high|medium|med|low)|(⏫|🔼|🔽))(?=\s|$)/i;
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+function parsePriority(word: string | undefined, emoji: string | undefined): TaskPriority {
+  if (emoji) return emoji === "⏫" ? "high" : emoji === "🔼" ? "medium" : "low";
+  const normalized = word!.toLowerCase();
+  return normalized === "med" ? "medium" : (normalized as TaskPriority);
+}
+
+/** Split a task's text into display text, due date and priority. */
+export function parseTaskText(raw: string): Pick<NoteTask, "text" | "due" | "priority"> {
+  let text = raw;
+  let due: string | null = null;
+  let priority: TaskPriority | null = null;
+
+  const dueMatch = DUE_RE.exec(text);
+  if (dueMatch) {
+    due = dueMatch[1];
+    text = text.replace(dueMatch[0], " ");
+  }
+  const priorityMatch = PRIORITY_RE.exec(text);
+  if (priorityMatch) {
+    priority = parsePriority(priorityMatch[1], priorityMatch[2]);
+    text = text.replace(priorityMatch[0], " ");
+  }
+  return { text: text.replace(/\s+/g, " ").trim(), due, priority };
+}
+
+/** Tasks in a note's content, skipping frontmatter and fenced code blocks. */
+export function extractTasks(note: Pick<Note, "id" | "title" | "content">): NoteTask[] {
+  const lines = note.content.split("\n");
+  const { body } = splitFrontmatter(note.content);
+  const frontmatter = note.content.slice(0, note.content.length - body.length);
+  const firstLine = frontmatter ? frontmatter.split("\n").length - 1 : 0;
+
+  const tasks: NoteTask[] = [];
+  let inFence = false;
+  for (let i = firstLine; i < lines.length; i++) {
+    const line = lines[i];
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = TASK_LINE_RE.exec(line);
+    if (!match) continue;
+    const parsed = parseTaskText(match[3] ?? "");
+    tasks.push({
+      noteId: note.id,
+      noteTitle: note.title,
+      lineIndex: i,
+      line,
+      checked: match[2] !== " ",
+      ...parsed,
+    });
+  }
+  return tasks;
+}
+
+/** Tasks across notes, in note order. */
+export function collectTasks(notes: Pick<Note, "id" | "title" | "content">[]): NoteTask[] {
+  return notes.flatMap(extractTasks);
+}
+
+/** Tasks from the user's active notes (most recently updated note first), excluding templates. */
+export async function listTasks(userId?: string): Promise<NoteTask[]> {
+  if (!userId) return [];
+  const [notes, folders] = await Promise.all([listNotes(userId), listFolders(userId)]);
+  const templatesFolderId = findTemplatesFolder(folders)?.id;
+  return collectTasks(notes.filter((note) => !templatesFolderId || note.folder_id !== templatesFolderId));
+}
+
+/** Content with the task on `lineIndex` checked or unchecked; unchanged when that line isn't a task. */
+export function setTaskChecked(content: string, lineIndex: number, checked: boolean): string {
+  const lines = content.split("\n");
+  const match = TASK_LINE_RE.exec(lines[lineIndex] ?? "");
+  if (!match) return content;
+  lines[lineIndex] = lines[lineIndex].replace(TASK_LINE_RE, (_all, prefix: string, _state, text?: string) =>
+    `${prefix}${checked ? "x" : " "}]${text !== undefined ? ` ${text}` : ""}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Check or uncheck a task in its note. The task is found by its source line, so edits elsewhere
+ * in the note since the list was loaded don't toggle the wrong item.
+ */
+export async function toggleTask(task: NoteTask, checked: boolean): Promise<Note | null> {
+  const note = await getNoteById(task.noteId);
+  if (!note) throw new Error("The note holding this task no longer exists");
+
+  const lines = note.content.split("\n");
+  let lineIndex = task.lineIndex;
+  if (lines[lineIndex] !== task.line) {
+    lineIndex = lines.indexOf(task.line);
+    if (lineIndex === -1) throw new Error("This task was changed in its note. Refresh and try again.");
+  }
+  return updateNote(note.id, { content: setTaskChecked(note.content, lineIndex, checked) });
+}
+
+/** Open tasks first, then by priority, due date (undated last) and position. */
+export function compareTasks(a: NoteTask, b: NoteTask): number {
+  if (a.checked !== b.checked) return a.checked ? 1 : -1;
+  const priorityA = a.priority ? PRIORITY_ORDER[a.priority] : 3;
+  const priorityB = b.priority ? PRIORITY_ORDER[b.priority] : 3;
+  if (priorityA !== priorityB) return priorityA - priorityB;
+  if (a.due !== b.due) {
+    if (!a.due) return 1;
+    if (!b.due) return -1;
+    return a.due.localeCompare(b.due);
+  }
+  return 0;
+}
+
+/** Overdue, Today, one group per later date, then No date. Completed tasks are grouped like open ones. */
+export function groupTasksByDate(tasks: NoteTask[], today: Date = new Date()): TaskGroup[] {
+  const todayKey = formatDateToLocalString(today);
+  const groups = new Map<string, TaskGroup>();
+  const add = (key: string, title: string, task: NoteTask) => {
+    const group = groups.get(key);
+    if (group) group.tasks.push(task);
+    else groups.set(key, { key, title, tasks: [task] });
+  };
+  for (const task of tasks) {
+    if (!task.due) add("none", "No date", task);
+    else if (task.due < todayKey && !task.checked) add("overdue", "Overdue", task);
+    else if (task.due === todayKey) add(task.due, "Today", task);
+    else add(task.due, formatDateDisplay(task.due), task);
+  }
+  const rank = (key: string) => (key === "overdue" ? "0" : key === "none" ? "2" : `1${key}`);
+  return [...groups.values()]
+    .sort((a, b) => rank(a.key).localeCompare(rank(b.key)))
+    .map((group) => ({ ...group, tasks: [...group.tasks].sort(compareTasks) }));
+}
+
+/** One group per note, in the order the notes were listed. */
+export function groupTasksByNote(tasks: NoteTask[]): TaskGroup[] {
+  const groups = new Map<string, TaskGroup>();
+  for (const task of tasks) {
+    const group = groups.get(task.noteId);
+    if (group) group.tasks.push(task);
+    else groups.set(task.noteId, { key: task.noteId, title: task.noteTitle || "Untitled", tasks: [task] });
+  }
+  return [...groups.values()];
+}
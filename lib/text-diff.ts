@@ -0,0 +1,216 @@
+/**
+ * Line-based text diff and three-way merge.
+ * Used by the notes reservoir to merge concurrent edits and by the conflict UI to show hunks.
+ */
+
+export type DiffOp = {
+  type: "equal" | "insert" | "delete";
+  lines: string[];
+};
+
+export type MergeHunk =
+  | { type: "stable"; lines: string[] }
+  | { type: "conflict"; base: string[]; ours: string[]; theirs: string[] };
+
+export type MergeResult = {
+  /** True when every changed region could be merged without a conflict. */
+  clean: boolean;
+  hunks: MergeHunk[];
+};
+
+/** Above this many DP cells the middle section is treated as a full replace to keep memory bounded. */
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text.split("\n");
+}
+
+export function joinLines(lines: string[]): string {
+  return lines.join("\n");
+}
+
+/**
+ * For each line in `a`, the index of the matching line in `b` (or -1), using the longest common subsequence.
+ * Common prefix/suffix are matched directly so typical local edits stay cheap.
+ */
+function matchLines(a: string[], b: string[]): Int32Array {
+  const match = new Int32Array(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    match[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    match[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return match;
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      match[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return match;
+}
+
+function pushOp(ops: DiffOp[], type: DiffOp["type"], line: string): void {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.lines.push(line);
+  } else {
+    ops.push({ type, lines: [line] });
+  }
+}
+
+/** Line diff from `before` to `after` as consecutive equal/delete/insert runs. */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const match = matchLines(a, b);
+  const ops: DiffOp[] = [];
+
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    const target = match[i];
+    if (target === -1) {
+      pushOp(ops, "delete", a[i]);
+      continue;
+    }
+    while (j < target) {
+      pushOp(ops, "insert", b[j]);
+      j++;
+    }
+    pushOp(ops, "equal", a[i]);
+    j = target + 1;
+  }
+  while (j < b.length) {
+    pushOp(ops, "insert", b[j]);
+    j++;
+  }
+  return ops;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function pushStable(hunks: MergeHunk[], lines: string[]): void {
+  if (lines.length === 0) return;
+  const last = hunks[hunks.length - 1];
+  if (last && last.type === "stable") {
+    last.lines.push(...lines);
+  } else {
+    hunks.push({ type: "stable", lines: [...lines] });
+  }
+}
+
+/**
+ * Three-way merge (diff3-style) of two descendants of `base`.
+ * Regions changed on only one side are taken from that side; regions changed identically on both
+ * sides are taken once; anything else becomes a conflict hunk.
+ */
+export function merge3(base: string, ours: string, theirs: string): MergeResult {
+  const b = splitLines(base);
+  const o = splitLines(ours);
+  const t = splitLines(theirs);
+  const toOurs = matchLines(b, o);
+  const toTheirs = matchLines(b, t);
+
+  const hunks: MergeHunk[] = [];
+  let clean = true;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (true) {
+    // Next base line kept unchanged by both sides is a sync point.
+    let sync = i;
+    while (sync < b.length && (toOurs[sync] === -1 || toTheirs[sync] === -1)) {
+      sync++;
+    }
+    const oursEnd = sync < b.length ? toOurs[sync] : o.length;
+    const theirsEnd = sync < b.length ? toTheirs[sync] : t.length;
+
+    const baseChunk = b.slice(i, sync);
+    const oursChunk = o.slice(j, oursEnd);
+    const theirsChunk = t.slice(k, theirsEnd);
+
+    if (sameLines(oursChunk, baseChunk)) {
+      pushStable(hunks, theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      pushStable(hunks, oursChunk);
+    } else {
+      clean = false;
+      hunks.push({ type: "conflict", base: baseChunk, ours: oursChunk, theirs: theirsChunk });
+    }
+
+    if (sync >= b.length) break;
+    pushStable(hunks, [b[sync]]);
+    i = sync + 1;
+    j = oursEnd + 1;
+    k = theirsEnd + 1;
+  }
+
+  return { clean, hunks };
+}
+
+export type ConflictChoice = "ours" | "theirs" | "both";
+
+/**
+ * Flatten merge hunks back into text. `choices[n]` picks the side for the n-th conflict hunk;
+ * unresolved conflicts fall back to `fallback`.
+ */
+export function applyMergeChoices(
+  hunks: MergeHunk[],
+  choices: ConflictChoice[] = [],
+  fallback: ConflictChoice = "ours"
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+  for (const hunk of hunks) {
+    if (hunk.type === "stable") {
+      lines.push(...hunk.lines);
+      continue;
+    }
+    const choice = choices[conflictIndex] ?? fallback;
+    conflictIndex++;
+    if (choice === "ours") {
+      lines.push(...hunk.ours);
+    } else if (choice === "theirs") {
+      lines.push(...hunk.theirs);
+    } else {
+      lines.push(...hunk.ours, ...hunk.theirs);
+    }
+  }
+  return joinLines(lines);
+}
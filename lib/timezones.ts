@@ -0,0 +1,147 @@
+/**
+ * IANA time zone arithmetic on top of Intl: converting a wall-clock time in a zone to the UTC
+ * instant and back, so timed events keep their local time across DST changes and travel.
+ *
+ * Wall-clock times are "YYYY-MM-DDTHH:mm:ss" strings, like Event.event_date.
+ */
+
+/** Zones offered in the event form, besides the device's and the event's own. */
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "Pacific/Honolulu",
+  "America/Anchorage",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Halifax",
+  "America/Sao_Paulo",
+  "Atlantic/Azores",
+  "Europe/London",
+  "Europe/Lisbon",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Europe/Athens",
+  "Europe/Istanbul",
+  "Europe/Moscow",
+  "Africa/Cairo",
+  "Africa/Lagos",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Karachi",
+  "Asia/Kolkata",
+  "Asia/Dhaka",
+  "Asia/Bangkok",
+  "Asia/Shanghai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Asia/Seoul",
+  "Australia/Perth",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseWallClock(wallClock: string): number[] {
+  const [date, time = "00:00:00"] = wallClock.split("T");
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h = 0, mi = 0, s = 0] = time.split(":").map((part) => parseInt(part, 10) || 0);
+  return [y, mo, d, h, mi, s];
+}
+
+/** Wall-clock time in `timeZone` at `date`; the device's local time if the zone is unknown. */
+export function utcToZonedTime(date: Date, timeZone: string): string {
+  let parts: Record<string, number>;
+  try {
+    parts = {};
+    for (const part of formatterFor(timeZone).formatToParts(date)) {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+  } catch {
+    return (
+      `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    );
+  }
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour % 24)}:${pad(parts.minute)}:${pad(parts.second)}`
+  );
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `date`. */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const [y, mo, d, h, mi, s] = parseWallClock(utcToZonedTime(date, timeZone));
+  return Date.UTC(y, mo - 1, d, h, mi, s) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` happens. A time skipped by a DST change comes out
+ * an hour later; a repeated one as its first occurrence.
+ */
+export function zonedTimeToUtc(wallClock: string, timeZone: string): Date {
+  const [y, mo, d, h, mi, s] = parseWallClock(wallClock);
+  const asUtc = Date.UTC(y, mo - 1, d, h, mi, s);
+  const firstGuess = asUtc - timeZoneOffset(new Date(asUtc), timeZone);
+  const offset = timeZoneOffset(new Date(firstGuess), timeZone);
+  const candidate = asUtc - offset;
+  // Near a transition the offset at the first guess can be the other side's; prefer the earlier match
+  const earlier = candidate - 60 * 60 * 1000;
+  if (utcToZonedTime(new Date(earlier), timeZone) === utcToZonedTime(new Date(candidate), timeZone)) {
+    return new Date(earlier);
+  }
+  return new Date(candidate);
+}
+
+/** "GMT+2", "GMT-3:30" or "GMT" for `timeZone` at `date`. */
+export function formatUtcOffset(timeZone: string, date: Date = new Date()): string {
+  const minutes = Math.round(timeZoneOffset(date, timeZone) / 60000);
+  if (minutes === 0) return "GMT";
+  const sign = minutes > 0 ? "+" : "-";
+  const abs = Math.abs(minutes);
+  return `GMT${sign}${Math.floor(abs / 60)}${abs % 60 ? `:${pad(abs % 60)}` : ""}`;
+}
+
+/** "Berlin (GMT+2)" for "Europe/Berlin". */
+export function timeZoneLabel(timeZone: string, date: Date = new Date()): string {
+  const city = timeZone.split("/").pop()!.replace(/_/g, " ");
+  return `${city} (${formatUtcOffset(timeZone, date)})`;
+}
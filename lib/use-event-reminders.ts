@@ -0,0 +1,52 @@
+import { upcomingReminders } from "@/lib/event-reminders";
+import { listEvents } from "@/lib/events";
+import { QueryKeys } from "@/lib/query-utils";
+import { clearReminderNotifications, syncReminderNotifications } from "@/lib/reminder-notifications";
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+/** How often the schedule is rebuilt while the app stays open, so later occurrences come into it. */
+const RESCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Keep the device's reminder notifications in line with the signed-in user's events. The
+ * schedule is rebuilt whenever the events query changes (edits here, or ones from other devices
+ * arriving over Realtime), when the app comes back to the foreground and every hour, and is
+ * cleared on sign-out.
+ */
+export function useEventReminders(userId: string | undefined) {
+  const [tick, setTick] = useState(0);
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  const { data: events } = useQuery({
+    queryKey: QueryKeys.events(userId),
+    queryFn: () => listEvents(userId),
+    enabled: !!userId,
+    refetchOnMount: false,
+    staleTime: 2 * 60 * 1000,
+    retry: false,
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick((n) => n + 1), RESCHEDULE_INTERVAL_MS);
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") setTick((n) => n + 1);
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  // Runs one at a time, so a sync never cancels what the one before it is still scheduling
+  useEffect(() => {
+    let run: () => Promise<void>;
+    if (!userId) run = clearReminderNotifications;
+    else if (events) run = () => syncReminderNotifications(upcomingReminders(events));
+    else return;
+    queue.current = queue.current.then(run).catch((error) => {
+      console.warn("[event-reminders] Scheduling reminders failed:", error);
+    });
+  }, [userId, events, tick]);
+}
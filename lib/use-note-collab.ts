@@ -0,0 +1,169 @@
+import { UI_DEV } from "@/lib/config";
+import type { CollabMessage, RemoteCursor } from "@/lib/note-collab";
+import { supabase } from "@/lib/supabase";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+/** What each client announces on the note channel's presence. */
+export type CollabPeer = {
+  clientId: string;
+  userId: string;
+  email: string | null;
+  color: string;
+  canEdit: boolean;
+  selection: { anchor: number; head: number } | null;
+};
+
+const CURSOR_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2", "#db2777", "#65a30d"];
+/** Presence updates for cursor moves are sent at most this often. */
+const SELECTION_THROTTLE_MS = 100;
+
+function colorFor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+function newClientId(): string {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export interface UseNoteCollabOptions {
+  enabled: boolean;
+  canEdit: boolean;
+  userId: string | undefined;
+  email: string | null | undefined;
+  /** Channel messages for the editor's collab session, plus a hello whenever another client joins. */
+  onMessage: (message: CollabMessage) => void;
+}
+
+/**
+ * Transport for live editing of a note: the private Realtime channel "note:<id>". Broadcasts carry
+ * the session's messages (see note-collab.ts); presence lists who is here and where their cursor is.
+ */
+export function useNoteCollab(noteId: string | null | undefined, options: UseNoteCollabOptions) {
+  const { enabled, canEdit, userId, email } = options;
+  const clientId = useMemo(newClientId, []);
+  const [connected, setConnected] = useState(false);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const subscribedRef = useRef(false);
+  const onMessageRef = useRef(options.onMessage);
+  onMessageRef.current = options.onMessage;
+  const presenceRef = useRef<CollabPeer>({
+    clientId,
+    userId: userId ?? "",
+    email: email ?? null,
+    color: colorFor(userId ?? clientId),
+    canEdit,
+    selection: null,
+  });
+  presenceRef.current = {
+    ...presenceRef.current,
+    userId: userId ?? "",
+    email: email ?? null,
+    color: colorFor(userId ?? clientId),
+    canEdit,
+  };
+  const selectionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const active = enabled && !!noteId && !!userId && !UI_DEV;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const channel = supabase.channel(`note:${noteId}`, {
+      config: { private: true, broadcast: { self: true }, presence: { key: clientId } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on("broadcast", { event: "collab" }, ({ payload }) => {
+        onMessageRef.current(payload as CollabMessage);
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<CollabPeer>();
+        setPeers(
+          Object.values(state)
+            .map((presences) => presences[presences.length - 1])
+            .filter((peer): peer is CollabPeer & { presence_ref: string } => !!peer?.clientId)
+        );
+      })
+      .on("presence", { event: "join" }, ({ key, currentPresences }) => {
+        // A brand-new client (not a cursor update) needs the document
+        if (key !== clientId && currentPresences.length === 0) {
+          onMessageRef.current({ type: "hello", clientId: key });
+        }
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          subscribedRef.current = true;
+          setConnected(true);
+          channel.track(presenceRef.current);
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          subscribedRef.current = false;
+          setConnected(false);
+        }
+      });
+
+    return () => {
+      if (selectionTimerRef.current) clearTimeout(selectionTimerRef.current);
+      selectionTimerRef.current = null;
+      channelRef.current = null;
+      subscribedRef.current = false;
+      setConnected(false);
+      setPeers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [active, noteId, clientId]);
+
+  /** Send a session message. A hello is announced by rejoining presence, which viewers may also do. */
+  const send = useCallback((message: CollabMessage) => {
+    const channel = channelRef.current;
+    if (!channel || !subscribedRef.current) return;
+    if (message.type === "hello") {
+      channel
+        .untrack()
+        .then(() => channel.track(presenceRef.current))
+        .catch((error) => console.warn("[note-collab] Failed to rejoin presence:", error));
+      return;
+    }
+    channel.send({ type: "broadcast", event: "collab", payload: message }).catch((error) => {
+      console.warn("[note-collab] Failed to send:", error);
+    });
+  }, []);
+
+  const updateSelection = useCallback((selection: { start: number; end: number }) => {
+    presenceRef.current = { ...presenceRef.current, selection: { anchor: selection.start, head: selection.end } };
+    if (selectionTimerRef.current) return;
+    selectionTimerRef.current = setTimeout(() => {
+      selectionTimerRef.current = null;
+      if (subscribedRef.current) channelRef.current?.track(presenceRef.current);
+    }, SELECTION_THROTTLE_MS);
+  }, []);
+
+  const remoteCursors = useMemo<RemoteCursor[]>(
+    () =>
+      peers
+        .filter((peer) => peer.clientId !== clientId && peer.selection)
+        .map((peer) => ({
+          clientId: peer.clientId,
+          name: peer.email?.split("@")[0] ?? "Guest",
+          color: peer.color,
+          anchor: peer.selection!.anchor,
+          head: peer.selection!.head,
+        })),
+    [peers, clientId]
+  );
+
+  return {
+    clientId,
+    connected: active && connected,
+    /** Everyone on the note right now, this client included. */
+    peers,
+    remoteCursors,
+    send,
+    updateSelection,
+  };
+}
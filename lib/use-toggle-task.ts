@@ -0,0 +1,42 @@
+import { useAlert } from "@/contexts/alert-context";
+import { invalidateNotesListQueries, QueryKeys } from "@/lib/query-utils";
+import { setTaskChecked, toggleTask, type NoteTask } from "@/lib/tasks";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+const isSameTask = (a: NoteTask, b: NoteTask) => a.noteId === b.noteId && a.lineIndex === b.lineIndex;
+
+/**
+ * Check or uncheck a task in its note, updating the cached task list right away.
+ * The cached source line is updated too, so a second toggle before the refetch still finds the task.
+ */
+export function useToggleTask(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { alert } = useAlert();
+
+  const mutation = useMutation({
+    mutationFn: ({ task, checked }: { task: NoteTask; checked: boolean }) => toggleTask(task, checked),
+    onMutate: async ({ task, checked }) => {
+      const key = QueryKeys.noteTasks(userId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<NoteTask[]>(key);
+      queryClient.setQueryData<NoteTask[]>(key, (current) =>
+        current?.map((t) =>
+          isSameTask(t, task) ? { ...t, checked, line: setTaskChecked(t.line, 0, checked) } : t
+        )
+      );
+      return { previous };
+    },
+    onError: (error: Error, _vars, context) => {
+      if (context?.previous) queryClient.setQueryData(QueryKeys.noteTasks(userId), context.previous);
+      alert("Error", error.message || "Failed to update task");
+    },
+    onSuccess: (_note, { task }) => {
+      queryClient.invalidateQueries({ queryKey: ["note", task.noteId] });
+    },
+    onSettled: () => {
+      invalidateNotesListQueries(queryClient, userId);
+    },
+  });
+
+  return (task: NoteTask) => mutation.mutate({ task, checked: !task.checked });
+}
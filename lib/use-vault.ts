@@ -0,0 +1,38 @@
+import { QueryKeys } from "@/lib/query-utils";
+import {
+  getVaultSetup,
+  getVaultUnlockedSnapshot,
+  lockVault,
+  setUpVault,
+  subscribeVault,
+  unlockVault,
+} from "@/lib/vault";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+
+/**
+ * Vault lock state for screens: whether it is unlocked (re-renders on lock and unlock), whether
+ * the user has set a passphrase yet, and the actions to set one up, unlock and lock.
+ */
+export function useVault(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const unlocked = useSyncExternalStore(subscribeVault, getVaultUnlockedSnapshot, getVaultUnlockedSnapshot);
+  const { data: setup, isLoading } = useQuery({
+    queryKey: QueryKeys.vaultSetup(userId),
+    queryFn: () => getVaultSetup(userId!),
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+
+  return {
+    unlocked,
+    /** Undefined while loading. */
+    hasPassphrase: isLoading ? undefined : !!setup,
+    setUp: async (passphrase: string) => {
+      await setUpVault(userId!, passphrase);
+      queryClient.invalidateQueries({ queryKey: QueryKeys.vaultSetup(userId) });
+    },
+    unlock: (passphrase: string) => unlockVault(userId!, passphrase),
+    lock: lockVault,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Client-side encryption for vault notes. A 256-bit key is derived from the user's vault
+ * passphrase with PBKDF2-SHA256; titles and contents are sealed with XChaCha20-Poly1305 under a
+ * random nonce and stored as `e2ee:v1:<base64(nonce ‖ ciphertext)>`, so any layer can tell an
+ * encrypted value from plaintext without the key. The server only ever sees that form.
+ */
+
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { decode, encode } from "base64-arraybuffer";
+import { getRandomBytes } from "expo-crypto";
+
+export const ENCRYPTED_PREFIX = "e2ee:v1:";
+
+/** PBKDF2 rounds for new vaults; stored with the salt so it can be raised later. */
+export const VAULT_KDF_ITERATIONS = 250_000;
+
+const NONCE_BYTES = 24;
+const SALT_BYTES = 16;
+/** Known plaintext sealed with the key, to tell a wrong passphrase from a right one. */
+const KEY_CHECK_PLAINTEXT = "gopx-drive-vault";
+
+const textEncoder = new TextEncoder();
+
+/** UTF-8 bytes to a string; Hermes ships TextEncoder but not TextDecoder. */
+function utf8Decode(bytes: Uint8Array): string {
+  const escaped: string[] = new Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    escaped[i] = (bytes[i] < 16 ? "%0" : "%") + bytes[i].toString(16);
+  }
+  return decodeURIComponent(escaped.join(""));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return encode(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(decode(value));
+}
+
+export function isEncryptedText(value: string | null | undefined): boolean {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** A fresh random salt (base64) for a new vault. */
+export function createVaultSalt(): string {
+  return toBase64(getRandomBytes(SALT_BYTES));
+}
+
+/** Slow on purpose (hundreds of ms to seconds); yields to the UI while it runs. */
+export function deriveVaultKey(passphrase: string, salt: string, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, textEncoder.encode(passphrase.normalize("NFKC")), fromBase64(salt), {
+    c: iterations,
+    dkLen: 32,
+    asyncTick: 20,
+  });
+}
+
+export function encryptText(key: Uint8Array, plaintext: string): string {
+  const nonce = getRandomBytes(NONCE_BYTES);
+  const sealed = xchacha20poly1305(key, nonce).encrypt(textEncoder.encode(plaintext));
+  const payload = new Uint8Array(NONCE_BYTES + sealed.length);
+  payload.set(nonce);
+  payload.set(sealed, NONCE_BYTES);
+  return ENCRYPTED_PREFIX + toBase64(payload);
+}
+
+/** Plaintext of an `e2ee:` value. Throws when the key is wrong or the value was tampered with. */
+export function decryptText(key: Uint8Array, value: string): string {
+  if (!isEncryptedText(value)) throw new Error("Value is not encrypted");
+  const payload = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  if (payload.length <= NONCE_BYTES) throw new Error("Encrypted value is truncated");
+  const plaintext = xchacha20poly1305(key, payload.subarray(0, NONCE_BYTES)).decrypt(
+    payload.subarray(NONCE_BYTES)
+  );
+  return utf8Decode(plaintext);
+}
+
+export function createKeyCheck(key: Uint8Array): string {
+  return encryptText(key, KEY_CHECK_PLAINTEXT);
+}
+
+/** Whether `key` was derived from the passphrase the vault was set up with. */
+export function verifyKeyCheck(key: Uint8Array, keyCheck: string): boolean {
+  try {
+    return decryptText(key, keyCheck) === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
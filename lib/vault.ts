@@ -0,0 +1,228 @@
+/**
+ * Vault folders: notes filed in a folder marked `is_vault` (or any folder below it) have their
+ * title and content encrypted on this device before they are stored or synced (lib/vault-crypto.ts).
+ *
+ * The key is derived from a passphrase the user sets once per account and only lives in memory
+ * while the vault is unlocked. It is dropped by lockVault, and after the auto-lock timeout passes
+ * without vault activity (reading or saving a vault note), including while the app is in the
+ * background. Subscribers (useVault, the app layout's query refresh) hear every lock and unlock.
+ */
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { UI_DEV } from "@/lib/config";
+import { getFolderPath } from "@/lib/folder-tree";
+import { getCachedFolders } from "@/lib/folders-cache";
+import type { Folder, Note, VaultKey } from "@/lib/supabase";
+import * as supabaseVault from "@/lib/supabase-vault";
+import {
+  createKeyCheck,
+  createVaultSalt,
+  decryptText,
+  deriveVaultKey,
+  encryptText,
+  isEncryptedText,
+  VAULT_KDF_ITERATIONS,
+  verifyKeyCheck,
+} from "@/lib/vault-crypto";
+
+export { isEncryptedText } from "@/lib/vault-crypto";
+
+const VAULT_KEY_CACHE_KEY = "@vault_key";
+const AUTO_LOCK_KEY = "@vault_auto_lock_minutes";
+
+/** Title shown for a vault note while the vault is locked. */
+export const LOCKED_NOTE_TITLE = "Locked note";
+
+/** Auto-lock choices in Settings; 0 keeps the vault unlocked until locked by hand or restart. */
+export const VAULT_AUTO_LOCK_OPTIONS: { label: string; minutes: number }[] = [
+  { label: "1 minute", minutes: 1 },
+  { label: "5 minutes", minutes: 5 },
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "Never", minutes: 0 },
+];
+
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+let vaultKey: Uint8Array | null = null;
+let lastActivityAt = 0;
+let autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+let lockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+/** Listen for lock and unlock; returns the unsubscribe function. */
+export function subscribeVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function idleExpired(): boolean {
+  return autoLockMinutes > 0 && Date.now() - lastActivityAt >= autoLockMinutes * 60_000;
+}
+
+function scheduleAutoLock(): void {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  if (!vaultKey || autoLockMinutes <= 0) return;
+  const remaining = lastActivityAt + autoLockMinutes * 60_000 - Date.now();
+  // Timers are paused in the background; idleExpired() catches up on the next access
+  lockTimer = setTimeout(() => {
+    if (idleExpired()) lockVault();
+    else scheduleAutoLock();
+  }, Math.max(remaining, 0));
+}
+
+/** Restart the auto-lock countdown (called on every vault read or write). */
+export function touchVault(): void {
+  if (!vaultKey) return;
+  lastActivityAt = Date.now();
+  scheduleAutoLock();
+}
+
+export function lockVault(): void {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  if (!vaultKey) return;
+  vaultKey.fill(0);
+  vaultKey = null;
+  notify();
+}
+
+/** Lock state for useSyncExternalStore; unlike isVaultUnlocked it never locks as a side effect. */
+export function getVaultUnlockedSnapshot(): boolean {
+  return vaultKey !== null;
+}
+
+/** Whether the key is in memory. Locks first when the auto-lock timeout has already passed. */
+export function isVaultUnlocked(): boolean {
+  if (vaultKey && idleExpired()) lockVault();
+  return vaultKey !== null;
+}
+
+function requireVaultKey(): Uint8Array {
+  if (!isVaultUnlocked() || !vaultKey) throw new Error("The vault is locked");
+  touchVault();
+  return vaultKey;
+}
+
+function cacheKey(userId: string): string {
+  return `${VAULT_KEY_CACHE_KEY}:${userId}`;
+}
+
+/** Vault key parameters for the user, or null before a passphrase was set. Cached so unlocking works offline. */
+export async function getVaultSetup(userId: string): Promise<VaultKey | null> {
+  if (UI_DEV) return null;
+  try {
+    const setup = await supabaseVault.getVaultKey(userId);
+    if (setup) await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(setup));
+    return setup;
+  } catch (error) {
+    const raw = await AsyncStorage.getItem(cacheKey(userId));
+    if (raw) return JSON.parse(raw) as VaultKey;
+    throw error;
+  }
+}
+
+async function loadAutoLockMinutes(): Promise<void> {
+  autoLockMinutes = await getVaultAutoLockMinutes();
+}
+
+function setKey(key: Uint8Array): void {
+  vaultKey = key;
+  lastActivityAt = Date.now();
+  scheduleAutoLock();
+  notify();
+}
+
+/** Set the account's vault passphrase and unlock. There is no recovery if it is forgotten. */
+export async function setUpVault(userId: string, passphrase: string): Promise<void> {
+  if (UI_DEV) throw new Error("Vaults are not available in UI dev mode");
+  if (await getVaultSetup(userId)) throw new Error("A vault passphrase is already set up");
+  const salt = createVaultSalt();
+  const key = await deriveVaultKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+  const setup = await supabaseVault.createVaultKey({
+    user_id: userId,
+    salt,
+    iterations: VAULT_KDF_ITERATIONS,
+    key_check: createKeyCheck(key),
+  });
+  await AsyncStorage.setItem(cacheKey(userId), JSON.stringify(setup));
+  await loadAutoLockMinutes();
+  setKey(key);
+}
+
+/** Derive the key from `passphrase` and keep it in memory. False when the passphrase is wrong. */
+export async function unlockVault(userId: string, passphrase: string): Promise<boolean> {
+  const setup = await getVaultSetup(userId);
+  if (!setup) throw new Error("Set a vault passphrase first");
+  const key = await deriveVaultKey(passphrase, setup.salt, setup.iterations);
+  if (!verifyKeyCheck(key, setup.key_check)) return false;
+  await loadAutoLockMinutes();
+  setKey(key);
+  return true;
+}
+
+export async function getVaultAutoLockMinutes(): Promise<number> {
+  try {
+    const raw = await AsyncStorage.getItem(AUTO_LOCK_KEY);
+    const minutes = raw == null ? NaN : Number(raw);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+  } catch {
+    return DEFAULT_AUTO_LOCK_MINUTES;
+  }
+}
+
+export async function setVaultAutoLockMinutes(minutes: number): Promise<void> {
+  autoLockMinutes = minutes;
+  await AsyncStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  touchVault();
+}
+
+/** Whether `folderId` is a vault folder or sits anywhere inside one. */
+export function isFolderInVault(folders: Folder[], folderId: string | null | undefined): boolean {
+  if (!folderId) return false;
+  return getFolderPath(folders, folderId).some((folder) => folder.is_vault);
+}
+
+/** Same as isFolderInVault, against the user's cached folder list. */
+export async function isVaultFolderId(
+  userId: string,
+  folderId: string | null | undefined
+): Promise<boolean> {
+  if (!folderId) return false;
+  return isFolderInVault(await getCachedFolders(userId), folderId);
+}
+
+/** A note whose title or content is encrypted: as stored, or as revealed while the vault is locked. */
+export function isEncryptedNote(note: Pick<Note, "title" | "content">): boolean {
+  return isEncryptedText(note.content) || isEncryptedText(note.title);
+}
+
+/** Encrypt a title or content for a vault note. Throws while the vault is locked. */
+export function sealText(plaintext: string): string {
+  return encryptText(requireVaultKey(), plaintext);
+}
+
+/** Plaintext of an encrypted value, or the value unchanged when it isn't encrypted or can't be opened. */
+export function openText(value: string): string {
+  if (!isEncryptedText(value) || !isVaultUnlocked() || !vaultKey) return value;
+  try {
+    const plaintext = decryptText(vaultKey, value);
+    touchVault();
+    return plaintext;
+  } catch {
+    return value;
+  }
+}
+
+/** The note with its title and content decrypted when the vault is unlocked; unchanged otherwise. */
+export function revealNote<T extends Pick<Note, "title" | "content">>(note: T): T {
+  if (!isEncryptedNote(note)) return note;
+  return { ...note, title: openText(note.title), content: openText(note.content) };
+}
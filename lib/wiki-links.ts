@@ -0,0 +1,71 @@
+/**
+ * Wiki-links between notes: `[[Note Title]]` or `[[Note Title|label]]`.
+ * Targets are matched case-insensitively with whitespace collapsed (normalizeWikiTarget); the same
+ * rule is used by the SQLite link index (native) and `note_wiki_links()` in Postgres (web).
+ */
+
+import type { Note } from "@/lib/supabase";
+
+/** Group 1: target title, group 2: optional label. */
+export const WIKI_LINK_RE = /\[\[([^[\]\n|]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+export function normalizeWikiTarget(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Normalized, de-duplicated link targets in a note's content. */
+export function extractWikiLinks(content: string): string[] {
+  const targets = new Set<string>();
+  for (const match of content.matchAll(WIKI_LINK_RE)) {
+    const target = normalizeWikiTarget(match[1]);
+    if (target) targets.add(target);
+  }
+  return [...targets];
+}
+
+export function linksTo(content: string, title: string): boolean {
+  const target = normalizeWikiTarget(title);
+  return target !== "" && extractWikiLinks(content).includes(target);
+}
+
+/** Point every link to `fromTitle` at `toTitle`, keeping labels. Returns the content unchanged when there are none. */
+export function rewriteWikiLinks(content: string, fromTitle: string, toTitle: string): string {
+  const from = normalizeWikiTarget(fromTitle);
+  return content.replace(WIKI_LINK_RE, (whole, target: string, label?: string) => {
+    if (normalizeWikiTarget(target) !== from) return whole;
+    return label !== undefined ? `[[${toTitle}|${label}]]` : `[[${toTitle}]]`;
+  });
+}
+
+/** Note a link points at; the most recently updated one wins when titles collide. */
+export function resolveWikiLink<T extends Pick<Note, "title" | "updated_at">>(
+  title: string,
+  notes: T[]
+): T | null {
+  const target = normalizeWikiTarget(title);
+  let best: T | null = null;
+  for (const note of notes) {
+    if (normalizeWikiTarget(note.title) !== target) continue;
+    if (!best || note.updated_at > best.updated_at) best = note;
+  }
+  return best;
+}
+
+export type OpenWikiLink = {
+  /** Text typed after `[[` so far. */
+  query: string;
+  /** Offset just after `[[`; the completion replaces [start, end). */
+  start: number;
+  end: number;
+};
+
+/** The unclosed `[[…` the cursor is in, if any (used for title autocomplete in the editor). */
+export function findOpenWikiLink(text: string, cursor: number): OpenWikiLink | null {
+  const lineStart = text.lastIndexOf("\n", cursor - 1) + 1;
+  const before = text.slice(lineStart, cursor);
+  const open = before.lastIndexOf("[[");
+  if (open === -1) return null;
+  const query = before.slice(open + 2);
+  if (/[[\]|]/.test(query)) return null;
+  return { query, start: lineStart + open + 2, end: cursor };
+}
@@ -0,0 +1,105 @@
+// Service worker for the web build: keeps the app shell (HTML, JS bundles, fonts, images)
+// cached so the app starts offline. Notes themselves live in IndexedDB (lib/notes-reservoir.web.ts);
+// Supabase and other cross-origin requests are never cached here.
+
+const CACHE_PREFIX = "gopx-shell-";
+// v2: v1 could hold a share page as the shell
+const CACHE_NAME = `${CACHE_PREFIX}v2`;
+const SHELL_URL = "/";
+const PRECACHE_URLS = [SHELL_URL, "/manifest.json", "/icon.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/** Bundles and assets are content-hashed, so a cached copy never goes stale. */
+function isImmutableAsset(url) {
+  return url.pathname.startsWith("/_expo/static/") || url.pathname.startsWith("/assets/");
+}
+
+/** Public share pages hold other people's notes and files: never cached, never the shell. */
+function isSharePage(url) {
+  return url.pathname.startsWith("/share/");
+}
+
+async function putInCache(request, response) {
+  if (!response || !response.ok || response.type === "opaque") return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(request, response);
+}
+
+/**
+ * Pages: network first so deploys show up; offline, any route falls back to its last copy or the
+ * cached shell. Only the shell route itself refreshes the shell.
+ */
+async function handleNavigation(request, url) {
+  try {
+    const response = await fetch(request);
+    if (url.pathname === SHELL_URL) {
+      putInCache(SHELL_URL, response.clone());
+    } else if (!isSharePage(url)) {
+      putInCache(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (await caches.match(SHELL_URL));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  putInCache(request, response.clone());
+  return response;
+}
+
+/** Anything else from this origin: network, falling back to the last copy seen. */
+async function handleOther(request) {
+  try {
+    const response = await fetch(request);
+    putInCache(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request, url));
+  } else if (isImmutableAsset(url)) {
+    event.respondWith(handleAsset(request));
+  } else if (!isSharePage(url)) {
+    event.respondWith(handleOther(request));
+  }
+});
@@ -0,0 +1,34 @@
+/**
+ * Builds the KaTeX stylesheet for note exports:
+ * 1. Reads katex/dist/katex.min.css from the installed package (the version rehype-katex renders with)
+ * 2. Replaces each font's sources with its WOFF2 file as a data URI
+ * 3. Writes components/markdown-preview/katex-css.generated.ts, so exported math renders offline
+ */
+const fs = require("fs");
+const path = require("path");
+
+function build() {
+  const projectRoot = path.resolve(__dirname, "..");
+  const katexDir = path.dirname(require.resolve("katex/package.json", { paths: [projectRoot] }));
+  const { version } = require(path.join(katexDir, "package.json"));
+  const outPath = path.join(projectRoot, "components", "markdown-preview", "katex-css.generated.ts");
+
+  let css = fs.readFileSync(path.join(katexDir, "dist", "katex.min.css"), "utf8");
+  // Every browser that prints or opens the export reads WOFF2; the WOFF/TTF fallbacks are dropped
+  css = css.replace(/src:url\(fonts\/([^)]+)\.woff2\) format\("woff2"\)[^;}]*/g, (_, font) => {
+    const data = fs.readFileSync(path.join(katexDir, "dist", "fonts", `${font}.woff2`)).toString("base64");
+    return `src:url(data:font/woff2;base64,${data}) format("woff2")`;
+  });
+  if (/url\(fonts\//.test(css)) {
+    throw new Error("katex.min.css references fonts this script doesn't inline");
+  }
+
+  const tsContent = `// AUTO-GENERATED by scripts/build-export-katex-css.js from katex@${version} - do not edit
+export const KATEX_CSS = ${JSON.stringify(css)};
+`;
+
+  fs.writeFileSync(outPath, tsContent, "utf8");
+  console.log("Wrote", outPath, `(KaTeX ${version})`);
+}
+
+build();
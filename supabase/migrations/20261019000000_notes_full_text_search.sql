@@ -0,0 +1,41 @@
+-- Full-text search over notes for the web client (native uses a local SQLite FTS5 index).
+-- Uses the 'simple' config (no stemming) so prefix and phrase queries behave like FTS5.
+
+create or replace function public.note_search_vector(title text, content text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('simple', coalesce(title, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(content, '')), 'B');
+$$;
+
+-- Expression index instead of a generated column so `select *` payloads stay unchanged.
+create index if not exists notes_search_vector_idx
+  on public.notes using gin (public.note_search_vector(title, content));
+
+-- search_query is a to_tsquery expression built by the client (lib/note-search.ts toTsQuery).
+-- Highlights are wrapped in chr(2) / chr(3), matching HIGHLIGHT_START / HIGHLIGHT_END.
+create or replace function public.search_notes(search_query text, max_results int default 50)
+returns table (note jsonb, title_highlighted text, snippet text, rank real)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    to_jsonb(n) as note,
+    ts_headline('simple', n.title, q,
+      'HighlightAll=true, StartSel=' || chr(2) || ', StopSel=' || chr(3)) as title_highlighted,
+    ts_headline('simple', n.content, q,
+      'MaxWords=24, MinWords=8, MaxFragments=1, FragmentDelimiter=" … ", StartSel=' || chr(2) || ', StopSel=' || chr(3)) as snippet,
+    ts_rank(public.note_search_vector(n.title, n.content), q) as rank
+  from public.notes n, to_tsquery('simple', search_query) q
+  where n.user_id = auth.uid()
+    and coalesce(n.is_archived, false) = false
+    and public.note_search_vector(n.title, n.content) @@ q
+  order by rank desc, n.updated_at desc
+  limit max_results;
+$$;
+
+grant execute on function public.search_notes(text, int) to authenticated;
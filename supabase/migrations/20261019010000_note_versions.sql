@@ -0,0 +1,53 @@
+-- Note version history. Clients snapshot title/content on save, coalescing saves within
+-- 10 minutes into one row (lib/note-versions.ts). Native clients generate ids offline and upsert.
+
+create table if not exists public.note_versions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists note_versions_note_updated_idx
+  on public.note_versions (note_id, updated_at desc);
+
+alter table public.note_versions enable row level security;
+
+drop policy if exists "Users manage their own note versions" on public.note_versions;
+create policy "Users manage their own note versions"
+  on public.note_versions
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.notes n where n.id = note_id and n.user_id = auth.uid())
+  );
+
+-- Keep the newest 100 versions per note (MAX_VERSIONS_PER_NOTE).
+create or replace function public.prune_note_versions()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  delete from public.note_versions
+  where note_id = new.note_id
+    and id not in (
+      select id from public.note_versions
+      where note_id = new.note_id
+      order by updated_at desc
+      limit 100
+    );
+  return null;
+end;
+$$;
+
+drop trigger if exists note_versions_prune on public.note_versions;
+create trigger note_versions_prune
+  after insert on public.note_versions
+  for each row execute function public.prune_note_versions();
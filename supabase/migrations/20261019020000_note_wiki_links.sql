@@ -0,0 +1,38 @@
+-- [[Wiki link]] index for backlinks on the web client (native keeps a local note_links table).
+-- Targets are normalized like lib/wiki-links.ts normalizeWikiTarget: trimmed, whitespace collapsed, lower-cased.
+
+create or replace function public.note_wiki_links(content text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct t.target), '{}')
+  from (
+    select lower(regexp_replace(btrim(m[1]), '\s+', ' ', 'g')) as target
+    from regexp_matches(coalesce(content, ''), '\[\[([^][\n|]+)(?:\|[^][\n]+)?\]\]', 'g') as m
+  ) t
+  where t.target <> '';
+$$;
+
+-- Expression index so the link list is maintained on every insert/update without triggers.
+create index if not exists notes_wiki_links_idx
+  on public.notes using gin (public.note_wiki_links(content));
+
+-- Notes of the current user that link to target_title.
+create or replace function public.note_backlinks(target_title text)
+returns setof public.notes
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select n.*
+  from public.notes n
+  where n.user_id = auth.uid()
+    and coalesce(n.is_archived, false) = false
+    and public.note_wiki_links(n.content)
+      @> array[lower(regexp_replace(btrim(target_title), '\s+', ' ', 'g'))]
+  order by n.updated_at desc;
+$$;
+
+grant execute on function public.note_backlinks(text) to authenticated;
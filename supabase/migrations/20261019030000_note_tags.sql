@@ -0,0 +1,61 @@
+-- #tag index for the tag browser on the web client (native keeps a local note_tags table).
+-- Matches lib/tags.ts: code spans and fenced blocks are ignored, tags are lower-cased and
+-- nested tags (#work/clientA) are indexed together with their ancestors (work, work/clienta).
+
+create or replace function public.note_tags(content text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct array_to_string(t.parts[1:i], '/')), '{}')
+  from (
+    select string_to_array(lower(m[2]), '/') as parts
+    from regexp_matches(
+      regexp_replace(
+        regexp_replace(coalesce(content, ''), '```.*?```', ' ', 'g'),
+        '`[^`\n]*`', ' ', 'g'
+      ),
+      '(^|\s)#([A-Za-z0-9_-]+(?:/[A-Za-z0-9_-]+)*)',
+      'g'
+    ) as m
+  ) t,
+  generate_series(1, array_length(t.parts, 1)) as i;
+$$;
+
+create index if not exists notes_tags_idx
+  on public.notes using gin (public.note_tags(content));
+
+-- Tag counts over the current user's active notes.
+create or replace function public.note_tag_counts()
+returns table (tag text, count bigint)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select t.tag, count(*)
+  from public.notes n, unnest(public.note_tags(n.content)) as t(tag)
+  where n.user_id = auth.uid()
+    and coalesce(n.is_archived, false) = false
+  group by t.tag
+  order by t.tag;
+$$;
+
+-- The current user's active notes tagged tag_path or one of its descendants.
+create or replace function public.notes_with_tag(tag_path text)
+returns setof public.notes
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select n.*
+  from public.notes n
+  where n.user_id = auth.uid()
+    and coalesce(n.is_archived, false) = false
+    and public.note_tags(n.content) @> array[lower(btrim(ltrim(btrim(tag_path), '#'), '/'))]
+  order by n.updated_at desc;
+$$;
+
+grant execute on function public.note_tag_counts() to authenticated;
+grant execute on function public.notes_with_tag(text) to authenticated;
@@ -0,0 +1,197 @@
+-- Options for public share links. The token itself stays on the shared row (notes.share_token);
+-- share_links holds per-token settings: expiry, an optional passphrase (bcrypt, never readable by
+-- clients) and view counts. Clearing or regenerating share_token kills the old link. Wrong
+-- passphrases are counted per link, which then locks for a while so they can't be guessed quickly.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.share_links (
+  token text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  expires_at timestamptz,
+  password_hash text,
+  has_passphrase boolean generated always as (password_hash is not null) stored,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  view_count integer not null default 0,
+  last_viewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists share_links_user_idx on public.share_links (user_id);
+
+alter table public.share_links enable row level security;
+
+drop policy if exists "Users manage their share links" on public.share_links;
+create policy "Users manage their share links" on public.share_links
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- password_hash is only written by set_share_link_passphrase and only read by the lookups below;
+-- failed_attempts and locked_until only by check_share_link_passphrase
+revoke all on public.share_links from anon, authenticated;
+grant select (token, user_id, expires_at, has_passphrase, view_count, last_viewed_at, created_at, updated_at)
+  on public.share_links to authenticated;
+grant insert (token, expires_at, updated_at) on public.share_links to authenticated;
+grant update (token, expires_at, updated_at) on public.share_links to authenticated;
+grant delete on public.share_links to authenticated;
+
+-- Existing shared notes get a row with no expiry and no passphrase
+insert into public.share_links (token, user_id)
+select n.share_token, n.user_id
+from public.notes n
+where n.share_token is not null
+on conflict (token) do nothing;
+
+create or replace function public.set_share_link_passphrase(p_token text, p_passphrase text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.share_links (token, user_id, password_hash)
+  values (
+    p_token,
+    auth.uid(),
+    case when coalesce(p_passphrase, '') = '' then null else crypt(p_passphrase, gen_salt('bf')) end
+  )
+  on conflict (token) do update
+    set password_hash = excluded.password_hash,
+        updated_at = now()
+    where share_links.user_id = auth.uid();
+end;
+$$;
+
+grant execute on function public.set_share_link_passphrase(text, text) to authenticated;
+
+-- Checks a passphrase against the link's, for the share lookups. Returns null when it matches (or
+-- the link has none), else 'passphrase_required', 'invalid_passphrase' or 'too_many_attempts'.
+-- Five wrong passphrases in a row lock the link for 15 minutes, during which every check fails.
+create or replace function public.check_share_link_passphrase(p_token text, p_passphrase text)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_link public.share_links%rowtype;
+  v_attempts integer;
+begin
+  select * into v_link from public.share_links l where l.token = p_token for update;
+  if not found or v_link.password_hash is null then
+    return null;
+  end if;
+  if coalesce(p_passphrase, '') = '' then
+    return 'passphrase_required';
+  end if;
+  if v_link.locked_until is not null and v_link.locked_until > now() then
+    return 'too_many_attempts';
+  end if;
+
+  if crypt(p_passphrase, v_link.password_hash) <> v_link.password_hash then
+    v_attempts := v_link.failed_attempts + 1;
+    update public.share_links l
+      set failed_attempts = case when v_attempts >= 5 then 0 else v_attempts end,
+          locked_until = case when v_attempts >= 5 then now() + interval '15 minutes' end
+      where l.token = p_token;
+    return case when v_attempts >= 5 then 'too_many_attempts' else 'invalid_passphrase' end;
+  end if;
+
+  if v_link.failed_attempts > 0 or v_link.locked_until is not null then
+    update public.share_links l set failed_attempts = 0, locked_until = null where l.token = p_token;
+  end if;
+  return null;
+end;
+$$;
+
+-- Only called from the lookups, which count each check
+revoke execute on function public.check_share_link_passphrase(text, text) from public, anon, authenticated;
+
+-- Regenerating a link: the new token starts with the old one's expiry and passphrase (and no views)
+-- before it is written to the shared row, so it is never briefly unprotected.
+create or replace function public.copy_share_link(p_from_token text, p_to_token text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.share_links (token, user_id, expires_at, password_hash)
+  select p_to_token, l.user_id, l.expires_at, l.password_hash
+  from public.share_links l
+  where l.token = p_from_token and l.user_id = auth.uid()
+  on conflict (token) do nothing;
+
+  if not found then
+    insert into public.share_links (token, user_id) values (p_to_token, auth.uid())
+    on conflict (token) do nothing;
+  end if;
+end;
+$$;
+
+grant execute on function public.copy_share_link(text, text) to authenticated;
+
+-- Replaces the single-argument version: links with a passphrase or past their expiry no longer
+-- resolve without it. status is 'ok', 'not_found', 'expired', 'passphrase_required',
+-- 'invalid_passphrase' or 'too_many_attempts'; note fields are only set when it is 'ok'. Each
+-- successful view is counted.
+drop function if exists public.get_note_by_share_token(text);
+
+create or replace function public.get_note_by_share_token(token text, passphrase text default null)
+returns table (
+  id uuid,
+  title text,
+  content text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  shared_by_email text,
+  status text
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+#variable_conflict use_column
+declare
+  v_note public.notes%rowtype;
+  v_link public.share_links%rowtype;
+  v_status text;
+begin
+  select * into v_note from public.notes n where n.share_token = get_note_by_share_token.token limit 1;
+  if not found then
+    return query select null::uuid, null::text, null::text, null::timestamptz, null::timestamptz, null::text, 'not_found'::text;
+    return;
+  end if;
+
+  select * into v_link from public.share_links l where l.token = get_note_by_share_token.token and l.user_id = v_note.user_id;
+  if found then
+    if v_link.expires_at is not null and v_link.expires_at <= now() then
+      return query select null::uuid, null::text, null::text, null::timestamptz, null::timestamptz, null::text, 'expired'::text;
+      return;
+    end if;
+    v_status := public.check_share_link_passphrase(v_link.token, get_note_by_share_token.passphrase);
+    if v_status is not null then
+      return query select null::uuid, null::text, null::text, null::timestamptz, null::timestamptz, null::text, v_status;
+      return;
+    end if;
+    update public.share_links l
+      set view_count = l.view_count + 1, last_viewed_at = now()
+      where l.token = v_link.token;
+  else
+    insert into public.share_links (token, user_id, view_count, last_viewed_at)
+    values (get_note_by_share_token.token, v_note.user_id, 1, now())
+    on conflict do nothing;
+  end if;
+
+  return query
+    select v_note.id, v_note.title, v_note.content, v_note.created_at, v_note.updated_at,
+      (select u.email::text from auth.users u where u.id = v_note.user_id), 'ok'::text;
+end;
+$$;
+
+grant execute on function public.get_note_by_share_token(text, text) to anon, authenticated;
@@ -0,0 +1,162 @@
+-- Folders and files can be shared publicly like notes: a share_token on the row, its options in
+-- share_links. A shared folder exposes its active notes and files read-only; a shared file gets a
+-- download page. get_shared_item resolves any token and replaces get_note_by_share_token for the app.
+
+alter table public.folders add column if not exists share_token text unique;
+alter table public.files add column if not exists share_token text unique;
+
+-- The files bucket is private. After a viewer passes the link checks, the file's storage path is
+-- granted for a few minutes so an anonymous client can sign a download URL for it.
+create table if not exists public.share_file_grants (
+  file_path text primary key,
+  expires_at timestamptz not null
+);
+
+alter table public.share_file_grants enable row level security;
+revoke all on public.share_file_grants from anon, authenticated;
+
+create or replace function public.share_file_granted(p_path text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.share_file_grants g where g.file_path = p_path and g.expires_at > now()
+  );
+$$;
+
+grant execute on function public.share_file_granted(text) to anon, authenticated;
+
+drop policy if exists "Shared file downloads" on storage.objects;
+create policy "Shared file downloads" on storage.objects
+  for select to anon, authenticated
+  using (bucket_id = 'files' and public.share_file_granted(name));
+
+-- Resolves a share token of any kind. Returns {status} where status is 'ok', 'not_found',
+-- 'expired', 'passphrase_required', 'invalid_passphrase' or 'too_many_attempts' (see
+-- check_share_link_passphrase); with 'ok' also {kind, shared_by_email}
+-- and, per kind:
+--   note:   {note}
+--   folder: {folder, notes, files} plus {note} or {file} when p_item_id names an item in the folder
+--   file:   {file}
+-- Returned files carry file_path, granted for download. Only opening the link counts as a view,
+-- not navigating inside a shared folder.
+create or replace function public.get_shared_item(
+  p_token text,
+  p_passphrase text default null,
+  p_item_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_kind text;
+  v_owner uuid;
+  v_note public.notes%rowtype;
+  v_folder public.folders%rowtype;
+  v_file public.files%rowtype;
+  v_link public.share_links%rowtype;
+  v_status text;
+  v_result jsonb;
+begin
+  select * into v_note from public.notes n where n.share_token = p_token limit 1;
+  if found then
+    v_kind := 'note';
+    v_owner := v_note.user_id;
+  else
+    select * into v_folder from public.folders f where f.share_token = p_token limit 1;
+    if found then
+      v_kind := 'folder';
+      v_owner := v_folder.user_id;
+    else
+      select * into v_file from public.files f where f.share_token = p_token limit 1;
+      if not found then
+        return jsonb_build_object('status', 'not_found');
+      end if;
+      v_kind := 'file';
+      v_owner := v_file.user_id;
+    end if;
+  end if;
+
+  select * into v_link from public.share_links l where l.token = p_token and l.user_id = v_owner;
+  if found then
+    if v_link.expires_at is not null and v_link.expires_at <= now() then
+      return jsonb_build_object('status', 'expired');
+    end if;
+    v_status := public.check_share_link_passphrase(v_link.token, p_passphrase);
+    if v_status is not null then
+      return jsonb_build_object('status', v_status);
+    end if;
+  end if;
+
+  if p_item_id is null then
+    insert into public.share_links (token, user_id, view_count, last_viewed_at)
+    values (p_token, v_owner, 1, now())
+    on conflict (token) do update
+      set view_count = share_links.view_count + 1,
+          last_viewed_at = now()
+      where share_links.user_id = v_owner;
+  end if;
+
+  v_result := jsonb_build_object(
+    'status', 'ok',
+    'kind', v_kind,
+    'shared_by_email', (select u.email::text from auth.users u where u.id = v_owner)
+  );
+
+  if v_kind = 'folder' then
+    v_result := v_result || jsonb_build_object(
+      'folder', jsonb_build_object('id', v_folder.id, 'name', v_folder.name, 'updated_at', v_folder.updated_at),
+      'notes', coalesce((
+        select jsonb_agg(jsonb_build_object('id', n.id, 'title', n.title, 'updated_at', n.updated_at)
+          order by n.updated_at desc)
+        from public.notes n
+        where n.folder_id = v_folder.id and n.user_id = v_owner and not n.is_archived
+      ), '[]'::jsonb),
+      'files', coalesce((
+        select jsonb_agg(jsonb_build_object(
+            'id', f.id, 'name', f.name, 'file_size', f.file_size, 'mime_type', f.mime_type,
+            'extension', f.extension, 'updated_at', f.updated_at)
+          order by f.updated_at desc)
+        from public.files f
+        where f.folder_id = v_folder.id and f.user_id = v_owner and not coalesce(f.is_archived, false)
+      ), '[]'::jsonb)
+    );
+
+    v_note := null;
+    if p_item_id is not null then
+      select * into v_note from public.notes n
+      where n.id = p_item_id and n.folder_id = v_folder.id and n.user_id = v_owner and not n.is_archived;
+      if not found then
+        select * into v_file from public.files f
+        where f.id = p_item_id and f.folder_id = v_folder.id and f.user_id = v_owner
+          and not coalesce(f.is_archived, false);
+      end if;
+    end if;
+  end if;
+
+  if v_note.id is not null then
+    v_result := v_result || jsonb_build_object('note', jsonb_build_object(
+      'id', v_note.id, 'title', v_note.title, 'content', v_note.content,
+      'created_at', v_note.created_at, 'updated_at', v_note.updated_at));
+  elsif v_file.id is not null then
+    insert into public.share_file_grants (file_path, expires_at)
+    values (v_file.file_path, now() + interval '10 minutes')
+    on conflict (file_path) do update set expires_at = excluded.expires_at;
+    delete from public.share_file_grants g where g.expires_at <= now();
+
+    v_result := v_result || jsonb_build_object('file', jsonb_build_object(
+      'id', v_file.id, 'name', v_file.name, 'file_path', v_file.file_path,
+      'file_size', v_file.file_size, 'mime_type', v_file.mime_type, 'extension', v_file.extension,
+      'created_at', v_file.created_at, 'updated_at', v_file.updated_at));
+  end if;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.get_shared_item(text, text, uuid) to anon, authenticated;
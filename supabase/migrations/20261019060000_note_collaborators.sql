@@ -0,0 +1,191 @@
+-- Invite other accounts to a note by email as viewer or editor. Collaborators can read the note
+-- (editors can also change its title and content) and join its private Realtime channel
+-- "note:<id>", which carries live edits and cursors. Only the owner manages the invitations.
+
+create table if not exists public.note_collaborators (
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null default 'viewer' check (role in ('viewer', 'editor')),
+  invited_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (note_id, user_id)
+);
+
+create index if not exists note_collaborators_user_idx on public.note_collaborators (user_id);
+
+alter table public.note_collaborators enable row level security;
+
+-- Security definer so the notes policies below can consult invitations without recursing
+create or replace function public.note_role(p_note_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.notes n where n.id = p_note_id and n.user_id = auth.uid()) then 'owner'
+    else (
+      select c.role from public.note_collaborators c
+      where c.note_id = p_note_id and c.user_id = auth.uid()
+    )
+  end;
+$$;
+
+grant execute on function public.note_role(uuid) to authenticated;
+
+drop policy if exists "Owners manage note collaborators" on public.note_collaborators;
+create policy "Owners manage note collaborators" on public.note_collaborators
+  for all using (public.note_role(note_id) = 'owner') with check (public.note_role(note_id) = 'owner');
+
+drop policy if exists "Collaborators see their invitations" on public.note_collaborators;
+create policy "Collaborators see their invitations" on public.note_collaborators
+  for select using (user_id = auth.uid());
+
+drop policy if exists "Collaborators leave shared notes" on public.note_collaborators;
+create policy "Collaborators leave shared notes" on public.note_collaborators
+  for delete using (user_id = auth.uid());
+
+-- Collaborators get no policy on public.notes itself: row policies can't hide columns, and the
+-- row holds the owner's share_token and folder. They read and edit through the functions below,
+-- which only hand out collaborator_note_json.
+drop policy if exists "Collaborators can view shared notes" on public.notes;
+drop policy if exists "Editors can update shared notes" on public.notes;
+
+-- What a collaborator may see of a note
+create or replace function public.collaborator_note_json(n public.notes)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'id', n.id,
+    'user_id', n.user_id,
+    'title', n.title,
+    'content', n.content,
+    'is_archived', n.is_archived,
+    'created_at', n.created_at,
+    'updated_at', n.updated_at
+  );
+$$;
+
+-- A note shared with the signed-in user, or null when it wasn't (or doesn't exist)
+create or replace function public.get_shared_note(p_note_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.collaborator_note_json(n)
+  from public.notes n
+  where n.id = p_note_id and public.note_role(n.id) in ('viewer', 'editor');
+$$;
+
+grant execute on function public.get_shared_note(uuid) to authenticated;
+
+-- An editor changing a shared note's title and/or content (null keeps it). Moving, sharing and
+-- archiving stay with the owner.
+create or replace function public.update_shared_note(p_note_id uuid, p_title text, p_content text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_note public.notes%rowtype;
+begin
+  if public.note_role(p_note_id) is distinct from 'editor' then
+    raise exception 'Only editors can change this note';
+  end if;
+
+  update public.notes
+  set title = coalesce(p_title, title), content = coalesce(p_content, content)
+  where id = p_note_id
+  returning * into v_note;
+
+  return public.collaborator_note_json(v_note);
+end;
+$$;
+
+grant execute on function public.update_shared_note(uuid, text, text) to authenticated;
+
+-- Invite (or change the role of) the account registered with p_email. Returns the collaborator row.
+create or replace function public.invite_note_collaborator(p_note_id uuid, p_email text, p_role text)
+returns public.note_collaborators
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_row public.note_collaborators%rowtype;
+begin
+  if public.note_role(p_note_id) is distinct from 'owner' then
+    raise exception 'Only the owner can invite collaborators';
+  end if;
+  if p_role not in ('viewer', 'editor') then
+    raise exception 'Unknown role %', p_role;
+  end if;
+
+  select u.id into v_user_id from auth.users u where lower(u.email) = lower(trim(p_email)) limit 1;
+  if v_user_id is null then
+    raise exception 'No account uses %', trim(p_email);
+  end if;
+  if v_user_id = auth.uid() then
+    raise exception 'You already own this note';
+  end if;
+
+  insert into public.note_collaborators (note_id, user_id, email, role, invited_by)
+  values (p_note_id, v_user_id, lower(trim(p_email)), p_role, auth.uid())
+  on conflict (note_id, user_id) do update set role = excluded.role
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+grant execute on function public.invite_note_collaborator(uuid, text, text) to authenticated;
+
+-- Notes other accounts shared with the signed-in user, newest first, with the owner's email
+create or replace function public.notes_shared_with_me()
+returns table (note jsonb, role text, owner_email text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.collaborator_note_json(n),
+    c.role,
+    u.email::text
+  from public.note_collaborators c
+  join public.notes n on n.id = c.note_id
+  join auth.users u on u.id = n.user_id
+  where c.user_id = auth.uid() and not n.is_archived
+  order by n.updated_at desc;
+$$;
+
+grant execute on function public.notes_shared_with_me() to authenticated;
+
+-- Realtime authorization for the private "note:<id>" channels. Everyone on the note may listen and
+-- announce presence (cursors); only the owner and editors may broadcast edits.
+drop policy if exists "Note members receive note channel messages" on realtime.messages;
+create policy "Note members receive note channel messages" on realtime.messages
+  for select to authenticated
+  using (
+    realtime.topic() like 'note:%'
+    and public.note_role(substring(realtime.topic() from 6)::uuid) is not null
+  );
+
+drop policy if exists "Note members send on the note channel" on realtime.messages;
+create policy "Note members send on the note channel" on realtime.messages
+  for insert to authenticated
+  with check (
+    realtime.topic() like 'note:%'
+    and case realtime.messages.extension
+      when 'presence' then public.note_role(substring(realtime.topic() from 6)::uuid) is not null
+      else public.note_role(substring(realtime.topic() from 6)::uuid) in ('owner', 'editor')
+    end
+  );
@@ -0,0 +1,21 @@
+-- Push row changes to signed-in clients over Supabase Realtime (postgres_changes) instead of polling.
+-- Clients subscribe filtered by user_id; RLS decides which rows each subscriber receives.
+
+do $$
+declare
+  t text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  foreach t in array array['notes', 'folders', 'files', 'events'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,81 @@
+-- Incremental note sync. Clients pull rows with updated_at past their last sync (a watermark)
+-- instead of every note, so updated_at is stamped by the server clock on every write, and deletes
+-- leave a tombstone so they reach devices explicitly rather than by a row going missing.
+
+create or replace function public.set_notes_updated_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_set_updated_at on public.notes;
+create trigger notes_set_updated_at
+  before insert or update on public.notes
+  for each row execute function public.set_notes_updated_at();
+
+create index if not exists notes_user_updated_idx
+  on public.notes (user_id, updated_at, id);
+
+create table if not exists public.note_tombstones (
+  note_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists note_tombstones_user_deleted_idx
+  on public.note_tombstones (user_id, deleted_at);
+
+alter table public.note_tombstones enable row level security;
+
+drop policy if exists "Users read their own note tombstones" on public.note_tombstones;
+create policy "Users read their own note tombstones"
+  on public.note_tombstones
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Written by the trigger only; tombstones older than 90 days are pruned (a device that has not
+-- synced for that long pulls everything again).
+create or replace function public.record_note_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.note_tombstones (note_id, user_id, deleted_at)
+  values (old.id, old.user_id, now())
+  on conflict (note_id) do update set user_id = excluded.user_id, deleted_at = excluded.deleted_at;
+
+  delete from public.note_tombstones where deleted_at < now() - interval '90 days';
+  return null;
+end;
+$$;
+
+drop trigger if exists notes_record_tombstone on public.notes;
+create trigger notes_record_tombstone
+  after delete on public.notes
+  for each row execute function public.record_note_tombstone();
+
+-- A device that kept editing a note deleted elsewhere pushes it back under the same id.
+create or replace function public.clear_note_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.note_tombstones where note_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists notes_clear_tombstone on public.notes;
+create trigger notes_clear_tombstone
+  after insert on public.notes
+  for each row execute function public.clear_note_tombstone();
@@ -0,0 +1,43 @@
+-- Nested folders. A folder may sit inside another folder of the same owner; top-level folders
+-- have no parent. Clients archive, restore and delete whole subtrees (lib/supabase-folders.ts),
+-- so the cascade here only catches rows a client left behind.
+
+alter table public.folders
+  add column if not exists parent_id uuid references public.folders (id) on delete cascade;
+
+create index if not exists folders_parent_idx on public.folders (parent_id);
+
+-- Reject parents owned by someone else and moves that would put a folder inside its own subtree
+create or replace function public.check_folder_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_cursor uuid := new.parent_id;
+  v_owner uuid;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select user_id into v_owner from public.folders where id = new.parent_id;
+  if v_owner is null or v_owner <> new.user_id then
+    raise exception 'Parent folder not found';
+  end if;
+
+  while v_cursor is not null loop
+    if v_cursor = new.id then
+      raise exception 'A folder cannot be moved into itself or one of its subfolders';
+    end if;
+    select parent_id into v_cursor from public.folders where id = v_cursor;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists folders_check_parent on public.folders;
+create trigger folders_check_parent
+  before insert or update of parent_id on public.folders
+  for each row execute function public.check_folder_parent();
@@ -0,0 +1,124 @@
+-- End-to-end encrypted vault folders. Notes filed in a folder marked is_vault (or anywhere below
+-- one) are encrypted on the client (lib/vault-crypto.ts), so their title and content arrive here
+-- as 'e2ee:v1:…' ciphertext. vault_keys holds each user's key derivation parameters and a value
+-- to check a passphrase against; the passphrase and key never leave the device.
+-- What the server can enforce, it does: encrypted notes and vault folders can't be shared or get
+-- collaborators, and an encrypted note keeps no plaintext history.
+
+create table if not exists public.vault_keys (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  salt text not null,
+  iterations integer not null check (iterations >= 100000),
+  key_check text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.vault_keys enable row level security;
+
+-- No update or delete: new parameters would leave existing vault notes unreadable
+drop policy if exists "Users read their vault key" on public.vault_keys;
+create policy "Users read their vault key" on public.vault_keys
+  for select using (user_id = auth.uid());
+
+drop policy if exists "Users create their vault key" on public.vault_keys;
+create policy "Users create their vault key" on public.vault_keys
+  for insert with check (user_id = auth.uid());
+
+alter table public.folders
+  add column if not exists is_vault boolean not null default false;
+
+create or replace function public.is_encrypted_text(p_value text)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(p_value like 'e2ee:%', false);
+$$;
+
+-- A note that becomes encrypted loses its share link, collaborators and plaintext versions
+create or replace function public.guard_encrypted_note()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not public.is_encrypted_text(new.content) then
+    return new;
+  end if;
+
+  if new.share_token is not null then
+    raise exception 'Notes in a vault can''t be shared';
+  end if;
+
+  if tg_op = 'UPDATE' and not public.is_encrypted_text(old.content) then
+    delete from public.note_collaborators c where c.note_id = new.id;
+    delete from public.note_versions v
+    where v.note_id = new.id and not public.is_encrypted_text(v.content);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_guard_encrypted on public.notes;
+create trigger notes_guard_encrypted
+  before insert or update of content, share_token on public.notes
+  for each row execute function public.guard_encrypted_note();
+
+-- Versions still queued on a device from before the note was encrypted are dropped on arrival
+create or replace function public.skip_plaintext_vault_version()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not public.is_encrypted_text(new.content) and exists (
+    select 1 from public.notes n where n.id = new.note_id and public.is_encrypted_text(n.content)
+  ) then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists note_versions_skip_plaintext_vault on public.note_versions;
+create trigger note_versions_skip_plaintext_vault
+  before insert or update on public.note_versions
+  for each row execute function public.skip_plaintext_vault_version();
+
+create or replace function public.guard_vault_folder_share()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_vault and new.share_token is not null then
+    raise exception 'Vault folders can''t be shared';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists folders_guard_vault_share on public.folders;
+create trigger folders_guard_vault_share
+  before insert or update of is_vault, share_token on public.folders
+  for each row execute function public.guard_vault_folder_share();
+
+create or replace function public.guard_encrypted_note_collaborator()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.notes n where n.id = new.note_id and public.is_encrypted_text(n.content)
+  ) then
+    raise exception 'Notes in a vault can''t be shared';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists note_collaborators_guard_encrypted on public.note_collaborators;
+create trigger note_collaborators_guard_encrypted
+  before insert on public.note_collaborators
+  for each row execute function public.guard_encrypted_note_collaborator();
@@ -0,0 +1,18 @@
+-- Event recurrence rules. rrule holds an RFC 5545 RRULE value ("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"),
+-- expanded on the client (lib/recurrence.ts); exdates are occurrences skipped in the series.
+-- An occurrence edited on its own becomes an event of its own that points back at its series
+-- (recurrence_id) and the date it replaces (recurrence_date), like RECURRENCE-ID in iCalendar.
+-- repeat_interval stays for older app versions; clients keep it in step with rrule's FREQ.
+
+alter table public.events
+  add column if not exists rrule text,
+  add column if not exists exdates date[] not null default '{}',
+  add column if not exists recurrence_id uuid references public.events (id) on delete cascade,
+  add column if not exists recurrence_date date;
+
+create index if not exists events_recurrence_idx on public.events (recurrence_id)
+  where recurrence_id is not null;
+
+update public.events
+set rrule = 'FREQ=' || upper(repeat_interval)
+where rrule is null and repeat_interval in ('daily', 'weekly', 'monthly', 'yearly');
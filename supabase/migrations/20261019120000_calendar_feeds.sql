@@ -0,0 +1,165 @@
+-- Private calendar feeds: a secret per-user token that lets other calendar apps subscribe to the
+-- user's events read-only. calendar_feed(token) is called as a GET RPC
+-- (/rest/v1/rpc/calendar_feed?token=…&apikey=…) and answers with the iCalendar text itself, in the
+-- same shape as the app's own export (lib/ics.ts): floating DTSTARTs, RRULE and EXDATE on series,
+-- RECURRENCE-ID on occurrences edited on their own. Rotating the token kills the old URL.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "Users manage their calendar feed" on public.calendar_feeds;
+create policy "Users manage their calendar feed" on public.calendar_feeds
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Tokens are only minted by rotate_calendar_feed
+revoke all on public.calendar_feeds from anon, authenticated;
+grant select, delete on public.calendar_feeds to authenticated;
+
+create or replace function public.rotate_calendar_feed()
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_token text := encode(gen_random_bytes(24), 'hex');
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.calendar_feeds (user_id, token)
+  values (auth.uid(), v_token)
+  on conflict (user_id) do update
+    set token = excluded.token,
+        created_at = now();
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.rotate_calendar_feed() to authenticated;
+
+create or replace function public.ics_escape(p_value text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(replace(replace(
+    coalesce(p_value, ''), '\', '\\'), ';', '\;'), ',', '\,'), E'\r\n', '\n'), E'\n', '\n');
+$$;
+
+-- Folded at 74 characters plus the continuation space (RFC 5545 3.1)
+create or replace function public.ics_fold(p_line text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(p_line, '(.{74})(?=.)', E'\\1\r\n ', 'g');
+$$;
+
+revoke all on function public.ics_escape(text) from public, anon, authenticated;
+revoke all on function public.ics_fold(text) from public, anon, authenticated;
+
+-- PostgREST hands a "*/*" function result to any client as-is; Content-Type is set per response
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = '*/*' and typnamespace = 'public'::regnamespace) then
+    create domain public."*/*" as bytea;
+  end if;
+end;
+$$;
+
+create or replace function public.calendar_feed(token text)
+returns public."*/*"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_events text;
+begin
+  select f.user_id into v_user
+  from public.calendar_feeds f
+  where f.token = calendar_feed.token;
+
+  if v_user is null then
+    raise exception 'Calendar feed not found' using errcode = 'P0002';
+  end if;
+
+  select string_agg(
+    concat_ws(
+      E'\r\n',
+      'BEGIN:VEVENT',
+      'UID:' || coalesce(s.id, e.id) || '@gopx-drive',
+      'DTSTAMP:' || to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'LAST-MODIFIED:' || to_char(e.updated_at at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'DTSTART:' || to_char(e.event_date::timestamp, 'YYYYMMDD"T"HH24MISS'),
+      public.ics_fold('SUMMARY:' || public.ics_escape(e.title)),
+      case when coalesce(e.description, '') <> ''
+        then public.ics_fold('DESCRIPTION:' || public.ics_escape(e.description)) end,
+      case when s.id is not null
+        then 'RECURRENCE-ID:' || to_char(e.recurrence_date, 'YYYYMMDD')
+          || to_char(s.event_date::timestamp, '"T"HH24MISS') end,
+      -- UNTIL has to be a DATE-TIME like DTSTART; the whole last day still counts
+      case when s.id is null and r.rrule is not null
+        then 'RRULE:' || regexp_replace(r.rrule, 'UNTIL=(\d{8})(;|$)', 'UNTIL=\1T235959\2') end,
+      case when s.id is null and r.rrule is not null and cardinality(e.exdates) > 0
+        then public.ics_fold('EXDATE:' || (
+          select string_agg(to_char(d, 'YYYYMMDD') || to_char(e.event_date::timestamp, '"T"HH24MISS'), ',' order by d)
+          from unnest(e.exdates) d
+        )) end,
+      'END:VEVENT'
+    ),
+    E'\r\n' order by e.event_date
+  )
+  into v_events
+  from public.events e
+  left join public.events s on s.id = e.recurrence_id
+  cross join lateral (
+    select coalesce(
+      e.rrule,
+      case when e.repeat_interval in ('daily', 'weekly', 'monthly', 'yearly')
+        then 'FREQ=' || upper(e.repeat_interval) end
+    ) as rrule
+  ) r
+  where e.user_id = v_user;
+
+  perform set_config(
+    'response.headers',
+    json_build_array(
+      json_build_object('Content-Type', 'text/calendar; charset=utf-8'),
+      json_build_object('Content-Disposition', 'inline; filename="calendar.ics"'),
+      json_build_object('Cache-Control', 'private, max-age=900')
+    )::text,
+    true
+  );
+
+  return convert_to(
+    concat_ws(
+      E'\r\n',
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Gopx Drive//Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Gopx Drive',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      v_events,
+      'END:VCALENDAR'
+    ) || E'\r\n',
+    'UTF8'
+  );
+end;
+$$;
+
+grant execute on function public.calendar_feed(text) to anon, authenticated;
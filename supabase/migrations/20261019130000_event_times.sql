@@ -0,0 +1,147 @@
+-- Event end times, all-day events and time zones. event_date stays the start's wall-clock time,
+-- now in the event's own IANA zone (timezone); start_at/end_at are the first occurrence's UTC
+-- instants, and their difference is every occurrence's length (lib/event-times.ts). All-day events
+-- are dates: start_at/end_at hold UTC midnights of the first day and the day after the last.
+-- Existing events are left without a zone or end: their zone isn't known, and the app reads
+-- them as device-local one-hour events, as before.
+
+alter table public.events
+  add column if not exists start_at timestamptz,
+  add column if not exists end_at timestamptz,
+  add column if not exists all_day boolean not null default false,
+  add column if not exists timezone text;
+
+alter table public.events drop constraint if exists events_end_after_start;
+alter table public.events
+  add constraint events_end_after_start check (end_at is null or start_at is null or end_at >= start_at);
+
+-- The calendar feed writes DTSTART/DTEND with the event's TZID (DATEs for all-day events), like
+-- the app's own export
+create or replace function public.calendar_feed(token text)
+returns public."*/*"
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_events text;
+begin
+  select f.user_id into v_user
+  from public.calendar_feeds f
+  where f.token = calendar_feed.token;
+
+  if v_user is null then
+    raise exception 'Calendar feed not found' using errcode = 'P0002';
+  end if;
+
+  select string_agg(
+    concat_ws(
+      E'\r\n',
+      'BEGIN:VEVENT',
+      'UID:' || coalesce(s.id, e.id) || '@gopx-drive',
+      'DTSTAMP:' || to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'LAST-MODIFIED:' || to_char(e.updated_at at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"'),
+      'DTSTART' || t.params || ':' || to_char(t.start_wall, t.format),
+      'DTEND' || t.params || ':' || to_char(t.end_wall, t.format),
+      public.ics_fold('SUMMARY:' || public.ics_escape(e.title)),
+      case when coalesce(e.description, '') <> ''
+        then public.ics_fold('DESCRIPTION:' || public.ics_escape(e.description)) end,
+      case when s.id is not null
+        then 'RECURRENCE-ID' || st.params || ':'
+          || to_char(e.recurrence_date + st.start_wall::time, st.format) end,
+      -- UNTIL has DTSTART's type, in UTC with a TZID; the whole last day still counts
+      case when s.id is null and r.rrule is not null
+        then 'RRULE:' || regexp_replace(
+          r.rrule,
+          'UNTIL=(\d{8})(;|$)',
+          'UNTIL=' || case
+            when e.all_day then '\1'
+            when e.timezone is null then '\1T235959'
+            else to_char(
+              (to_date(substring(r.rrule from 'UNTIL=(\d{8})'), 'YYYYMMDD') + time '23:59:59')
+                at time zone e.timezone at time zone 'utc',
+              'YYYYMMDD"T"HH24MISS"Z"'
+            )
+          end || '\2'
+        ) end,
+      case when s.id is null and r.rrule is not null and cardinality(e.exdates) > 0
+        then public.ics_fold('EXDATE' || t.params || ':' || (
+          select string_agg(to_char(d + t.start_wall::time, t.format), ',' order by d)
+          from unnest(e.exdates) d
+        )) end,
+      'END:VEVENT'
+    ),
+    E'\r\n' order by e.event_date
+  )
+  into v_events
+  from public.events e
+  left join public.events s on s.id = e.recurrence_id
+  cross join lateral (
+    select coalesce(
+      e.rrule,
+      case when e.repeat_interval in ('daily', 'weekly', 'monthly', 'yearly')
+        then 'FREQ=' || upper(e.repeat_interval) end
+    ) as rrule
+  ) r
+  cross join lateral (
+    select
+      e.event_date::timestamp as start_wall,
+      case
+        when e.all_day then e.event_date::date
+          + greatest(1, round(extract(epoch from coalesce(e.end_at - e.start_at, interval '1 day')) / 86400))::int
+        when e.timezone is not null then
+          ((e.event_date::timestamp at time zone e.timezone) + coalesce(e.end_at - e.start_at, interval '1 hour'))
+            at time zone e.timezone
+        else e.event_date::timestamp + coalesce(e.end_at - e.start_at, interval '1 hour')
+      end as end_wall,
+      case
+        when e.all_day then ';VALUE=DATE'
+        when e.timezone is not null then ';TZID=' || e.timezone
+        else ''
+      end as params,
+      case when e.all_day then 'YYYYMMDD' else 'YYYYMMDD"T"HH24MISS' end as format
+  ) t
+  -- An override's RECURRENCE-ID is in its series' terms
+  left join lateral (
+    select
+      s.event_date::timestamp as start_wall,
+      case
+        when s.all_day then ';VALUE=DATE'
+        when s.timezone is not null then ';TZID=' || s.timezone
+        else ''
+      end as params,
+      case when s.all_day then 'YYYYMMDD' else 'YYYYMMDD"T"HH24MISS' end as format
+  ) st on s.id is not null
+  where e.user_id = v_user;
+
+  perform set_config(
+    'response.headers',
+    json_build_array(
+      json_build_object('Content-Type', 'text/calendar; charset=utf-8'),
+      json_build_object('Content-Disposition', 'inline; filename="calendar.ics"'),
+      json_build_object('Cache-Control', 'private, max-age=900')
+    )::text,
+    true
+  );
+
+  return convert_to(
+    concat_ws(
+      E'\r\n',
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Gopx Drive//Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Gopx Drive',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      v_events,
+      'END:VCALENDAR'
+    ) || E'\r\n',
+    'UTF8'
+  );
+end;
+$$;
+
+grant execute on function public.calendar_feed(text) to anon, authenticated;
@@ -0,0 +1,10 @@
+-- Event reminders: minutes before each occurrence's start to notify at (9 AM on the first day for
+-- all-day events; lib/event-reminders.ts). Notifications are scheduled on each device from the
+-- event list, so a change synced from another device reschedules them there too.
+
+alter table public.events
+  add column if not exists reminders integer[] not null default '{}';
+
+alter table public.events drop constraint if exists events_reminders_not_negative;
+alter table public.events
+  add constraint events_reminders_not_negative check (0 <= all (reminders));